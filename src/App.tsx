@@ -12,6 +12,8 @@ import { CategoriesPage } from "./pages/CategoriesPage";
 import { CategoryPage } from "./pages/CategoryPage";
 import { TransactionsPage } from "./pages/TransactionsPage";
 import { TransactionPage } from "./pages/TransactionPage";
+import { DuplicateTransactionsPage } from "./pages/DuplicateTransactionsPage";
+import { RecurringTransactionsPage } from "./pages/RecurringTransactionsPage";
 import { ExpensesPage } from "./pages/ExpensesPage";
 import { IncomePage } from "./pages/IncomePage";
 import { BudgetsPage } from "./pages/BudgetsPage";
@@ -20,11 +22,13 @@ import { TagPage } from "./pages/TagPage";
 import { AnalyticsPage } from "./pages/AnalyticsPage";
 import { BillsPage } from "./pages/BillsPage";
 import { BillPage } from "./pages/BillPage";
+import { DebtsPage } from "./pages/DebtsPage";
 import { GoalsPage } from "./pages/GoalsPage";
 import { GoalPage } from "./pages/GoalPage";
 import { BudgetPage } from "./pages/BudgetPage";
 import { BankAccountsPage } from "./pages/BankAccountsPage";
 import { BankAccountPage } from "./pages/BankAccountPage";
+import { AccountReconciliationPage } from "./pages/AccountReconciliationPage";
 import { GroupsPage } from "./pages/GroupsPage";
 import { GroupPage } from "./pages/GroupPage";
 import GroupDashboardPage from "./pages/GroupDashboardPage";
@@ -36,10 +40,9 @@ import { DatabaseCheck } from "./components/DatabaseCheck";
 import { ErrorBoundary } from "./shared/components/ErrorBoundary";
 import { ToastProvider } from "./shared/components/Toast";
 import { WelcomeModal } from "./shared/components/WelcomeModal";
-// Translation debugger removed
 import { KeyboardShortcutsProvider } from "./shared/components/KeyboardShortcutsProvider";
 import { ThemeProvider } from "./providers/ThemeProvider";
-// Language provider removed
+import { LanguageProvider } from "./providers/LanguageProvider";
 import { NotificationProvider } from "./contexts/NotificationContext";
 
 function App() {
@@ -68,6 +71,7 @@ function App() {
     <ErrorBoundary>
       <ThemeProvider defaultTheme="system">
         <AuthProvider>
+          <LanguageProvider>
           <NotificationProvider>
             <ToastProvider>
               <Router>
@@ -172,6 +176,26 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="/transactions/duplicates"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary>
+                            <DuplicateTransactionsPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/transactions/recurring"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary>
+                            <RecurringTransactionsPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
                     <Route
                       path="/transactions/:transactionId"
                       element={
@@ -278,6 +302,17 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+                    {/* Debts routes */}
+                    <Route
+                      path="/debts"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary>
+                            <DebtsPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
                     {/* Goals routes */}
                     <Route
                       path="/goals"
@@ -330,6 +365,16 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="/accounts/:id/reconcile"
+                      element={
+                        <ProtectedRoute>
+                          <ErrorBoundary>
+                            <AccountReconciliationPage />
+                          </ErrorBoundary>
+                        </ProtectedRoute>
+                      }
+                    />
                     {/* Groups routes */}
                     <Route
                       path="/groups"
@@ -396,12 +441,11 @@ function App() {
                     onClose={handleWelcomeModalClose}
                     userName={userName}
                   />
-
-                  {/* Translation Debugger removed */}
                 </KeyboardShortcutsProvider>
               </Router>
             </ToastProvider>
           </NotificationProvider>
+          </LanguageProvider>
         </AuthProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -1,10 +1,14 @@
 import { supabase } from "./client";
+import { getCategorySpending } from "./transactionSplits";
+import { getCurrencyConverter } from "./exchangeRates";
+import { getLocale, translate } from "../../i18n";
 
 // Transaction interface for analytics
 export interface Transaction {
   date: string;
   type: string;
   amount: number;
+  currency?: string | null;
   categories?: {
     id: string;
     name: string;
@@ -26,10 +30,20 @@ export async function getExpensesByCategory(
     .select(
       `
       amount,
+      currency,
+      date,
       categories (
         id,
         name,
         color
+      ),
+      transaction_splits (
+        amount,
+        categories (
+          id,
+          name,
+          color
+        )
       )
     `
     )
@@ -41,27 +55,41 @@ export async function getExpensesByCategory(
     return { error };
   }
 
+  const converter = await getCurrencyConverter();
+
   // Group transactions by category
   const categoryMap = new Map();
 
   transactions.forEach((transaction) => {
-    if (!transaction.categories) return;
-
-    const categoryId = transaction.categories.id;
-    const categoryName = transaction.categories.name;
-    const categoryColor = transaction.categories.color;
-    const amount = transaction.amount || 0;
+    // Split transactions are attributed per split line
+    const lines = transaction.transaction_splits?.length
+      ? transaction.transaction_splits
+      : [transaction];
+
+    lines.forEach((line) => {
+      if (!line.categories) return;
+
+      const categoryId = line.categories.id;
+      const categoryName = line.categories.name;
+      const categoryColor = line.categories.color;
+      // Split lines are in the currency of their transaction
+      const amount = converter.convert(
+        line.amount || 0,
+        transaction.currency,
+        transaction.date
+      );
 
-    if (categoryMap.has(categoryId)) {
-      categoryMap.get(categoryId).value += amount;
-    } else {
-      categoryMap.set(categoryId, {
-        id: categoryId,
-        name: categoryName,
-        color: categoryColor,
-        value: amount,
-      });
-    }
+      if (categoryMap.has(categoryId)) {
+        categoryMap.get(categoryId).value += amount;
+      } else {
+        categoryMap.set(categoryId, {
+          id: categoryId,
+          name: categoryName,
+          color: categoryColor,
+          value: amount,
+        });
+      }
+    });
   });
 
   // Convert map to array
@@ -70,18 +98,36 @@ export async function getExpensesByCategory(
   return { data: categoryData, error: null };
 }
 
+// Key for expenses without a category in a trend entry's category breakdown
+export const UNCATEGORIZED_TREND_KEY = "uncategorized";
+
 /**
- * Get spending trend data for a specific date range (grouped by month or day)
+ * Get spending trend data for a specific date range (grouped by month or day).
+ * Each entry also breaks its expenses down by category id, attributing split
+ * transactions per split line.
  */
 export async function getSpendingTrend(
   startDate: string,
   endDate: string,
   groupBy: "day" | "month" = "month"
 ) {
-  // Get all transactions in the date range
+  // Get all income and expenses in the date range; transfers are neither
   const { data: transactions, error } = await supabase
     .from("transactions")
-    .select("date, amount, type")
+    .select(
+      `
+      date,
+      amount,
+      currency,
+      type,
+      category_id,
+      transaction_splits (
+        amount,
+        category_id
+      )
+    `
+    )
+    .in("type", ["income", "expense"])
     .gte("date", startDate)
     .lte("date", endDate)
     .order("date", { ascending: true });
@@ -90,10 +136,12 @@ export async function getSpendingTrend(
     return { error };
   }
 
+  const converter = await getCurrencyConverter();
+
   // Group transactions by date
   const dateMap = new Map();
 
-  transactions.forEach((transaction: Transaction) => {
+  transactions.forEach((transaction) => {
     const date = new Date(transaction.date);
     let groupKey;
 
@@ -105,7 +153,7 @@ export async function getSpendingTrend(
       )}`;
     } else {
       // Format as YYYY-MM-DD
-      groupKey = (transaction as Transaction).date;
+      groupKey = transaction.date;
     }
 
     if (!dateMap.has(groupKey)) {
@@ -113,15 +161,35 @@ export async function getSpendingTrend(
         date: groupKey,
         income: 0,
         expenses: 0,
+        categories: {} as Record<string, number>,
       });
     }
 
     const entry = dateMap.get(groupKey);
+    const amount = converter.convert(
+      transaction.amount || 0,
+      transaction.currency ?? null,
+      transaction.date
+    );
 
-    if ((transaction as Transaction).type === "income") {
-      entry.income += (transaction as Transaction).amount || 0;
+    if (transaction.type === "income") {
+      entry.income += amount;
     } else {
-      entry.expenses += (transaction as Transaction).amount || 0;
+      entry.expenses += amount;
+
+      const lines = transaction.transaction_splits?.length
+        ? transaction.transaction_splits
+        : [transaction];
+      lines.forEach((line) => {
+        const key = line.category_id || UNCATEGORIZED_TREND_KEY;
+        entry.categories[key] =
+          (entry.categories[key] || 0) +
+          converter.convert(
+            line.amount || 0,
+            transaction.currency,
+            transaction.date
+          );
+      });
     }
   });
 
@@ -141,10 +209,23 @@ export async function getIncomeVsExpenses(
   endDate: string,
   groupBy: "day" | "month" = "month"
 ) {
-  // Get all transactions in the date range
+  // Get all income and expenses in the date range; transfers are neither
   const { data: transactions, error } = await supabase
     .from("transactions")
-    .select("date, amount, type")
+    .select(
+      `
+      date,
+      amount,
+      currency,
+      type,
+      category_id,
+      transaction_splits (
+        amount,
+        category_id
+      )
+    `
+    )
+    .in("type", ["income", "expense"])
     .gte("date", startDate)
     .lte("date", endDate)
     .order("date", { ascending: true });
@@ -153,6 +234,8 @@ export async function getIncomeVsExpenses(
     return { error };
   }
 
+  const converter = await getCurrencyConverter();
+
   if (groupBy === "month") {
     // Group transactions by month
     const monthMap = new Map();
@@ -167,7 +250,7 @@ export async function getIncomeVsExpenses(
         date.getFullYear(),
         date.getMonth(),
         1
-      ).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+      ).toLocaleDateString(getLocale(), { month: "short", year: "numeric" });
 
       if (!monthMap.has(monthKey)) {
         monthMap.set(monthKey, {
@@ -179,10 +262,16 @@ export async function getIncomeVsExpenses(
 
       const entry = monthMap.get(monthKey);
 
+      const amount = converter.convert(
+        transaction.amount || 0,
+        transaction.currency,
+        transaction.date
+      );
+
       if ((transaction as Transaction).type === "income") {
-        entry.income += (transaction as Transaction).amount || 0;
+        entry.income += amount;
       } else {
-        entry.expenses += (transaction as Transaction).amount || 0;
+        entry.expenses += amount;
       }
     });
 
@@ -196,7 +285,7 @@ export async function getIncomeVsExpenses(
 
     transactions.forEach((transaction) => {
       const date = (transaction as Transaction).date;
-      const dayName = new Date(date).toLocaleDateString("en-US", {
+      const dayName = new Date(date).toLocaleDateString(getLocale(), {
         month: "short",
         day: "numeric",
       });
@@ -211,10 +300,16 @@ export async function getIncomeVsExpenses(
 
       const entry = dayMap.get(date);
 
+      const amount = converter.convert(
+        transaction.amount || 0,
+        transaction.currency,
+        transaction.date
+      );
+
       if ((transaction as Transaction).type === "income") {
-        entry.income += (transaction as Transaction).amount || 0;
+        entry.income += amount;
       } else {
-        entry.expenses += (transaction as Transaction).amount || 0;
+        entry.expenses += amount;
       }
     });
 
@@ -266,43 +361,38 @@ export async function getBudgetVsActual() {
     return { error: budgetsError };
   }
 
+  // Spending in other currencies counts in the base currency
+  const converter = await getCurrencyConverter();
+
   // For each budget, get actual spending
   const budgetData = await Promise.all(
     budgets.map(async (budget) => {
-      // Get transactions for this category in the date range
-      const { data: transactions, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("amount")
-        .eq("category_id", budget.category_id)
-        .eq("type", "expense")
-        .gte("date", startDate)
-        .lte("date", endDate);
-
-      if (transactionsError) {
-        console.error(
-          "Error fetching transactions for budget:",
-          transactionsError
-        );
+      // Get spending for this category in the date range, per split line
+      const { data: actual, error: spendingError } = await getCategorySpending(
+        budget.category_id,
+        startDate,
+        endDate,
+        converter
+      );
+
+      if (spendingError) {
+        console.error("Error fetching transactions for budget:", spendingError);
         return {
           name: budget.name,
           budget: budget.amount,
           actual: 0,
-          category: budget.categories?.name || "Uncategorized",
+          category:
+            budget.categories?.name || translate("analytics.uncategorized"),
           color: budget.categories?.color || "#CBD5E0",
         };
       }
 
-      // Calculate total spent
-      const actual = transactions.reduce(
-        (sum, t) => sum + ((t as Transaction).amount || 0),
-        0
-      );
-
       return {
         name: budget.name,
         budget: budget.amount,
-        actual,
-        category: budget.categories?.name || "Uncategorized",
+        actual: actual || 0,
+        category:
+          budget.categories?.name || translate("analytics.uncategorized"),
         color: budget.categories?.color || "#CBD5E0",
       };
     })
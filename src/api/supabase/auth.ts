@@ -1,5 +1,6 @@
 import { supabase } from "./client";
 import type { AuthError, AuthResponse } from "@supabase/supabase-js";
+import type { Json } from "../../lib/database.types";
 
 /**
  * Register a new user with email and password
@@ -153,6 +154,7 @@ export async function updateUserSettings(
     theme?: string;
     language?: string;
     notification_enabled?: boolean;
+    notification_preferences?: Json;
   }
 ) {
   const { data, error } = await supabase
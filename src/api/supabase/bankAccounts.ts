@@ -1,5 +1,7 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { getCurrencyConverter } from "./exchangeRates";
 
 export type BankAccount = Database["public"]["Tables"]["bank_accounts"]["Row"];
 export type BankAccountInsert =
@@ -7,6 +9,38 @@ export type BankAccountInsert =
 export type BankAccountUpdate =
   Database["public"]["Tables"]["bank_accounts"]["Update"];
 
+// The transaction fields that move an account's balance
+export type LedgerTransaction = Pick<
+  Database["public"]["Tables"]["transactions"]["Row"],
+  | "id"
+  | "date"
+  | "amount"
+  | "type"
+  | "status"
+  | "description"
+  | "bank_account_id"
+  | "transfer_account_id"
+  | "created_at"
+>;
+
+// A ledger line with the account balance right after it
+export interface LedgerEntry {
+  transaction: LedgerTransaction;
+  change: number;
+  balance: number;
+}
+
+export interface BankAccountLedger {
+  account: BankAccount;
+  // Oldest first
+  entries: LedgerEntry[];
+  ledgerBalance: number;
+  // How far current_balance is from what the ledger adds up to
+  discrepancy: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
 /**
  * Get all bank accounts for the current user
  */
@@ -134,10 +168,107 @@ export async function setDefaultBankAccount(id: string) {
 }
 
 /**
- * Update the balance of a bank account
+ * Get how much a transaction moves an account's balance. Credit balances are
+ * what is owed, so money going in lowers them.
+ */
+export function getLedgerChange(
+  account: Pick<BankAccount, "id" | "account_type">,
+  transaction: Pick<
+    LedgerTransaction,
+    "amount" | "type" | "status" | "bank_account_id" | "transfer_account_id"
+  >
+): number {
+  if (transaction.status === "cancelled") return 0;
+
+  let inflow = 0;
+  if (transaction.type === "transfer") {
+    if (transaction.transfer_account_id === account.id) {
+      inflow += transaction.amount;
+    }
+    if (transaction.bank_account_id === account.id) {
+      inflow -= transaction.amount;
+    }
+  } else if (transaction.bank_account_id === account.id) {
+    inflow =
+      transaction.type === "income" ? transaction.amount : -transaction.amount;
+  }
+
+  return account.account_type === "credit" ? -inflow : inflow;
+}
+
+/**
+ * Build the running balance of an account from its opening balance and its
+ * transactions, oldest first
+ */
+export function buildLedger(
+  account: BankAccount,
+  transactions: LedgerTransaction[]
+): BankAccountLedger {
+  const ordered = [...transactions].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  let balance = account.opening_balance || 0;
+  const entries = ordered.map((transaction) => {
+    const change = getLedgerChange(account, transaction);
+    balance = roundCents(balance + change);
+    return { transaction, change, balance };
+  });
+
+  return {
+    account,
+    entries,
+    ledgerBalance: balance,
+    discrepancy: roundCents(account.current_balance - balance),
+  };
+}
+
+/**
+ * Get an account with its ledger: every transaction linked to it, including
+ * transfers in either direction, with the running balance
+ */
+export async function getBankAccountLedger(
+  id: string
+): Promise<{ data: BankAccountLedger | null; error: PostgrestError | null }> {
+  try {
+    const [accountResult, transactionsResult] = await Promise.all([
+      getBankAccountById(id),
+      supabase
+        .from("transactions")
+        .select(
+          "id, date, amount, type, status, description, bank_account_id, transfer_account_id, created_at"
+        )
+        .or(`bank_account_id.eq.${id},transfer_account_id.eq.${id}`),
+    ]);
+
+    if (accountResult.error) return { data: null, error: accountResult.error };
+    if (transactionsResult.error) {
+      return { data: null, error: transactionsResult.error };
+    }
+
+    return {
+      data: buildLedger(accountResult.data, transactionsResult.data || []),
+      error: null,
+    };
+  } catch (err) {
+    console.error("Unexpected error in getBankAccountLedger:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Update the balance of a bank account by hand. The balance is normally kept
+ * in step with the ledger, so the result reports how far the new balance is
+ * from what the ledger adds up to.
  */
 export async function updateBankAccountBalance(id: string, newBalance: number) {
-  return supabase
+  const { data: ledger, error: ledgerError } = await getBankAccountLedger(id);
+  if (ledgerError || !ledger) {
+    return { data: null, error: ledgerError, discrepancy: 0 };
+  }
+
+  const { data, error } = await supabase
     .from("bank_accounts")
     .update({
       current_balance: newBalance,
@@ -146,6 +277,50 @@ export async function updateBankAccountBalance(id: string, newBalance: number) {
     .eq("id", id)
     .select()
     .single();
+
+  return {
+    data,
+    error,
+    discrepancy: roundCents(newBalance - ledger.ledgerBalance),
+  };
+}
+
+/**
+ * Reset an account's balance to what its ledger adds up to
+ */
+export async function recalculateBankAccountBalance(id: string) {
+  const { data: ledger, error } = await getBankAccountLedger(id);
+  if (error || !ledger) return { data: null, error };
+
+  return supabase
+    .from("bank_accounts")
+    .update({
+      current_balance: ledger.ledgerBalance,
+      last_updated: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Keep an account's current balance and move its opening balance so the
+ * ledger adds up to it
+ */
+export async function alignOpeningBalance(id: string) {
+  const { data: ledger, error } = await getBankAccountLedger(id);
+  if (error || !ledger) return { data: null, error };
+
+  return supabase
+    .from("bank_accounts")
+    .update({
+      opening_balance: roundCents(
+        (ledger.account.opening_balance || 0) + ledger.discrepancy
+      ),
+    })
+    .eq("id", id)
+    .select()
+    .single();
 }
 
 /**
@@ -162,19 +337,30 @@ export async function getBankAccountsByType(
 }
 
 /**
- * Get total balance across all accounts
+ * Get total balance across all accounts, in the base currency at today's rates
  */
 export async function getTotalBalance() {
   const { data, error } = await supabase
     .from("bank_accounts")
-    .select("current_balance, account_type");
+    .select("current_balance, account_type, currency");
 
   if (error) {
     return { data: null, error };
   }
 
+  const converter = await getCurrencyConverter();
+  const today = new Date().toISOString().split("T")[0];
+  const accounts = data.map((account) => ({
+    ...account,
+    current_balance: converter.convert(
+      account.current_balance,
+      account.currency,
+      today
+    ),
+  }));
+
   // Calculate total balance (credit accounts are negative)
-  const totalBalance = (data as BankAccount[]).reduce((sum, account) => {
+  const totalBalance = accounts.reduce((sum, account) => {
     // For credit accounts, the balance is typically negative (what you owe)
     const balance =
       account.account_type === "credit"
@@ -187,20 +373,21 @@ export async function getTotalBalance() {
   return {
     data: {
       totalBalance,
+      currency: converter.baseCurrency,
       // Also calculate totals by account type
-      checking: (data as BankAccount[])
+      checking: accounts
         .filter((a) => a.account_type === "checking")
         .reduce((sum, a) => sum + a.current_balance, 0),
-      savings: (data as BankAccount[])
+      savings: accounts
         .filter((a) => a.account_type === "savings")
         .reduce((sum, a) => sum + a.current_balance, 0),
-      credit: (data as BankAccount[])
+      credit: accounts
         .filter((a) => a.account_type === "credit")
         .reduce((sum, a) => sum + a.current_balance, 0),
-      investment: (data as BankAccount[])
+      investment: accounts
         .filter((a) => a.account_type === "investment")
         .reduce((sum, a) => sum + a.current_balance, 0),
-      other: (data as BankAccount[])
+      other: accounts
         .filter((a) => a.account_type === "other")
         .reduce((sum, a) => sum + a.current_balance, 0),
     },
@@ -1,11 +1,18 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { createTransaction, deleteTransaction } from "./transactions";
+import { getBankAccountById } from "./bankAccounts";
+import { getCurrencyConverter } from "./exchangeRates";
 
 export type Bill = Database["public"]["Tables"]["bills_subscriptions"]["Row"];
 export type BillInsert =
   Database["public"]["Tables"]["bills_subscriptions"]["Insert"];
 export type BillUpdate =
   Database["public"]["Tables"]["bills_subscriptions"]["Update"];
+export type BillPayment =
+  Database["public"]["Tables"]["bill_payments"]["Row"];
+export type BillPaymentUpdate =
+  Database["public"]["Tables"]["bill_payments"]["Update"];
 
 // Extended Bill type with category information
 export interface BillWithCategory extends Bill {
@@ -190,68 +197,52 @@ export async function markBillAsPaid(id: string, paymentDate = new Date()) {
 }
 
 /**
- * Calculate the next due date based on frequency
+ * Calculate the next due date based on frequency: the first occurrence of the
+ * cadence anchored at dueDate that falls on or after fromDate. Monthly and
+ * yearly cadences keep the anchor's day of month, clamped to shorter months.
+ * Dates are handled in UTC so the result doesn't drift with the time zone.
  */
-function calculateNextDueDate(
+export function calculateNextDueDate(
   dueDate: string,
   frequency: "one-time" | "daily" | "weekly" | "monthly" | "yearly",
   fromDate = new Date()
 ): string {
-  const dueDateObj = new Date(dueDate);
-
   // For one-time bills, the next due date is the same as the due date
   if (frequency === "one-time") {
     return dueDate;
   }
 
-  // For recurring bills, calculate the next due date
-  const nextDueDate = new Date(dueDateObj);
-
-  // If the due date is in the past, calculate the next occurrence
-  if (nextDueDate < fromDate) {
-    const dayOfMonth = dueDateObj.getDate();
+  const anchor = new Date(dueDate);
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth();
+  const dayOfMonth = anchor.getUTCDate();
 
+  // The nth occurrence after the anchor
+  const occurrence = (n: number) => {
     switch (frequency) {
       case "daily":
-        // Add days until we're in the future
-        while (nextDueDate < fromDate) {
-          nextDueDate.setDate(nextDueDate.getDate() + 1);
-        }
-        break;
-
+        return new Date(Date.UTC(year, month, dayOfMonth + n));
       case "weekly":
-        // Add weeks until we're in the future
-        while (nextDueDate < fromDate) {
-          nextDueDate.setDate(nextDueDate.getDate() + 7);
-        }
-        break;
-
+        return new Date(Date.UTC(year, month, dayOfMonth + n * 7));
       case "monthly":
-        // Add months until we're in the future
-        while (nextDueDate < fromDate) {
-          nextDueDate.setMonth(nextDueDate.getMonth() + 1);
-        }
-
-        // Try to maintain the same day of month
-        nextDueDate.setDate(
-          Math.min(
-            dayOfMonth,
-            new Date(
-              nextDueDate.getFullYear(),
-              nextDueDate.getMonth() + 1,
-              0
-            ).getDate()
-          )
+      case "yearly": {
+        const months = frequency === "monthly" ? n : n * 12;
+        const daysInMonth = new Date(
+          Date.UTC(year, month + months + 1, 0)
+        ).getUTCDate();
+        return new Date(
+          Date.UTC(year, month + months, Math.min(dayOfMonth, daysInMonth))
         );
-        break;
-
-      case "yearly":
-        // Add years until we're in the future
-        while (nextDueDate < fromDate) {
-          nextDueDate.setFullYear(nextDueDate.getFullYear() + 1);
-        }
-        break;
+      }
     }
+  };
+
+  // If the due date is in the past, step forward to the next occurrence
+  let n = 0;
+  let nextDueDate = occurrence(0);
+  while (nextDueDate < fromDate) {
+    n++;
+    nextDueDate = occurrence(n);
   }
 
   return nextDueDate.toISOString().split("T")[0];
@@ -271,31 +262,122 @@ export async function getBillPaymentHistory(billId: string) {
 }
 
 /**
- * Add a payment record for a bill
+ * Add a payment record for a bill. The amount is in the bill's currency.
+ * Given a bank account, the payment is also recorded as an expense
+ * transaction in the bill's category on that account, converted into the
+ * account's currency as of the payment date.
  */
 export async function addBillPayment(
   billId: string,
   amount: number,
   paymentDate = new Date(),
   paymentMethod?: string,
-  notes?: string
+  notes?: string,
+  bankAccountId?: string
 ) {
+  const date = paymentDate.toISOString().split("T")[0];
+  let transactionId: string | null = null;
+
+  if (bankAccountId) {
+    const { data: bill, error: billError } = await getBillById(billId);
+
+    if (billError || !bill) {
+      return { data: null, error: billError || new Error("Bill not found") };
+    }
+
+    const { data: account, error: accountError } =
+      await getBankAccountById(bankAccountId);
+
+    if (accountError) return { data: null, error: accountError };
+
+    let accountAmount = amount;
+    if (account.currency !== bill.currency) {
+      const converter = await getCurrencyConverter();
+      accountAmount =
+        Math.round(
+          (converter.convert(amount, bill.currency, date) /
+            converter.convert(1, account.currency, date)) *
+            100
+        ) / 100;
+    }
+
+    const { data: transaction, error: transactionError } =
+      await createTransaction({
+        user_id: bill.user_id,
+        amount: accountAmount,
+        description: bill.name,
+        date,
+        type: "expense",
+        category_id: bill.category_id,
+        bank_account_id: bankAccountId,
+        payment_method: paymentMethod || null,
+        notes: notes || null,
+        status: "completed",
+      });
+
+    if (transactionError) {
+      return { data: null, error: transactionError };
+    }
+
+    transactionId = transaction.id;
+  }
+
   const { data, error } = await supabase
     .from("bill_payments")
     .insert({
       bill_id: billId,
       amount,
-      payment_date: paymentDate.toISOString().split("T")[0],
+      payment_date: date,
       payment_method: paymentMethod,
       notes,
+      transaction_id: transactionId,
     })
     .select()
     .single();
 
-  if (!error) {
+  if (error) {
+    // Don't leave an expense behind for a payment that wasn't recorded
+    if (transactionId) {
+      await deleteTransaction(transactionId);
+    }
+  } else {
     // Also mark the bill as paid
     await markBillAsPaid(billId, paymentDate);
   }
 
   return { data, error };
 }
+
+/**
+ * Update a bill payment. Its linked transaction follows the new amount, date
+ * and payment method.
+ */
+export async function updateBillPayment(
+  id: string,
+  updates: Pick<
+    BillPaymentUpdate,
+    "amount" | "payment_date" | "payment_method" | "notes"
+  >
+) {
+  return supabase
+    .from("bill_payments")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a bill payment along with its linked transaction. The bill's last
+ * paid and next due dates are worked out again from the remaining payments
+ * by the database.
+ */
+export async function deleteBillPayment(payment: BillPayment) {
+  // Deleting the transaction takes the payment with it, and re-checks the
+  // budgets the expense counted towards
+  if (payment.transaction_id) {
+    return deleteTransaction(payment.transaction_id);
+  }
+
+  return supabase.from("bill_payments").delete().eq("id", payment.id);
+}
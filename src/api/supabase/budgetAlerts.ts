@@ -0,0 +1,247 @@
+import { supabase } from "./client";
+import { getBudgetHistory } from "./budgets";
+import { calculateGroupBudgetProgress } from "./groupBudgets";
+import { getCurrencyConverter } from "./exchangeRates";
+import {
+  Notification,
+  NotificationInsert,
+  buildBudgetAlert,
+  createNotifications,
+  parseNotificationPreferences,
+} from "./notifications";
+
+// Where a transaction sits before or after a change. Budgets covering the
+// category on that date are re-checked.
+export interface BudgetAlertChange {
+  category_id: string | null;
+  date: string;
+}
+
+type BudgetAlertResult = { data: Notification[]; error: Error | null };
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [50, 80, 100];
+
+/**
+ * Format alert thresholds for editing, e.g. "50, 80, 100"
+ */
+export function formatAlertThresholds(thresholds: number[]): string {
+  return thresholds.join(", ");
+}
+
+/**
+ * Parse comma-separated alert thresholds into sorted, unique whole
+ * percentages. Returns null when an entry isn't a percentage from 1 to 1000;
+ * an empty value means no alerts.
+ */
+export function parseAlertThresholds(value: string): number[] | null {
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim().replace(/%$/, ""))
+    .filter((entry) => entry !== "");
+
+  const thresholds: number[] = [];
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) return null;
+    const threshold = parseInt(entry, 10);
+    if (threshold < 1 || threshold > 1000) return null;
+    thresholds.push(threshold);
+  }
+
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Get the categories touched by a set of changes, without duplicates
+ */
+function getChangedCategories(changes: BudgetAlertChange[]): string[] {
+  return Array.from(
+    new Set(
+      changes
+        .map((change) => change.category_id)
+        .filter((categoryId): categoryId is string => !!categoryId)
+    )
+  );
+}
+
+/**
+ * Check whether a change falls in a category and period
+ */
+function affectsPeriod(
+  changes: BudgetAlertChange[],
+  categoryId: string,
+  start: string,
+  end: string
+): boolean {
+  return changes.some(
+    (change) =>
+      change.category_id === categoryId &&
+      change.date >= start &&
+      change.date <= end
+  );
+}
+
+/**
+ * Get the signed-in user when they want budget alerts
+ */
+async function getAlertRecipient(): Promise<string | null> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return null;
+
+  const { data: settings } = await supabase
+    .from("user_settings")
+    .select("notification_enabled, notification_preferences")
+    .eq("id", userData.user.id)
+    .maybeSingle();
+
+  if (settings && !settings.notification_enabled) return null;
+  if (
+    !parseNotificationPreferences(settings?.notification_preferences)
+      .budget_alert
+  ) {
+    return null;
+  }
+
+  return userData.user.id;
+}
+
+/**
+ * Re-check the alert thresholds of the user's budgets after transactions
+ * changed. Only budgets whose current period contains one of the changes are
+ * looked at; a threshold raises one notification per period.
+ */
+export async function checkBudgetAlerts(
+  changes: BudgetAlertChange[]
+): Promise<BudgetAlertResult> {
+  try {
+    const categoryIds = getChangedCategories(changes);
+    if (categoryIds.length === 0) return { data: [], error: null };
+
+    const userId = await getAlertRecipient();
+    if (!userId) return { data: [], error: null };
+
+    const today = toDateString(new Date());
+    const { data: budgets, error } = await supabase
+      .from("budgets")
+      .select(
+        `
+        *,
+        categories (
+          name
+        )
+      `
+      )
+      .in("category_id", categoryIds)
+      .lte("start_date", today)
+      .or(`end_date.is.null,end_date.gte.${today}`);
+
+    if (error) return { data: [], error };
+
+    const converter = await getCurrencyConverter();
+    const alerts: NotificationInsert[] = [];
+
+    for (const budget of budgets || []) {
+      const { data: history, error: historyError } = await getBudgetHistory(
+        budget,
+        converter
+      );
+      if (historyError) {
+        console.error("Error loading budget history:", historyError);
+        continue;
+      }
+
+      const current = history?.[history.length - 1];
+      if (
+        !current ||
+        !affectsPeriod(changes, budget.category_id, current.start, current.end)
+      ) {
+        continue;
+      }
+
+      const alert = buildBudgetAlert(userId, {
+        id: budget.id,
+        name: budget.name,
+        categoryName: budget.categories?.name || null,
+        spent: current.spent,
+        available: current.allocated + current.carriedIn,
+        periodStart: current.start,
+        thresholds: budget.alert_thresholds,
+      });
+      if (alert) alerts.push(alert);
+    }
+
+    const { data, error: createError } = await createNotifications(alerts);
+    return { data: data || [], error: createError };
+  } catch (err) {
+    console.error("Unexpected error in checkBudgetAlerts:", err);
+    return { data: [], error: err as Error };
+  }
+}
+
+/**
+ * Re-check the alert thresholds of a group's budgets after group transactions
+ * changed. Alerts go to the member who made the change; every member sees
+ * their own alerts from the periodic check.
+ */
+export async function checkGroupBudgetAlerts(
+  groupId: string,
+  changes: BudgetAlertChange[]
+): Promise<BudgetAlertResult> {
+  try {
+    const categoryIds = getChangedCategories(changes);
+    if (categoryIds.length === 0) return { data: [], error: null };
+
+    const userId = await getAlertRecipient();
+    if (!userId) return { data: [], error: null };
+
+    const { data: budgets, error } = await supabase
+      .from("group_budgets")
+      .select("id, name, category_id, categories(name)")
+      .eq("group_id", groupId)
+      .in("category_id", categoryIds);
+
+    if (error) return { data: [], error };
+
+    const alerts: NotificationInsert[] = [];
+
+    for (const budget of budgets || []) {
+      const { data: progress, error: progressError } =
+        await calculateGroupBudgetProgress(budget.id);
+      if (progressError || !progress) {
+        console.error("Error calculating budget progress:", progressError);
+        continue;
+      }
+
+      if (
+        progress.alertThreshold === null ||
+        !affectsPeriod(
+          changes,
+          budget.category_id,
+          progress.periodStart,
+          progress.periodEnd
+        )
+      ) {
+        continue;
+      }
+
+      const alert = buildBudgetAlert(userId, {
+        id: budget.id,
+        name: budget.name,
+        categoryName: budget.categories?.name || null,
+        groupId,
+        spent: progress.spentAmount,
+        available: progress.budgetAmount,
+        periodStart: progress.periodStart,
+        thresholds: [progress.alertThreshold],
+      });
+      if (alert) alerts.push(alert);
+    }
+
+    const { data, error: createError } = await createNotifications(alerts);
+    return { data: data || [], error: createError };
+  } catch (err) {
+    console.error("Unexpected error in checkGroupBudgetAlerts:", err);
+    return { data: [], error: err as Error };
+  }
+}
@@ -1,5 +1,12 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { GroupActivityFilters, logGroupActivity } from "./groupActivity";
+import {
+  canManageGroupMember,
+  getAssignableGroupRoles,
+  hasGroupPermission,
+  requireGroupPermission,
+} from "./groupPermissions";
 // We need to extend the SupabaseClient type but don't use it directly
 
 // Extend the SupabaseClient type to include our custom RPC functions
@@ -64,6 +71,8 @@ export async function getBudgetGroups() {
           created_by,
           is_active,
           avatar_url,
+          child_limits,
+          approval_rules,
           created_at,
           updated_at
         )
@@ -212,42 +221,15 @@ export async function createBudgetGroup(group: BudgetGroupInsert) {
 
     console.log("Group member added successfully");
 
-    try {
-      // Add an activity log entry
-      // Try with the full schema first
-      try {
-        await supabase.from("group_activity_log").insert({
-          group_id: newGroup.id,
-          user_id: group.created_by,
-          action: "created_group",
-          entity_type: "group",
-          entity_id: newGroup.id,
-          details: { group_name: group.name },
-        });
-        console.log("Group activity logged successfully");
-      } catch (fullSchemaError) {
-        console.warn(
-          "Error with full schema logging, trying fallback:",
-          fullSchemaError
-        );
-
-        // Fallback to minimal schema if the full schema fails
-        await supabase.from("group_activity_log").insert({
-          group_id: newGroup.id,
-          user_id: group.created_by,
-          action: "created_group",
-          entity_type: "group", // Required by the type system
-          entity_id: newGroup.id, // Required by the type system
-          details: {
-            group_name: group.name,
-          },
-        });
-        console.log("Group activity logged successfully with fallback");
-      }
-    } catch (logError) {
-      // Don't fail if activity logging fails
-      console.warn("Error logging group activity:", logError);
-    }
+    await logGroupActivity({
+      groupId: newGroup.id,
+      userId: group.created_by,
+      action: "created_group",
+      entityType: "group",
+      entityId: newGroup.id,
+      after: newGroup,
+      summary: { group_name: group.name },
+    });
 
     return { data: newGroup, error: null };
   } catch (err) {
@@ -257,12 +239,24 @@ export async function createBudgetGroup(group: BudgetGroupInsert) {
 }
 
 /**
- * Update a budget group
+ * Update a budget group. Only owners can change the limits for children and
+ * the approval rules.
  */
 export async function updateBudgetGroup(
   id: string,
   updates: BudgetGroupUpdate
 ) {
+  const denied = await requireGroupPermission(
+    id,
+    (access) =>
+      hasGroupPermission(access, "editSettings") &&
+      (updates.child_limits === undefined ||
+        hasGroupPermission(access, "manageChildLimits")) &&
+      (updates.approval_rules === undefined ||
+        hasGroupPermission(access, "manageApprovalRules"))
+  );
+  if (denied) return { data: null, error: denied };
+
   return supabase
     .from("budget_groups")
     .update(updates)
@@ -275,6 +269,9 @@ export async function updateBudgetGroup(
  * Delete a budget group
  */
 export async function deleteBudgetGroup(id: string) {
+  const denied = await requireGroupPermission(id, "deleteGroup");
+  if (denied) return { data: null, error: denied };
+
   return supabase.from("budget_groups").delete().eq("id", id);
 }
 
@@ -381,11 +378,59 @@ export async function getUserRole(groupId: string, userId: string) {
   }
 }
 
+// Values the activity feed shows for a member
+const memberSummary = (
+  member: Pick<GroupMember, "user_id" | "role" | "family_role">
+) => ({
+  member_id: member.user_id,
+  role: member.role,
+  family_role: member.family_role,
+});
+
 /**
- * Add a member to a budget group
+ * Get a member's current record, to log what a change replaced
+ */
+async function getGroupMember(groupId: string, userId: string) {
+  const { data } = await supabase
+    .from("group_members")
+    .select("*")
+    .eq("group_id", groupId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Add a member to a budget group. Users add themselves when they accept an
+ * invitation.
  */
 export async function addGroupMember(member: GroupMemberInsert) {
-  return supabase.from("group_members").insert(member).select().single();
+  const denied = await requireGroupPermission(
+    member.group_id,
+    (access) =>
+      access.userId === member.user_id ||
+      (hasGroupPermission(access, "manageMembers") &&
+        getAssignableGroupRoles(access).includes(member.role))
+  );
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
+    .from("group_members")
+    .insert(member)
+    .select()
+    .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId: result.data.group_id,
+      action: "added_member",
+      entityType: "member",
+      entityId: result.data.user_id,
+      after: result.data,
+      summary: memberSummary(result.data),
+    });
+  }
+  return result;
 }
 
 /**
@@ -396,28 +441,83 @@ export async function updateGroupMember(
   userId: string,
   updates: GroupMemberUpdate
 ) {
-  return supabase
+  const previous = await getGroupMember(groupId, userId);
+
+  const denied = await requireGroupPermission(
+    groupId,
+    (access) =>
+      !!previous &&
+      canManageGroupMember(access, previous, access.userId === userId) &&
+      (updates.role === undefined ||
+        getAssignableGroupRoles(access).includes(updates.role))
+  );
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("group_members")
     .update(updates)
     .eq("group_id", groupId)
     .eq("user_id", userId)
     .select()
     .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId,
+      action: "updated_member",
+      entityType: "member",
+      entityId: userId,
+      before: previous,
+      after: result.data,
+      summary: memberSummary(result.data),
+    });
+  }
+  return result;
 }
 
 /**
- * Remove a member from a budget group
+ * Remove a member from a budget group. Members other than the owner can also
+ * remove themselves to leave the group.
  */
 export async function removeGroupMember(groupId: string, userId: string) {
-  return supabase
+  const previous = await getGroupMember(groupId, userId);
+
+  const denied = await requireGroupPermission(groupId, (access) =>
+    access.userId === userId
+      ? access.role !== "owner"
+      : !!previous && canManageGroupMember(access, previous, false)
+  );
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("group_members")
     .delete()
     .eq("group_id", groupId)
     .eq("user_id", userId);
+
+  if (!result.error && previous) {
+    await logGroupActivity({
+      groupId,
+      action: "removed_member",
+      entityType: "member",
+      entityId: userId,
+      before: previous,
+      summary: memberSummary(previous),
+    });
+  }
+  return result;
 }
 
 // Group Invitations
 
+// Values the activity feed shows for an invitation
+const invitationSummary = (
+  invitation: Pick<GroupInvitation, "email" | "role">
+) => ({
+  email: invitation.email,
+  role: invitation.role,
+});
+
 /**
  * Get all invitations for a budget group
  */
@@ -564,6 +664,11 @@ export async function createInvitation(
   try {
     console.log("Creating invitation with data:", invitation);
 
+    const denied = await requireGroupPermission(invitation.group_id, (access) =>
+      getAssignableGroupRoles(access).includes(invitation.role)
+    );
+    if (denied) return { data: null, error: denied };
+
     // Generate a token using the server function or create a random one if that fails
     let token: string;
     try {
@@ -617,6 +722,14 @@ export async function createInvitation(
     }
 
     console.log("Invitation created successfully:", data);
+    await logGroupActivity({
+      groupId: data.group_id,
+      action: "created",
+      entityType: "invitation",
+      entityId: data.id,
+      after: data,
+      summary: invitationSummary(data),
+    });
 
     // Try to send an invitation email
     try {
@@ -668,25 +781,81 @@ export async function createInvitation(
 }
 
 /**
- * Update an invitation
+ * Update an invitation. A change of status is logged as the invitation being
+ * accepted, rejected or expiring. Invited users can only change the status.
  */
 export async function updateInvitation(
   id: string,
   updates: GroupInvitationUpdate
 ) {
-  return supabase
+  const { data: previous } = await supabase
+    .from("group_invitations")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (previous) {
+    const statusOnly = Object.keys(updates).every((key) => key === "status");
+    const denied = await requireGroupPermission(
+      previous.group_id,
+      (access) => statusOnly || hasGroupPermission(access, "inviteMembers")
+    );
+    if (denied) return { data: null, error: denied };
+  }
+
+  const result = await supabase
     .from("group_invitations")
     .update(updates)
     .eq("id", id)
     .select()
     .single();
+
+  if (result.data) {
+    const statusChanged = previous && previous.status !== result.data.status;
+    await logGroupActivity({
+      groupId: result.data.group_id,
+      action: statusChanged ? result.data.status : "updated",
+      entityType: "invitation",
+      entityId: id,
+      before: previous,
+      after: result.data,
+      summary: invitationSummary(result.data),
+    });
+  }
+  return result;
 }
 
 /**
  * Delete an invitation
  */
 export async function deleteInvitation(id: string) {
-  return supabase.from("group_invitations").delete().eq("id", id);
+  const { data: previous } = await supabase
+    .from("group_invitations")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (previous) {
+    const denied = await requireGroupPermission(
+      previous.group_id,
+      "inviteMembers"
+    );
+    if (denied) return { data: null, error: denied };
+  }
+
+  const result = await supabase.from("group_invitations").delete().eq("id", id);
+
+  if (!result.error && previous) {
+    await logGroupActivity({
+      groupId: previous.group_id,
+      action: "deleted",
+      entityType: "invitation",
+      entityId: id,
+      before: previous,
+      summary: invitationSummary(previous),
+    });
+  }
+  return result;
 }
 
 /**
@@ -776,73 +945,64 @@ export async function rejectInvitation(token: string) {
 // Group Activity
 
 /**
- * Get activity log for a budget group
+ * Get activity log for a budget group, newest first, optionally narrowed down
+ * to one member, one kind of entity or a date range
  */
-export async function getGroupActivity(groupId: string, limit = 20) {
+export async function getGroupActivity(
+  groupId: string,
+  limit = 20,
+  filters: GroupActivityFilters = {}
+) {
   try {
-    console.log(`Getting activity for group ${groupId}`);
+    console.log(`Getting activity for group ${groupId}`, filters);
 
-    // Try with the full join first
-    try {
-      const { data, error } = await supabase
-        .from("group_activity_log")
-        .select("*")
-        .eq("group_id", groupId)
-        .order("created_at", { ascending: false })
-        .limit(limit);
-
-      if (!error) {
-        console.log("Group activity data:", data);
-        return { data, error: null };
-      }
+    let query = supabase
+      .from("group_activity_log")
+      .select("*")
+      .eq("group_id", groupId);
 
-      // If there's an error with the join, log it but continue to fallback
-      console.warn("Error with full join, trying fallback:", error);
-    } catch (joinErr) {
-      console.warn("Exception with full join, trying fallback:", joinErr);
+    if (filters.userId) query = query.eq("user_id", filters.userId);
+    if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+    if (filters.from) query = query.gte("created_at", filters.from);
+    if (filters.to) {
+      // Include the whole last day
+      const to = new Date(filters.to);
+      to.setDate(to.getDate() + 1);
+      query = query.lt("created_at", to.toISOString().split("T")[0]);
     }
 
-    // Fallback: just get the basic data without the joins
-    const { data, error } = await supabase
-      .from("group_activity_log")
-      .select("*")
-      .eq("group_id", groupId)
+    const { data, error } = await query
       .order("created_at", { ascending: false })
       .limit(limit);
 
     if (error) {
-      console.error("Error getting group activity (fallback):", error);
+      console.error("Error getting group activity:", error);
       return { data: [], error };
     }
 
-    // Manually enrich the data with user information if needed
-    const enrichedData = await Promise.all(
-      (data || []).map(async (activity) => {
-        if (!activity.user_id) return activity;
+    // Add the profile of whoever did each thing
+    const userIds = [
+      ...new Set((data || []).map((activity) => activity.user_id)),
+    ];
+    const { data: userProfiles, error: profilesError } = userIds.length
+      ? await supabase.from("user_profiles").select("*").in("id", userIds)
+      : { data: [], error: null };
 
-        try {
-          // Get user profile information
-          const { data: userData } = await supabase
-            .from("user_profiles")
-            .select("*")
-            .eq("id", activity.user_id)
-            .single();
-
-          return {
-            ...activity,
-            user: {
-              id: activity.user_id,
-              user_profiles: userData || null,
-            },
-          };
-        } catch (userErr) {
-          console.warn("Error enriching user data:", userErr);
-          return activity;
-        }
-      })
-    );
+    if (profilesError) {
+      console.warn("Could not fetch user profiles:", profilesError);
+    }
 
-    console.log("Group activity data (fallback method):", enrichedData);
+    const enrichedData = (data || []).map((activity) => ({
+      ...activity,
+      user: {
+        id: activity.user_id,
+        user_profiles:
+          userProfiles?.find((profile) => profile.id === activity.user_id) ||
+          null,
+      },
+    }));
+
+    console.log("Group activity data:", enrichedData);
     return { data: enrichedData, error: null };
   } catch (err) {
     console.error("Unexpected error in getGroupActivity:", err);
@@ -852,6 +1012,21 @@ export async function getGroupActivity(groupId: string, limit = 20) {
 
 // Shared Resources
 
+/**
+ * Get the name of a shared category or budget for the activity feed
+ */
+async function getSharedItemSummary(
+  table: "categories" | "budgets",
+  id: string
+) {
+  const { data } = await supabase
+    .from(table)
+    .select("name")
+    .eq("id", id)
+    .maybeSingle();
+  return { name: data?.name || null };
+}
+
 /**
  * Share a category with a group
  */
@@ -860,7 +1035,10 @@ export async function shareCategory(
   categoryId: string,
   userId: string
 ) {
-  return supabase
+  const denied = await requireGroupPermission(groupId, "shareItems");
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("shared_categories")
     .insert({
       group_id: groupId,
@@ -869,17 +1047,46 @@ export async function shareCategory(
     })
     .select()
     .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId,
+      userId,
+      action: "shared",
+      entityType: "shared_category",
+      entityId: categoryId,
+      after: result.data,
+      summary: await getSharedItemSummary("categories", categoryId),
+    });
+  }
+  return result;
 }
 
 /**
  * Unshare a category from a group
  */
 export async function unshareCategory(groupId: string, categoryId: string) {
-  return supabase
+  const denied = await requireGroupPermission(groupId, "shareItems");
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("shared_categories")
     .delete()
     .eq("group_id", groupId)
-    .eq("category_id", categoryId);
+    .eq("category_id", categoryId)
+    .select();
+
+  if (result.data?.length) {
+    await logGroupActivity({
+      groupId,
+      action: "unshared",
+      entityType: "shared_category",
+      entityId: categoryId,
+      before: result.data[0],
+      summary: await getSharedItemSummary("categories", categoryId),
+    });
+  }
+  return result;
 }
 
 /**
@@ -927,7 +1134,10 @@ export async function shareBudget(
   budgetId: string,
   userId: string
 ) {
-  return supabase
+  const denied = await requireGroupPermission(groupId, "shareItems");
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("shared_budgets")
     .insert({
       group_id: groupId,
@@ -936,17 +1146,46 @@ export async function shareBudget(
     })
     .select()
     .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId,
+      userId,
+      action: "shared",
+      entityType: "shared_budget",
+      entityId: budgetId,
+      after: result.data,
+      summary: await getSharedItemSummary("budgets", budgetId),
+    });
+  }
+  return result;
 }
 
 /**
  * Unshare a budget from a group
  */
 export async function unshareBudget(groupId: string, budgetId: string) {
-  return supabase
+  const denied = await requireGroupPermission(groupId, "shareItems");
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
     .from("shared_budgets")
     .delete()
     .eq("group_id", groupId)
-    .eq("budget_id", budgetId);
+    .eq("budget_id", budgetId)
+    .select();
+
+  if (result.data?.length) {
+    await logGroupActivity({
+      groupId,
+      action: "unshared",
+      entityType: "shared_budget",
+      entityId: budgetId,
+      before: result.data[0],
+      summary: await getSharedItemSummary("budgets", budgetId),
+    });
+  }
+  return result;
 }
 
 /**
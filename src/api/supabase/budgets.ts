@@ -1,10 +1,200 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subDays,
+} from "date-fns";
+import { getCategorySpendingEntries } from "./transactionSplits";
+import { getCurrencyConverter, CurrencyConverter } from "./exchangeRates";
 
 export type Budget = Database["public"]["Tables"]["budgets"]["Row"];
 export type BudgetInsert = Database["public"]["Tables"]["budgets"]["Insert"];
 export type BudgetUpdate = Database["public"]["Tables"]["budgets"]["Update"];
 
+// One period of a budget, from its first day to its last
+export interface BudgetPeriodRange {
+  start: string;
+  end: string;
+}
+
+// What happened to a budget in one period. Without rollover nothing is
+// carried and every period starts from the budget amount alone.
+export interface BudgetPeriod extends BudgetPeriodRange {
+  allocated: number;
+  // Surplus (or deficit, when negative) brought in from the previous period
+  carriedIn: number;
+  spent: number;
+  // Left over at the end of the period and carried into the next one
+  carriedOut: number;
+}
+
+// Budgets without rollover only need recent history
+const HISTORY_PERIODS = 12;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Get the first day of the budget period containing a date. Weeks start on
+ * Sunday.
+ */
+function getPeriodStart(period: Budget["period"], date: Date): Date {
+  switch (period) {
+    case "daily":
+      return date;
+    case "weekly":
+      return startOfWeek(date);
+    case "yearly":
+      return startOfYear(date);
+    default:
+      return startOfMonth(date);
+  }
+}
+
+function getNextPeriodStart(period: Budget["period"], start: Date): Date {
+  switch (period) {
+    case "daily":
+      return addDays(start, 1);
+    case "weekly":
+      return addWeeks(start, 1);
+    case "yearly":
+      return addYears(start, 1);
+    default:
+      return addMonths(start, 1);
+  }
+}
+
+/**
+ * Get the periods of a budget from its start date up to the period containing
+ * a date (today by default), clipped to the budget's start and end dates
+ */
+export function getBudgetPeriods(
+  budget: Pick<Budget, "period" | "start_date" | "end_date">,
+  through: string = toDateString(new Date())
+): BudgetPeriodRange[] {
+  const last =
+    budget.end_date && budget.end_date < through ? budget.end_date : through;
+  const periods: BudgetPeriodRange[] = [];
+
+  let start = getPeriodStart(budget.period, parseISO(budget.start_date));
+  while (toDateString(start) <= last) {
+    const next = getNextPeriodStart(budget.period, start);
+    const end = toDateString(subDays(next, 1));
+
+    periods.push({
+      start:
+        toDateString(start) < budget.start_date
+          ? budget.start_date
+          : toDateString(start),
+      end: budget.end_date && budget.end_date < end ? budget.end_date : end,
+    });
+    start = next;
+  }
+
+  return periods;
+}
+
+/**
+ * Work out allocated, spent and carried amounts for each period, carrying
+ * surpluses and deficits forward when the budget has rollover enabled
+ */
+export function buildBudgetHistory(
+  budget: Pick<Budget, "amount" | "rollover">,
+  periods: BudgetPeriodRange[],
+  spending: { date: string; amount: number }[]
+): BudgetPeriod[] {
+  let carried = 0;
+
+  return periods.map((period) => {
+    const spent = roundCents(
+      spending
+        .filter(
+          (entry) => entry.date >= period.start && entry.date <= period.end
+        )
+        .reduce((sum, entry) => sum + entry.amount, 0)
+    );
+    const carriedIn = budget.rollover ? carried : 0;
+    const carriedOut = budget.rollover
+      ? roundCents(budget.amount + carriedIn - spent)
+      : 0;
+    carried = carriedOut;
+
+    return {
+      ...period,
+      allocated: budget.amount,
+      carriedIn,
+      spent,
+      carriedOut,
+    };
+  });
+}
+
+/**
+ * Get the period history of a budget, oldest first. Rollover budgets go back
+ * to their start date since every period feeds the next; others only cover
+ * the most recent periods.
+ */
+export async function getBudgetHistory(
+  budget: Pick<
+    Budget,
+    "amount" | "rollover" | "category_id" | "period" | "start_date" | "end_date"
+  >,
+  converter?: CurrencyConverter
+): Promise<{ data: BudgetPeriod[] | null; error: PostgrestError | null }> {
+  const allPeriods = getBudgetPeriods(budget);
+  const periods = budget.rollover
+    ? allPeriods
+    : allPeriods.slice(-HISTORY_PERIODS);
+
+  if (periods.length === 0) return { data: [], error: null };
+
+  const { data: spending, error } = await getCategorySpendingEntries(
+    budget.category_id,
+    periods[0].start,
+    periods[periods.length - 1].end,
+    converter
+  );
+  if (error || !spending) return { data: null, error };
+
+  return { data: buildBudgetHistory(budget, periods, spending), error: null };
+}
+
+/**
+ * Get the period history of several budgets, keyed by budget id. Budgets whose
+ * spending can't be loaded are left out.
+ */
+export async function getBudgetHistories(
+  budgets: Budget[]
+): Promise<Record<string, BudgetPeriod[]>> {
+  const converter = await getCurrencyConverter();
+
+  const histories = await Promise.all(
+    budgets.map(async (budget) => {
+      const { data, error } = await getBudgetHistory(budget, converter);
+      if (error) {
+        console.error("Error fetching transactions for budget:", error);
+      }
+      return [budget.id, data] as const;
+    })
+  );
+
+  return Object.fromEntries(
+    histories.filter(
+      (entry): entry is readonly [string, BudgetPeriod[]] => entry[1] !== null
+    )
+  );
+}
+
 /**
  * Get current active budgets with spending information
  */
@@ -31,67 +221,31 @@ export async function getCurrentBudgets() {
     return { error: budgetsError };
   }
 
-  // For each budget, calculate the amount spent
+  // Spending in other currencies counts in the base currency
+  const converter = await getCurrencyConverter();
+
+  // For each budget, work out the current period and what came before it
   const budgetsWithSpending = await Promise.all(
     budgets.map(async (budget) => {
-      // Determine date range based on budget period
-      let startDate = new Date(budget.start_date);
-      const endDate = budget.end_date ? new Date(budget.end_date) : new Date();
-
-      // Adjust date range based on budget period
-      if (budget.period === "monthly") {
-        // If monthly, use current month
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1);
-      } else if (budget.period === "weekly") {
-        // If weekly, use current week
-        const day = endDate.getDay();
-        startDate = new Date(endDate);
-        startDate.setDate(endDate.getDate() - day);
-      } else if (budget.period === "yearly") {
-        // If yearly, use current year
-        startDate = new Date(endDate.getFullYear(), 0, 1);
-      }
+      const { data: history, error: historyError } = await getBudgetHistory(
+        budget,
+        converter
+      );
 
-      // Format dates for query
-      const formattedStartDate = startDate.toISOString().split("T")[0];
-      const formattedEndDate = endDate.toISOString().split("T")[0];
-
-      // Get transactions for this category in the date range
-      const { data: transactions, error: transactionsError } = await supabase
-        .from("transactions")
-        .select("amount")
-        .eq("category_id", budget.category_id)
-        .eq("type", "expense")
-        .gte("date", formattedStartDate)
-        .lte("date", formattedEndDate);
-
-      if (transactionsError) {
-        console.error(
-          "Error fetching transactions for budget:",
-          transactionsError
-        );
-        return {
-          ...budget,
-          spent: 0,
-          category_name: budget.categories?.name,
-          category_color: budget.categories?.color,
-        };
+      if (historyError) {
+        console.error("Error fetching transactions for budget:", historyError);
       }
 
-      // Calculate total spent
-// Transaction interface for budgets
-interface Transaction {
-  amount: number;
-  [key: string]: unknown;
-}
-      const spent = transactions.reduce(
-        (sum, t) => sum + ((t as Transaction).amount || 0),
-        0
-      );
+      const current = history?.[history.length - 1];
+      const carriedOver = current?.carriedIn || 0;
 
       return {
         ...budget,
-        spent,
+        spent: current?.spent || 0,
+        carried_over: carriedOver,
+        // What can be spent this period, including anything carried over
+        available: roundCents(budget.amount + carriedOver),
+        history: history || [],
         category_name: budget.categories?.name,
         category_color: budget.categories?.color,
       };
@@ -0,0 +1,419 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { getSpendingTrend, UNCATEGORIZED_TREND_KEY } from "./analytics";
+import { getLedgerChange } from "./bankAccounts";
+import { calculateNextDueDate } from "./bills";
+import { getCurrencyConverter } from "./exchangeRates";
+import {
+  getNextOccurrence,
+  hasRecurringEnded,
+  isRecurringTransferBroken,
+} from "./recurringTransactions";
+
+type BankAccount = Database["public"]["Tables"]["bank_accounts"]["Row"];
+type Bill = Database["public"]["Tables"]["bills_subscriptions"]["Row"];
+type RecurringTransaction =
+  Database["public"]["Tables"]["recurring_transactions"]["Row"];
+
+export type ForecastHorizon = 30 | 60 | 90;
+
+export const FORECAST_HORIZONS: ForecastHorizon[] = [30, 60, 90];
+
+// Full months of history the discretionary spending average is taken over
+const TRAILING_MONTHS = 3;
+
+// A scheduled bill or recurring transaction landing in an account
+export interface ForecastEvent {
+  date: string;
+  accountId: string;
+  description: string;
+  // Positive for money coming in, negative for money going out
+  amount: number;
+  kind: "bill" | "recurring";
+}
+
+export interface ForecastAccount {
+  id: string;
+  name: string;
+  accountType: BankAccount["account_type"];
+  currency: string;
+  color: string | null;
+  startingBalance: number;
+  // The worst day: the lowest balance, or for credit accounts the most owed
+  lowPoint: { date: string; balance: number };
+  // Days the balance is projected below zero; never set for credit accounts,
+  // whose balance is what is owed
+  shortfallDates: string[];
+}
+
+// Projected end-of-day balance of every account, by account id
+export interface ForecastDay {
+  date: string;
+  balances: Record<string, number>;
+}
+
+export interface CashFlowForecast {
+  startDate: string;
+  endDate: string;
+  // Account bills and discretionary spending are drawn from
+  payingAccountId: string | null;
+  // Average daily discretionary spending, in the paying account's currency
+  dailyDiscretionary: number;
+  accounts: ForecastAccount[];
+  days: ForecastDay[];
+  events: ForecastEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const addDays = (date: string, days: number) =>
+  toDateString(new Date(Date.parse(date) + days * DAY_MS));
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get how much money moving in or out of an account changes its balance, the
+ * way the ledger does: credit balances are what is owed, so spending raises
+ * them and payments lower them
+ */
+function getBalanceChange(
+  account: Pick<BankAccount, "id" | "account_type">,
+  amount: number
+) {
+  return getLedgerChange(account, {
+    type: amount >= 0 ? "income" : "expense",
+    amount: Math.abs(amount),
+    status: "pending",
+    bank_account_id: account.id,
+    transfer_account_id: null,
+  });
+}
+
+/**
+ * Pick the account bills and everyday spending are paid from when the user
+ * hasn't chosen one: the default account, else the first checking account
+ */
+export function getDefaultPayingAccount(
+  accounts: BankAccount[]
+): BankAccount | null {
+  return (
+    accounts.find((account) => account.is_default) ||
+    accounts.find((account) => account.account_type === "checking") ||
+    accounts[0] ||
+    null
+  );
+}
+
+/**
+ * Get the due dates of a bill up to and including a date. Overdue bills are
+ * still owed, so they are projected for today; anything on or before the last
+ * payment is settled.
+ */
+function getBillDueDates(bill: Bill, today: string, endDate: string) {
+  const anchor = bill.due_date || bill.next_due_date;
+  if (!anchor) return [];
+
+  const dates: string[] = [];
+  let date =
+    bill.next_due_date ||
+    calculateNextDueDate(anchor, bill.frequency, new Date(today));
+
+  while (date <= endDate) {
+    if (!bill.last_paid_date || date > bill.last_paid_date) {
+      dates.push(date < today ? today : date);
+    }
+    if (bill.frequency === "one-time") break;
+    date = calculateNextDueDate(
+      anchor,
+      bill.frequency,
+      new Date(Date.parse(date) + DAY_MS)
+    );
+  }
+
+  return dates;
+}
+
+/**
+ * Get the dates a recurring transaction is still due up to and including a
+ * date. Occurrences not generated yet are projected for today.
+ */
+function getRecurringDates(
+  template: RecurringTransaction,
+  today: string,
+  endDate: string
+) {
+  const dates: string[] = [];
+  let date = template.next_date;
+  let occurrencesCount = template.occurrences_count;
+
+  while (date <= endDate) {
+    if (hasRecurringEnded(template, date, occurrencesCount)) break;
+    dates.push(date < today ? today : date);
+    occurrencesCount++;
+    date = getNextOccurrence(template, date);
+  }
+
+  return dates;
+}
+
+/**
+ * Get the average monthly discretionary spending over the last full months,
+ * in the base currency. Categories paid through bills or recurring expenses
+ * are left out, as those are projected on their own schedule.
+ */
+async function getDiscretionarySpending(
+  today: string,
+  scheduledCategories: Set<string>
+) {
+  const current = new Date(today);
+  const start = toDateString(
+    new Date(
+      Date.UTC(
+        current.getUTCFullYear(),
+        current.getUTCMonth() - TRAILING_MONTHS,
+        1
+      )
+    )
+  );
+  const end = toDateString(
+    new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth(), 0))
+  );
+
+  const { data, error } = await getSpendingTrend(start, end, "month");
+  if (error) return { data: null, error };
+
+  const months: { categories: Record<string, number> }[] = data || [];
+  const total = months.reduce(
+    (sum, month) =>
+      sum +
+      Object.entries(month.categories)
+        .filter(
+          ([categoryId]) =>
+            categoryId === UNCATEGORIZED_TREND_KEY ||
+            !scheduledCategories.has(categoryId)
+        )
+        .reduce((monthSum, [, amount]) => monthSum + amount, 0),
+    0
+  );
+
+  // Newer users are averaged over the months they have history for
+  return { data: total / Math.max(months.length, 1), error: null };
+}
+
+/**
+ * Project each bank account's balance day by day over the next 30, 60 or 90
+ * days from upcoming bills, active recurring transactions and a trailing
+ * average of discretionary spending. Recurring transactions land in their own
+ * account; bills and discretionary spending are drawn from the paying account.
+ */
+export async function getCashFlowForecast(
+  horizon: ForecastHorizon,
+  payingAccountId?: string | null
+): Promise<{ data: CashFlowForecast | null; error: Error | null }> {
+  try {
+    const today = toDateString(new Date());
+    const endDate = addDays(today, horizon);
+
+    const [accountsResult, billsResult, recurringResult] = await Promise.all([
+      supabase.from("bank_accounts").select("*").order("name"),
+      supabase.from("bills_subscriptions").select("*").eq("status", "active"),
+      supabase.from("recurring_transactions").select("*").eq("is_active", true),
+    ]);
+
+    if (accountsResult.error) {
+      return { data: null, error: accountsResult.error };
+    }
+    if (billsResult.error) return { data: null, error: billsResult.error };
+    if (recurringResult.error) {
+      return { data: null, error: recurringResult.error };
+    }
+
+    const accounts = accountsResult.data;
+    const bills = billsResult.data;
+    const recurring = recurringResult.data;
+
+    const payingAccount =
+      accounts.find((account) => account.id === payingAccountId) ||
+      getDefaultPayingAccount(accounts);
+
+    const scheduledCategories = new Set(
+      [
+        ...bills.map((bill) => bill.category_id),
+        ...recurring
+          .filter((template) => template.type === "expense")
+          .map((template) => template.category_id),
+      ].filter((categoryId): categoryId is string => !!categoryId)
+    );
+
+    const { data: monthlyDiscretionary, error: spendingError } =
+      await getDiscretionarySpending(today, scheduledCategories);
+    if (spendingError) return { data: null, error: spendingError };
+
+    // Spending history is in the base currency and bills in their own
+    const converter = await getCurrencyConverter();
+    const toPayingCurrency = (amount: number, currency: string | null) =>
+      payingAccount
+        ? converter.convert(amount, currency, today) /
+          (converter.convert(1, payingAccount.currency, today) || 1)
+        : amount;
+
+    const events: ForecastEvent[] = [];
+
+    if (payingAccount) {
+      bills.forEach((bill) => {
+        getBillDueDates(bill, today, endDate).forEach((date) => {
+          events.push({
+            date,
+            accountId: payingAccount.id,
+            description: bill.name,
+            amount: -toPayingCurrency(bill.amount, bill.currency),
+            kind: "bill",
+          });
+        });
+      });
+    }
+
+    recurring.forEach((template) => {
+      // Transfers move money out of one account and into the other
+      if (template.type === "transfer") {
+        if (isRecurringTransferBroken(template)) return;
+
+        getRecurringDates(template, today, endDate).forEach((date) => {
+          events.push(
+            {
+              date,
+              accountId: template.bank_account_id as string,
+              description: template.description,
+              amount: -template.amount,
+              kind: "recurring",
+            },
+            {
+              date,
+              accountId: template.transfer_account_id as string,
+              description: template.description,
+              amount: template.amount,
+              kind: "recurring",
+            }
+          );
+        });
+        return;
+      }
+
+      const accountId = accounts.some(
+        (account) => account.id === template.bank_account_id
+      )
+        ? template.bank_account_id
+        : payingAccount?.id;
+      if (!accountId) return;
+
+      getRecurringDates(template, today, endDate).forEach((date) => {
+        events.push({
+          date,
+          accountId,
+          description: template.description,
+          amount:
+            template.type === "income" ? template.amount : -template.amount,
+          kind: "recurring",
+        });
+      });
+    });
+
+    events.sort((a, b) => a.date.localeCompare(b.date));
+
+    const dailyDiscretionary = toPayingCurrency(
+      ((monthlyDiscretionary || 0) * 12) / 365,
+      converter.baseCurrency
+    );
+
+    // Walk the days, applying each day's events and everyday spending
+    const accountsById = new Map(
+      accounts.map((account) => [account.id, account])
+    );
+    const balances: Record<string, number> = {};
+    accounts.forEach((account) => {
+      balances[account.id] = account.current_balance;
+    });
+
+    const days: ForecastDay[] = [];
+    let eventIndex = 0;
+    for (let offset = 0; offset <= horizon; offset++) {
+      const date = addDays(today, offset);
+
+      while (eventIndex < events.length && events[eventIndex].date === date) {
+        const event = events[eventIndex];
+        const account = accountsById.get(event.accountId);
+        if (account) {
+          balances[event.accountId] += getBalanceChange(account, event.amount);
+        }
+        eventIndex++;
+      }
+
+      // Today's spending is already in the current balance
+      if (payingAccount && offset > 0) {
+        balances[payingAccount.id] += getBalanceChange(
+          payingAccount,
+          -dailyDiscretionary
+        );
+      }
+
+      days.push({
+        date,
+        balances: Object.fromEntries(
+          Object.entries(balances).map(([id, balance]) => [
+            id,
+            roundCents(balance),
+          ])
+        ),
+      });
+    }
+
+    const forecastAccounts: ForecastAccount[] = accounts.map((account) => {
+      let lowPoint = {
+        date: today,
+        balance: roundCents(account.current_balance),
+      };
+      const shortfallDates: string[] = [];
+      // Credit balances are what is owed, so their worst day is the highest
+      const direction = account.account_type === "credit" ? -1 : 1;
+
+      days.forEach((day) => {
+        const balance = day.balances[account.id];
+        if (direction * balance < direction * lowPoint.balance) {
+          lowPoint = { date: day.date, balance };
+        }
+        if (balance < 0 && account.account_type !== "credit") {
+          shortfallDates.push(day.date);
+        }
+      });
+
+      return {
+        id: account.id,
+        name: account.name,
+        accountType: account.account_type,
+        currency: account.currency,
+        color: account.color,
+        startingBalance: account.current_balance,
+        lowPoint,
+        shortfallDates,
+      };
+    });
+
+    return {
+      data: {
+        startDate: today,
+        endDate,
+        payingAccountId: payingAccount?.id || null,
+        dailyDiscretionary: roundCents(dailyDiscretionary),
+        accounts: forecastAccounts,
+        days,
+        events,
+      },
+      error: null,
+    };
+  } catch (err) {
+    console.error("Unexpected error in getCashFlowForecast:", err);
+    return { data: null, error: err as Error };
+  }
+}
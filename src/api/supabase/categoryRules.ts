@@ -0,0 +1,252 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { addTagToTransaction, getTags } from "./tags";
+import { BudgetAlertChange, checkBudgetAlerts } from "./budgetAlerts";
+
+export type CategoryRule =
+  Database["public"]["Tables"]["category_rules"]["Row"];
+export type CategoryRuleInsert =
+  Database["public"]["Tables"]["category_rules"]["Insert"];
+export type CategoryRuleUpdate =
+  Database["public"]["Tables"]["category_rules"]["Update"];
+
+// The transaction fields a rule looks at
+export type RuleTransaction = Pick<
+  Database["public"]["Tables"]["transactions"]["Row"],
+  "id" | "description" | "notes" | "type" | "category_id"
+>;
+
+export interface CategoryRuleMatch<T extends RuleTransaction> {
+  transaction: T;
+  rule: CategoryRule;
+}
+
+export interface CategoryRuleResult {
+  matched: number;
+  categorized: number;
+  tagged: number;
+}
+
+// IDs per request when filtering on many transactions, to keep URLs short
+const ID_CHUNK_SIZE = 200;
+
+/**
+ * Get all category rules for the current user in priority order
+ */
+export async function getCategoryRules() {
+  return supabase
+    .from("category_rules")
+    .select("*")
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: true });
+}
+
+/**
+ * Create a new category rule
+ */
+export async function createCategoryRule(rule: CategoryRuleInsert) {
+  return supabase.from("category_rules").insert(rule).select().single();
+}
+
+/**
+ * Update an existing category rule
+ */
+export async function updateCategoryRule(id: string, rule: CategoryRuleUpdate) {
+  return supabase
+    .from("category_rules")
+    .update({ ...rule, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a category rule
+ */
+export async function deleteCategoryRule(id: string) {
+  return supabase.from("category_rules").delete().eq("id", id);
+}
+
+/**
+ * Save a new rule order; the first ID gets the highest priority
+ */
+export async function reorderCategoryRules(ruleIds: string[]) {
+  const results = await Promise.all(
+    ruleIds.map((id, index) =>
+      supabase.from("category_rules").update({ priority: index }).eq("id", id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  return { error: failed ? failed.error : null };
+}
+
+/**
+ * Check whether a rule's pattern matches a transaction (case-insensitive)
+ */
+export function matchesCategoryRule(
+  rule: CategoryRule,
+  transaction: RuleTransaction
+): boolean {
+  if (!rule.is_active || !rule.pattern) return false;
+  // Transfers move money between accounts and never get a category
+  if (transaction.type === "transfer") return false;
+  if (rule.transaction_type && rule.transaction_type !== transaction.type) {
+    return false;
+  }
+
+  const value = (transaction[rule.match_field] || "").toLowerCase();
+  const pattern = rule.pattern.toLowerCase();
+
+  switch (rule.match_type) {
+    case "starts_with":
+      return value.startsWith(pattern);
+    case "equals":
+      return value.trim() === pattern.trim();
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "i").test(value);
+      } catch {
+        // An invalid expression never matches
+        return false;
+      }
+    case "contains":
+    default:
+      return value.includes(pattern);
+  }
+}
+
+/**
+ * Find the first rule, in priority order, that matches each transaction.
+ * Nothing is written, so this doubles as a dry run.
+ */
+export function matchCategoryRules<T extends RuleTransaction>(
+  rules: CategoryRule[],
+  transactions: T[]
+): CategoryRuleMatch<T>[] {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  const matches: CategoryRuleMatch<T>[] = [];
+
+  transactions.forEach((transaction) => {
+    const rule = ordered.find((r) => matchesCategoryRule(r, transaction));
+    if (rule) {
+      matches.push({ transaction, rule });
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Apply category rules to transactions. A matching rule only sets the category
+ * when the transaction has none, and adds the rule's tags the transaction
+ * doesn't have yet.
+ */
+export async function applyCategoryRules(
+  transactions: RuleTransaction[],
+  rules?: CategoryRule[]
+) {
+  const result: CategoryRuleResult = { matched: 0, categorized: 0, tagged: 0 };
+
+  try {
+    let activeRules = rules;
+    if (!activeRules) {
+      const { data, error } = await getCategoryRules();
+      if (error) return { data: null, error };
+      activeRules = data || [];
+    }
+
+    const matches = matchCategoryRules(activeRules, transactions);
+    result.matched = matches.length;
+    if (matches.length === 0) return { data: result, error: null };
+
+    // Set categories, one update per category and chunk of IDs
+    const idsByCategory = new Map<string, string[]>();
+    matches.forEach(({ transaction, rule }) => {
+      if (transaction.category_id || !rule.category_id) return;
+      const ids = idsByCategory.get(rule.category_id) || [];
+      ids.push(transaction.id);
+      idsByCategory.set(rule.category_id, ids);
+    });
+
+    const categorized: BudgetAlertChange[] = [];
+    for (const [categoryId, ids] of idsByCategory) {
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        const { data, error } = await supabase
+          .from("transactions")
+          .update({ category_id: categoryId })
+          .in("id", chunk)
+          .select("category_id, date");
+        if (error) return { data: result, error };
+        result.categorized += chunk.length;
+        categorized.push(...(data || []));
+      }
+    }
+    await checkBudgetAlerts(categorized);
+
+    // Add tags, skipping ones that are already attached
+    const taggedMatches = matches.filter(({ rule }) => rule.tag_ids.length > 0);
+    if (taggedMatches.length === 0) return { data: result, error: null };
+
+    // Rules can still reference tags that were deleted since
+    const { data: tags, error: tagsError } = await getTags();
+    if (tagsError) return { data: result, error: tagsError };
+    const knownTagIds = new Set((tags || []).map((tag) => tag.id));
+
+    const existingTags = new Set<string>();
+    const taggedIds = taggedMatches.map(({ transaction }) => transaction.id);
+    for (let i = 0; i < taggedIds.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("transaction_tags")
+        .select("transaction_id, tag_id")
+        .in("transaction_id", taggedIds.slice(i, i + ID_CHUNK_SIZE));
+      if (error) return { data: result, error };
+      (data || []).forEach((row) =>
+        existingTags.add(`${row.transaction_id}:${row.tag_id}`)
+      );
+    }
+
+    for (const { transaction, rule } of taggedMatches) {
+      let added = false;
+      for (const tagId of rule.tag_ids) {
+        if (!knownTagIds.has(tagId)) continue;
+        if (existingTags.has(`${transaction.id}:${tagId}`)) continue;
+        const { error } = await addTagToTransaction(transaction.id, tagId);
+        if (error) return { data: result, error };
+        added = true;
+      }
+      if (added) result.tagged++;
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    console.error("Unexpected error in applyCategoryRules:", err);
+    return { data: result, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Get transactions without a category, leaving out transfers
+ */
+export async function getUncategorizedTransactions() {
+  return supabase
+    .from("transactions")
+    .select("*")
+    .is("category_id", null)
+    .neq("type", "transfer")
+    .order("date", { ascending: false });
+}
+
+/**
+ * Apply category rules to all uncategorized transactions
+ */
+export async function applyCategoryRulesToUncategorized(
+  rules?: CategoryRule[]
+) {
+  const { data, error } = await getUncategorizedTransactions();
+  if (error) return { data: null, error };
+
+  return applyCategoryRules(data || [], rules);
+}
@@ -0,0 +1,458 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+
+type Tables = Database["public"]["Tables"];
+
+// Everything a user owns that a backup covers, as stored in the database
+export interface DataArchive {
+  version: number;
+  exported_at: string;
+  bank_accounts: Tables["bank_accounts"]["Row"][];
+  categories: Tables["categories"]["Row"][];
+  tags: Tables["tags"]["Row"][];
+  transactions: Tables["transactions"]["Row"][];
+  transaction_splits: Tables["transaction_splits"]["Row"][];
+  transaction_tags: Tables["transaction_tags"]["Row"][];
+  budgets: Tables["budgets"]["Row"][];
+  bills: Tables["bills_subscriptions"]["Row"][];
+  bill_payments: Tables["bill_payments"]["Row"][];
+  goals: Tables["financial_goals"]["Row"][];
+  goal_contributions: Tables["goal_contributions"]["Row"][];
+}
+
+export type ArchiveSection = Exclude<
+  keyof DataArchive,
+  "version" | "exported_at"
+>;
+
+// How many rows of each section were restored
+export type RestoreSummary = Record<ArchiveSection, number>;
+
+export const ARCHIVE_VERSION = 1;
+
+export const ARCHIVE_SECTIONS: ArchiveSection[] = [
+  "bank_accounts",
+  "categories",
+  "tags",
+  "transactions",
+  "transaction_splits",
+  "transaction_tags",
+  "budgets",
+  "bills",
+  "bill_payments",
+  "goals",
+  "goal_contributions",
+];
+
+// PostgREST caps how many rows a single request returns
+const PAGE_SIZE = 1000;
+// Keep restore requests well below request size limits
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Fetch every row of a query, a page at a time
+ */
+async function fetchAllRows<T>(
+  query: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Insert rows in batches. Consecutive rows with the same group key always go
+ * into the same batch.
+ */
+async function insertInBatches<T>(
+  rows: T[],
+  insert: (batch: T[]) => PromiseLike<{ error: PostgrestError | null }>,
+  groupKey?: (row: T) => string
+): Promise<void> {
+  let start = 0;
+  while (start < rows.length) {
+    let end = Math.min(start + INSERT_BATCH_SIZE, rows.length);
+    while (
+      groupKey &&
+      end < rows.length &&
+      groupKey(rows[end]) === groupKey(rows[end - 1])
+    ) {
+      end++;
+    }
+
+    const { error } = await insert(rows.slice(start, end));
+    if (error) throw error;
+    start = end;
+  }
+}
+
+/**
+ * Export all of the signed-in user's data as an archive
+ */
+export async function exportDataArchive(): Promise<{
+  data: DataArchive | null;
+  error: PostgrestError | null;
+}> {
+  try {
+    const [
+      bankAccounts,
+      categories,
+      tags,
+      transactions,
+      transactionSplits,
+      transactionTags,
+      budgets,
+      bills,
+      billPayments,
+      goals,
+      goalContributions,
+    ] = await Promise.all([
+      fetchAllRows((from, to) =>
+        supabase.from("bank_accounts").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from("categories").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from("tags").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("transactions")
+          .select("*")
+          .order("date")
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("transaction_splits")
+          .select("*")
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("transaction_tags")
+          .select("*")
+          .order("transaction_id")
+          .order("tag_id")
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from("budgets").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("bills_subscriptions")
+          .select("*")
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from("bill_payments").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase.from("financial_goals").select("*").order("id").range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from("goal_contributions")
+          .select("*")
+          .order("id")
+          .range(from, to)
+      ),
+    ]);
+
+    return {
+      data: {
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        bank_accounts: bankAccounts,
+        categories,
+        tags,
+        transactions,
+        transaction_splits: transactionSplits,
+        transaction_tags: transactionTags,
+        budgets,
+        bills,
+        bill_payments: billPayments,
+        goals,
+        goal_contributions: goalContributions,
+      },
+      error: null,
+    };
+  } catch (err) {
+    console.error("Unexpected error in exportDataArchive:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Check that parsed JSON looks like an archive this version can restore
+ */
+export function isDataArchive(value: unknown): value is DataArchive {
+  if (!value || typeof value !== "object") return false;
+
+  const archive = value as Record<string, unknown>;
+  return (
+    archive.version === ARCHIVE_VERSION &&
+    ARCHIVE_SECTIONS.every((section) => Array.isArray(archive[section]))
+  );
+}
+
+/**
+ * Restore an archive into the signed-in user's data. Everything is created
+ * again with new IDs and links between records are remapped to them.
+ * Categories and tags that already exist with the same name are reused.
+ * Restoring adds to the existing data rather than replacing it; if it stops
+ * partway, whatever was restored so far is kept.
+ */
+export async function restoreDataArchive(
+  userId: string,
+  archive: DataArchive
+): Promise<{ data: RestoreSummary | null; error: Error | null }> {
+  const summary = Object.fromEntries(
+    ARCHIVE_SECTIONS.map((section) => [section, 0])
+  ) as RestoreSummary;
+
+  // Old ID to new ID, per kind of record
+  const accountIds = new Map<string, string>();
+  const categoryIds = new Map<string, string>();
+  const tagIds = new Map<string, string>();
+  const transactionIds = new Map<string, string>();
+  const billIds = new Map<string, string>();
+  const goalIds = new Map<string, string>();
+
+  const remap = (ids: Map<string, string>, id: string | null) =>
+    id ? ids.get(id) || null : null;
+
+  try {
+    // Bank accounts start at their opening balance; restoring their
+    // transactions brings the balance up to date through the ledger trigger
+    const accounts = archive.bank_accounts.map((account) => {
+      const id = crypto.randomUUID();
+      accountIds.set(account.id, id);
+      return {
+        ...account,
+        id,
+        user_id: userId,
+        current_balance: account.opening_balance,
+        is_default: false,
+      };
+    });
+    await insertInBatches(accounts, (batch) =>
+      supabase.from("bank_accounts").insert(batch)
+    );
+    summary.bank_accounts = accounts.length;
+
+    // Category and tag names are unique per user
+    const { data: existingCategories, error: categoriesError } = await supabase
+      .from("categories")
+      .select("id, name")
+      .eq("user_id", userId);
+    if (categoriesError) throw categoriesError;
+
+    const categoriesByName = new Map(
+      (existingCategories || []).map((c) => [c.name.toLowerCase(), c.id])
+    );
+    const newCategories = archive.categories.flatMap((category) => {
+      const existingId = categoriesByName.get(category.name.toLowerCase());
+      if (existingId) {
+        categoryIds.set(category.id, existingId);
+        return [];
+      }
+
+      const id = crypto.randomUUID();
+      categoryIds.set(category.id, id);
+      categoriesByName.set(category.name.toLowerCase(), id);
+      return [{ ...category, id, user_id: userId }];
+    });
+    await insertInBatches(newCategories, (batch) =>
+      supabase.from("categories").insert(batch)
+    );
+    summary.categories = newCategories.length;
+
+    const { data: existingTags, error: tagsError } = await supabase
+      .from("tags")
+      .select("id, name")
+      .eq("user_id", userId);
+    if (tagsError) throw tagsError;
+
+    const tagsByName = new Map(
+      (existingTags || []).map((t) => [t.name.toLowerCase(), t.id])
+    );
+    const newTags = archive.tags.flatMap((tag) => {
+      const existingId = tagsByName.get(tag.name.toLowerCase());
+      if (existingId) {
+        tagIds.set(tag.id, existingId);
+        return [];
+      }
+
+      const id = crypto.randomUUID();
+      tagIds.set(tag.id, id);
+      tagsByName.set(tag.name.toLowerCase(), id);
+      return [{ ...tag, id, user_id: userId }];
+    });
+    await insertInBatches(newTags, (batch) =>
+      supabase.from("tags").insert(batch)
+    );
+    summary.tags = newTags.length;
+
+    // Reconciliations and recurring templates aren't part of the archive,
+    // so reconciled transactions come back as cleared and unlinked
+    const transactions = archive.transactions.map((transaction) => {
+      const id = crypto.randomUUID();
+      transactionIds.set(transaction.id, id);
+      return {
+        ...transaction,
+        id,
+        user_id: userId,
+        category_id: remap(categoryIds, transaction.category_id),
+        bank_account_id: remap(accountIds, transaction.bank_account_id),
+        transfer_account_id: remap(accountIds, transaction.transfer_account_id),
+        recurring_transaction_id: null,
+        reconciliation_id: null,
+        status:
+          transaction.status === "reconciled" ? "cleared" : transaction.status,
+      };
+    });
+    await insertInBatches(transactions, (batch) =>
+      supabase.from("transactions").insert(batch)
+    );
+    summary.transactions = transactions.length;
+
+    const splits = archive.transaction_splits.flatMap((split) => {
+      const transactionId = remap(transactionIds, split.transaction_id);
+      if (!transactionId) return [];
+      return [
+        {
+          ...split,
+          id: crypto.randomUUID(),
+          transaction_id: transactionId,
+          user_id: userId,
+          category_id: remap(categoryIds, split.category_id),
+        },
+      ];
+    });
+    // The lines of a transaction are checked against its amount per request,
+    // so they are inserted together
+    splits.sort((a, b) => a.transaction_id.localeCompare(b.transaction_id));
+    await insertInBatches(
+      splits,
+      (batch) => supabase.from("transaction_splits").insert(batch),
+      (split) => split.transaction_id
+    );
+    summary.transaction_splits = splits.length;
+
+    const transactionTags = archive.transaction_tags.flatMap((link) => {
+      const transactionId = remap(transactionIds, link.transaction_id);
+      const tagId = remap(tagIds, link.tag_id);
+      if (!transactionId || !tagId) return [];
+      return [{ transaction_id: transactionId, tag_id: tagId }];
+    });
+    await insertInBatches(transactionTags, (batch) =>
+      supabase.from("transaction_tags").insert(batch)
+    );
+    summary.transaction_tags = transactionTags.length;
+
+    const budgets = archive.budgets.map((budget) => ({
+      ...budget,
+      id: crypto.randomUUID(),
+      user_id: userId,
+      category_id: remap(categoryIds, budget.category_id) || budget.category_id,
+    }));
+    await insertInBatches(budgets, (batch) =>
+      supabase.from("budgets").insert(batch)
+    );
+    summary.budgets = budgets.length;
+
+    const bills = archive.bills.map((bill) => {
+      const id = crypto.randomUUID();
+      billIds.set(bill.id, id);
+      return {
+        ...bill,
+        id,
+        user_id: userId,
+        category_id: remap(categoryIds, bill.category_id),
+      };
+    });
+    await insertInBatches(bills, (batch) =>
+      supabase.from("bills_subscriptions").insert(batch)
+    );
+    summary.bills = bills.length;
+
+    const billPayments = archive.bill_payments.flatMap((payment) => {
+      const billId = remap(billIds, payment.bill_id);
+      if (!billId) return [];
+      return [
+        {
+          ...payment,
+          id: crypto.randomUUID(),
+          bill_id: billId,
+          transaction_id: remap(transactionIds, payment.transaction_id),
+        },
+      ];
+    });
+    await insertInBatches(billPayments, (batch) =>
+      supabase.from("bill_payments").insert(batch)
+    );
+    summary.bill_payments = billPayments.length;
+
+    // Goals keep their saved amount; contributions are restored as history
+    const goals = archive.goals.map((goal) => {
+      const id = crypto.randomUUID();
+      goalIds.set(goal.id, id);
+      return {
+        ...goal,
+        id,
+        user_id: userId,
+        category_id: remap(categoryIds, goal.category_id),
+      };
+    });
+    await insertInBatches(goals, (batch) =>
+      supabase.from("financial_goals").insert(batch)
+    );
+    summary.goals = goals.length;
+
+    // Funding rules aren't part of the archive, so contributions they made
+    // come back as one-off contributions
+    const contributions = archive.goal_contributions.flatMap((contribution) => {
+      const goalId = remap(goalIds, contribution.goal_id);
+      if (!goalId) return [];
+      return [
+        {
+          ...contribution,
+          id: crypto.randomUUID(),
+          goal_id: goalId,
+          funding_rule_id: null,
+          bank_account_id: remap(accountIds, contribution.bank_account_id),
+          source_transaction_id: remap(
+            transactionIds,
+            contribution.source_transaction_id
+          ),
+          transaction_id: remap(transactionIds, contribution.transaction_id),
+        },
+      ];
+    });
+    await insertInBatches(contributions, (batch) =>
+      supabase.from("goal_contributions").insert(batch)
+    );
+    summary.goal_contributions = contributions.length;
+
+    return { data: summary, error: null };
+  } catch (err) {
+    console.error("Unexpected error in restoreDataArchive:", err);
+    return { data: summary, error: err as Error };
+  }
+}
@@ -0,0 +1,461 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { createBill, deleteBill, updateBill } from "./bills";
+
+export type Debt = Database["public"]["Tables"]["debts"]["Row"];
+export type DebtInsert = Database["public"]["Tables"]["debts"]["Insert"];
+export type DebtUpdate = Database["public"]["Tables"]["debts"]["Update"];
+
+export type DebtType = Debt["debt_type"];
+
+// Snowball pays off the smallest balance first, avalanche the highest APR
+export type DebtPayoffStrategy = "snowball" | "avalanche";
+
+export const DEBT_PAYOFF_STRATEGIES: DebtPayoffStrategy[] = [
+  "snowball",
+  "avalanche",
+];
+
+// The debt fields a payoff projection needs
+export type DebtTerms = Pick<
+  Debt,
+  "id" | "name" | "principal" | "apr" | "minimum_payment" | "due_day"
+>;
+
+// Projections stop after 50 years; a payment that doesn't cover the monthly
+// interest never pays the debt off
+const MAX_PAYOFF_MONTHS = 600;
+
+export interface AmortizationRow {
+  // 1 for the first payment
+  month: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  // What is still owed after the payment
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  // Null when the payments never pay the debt off
+  payoffDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+export interface DebtPayoff {
+  debtId: string;
+  name: string;
+  // Position in the order extra payments go to, starting at 1
+  order: number;
+  // Null when the debt is never paid off
+  payoffMonth: number | null;
+  payoffDate: string | null;
+  interestPaid: number;
+}
+
+export interface DebtPayoffPlan {
+  strategy: DebtPayoffStrategy;
+  extraPayment: number;
+  // Same order as the strategy pays them off in
+  debts: DebtPayoff[];
+  // Months until everything is paid off; null when it never is
+  months: number | null;
+  payoffDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  // What is still owed in total after each month, starting with today
+  balances: number[];
+}
+
+export interface DebtPayoffComparison {
+  snowball: DebtPayoffPlan;
+  avalanche: DebtPayoffPlan;
+  // Interest avalanche saves over snowball; negative when it costs more
+  interestSaved: number;
+  // Months avalanche finishes sooner than snowball
+  monthsSaved: number | null;
+}
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const getDaysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Get the date of the nth monthly payment on a due day, counting from the
+ * first due day on or after fromDate. Due days past the end of a month fall
+ * on its last day.
+ */
+export function getDebtPaymentDate(
+  dueDay: number,
+  n: number,
+  fromDate = new Date()
+): string {
+  const year = fromDate.getUTCFullYear();
+  const month = fromDate.getUTCMonth();
+  const firstIsThisMonth =
+    Math.min(dueDay, getDaysInMonth(year, month)) >= fromDate.getUTCDate();
+  const paymentMonth = month + (firstIsThisMonth ? 0 : 1) + n - 1;
+
+  return toDateString(
+    new Date(
+      Date.UTC(
+        year,
+        paymentMonth,
+        Math.min(dueDay, getDaysInMonth(year, paymentMonth))
+      )
+    )
+  );
+}
+
+/**
+ * Get the due date anchoring a debt's monthly bill: the due day in the latest
+ * month up to now that is long enough to have it. The bill's cadence keeps
+ * the anchor's day of month, so it must not be clamped already.
+ */
+function getDebtBillAnchor(dueDay: number, fromDate = new Date()): string {
+  const year = fromDate.getUTCFullYear();
+  let month = fromDate.getUTCMonth();
+  while (getDaysInMonth(year, month) < dueDay) {
+    month--;
+  }
+  return toDateString(new Date(Date.UTC(year, month, dueDay)));
+}
+
+/**
+ * Get the interest a balance accrues over one month
+ */
+function getMonthlyInterest(balance: number, apr: number): number {
+  return roundCents((balance * apr) / 100 / 12);
+}
+
+/**
+ * Get all debts
+ */
+export async function getDebts() {
+  return supabase
+    .from("debts")
+    .select("*")
+    .order("debt_type")
+    .order("name");
+}
+
+/**
+ * Schedule a debt's minimum payment as a monthly bill, or bring its existing
+ * bill in line with the debt. The bill is paused once the debt is paid off.
+ * An existing bill keeps its next due date unless the due day moved, so a
+ * payment already made this month still counts.
+ */
+async function syncDebtBill(debt: Debt, dueDayChanged = false) {
+  const billFields = {
+    name: debt.name,
+    amount: debt.minimum_payment,
+    status: debt.principal > 0 ? ("active" as const) : ("paused" as const),
+  };
+  const schedule = {
+    due_date: getDebtBillAnchor(debt.due_day),
+    frequency: "monthly" as const,
+  };
+
+  if (debt.bill_id) {
+    return updateBill(
+      debt.bill_id,
+      dueDayChanged ? { ...billFields, ...schedule } : billFields
+    );
+  }
+
+  const { data: bill, error } = await createBill({
+    ...billFields,
+    ...schedule,
+    user_id: debt.user_id,
+  });
+  if (error) return { data: null, error };
+
+  const { error: linkError } = await supabase
+    .from("debts")
+    .update({ bill_id: bill.id })
+    .eq("id", debt.id);
+  if (linkError) {
+    await deleteBill(bill.id);
+    return { data: null, error: linkError };
+  }
+
+  return { data: bill, error: null };
+}
+
+/**
+ * Create a debt and the bill its minimum payment is scheduled as
+ */
+export async function createDebt(
+  debt: DebtInsert
+): Promise<{ data: Debt | null; error: Error | null }> {
+  try {
+    const { data, error } = await supabase
+      .from("debts")
+      .insert({ ...debt, bill_id: null })
+      .select()
+      .single();
+    if (error) return { data: null, error };
+
+    const { data: bill, error: billError } = await syncDebtBill(data);
+    if (billError) {
+      await supabase.from("debts").delete().eq("id", data.id);
+      return { data: null, error: billError };
+    }
+
+    return { data: { ...data, bill_id: bill?.id ?? null }, error: null };
+  } catch (err) {
+    console.error("Unexpected error in createDebt:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Update a debt and its scheduled bill. A debt whose bill was deleted gets a
+ * new one.
+ */
+export async function updateDebt(
+  id: string,
+  updates: DebtUpdate
+): Promise<{ data: Debt | null; error: Error | null }> {
+  try {
+    const { data: existing, error: getError } = await supabase
+      .from("debts")
+      .select("due_day")
+      .eq("id", id)
+      .single();
+    if (getError) return { data: null, error: getError };
+
+    // The bill link is managed here, not by callers
+    const fields = { ...updates };
+    delete fields.bill_id;
+
+    const { data, error } = await supabase
+      .from("debts")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+    if (error) return { data: null, error };
+
+    const { data: bill, error: billError } = await syncDebtBill(
+      data,
+      data.due_day !== existing.due_day
+    );
+    if (billError) return { data: null, error: billError };
+
+    return { data: { ...data, bill_id: bill?.id ?? data.bill_id }, error: null };
+  } catch (err) {
+    console.error("Unexpected error in updateDebt:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Delete a debt along with its scheduled bill
+ */
+export async function deleteDebt(id: string) {
+  const { data: debt, error } = await supabase
+    .from("debts")
+    .select("bill_id")
+    .eq("id", id)
+    .single();
+  if (error) return { error };
+
+  const result = await supabase.from("debts").delete().eq("id", id);
+  if (result.error || !debt.bill_id) return result;
+
+  return deleteBill(debt.bill_id);
+}
+
+/**
+ * Build the month-by-month amortization schedule of a debt paying its minimum
+ * payment plus an extra amount each month. The last payment only covers what
+ * is left.
+ */
+export function generateAmortizationSchedule(
+  debt: DebtTerms,
+  extraPayment = 0,
+  fromDate = new Date()
+): AmortizationSchedule {
+  const rows: AmortizationRow[] = [];
+  const monthlyPayment = debt.minimum_payment + extraPayment;
+  let balance = debt.principal;
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let month = 1; balance > 0 && month <= MAX_PAYOFF_MONTHS; month++) {
+    const interest = getMonthlyInterest(balance, debt.apr);
+    const payment = roundCents(Math.min(monthlyPayment, balance + interest));
+    balance = roundCents(balance + interest - payment);
+
+    totalInterest += interest;
+    totalPaid += payment;
+    rows.push({
+      month,
+      date: getDebtPaymentDate(debt.due_day, month, fromDate),
+      payment,
+      interest,
+      principal: roundCents(payment - interest),
+      balance,
+    });
+  }
+
+  return {
+    rows,
+    payoffDate: balance > 0 ? null : rows[rows.length - 1]?.date ?? null,
+    totalInterest: roundCents(totalInterest),
+    totalPaid: roundCents(totalPaid),
+  };
+}
+
+/**
+ * Order debts the way a strategy pays them off. Ties go to the debt the other
+ * strategy would pick.
+ */
+export function orderDebtsForStrategy<T extends DebtTerms>(
+  debts: T[],
+  strategy: DebtPayoffStrategy
+): T[] {
+  return [...debts].sort((a, b) =>
+    strategy === "snowball"
+      ? a.principal - b.principal || b.apr - a.apr
+      : b.apr - a.apr || a.principal - b.principal
+  );
+}
+
+/**
+ * Project paying off all debts together. Every debt gets its minimum payment
+ * each month; the extra amount, and the minimum payment of every debt already
+ * paid off, goes to the first unpaid debt in the strategy's order.
+ */
+export function simulateDebtPayoff(
+  debts: DebtTerms[],
+  strategy: DebtPayoffStrategy,
+  extraPayment = 0,
+  fromDate = new Date()
+): DebtPayoffPlan {
+  const ordered = orderDebtsForStrategy(debts, strategy);
+  const balances = ordered.map((debt) => debt.principal);
+  const interestPaid = ordered.map(() => 0);
+  const payoffMonths: (number | null)[] = ordered.map((debt) =>
+    debt.principal > 0 ? null : 0
+  );
+  const monthlyBudget =
+    ordered.reduce((sum, debt) => sum + debt.minimum_payment, 0) +
+    extraPayment;
+  const totals = [roundCents(balances.reduce((sum, b) => sum + b, 0))];
+  let totalPaid = 0;
+  let month = 0;
+
+  while (
+    balances.some((balance) => balance > 0) &&
+    month < MAX_PAYOFF_MONTHS
+  ) {
+    month++;
+    let available = monthlyBudget;
+
+    // Interest first, then every minimum payment
+    ordered.forEach((debt, index) => {
+      if (balances[index] <= 0) return;
+      const interest = getMonthlyInterest(balances[index], debt.apr);
+      balances[index] = roundCents(balances[index] + interest);
+      interestPaid[index] += interest;
+
+      const payment = Math.min(debt.minimum_payment, balances[index]);
+      balances[index] = roundCents(balances[index] - payment);
+      available -= payment;
+      totalPaid += payment;
+    });
+
+    // Whatever is left snowballs into the debts in order
+    ordered.forEach((_, index) => {
+      if (available <= 0 || balances[index] <= 0) return;
+      const payment = Math.min(available, balances[index]);
+      balances[index] = roundCents(balances[index] - payment);
+      available = roundCents(available - payment);
+      totalPaid += payment;
+    });
+
+    balances.forEach((balance, index) => {
+      if (balance <= 0 && payoffMonths[index] === null) {
+        payoffMonths[index] = month;
+      }
+    });
+    totals.push(roundCents(balances.reduce((sum, b) => sum + b, 0)));
+  }
+
+  const payoffs: DebtPayoff[] = ordered.map((debt, index) => {
+    const payoffMonth = payoffMonths[index];
+    return {
+      debtId: debt.id,
+      name: debt.name,
+      order: index + 1,
+      payoffMonth,
+      payoffDate: payoffMonth
+        ? getDebtPaymentDate(debt.due_day, payoffMonth, fromDate)
+        : null,
+      interestPaid: roundCents(interestPaid[index]),
+    };
+  });
+
+  const allPaidOff = payoffs.every((payoff) => payoff.payoffMonth !== null);
+  const lastPayoff = payoffs.reduce<string | null>(
+    (latest, payoff) =>
+      payoff.payoffDate && (!latest || payoff.payoffDate > latest)
+        ? payoff.payoffDate
+        : latest,
+    null
+  );
+
+  return {
+    strategy,
+    extraPayment,
+    debts: payoffs,
+    months: allPaidOff ? month : null,
+    payoffDate: allPaidOff ? lastPayoff : null,
+    totalInterest: roundCents(
+      interestPaid.reduce((sum, interest) => sum + interest, 0)
+    ),
+    totalPaid: roundCents(totalPaid),
+    balances: totals,
+  };
+}
+
+/**
+ * Compare paying off debts smallest balance first against highest APR first,
+ * with the same extra amount each month
+ */
+export function compareDebtPayoffStrategies(
+  debts: DebtTerms[],
+  extraPayment = 0,
+  fromDate = new Date()
+): DebtPayoffComparison {
+  const snowball = simulateDebtPayoff(
+    debts,
+    "snowball",
+    extraPayment,
+    fromDate
+  );
+  const avalanche = simulateDebtPayoff(
+    debts,
+    "avalanche",
+    extraPayment,
+    fromDate
+  );
+
+  return {
+    snowball,
+    avalanche,
+    interestSaved: roundCents(snowball.totalInterest - avalanche.totalInterest),
+    monthsSaved:
+      snowball.months !== null && avalanche.months !== null
+        ? snowball.months - avalanche.months
+        : null,
+  };
+}
@@ -0,0 +1,180 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+
+export type ExchangeRate =
+  Database["public"]["Tables"]["exchange_rates"]["Row"];
+export type ExchangeRateInsert =
+  Database["public"]["Tables"]["exchange_rates"]["Insert"];
+export type ExchangeRateUpdate =
+  Database["public"]["Tables"]["exchange_rates"]["Update"];
+
+// Converts amounts into the user's base currency as of a given date
+export interface CurrencyConverter {
+  baseCurrency: string;
+  convert: (amount: number, currency: string | null, date: string) => number;
+  // Currencies that had no rate to the base currency; their amounts were
+  // counted unconverted
+  missingCurrencies: Set<string>;
+}
+
+const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Get all exchange rates, latest first
+ */
+export async function getExchangeRates() {
+  return supabase
+    .from("exchange_rates")
+    .select("*")
+    .order("rate_date", { ascending: false })
+    .order("currency", { ascending: true });
+}
+
+/**
+ * Add an exchange rate, replacing any rate for the same pair and date
+ */
+export async function saveExchangeRate(rate: ExchangeRateInsert) {
+  return supabase
+    .from("exchange_rates")
+    .upsert(
+      { ...rate, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,base_currency,currency,rate_date" }
+    )
+    .select()
+    .single();
+}
+
+/**
+ * Update an exchange rate
+ */
+export async function updateExchangeRate(
+  id: string,
+  updates: ExchangeRateUpdate
+) {
+  return supabase
+    .from("exchange_rates")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete an exchange rate
+ */
+export async function deleteExchangeRate(id: string) {
+  return supabase.from("exchange_rates").delete().eq("id", id);
+}
+
+/**
+ * Import a batch of exchange rates. Rates for a pair and date that already
+ * exist are overwritten.
+ */
+export async function importExchangeRates(rates: ExchangeRateInsert[]) {
+  if (rates.length === 0) return { data: [], error: null };
+
+  const updatedAt = new Date().toISOString();
+  return supabase
+    .from("exchange_rates")
+    .upsert(
+      rates.map((rate) => ({ ...rate, updated_at: updatedAt })),
+      { onConflict: "user_id,base_currency,currency,rate_date" }
+    )
+    .select();
+}
+
+/**
+ * Get the signed-in user's base currency from their settings
+ */
+export async function getBaseCurrency(): Promise<string> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return DEFAULT_CURRENCY;
+
+  const { data } = await supabase
+    .from("user_settings")
+    .select("currency")
+    .eq("id", userData.user.id)
+    .maybeSingle();
+
+  return data?.currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Build a converter from a list of rates. A rate can be used in either
+ * direction; the latest rate on or before the date wins, and dates before the
+ * first known rate use the earliest one.
+ */
+export function createCurrencyConverter(
+  baseCurrency: string,
+  rates: Pick<
+    ExchangeRate,
+    "base_currency" | "currency" | "rate" | "rate_date"
+  >[]
+): CurrencyConverter {
+  // Units of base currency per unit of each currency, oldest first
+  const history = new Map<string, { date: string; rate: number }[]>();
+
+  rates.forEach((rate) => {
+    let currency: string;
+    let value: number;
+
+    if (rate.base_currency === baseCurrency) {
+      currency = rate.currency;
+      value = rate.rate;
+    } else if (rate.currency === baseCurrency) {
+      currency = rate.base_currency;
+      value = 1 / rate.rate;
+    } else {
+      return;
+    }
+
+    const entries = history.get(currency) || [];
+    entries.push({ date: rate.rate_date, rate: value });
+    history.set(currency, entries);
+  });
+
+  history.forEach((entries) =>
+    entries.sort((a, b) => a.date.localeCompare(b.date))
+  );
+
+  const missingCurrencies = new Set<string>();
+
+  const convert = (amount: number, currency: string | null, date: string) => {
+    if (!currency || currency === baseCurrency) return amount;
+
+    const entries = history.get(currency);
+    if (!entries?.length) {
+      missingCurrencies.add(currency);
+      return amount;
+    }
+
+    const day = date.slice(0, 10);
+    let rate = entries[0].rate;
+    for (const entry of entries) {
+      if (entry.date > day) break;
+      rate = entry.rate;
+    }
+
+    return amount * rate;
+  };
+
+  return { baseCurrency, convert, missingCurrencies };
+}
+
+/**
+ * Load a converter into the signed-in user's base currency
+ */
+export async function getCurrencyConverter(): Promise<CurrencyConverter> {
+  const baseCurrency = await getBaseCurrency();
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("base_currency, currency, rate, rate_date")
+    .or(`base_currency.eq.${baseCurrency},currency.eq.${baseCurrency}`);
+
+  if (error) {
+    console.error("Error fetching exchange rates:", error);
+  }
+
+  return createCurrencyConverter(baseCurrency, data || []);
+}
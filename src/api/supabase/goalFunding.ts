@@ -0,0 +1,536 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { calculateNextDueDate } from "./bills";
+import { checkBudgetAlerts } from "./budgetAlerts";
+import { getCurrencyConverter } from "./exchangeRates";
+import { Goal } from "./goals";
+
+export type GoalFundingRule =
+  Database["public"]["Tables"]["goal_funding_rules"]["Row"];
+export type GoalFundingRuleInsert =
+  Database["public"]["Tables"]["goal_funding_rules"]["Insert"];
+export type GoalFundingRuleUpdate =
+  Database["public"]["Tables"]["goal_funding_rules"]["Update"];
+
+type GoalContribution =
+  Database["public"]["Tables"]["goal_contributions"]["Row"];
+type GoalContributionInsert =
+  Database["public"]["Tables"]["goal_contributions"]["Insert"];
+type Transaction = Database["public"]["Tables"]["transactions"]["Row"];
+
+// The transaction fields a percentage rule contributes from
+export type FundingTransaction = Pick<
+  Transaction,
+  "id" | "amount" | "type" | "date" | "bank_account_id" | "currency"
+>;
+
+// What a fixed rule looks like after contributing everything that is due
+export interface FundingSchedule {
+  contributions: GoalContributionInsert[];
+  nextDate: string;
+}
+
+// An upcoming automatic contribution
+export interface GoalFundingPreviewItem {
+  ruleId: string;
+  date: string;
+  amount: number;
+  // Set once the goal reaches its target with this contribution
+  completesGoal: boolean;
+}
+
+export interface GoalFundingPreview {
+  // Upcoming fixed contributions, soonest first, up to the goal's target
+  items: GoalFundingPreviewItem[];
+  // Percentage rules applied to the average monthly income of their accounts
+  // over the last few months
+  estimatedMonthlyFromIncome: number;
+  // Fixed and estimated percentage contributions per month
+  scheduledMonthly: number;
+}
+
+// Months of income the percentage rules' estimate is averaged over
+const INCOME_ESTIMATE_MONTHS = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the funding rules of a goal
+ */
+export async function getGoalFundingRules(goalId: string) {
+  return supabase
+    .from("goal_funding_rules")
+    .select("*")
+    .eq("goal_id", goalId)
+    .order("created_at", { ascending: true });
+}
+
+/**
+ * Create a funding rule. A fixed rule's first contribution is on its start
+ * date.
+ */
+export async function createGoalFundingRule(rule: GoalFundingRuleInsert) {
+  return supabase
+    .from("goal_funding_rules")
+    .insert({
+      ...rule,
+      next_date: rule.rule_type === "fixed" ? rule.start_date : null,
+    })
+    .select()
+    .single();
+}
+
+/**
+ * Update a funding rule. When a fixed rule is resumed or its schedule changes,
+ * it carries on from the first date of its cadence on or after today, so
+ * periods it was paused for aren't contributed afterwards.
+ */
+export async function updateGoalFundingRule(
+  id: string,
+  updates: GoalFundingRuleUpdate
+) {
+  let changes = updates;
+
+  if (
+    updates.is_active !== undefined ||
+    updates.start_date !== undefined ||
+    updates.frequency !== undefined
+  ) {
+    const { data: rule, error } = await supabase
+      .from("goal_funding_rules")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) return { data: null, error };
+
+    const updated = { ...rule, ...updates };
+    const resumed = updated.is_active && !rule.is_active;
+    const rescheduled =
+      updated.start_date !== rule.start_date ||
+      updated.frequency !== rule.frequency;
+
+    if (updated.rule_type === "fixed" && (resumed || rescheduled)) {
+      const today = toDateString(new Date());
+      changes = {
+        ...updates,
+        next_date: getNextFundingDate(
+          updated,
+          toDateString(new Date(Date.parse(today) - DAY_MS))
+        ),
+      };
+    }
+  }
+
+  return supabase
+    .from("goal_funding_rules")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a funding rule. Contributions it already made are kept.
+ */
+export async function deleteGoalFundingRule(id: string) {
+  return supabase.from("goal_funding_rules").delete().eq("id", id);
+}
+
+/**
+ * Get the first contribution date of a fixed rule's cadence strictly after a
+ * date
+ */
+export function getNextFundingDate(
+  rule: Pick<GoalFundingRule, "start_date" | "frequency">,
+  afterDate: string
+): string {
+  return calculateNextDueDate(
+    rule.start_date,
+    rule.frequency || "monthly",
+    new Date(Date.parse(afterDate) + DAY_MS)
+  );
+}
+
+/**
+ * Get a fixed rule's contribution amounts per month
+ */
+function getMonthlyFixedAmount(rule: GoalFundingRule): number {
+  if (rule.rule_type !== "fixed" || !rule.amount) return 0;
+  return rule.frequency === "weekly" ? (rule.amount * 52) / 12 : rule.amount;
+}
+
+/**
+ * Work out which contributions of a fixed rule are due up to and including a
+ * date, catching up on every period that was missed. Contributions stop once
+ * they cover what the goal still needs.
+ */
+export function getDueFundingContributions(
+  rule: GoalFundingRule,
+  goal: Pick<Goal, "current_amount" | "target_amount" | "status">,
+  today: string
+): FundingSchedule {
+  const contributions: GoalContributionInsert[] = [];
+  let nextDate = rule.next_date || rule.start_date;
+  let remaining = goal.target_amount - (goal.current_amount || 0);
+
+  while (nextDate <= today) {
+    // Periods while the goal isn't being saved for are skipped
+    if (goal.status === "in_progress" && remaining > 0 && rule.amount) {
+      const amount = roundCents(Math.min(rule.amount, remaining));
+      contributions.push({
+        goal_id: rule.goal_id,
+        amount,
+        contribution_date: nextDate,
+        funding_rule_id: rule.id,
+        bank_account_id: rule.bank_account_id,
+        scheduled_date: nextDate,
+      });
+      remaining -= amount;
+    }
+
+    nextDate = getNextFundingDate(rule, nextDate);
+  }
+
+  return { contributions, nextDate };
+}
+
+/**
+ * Record contributions drawn from a bank account as expenses on that account,
+ * in the goal's category, and link them to the contributions. Contributions
+ * are in the base currency; the expenses are converted into the account's.
+ */
+async function recordContributionTransactions(
+  contributions: GoalContribution[]
+): Promise<{ error: Error | null }> {
+  const drawn = contributions.filter(
+    (contribution) =>
+      contribution.bank_account_id && !contribution.transaction_id
+  );
+  if (drawn.length === 0) return { error: null };
+
+  const goalIds = Array.from(new Set(drawn.map((item) => item.goal_id)));
+  const accountIds = Array.from(
+    new Set(drawn.map((item) => item.bank_account_id!))
+  );
+  const [goalsResult, accountsResult] = await Promise.all([
+    supabase
+      .from("financial_goals")
+      .select("id, user_id, name, category_id")
+      .in("id", goalIds),
+    supabase.from("bank_accounts").select("id, currency").in("id", accountIds),
+  ]);
+
+  if (goalsResult.error) return { error: goalsResult.error };
+  if (accountsResult.error) return { error: accountsResult.error };
+
+  const goals = new Map(goalsResult.data.map((goal) => [goal.id, goal]));
+  const currencies = new Map(
+    accountsResult.data.map((account) => [account.id, account.currency])
+  );
+  const converter = await getCurrencyConverter();
+  const created: Transaction[] = [];
+
+  for (const contribution of drawn) {
+    const goal = goals.get(contribution.goal_id);
+    const currency = currencies.get(contribution.bank_account_id!);
+    if (!goal || !currency) continue;
+
+    const rate = converter.convert(1, currency, contribution.contribution_date);
+    const { data: transaction, error } = await supabase
+      .from("transactions")
+      .insert({
+        user_id: goal.user_id,
+        amount: roundCents(contribution.amount / (rate || 1)),
+        description: goal.name,
+        date: contribution.contribution_date,
+        type: "expense",
+        category_id: goal.category_id,
+        bank_account_id: contribution.bank_account_id,
+        status: "completed",
+      })
+      .select()
+      .single();
+
+    if (error) return { error };
+
+    const { error: linkError } = await supabase
+      .from("goal_contributions")
+      .update({ transaction_id: transaction.id })
+      .eq("id", contribution.id);
+
+    if (linkError) {
+      // Don't leave an expense behind for a contribution it isn't linked to
+      await supabase.from("transactions").delete().eq("id", transaction.id);
+      return { error: linkError };
+    }
+
+    created.push(transaction);
+  }
+
+  await checkBudgetAlerts(created);
+  return { error: null };
+}
+
+/**
+ * Save automatic contributions, along with the expenses they are drawn from.
+ * Contributions another tab already made are skipped by the given unique
+ * constraint.
+ */
+async function recordFundingContributions(
+  contributions: GoalContributionInsert[],
+  onConflict: string
+) {
+  if (contributions.length === 0) return { data: [], error: null };
+
+  const { data: inserted, error } = await supabase
+    .from("goal_contributions")
+    .upsert(contributions, { onConflict, ignoreDuplicates: true })
+    .select();
+
+  if (error) return { data: null, error };
+
+  const { error: transactionError } = await recordContributionTransactions(
+    inserted || []
+  );
+  if (transactionError)
+    return { data: inserted || [], error: transactionError };
+
+  return { data: inserted || [], error: null };
+}
+
+/**
+ * Make every due contribution of the user's active fixed funding rules,
+ * including periods missed since the app was last opened
+ */
+export async function processDueGoalFunding(today = toDateString(new Date())) {
+  try {
+    const { data: rules, error } = await supabase
+      .from("goal_funding_rules")
+      .select("*, financial_goals (current_amount, target_amount, status)")
+      .eq("is_active", true)
+      .eq("rule_type", "fixed")
+      .lte("next_date", today);
+
+    if (error) return { data: null, error };
+
+    let created = 0;
+
+    for (const { financial_goals: goal, ...rule } of rules || []) {
+      if (!goal) continue;
+
+      const schedule = getDueFundingContributions(rule, goal, today);
+      const { data: inserted, error: recordError } =
+        await recordFundingContributions(
+          schedule.contributions,
+          "funding_rule_id,scheduled_date"
+        );
+
+      if (recordError) return { data: { created }, error: recordError };
+
+      created += inserted?.length || 0;
+
+      const { error: updateError } = await updateGoalFundingRule(rule.id, {
+        next_date: schedule.nextDate,
+      });
+
+      if (updateError) return { data: { created }, error: updateError };
+    }
+
+    return { data: { created }, error: null };
+  } catch (err) {
+    console.error("Unexpected error in processDueGoalFunding:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Contribute the share of new income transactions that percentage funding
+ * rules on their accounts ask for. Income dated before a rule's start date,
+ * and goals that aren't being saved for, are left out; a contribution never
+ * takes a goal past its target.
+ */
+export async function applyGoalFundingRules(
+  transactions: FundingTransaction[]
+) {
+  try {
+    const incomes = transactions.filter(
+      (transaction) =>
+        transaction.type === "income" && transaction.bank_account_id
+    );
+    if (incomes.length === 0) return { data: [], error: null };
+
+    const accountIds = Array.from(
+      new Set(incomes.map((transaction) => transaction.bank_account_id!))
+    );
+    const { data: rules, error } = await supabase
+      .from("goal_funding_rules")
+      .select("*, financial_goals (current_amount, target_amount, status)")
+      .eq("is_active", true)
+      .eq("rule_type", "percentage")
+      .in("bank_account_id", accountIds);
+
+    if (error) return { data: null, error };
+    if (!rules || rules.length === 0) return { data: [], error: null };
+
+    const converter = await getCurrencyConverter();
+    const remaining = new Map<string, number>();
+    const contributions: GoalContributionInsert[] = [];
+
+    rules.forEach(({ financial_goals: goal, ...rule }) => {
+      if (!goal || goal.status !== "in_progress" || !rule.percentage) return;
+      if (!remaining.has(rule.goal_id)) {
+        remaining.set(
+          rule.goal_id,
+          goal.target_amount - (goal.current_amount || 0)
+        );
+      }
+
+      incomes
+        .filter(
+          (transaction) =>
+            transaction.bank_account_id === rule.bank_account_id &&
+            transaction.date >= rule.start_date
+        )
+        .forEach((transaction) => {
+          const left = remaining.get(rule.goal_id) || 0;
+          if (left <= 0) return;
+
+          const share =
+            (converter.convert(
+              transaction.amount,
+              transaction.currency,
+              transaction.date
+            ) *
+              rule.percentage!) /
+            100;
+          const amount = roundCents(Math.min(share, left));
+          if (amount <= 0) return;
+
+          contributions.push({
+            goal_id: rule.goal_id,
+            amount,
+            contribution_date: transaction.date,
+            funding_rule_id: rule.id,
+            bank_account_id: rule.bank_account_id,
+            source_transaction_id: transaction.id,
+          });
+          remaining.set(rule.goal_id, left - amount);
+        });
+    });
+
+    return recordFundingContributions(
+      contributions,
+      "funding_rule_id,source_transaction_id"
+    );
+  } catch (err) {
+    console.error("Unexpected error in applyGoalFundingRules:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Preview a goal's upcoming automatic contributions over the next months: the
+ * dates and amounts of its fixed rules, and an estimate of what its percentage
+ * rules bring in from recent income
+ */
+export async function previewGoalFunding(
+  goal: Goal,
+  rules: GoalFundingRule[],
+  months = 3
+): Promise<{ data: GoalFundingPreview | null; error: Error | null }> {
+  try {
+    const now = new Date();
+    const today = toDateString(now);
+    const horizon = new Date(now);
+    horizon.setMonth(horizon.getMonth() + months);
+    const endDate = toDateString(horizon);
+    const activeRules = rules.filter((rule) => rule.is_active);
+
+    // Fixed contributions in date order, until the target is covered
+    const scheduled: { ruleId: string; date: string; amount: number }[] = [];
+    activeRules
+      .filter((rule) => rule.rule_type === "fixed" && rule.amount)
+      .forEach((rule) => {
+        let date = rule.next_date || rule.start_date;
+        // Contributions still due today are made on the next app open
+        while (date <= endDate) {
+          scheduled.push({ ruleId: rule.id, date, amount: rule.amount! });
+          date = getNextFundingDate(rule, date);
+        }
+      });
+    scheduled.sort((a, b) => a.date.localeCompare(b.date));
+
+    let remaining =
+      goal.status === "in_progress"
+        ? goal.target_amount - (goal.current_amount || 0)
+        : 0;
+    const items: GoalFundingPreviewItem[] = [];
+    for (const contribution of scheduled) {
+      if (remaining <= 0) break;
+      const amount = roundCents(Math.min(contribution.amount, remaining));
+      remaining -= amount;
+      items.push({ ...contribution, amount, completesGoal: remaining <= 0 });
+    }
+
+    // Percentage rules, from the average monthly income of their accounts
+    const percentageRules = activeRules.filter(
+      (rule) => rule.rule_type === "percentage" && rule.percentage
+    );
+    let estimatedMonthlyFromIncome = 0;
+
+    if (percentageRules.length > 0) {
+      const since = new Date(now);
+      since.setMonth(since.getMonth() - INCOME_ESTIMATE_MONTHS);
+
+      const { data: incomes, error } = await supabase
+        .from("transactions")
+        .select("amount, currency, date, bank_account_id")
+        .eq("type", "income")
+        .in(
+          "bank_account_id",
+          percentageRules.map((rule) => rule.bank_account_id)
+        )
+        .gte("date", toDateString(since))
+        .lte("date", today);
+
+      if (error) return { data: null, error };
+
+      const converter = await getCurrencyConverter();
+      percentageRules.forEach((rule) => {
+        const income = (incomes || [])
+          .filter((income) => income.bank_account_id === rule.bank_account_id)
+          .reduce(
+            (sum, income) =>
+              sum +
+              converter.convert(income.amount, income.currency, income.date),
+            0
+          );
+        estimatedMonthlyFromIncome +=
+          (income / INCOME_ESTIMATE_MONTHS) * (rule.percentage! / 100);
+      });
+    }
+
+    const fixedMonthly = activeRules.reduce(
+      (sum, rule) => sum + getMonthlyFixedAmount(rule),
+      0
+    );
+
+    return {
+      data: {
+        items,
+        estimatedMonthlyFromIncome: roundCents(estimatedMonthlyFromIncome),
+        scheduledMonthly: roundCents(fixedMonthly + estimatedMonthlyFromIncome),
+      },
+      error: null,
+    };
+  } catch (err) {
+    console.error("Unexpected error in previewGoalFunding:", err);
+    return { data: null, error: err as Error };
+  }
+}
@@ -6,6 +6,26 @@ export type GoalInsert =
   Database["public"]["Tables"]["financial_goals"]["Insert"];
 export type GoalUpdate =
   Database["public"]["Tables"]["financial_goals"]["Update"];
+export type GoalContribution =
+  Database["public"]["Tables"]["goal_contributions"]["Row"];
+export type GoalContributionUpdate =
+  Database["public"]["Tables"]["goal_contributions"]["Update"];
+export type GoalContributionChange =
+  Database["public"]["Tables"]["goal_contribution_history"]["Row"];
+
+// How the pace of a goal's recent contributions compares to what it needs
+export interface GoalFundingStatus {
+  // no_target when the goal has no target date left to pace against
+  status: "on_track" | "behind" | "no_target";
+  // Average contributed per month over the recent contributions
+  actualMonthly: number;
+  monthlyTarget: number;
+}
+
+// Months of contributions the actual pace is averaged over
+const FUNDING_PACE_MONTHS = 3;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
 
 // Extended Goal type with category information
 export interface GoalWithCategory extends Goal {
@@ -106,7 +126,8 @@ export async function deleteGoal(id: string) {
 }
 
 /**
- * Add a contribution to a goal
+ * Add a contribution to a goal. A negative amount withdraws money from it.
+ * The goal's current amount and status are recomputed by the database.
  */
 export async function addGoalContribution(
   goalId: string,
@@ -114,7 +135,6 @@ export async function addGoalContribution(
   date = new Date(),
   notes?: string
 ) {
-  // First, create the contribution record
   const { data: contribution, error: contributionError } = await supabase
     .from("goal_contributions")
     .insert({
@@ -130,29 +150,38 @@ export async function addGoalContribution(
     return { data: null, error: contributionError };
   }
 
-  // Then, update the goal's current_amount
-  const { data: goal, error: goalError } = await getGoalById(goalId);
+  const { data: updatedGoal, error: goalError } = await getGoalById(goalId);
 
-  if (goalError || !goal) {
-    return {
-      data: contribution,
-      error: goalError || new Error("Goal not found"),
-    };
+  if (goalError) {
+    return { data: null, error: goalError };
   }
 
-  const newCurrentAmount = (goal.current_amount || 0) + amount;
-  const isCompleted = newCurrentAmount >= goal.target_amount;
-
-  const { data: updatedGoal, error: updateError } = await updateGoal(goalId, {
-    current_amount: newCurrentAmount,
-    status: isCompleted ? "achieved" : goal.status,
-  });
+  return { data: { contribution, goal: updatedGoal }, error: null };
+}
 
-  if (updateError) {
-    return { data: contribution, error: updateError };
-  }
+/**
+ * Correct the amount, date or notes of a contribution
+ */
+export async function updateGoalContribution(
+  id: string,
+  updates: Pick<
+    GoalContributionUpdate,
+    "amount" | "contribution_date" | "notes"
+  >
+) {
+  return supabase
+    .from("goal_contributions")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+}
 
-  return { data: { contribution, goal: updatedGoal }, error: null };
+/**
+ * Delete a contribution, taking its amount back out of the goal
+ */
+export async function deleteGoalContribution(id: string) {
+  return supabase.from("goal_contributions").delete().eq("id", id);
 }
 
 /**
@@ -166,6 +195,17 @@ export async function getGoalContributions(goalId: string) {
     .order("contribution_date", { ascending: false });
 }
 
+/**
+ * Get every change made to a goal's contributions, newest first
+ */
+export async function getGoalContributionHistory(goalId: string) {
+  return supabase
+    .from("goal_contribution_history")
+    .select("*")
+    .eq("goal_id", goalId)
+    .order("created_at", { ascending: false });
+}
+
 /**
  * Calculate goal metrics
  */
@@ -219,3 +259,39 @@ export function calculateGoalMetrics(goal: Goal) {
     monthlyTarget,
   };
 }
+
+/**
+ * Compare how much a goal has been getting per month, averaged over its
+ * contributions of the last few months, to the monthly target it needs to
+ * reach its target date. A goal younger than a month is paced over a month.
+ */
+export function calculateGoalFundingStatus(
+  goal: Goal,
+  contributions: Pick<GoalContribution, "amount" | "contribution_date">[],
+  now = new Date()
+): GoalFundingStatus {
+  const { monthlyTarget } = calculateGoalMetrics(goal);
+
+  const windowStart = new Date(now);
+  windowStart.setMonth(windowStart.getMonth() - FUNDING_PACE_MONTHS);
+  const startDate = new Date(goal.start_date);
+  const paceStart = startDate > windowStart ? startDate : windowStart;
+  const paceStartDate = paceStart.toISOString().split("T")[0];
+
+  const contributed = contributions
+    .filter((contribution) => contribution.contribution_date >= paceStartDate)
+    .reduce((sum, contribution) => sum + contribution.amount, 0);
+  const paceMonths =
+    Math.max((now.getTime() - paceStart.getTime()) / DAY_MS, 30) / 30;
+  const actualMonthly = Math.round((contributed / paceMonths) * 100) / 100;
+
+  if (monthlyTarget <= 0) {
+    return { status: "no_target", actualMonthly, monthlyTarget };
+  }
+
+  return {
+    status: actualMonthly >= monthlyTarget ? "on_track" : "behind",
+    actualMonthly,
+    monthlyTarget,
+  };
+}
@@ -0,0 +1,117 @@
+import { supabase } from "./client";
+import type { Json } from "../../lib/database.types";
+
+// What an activity entry is about
+export type GroupActivityEntityType =
+  | "group"
+  | "transaction"
+  | "budget"
+  | "member"
+  | "invitation"
+  | "shared_category"
+  | "shared_budget";
+
+export const GROUP_ACTIVITY_ENTITY_TYPES: GroupActivityEntityType[] = [
+  "transaction",
+  "budget",
+  "member",
+  "invitation",
+  "shared_category",
+  "shared_budget",
+  "group",
+];
+
+export interface GroupActivityFilters {
+  // Only activity by this member
+  userId?: string;
+  entityType?: GroupActivityEntityType;
+  // Inclusive date range, yyyy-MM-dd
+  from?: string;
+  to?: string;
+}
+
+type ActivityValues = Record<string, unknown>;
+
+export interface GroupActivityEntry {
+  groupId: string;
+  action: string;
+  entityType: GroupActivityEntityType;
+  entityId?: string | null;
+  // The record before and after the change; null when it didn't exist
+  before?: ActivityValues | null;
+  after?: ActivityValues | null;
+  // Values the feed shows in its message, e.g. name, amount or role
+  summary?: ActivityValues;
+  // Defaults to the signed-in user
+  userId?: string;
+}
+
+// Bookkeeping columns that aren't worth showing as a change
+const IGNORED_FIELDS = ["created_at", "updated_at", "token"];
+
+/**
+ * Reduce a before and after snapshot to the fields that changed. New and
+ * deleted records keep all their fields.
+ */
+export function getActivityChanges(
+  before: ActivityValues | null | undefined,
+  after: ActivityValues | null | undefined
+): { before: ActivityValues | null; after: ActivityValues | null } {
+  const clean = (values: ActivityValues | null | undefined) =>
+    values
+      ? Object.fromEntries(
+          Object.entries(values).filter(
+            ([key, value]) =>
+              !IGNORED_FIELDS.includes(key) &&
+              (typeof value !== "object" || value === null)
+          )
+        )
+      : null;
+
+  const cleanBefore = clean(before);
+  const cleanAfter = clean(after);
+  if (!cleanBefore || !cleanAfter) {
+    return { before: cleanBefore, after: cleanAfter };
+  }
+
+  const changed = Object.keys(cleanAfter).filter(
+    (key) => cleanBefore[key] !== cleanAfter[key]
+  );
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, cleanBefore[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, cleanAfter[key]])),
+  };
+}
+
+/**
+ * Write an entry to a group's activity log. Logging never fails the change it
+ * describes, so errors are only reported to the console.
+ */
+export async function logGroupActivity(entry: GroupActivityEntry) {
+  try {
+    let userId = entry.userId;
+    if (!userId) {
+      const { data: userData } = await supabase.auth.getUser();
+      userId = userData.user?.id;
+    }
+    if (!userId) return;
+
+    const { error } = await supabase.from("group_activity_log").insert({
+      group_id: entry.groupId,
+      user_id: userId,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId || null,
+      details: {
+        ...entry.summary,
+        ...getActivityChanges(entry.before, entry.after),
+      } as Json,
+    });
+
+    if (error) {
+      console.warn("Error logging group activity:", error);
+    }
+  } catch (err) {
+    console.warn("Error logging group activity:", err);
+  }
+}
@@ -1,5 +1,13 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { getBudgetPeriods } from "./budgets";
+import { getCrossedThreshold } from "./notifications";
+import { logGroupActivity } from "./groupActivity";
+import {
+  canChangeGroupItem,
+  isGroupTransactionApproved,
+  requireGroupPermission,
+} from "./groupPermissions";
 
 export type GroupBudget = Database["public"]["Tables"]["group_budgets"]["Row"];
 export type GroupBudgetInsert =
@@ -99,11 +107,36 @@ export async function getGroupBudget(id: string) {
   }
 }
 
+// Values the activity feed shows for a budget
+const budgetSummary = (budget: Pick<GroupBudget, "name" | "amount">) => ({
+  name: budget.name,
+  amount: budget.amount,
+});
+
 /**
  * Create a new group budget
  */
 export async function createGroupBudget(budget: GroupBudgetInsert) {
-  return supabase.from("group_budgets").insert(budget).select().single();
+  const denied = await requireGroupPermission(budget.group_id, "createBudget");
+  if (denied) return { data: null, error: denied };
+
+  const result = await supabase
+    .from("group_budgets")
+    .insert(budget)
+    .select()
+    .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId: result.data.group_id,
+      action: "created",
+      entityType: "budget",
+      entityId: result.data.id,
+      after: result.data,
+      summary: budgetSummary(result.data),
+    });
+  }
+  return result;
 }
 
 /**
@@ -113,19 +146,80 @@ export async function updateGroupBudget(
   id: string,
   updates: GroupBudgetUpdate
 ) {
-  return supabase
+  const { data: previous } = await supabase
+    .from("group_budgets")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (previous) {
+    const denied = await requireGroupPermission(previous.group_id, (access) =>
+      canChangeGroupItem(
+        access,
+        "edit",
+        "Budget",
+        previous.created_by === access.userId
+      )
+    );
+    if (denied) return { data: null, error: denied };
+  }
+
+  const result = await supabase
     .from("group_budgets")
     .update(updates)
     .eq("id", id)
     .select()
     .single();
+
+  if (result.data) {
+    await logGroupActivity({
+      groupId: result.data.group_id,
+      action: "updated",
+      entityType: "budget",
+      entityId: result.data.id,
+      before: previous,
+      after: result.data,
+      summary: budgetSummary(result.data),
+    });
+  }
+  return result;
 }
 
 /**
  * Delete a group budget
  */
 export async function deleteGroupBudget(id: string) {
-  return supabase.from("group_budgets").delete().eq("id", id);
+  const { data: previous } = await supabase
+    .from("group_budgets")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (previous) {
+    const denied = await requireGroupPermission(previous.group_id, (access) =>
+      canChangeGroupItem(
+        access,
+        "delete",
+        "Budget",
+        previous.created_by === access.userId
+      )
+    );
+    if (denied) return { data: null, error: denied };
+  }
+
+  const result = await supabase.from("group_budgets").delete().eq("id", id);
+
+  if (!result.error && previous) {
+    await logGroupActivity({
+      groupId: previous.group_id,
+      action: "deleted",
+      entityType: "budget",
+      entityId: previous.id,
+      before: previous,
+      summary: budgetSummary(previous),
+    });
+  }
+  return result;
 }
 
 /**
@@ -171,7 +265,8 @@ export async function getActiveGroupBudgets(groupId: string) {
 }
 
 /**
- * Calculate budget progress (spent amount vs budget amount)
+ * Calculate budget progress (spent amount vs budget amount) for the current
+ * budget period, and the highest alert threshold spending has reached
  */
 export async function calculateGroupBudgetProgress(budgetId: string) {
   try {
@@ -181,13 +276,16 @@ export async function calculateGroupBudgetProgress(budgetId: string) {
     if (budgetError) return { data: null, error: budgetError };
     if (!budget) return { data: null, error: new Error("Budget not found") };
 
-    // Get transactions for this category in the budget period
-    const startDate = budget.start_date;
-    const endDate = budget.end_date || new Date().toISOString().split("T")[0];
+    // Get transactions for this category in the current budget period. A
+    // budget that hasn't started yet has nothing spent, and expenses waiting
+    // for approval don't count until they are approved.
+    const period = getBudgetPeriods(budget).pop();
+    const startDate = period?.start || budget.start_date;
+    const endDate = period?.end || budget.start_date;
 
     const { data: transactions, error: transactionsError } = await supabase
       .from("group_transactions")
-      .select("amount")
+      .select("amount, status")
       .eq("group_id", budget.group_id)
       .eq("category_id", budget.category_id)
       .eq("type", "expense")
@@ -197,10 +295,9 @@ export async function calculateGroupBudgetProgress(budgetId: string) {
     if (transactionsError) return { data: null, error: transactionsError };
 
     // Calculate total spent
-    const totalSpent = transactions.reduce(
-      (sum, transaction) => sum + Number(transaction.amount),
-      0
-    );
+    const totalSpent = transactions
+      .filter(isGroupTransactionApproved)
+      .reduce((sum, transaction) => sum + Number(transaction.amount), 0);
 
     // Calculate progress percentage
     const progressPercentage = (totalSpent / Number(budget.amount)) * 100;
@@ -213,6 +310,15 @@ export async function calculateGroupBudgetProgress(budgetId: string) {
         remainingAmount: Number(budget.amount) - totalSpent,
         progressPercentage: Math.min(progressPercentage, 100),
         isOverBudget: totalSpent > Number(budget.amount),
+        periodStart: startDate,
+        periodEnd: endDate,
+        alertThreshold: period
+          ? getCrossedThreshold(
+              budget.alert_thresholds,
+              totalSpent,
+              Number(budget.amount)
+            )
+          : null,
       },
       error: null,
     };
@@ -0,0 +1,413 @@
+import { supabase } from "./client";
+import type { Database, Json } from "../../lib/database.types";
+
+type GroupMemberRow = Database["public"]["Tables"]["group_members"]["Row"];
+
+export type GroupRole = GroupMemberRow["role"];
+export type GroupFamilyRole = NonNullable<GroupMemberRow["family_role"]>;
+
+// Everything a member can be allowed to do in a group. Seeing the group and
+// its data only takes being a member.
+export type GroupPermission =
+  | "createTransaction"
+  | "editOwnTransaction"
+  | "editAnyTransaction"
+  | "deleteOwnTransaction"
+  | "deleteAnyTransaction"
+  | "createBudget"
+  | "editOwnBudget"
+  | "editAnyBudget"
+  | "deleteOwnBudget"
+  | "deleteAnyBudget"
+  | "recordSettlement"
+  | "deleteOwnSettlement"
+  | "deleteAnySettlement"
+  | "approveTransactions"
+  | "inviteMembers"
+  | "manageMembers"
+  | "assignAdmins"
+  | "shareItems"
+  | "editSettings"
+  | "manageChildLimits"
+  | "manageApprovalRules"
+  | "deleteGroup";
+
+const MEMBER_PERMISSIONS: GroupPermission[] = [
+  "createTransaction",
+  "editOwnTransaction",
+  "deleteOwnTransaction",
+  "createBudget",
+  "editOwnBudget",
+  "deleteOwnBudget",
+  "recordSettlement",
+  "deleteOwnSettlement",
+];
+
+const ADMIN_PERMISSIONS: GroupPermission[] = [
+  ...MEMBER_PERMISSIONS,
+  "editAnyTransaction",
+  "deleteAnyTransaction",
+  "editAnyBudget",
+  "deleteAnyBudget",
+  "deleteAnySettlement",
+  "approveTransactions",
+  "inviteMembers",
+  "manageMembers",
+  "shareItems",
+  "editSettings",
+];
+
+/**
+ * What each role may do in a group
+ */
+export const GROUP_ROLE_PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+  owner: [
+    ...ADMIN_PERMISSIONS,
+    "assignAdmins",
+    "manageChildLimits",
+    "manageApprovalRules",
+    "deleteGroup",
+  ],
+  admin: ADMIN_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  viewer: [],
+};
+
+// Higher roles review the expenses of lower ones
+const GROUP_ROLE_RANK: Record<GroupRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Limits the group owner sets for members with the family role "child", on top
+ * of what their role allows
+ */
+export interface GroupChildLimits {
+  // Expenses above this amount need a parent's approval; null for no limit
+  expenseApprovalLimit: number | null;
+  canEditTransactions: boolean;
+  canManageBudgets: boolean;
+  canRecordSettlements: boolean;
+}
+
+export const DEFAULT_GROUP_CHILD_LIMITS: GroupChildLimits = {
+  expenseApprovalLimit: null,
+  canEditTransactions: true,
+  canManageBudgets: false,
+  canRecordSettlements: false,
+};
+
+// Permissions a child only keeps when the matching limit allows it
+const CHILD_LIMITED_PERMISSIONS: Record<
+  Exclude<keyof GroupChildLimits, "expenseApprovalLimit">,
+  GroupPermission[]
+> = {
+  canEditTransactions: ["editOwnTransaction", "deleteOwnTransaction"],
+  canManageBudgets: ["createBudget", "editOwnBudget", "deleteOwnBudget"],
+  canRecordSettlements: ["recordSettlement", "deleteOwnSettlement"],
+};
+
+/**
+ * Read a group's stored child limits, falling back to the defaults for
+ * anything that isn't set
+ */
+export function getGroupChildLimits(
+  value: Json | null | undefined
+): GroupChildLimits {
+  const stored =
+    value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  const flag = (key: keyof typeof CHILD_LIMITED_PERMISSIONS) =>
+    typeof stored[key] === "boolean"
+      ? (stored[key] as boolean)
+      : DEFAULT_GROUP_CHILD_LIMITS[key];
+  const limit = Number(stored.expenseApprovalLimit);
+
+  return {
+    expenseApprovalLimit:
+      stored.expenseApprovalLimit != null && limit >= 0 ? limit : null,
+    canEditTransactions: flag("canEditTransactions"),
+    canManageBudgets: flag("canManageBudgets"),
+    canRecordSettlements: flag("canRecordSettlements"),
+  };
+}
+
+/**
+ * Which expenses the group owner wants approved before they count
+ */
+export interface GroupApprovalRules {
+  // Expenses from members with this role or a lower one need approval; null
+  // when no role needs it
+  role: Extract<GroupRole, "member" | "admin"> | null;
+  // Only expenses above this amount need approval; null for every expense
+  amountLimit: number | null;
+}
+
+export const DEFAULT_GROUP_APPROVAL_RULES: GroupApprovalRules = {
+  role: null,
+  amountLimit: null,
+};
+
+/**
+ * Read a group's stored approval rules, falling back to the defaults for
+ * anything that isn't set
+ */
+export function getGroupApprovalRules(
+  value: Json | null | undefined
+): GroupApprovalRules {
+  const stored =
+    value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  const limit = Number(stored.amountLimit);
+
+  return {
+    role:
+      stored.role === "member" || stored.role === "admin"
+        ? stored.role
+        : DEFAULT_GROUP_APPROVAL_RULES.role,
+    amountLimit: stored.amountLimit != null && limit >= 0 ? limit : null,
+  };
+}
+
+/**
+ * A user's standing in a group. Without a role the user isn't a member.
+ */
+export interface GroupAccess {
+  role: GroupRole | null;
+  familyRole?: GroupFamilyRole | null;
+  childLimits?: GroupChildLimits;
+  approvalRules?: GroupApprovalRules;
+}
+
+// Owners are never limited, even when they are a child in the family
+const isLimitedChild = (access: GroupAccess) =>
+  access.familyRole === "child" && access.role !== "owner";
+
+/**
+ * Get everything a user may do in a group
+ */
+export function getGroupPermissions(access: GroupAccess): GroupPermission[] {
+  if (!access.role) return [];
+
+  const permissions = GROUP_ROLE_PERMISSIONS[access.role];
+  if (!isLimitedChild(access)) return permissions;
+
+  const limits = access.childLimits || DEFAULT_GROUP_CHILD_LIMITS;
+  const withheld = (
+    Object.keys(CHILD_LIMITED_PERMISSIONS) as Array<
+      keyof typeof CHILD_LIMITED_PERMISSIONS
+    >
+  )
+    .filter((key) => !limits[key])
+    .flatMap((key) => CHILD_LIMITED_PERMISSIONS[key]);
+  return permissions.filter((permission) => !withheld.includes(permission));
+}
+
+/**
+ * Check whether a user may do something in a group
+ */
+export function hasGroupPermission(
+  access: GroupAccess,
+  permission: GroupPermission
+): boolean {
+  return getGroupPermissions(access).includes(permission);
+}
+
+/**
+ * Check whether a user may edit or delete a transaction or budget, which
+ * depends on whether they created it
+ */
+export function canChangeGroupItem(
+  access: GroupAccess,
+  action: "edit" | "delete",
+  item: "Transaction" | "Budget",
+  isOwn: boolean
+): boolean {
+  return (
+    hasGroupPermission(access, `${action}Any${item}`) ||
+    (isOwn && hasGroupPermission(access, `${action}Own${item}`))
+  );
+}
+
+/**
+ * Get the roles a user may give to others, when inviting them or changing
+ * their role
+ */
+export function getAssignableGroupRoles(access: GroupAccess): GroupRole[] {
+  if (!hasGroupPermission(access, "inviteMembers")) return [];
+  return hasGroupPermission(access, "assignAdmins")
+    ? ["admin", "member", "viewer"]
+    : ["member", "viewer"];
+}
+
+/**
+ * Check whether a user may change the role of, or remove, another member.
+ * Owners manage everyone but themselves; admins manage members and viewers.
+ */
+export function canManageGroupMember(
+  access: GroupAccess,
+  member: Pick<GroupMemberRow, "role">,
+  isSelf: boolean
+): boolean {
+  if (isSelf || !hasGroupPermission(access, "manageMembers")) return false;
+  return (
+    hasGroupPermission(access, "assignAdmins") ||
+    (member.role !== "owner" && member.role !== "admin")
+  );
+}
+
+/**
+ * Check whether an expense a user adds has to wait for approval, because of
+ * the group's approval rules or the approval limit the owner set for children.
+ * Owners never need approval.
+ */
+export function needsGroupApproval(
+  access: GroupAccess,
+  transaction: { type: string; amount: number }
+): boolean {
+  if (
+    !access.role ||
+    access.role === "owner" ||
+    transaction.type !== "expense"
+  ) {
+    return false;
+  }
+
+  const amount = Number(transaction.amount);
+  const rules = access.approvalRules || DEFAULT_GROUP_APPROVAL_RULES;
+  const childLimit = access.childLimits?.expenseApprovalLimit;
+
+  const byRule =
+    rules.role !== null &&
+    GROUP_ROLE_RANK[access.role] <= GROUP_ROLE_RANK[rules.role] &&
+    (rules.amountLimit === null || amount > rules.amountLimit);
+  const byChildLimit =
+    isLimitedChild(access) && childLimit != null && amount > childLimit;
+  return byRule || byChildLimit;
+}
+
+/**
+ * Check whether a user may approve or reject an expense that is waiting for
+ * approval. Owners and admins review expenses from members with a lower role,
+ * and parents review their children's. Nobody reviews their own expenses.
+ */
+export function canReviewGroupTransaction(
+  access: GroupAccess,
+  submitter: { role: GroupRole | null; familyRole?: GroupFamilyRole | null },
+  isOwn: boolean
+): boolean {
+  if (isOwn || !access.role) return false;
+
+  if (
+    access.familyRole === "parent" &&
+    submitter.familyRole === "child" &&
+    hasGroupPermission(access, "createTransaction")
+  ) {
+    return true;
+  }
+  return (
+    hasGroupPermission(access, "approveTransactions") &&
+    (!submitter.role ||
+      GROUP_ROLE_RANK[access.role] > GROUP_ROLE_RANK[submitter.role])
+  );
+}
+
+/**
+ * Check whether a transaction counts towards a group's totals, budgets and
+ * balances. Expenses waiting for approval, or rejected, don't count.
+ */
+export function isGroupTransactionApproved(transaction: {
+  status: string | null;
+}): boolean {
+  return transaction.status !== "pending" && transaction.status !== "rejected";
+}
+
+/**
+ * Get the signed-in user's access to a group
+ */
+export async function getGroupAccess(groupId: string) {
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    const userId = userData.user?.id;
+    if (!userId) {
+      return { data: null, error: new Error("Not signed in") };
+    }
+
+    const [memberResult, groupResult] = await Promise.all([
+      supabase
+        .from("group_members")
+        .select("role, family_role")
+        .eq("group_id", groupId)
+        .eq("user_id", userId)
+        .maybeSingle(),
+      supabase
+        .from("budget_groups")
+        .select("child_limits, approval_rules")
+        .eq("id", groupId)
+        .maybeSingle(),
+    ]);
+
+    if (memberResult.error) return { data: null, error: memberResult.error };
+    if (groupResult.error) return { data: null, error: groupResult.error };
+
+    return {
+      data: {
+        userId,
+        role: memberResult.data?.role || null,
+        familyRole: memberResult.data?.family_role || null,
+        childLimits: getGroupChildLimits(groupResult.data?.child_limits),
+        approvalRules: getGroupApprovalRules(groupResult.data?.approval_rules),
+      },
+      error: null,
+    };
+  } catch (err) {
+    console.error("Unexpected error in getGroupAccess:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
+type GroupPermissionCheck =
+  GroupPermission | ((access: GroupAccess & { userId: string }) => boolean);
+
+/**
+ * Get the signed-in user's access to a group, provided they have a permission
+ * in it or pass a custom check
+ */
+export async function requireGroupAccess(
+  groupId: string,
+  check: GroupPermissionCheck
+) {
+  const { data: access, error } = await getGroupAccess(groupId);
+  if (error || !access) {
+    return { data: null, error: error || new Error("Not signed in") };
+  }
+
+  const allowed =
+    typeof check === "function"
+      ? check(access)
+      : hasGroupPermission(access, check);
+  if (!allowed) {
+    console.warn(
+      `Group permission denied in group ${groupId}:`,
+      typeof check === "function" ? "custom check" : check
+    );
+    return {
+      data: null,
+      error: new Error("You don't have permission to do this in this group"),
+    };
+  }
+  return { data: access, error: null };
+}
+
+/**
+ * Check that the signed-in user has a permission in a group, or passes a
+ * custom check. Returns the error to hand back when they don't.
+ */
+export async function requireGroupPermission(
+  groupId: string,
+  check: GroupPermissionCheck
+): Promise<Error | null> {
+  const { error } = await requireGroupAccess(groupId, check);
+  return error;
+}
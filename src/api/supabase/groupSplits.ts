@@ -0,0 +1,369 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import type { GroupTransaction } from "./groupTransactions";
+import {
+  hasGroupPermission,
+  isGroupTransactionApproved,
+  requireGroupPermission,
+} from "./groupPermissions";
+
+export type GroupTransactionSplit =
+  Database["public"]["Tables"]["group_transaction_splits"]["Row"];
+export type GroupSettlement =
+  Database["public"]["Tables"]["group_settlements"]["Row"];
+export type GroupSettlementInsert =
+  Database["public"]["Tables"]["group_settlements"]["Insert"];
+
+export type GroupSplitMethod = NonNullable<GroupTransaction["split_method"]>;
+
+export const GROUP_SPLIT_METHODS: GroupSplitMethod[] = [
+  "equal",
+  "percentage",
+  "shares",
+  "exact",
+];
+
+// One member's part of a split as entered: ignored for equal splits, the
+// percentage, the number of shares or the exact amount otherwise
+export interface SplitShareInput {
+  user_id: string;
+  value: number;
+}
+
+// What one member owes for a split expense
+export interface SplitShare {
+  user_id: string;
+  value: number;
+  amount: number;
+}
+
+// Where a member stands in the group. A positive balance is owed to the
+// member, a negative balance is what the member owes the others.
+export interface GroupMemberBalance {
+  userId: string;
+  // Split expenses the member paid for
+  paid: number;
+  // The member's share of split expenses
+  owed: number;
+  // Reimbursements the member paid and received
+  settledOut: number;
+  settledIn: number;
+  balance: number;
+}
+
+// A payment that moves the group towards everyone being even
+export interface SettlementSuggestion {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+}
+
+// Amounts are stored with two decimals; allow for float rounding
+const SPLIT_TOLERANCE = 0.005;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Check whether split inputs describe a valid split of a total: at least one
+ * member, percentages adding up to 100, a positive number of shares or exact
+ * amounts adding up to the total
+ */
+export function splitInputsValid(
+  total: number,
+  method: GroupSplitMethod,
+  inputs: SplitShareInput[]
+): boolean {
+  if (inputs.length === 0) return false;
+  if (inputs.some((input) => isNaN(input.value) || input.value < 0)) {
+    return false;
+  }
+
+  const sum = inputs.reduce((acc, input) => acc + input.value, 0);
+
+  switch (method) {
+    case "equal":
+      return true;
+    case "percentage":
+      return Math.abs(sum - 100) < SPLIT_TOLERANCE;
+    case "shares":
+      return sum > 0;
+    case "exact":
+      return Math.abs(sum - total) < SPLIT_TOLERANCE;
+  }
+}
+
+/**
+ * Work out what each member owes for a split. Amounts are rounded to cents and
+ * the cents left over by rounding go to the members with the largest
+ * remainders, so the shares always add up to the total.
+ */
+export function calculateSplitShares(
+  total: number,
+  method: GroupSplitMethod,
+  inputs: SplitShareInput[]
+): SplitShare[] {
+  if (inputs.length === 0) return [];
+
+  const weights = inputs.map((input) =>
+    method === "equal" ? 1 : Math.max(input.value, 0)
+  );
+  const weightTotal = weights.reduce((acc, weight) => acc + weight, 0);
+  const totalCents = toCents(total);
+
+  const exactCents = weights.map((weight) =>
+    weightTotal > 0 ? (totalCents * weight) / weightTotal : 0
+  );
+  const cents = exactCents.map(Math.floor);
+
+  let leftover = totalCents - cents.reduce((acc, value) => acc + value, 0);
+  const byRemainder = exactCents
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (let i = 0; leftover > 0 && i < byRemainder.length; i++, leftover--) {
+    cents[byRemainder[i].index]++;
+  }
+
+  return inputs.map((input, index) => ({
+    user_id: input.user_id,
+    value: method === "equal" ? 1 : input.value,
+    amount: cents[index] / 100,
+  }));
+}
+
+/**
+ * Get the splits of every transaction in a group
+ */
+export async function getGroupTransactionSplits(groupId: string) {
+  return supabase
+    .from("group_transaction_splits")
+    .select("*")
+    .eq("group_id", groupId);
+}
+
+/**
+ * Get the split of a single group transaction
+ */
+export async function getSplitsForGroupTransaction(transactionId: string) {
+  return supabase
+    .from("group_transaction_splits")
+    .select("*")
+    .eq("transaction_id", transactionId);
+}
+
+/**
+ * Split a group transaction across members, replacing any previous split.
+ * Without a method the transaction is no longer split. Whoever adds a
+ * transaction splits it; after that only admins can change someone else's.
+ */
+export async function setGroupTransactionSplits(
+  transaction: Pick<
+    GroupTransaction,
+    "id" | "group_id" | "amount" | "created_by"
+  >,
+  method: GroupSplitMethod | null,
+  inputs: SplitShareInput[] = []
+) {
+  try {
+    if (method && !splitInputsValid(transaction.amount, method, inputs)) {
+      return { data: null, error: new Error("Invalid split") };
+    }
+
+    const denied = await requireGroupPermission(
+      transaction.group_id,
+      (access) =>
+        transaction.created_by === access.userId
+          ? hasGroupPermission(access, "createTransaction")
+          : hasGroupPermission(access, "editAnyTransaction")
+    );
+    if (denied) return { data: null, error: denied };
+
+    const shares = method
+      ? calculateSplitShares(transaction.amount, method, inputs)
+      : [];
+
+    // One call, so a failed save keeps the previous split
+    return supabase.rpc("set_group_transaction_splits", {
+      p_transaction_id: transaction.id,
+      p_split_method: method,
+      p_splits: shares,
+    });
+  } catch (err) {
+    console.error("Unexpected error in setGroupTransactionSplits:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Get the reimbursements recorded in a group, newest first
+ */
+export async function getGroupSettlements(groupId: string) {
+  return supabase
+    .from("group_settlements")
+    .select("*")
+    .eq("group_id", groupId)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+}
+
+/**
+ * Record one member paying another back
+ */
+export async function createGroupSettlement(settlement: GroupSettlementInsert) {
+  const denied = await requireGroupPermission(
+    settlement.group_id,
+    "recordSettlement"
+  );
+  if (denied) return { data: null, error: denied };
+
+  return supabase
+    .from("group_settlements")
+    .insert(settlement)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a recorded reimbursement
+ */
+export async function deleteGroupSettlement(id: string) {
+  const { data: settlement } = await supabase
+    .from("group_settlements")
+    .select("group_id, created_by")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (settlement) {
+    const denied = await requireGroupPermission(
+      settlement.group_id,
+      (access) =>
+        hasGroupPermission(access, "deleteAnySettlement") ||
+        (settlement.created_by === access.userId &&
+          hasGroupPermission(access, "deleteOwnSettlement"))
+    );
+    if (denied) return { data: null, error: denied };
+  }
+
+  return supabase.from("group_settlements").delete().eq("id", id);
+}
+
+/**
+ * Work out every member's running balance from the split expenses and the
+ * reimbursements recorded so far. Cancelled transactions and expenses that
+ * aren't approved don't count.
+ */
+export function calculateGroupBalances(
+  memberIds: string[],
+  transactions: Pick<
+    GroupTransaction,
+    "id" | "amount" | "type" | "status" | "paid_by" | "created_by"
+  >[],
+  splits: Pick<
+    GroupTransactionSplit,
+    "transaction_id" | "user_id" | "amount"
+  >[],
+  settlements: Pick<GroupSettlement, "from_user_id" | "to_user_id" | "amount">[]
+): GroupMemberBalance[] {
+  const balances = new Map<string, GroupMemberBalance>();
+  const balanceFor = (userId: string) => {
+    let balance = balances.get(userId);
+    if (!balance) {
+      balance = {
+        userId,
+        paid: 0,
+        owed: 0,
+        settledOut: 0,
+        settledIn: 0,
+        balance: 0,
+      };
+      balances.set(userId, balance);
+    }
+    return balance;
+  };
+
+  memberIds.forEach(balanceFor);
+
+  const splitsByTransaction = new Map<string, typeof splits>();
+  splits.forEach((split) => {
+    const list = splitsByTransaction.get(split.transaction_id) || [];
+    list.push(split);
+    splitsByTransaction.set(split.transaction_id, list);
+  });
+
+  transactions.forEach((transaction) => {
+    const transactionSplits = splitsByTransaction.get(transaction.id);
+    if (
+      !transactionSplits ||
+      transaction.type !== "expense" ||
+      transaction.status === "cancelled" ||
+      !isGroupTransactionApproved(transaction)
+    ) {
+      return;
+    }
+
+    balanceFor(transaction.paid_by || transaction.created_by).paid +=
+      transaction.amount;
+    transactionSplits.forEach((split) => {
+      balanceFor(split.user_id).owed += split.amount;
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    balanceFor(settlement.from_user_id).settledOut += settlement.amount;
+    balanceFor(settlement.to_user_id).settledIn += settlement.amount;
+  });
+
+  return [...balances.values()].map((balance) => ({
+    ...balance,
+    balance:
+      toCents(
+        balance.paid - balance.owed + balance.settledOut - balance.settledIn
+      ) / 100,
+  }));
+}
+
+/**
+ * Suggest payments that zero out every balance. The member who owes the most
+ * repeatedly pays the member who is owed the most, which settles the group in
+ * at most one payment fewer than there are members with a balance.
+ */
+export function suggestSettlements(
+  balances: Pick<GroupMemberBalance, "userId" | "balance">[]
+): SettlementSuggestion[] {
+  const creditors = balances
+    .filter((balance) => toCents(balance.balance) > 0)
+    .map((balance) => ({
+      userId: balance.userId,
+      cents: toCents(balance.balance),
+    }));
+  const debtors = balances
+    .filter((balance) => toCents(balance.balance) < 0)
+    .map((balance) => ({
+      userId: balance.userId,
+      cents: -toCents(balance.balance),
+    }));
+
+  const suggestions: SettlementSuggestion[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.cents - a.cents);
+    debtors.sort((a, b) => b.cents - a.cents);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    suggestions.push({
+      fromUserId: debtor.userId,
+      toUserId: creditor.userId,
+      amount: cents / 100,
+    });
+
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return suggestions;
+}
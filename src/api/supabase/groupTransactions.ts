@@ -1,5 +1,15 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
+import { checkGroupBudgetAlerts } from "./budgetAlerts";
+import { logGroupActivity } from "./groupActivity";
+import {
+  canChangeGroupItem,
+  canReviewGroupTransaction,
+  isGroupTransactionApproved,
+  needsGroupApproval,
+  requireGroupAccess,
+  requireGroupPermission,
+} from "./groupPermissions";
 
 // Define the creator type
 type Creator = {
@@ -22,6 +32,15 @@ export type GroupTransactionInsert =
 export type GroupTransactionUpdate =
   Database["public"]["Tables"]["group_transactions"]["Update"];
 
+// Values the activity feed shows for a transaction
+const transactionSummary = (
+  transaction: Pick<GroupTransaction, "description" | "amount" | "type">
+) => ({
+  description: transaction.description,
+  amount: transaction.amount,
+  type: transaction.type,
+});
+
 /**
  * Get all transactions for a group
  */
@@ -153,7 +172,8 @@ export async function getGroupTransaction(id: string) {
 }
 
 /**
- * Create a new group transaction
+ * Create a new group transaction. Expenses that need approval are added as
+ * pending, whatever status they were given.
  */
 export async function createGroupTransaction(
   transaction: GroupTransactionInsert
@@ -161,9 +181,19 @@ export async function createGroupTransaction(
   try {
     console.log("Creating group transaction:", transaction);
 
+    const { data: access, error: denied } = await requireGroupAccess(
+      transaction.group_id,
+      "createTransaction"
+    );
+    if (denied || !access) return { data: null, error: denied };
+
     const { data, error } = await supabase
       .from("group_transactions")
-      .insert(transaction)
+      .insert(
+        needsGroupApproval(access, transaction)
+          ? { ...transaction, status: "pending" }
+          : transaction
+      )
       .select()
       .single();
 
@@ -173,6 +203,15 @@ export async function createGroupTransaction(
     }
 
     console.log("Group transaction created successfully:", data);
+    await logGroupActivity({
+      groupId: data.group_id,
+      action: "created",
+      entityType: "transaction",
+      entityId: data.id,
+      after: data,
+      summary: transactionSummary(data),
+    });
+    await checkGroupBudgetAlerts(data.group_id, [data]);
     return { data, error: null };
   } catch (err) {
     console.error("Unexpected error in createGroupTransaction:", err);
@@ -181,7 +220,9 @@ export async function createGroupTransaction(
 }
 
 /**
- * Update a group transaction
+ * Update a group transaction. Only a review takes a transaction out of
+ * pending; editing a rejected expense, or one that now needs approval, submits
+ * it for approval again.
  */
 export async function updateGroupTransaction(
   id: string,
@@ -190,9 +231,49 @@ export async function updateGroupTransaction(
   try {
     console.log(`Updating group transaction ${id}:`, updates);
 
+    // Budgets of the old category and date are re-checked as well
+    const { data: previous, error: previousError } = await supabase
+      .from("group_transactions")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (previousError) {
+      console.error("Error fetching group transaction:", previousError);
+      return { data: null, error: previousError };
+    }
+    // Without the transaction there is no group to check permissions in
+    if (!previous) {
+      return { data: null, error: new Error("Transaction not found") };
+    }
+
+    const { data: access, error: denied } = await requireGroupAccess(
+      previous.group_id,
+      (access) =>
+        canChangeGroupItem(
+          access,
+          "edit",
+          "Transaction",
+          previous.created_by === access.userId
+        )
+    );
+    if (denied || !access) return { data: null, error: denied };
+
+    const changes =
+      !isGroupTransactionApproved(previous) ||
+      needsGroupApproval(access, { ...previous, ...updates })
+        ? {
+            ...updates,
+            status: "pending" as const,
+            reviewed_by: null,
+            reviewed_at: null,
+            review_comment: null,
+          }
+        : updates;
+
     const { data, error } = await supabase
       .from("group_transactions")
-      .update(updates)
+      .update(changes)
       .eq("id", id)
       .select()
       .single();
@@ -203,6 +284,16 @@ export async function updateGroupTransaction(
     }
 
     console.log("Group transaction updated successfully:", data);
+    await logGroupActivity({
+      groupId: data.group_id,
+      action: "updated",
+      entityType: "transaction",
+      entityId: data.id,
+      before: previous,
+      after: data,
+      summary: transactionSummary(data),
+    });
+    await checkGroupBudgetAlerts(data.group_id, [previous, data]);
     return { data, error: null };
   } catch (err) {
     console.error("Unexpected error in updateGroupTransaction:", err);
@@ -210,6 +301,98 @@ export async function updateGroupTransaction(
   }
 }
 
+/**
+ * Approve or reject an expense that is waiting for approval, with an optional
+ * comment for whoever added it. Approved expenses start counting towards the
+ * group's totals, budgets and balances.
+ */
+export async function reviewGroupTransaction(
+  id: string,
+  decision: "approved" | "rejected",
+  comment?: string | null
+) {
+  try {
+    console.log(`Reviewing group transaction ${id}:`, decision);
+
+    const { data: previous, error: previousError } = await supabase
+      .from("group_transactions")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (previousError) {
+      console.error("Error fetching transaction to review:", previousError);
+      return { data: null, error: previousError };
+    }
+    if (previous.status !== "pending") {
+      return {
+        data: null,
+        error: new Error("This transaction isn't waiting for approval"),
+      };
+    }
+
+    // Who may review depends on the role of whoever added the expense
+    const { data: submitter } = await supabase
+      .from("group_members")
+      .select("role, family_role")
+      .eq("group_id", previous.group_id)
+      .eq("user_id", previous.created_by)
+      .maybeSingle();
+
+    const { data: access, error: denied } = await requireGroupAccess(
+      previous.group_id,
+      (access) =>
+        canReviewGroupTransaction(
+          access,
+          {
+            role: submitter?.role || null,
+            familyRole: submitter?.family_role || null,
+          },
+          previous.created_by === access.userId
+        )
+    );
+    if (denied || !access) return { data: null, error: denied };
+
+    const { data, error } = await supabase
+      .from("group_transactions")
+      .update({
+        status: decision === "approved" ? "completed" : "rejected",
+        reviewed_by: access.userId,
+        reviewed_at: new Date().toISOString(),
+        review_comment: comment?.trim() || null,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error reviewing group transaction:", error);
+      return { data: null, error };
+    }
+
+    console.log("Group transaction reviewed successfully:", data);
+    await logGroupActivity({
+      groupId: data.group_id,
+      action: decision,
+      entityType: "transaction",
+      entityId: data.id,
+      before: previous,
+      after: data,
+      summary: {
+        ...transactionSummary(data),
+        comment: data.review_comment,
+      },
+    });
+    if (decision === "approved") {
+      await checkGroupBudgetAlerts(data.group_id, [data]);
+    }
+    return { data, error: null };
+  } catch (err) {
+    console.error("Unexpected error in reviewGroupTransaction:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
 /**
  * Delete a group transaction
  */
@@ -217,6 +400,24 @@ export async function deleteGroupTransaction(id: string) {
   try {
     console.log(`Deleting group transaction ${id}`);
 
+    const { data: previous } = await supabase
+      .from("group_transactions")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (previous) {
+      const denied = await requireGroupPermission(previous.group_id, (access) =>
+        canChangeGroupItem(
+          access,
+          "delete",
+          "Transaction",
+          previous.created_by === access.userId
+        )
+      );
+      if (denied) return { data: null, error: denied };
+    }
+
     const { data, error } = await supabase
       .from("group_transactions")
       .delete()
@@ -228,6 +429,17 @@ export async function deleteGroupTransaction(id: string) {
     }
 
     console.log("Group transaction deleted successfully");
+    if (previous) {
+      await logGroupActivity({
+        groupId: previous.group_id,
+        action: "deleted",
+        entityType: "transaction",
+        entityId: previous.id,
+        before: previous,
+        summary: transactionSummary(previous),
+      });
+      await checkGroupBudgetAlerts(previous.group_id, [previous]);
+    }
     return { data, error: null };
   } catch (err) {
     console.error("Unexpected error in deleteGroupTransaction:", err);
@@ -516,13 +728,40 @@ export async function getGroupTransactionsByCreator(
   }
 }
 
+/**
+ * Add up income and expenses of a set of group transactions. Expenses that
+ * aren't approved are left out.
+ */
+export function summarizeGroupTransactions(
+  transactions: Array<
+    Pick<GroupTransaction, "amount" | "type"> & { status: string | null }
+  >
+) {
+  const summary = {
+    totalIncome: 0,
+    totalExpenses: 0,
+    balance: 0,
+  };
+
+  transactions.filter(isGroupTransactionApproved).forEach((transaction) => {
+    if (transaction.type === "income") {
+      summary.totalIncome += transaction.amount;
+    } else {
+      summary.totalExpenses += transaction.amount;
+    }
+  });
+
+  summary.balance = summary.totalIncome - summary.totalExpenses;
+  return summary;
+}
+
 export async function getGroupTransactionsSummary(groupId: string) {
   try {
     console.log(`Calculating summary for group ID: ${groupId}`);
 
     const { data: transactions, error } = await supabase
       .from("group_transactions")
-      .select("amount, type")
+      .select("amount, type, status")
       .eq("group_id", groupId);
 
     if (error) {
@@ -530,21 +769,7 @@ export async function getGroupTransactionsSummary(groupId: string) {
       return { data: null, error };
     }
 
-    const summary = {
-      totalIncome: 0,
-      totalExpenses: 0,
-      balance: 0,
-    };
-
-    transactions.forEach((transaction) => {
-      if (transaction.type === "income") {
-        summary.totalIncome += transaction.amount;
-      } else {
-        summary.totalExpenses += transaction.amount;
-      }
-    });
-
-    summary.balance = summary.totalIncome - summary.totalExpenses;
+    const summary = summarizeGroupTransactions(transactions);
 
     console.log("Calculated summary:", summary);
     return { data: summary, error: null };
@@ -0,0 +1,285 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { getCurrencyConverter } from "./exchangeRates";
+
+export type NetWorthItem =
+  Database["public"]["Tables"]["net_worth_items"]["Row"];
+export type NetWorthItemInsert =
+  Database["public"]["Tables"]["net_worth_items"]["Insert"];
+export type NetWorthItemUpdate =
+  Database["public"]["Tables"]["net_worth_items"]["Update"];
+export type NetWorthSnapshot =
+  Database["public"]["Tables"]["net_worth_snapshots"]["Row"];
+export type NetWorthSnapshotInsert =
+  Database["public"]["Tables"]["net_worth_snapshots"]["Insert"];
+
+// Bank account types plus manually tracked assets and liabilities
+export type NetWorthAccountType = NetWorthSnapshot["account_type"];
+
+// Net worth at the end of a month, in the base currency
+export interface NetWorthMonth {
+  // First day of the month
+  month: string;
+  netWorth: number;
+  assets: number;
+  // What is owed, as a positive amount
+  liabilities: number;
+  // Signed contribution of each account type
+  byType: Partial<Record<NetWorthAccountType, number>>;
+  // Change since the month before; null when that month has no snapshot
+  change: number | null;
+  changeByType: Partial<Record<NetWorthAccountType, number>>;
+}
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Get the first day of the month a date falls in
+ */
+function getMonthStart(date: Date): string {
+  return toDateString(
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+  );
+}
+
+/**
+ * Get the last day of the month starting at a date
+ */
+function getMonthEnd(month: string): string {
+  const start = new Date(month);
+  return toDateString(
+    new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0))
+  );
+}
+
+/**
+ * Get how much a balance adds to net worth. Credit accounts and liabilities
+ * are what is owed, so they always count against it.
+ */
+export function getNetWorthContribution(
+  accountType: NetWorthAccountType,
+  balance: number
+): number {
+  return accountType === "credit" || accountType === "liability"
+    ? -Math.abs(balance)
+    : balance;
+}
+
+/**
+ * Get all manually tracked assets and liabilities
+ */
+export async function getNetWorthItems() {
+  return supabase
+    .from("net_worth_items")
+    .select("*")
+    .order("item_type")
+    .order("name");
+}
+
+/**
+ * Create a manually tracked asset or liability
+ */
+export async function createNetWorthItem(item: NetWorthItemInsert) {
+  return supabase.from("net_worth_items").insert(item).select().single();
+}
+
+/**
+ * Update a manually tracked asset or liability
+ */
+export async function updateNetWorthItem(
+  id: string,
+  updates: NetWorthItemUpdate
+) {
+  return supabase
+    .from("net_worth_items")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a manually tracked asset or liability. Its past snapshots are kept.
+ */
+export async function deleteNetWorthItem(id: string) {
+  return supabase.from("net_worth_items").delete().eq("id", id);
+}
+
+/**
+ * Record this month's snapshot of every bank account and net worth item from
+ * their current balances. Taking it again during the month replaces it, and
+ * drops anything deleted since.
+ */
+export async function recordNetWorthSnapshot(): Promise<{
+  data: NetWorthSnapshot[] | null;
+  error: Error | null;
+}> {
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) {
+      return { data: null, error: new Error("User not authenticated") };
+    }
+    const userId = userData.user.id;
+
+    const [accountsResult, itemsResult] = await Promise.all([
+      supabase
+        .from("bank_accounts")
+        .select("id, name, account_type, current_balance, currency"),
+      getNetWorthItems(),
+    ]);
+
+    if (accountsResult.error) {
+      return { data: null, error: accountsResult.error };
+    }
+    if (itemsResult.error) return { data: null, error: itemsResult.error };
+
+    const month = getMonthStart(new Date());
+    const rows: NetWorthSnapshotInsert[] = [
+      ...accountsResult.data.map((account) => ({
+        user_id: userId,
+        snapshot_month: month,
+        source_id: account.id,
+        name: account.name,
+        account_type: account.account_type,
+        balance: account.current_balance,
+        currency: account.currency,
+      })),
+      ...itemsResult.data.map((item) => ({
+        user_id: userId,
+        snapshot_month: month,
+        source_id: item.id,
+        name: item.name,
+        account_type: item.item_type,
+        balance: item.value,
+        currency: item.currency,
+      })),
+    ];
+
+    // Rows for accounts and items that no longer exist
+    let staleQuery = supabase
+      .from("net_worth_snapshots")
+      .delete()
+      .eq("user_id", userId)
+      .eq("snapshot_month", month);
+    if (rows.length > 0) {
+      staleQuery = staleQuery.not(
+        "source_id",
+        "in",
+        `(${rows.map((row) => row.source_id).join(",")})`
+      );
+    }
+
+    const { error: staleError } = await staleQuery;
+    if (staleError) return { data: null, error: staleError };
+
+    if (rows.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from("net_worth_snapshots")
+      .upsert(
+        rows.map((row) => ({ ...row, recorded_at: new Date().toISOString() })),
+        { onConflict: "user_id,snapshot_month,source_id" }
+      )
+      .select();
+
+    return { data, error };
+  } catch (err) {
+    console.error("Unexpected error in recordNetWorthSnapshot:", err);
+    return { data: null, error: err as Error };
+  }
+}
+
+/**
+ * Get net worth month by month over the last months, with the change from
+ * the month before broken down by account type. Balances are converted at the
+ * rates of each month's end, or today's for the current month.
+ */
+export async function getNetWorthHistory(
+  months = 12
+): Promise<{ data: NetWorthMonth[] | null; error: Error | null }> {
+  try {
+    const now = new Date();
+    const today = toDateString(now);
+    const startMonth = getMonthStart(
+      new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1))
+    );
+
+    const { data: snapshots, error } = await supabase
+      .from("net_worth_snapshots")
+      .select("*")
+      .gte("snapshot_month", startMonth)
+      .order("snapshot_month", { ascending: true });
+
+    if (error) return { data: null, error };
+
+    const converter = await getCurrencyConverter();
+    const monthMap = new Map<string, NetWorthMonth>();
+
+    snapshots.forEach((snapshot) => {
+      let entry = monthMap.get(snapshot.snapshot_month);
+      if (!entry) {
+        entry = {
+          month: snapshot.snapshot_month,
+          netWorth: 0,
+          assets: 0,
+          liabilities: 0,
+          byType: {},
+          change: null,
+          changeByType: {},
+        };
+        monthMap.set(snapshot.snapshot_month, entry);
+      }
+
+      const monthEnd = getMonthEnd(snapshot.snapshot_month);
+      const amount = getNetWorthContribution(
+        snapshot.account_type,
+        converter.convert(
+          snapshot.balance,
+          snapshot.currency,
+          monthEnd < today ? monthEnd : today
+        )
+      );
+
+      entry.netWorth += amount;
+      if (amount >= 0) {
+        entry.assets += amount;
+      } else {
+        entry.liabilities -= amount;
+      }
+      entry.byType[snapshot.account_type] =
+        (entry.byType[snapshot.account_type] || 0) + amount;
+    });
+
+    const history = Array.from(monthMap.values());
+    history.forEach((entry, index) => {
+      entry.netWorth = roundCents(entry.netWorth);
+      entry.assets = roundCents(entry.assets);
+      entry.liabilities = roundCents(entry.liabilities);
+
+      const previous = history[index - 1];
+      const start = new Date(entry.month);
+      const previousMonth = getMonthStart(
+        new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - 1))
+      );
+      if (!previous || previous.month !== previousMonth) return;
+
+      entry.change = roundCents(entry.netWorth - previous.netWorth);
+      const types = new Set([
+        ...Object.keys(entry.byType),
+        ...Object.keys(previous.byType),
+      ]) as Set<NetWorthAccountType>;
+      types.forEach((type) => {
+        entry.changeByType[type] = roundCents(
+          (entry.byType[type] || 0) - (previous.byType[type] || 0)
+        );
+      });
+    });
+
+    return { data: history, error: null };
+  } catch (err) {
+    console.error("Unexpected error in getNetWorthHistory:", err);
+    return { data: null, error: err as Error };
+  }
+}
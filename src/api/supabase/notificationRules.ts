@@ -0,0 +1,276 @@
+import { supabase } from "./client";
+import { addDays, format, parseISO } from "date-fns";
+import { getCurrentBudgets } from "./budgets";
+import { getBills } from "./bills";
+import { getGoals } from "./goals";
+import { getInvitationsByEmail } from "./budgetGroups";
+import { calculateGroupBudgetProgress } from "./groupBudgets";
+import {
+  Notification,
+  NotificationInsert,
+  NotificationPreferenceType,
+  NotificationPreferences,
+  buildBudgetAlert,
+  createNotifications,
+} from "./notifications";
+import { translate } from "../../i18n";
+import { formatCurrency, formatDate } from "../../utils/formatters";
+
+// Goal progress percentages worth celebrating
+const GOAL_MILESTONES = [25, 50, 75, 100];
+
+// Everything a rule needs to know about who it is generating for
+interface NotificationRuleContext {
+  userId: string;
+  email: string | null;
+  today: Date;
+}
+
+type NotificationRule = (
+  context: NotificationRuleContext
+) => Promise<NotificationInsert[]>;
+
+/**
+ * Bills due within their reminder window, once per due date
+ */
+const billDueRule: NotificationRule = async ({ userId, today }) => {
+  const { data: bills, error } = await getBills();
+  if (error) throw error;
+
+  const todayString = format(today, "yyyy-MM-dd");
+
+  return (bills || [])
+    .filter((bill) => {
+      if (bill.status !== "active" || !bill.next_due_date) return false;
+      const lastReminderDay = format(
+        addDays(today, bill.reminder_days),
+        "yyyy-MM-dd"
+      );
+      return (
+        bill.next_due_date >= todayString &&
+        bill.next_due_date <= lastReminderDay
+      );
+    })
+    .map((bill) => ({
+      user_id: userId,
+      type: "bill_due" as const,
+      severity: "warning" as const,
+      title: translate("notifications.billDue.title"),
+      message: translate("notifications.billDue.message", {
+        name: bill.name,
+        amount: formatCurrency(bill.amount),
+        date: formatDate(parseISO(bill.next_due_date as string)),
+      }),
+      link: `/bills/${bill.id}`,
+      dedupe_key: `bill_due:${bill.id}:${bill.next_due_date}`,
+    }));
+};
+
+/**
+ * Personal and group budgets that reached one of their alert thresholds this
+ * period. Catches anything the checks on transaction changes missed.
+ */
+const budgetAlertRule: NotificationRule = async ({ userId, today }) => {
+  const { data: budgets, error } = await getCurrentBudgets();
+  if (error) throw error;
+
+  const notifications: NotificationInsert[] = [];
+
+  (budgets || []).forEach((budget) => {
+    const period = budget.history[budget.history.length - 1];
+    if (!period) return;
+
+    const alert = buildBudgetAlert(userId, {
+      id: budget.id,
+      name: budget.name,
+      categoryName: budget.category_name || null,
+      spent: budget.spent,
+      available: budget.available,
+      periodStart: period.start,
+      thresholds: budget.alert_thresholds,
+    });
+    if (alert) notifications.push(alert);
+  });
+
+  return [...notifications, ...(await getGroupBudgetAlerts(userId, today))];
+};
+
+/**
+ * Alerts for the active budgets of every group the user belongs to
+ */
+async function getGroupBudgetAlerts(
+  userId: string,
+  today: Date
+): Promise<NotificationInsert[]> {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from("group_members")
+    .select("group_id")
+    .eq("user_id", userId);
+  if (membershipsError) throw membershipsError;
+
+  const groupIds = (memberships || []).map((member) => member.group_id);
+  if (groupIds.length === 0) return [];
+
+  const todayString = format(today, "yyyy-MM-dd");
+  const { data: budgets, error } = await supabase
+    .from("group_budgets")
+    .select("id, group_id, name, categories(name)")
+    .in("group_id", groupIds)
+    .lte("start_date", todayString)
+    .or(`end_date.is.null,end_date.gte.${todayString}`);
+  if (error) throw error;
+
+  const notifications: NotificationInsert[] = [];
+
+  for (const budget of budgets || []) {
+    const { data: progress, error: progressError } =
+      await calculateGroupBudgetProgress(budget.id);
+    if (progressError || !progress || progress.alertThreshold === null) {
+      continue;
+    }
+
+    const alert = buildBudgetAlert(userId, {
+      id: budget.id,
+      name: budget.name,
+      categoryName: budget.categories?.name || null,
+      groupId: budget.group_id,
+      spent: progress.spentAmount,
+      available: progress.budgetAmount,
+      periodStart: progress.periodStart,
+      thresholds: [progress.alertThreshold],
+    });
+    if (alert) notifications.push(alert);
+  }
+
+  return notifications;
+}
+
+/**
+ * Goals that passed a progress milestone, once per milestone. Only the highest
+ * milestone reached is reported.
+ */
+const goalProgressRule: NotificationRule = async ({ userId }) => {
+  const { data: goals, error } = await getGoals();
+  if (error) throw error;
+
+  const notifications: NotificationInsert[] = [];
+
+  (goals || []).forEach((goal) => {
+    if (goal.status === "cancelled" || goal.target_amount <= 0) return;
+
+    const percent = ((goal.current_amount || 0) / goal.target_amount) * 100;
+    const milestone = [...GOAL_MILESTONES]
+      .reverse()
+      .find((value) => percent >= value);
+    if (milestone === undefined) return;
+
+    const achieved = milestone >= 100;
+    notifications.push({
+      user_id: userId,
+      type: "goal_progress",
+      severity: achieved ? "success" : "info",
+      title: achieved
+        ? translate("notifications.goalProgress.achievedTitle")
+        : translate("notifications.goalProgress.title"),
+      message: achieved
+        ? translate("notifications.goalProgress.achievedMessage", {
+            name: goal.name,
+            amount: formatCurrency(goal.target_amount),
+          })
+        : translate("notifications.goalProgress.message", {
+            name: goal.name,
+            percent: milestone,
+          }),
+      link: `/goals/${goal.id}`,
+      dedupe_key: `goal_progress:${goal.id}:${milestone}`,
+    });
+  });
+
+  return notifications;
+};
+
+/**
+ * Pending invitations to join a budget group, once per invitation
+ */
+const groupInvitationRule: NotificationRule = async ({
+  userId,
+  email,
+  today,
+}) => {
+  if (!email) return [];
+
+  const { data: invitations, error } = await getInvitationsByEmail(email);
+  if (error) throw error;
+
+  return (invitations || [])
+    .filter((invitation) => new Date(invitation.expires_at) > today)
+    .map((invitation) => {
+      const group = invitation.group as { name?: string } | null;
+
+      return {
+        user_id: userId,
+        type: "group_invitation" as const,
+        severity: "info" as const,
+        title: translate("notifications.groupInvitation.title"),
+        message: translate("notifications.groupInvitation.message", {
+          group: group?.name || translate("groups.invitation.defaultGroupName"),
+          role: translate(`groups.roles.${invitation.role}`),
+        }),
+        link: `/invitations/${invitation.token}`,
+        dedupe_key: `group_invitation:${invitation.id}`,
+      };
+    });
+};
+
+const NOTIFICATION_RULES: Partial<
+  Record<NotificationPreferenceType, NotificationRule>
+> = {
+  bill_due: billDueRule,
+  budget_alert: budgetAlertRule,
+  goal_progress: goalProgressRule,
+  group_invitation: groupInvitationRule,
+};
+
+/**
+ * Run the notification rules the user has switched on and store any new
+ * alerts. Returns only the notifications that did not exist yet.
+ */
+export async function generateNotifications(
+  userId: string,
+  email: string | null,
+  preferences: NotificationPreferences
+): Promise<{ data: Notification[]; error: Error | null }> {
+  try {
+    const context: NotificationRuleContext = {
+      userId,
+      email,
+      today: new Date(),
+    };
+
+    const rules = (
+      Object.keys(NOTIFICATION_RULES) as NotificationPreferenceType[]
+    ).filter((type) => preferences[type]);
+
+    // A failing rule shouldn't keep the others from running
+    const results = await Promise.all(
+      rules.map(async (type) => {
+        try {
+          return await (NOTIFICATION_RULES[type] as NotificationRule)(context);
+        } catch (err) {
+          console.error(`Error running ${type} notification rule:`, err);
+          return [];
+        }
+      })
+    );
+
+    const { data, error } = await createNotifications(results.flat());
+    if (error) {
+      return { data: [], error };
+    }
+
+    return { data: data || [], error: null };
+  } catch (err) {
+    console.error("Unexpected error in generateNotifications:", err);
+    return { data: [], error: err as Error };
+  }
+}
@@ -0,0 +1,197 @@
+import { supabase } from "./client";
+import type { Database, Json } from "../../lib/database.types";
+import { translate } from "../../i18n";
+import { formatCurrency } from "../../utils/formatters";
+
+export type Notification = Database["public"]["Tables"]["notifications"]["Row"];
+export type NotificationInsert =
+  Database["public"]["Tables"]["notifications"]["Insert"];
+
+// Kinds of notification a user can switch on or off in their settings
+export type NotificationPreferenceType =
+  | "bill_due"
+  | "budget_alert"
+  | "goal_progress"
+  | "group_invitation"
+  | "transaction_alert"
+  | "weekly_summary";
+
+export type NotificationPreferences = Record<
+  NotificationPreferenceType,
+  boolean
+>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  bill_due: true,
+  budget_alert: true,
+  goal_progress: true,
+  group_invitation: true,
+  transaction_alert: false,
+  weekly_summary: true,
+};
+
+// A budget's standing in its current period, personal or group
+export interface BudgetAlertStatus {
+  id: string;
+  name: string;
+  categoryName: string | null;
+  // Set for group budgets
+  groupId?: string;
+  spent: number;
+  // What can be spent this period, including anything carried over
+  available: number;
+  periodStart: string;
+  thresholds: number[];
+}
+
+/**
+ * Read notification preferences stored in user settings, filling in defaults
+ * for anything missing or malformed
+ */
+export function parseNotificationPreferences(
+  value: Json | null | undefined
+): NotificationPreferences {
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    (Object.keys(preferences) as NotificationPreferenceType[]).forEach(
+      (type) => {
+        const enabled = value[type];
+        if (typeof enabled === "boolean") {
+          preferences[type] = enabled;
+        }
+      }
+    );
+  }
+
+  return preferences;
+}
+
+/**
+ * Get the most recent notifications that haven't been dismissed, newest first
+ */
+export async function getNotifications(limit = 50) {
+  return supabase
+    .from("notifications")
+    .select("*")
+    .eq("dismissed", false)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+}
+
+/**
+ * Create notifications. Notifications whose dedupe key was already used are
+ * skipped, dismissed ones included, so only the newly created ones are
+ * returned.
+ */
+export async function createNotifications(notifications: NotificationInsert[]) {
+  if (notifications.length === 0) return { data: [], error: null };
+
+  return supabase
+    .from("notifications")
+    .upsert(notifications, {
+      onConflict: "user_id,dedupe_key",
+      ignoreDuplicates: true,
+    })
+    .select();
+}
+
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationRead(id: string) {
+  return supabase.from("notifications").update({ read: true }).eq("id", id);
+}
+
+/**
+ * Mark all of a user's notifications as read
+ */
+export async function markAllNotificationsRead(userId: string) {
+  return supabase
+    .from("notifications")
+    .update({ read: true })
+    .eq("user_id", userId)
+    .eq("read", false);
+}
+
+/**
+ * Dismiss a notification. It is kept, hidden, so the alert it raised isn't
+ * created again.
+ */
+export async function dismissNotification(id: string) {
+  return supabase
+    .from("notifications")
+    .update({ dismissed: true })
+    .eq("id", id);
+}
+
+/**
+ * Dismiss all of a user's notifications
+ */
+export async function dismissAllNotifications(userId: string) {
+  return supabase
+    .from("notifications")
+    .update({ dismissed: true })
+    .eq("user_id", userId)
+    .eq("dismissed", false);
+}
+
+/**
+ * Get the highest alert threshold, as a percentage of the available amount,
+ * that spending has reached. Nothing counts as reached before any spending.
+ */
+export function getCrossedThreshold(
+  thresholds: number[],
+  spent: number,
+  available: number
+): number | null {
+  if (spent <= 0) return null;
+
+  const percent = available > 0 ? (spent / available) * 100 : Infinity;
+  const crossed = thresholds.filter((threshold) => percent >= threshold);
+
+  return crossed.length > 0 ? Math.max(...crossed) : null;
+}
+
+/**
+ * Build the alert for the highest threshold a budget has crossed this period,
+ * or null when none has been crossed. The dedupe key makes each threshold
+ * fire once per period.
+ */
+export function buildBudgetAlert(
+  userId: string,
+  status: BudgetAlertStatus
+): NotificationInsert | null {
+  const threshold = getCrossedThreshold(
+    status.thresholds,
+    status.spent,
+    status.available
+  );
+  if (threshold === null) return null;
+
+  const exceeded = threshold >= 100;
+  const keyPrefix = status.groupId ? "group_budget_alert" : "budget_alert";
+
+  return {
+    user_id: userId,
+    type: "budget_alert",
+    severity: exceeded ? "error" : "warning",
+    title: exceeded
+      ? translate("notifications.budgetAlert.exceededTitle", {
+          name: status.name,
+        })
+      : translate("notifications.budgetAlert.title", {
+          name: status.name,
+          percent: threshold,
+        }),
+    message: translate("notifications.budgetAlert.message", {
+      spent: formatCurrency(status.spent),
+      available: formatCurrency(status.available),
+      category: status.categoryName || status.name,
+    }),
+    link: status.groupId
+      ? `/groups/${status.groupId}`
+      : `/budgets/${status.id}`,
+    dedupe_key: `${keyPrefix}:${status.id}:${status.periodStart}:${threshold}`,
+  };
+}
@@ -0,0 +1,261 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { getBankAccountLedger, BankAccount, LedgerEntry } from "./bankAccounts";
+
+export type AccountReconciliation =
+  Database["public"]["Tables"]["account_reconciliations"]["Row"];
+export type AccountReconciliationInsert =
+  Database["public"]["Tables"]["account_reconciliations"]["Insert"];
+export type AccountReconciliationUpdate =
+  Database["public"]["Tables"]["account_reconciliations"]["Update"];
+
+// What is left to work through when reconciling up to a statement date
+export interface ReconciliationWorksheet {
+  account: BankAccount;
+  // Unreconciled transactions up to the statement date, oldest first
+  entries: LedgerEntry[];
+  // Opening balance plus every transaction reconciled so far
+  reconciledBalance: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Get the reconciliation history of an account, latest statement first
+ */
+export async function getReconciliations(bankAccountId: string) {
+  return supabase
+    .from("account_reconciliations")
+    .select("*")
+    .eq("bank_account_id", bankAccountId)
+    .order("statement_date", { ascending: false });
+}
+
+/**
+ * Get the reconciliation in progress for an account, if there is one
+ */
+export async function getOpenReconciliation(bankAccountId: string) {
+  return supabase
+    .from("account_reconciliations")
+    .select("*")
+    .eq("bank_account_id", bankAccountId)
+    .eq("status", "in_progress")
+    .maybeSingle();
+}
+
+/**
+ * Start reconciling an account against a statement. The statement has to end
+ * after the last reconciled one.
+ */
+export async function startReconciliation(
+  reconciliation: AccountReconciliationInsert
+) {
+  const { data: latest, error: latestError } = await supabase
+    .from("account_reconciliations")
+    .select("statement_date")
+    .eq("bank_account_id", reconciliation.bank_account_id)
+    .eq("status", "completed")
+    .order("statement_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) return { data: null, error: latestError };
+
+  if (latest && reconciliation.statement_date <= latest.statement_date) {
+    return {
+      data: null,
+      error: new Error(
+        "The statement must end after the last reconciled statement"
+      ),
+    };
+  }
+
+  return supabase
+    .from("account_reconciliations")
+    .insert({ ...reconciliation, status: "in_progress" })
+    .select()
+    .single();
+}
+
+/**
+ * Update the statement details of a reconciliation in progress
+ */
+export async function updateReconciliation(
+  id: string,
+  updates: AccountReconciliationUpdate
+) {
+  return supabase
+    .from("account_reconciliations")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "in_progress")
+    .select()
+    .single();
+}
+
+/**
+ * Cancel a reconciliation in progress. Cleared marks are kept for next time.
+ */
+export async function cancelReconciliation(id: string) {
+  return supabase
+    .from("account_reconciliations")
+    .delete()
+    .eq("id", id)
+    .eq("status", "in_progress");
+}
+
+/**
+ * Get everything needed to reconcile an account up to a statement date
+ */
+export async function getReconciliationWorksheet(
+  bankAccountId: string,
+  statementDate: string
+): Promise<{
+  data: ReconciliationWorksheet | null;
+  error: PostgrestError | null;
+}> {
+  const { data: ledger, error } = await getBankAccountLedger(bankAccountId);
+  if (error || !ledger) return { data: null, error };
+
+  const reconciledChange = ledger.entries
+    .filter(({ transaction }) => transaction.status === "reconciled")
+    .reduce((sum, { change }) => sum + change, 0);
+
+  return {
+    data: {
+      account: ledger.account,
+      entries: ledger.entries.filter(
+        ({ transaction }) =>
+          transaction.date <= statementDate &&
+          transaction.status !== "reconciled" &&
+          transaction.status !== "cancelled"
+      ),
+      reconciledBalance: roundCents(
+        (ledger.account.opening_balance || 0) + reconciledChange
+      ),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Get the cleared balance of a worksheet: what has been reconciled before
+ * plus the transactions ticked off as cleared
+ */
+export function calculateClearedBalance(
+  worksheet: ReconciliationWorksheet,
+  clearedIds: Set<string>
+): number {
+  const clearedChange = worksheet.entries
+    .filter(({ transaction }) => clearedIds.has(transaction.id))
+    .reduce((sum, { change }) => sum + change, 0);
+
+  return roundCents(worksheet.reconciledBalance + clearedChange);
+}
+
+/**
+ * Mark a transaction as cleared against a statement, or take the mark off
+ */
+export async function setTransactionCleared(id: string, cleared: boolean) {
+  return supabase
+    .from("transactions")
+    .update({ status: cleared ? "cleared" : "completed" })
+    .eq("id", id)
+    .neq("status", "reconciled")
+    .select("id, status")
+    .single();
+}
+
+/**
+ * Finish a reconciliation once the cleared balance matches the statement.
+ * The cleared transactions up to the statement date become reconciled, which
+ * locks them.
+ */
+export async function completeReconciliation(
+  reconciliation: AccountReconciliation
+) {
+  try {
+    const { data: worksheet, error } = await getReconciliationWorksheet(
+      reconciliation.bank_account_id,
+      reconciliation.statement_date
+    );
+    if (error || !worksheet) return { data: null, error };
+
+    const clearedIds = worksheet.entries
+      .filter(({ transaction }) => transaction.status === "cleared")
+      .map(({ transaction }) => transaction.id);
+
+    const difference = roundCents(
+      reconciliation.statement_balance -
+        calculateClearedBalance(worksheet, new Set(clearedIds))
+    );
+    if (difference !== 0) {
+      return {
+        data: null,
+        error: new Error(
+          "The cleared balance doesn't match the statement balance yet"
+        ),
+      };
+    }
+
+    if (clearedIds.length > 0) {
+      const { error: lockError } = await supabase
+        .from("transactions")
+        .update({ status: "reconciled", reconciliation_id: reconciliation.id })
+        .in("id", clearedIds);
+      if (lockError) return { data: null, error: lockError };
+    }
+
+    return supabase
+      .from("account_reconciliations")
+      .update({
+        status: "completed",
+        cleared_count: clearedIds.length,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", reconciliation.id)
+      .select()
+      .single();
+  } catch (err) {
+    console.error("Unexpected error in completeReconciliation:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
+
+/**
+ * Undo the latest completed reconciliation of an account. Its transactions
+ * are unlocked and go back to cleared.
+ */
+export async function undoReconciliation(
+  reconciliation: AccountReconciliation
+) {
+  const { data: latest, error: latestError } = await supabase
+    .from("account_reconciliations")
+    .select("id")
+    .eq("bank_account_id", reconciliation.bank_account_id)
+    .eq("status", "completed")
+    .order("statement_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) return { error: latestError };
+
+  if (!latest || latest.id !== reconciliation.id) {
+    return {
+      error: new Error("Only the latest reconciliation can be undone"),
+    };
+  }
+
+  const { error: unlockError } = await supabase
+    .from("transactions")
+    .update({ status: "cleared", reconciliation_id: null })
+    .eq("reconciliation_id", reconciliation.id);
+  if (unlockError) return { error: unlockError };
+
+  return supabase
+    .from("account_reconciliations")
+    .delete()
+    .eq("id", reconciliation.id);
+}
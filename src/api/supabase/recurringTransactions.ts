@@ -0,0 +1,253 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { calculateNextDueDate } from "./bills";
+import { applyCategoryRules } from "./categoryRules";
+import { checkBudgetAlerts } from "./budgetAlerts";
+import { applyGoalFundingRules } from "./goalFunding";
+import type { TransactionInsert } from "./transactions";
+
+export type RecurringTransaction =
+  Database["public"]["Tables"]["recurring_transactions"]["Row"];
+export type RecurringTransactionInsert =
+  Database["public"]["Tables"]["recurring_transactions"]["Insert"];
+export type RecurringTransactionUpdate =
+  Database["public"]["Tables"]["recurring_transactions"]["Update"];
+
+// What a template looks like after generating everything that is due
+export interface RecurringSchedule {
+  instances: TransactionInsert[];
+  nextDate: string;
+  occurrencesCount: number;
+  isActive: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Get all recurring transactions, soonest first
+ */
+export async function getRecurringTransactions() {
+  return supabase
+    .from("recurring_transactions")
+    .select("*")
+    .order("next_date", { ascending: true });
+}
+
+/**
+ * Create a new recurring transaction
+ */
+export async function createRecurringTransaction(
+  template: RecurringTransactionInsert
+) {
+  return supabase
+    .from("recurring_transactions")
+    .insert(template)
+    .select()
+    .single();
+}
+
+/**
+ * Update an existing recurring transaction
+ */
+export async function updateRecurringTransaction(
+  id: string,
+  updates: RecurringTransactionUpdate
+) {
+  return supabase
+    .from("recurring_transactions")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+}
+
+/**
+ * Delete a recurring transaction. Transactions it already generated are kept.
+ */
+export async function deleteRecurringTransaction(id: string) {
+  return supabase.from("recurring_transactions").delete().eq("id", id);
+}
+
+/**
+ * Get the first occurrence of a template's cadence strictly after a date
+ */
+export function getNextOccurrence(
+  template: Pick<RecurringTransaction, "start_date" | "frequency">,
+  afterDate: string
+): string {
+  return calculateNextDueDate(
+    template.start_date,
+    template.frequency,
+    new Date(Date.parse(afterDate) + DAY_MS)
+  );
+}
+
+/**
+ * Check whether a template has no occurrence left at a date, given how many
+ * instances it has generated so far
+ */
+export function hasRecurringEnded(
+  template: Pick<
+    RecurringTransaction,
+    "end_type" | "end_date" | "max_occurrences"
+  >,
+  date: string,
+  occurrencesCount: number
+): boolean {
+  if (template.end_type === "on_date" && template.end_date) {
+    return date > template.end_date;
+  }
+  if (template.end_type === "after_occurrences" && template.max_occurrences) {
+    return occurrencesCount >= template.max_occurrences;
+  }
+  return false;
+}
+
+/**
+ * Check whether a recurring transfer lost one of its accounts, after which it
+ * can't be generated any more
+ */
+export function isRecurringTransferBroken(
+  template: Pick<
+    RecurringTransaction,
+    "type" | "bank_account_id" | "transfer_account_id"
+  >
+): boolean {
+  return (
+    template.type === "transfer" &&
+    (!template.bank_account_id || !template.transfer_account_id)
+  );
+}
+
+/**
+ * Work out which instances of a template are due up to and including a date,
+ * catching up on every period that was missed. Transfers whose account was
+ * deleted are deactivated instead.
+ */
+export function getDueRecurringInstances(
+  template: RecurringTransaction,
+  today: string
+): RecurringSchedule {
+  const instances: TransactionInsert[] = [];
+  let nextDate = template.next_date;
+  let occurrencesCount = template.occurrences_count;
+  let isActive = template.is_active && !isRecurringTransferBroken(template);
+
+  while (isActive && nextDate <= today) {
+    if (hasRecurringEnded(template, nextDate, occurrencesCount)) {
+      isActive = false;
+      break;
+    }
+
+    instances.push({
+      user_id: template.user_id,
+      amount: template.amount,
+      description: template.description,
+      date: nextDate,
+      type: template.type,
+      category_id: template.type === "transfer" ? null : template.category_id,
+      bank_account_id: template.bank_account_id,
+      transfer_account_id:
+        template.type === "transfer" ? template.transfer_account_id : null,
+      payment_method: template.payment_method,
+      notes: template.notes,
+      status: "completed",
+      recurring_transaction_id: template.id,
+    });
+
+    occurrencesCount++;
+    nextDate = getNextOccurrence(template, nextDate);
+  }
+
+  // Deactivate as soon as the last occurrence has been generated
+  if (isActive && hasRecurringEnded(template, nextDate, occurrencesCount)) {
+    isActive = false;
+  }
+
+  return { instances, nextDate, occurrencesCount, isActive };
+}
+
+/**
+ * Skip the next occurrence of a recurring transaction without generating it
+ */
+export async function skipNextRecurringTransaction(
+  template: RecurringTransaction
+) {
+  const nextDate = getNextOccurrence(template, template.next_date);
+
+  return updateRecurringTransaction(template.id, {
+    next_date: nextDate,
+    is_active: !hasRecurringEnded(
+      template,
+      nextDate,
+      template.occurrences_count
+    ),
+  });
+}
+
+/**
+ * Generate every due instance of the user's active recurring transactions into
+ * transactions, including periods missed since the app was last opened
+ */
+export async function processDueRecurringTransactions(
+  today = new Date().toISOString().split("T")[0]
+) {
+  try {
+    const { data: templates, error } = await supabase
+      .from("recurring_transactions")
+      .select("*")
+      .eq("is_active", true)
+      .lte("next_date", today);
+
+    if (error) return { data: null, error };
+
+    let created = 0;
+
+    for (const template of templates || []) {
+      const schedule = getDueRecurringInstances(template, today);
+
+      if (schedule.instances.length > 0) {
+        // Instances another tab already generated are skipped by the
+        // (recurring_transaction_id, date) unique constraint
+        const { data: inserted, error: insertError } = await supabase
+          .from("transactions")
+          .upsert(schedule.instances, {
+            onConflict: "recurring_transaction_id,date",
+            ignoreDuplicates: true,
+          })
+          .select();
+
+        if (insertError) return { data: { created }, error: insertError };
+
+        created += inserted?.length || 0;
+
+        if (inserted && inserted.length > 0) {
+          const { error: rulesError } = await applyCategoryRules(inserted);
+          if (rulesError) {
+            console.warn("Error applying category rules:", rulesError);
+          }
+
+          await checkBudgetAlerts(inserted);
+          await applyGoalFundingRules(inserted);
+        }
+      }
+
+      const { error: updateError } = await updateRecurringTransaction(
+        template.id,
+        {
+          next_date: schedule.nextDate,
+          occurrences_count: schedule.occurrencesCount,
+          is_active: schedule.isActive,
+        }
+      );
+
+      if (updateError) return { data: { created }, error: updateError };
+    }
+
+    return { data: { created }, error: null };
+  } catch (err) {
+    console.error("Unexpected error in processDueRecurringTransactions:", err);
+    return { data: null, error: err as PostgrestError };
+  }
+}
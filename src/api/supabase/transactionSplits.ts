@@ -0,0 +1,211 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+import { PostgrestError } from "@supabase/supabase-js";
+import { getCurrencyConverter, CurrencyConverter } from "./exchangeRates";
+import { checkBudgetAlerts } from "./budgetAlerts";
+
+export type TransactionSplit =
+  Database["public"]["Tables"]["transaction_splits"]["Row"];
+export type TransactionSplitInsert =
+  Database["public"]["Tables"]["transaction_splits"]["Insert"];
+
+// One line of a split as entered by the user
+export interface SplitLine {
+  category_id: string | null;
+  amount: number;
+  note?: string | null;
+}
+
+// Amounts are stored with two decimals; allow for float rounding
+const SPLIT_TOLERANCE = 0.005;
+
+/**
+ * Check whether split lines add up to the parent amount
+ */
+export function splitsMatchAmount(
+  splits: { amount: number }[],
+  total: number
+): boolean {
+  const sum = splits.reduce((acc, split) => acc + (split.amount || 0), 0);
+  return Math.abs(sum - total) < SPLIT_TOLERANCE;
+}
+
+/**
+ * Get the split lines of a transaction with category information
+ */
+export async function getSplitsForTransaction(transactionId: string) {
+  return supabase
+    .from("transaction_splits")
+    .select(
+      `
+      *,
+      categories (
+        name,
+        color
+      )
+    `
+    )
+    .eq("transaction_id", transactionId)
+    .order("created_at", { ascending: true });
+}
+
+/**
+ * Remove all split lines from a transaction
+ */
+export async function deleteTransactionSplits(transactionId: string) {
+  return supabase
+    .from("transaction_splits")
+    .delete()
+    .eq("transaction_id", transactionId);
+}
+
+/**
+ * Replace the split lines of a transaction. The lines must add up to the
+ * transaction amount; an empty list removes the split. The parent keeps the
+ * category of its largest line so lists still show a sensible category.
+ */
+export async function saveTransactionSplits(
+  transactionId: string,
+  splits: SplitLine[]
+) {
+  if (splits.length === 0) {
+    const { error } = await deleteTransactionSplits(transactionId);
+    return { data: [], error };
+  }
+
+  if (splits.length < 2) {
+    return {
+      data: null,
+      error: new Error("A split needs at least two lines"),
+    };
+  }
+
+  const { data: parent, error: parentError } = await supabase
+    .from("transactions")
+    .select("amount, user_id, date")
+    .eq("id", transactionId)
+    .single();
+
+  if (parentError) return { data: null, error: parentError };
+
+  if (!splitsMatchAmount(splits, parent.amount)) {
+    return {
+      data: null,
+      error: new Error("Split lines must add up to the transaction amount"),
+    };
+  }
+
+  const { error: deleteError } = await deleteTransactionSplits(transactionId);
+  if (deleteError) return { data: null, error: deleteError };
+
+  const { data, error } = await supabase
+    .from("transaction_splits")
+    .insert(
+      splits.map((split) => ({
+        transaction_id: transactionId,
+        user_id: parent.user_id,
+        category_id: split.category_id,
+        amount: split.amount,
+        note: split.note || null,
+      }))
+    )
+    .select();
+
+  if (error) return { data: null, error };
+
+  const largest = [...splits].sort((a, b) => b.amount - a.amount)[0];
+  const { error: updateError } = await supabase
+    .from("transactions")
+    .update({ category_id: largest.category_id })
+    .eq("id", transactionId);
+
+  await checkBudgetAlerts(
+    splits.map((split) => ({
+      category_id: split.category_id,
+      date: parent.date,
+    }))
+  );
+
+  return { data, error: updateError };
+}
+
+/**
+ * Get the expenses attributed to a category in a date range, one entry per
+ * unsplit transaction in the category and per split line assigned to it.
+ * Amounts are converted to the base currency as of each transaction's date.
+ */
+export async function getCategorySpendingEntries(
+  categoryId: string,
+  startDate: string,
+  endDate: string,
+  converter?: CurrencyConverter
+): Promise<{
+  data: { date: string; amount: number }[] | null;
+  error: PostgrestError | null;
+}> {
+  const [transactionsResult, splitsResult, currencyConverter] =
+    await Promise.all([
+      supabase
+        .from("transactions")
+        .select("amount, currency, date, transaction_splits ( id )")
+        .eq("category_id", categoryId)
+        .eq("type", "expense")
+        .gte("date", startDate)
+        .lte("date", endDate),
+      supabase
+        .from("transaction_splits")
+        .select("amount, transactions!inner ( date, type, currency )")
+        .eq("category_id", categoryId)
+        .eq("transactions.type", "expense")
+        .gte("transactions.date", startDate)
+        .lte("transactions.date", endDate),
+      converter || getCurrencyConverter(),
+    ]);
+
+  if (transactionsResult.error) {
+    return { data: null, error: transactionsResult.error };
+  }
+  if (splitsResult.error) return { data: null, error: splitsResult.error };
+
+  // Split parents are counted through their lines instead
+  const unsplit = transactionsResult.data
+    .filter((t) => !t.transaction_splits?.length)
+    .map((t) => ({
+      date: t.date,
+      amount: currencyConverter.convert(t.amount || 0, t.currency, t.date),
+    }));
+  const split = splitsResult.data.map((s) => ({
+    date: s.transactions.date,
+    amount: currencyConverter.convert(
+      s.amount || 0,
+      s.transactions.currency,
+      s.transactions.date
+    ),
+  }));
+
+  return { data: [...unsplit, ...split], error: null };
+}
+
+/**
+ * Get the expense total attributed to a category in a date range, in the
+ * base currency
+ */
+export async function getCategorySpending(
+  categoryId: string,
+  startDate: string,
+  endDate: string,
+  converter?: CurrencyConverter
+): Promise<{ data: number | null; error: PostgrestError | null }> {
+  const { data, error } = await getCategorySpendingEntries(
+    categoryId,
+    startDate,
+    endDate,
+    converter
+  );
+  if (error || !data) return { data: null, error };
+
+  return {
+    data: data.reduce((sum, entry) => sum + entry.amount, 0),
+    error: null,
+  };
+}
@@ -1,12 +1,17 @@
 import { supabase } from "./client";
 import type { Database } from "../../lib/database.types";
 import { PostgrestError } from "@supabase/supabase-js";
+import { addTagToTransaction, getTagsForTransaction } from "./tags";
+import { getCurrencyConverter } from "./exchangeRates";
+import { checkBudgetAlerts } from "./budgetAlerts";
+import { applyGoalFundingRules } from "./goalFunding";
 
 export type Transaction =
   Database["public"]["Tables"]["transactions"]["Row"] & {
     category_name?: string;
     category_color?: string;
     bank_account_name?: string | null;
+    transfer_account_name?: string | null;
     categories?: {
       name?: string;
       color?: string;
@@ -20,6 +25,8 @@ export type TransactionInsert =
   Database["public"]["Tables"]["transactions"]["Insert"];
 export type TransactionUpdate =
   Database["public"]["Tables"]["transactions"]["Update"];
+export type TransactionStatus =
+  Database["public"]["Tables"]["transactions"]["Row"]["status"];
 
 /**
  * Get recent transactions with category information
@@ -36,9 +43,12 @@ export async function getRecentTransactions(limit = 10) {
           name,
           color
         ),
-        bank_accounts (
+        bank_accounts!transactions_bank_account_id_fkey (
           name,
           account_type
+        ),
+        transfer_account:bank_accounts!transactions_transfer_account_id_fkey (
+          name
         )
       `
       )
@@ -80,6 +90,7 @@ export async function getRecentTransactions(limit = 10) {
       category_name: transaction.categories?.name,
       category_color: transaction.categories?.color,
       bank_account_name: transaction.bank_accounts?.name,
+      transfer_account_name: transaction.transfer_account?.name,
     }));
 
     return { data: transformedData, error };
@@ -107,9 +118,12 @@ export async function getTransactionsByDateRange(
           name,
           color
         ),
-        bank_accounts (
+        bank_accounts!transactions_bank_account_id_fkey (
           name,
           account_type
+        ),
+        transfer_account:bank_accounts!transactions_transfer_account_id_fkey (
+          name
         )
       `
       )
@@ -153,6 +167,7 @@ export async function getTransactionsByDateRange(
       category_name: transaction.categories?.name,
       category_color: transaction.categories?.color,
       bank_account_name: transaction.bank_accounts?.name,
+      transfer_account_name: transaction.transfer_account?.name,
     }));
 
     return { data: transformedData, error };
@@ -175,10 +190,11 @@ export async function getMonthlySpending() {
     .toISOString()
     .split("T")[0];
 
-  // Get all transactions for the current month
+  // Get the current month's income and expenses; transfers are neither
   const { data, error } = await supabase
     .from("transactions")
     .select("*")
+    .in("type", ["income", "expense"])
     .gte("date", startOfMonth)
     .lte("date", endOfMonth);
 
@@ -186,14 +202,18 @@ export async function getMonthlySpending() {
     return { error };
   }
 
-  // Calculate totals
+  // Calculate totals in the base currency
+  const converter = await getCurrencyConverter();
+  const inBaseCurrency = (t: (typeof data)[number]) =>
+    converter.convert(t.amount || 0, t.currency, t.date);
+
   const totalIncome = data
     .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + (t.amount || 0), 0);
+    .reduce((sum, t) => sum + inBaseCurrency(t), 0);
 
   const totalExpenses = data
     .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + (t.amount || 0), 0);
+    .reduce((sum, t) => sum + inBaseCurrency(t), 0);
 
   const netSavings = totalIncome - totalExpenses;
 
@@ -229,29 +249,95 @@ export async function getMonthlySpending() {
  * Create a new transaction
  */
 export async function createTransaction(transaction: TransactionInsert) {
-  return supabase.from("transactions").insert(transaction).select().single();
+  const result = await supabase
+    .from("transactions")
+    .insert(transaction)
+    .select()
+    .single();
+
+  if (result.data) {
+    await checkBudgetAlerts([result.data]);
+    await applyGoalFundingRules([result.data]);
+  }
+
+  return result;
 }
 
 /**
- * Update an existing transaction
+ * Create multiple transactions, inserting them in batches
+ */
+export async function createTransactions(
+  transactions: TransactionInsert[],
+  batchSize = 500
+) {
+  const created: Database["public"]["Tables"]["transactions"]["Row"][] = [];
+
+  for (let i = 0; i < transactions.length; i += batchSize) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .insert(transactions.slice(i, i + batchSize))
+      .select();
+
+    if (error) {
+      // Report what was written before the failing batch
+      return { data: created, error };
+    }
+
+    created.push(...(data || []));
+  }
+
+  await checkBudgetAlerts(created);
+  await applyGoalFundingRules(created);
+
+  return { data: created, error: null };
+}
+
+/**
+ * Update an existing transaction. Split lines that no longer add up to a
+ * changed amount are removed by the database.
  */
 export async function updateTransaction(
   id: string,
   updates: TransactionUpdate
 ) {
-  return supabase
+  // Budgets of the old category and date are re-checked as well
+  const { data: previous } = await supabase
+    .from("transactions")
+    .select("category_id, date")
+    .eq("id", id)
+    .maybeSingle();
+
+  const result = await supabase
     .from("transactions")
     .update(updates)
     .eq("id", id)
     .select()
     .single();
+
+  if (result.data) {
+    await checkBudgetAlerts(previous ? [previous, result.data] : [result.data]);
+  }
+
+  return result;
 }
 
 /**
  * Delete a transaction
  */
 export async function deleteTransaction(id: string) {
-  return supabase.from("transactions").delete().eq("id", id);
+  const { data: previous } = await supabase
+    .from("transactions")
+    .select("category_id, date")
+    .eq("id", id)
+    .maybeSingle();
+
+  const result = await supabase.from("transactions").delete().eq("id", id);
+
+  if (!result.error && previous) {
+    await checkBudgetAlerts([previous]);
+  }
+
+  return result;
 }
 
 /**
@@ -272,9 +358,12 @@ export async function getTransactionsByBankAccount(
           name,
           color
         ),
-        bank_accounts (
+        bank_accounts!transactions_bank_account_id_fkey (
           name,
           account_type
+        ),
+        transfer_account:bank_accounts!transactions_transfer_account_id_fkey (
+          name
         )
       `
       )
@@ -328,6 +417,7 @@ export async function getTransactionsByBankAccount(
       category_name: transaction.categories?.name,
       category_color: transaction.categories?.color,
       bank_account_name: transaction.bank_accounts?.name,
+      transfer_account_name: transaction.transfer_account?.name,
     }));
 
     return { data: transformedData, error };
@@ -352,9 +442,12 @@ export async function getTransactionById(id: string) {
           name,
           color
         ),
-        bank_accounts (
+        bank_accounts!transactions_bank_account_id_fkey (
           name,
           account_type
+        ),
+        transfer_account:bank_accounts!transactions_transfer_account_id_fkey (
+          name
         )
       `
       )
@@ -399,6 +492,7 @@ export async function getTransactionById(id: string) {
           category_name: data.categories?.name,
           category_color: data.categories?.color,
           bank_account_name: data.bank_accounts?.name,
+          transfer_account_name: data.transfer_account?.name,
         }
       : null;
 
@@ -408,3 +502,175 @@ export async function getTransactionById(id: string) {
     return { data: null, error: err as PostgrestError };
   }
 }
+
+/**
+ * Merge a duplicate transaction into another one. Tags from the duplicate are
+ * carried over, empty fields on the kept transaction are filled in from the
+ * duplicate, and the duplicate is deleted. A bill payment or goal
+ * contributions recorded against the duplicate move to the kept transaction;
+ * the merge is refused when the kept transaction already has its own.
+ */
+export async function mergeTransactions(keepId: string, duplicateId: string) {
+  const [keepResult, duplicateResult] = await Promise.all([
+    supabase.from("transactions").select("*").eq("id", keepId).single(),
+    supabase.from("transactions").select("*").eq("id", duplicateId).single(),
+  ]);
+
+  if (keepResult.error) return { data: null, error: keepResult.error };
+  if (duplicateResult.error) {
+    return { data: null, error: duplicateResult.error };
+  }
+
+  const kept = keepResult.data;
+  const duplicate = duplicateResult.data;
+
+  // Deleting the duplicate would delete its bill payment or goal withdrawal
+  // and unlink its goal contributions, so they are moved over first
+  const linkedIds = [keepId, duplicateId];
+  const [paymentsResult, withdrawalsResult, contributionsResult] =
+    await Promise.all([
+      supabase
+        .from("bill_payments")
+        .select("id, transaction_id")
+        .in("transaction_id", linkedIds),
+      supabase
+        .from("goal_contributions")
+        .select("id, transaction_id")
+        .in("transaction_id", linkedIds),
+      supabase
+        .from("goal_contributions")
+        .select("id, funding_rule_id, source_transaction_id")
+        .in("source_transaction_id", linkedIds),
+    ]);
+
+  if (paymentsResult.error) return { data: null, error: paymentsResult.error };
+  if (withdrawalsResult.error) {
+    return { data: null, error: withdrawalsResult.error };
+  }
+  if (contributionsResult.error) {
+    return { data: null, error: contributionsResult.error };
+  }
+
+  const payments = paymentsResult.data || [];
+  const movesPayment = payments.some(
+    (payment) => payment.transaction_id === duplicateId
+  );
+  if (
+    movesPayment &&
+    payments.some((payment) => payment.transaction_id === keepId)
+  ) {
+    return {
+      data: null,
+      error: new Error("Both transactions record a bill payment"),
+    };
+  }
+
+  const withdrawals = withdrawalsResult.data || [];
+  const movesWithdrawal = withdrawals.some(
+    (withdrawal) => withdrawal.transaction_id === duplicateId
+  );
+  if (
+    (movesWithdrawal &&
+      (payments.length > 0 ||
+        withdrawals.some(
+          (withdrawal) => withdrawal.transaction_id === keepId
+        ))) ||
+    (movesPayment && withdrawals.length > 0)
+  ) {
+    return {
+      data: null,
+      error: new Error(
+        "Both transactions record a bill payment or goal contribution"
+      ),
+    };
+  }
+
+  const contributions = contributionsResult.data || [];
+  const keptRuleIds = new Set(
+    contributions
+      .filter((contribution) => contribution.source_transaction_id === keepId)
+      .map((contribution) => contribution.funding_rule_id)
+  );
+  const movedContributions = contributions.filter(
+    (contribution) => contribution.source_transaction_id === duplicateId
+  );
+  if (
+    movedContributions.some(
+      (contribution) =>
+        contribution.funding_rule_id &&
+        keptRuleIds.has(contribution.funding_rule_id)
+    )
+  ) {
+    return {
+      data: null,
+      error: new Error("Both transactions funded the same goal"),
+    };
+  }
+
+  // Carry over any tags the kept transaction doesn't have yet
+  const [keptTags, duplicateTags] = await Promise.all([
+    getTagsForTransaction(keepId),
+    getTagsForTransaction(duplicateId),
+  ]);
+
+  if (keptTags.error) return { data: null, error: keptTags.error };
+  if (duplicateTags.error) return { data: null, error: duplicateTags.error };
+
+  const keptTagIds = new Set((keptTags.data || []).map((tag) => tag.tag_id));
+  const missingTagIds = (duplicateTags.data || [])
+    .map((tag) => tag.tag_id)
+    .filter((tagId) => !keptTagIds.has(tagId));
+
+  for (const tagId of missingTagIds) {
+    const { error } = await addTagToTransaction(keepId, tagId);
+    if (error) return { data: null, error };
+  }
+
+  // Fill gaps on the kept transaction from the duplicate
+  const { data, error } = await updateTransaction(keepId, {
+    category_id: kept.category_id || duplicate.category_id,
+    bank_account_id: kept.bank_account_id || duplicate.bank_account_id,
+    description: kept.description || duplicate.description,
+    payment_method: kept.payment_method || duplicate.payment_method,
+    notes: kept.notes || duplicate.notes,
+  });
+
+  if (error) return { data: null, error };
+
+  // The payment keeps its amount, which is in the bill's currency, and takes
+  // on the kept transaction's date, so the sync trigger leaves the
+  // transaction as it is
+  if (movesPayment) {
+    const { error: paymentError } = await supabase
+      .from("bill_payments")
+      .update({
+        transaction_id: keepId,
+        payment_date: data.date,
+        payment_method: data.payment_method,
+      })
+      .eq("transaction_id", duplicateId);
+    if (paymentError) return { data: null, error: paymentError };
+  }
+
+  if (movesWithdrawal) {
+    const { error: withdrawalError } = await supabase
+      .from("goal_contributions")
+      .update({ transaction_id: keepId })
+      .eq("transaction_id", duplicateId);
+    if (withdrawalError) return { data: null, error: withdrawalError };
+  }
+
+  if (movedContributions.length > 0) {
+    const { error: contributionError } = await supabase
+      .from("goal_contributions")
+      .update({ source_transaction_id: keepId })
+      .eq("source_transaction_id", duplicateId);
+    if (contributionError) return { data: null, error: contributionError };
+  }
+
+  // transaction_tags rows of the duplicate are removed by ON DELETE CASCADE
+  const { error: deleteError } = await deleteTransaction(duplicateId);
+  if (deleteError) return { data: null, error: deleteError };
+
+  return { data, error: null };
+}
@@ -0,0 +1,125 @@
+import { supabase } from "./client";
+import type { Database } from "../../lib/database.types";
+
+type TransactionRow = Database["public"]["Tables"]["transactions"]["Row"];
+
+// A transfer moves money from bank_account_id to transfer_account_id. Both
+// balances are adjusted by a database trigger in the same transaction.
+export type Transfer = TransactionRow & { type: "transfer" };
+
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  description?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * A transfer has one amount, which leaves the source account and arrives in
+ * the destination account as is, so both accounts must share a currency
+ */
+async function validateTransfer(
+  transfer: TransferInput
+): Promise<Error | null> {
+  if (!transfer.fromAccountId || !transfer.toAccountId) {
+    return new Error("A transfer needs a source and a destination account");
+  }
+  if (transfer.fromAccountId === transfer.toAccountId) {
+    return new Error("Cannot transfer to the same account");
+  }
+  if (!(transfer.amount > 0)) {
+    return new Error("The transfer amount must be greater than zero");
+  }
+
+  const { data: accounts, error } = await supabase
+    .from("bank_accounts")
+    .select("id, currency")
+    .in("id", [transfer.fromAccountId, transfer.toAccountId]);
+
+  if (error) return error;
+  if (new Set((accounts || []).map((account) => account.currency)).size > 1) {
+    return new Error(
+      "Transfers are only possible between accounts in the same currency"
+    );
+  }
+  return null;
+}
+
+function toTransactionFields(transfer: TransferInput) {
+  return {
+    type: "transfer" as const,
+    bank_account_id: transfer.fromAccountId,
+    transfer_account_id: transfer.toAccountId,
+    amount: transfer.amount,
+    date: transfer.date,
+    description: transfer.description || null,
+    notes: transfer.notes || null,
+    category_id: null,
+    status: "completed" as const,
+  };
+}
+
+/**
+ * Get transfers, newest first, optionally only those touching one account
+ */
+export async function getTransfers(bankAccountId?: string) {
+  let query = supabase
+    .from("transactions")
+    .select("*")
+    .eq("type", "transfer")
+    .order("date", { ascending: false });
+
+  if (bankAccountId) {
+    query = query.or(
+      `bank_account_id.eq.${bankAccountId},transfer_account_id.eq.${bankAccountId}`
+    );
+  }
+
+  return query;
+}
+
+/**
+ * Move money between two bank accounts
+ */
+export async function createTransfer(userId: string, transfer: TransferInput) {
+  const validationError = await validateTransfer(transfer);
+  if (validationError) return { data: null, error: validationError };
+
+  return supabase
+    .from("transactions")
+    .insert({ ...toTransactionFields(transfer), user_id: userId })
+    .select()
+    .single();
+}
+
+/**
+ * Update a transfer; the old movement is reversed before the new one applies
+ */
+export async function updateTransfer(id: string, transfer: TransferInput) {
+  const validationError = await validateTransfer(transfer);
+  if (validationError) return { data: null, error: validationError };
+
+  return supabase
+    .from("transactions")
+    .update({
+      ...toTransactionFields(transfer),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .eq("type", "transfer")
+    .select()
+    .single();
+}
+
+/**
+ * Delete a transfer and reverse its effect on both account balances
+ */
+export async function deleteTransfer(id: string) {
+  return supabase
+    .from("transactions")
+    .delete()
+    .eq("id", id)
+    .eq("type", "transfer");
+}
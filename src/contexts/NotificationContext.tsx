@@ -1,4 +1,23 @@
-import { createContext, useContext, useState, ReactNode } from "react";
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuth } from "../state/useAuth";
+import { supabase } from "../api/supabase/client";
+import {
+  Notification as StoredNotification,
+  createNotifications,
+  dismissAllNotifications,
+  dismissNotification,
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  parseNotificationPreferences,
+} from "../api/supabase/notifications";
+import { generateNotifications } from "../api/supabase/notificationRules";
 
 export type NotificationType = "success" | "error" | "info" | "warning";
 
@@ -7,6 +26,8 @@ export interface Notification {
   title: string;
   message: string;
   type: NotificationType;
+  // Page the notification is about, if any
+  link: string | null;
   timestamp: Date;
   read: boolean;
 }
@@ -25,6 +46,9 @@ interface NotificationContextType {
   clearAll: () => void;
 }
 
+// How often the notification rules are re-run while the app is open
+const GENERATE_INTERVAL_MS = 15 * 60 * 1000;
+
 export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
 export function useNotifications() {
@@ -35,28 +59,136 @@ export function useNotifications() {
   return context;
 }
 
+const toNotification = (notification: StoredNotification): Notification => ({
+  id: notification.id,
+  title: notification.title,
+  message: notification.message,
+  type: notification.severity,
+  link: notification.link,
+  timestamp: new Date(notification.created_at),
+  read: notification.read,
+});
+
+// Prepend stored notifications that aren't shown yet; the same row can arrive
+// both from an API call and from the realtime channel
+const prependNew = (
+  notifications: Notification[],
+  stored: StoredNotification[]
+): Notification[] => {
+  const known = new Set(notifications.map((notification) => notification.id));
+  const added = stored
+    .filter((notification) => !known.has(notification.id))
+    .map(toNotification);
+
+  return added.length > 0 ? [...added, ...notifications] : notifications;
+};
+
 interface NotificationProviderProps {
   children: ReactNode;
 }
 
 export function NotificationProvider({ children }: NotificationProviderProps) {
+  const { user, userSettings } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
-  const addNotification = (
+  // Load stored notifications, then run the rules for anything new
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const generate = async () => {
+      if (!userSettings?.notification_enabled) return;
+
+      const { data, error } = await generateNotifications(
+        user.id,
+        user.email ?? null,
+        parseNotificationPreferences(userSettings.notification_preferences)
+      );
+
+      if (error) {
+        console.error("Error generating notifications:", error);
+      } else if (!cancelled) {
+        setNotifications((prev) => prependNew(prev, data));
+      }
+    };
+
+    const load = async () => {
+      const { data, error } = await getNotifications();
+
+      if (error) {
+        console.error("Error loading notifications:", error);
+      } else if (!cancelled) {
+        setNotifications(data.map(toNotification));
+      }
+
+      await generate();
+    };
+
+    load();
+    const interval = setInterval(generate, GENERATE_INTERVAL_MS);
+
+    // Budget alerts are raised as transactions change, from any tab
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          setNotifications((prev) =>
+            prependNew(prev, [payload.new as StoredNotification])
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      channel.unsubscribe();
+    };
+  }, [user, userSettings]);
+
+  const addNotification = async (
     title: string,
     message: string,
     type: NotificationType
   ) => {
-    const newNotification: Notification = {
+    const localNotification: Notification = {
       id: Date.now().toString(),
       title,
       message,
       type,
+      link: null,
       timestamp: new Date(),
       read: false,
     };
 
-    setNotifications((prev) => [newNotification, ...prev]);
+    if (!user) {
+      setNotifications((prev) => [localNotification, ...prev]);
+      return;
+    }
+
+    const { data, error } = await createNotifications([
+      { user_id: user.id, title, message, severity: type },
+    ]);
+
+    if (error || !data?.[0]) {
+      console.error("Error saving notification:", error);
+      // Still show it for this session
+      setNotifications((prev) => [localNotification, ...prev]);
+      return;
+    }
+
+    setNotifications((prev) => prependNew(prev, data));
   };
 
   const markAsRead = (id: string) => {
@@ -65,22 +197,46 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
         notification.id === id ? { ...notification, read: true } : notification
       )
     );
+
+    if (user) {
+      markNotificationRead(id).then(({ error }) => {
+        if (error) console.error("Error marking notification as read:", error);
+      });
+    }
   };
 
   const markAllAsRead = () => {
     setNotifications((prev) =>
       prev.map((notification) => ({ ...notification, read: true }))
     );
+
+    if (user) {
+      markAllNotificationsRead(user.id).then(({ error }) => {
+        if (error) console.error("Error marking notifications as read:", error);
+      });
+    }
   };
 
   const removeNotification = (id: string) => {
     setNotifications((prev) =>
       prev.filter((notification) => notification.id !== id)
     );
+
+    if (user) {
+      dismissNotification(id).then(({ error }) => {
+        if (error) console.error("Error dismissing notification:", error);
+      });
+    }
   };
 
   const clearAll = () => {
     setNotifications([]);
+
+    if (user) {
+      dismissAllNotifications(user.id).then(({ error }) => {
+        if (error) console.error("Error clearing notifications:", error);
+      });
+    }
   };
 
   const hasUnreadNotifications = notifications.some(
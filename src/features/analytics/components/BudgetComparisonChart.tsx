@@ -15,6 +15,7 @@ import { formatCurrency } from "../../../utils/formatters";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BudgetComparisonChartProps {
   className?: string;
@@ -31,6 +32,7 @@ interface BudgetData {
 export function BudgetComparisonChart({
   className = "",
 }: BudgetComparisonChartProps) {
+  const { t } = useLanguage();
   const [data, setData] = useState<BudgetData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -50,20 +52,20 @@ export function BudgetComparisonChart({
         setData(data || []);
       } catch (err) {
         console.error("Error fetching budget comparison data:", err);
-        setError("Failed to load budget comparison data");
+        setError(t("analytics.errors.budgetComparison"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, []);
+  }, [t]);
 
   // Custom tooltip
   interface TooltipProps {
     active?: boolean;
     payload?: Array<{
-      name: string;
+      dataKey: string;
       value: number;
     }>;
     label?: string;
@@ -71,25 +73,39 @@ export function BudgetComparisonChart({
 
   const CustomTooltip = ({ active, payload, label }: TooltipProps) => {
     if (active && payload && payload.length) {
-      const budgetValue = payload.find((p) => p.name === "Budget")?.value || 0;
-      const actualValue = payload.find((p) => p.name === "Actual")?.value || 0;
+      const budgetValue =
+        payload.find((p) => p.dataKey === "Budget")?.value || 0;
+      const actualValue =
+        payload.find((p) => p.dataKey === "Actual")?.value || 0;
       const difference = budgetValue - actualValue;
       const isOverBudget = difference < 0;
 
       return (
         <div className="bg-white p-3 shadow-md rounded-md border border-gray-200">
           <p className="font-medium">{label}</p>
-          <p className="text-blue-600">Budget: {formatCurrency(budgetValue)}</p>
+          <p className="text-blue-600">
+            {t("analytics.valueLine", {
+              label: t("analytics.budget"),
+              value: formatCurrency(budgetValue),
+            })}
+          </p>
           <p className="text-orange-600">
-            Actual: {formatCurrency(actualValue)}
+            {t("analytics.valueLine", {
+              label: t("analytics.actual"),
+              value: formatCurrency(actualValue),
+            })}
           </p>
           <p
             className={`border-t border-gray-200 mt-2 pt-2 ${
               isOverBudget ? "text-red-600" : "text-green-600"
             }`}
           >
-            {isOverBudget ? "Over budget by " : "Under budget by "}
-            {formatCurrency(Math.abs(difference))}
+            {t(
+              isOverBudget
+                ? "analytics.overBudgetBy"
+                : "analytics.underBudgetBy",
+              { amount: formatCurrency(Math.abs(difference)) }
+            )}
           </p>
         </div>
       );
@@ -118,11 +134,13 @@ export function BudgetComparisonChart({
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle className="text-lg">Budget vs Actual Spending</CardTitle>
+          <CardTitle className="text-lg">
+            {t("analytics.budgetVsActual")}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
-            <p>No budget data available. Create budgets to see comparison.</p>
+            <p>{t("analytics.noBudgetData")}</p>
           </div>
         </CardContent>
       </Card>
@@ -140,7 +158,9 @@ export function BudgetComparisonChart({
   return (
     <Card className={className}>
       <CardHeader className="pb-3">
-        <CardTitle className="text-lg">Budget vs Actual Spending</CardTitle>
+        <CardTitle className="text-lg">
+          {t("analytics.budgetVsActual")}
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="h-64">
@@ -167,8 +187,13 @@ export function BudgetComparisonChart({
               />
               <Tooltip content={<CustomTooltip />} />
               <Legend />
-              <Bar dataKey="Budget" fill="#3B82F6" radius={[4, 4, 0, 0]} />
-              <Bar dataKey="Actual" fill="#F97316">
+              <Bar
+                dataKey="Budget"
+                name={t("analytics.budget")}
+                fill="#3B82F6"
+                radius={[4, 4, 0, 0]}
+              />
+              <Bar dataKey="Actual" name={t("analytics.actual")} fill="#F97316">
                 {chartData.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
@@ -0,0 +1,324 @@
+import { useState, useEffect } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  CashFlowForecast,
+  FORECAST_HORIZONS,
+  ForecastHorizon,
+  getCashFlowForecast,
+} from "../../../api/supabase/cashFlowForecast";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, AlertTriangle, Loader2 } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface CashFlowForecastChartProps {
+  className?: string;
+}
+
+const COLORS = ["#14B8A6", "#6366F1", "#F59E0B", "#EC4899", "#10B981"];
+
+const displayDate = (date: string) =>
+  new Date(date).toLocaleDateString(getLocale(), {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+// Consecutive runs of dates, so each stretch below zero is shaded once
+const toRuns = (dates: string[], allDates: string[]) => {
+  const runs: { start: string; end: string }[] = [];
+  dates.forEach((date) => {
+    const last = runs[runs.length - 1];
+    const index = allDates.indexOf(date);
+    if (last && allDates[index - 1] === last.end) {
+      last.end = date;
+    } else {
+      runs.push({ start: date, end: date });
+    }
+  });
+  return runs;
+};
+
+export function CashFlowForecastChart({
+  className = "",
+}: CashFlowForecastChartProps) {
+  const { t } = useLanguage();
+  const [horizon, setHorizon] = useState<ForecastHorizon>(30);
+  const [payingAccountId, setPayingAccountId] = useState<string | null>(null);
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const { data, error } = await getCashFlowForecast(
+          horizon,
+          payingAccountId
+        );
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        setForecast(data);
+      } catch (err) {
+        console.error("Error fetching cash flow forecast:", err);
+        setError(t("analytics.errors.forecast"));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [horizon, payingAccountId, t]);
+
+  // Custom tooltip
+  interface TooltipProps {
+    active?: boolean;
+    payload?: Array<{
+      value: number;
+      dataKey: string;
+      name: string;
+      color: string;
+    }>;
+    label?: string;
+  }
+
+  const CustomTooltip = ({ active, payload, label }: TooltipProps) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white p-3 shadow-md rounded-md border border-gray-200">
+          <p className="font-medium">{label}</p>
+          {payload.map((entry) => {
+            const account = forecast?.accounts.find(
+              (account) => account.id === entry.dataKey
+            );
+            return (
+              <p key={entry.dataKey} style={{ color: entry.color }}>
+                {t("analytics.valueLine", {
+                  label: entry.name,
+                  value: formatCurrency(entry.value, {
+                    currency: account?.currency,
+                  }),
+                })}
+              </p>
+            );
+          })}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const controls = (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <div className="flex flex-wrap gap-2">
+        {FORECAST_HORIZONS.map((days) => (
+          <Button
+            key={days}
+            onClick={() => setHorizon(days)}
+            variant={horizon === days ? "default" : "outline"}
+            size="sm"
+            className={
+              horizon === days
+                ? "bg-teal-500 hover:bg-teal-600"
+                : "border-teal-200 text-teal-700 hover:bg-teal-50"
+            }
+          >
+            {t("analytics.forecast.days", { count: days })}
+          </Button>
+        ))}
+      </div>
+      {forecast && forecast.accounts.length > 1 && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {t("analytics.forecast.payingAccount")}
+          </span>
+          <Select
+            value={forecast.payingAccountId || undefined}
+            onValueChange={setPayingAccountId}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {forecast.accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+
+  if (isLoading && !forecast) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!forecast || forecast.accounts.length === 0) {
+    return (
+      <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
+        <p>{t("analytics.forecast.noAccounts")}</p>
+      </div>
+    );
+  }
+
+  const allDates = forecast.days.map((day) => day.date);
+  const data = forecast.days.map((day) => ({
+    displayDate: displayDate(day.date),
+    ...day.balances,
+  }));
+  const payingAccount = forecast.accounts.find(
+    (account) => account.id === forecast.payingAccountId
+  );
+
+  return (
+    <div className={className}>
+      {controls}
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="displayDate" tick={{ fontSize: 12 }} />
+            <YAxis
+              tickFormatter={(value) =>
+                formatCurrency(value, { compact: true })
+              }
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+            {forecast.accounts.flatMap((account) =>
+              toRuns(account.shortfallDates, allDates).map((run) => (
+                <ReferenceArea
+                  key={`${account.id}-${run.start}`}
+                  x1={displayDate(run.start)}
+                  x2={displayDate(run.end)}
+                  fill="#EF4444"
+                  fillOpacity={0.1}
+                />
+              ))
+            )}
+            <ReferenceLine y={0} stroke="red" strokeDasharray="3 3" />
+            {forecast.accounts.map((account, index) => (
+              <Line
+                key={account.id}
+                type="monotone"
+                dataKey={account.id}
+                name={account.name}
+                stroke={account.color || COLORS[index % COLORS.length]}
+                dot={false}
+                strokeWidth={2}
+              />
+            ))}
+            {forecast.accounts.map((account) => (
+              <ReferenceDot
+                key={account.id}
+                x={displayDate(account.lowPoint.date)}
+                y={account.lowPoint.balance}
+                r={5}
+                fill={
+                  account.lowPoint.balance < 0 &&
+                  account.accountType !== "credit"
+                    ? "#EF4444"
+                    : "#F59E0B"
+                }
+                stroke="none"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {forecast.accounts.map((account) => (
+          <div
+            key={account.id}
+            className="flex flex-wrap items-center justify-between gap-2 text-sm"
+          >
+            <span className="font-medium">{account.name}</span>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-muted-foreground">
+                {t("analytics.forecast.lowPoint", {
+                  amount: formatCurrency(account.lowPoint.balance, {
+                    currency: account.currency,
+                  }),
+                  date: formatDate(account.lowPoint.date),
+                })}
+              </span>
+              {account.shortfallDates.length > 0 ? (
+                <Badge
+                  variant="destructive"
+                  className="flex items-center gap-1"
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  {t("analytics.forecast.shortfall", {
+                    date: formatDate(account.shortfallDates[0]),
+                  })}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-teal-700">
+                  {t("analytics.forecast.noShortfall")}
+                </Badge>
+              )}
+            </div>
+          </div>
+        ))}
+        {payingAccount && (
+          <p className="text-xs text-muted-foreground pt-2">
+            {t("analytics.forecast.discretionaryNote", {
+              amount: formatCurrency(forecast.dailyDiscretionary, {
+                currency: payingAccount.currency,
+              }),
+              account: payingAccount.name,
+            })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 import { Badge } from "@/components/ui/badge";
+import { formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface DateRangeSelectorProps {
   startDate: string;
@@ -18,6 +20,7 @@ export function DateRangeSelector({
   onDateRangeChange,
   className = "",
 }: DateRangeSelectorProps) {
+  const { t } = useLanguage();
   const [customRange, setCustomRange] = useState(false);
   const [customStartDate, setCustomStartDate] = useState(startDate);
   const [customEndDate, setCustomEndDate] = useState(endDate);
@@ -86,7 +89,7 @@ export function DateRangeSelector({
           size="sm"
           className="border-teal-200 text-teal-700 hover:bg-teal-50"
         >
-          This Month
+          {t("analytics.ranges.thisMonth")}
         </Button>
         <Button
           onClick={() => handleRangeSelect("last-month")}
@@ -94,7 +97,7 @@ export function DateRangeSelector({
           size="sm"
           className="border-teal-200 text-teal-700 hover:bg-teal-50"
         >
-          Last Month
+          {t("analytics.ranges.lastMonth")}
         </Button>
         <Button
           onClick={() => handleRangeSelect("this-quarter")}
@@ -102,7 +105,7 @@ export function DateRangeSelector({
           size="sm"
           className="border-teal-200 text-teal-700 hover:bg-teal-50"
         >
-          This Quarter
+          {t("analytics.ranges.thisQuarter")}
         </Button>
         <Button
           onClick={() => handleRangeSelect("this-year")}
@@ -110,7 +113,7 @@ export function DateRangeSelector({
           size="sm"
           className="border-teal-200 text-teal-700 hover:bg-teal-50"
         >
-          This Year
+          {t("analytics.ranges.thisYear")}
         </Button>
         <Button
           onClick={() => handleRangeSelect("last-year")}
@@ -118,7 +121,7 @@ export function DateRangeSelector({
           size="sm"
           className="border-teal-200 text-teal-700 hover:bg-teal-50"
         >
-          Last Year
+          {t("analytics.ranges.lastYear")}
         </Button>
         <Button
           onClick={() => handleRangeSelect("custom")}
@@ -128,14 +131,14 @@ export function DateRangeSelector({
             customRange ? "bg-teal-100" : ""
           }`}
         >
-          Custom
+          {t("common.custom")}
         </Button>
       </div>
 
       {customRange && (
         <div className="flex flex-col sm:flex-row gap-4 items-end">
           <div className="flex-1 space-y-2">
-            <Label htmlFor="start-date">Start Date</Label>
+            <Label htmlFor="start-date">{t("common.startDate")}</Label>
             <Input
               type="date"
               id="start-date"
@@ -145,7 +148,7 @@ export function DateRangeSelector({
             />
           </div>
           <div className="flex-1 space-y-2">
-            <Label htmlFor="end-date">End Date</Label>
+            <Label htmlFor="end-date">{t("common.endDate")}</Label>
             <Input
               type="date"
               id="end-date"
@@ -158,7 +161,7 @@ export function DateRangeSelector({
             onClick={handleCustomDateChange}
             className="bg-teal-600 hover:bg-teal-700"
           >
-            Apply
+            {t("analytics.apply")}
           </Button>
         </div>
       )}
@@ -168,8 +171,7 @@ export function DateRangeSelector({
           variant="outline"
           className="text-sm px-3 py-1 border-teal-200 text-teal-700"
         >
-          {new Date(startDate).toLocaleDateString()} -{" "}
-          {new Date(endDate).toLocaleDateString()}
+          {formatDate(startDate)} - {formatDate(endDate)}
         </Badge>
       </div>
     </div>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface ExpenseCategoryChartProps {
   startDate: string;
@@ -25,6 +26,7 @@ export function ExpenseCategoryChart({
   endDate,
   className = "",
 }: ExpenseCategoryChartProps) {
+  const { t } = useLanguage();
   const [data, setData] = useState<CategoryData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -44,14 +46,14 @@ export function ExpenseCategoryChart({
         setData(data || []);
       } catch (err) {
         console.error("Error fetching category data:", err);
-        setError("Failed to load expense category data");
+        setError(t("analytics.errors.expenseCategories"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, [startDate, endDate]);
+  }, [startDate, endDate, t]);
 
   // Custom tooltip
   interface TooltipProps {
@@ -95,11 +97,13 @@ export function ExpenseCategoryChart({
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle className="text-lg">Expenses by Category</CardTitle>
+          <CardTitle className="text-lg">
+            {t("analytics.expensesByCategory")}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
-            <p>No expense data available for the selected period.</p>
+            <p>{t("analytics.noExpenseData")}</p>
           </div>
         </CardContent>
       </Card>
@@ -137,7 +141,9 @@ export function ExpenseCategoryChart({
   return (
     <Card className={className}>
       <CardHeader className="pb-3">
-        <CardTitle className="text-lg">Expenses by Category</CardTitle>
+        <CardTitle className="text-lg">
+          {t("analytics.expensesByCategory")}
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="h-64">
@@ -16,6 +16,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface IncomeExpenseChartProps {
   startDate: string;
@@ -34,6 +35,7 @@ export function IncomeExpenseChart({
   endDate,
   className = "",
 }: IncomeExpenseChartProps) {
+  const { t } = useLanguage();
   const [data, setData] = useState<ChartData[]>([]);
   const [netSavings, setNetSavings] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -68,8 +70,16 @@ export function IncomeExpenseChart({
           );
 
           const chartData = [
-            { name: "Income", value: totalIncome, fill: "#10B981" },
-            { name: "Expenses", value: totalExpenses, fill: "#EF4444" },
+            {
+              name: t("analytics.income"),
+              value: totalIncome,
+              fill: "#10B981",
+            },
+            {
+              name: t("analytics.expenses"),
+              value: totalExpenses,
+              fill: "#EF4444",
+            },
           ];
 
           setData(chartData);
@@ -77,14 +87,14 @@ export function IncomeExpenseChart({
         }
       } catch (err) {
         console.error("Error fetching income vs expenses data:", err);
-        setError("Failed to load income vs expenses data");
+        setError(t("analytics.errors.incomeVsExpenses"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, [startDate, endDate]);
+  }, [startDate, endDate, t]);
 
   // Custom tooltip
   interface TooltipProps {
@@ -128,31 +138,35 @@ export function IncomeExpenseChart({
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle className="text-lg">Income vs Expenses</CardTitle>
+          <CardTitle className="text-lg">
+            {t("analytics.incomeVsExpenses")}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
-            <p>No transaction data available for the selected period.</p>
+            <p>{t("analytics.noTransactionData")}</p>
           </div>
         </CardContent>
       </Card>
     );
   }
 
-  // Calculate savings rate
-  const incomeValue = data.find((item) => item.name === "Income")?.value || 0;
+  // Calculate savings rate; income is the first bar
+  const incomeValue = data[0]?.value || 0;
   const savingsRate =
     incomeValue > 0 ? Math.round((netSavings / incomeValue) * 100) : 0;
 
   return (
     <Card className={className}>
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg">Income vs Expenses</CardTitle>
+        <CardTitle className="text-lg">
+          {t("analytics.incomeVsExpenses")}
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="flex justify-between items-center mb-4">
           <Badge variant="outline" className="px-2 py-1">
-            Net:{" "}
+            {t("analytics.net")}:{" "}
             <span
               className={
                 netSavings >= 0 ? "text-green-600" : "text-destructive"
@@ -171,7 +185,7 @@ export function IncomeExpenseChart({
                 : "border-destructive"
             }`}
           >
-            Savings Rate:{" "}
+            {t("analytics.savingsRate")}:{" "}
             <span
               className={
                 savingsRate >= 20
@@ -203,7 +217,7 @@ export function IncomeExpenseChart({
               <Legend />
               <Bar
                 dataKey="value"
-                name="Amount"
+                name={t("analytics.amount")}
                 fill="#8884d8"
                 radius={[4, 4, 0, 0]}
               />
@@ -0,0 +1,257 @@
+import { useState, useEffect } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  NetWorthAccountType,
+  NetWorthMonth,
+  getNetWorthHistory,
+  recordNetWorthSnapshot,
+} from "../../../api/supabase/netWorth";
+import { formatCurrency } from "../../../utils/formatters";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface NetWorthChartProps {
+  months?: number;
+  className?: string;
+}
+
+// Order account types are listed in the month-over-month breakdown
+const ACCOUNT_TYPES: NetWorthAccountType[] = [
+  "checking",
+  "savings",
+  "investment",
+  "credit",
+  "other",
+  "asset",
+  "liability",
+];
+
+const displayMonth = (month: string) =>
+  new Date(month).toLocaleDateString(getLocale(), {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const changeClass = (change: number) =>
+  change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "";
+
+const formatChange = (change: number) =>
+  `${change > 0 ? "+" : ""}${formatCurrency(change)}`;
+
+export function NetWorthChart({
+  months = 12,
+  className = "",
+}: NetWorthChartProps) {
+  const { t } = useLanguage();
+  const [data, setData] = useState<NetWorthMonth[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Keep this month's snapshot current before reading the history
+        const { error: snapshotError } = await recordNetWorthSnapshot();
+        if (snapshotError) {
+          console.error("Error recording net worth snapshot:", snapshotError);
+        }
+
+        const { data, error } = await getNetWorthHistory(months);
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        setData(data || []);
+      } catch (err) {
+        console.error("Error fetching net worth data:", err);
+        setError(t("analytics.errors.netWorth"));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [months, t]);
+
+  // Custom tooltip
+  interface TooltipProps {
+    active?: boolean;
+    payload?: Array<{
+      value: number;
+      name: string;
+      color: string;
+    }>;
+    label?: string;
+  }
+
+  const CustomTooltip = ({ active, payload, label }: TooltipProps) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white p-3 shadow-md rounded-md border border-gray-200">
+          <p className="font-medium">{label}</p>
+          {payload.map((entry) => (
+            <p key={entry.name} style={{ color: entry.color }}>
+              {t("analytics.valueLine", {
+                label: entry.name,
+                value: formatCurrency(entry.value),
+              })}
+            </p>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
+        <p>{t("analytics.netWorth.noData")}</p>
+      </div>
+    );
+  }
+
+  const chartData = data.map((entry) => ({
+    ...entry,
+    displayMonth: displayMonth(entry.month),
+  }));
+  const latest = data[data.length - 1];
+  const types = ACCOUNT_TYPES.filter(
+    (type) =>
+      latest.byType[type] !== undefined ||
+      latest.changeByType[type] !== undefined
+  );
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-baseline gap-3 mb-4">
+        <span className="text-3xl font-bold">
+          {formatCurrency(latest.netWorth)}
+        </span>
+        {latest.change !== null && (
+          <span className={`text-sm ${changeClass(latest.change)}`}>
+            {t("analytics.netWorth.sinceLastMonth", {
+              amount: formatChange(latest.change),
+            })}
+          </span>
+        )}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="displayMonth" tick={{ fontSize: 12 }} />
+            <YAxis
+              tickFormatter={(value) =>
+                formatCurrency(value, { compact: true })
+              }
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="netWorth"
+              name={t("analytics.netWorth.netWorth")}
+              stroke="#14B8A6"
+              activeDot={{ r: 8 }}
+              strokeWidth={3}
+            />
+            <Line
+              type="monotone"
+              dataKey="assets"
+              name={t("analytics.netWorth.assets")}
+              stroke="#10B981"
+              strokeWidth={2}
+            />
+            <Line
+              type="monotone"
+              dataKey="liabilities"
+              name={t("analytics.netWorth.liabilities")}
+              stroke="#EF4444"
+              strokeWidth={2}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <Table className="mt-4">
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("analytics.netWorth.accountType")}</TableHead>
+            <TableHead className="text-right">
+              {displayMonth(latest.month)}
+            </TableHead>
+            <TableHead className="text-right">
+              {t("analytics.netWorth.monthOverMonth")}
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {types.map((type) => {
+            const change = latest.changeByType[type];
+            return (
+              <TableRow key={type}>
+                <TableCell>{t(`accounts.types.${type}`)}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(latest.byType[type] || 0)}
+                </TableCell>
+                <TableCell
+                  className={`text-right ${
+                    change !== undefined ? changeClass(change) : ""
+                  }`}
+                >
+                  {change !== undefined ? formatChange(change) : "—"}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface SavingsRateChartProps {
   startDate: string;
@@ -28,6 +29,8 @@ export function SavingsRateChart({
   endDate,
   className = "",
 }: SavingsRateChartProps) {
+  const { t } = useLanguage();
+
   interface SavingsRateData {
     name: string;
     savingsRate: number;
@@ -77,14 +80,14 @@ export function SavingsRateChart({
         setData(savingsRateData);
       } catch (err) {
         console.error("Error fetching savings rate data:", err);
-        setError("Failed to load savings rate data");
+        setError(t("analytics.errors.savingsRate"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, [startDate, endDate]);
+  }, [startDate, endDate, t]);
 
   // Custom tooltip
   interface TooltipProps {
@@ -102,16 +105,28 @@ export function SavingsRateChart({
         <div className="bg-background border rounded-md shadow-sm p-2 text-sm">
           <p className="font-medium">{label}</p>
           <p className="text-muted-foreground">
-            Income: {formatCurrency(item.income)}
+            {t("analytics.valueLine", {
+              label: t("analytics.income"),
+              value: formatCurrency(item.income),
+            })}
           </p>
           <p className="text-muted-foreground">
-            Expenses: {formatCurrency(item.expenses)}
+            {t("analytics.valueLine", {
+              label: t("analytics.expenses"),
+              value: formatCurrency(item.expenses),
+            })}
           </p>
           <p className="text-muted-foreground">
-            Savings: {formatCurrency(item.savings)}
+            {t("analytics.valueLine", {
+              label: t("analytics.savings"),
+              value: formatCurrency(item.savings),
+            })}
           </p>
           <p className={`font-medium ${getSavingsRateColor(item.savingsRate)}`}>
-            Savings Rate: {item.savingsRate}%
+            {t("analytics.valueLine", {
+              label: t("analytics.savingsRate"),
+              value: `${item.savingsRate}%`,
+            })}
           </p>
         </div>
       );
@@ -147,11 +162,13 @@ export function SavingsRateChart({
     return (
       <Card className={className}>
         <CardHeader>
-          <CardTitle className="text-lg">Savings Rate Trend</CardTitle>
+          <CardTitle className="text-lg">
+            {t("analytics.savingsRateTrend")}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
-            <p>No transaction data available for the selected period.</p>
+            <p>{t("analytics.noTransactionData")}</p>
           </div>
         </CardContent>
       </Card>
@@ -170,7 +187,9 @@ export function SavingsRateChart({
   return (
     <Card className={className}>
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg">Savings Rate Trend</CardTitle>
+        <CardTitle className="text-lg">
+          {t("analytics.savingsRateTrend")}
+        </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="flex justify-between items-center mb-4">
@@ -178,17 +197,17 @@ export function SavingsRateChart({
             variant="outline"
             className={`px-2 py-1 ${getSavingsRateColor(averageSavingsRate)}`}
           >
-            Average Savings Rate: {averageSavingsRate}%
+            {t("analytics.averageSavingsRate", { rate: averageSavingsRate })}
           </Badge>
           <div className="flex gap-2">
             <Badge variant="outline" className="bg-green-50 border-green-200">
-              Good: ≥20%
+              {t("analytics.goodRange")}
             </Badge>
             <Badge variant="outline" className="bg-yellow-50 border-yellow-200">
-              Fair: 0-20%
+              {t("analytics.fairRange")}
             </Badge>
             <Badge variant="outline" className="bg-red-50 border-red-200">
-              Poor: &lt;0%
+              {t("analytics.poorRange")}
             </Badge>
           </div>
         </div>
@@ -211,18 +230,18 @@ export function SavingsRateChart({
                 y={20}
                 stroke="green"
                 strokeDasharray="3 3"
-                label="Good"
+                label={t("analytics.good")}
               />
               <ReferenceLine
                 y={0}
                 stroke="red"
                 strokeDasharray="3 3"
-                label="Minimum"
+                label={t("analytics.minimum")}
               />
               <Line
                 type="monotone"
                 dataKey="savingsRate"
-                name="Savings Rate"
+                name={t("analytics.savingsRate")}
                 stroke="#8884d8"
                 activeDot={{ r: 8 }}
                 strokeWidth={2}
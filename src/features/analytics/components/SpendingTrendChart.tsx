@@ -14,6 +14,8 @@ import { formatCurrency } from "../../../utils/formatters";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface SpendingTrendChartProps {
   startDate: string;
@@ -34,6 +36,7 @@ export function SpendingTrendChart({
   groupBy = "month",
   className = "",
 }: SpendingTrendChartProps) {
+  const { t } = useLanguage();
   const [data, setData] = useState<TrendData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -62,13 +65,13 @@ export function SpendingTrendChart({
           if (groupBy === "month") {
             const [year, month] = item.date.split(" ");
             const date = new Date(parseInt(year), parseInt(month) - 1, 1);
-            displayDate = date.toLocaleDateString("en-US", {
+            displayDate = date.toLocaleDateString(getLocale(), {
               month: "short",
               year: "numeric",
             });
           } else {
             const date = new Date(item.date);
-            displayDate = date.toLocaleDateString("en-US", {
+            displayDate = date.toLocaleDateString(getLocale(), {
               month: "short",
               day: "numeric",
             });
@@ -83,14 +86,14 @@ export function SpendingTrendChart({
         setData(formattedData);
       } catch (err) {
         console.error("Error fetching spending trend data:", err);
-        setError("Failed to load spending trend data");
+        setError(t("analytics.errors.spendingTrend"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, [startDate, endDate, groupBy]);
+  }, [startDate, endDate, groupBy, t]);
 
   // Custom tooltip
   interface TooltipProps {
@@ -108,13 +111,22 @@ export function SpendingTrendChart({
         <div className="bg-white p-3 shadow-md rounded-md border border-gray-200">
           <p className="font-medium">{label}</p>
           <p className="text-green-600">
-            Income: {formatCurrency(payload[0].value)}
+            {t("analytics.valueLine", {
+              label: t("analytics.income"),
+              value: formatCurrency(payload[0].value),
+            })}
           </p>
           <p className="text-red-600">
-            Expenses: {formatCurrency(payload[1].value)}
+            {t("analytics.valueLine", {
+              label: t("analytics.expenses"),
+              value: formatCurrency(payload[1].value),
+            })}
           </p>
           <p className="text-gray-700 border-t border-gray-200 mt-2 pt-2">
-            Net: {formatCurrency(payload[0].value - payload[1].value)}
+            {t("analytics.valueLine", {
+              label: t("analytics.net"),
+              value: formatCurrency(payload[0].value - payload[1].value),
+            })}
           </p>
         </div>
       );
@@ -144,12 +156,14 @@ export function SpendingTrendChart({
       <Card className={className}>
         <CardHeader>
           <CardTitle className="text-lg">
-            Spending Trend ({groupBy === "month" ? "Monthly" : "Daily"})
+            {groupBy === "month"
+              ? t("analytics.monthlyTrend")
+              : t("analytics.dailyTrend")}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="p-4 text-center text-muted-foreground h-64 flex items-center justify-center">
-            <p>No transaction data available for the selected period.</p>
+            <p>{t("analytics.noTransactionData")}</p>
           </div>
         </CardContent>
       </Card>
@@ -160,7 +174,9 @@ export function SpendingTrendChart({
     <Card className={className}>
       <CardHeader className="pb-3">
         <CardTitle className="text-lg">
-          Spending Trend ({groupBy === "month" ? "Monthly" : "Daily"})
+          {groupBy === "month"
+            ? t("analytics.monthlyTrend")
+            : t("analytics.dailyTrend")}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -182,7 +198,7 @@ export function SpendingTrendChart({
               <Line
                 type="monotone"
                 dataKey="income"
-                name="Income"
+                name={t("analytics.income")}
                 stroke="#10B981"
                 activeDot={{ r: 8 }}
                 strokeWidth={2}
@@ -190,7 +206,7 @@ export function SpendingTrendChart({
               <Line
                 type="monotone"
                 dataKey="expenses"
-                name="Expenses"
+                name={t("analytics.expenses")}
                 stroke="#EF4444"
                 strokeWidth={2}
               />
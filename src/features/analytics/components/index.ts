@@ -4,3 +4,5 @@ export * from './IncomeExpenseChart';
 export * from './SpendingTrendChart';
 export * from './BudgetComparisonChart';
 export * from './SavingsRateChart';
+export * from './CashFlowForecastChart';
+export * from './NetWorthChart';
@@ -14,9 +14,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
+
+const CONFIRM_PHRASE = "DELETE MY ACCOUNT";
 
 export function AccountDeletionForm() {
   const { user, logout } = useAuth();
+  const { t } = useLanguage();
   const [confirmText, setConfirmText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,8 +32,8 @@ export function AccountDeletionForm() {
     if (!user) return;
 
     // Validate confirmation text
-    if (confirmText !== "DELETE MY ACCOUNT") {
-      setError("Please type DELETE MY ACCOUNT to confirm");
+    if (confirmText !== CONFIRM_PHRASE) {
+      setError(t("settings.deletion.confirmError", { phrase: CONFIRM_PHRASE }));
       return;
     }
 
@@ -59,7 +63,7 @@ export function AccountDeletionForm() {
       navigate("/", { replace: true });
     } catch (err) {
       console.error("Error deleting account:", err);
-      setError("Failed to delete account. Please contact support.");
+      setError(t("settings.deletion.error"));
     } finally {
       setIsLoading(false);
     }
@@ -68,11 +72,10 @@ export function AccountDeletionForm() {
   return (
     <Card className="border-destructive/20">
       <CardHeader>
-        <CardTitle className="text-destructive">Delete Account</CardTitle>
-        <CardDescription>
-          This action is permanent and cannot be undone. All your data will be
-          permanently deleted.
-        </CardDescription>
+        <CardTitle className="text-destructive">
+          {t("settings.deletion.title")}
+        </CardTitle>
+        <CardDescription>{t("settings.deletion.description")}</CardDescription>
       </CardHeader>
       <CardContent>
         {error && (
@@ -85,7 +88,7 @@ export function AccountDeletionForm() {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="confirmText" className="text-destructive/90">
-              To confirm, type "DELETE MY ACCOUNT" below
+              {t("settings.deletion.confirmLabel", { phrase: CONFIRM_PHRASE })}
             </Label>
             <Input
               id="confirmText"
@@ -101,9 +104,9 @@ export function AccountDeletionForm() {
             type="submit"
             variant="destructive"
             className="w-full mt-4"
-            disabled={isLoading || confirmText !== "DELETE MY ACCOUNT"}
+            disabled={isLoading || confirmText !== CONFIRM_PHRASE}
           >
-            {isLoading ? "Deleting..." : "Permanently Delete My Account"}
+            {isLoading ? t("common.deleting") : t("settings.deletion.submit")}
           </Button>
         </form>
       </CardContent>
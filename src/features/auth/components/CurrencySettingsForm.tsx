@@ -27,6 +27,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { useLanguage } from "../../../providers/languageUtils";
+import { getCurrencyName } from "../../../i18n";
 
 // Currency options
 const CURRENCIES = [
@@ -49,6 +51,7 @@ const CURRENCIES = [
 
 export function CurrencySettingsForm() {
   const { user, userSettings, refreshUserData } = useAuth();
+  const { t } = useLanguage();
   const [currency, setCurrency] = useState("USD");
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{
@@ -80,7 +83,7 @@ export function CurrencySettingsForm() {
         setMessage({ text: error.message, type: "error" });
       } else {
         setMessage({
-          text: "Currency settings updated successfully",
+          text: t("settings.currency.updated"),
           type: "success",
         });
         // Refresh user data to update the UI
@@ -89,7 +92,7 @@ export function CurrencySettingsForm() {
         }
       }
     } catch (err) {
-      setMessage({ text: "An unexpected error occurred", type: "error" });
+      setMessage({ text: t("common.unexpectedError"), type: "error" });
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -104,11 +107,9 @@ export function CurrencySettingsForm() {
       <CardHeader>
         <CardTitle className="flex items-center">
           <CreditCard className="mr-2 h-5 w-5 text-violet-500" />
-          Currency Settings
+          {t("settings.currency.title")}
         </CardTitle>
-        <CardDescription>
-          Choose your preferred currency for the application
-        </CardDescription>
+        <CardDescription>{t("settings.currency.description")}</CardDescription>
       </CardHeader>
       <CardContent>
         {message && (
@@ -127,42 +128,49 @@ export function CurrencySettingsForm() {
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="currency">Select Currency</Label>
+            <Label htmlFor="currency">{t("settings.currency.select")}</Label>
             <Select value={currency} onValueChange={setCurrency}>
               <SelectTrigger id="currency">
-                <SelectValue placeholder="Select currency" />
+                <SelectValue placeholder={t("common.selectCurrency")} />
               </SelectTrigger>
               <SelectContent>
                 {CURRENCIES.map((curr) => (
                   <SelectItem key={curr.code} value={curr.code}>
-                    {curr.symbol} - {curr.name} ({curr.code})
+                    {curr.symbol} - {getCurrencyName(curr.code)} ({curr.code})
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              This will be used for displaying all monetary values throughout
-              the application
+              {t("settings.currency.help")}
             </p>
           </div>
 
           <div className="border rounded-md p-4 bg-muted/50">
-            <h3 className="text-sm font-medium mb-2">Currency Preview</h3>
+            <h3 className="text-sm font-medium mb-2">
+              {t("settings.currency.preview")}
+            </h3>
             <div className="space-y-2">
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Symbol:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.currency.symbol")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedCurrency.symbol}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Code:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.currency.code")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedCurrency.code}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Format:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.currency.format")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedCurrency.format}
                 </span>
@@ -174,21 +182,21 @@ export function CurrencySettingsForm() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Example</TableHead>
-                  <TableHead>Formatted Value</TableHead>
+                  <TableHead>{t("settings.currency.example")}</TableHead>
+                  <TableHead>{t("settings.currency.formattedValue")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 <TableRow>
-                  <TableCell>Positive Amount</TableCell>
+                  <TableCell>{t("settings.currency.positive")}</TableCell>
                   <TableCell>{selectedCurrency.symbol}1,234.56</TableCell>
                 </TableRow>
                 <TableRow>
-                  <TableCell>Negative Amount</TableCell>
+                  <TableCell>{t("settings.currency.negative")}</TableCell>
                   <TableCell>-{selectedCurrency.symbol}1,234.56</TableCell>
                 </TableRow>
                 <TableRow>
-                  <TableCell>Zero Amount</TableCell>
+                  <TableCell>{t("settings.currency.zero")}</TableCell>
                   <TableCell>{selectedCurrency.symbol}0.00</TableCell>
                 </TableRow>
               </TableBody>
@@ -200,7 +208,7 @@ export function CurrencySettingsForm() {
             className="w-full bg-violet-600 hover:bg-violet-700"
             disabled={isLoading}
           >
-            {isLoading ? "Saving..." : "Save Currency Settings"}
+            {isLoading ? t("common.saving") : t("settings.currency.submit")}
           </Button>
         </form>
       </CardContent>
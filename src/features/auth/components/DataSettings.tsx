@@ -0,0 +1,330 @@
+import { useState, useRef } from "react";
+import { useAuth } from "../../../state/useAuth";
+import {
+  ARCHIVE_SECTIONS,
+  exportDataArchive,
+  isDataArchive,
+  restoreDataArchive,
+  DataArchive,
+  ArchiveSection,
+} from "../../../api/supabase/dataArchive";
+import { TransactionFilters } from "../../transactions/components/TransactionFilters";
+import { getCurrentTransactionFilters } from "../../transactions/utils/transactionFilters";
+import {
+  buildEntityCsv,
+  buildTransactionsOfx,
+  downloadFile,
+  EXPORT_ENTITIES,
+  ExportEntity,
+} from "../../transactions/utils/dataExport";
+import { formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertCircle,
+  Database,
+  Download,
+  FileJson,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLanguage } from "../../../providers/languageUtils";
+import { translate } from "../../../i18n";
+
+const describeCounts = (counts: Record<ArchiveSection, number>) =>
+  ARCHIVE_SECTIONS.filter((section) => counts[section] > 0)
+    .map((section) =>
+      translate(`settings.data.counts.${section}`, { count: counts[section] })
+    )
+    .join(", ");
+
+export function DataSettings() {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filters, setFilters] = useState<TransactionFilters>(
+    getCurrentTransactionFilters
+  );
+  const [entity, setEntity] = useState<ExportEntity>("transactions");
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Archive read from a file, waiting for the user to confirm the restore
+  const [pendingArchive, setPendingArchive] = useState<DataArchive | null>(
+    null
+  );
+
+  const today = new Date().toISOString().split("T")[0];
+
+  const handleExport = async (format: "csv" | "ofx" | "json") => {
+    try {
+      setIsExporting(true);
+      setError(null);
+
+      const { data: archive, error } = await exportDataArchive();
+      if (error || !archive) throw error;
+
+      if (format === "json") {
+        downloadFile(
+          JSON.stringify(archive, null, 2),
+          `finance-backup-${today}.json`,
+          "application/json"
+        );
+      } else if (format === "ofx") {
+        downloadFile(
+          buildTransactionsOfx(archive, filters),
+          `transactions-${today}.ofx`,
+          "application/x-ofx"
+        );
+      } else {
+        downloadFile(
+          buildEntityCsv(entity, archive, filters),
+          `${entity.replace(/_/g, "-")}-${today}.csv`,
+          "text/csv;charset=utf-8"
+        );
+      }
+    } catch (err) {
+      console.error("Error exporting data:", err);
+      setError(t("settings.data.exportError"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setError(null);
+      const archive = JSON.parse(await file.text());
+      if (!isDataArchive(archive)) {
+        setError(t("settings.data.invalidFile"));
+        return;
+      }
+
+      setPendingArchive(archive);
+    } catch (err) {
+      console.error("Error reading backup file:", err);
+      setError(t("settings.data.unreadableFile"));
+    }
+  };
+
+  const handleRestoreConfirm = async () => {
+    if (!user || !pendingArchive) return;
+
+    const archive = pendingArchive;
+    setPendingArchive(null);
+    setIsRestoring(true);
+    setError(null);
+
+    const { data: summary, error } = await restoreDataArchive(user.id, archive);
+    setIsRestoring(false);
+
+    if (error) {
+      setError(
+        summary && describeCounts(summary)
+          ? t("settings.data.partial", { contents: describeCounts(summary) })
+          : t("settings.data.restoreError")
+      );
+      showErrorToast(t("settings.data.restoreFailed"));
+      return;
+    }
+
+    showToast({
+      type: "success",
+      title: t("settings.data.restored"),
+      description: summary
+        ? describeCounts(summary) || t("settings.data.nothingNew")
+        : undefined,
+      duration: 5000,
+    });
+  };
+
+  const pendingCounts = pendingArchive
+    ? (Object.fromEntries(
+        ARCHIVE_SECTIONS.map((section) => [
+          section,
+          pendingArchive[section].length,
+        ])
+      ) as Record<ArchiveSection, number>)
+    : null;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="border-t-4 border-t-violet-500">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Download className="mr-2 h-5 w-5 text-violet-500" />
+            {t("settings.data.exportTitle")}
+          </CardTitle>
+          <CardDescription>
+            {t("settings.data.exportDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("settings.data.filters")}</Label>
+            <div className="flex items-center gap-2">
+              <TransactionFilters {...filters} onChange={setFilters} />
+              <span className="text-sm text-muted-foreground">
+                {t("settings.data.filtersHelp")}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="export-entity">
+                {t("settings.data.csvContents")}
+              </Label>
+              <Select
+                value={entity}
+                onValueChange={(value) => setEntity(value as ExportEntity)}
+              >
+                <SelectTrigger id="export-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_ENTITIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(option.label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              className="bg-violet-600 hover:bg-violet-700"
+              disabled={isExporting}
+              onClick={() => handleExport("csv")}
+            >
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              {t("settings.data.downloadCsv")}
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isExporting}
+              onClick={() => handleExport("ofx")}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {t("settings.data.downloadOfx")}
+            </Button>
+            <Button
+              variant="outline"
+              disabled={isExporting}
+              onClick={() => handleExport("json")}
+            >
+              <FileJson className="mr-2 h-4 w-4" />
+              {t("settings.data.downloadJson")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-t-4 border-t-violet-500">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Database className="mr-2 h-5 w-5 text-violet-500" />
+            {t("settings.data.restoreTitle")}
+          </CardTitle>
+          <CardDescription>
+            {t("settings.data.restoreDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            disabled={isRestoring}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isRestoring ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {isRestoring
+              ? t("settings.data.restoring")
+              : t("settings.data.restoreButton")}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!pendingArchive}
+        onOpenChange={(open) => !open && setPendingArchive(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("settings.data.restoreTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingArchive &&
+                t("settings.data.confirm", {
+                  date: formatDate(pendingArchive.exported_at, "long"),
+                  contents:
+                    (pendingCounts && describeCounts(pendingCounts)) ||
+                    t("settings.data.noRecords"),
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreConfirm}>
+              {t("settings.data.restore")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
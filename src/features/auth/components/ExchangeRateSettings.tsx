@@ -0,0 +1,408 @@
+import { useState, useEffect, useRef } from "react";
+import { useAuth } from "../../../state/useAuth";
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  importExchangeRates,
+  saveExchangeRate,
+  ExchangeRate,
+  ExchangeRateInsert,
+} from "../../../api/supabase/exchangeRates";
+import {
+  detectDateOrder,
+  parseCsv,
+  parseImportAmount,
+  parseImportDate,
+} from "../../transactions/utils/statementImport";
+import { CURRENCIES } from "../../../utils/constants";
+import { formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertCircle,
+  ArrowRightLeft,
+  Loader2,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLanguage } from "../../../providers/languageUtils";
+import { getCurrencyName, translate } from "../../../i18n";
+
+interface ParsedRates {
+  rates: ExchangeRateInsert[];
+  skipped: number;
+}
+
+/**
+ * Read rates from a CSV with date, currency and rate columns and an optional
+ * base column; rows without a base are quoted in the user's base currency
+ */
+function parseExchangeRateCsv(
+  content: string,
+  userId: string,
+  baseCurrency: string
+): ParsedRates {
+  const { columns, rows } = parseCsv(content);
+  const find = (...names: string[]) =>
+    columns.findIndex((column) => names.includes(column.toLowerCase()));
+
+  const dateIndex = find("date", "rate_date");
+  const currencyIndex = find("currency", "code");
+  const rateIndex = find("rate", "exchange_rate");
+  const baseIndex = find("base", "base_currency");
+
+  if (dateIndex < 0 || currencyIndex < 0 || rateIndex < 0) {
+    throw new Error(translate("settings.exchangeRates.missingColumns"));
+  }
+
+  const dateOrder = detectDateOrder(rows.map((row) => row[dateIndex] || ""));
+  const rates: ExchangeRateInsert[] = [];
+  let skipped = 0;
+
+  rows.forEach((row) => {
+    const rateDate = parseImportDate(row[dateIndex] || "", dateOrder);
+    const currency = (row[currencyIndex] || "").toUpperCase();
+    const base =
+      baseIndex >= 0 && row[baseIndex]
+        ? row[baseIndex].toUpperCase()
+        : baseCurrency;
+    // Rates commonly have more than two decimals, so only "," is ambiguous
+    const rawRate = row[rateIndex] || "";
+    const rate = parseImportAmount(
+      rawRate,
+      rawRate.includes(",") && !rawRate.includes(".") ? "," : "."
+    );
+
+    if (
+      !rateDate ||
+      !/^[A-Z]{3}$/.test(currency) ||
+      !/^[A-Z]{3}$/.test(base) ||
+      currency === base ||
+      rate === null ||
+      rate <= 0
+    ) {
+      skipped++;
+      return;
+    }
+
+    rates.push({
+      user_id: userId,
+      base_currency: base,
+      currency,
+      rate,
+      rate_date: rateDate,
+    });
+  });
+
+  return { rates, skipped };
+}
+
+export function ExchangeRateSettings() {
+  const { user, userSettings } = useAuth();
+  const { t } = useLanguage();
+  const baseCurrency = userSettings?.currency || "USD";
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the rates after a change
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // New rate
+  const [rateDate, setRateDate] = useState(
+    new Date().toISOString().split("T")[0]
+  );
+  const [currency, setCurrency] = useState("none");
+  const [rate, setRate] = useState("");
+
+  useEffect(() => {
+    const loadRates = async () => {
+      setIsLoading(true);
+
+      try {
+        const { data, error } = await getExchangeRates();
+        if (error) throw error;
+
+        setRates(data || []);
+      } catch (err) {
+        console.error("Error loading exchange rates:", err);
+        setError(t("settings.exchangeRates.loadError"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRates();
+  }, [reloadKey, t]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const value = parseFloat(rate);
+    if (currency === "none") {
+      setError(t("settings.exchangeRates.selectCurrencyError"));
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      setError(t("settings.exchangeRates.rateError"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const { error } = await saveExchangeRate({
+        user_id: user.id,
+        base_currency: baseCurrency,
+        currency,
+        rate: value,
+        rate_date: rateDate,
+      });
+      if (error) throw error;
+
+      setRate("");
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Error saving exchange rate:", err);
+      setError(t("settings.exchangeRates.saveError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await deleteExchangeRate(id);
+    if (error) {
+      console.error("Error deleting exchange rate:", error);
+      showErrorToast(t("settings.exchangeRates.deleteError"));
+      return;
+    }
+
+    setRates((current) => current.filter((r) => r.id !== id));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const { rates: imported, skipped } = parseExchangeRateCsv(
+        await file.text(),
+        user.id,
+        baseCurrency
+      );
+      if (imported.length === 0) {
+        setError(t("settings.exchangeRates.noRatesFound"));
+        return;
+      }
+
+      const { error } = await importExchangeRates(imported);
+      if (error) throw error;
+
+      showToast({
+        type: "success",
+        title: t("settings.exchangeRates.imported"),
+        description:
+          skipped > 0
+            ? `${t("settings.exchangeRates.importedCount", {
+                count: imported.length,
+              })}, ${t("settings.exchangeRates.skippedCount", {
+                count: skipped,
+              })}`
+            : t("settings.exchangeRates.importedCount", {
+                count: imported.length,
+              }),
+        duration: 3000,
+      });
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Error importing exchange rates:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : t("settings.exchangeRates.importError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-t-4 border-t-violet-500">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ArrowRightLeft className="mr-2 h-5 w-5 text-violet-500" />
+          {t("settings.exchangeRates.title")}
+        </CardTitle>
+        <CardDescription>
+          {t("settings.exchangeRates.description", { currency: baseCurrency })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">{t("common.date")}</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-currency">{t("common.currency")}</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="rate-currency">
+                  <SelectValue placeholder={t("common.selectCurrency")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">
+                    {t("common.selectCurrency")}
+                  </SelectItem>
+                  {CURRENCIES.filter((c) => c.code !== baseCurrency).map(
+                    (curr) => (
+                      <SelectItem key={curr.code} value={curr.code}>
+                        {curr.code} - {getCurrencyName(curr.code)}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">
+                {t("settings.exchangeRates.rateLabel", {
+                  currency: baseCurrency,
+                })}
+              </Label>
+              <Input
+                id="rate-value"
+                type="number"
+                step="any"
+                min="0"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="0.0000"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="submit"
+              className="bg-violet-600 hover:bg-violet-700"
+              disabled={isSaving}
+            >
+              {t("settings.exchangeRates.add")}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSaving}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {t("settings.exchangeRates.import")}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("settings.exchangeRates.importHelp", { currency: baseCurrency })}
+          </p>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rates.length === 0 ? (
+          <div className="p-4 text-center text-muted-foreground">
+            {t("settings.exchangeRates.empty")}
+          </div>
+        ) : (
+          <div className="border rounded-md overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("settings.exchangeRates.rate")}</TableHead>
+                  <TableHead className="text-right">
+                    {t("common.actions")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell>{formatDate(r.rate_date)}</TableCell>
+                    <TableCell>
+                      1 {r.currency} = {Number(r.rate).toFixed(4)}{" "}
+                      {r.base_currency}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t("common.delete")}
+                        onClick={() => handleDelete(r.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "../../../state/useAuth";
 import { updateUserSettings } from "../../../api/supabase/auth";
-// Language provider import removed
+import { useLanguage } from "../../../providers/languageUtils";
+import { isLanguage, Language, LANGUAGES } from "../../../i18n";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -21,28 +22,21 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-// Only show English for now
-const LANGUAGE_OPTIONS = [
-  {
-    code: "en",
-    name: "EN",
-    flag: "🇬🇧",
-    native: "English",
-  },
-];
-
-// Commented out for future use
-// const LANGUAGE_OPTIONS = Object.entries(LANGUAGES).map(([code, details]) => ({
-//   code,
-//   name: code.toUpperCase(),
-//   flag: details.flag,
-//   native: details.nativeName,
-// }));
+const LANGUAGE_OPTIONS = (Object.keys(LANGUAGES) as Language[]).map((code) => ({
+  code,
+  name: code.toUpperCase(),
+  flag: LANGUAGES[code].flag,
+  native: LANGUAGES[code].nativeName,
+}));
 
 export function LanguageSettingsForm() {
   const { user, userSettings, refreshUserData } = useAuth();
-  // Language hooks removed
-  const [language, setLanguage] = useState("en");
+  const {
+    language: currentLanguage,
+    setLanguage: setAppLanguage,
+    t,
+  } = useLanguage();
+  const [language, setLanguage] = useState<Language>(currentLanguage);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{
     text: string;
@@ -52,7 +46,9 @@ export function LanguageSettingsForm() {
   // Initialize form with user settings
   useEffect(() => {
     if (userSettings) {
-      setLanguage(userSettings.language || "en");
+      setLanguage(
+        isLanguage(userSettings.language) ? userSettings.language : "en"
+      );
     }
   }, [userSettings]);
 
@@ -73,7 +69,7 @@ export function LanguageSettingsForm() {
         setMessage({ text: error.message, type: "error" });
       } else {
         setMessage({
-          text: "Language settings updated successfully",
+          text: t("settings.language.updated"),
           type: "success",
         });
         // Refresh user data to update the UI
@@ -81,10 +77,11 @@ export function LanguageSettingsForm() {
           await refreshUserData();
         }
 
-        // Language change removed
+        // Switch the interface right away
+        setAppLanguage(language);
       }
     } catch (err) {
-      setMessage({ text: "An unexpected error occurred", type: "error" });
+      setMessage({ text: t("common.unexpectedError"), type: "error" });
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -97,10 +94,8 @@ export function LanguageSettingsForm() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Language Settings</CardTitle>
-        <CardDescription>
-          Choose your preferred language for the application
-        </CardDescription>
+        <CardTitle>{t("settings.language.title")}</CardTitle>
+        <CardDescription>{t("settings.language.description")}</CardDescription>
       </CardHeader>
       <CardContent>
         {message && (
@@ -119,10 +114,13 @@ export function LanguageSettingsForm() {
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="language">Select Language</Label>
-            <Select value={language} onValueChange={setLanguage}>
+            <Label htmlFor="language">{t("settings.language.select")}</Label>
+            <Select
+              value={language}
+              onValueChange={(value) => setLanguage(value as Language)}
+            >
               <SelectTrigger id="language">
-                <SelectValue placeholder="Select language" />
+                <SelectValue placeholder={t("settings.language.select")} />
               </SelectTrigger>
               <SelectContent>
                 {LANGUAGE_OPTIONS.map((lang) => (
@@ -139,27 +137,35 @@ export function LanguageSettingsForm() {
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              This will change the language used throughout the application
+              {t("settings.language.help")}
             </p>
           </div>
 
           <div className="border rounded-md p-4 bg-muted/50">
-            <h3 className="text-sm font-medium mb-2">Language Preview</h3>
+            <h3 className="text-sm font-medium mb-2">
+              {t("settings.language.preview")}
+            </h3>
             <div className="space-y-2">
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Flag:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.language.flag")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedLanguage.flag}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Name:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.language.name")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedLanguage.name}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-sm text-muted-foreground">Native:</span>
+                <span className="text-sm text-muted-foreground">
+                  {t("settings.language.native")}
+                </span>
                 <span className="text-sm font-medium">
                   {selectedLanguage.native}
                 </span>
@@ -168,7 +174,7 @@ export function LanguageSettingsForm() {
           </div>
 
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Saving..." : "Save Language Settings"}
+            {isLoading ? t("common.saving") : t("settings.language.submit")}
           </Button>
         </form>
       </CardContent>
@@ -13,6 +13,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function LoginForm() {
   const [email, setEmail] = useState("");
@@ -21,6 +22,7 @@ export function LoginForm() {
   const [error, setError] = useState<string | null>(null);
 
   const { login } = useAuth();
+  const { t } = useLanguage();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -37,7 +39,7 @@ export function LoginForm() {
         navigate("/dashboard");
       }
     } catch (err) {
-      setError("An unexpected error occurred. Please try again.");
+      setError(t("auth.unexpectedError"));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -47,8 +49,8 @@ export function LoginForm() {
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
-        <CardTitle className="text-2xl">Welcome back</CardTitle>
-        <CardDescription>Sign in to your account</CardDescription>
+        <CardTitle className="text-2xl">{t("auth.login.title")}</CardTitle>
+        <CardDescription>{t("auth.login.description")}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {error && (
@@ -60,7 +62,7 @@ export function LoginForm() {
 
         <form className="space-y-4" onSubmit={handleSubmit}>
           <div className="space-y-2">
-            <Label htmlFor="email">Email address</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <Input
               id="email"
               name="email"
@@ -74,12 +76,12 @@ export function LoginForm() {
 
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="password">{t("auth.password")}</Label>
               <Link
                 to="/forgot-password"
                 className="text-sm font-medium text-primary hover:underline"
               >
-                Forgot password?
+                {t("auth.login.forgotPassword")}
               </Link>
             </div>
             <Input
@@ -94,17 +96,17 @@ export function LoginForm() {
           </div>
 
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Signing in..." : "Sign in"}
+            {isLoading ? t("auth.login.signingIn") : t("auth.signIn")}
           </Button>
 
           <div className="text-center mt-4">
             <p className="text-sm text-muted-foreground">
-              Don't have an account?{" "}
+              {t("auth.login.noAccount")}{" "}
               <Link
                 to="/register"
                 className="font-medium text-primary hover:underline"
               >
-                Register
+                {t("auth.login.register")}
               </Link>
             </p>
           </div>
@@ -1,6 +1,12 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "../../../state/useAuth";
 import { updateUserSettings } from "../../../api/supabase/auth";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  NotificationPreferenceType,
+  parseNotificationPreferences,
+} from "../../../api/supabase/notifications";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
@@ -13,48 +19,53 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
+import { TranslationKey } from "../../../i18n";
 
 // Notification types
-const NOTIFICATION_TYPES = [
+const NOTIFICATION_TYPES: {
+  id: NotificationPreferenceType;
+  name: TranslationKey;
+  description: TranslationKey;
+}[] = [
   {
     id: "bill_due",
-    name: "Bill Due Reminders",
-    description: "Get notified when bills are due",
+    name: "settings.notifications.billDue",
+    description: "settings.notifications.billDueDescription",
   },
   {
     id: "budget_alert",
-    name: "Budget Alerts",
-    description: "Get notified when you're close to exceeding your budget",
+    name: "settings.notifications.budgetAlert",
+    description: "settings.notifications.budgetAlertDescription",
   },
   {
     id: "goal_progress",
-    name: "Goal Progress",
-    description: "Get notified about your savings goal progress",
+    name: "settings.notifications.goalProgress",
+    description: "settings.notifications.goalProgressDescription",
+  },
+  {
+    id: "group_invitation",
+    name: "settings.notifications.groupInvitation",
+    description: "settings.notifications.groupInvitationDescription",
   },
   {
     id: "transaction_alert",
-    name: "Transaction Alerts",
-    description: "Get notified about new transactions",
+    name: "settings.notifications.transactionAlert",
+    description: "settings.notifications.transactionAlertDescription",
   },
   {
     id: "weekly_summary",
-    name: "Weekly Summary",
-    description: "Get a weekly summary of your finances",
+    name: "settings.notifications.weeklySummary",
+    description: "settings.notifications.weeklySummaryDescription",
   },
 ];
 
 export function NotificationSettingsForm() {
   const { user, userSettings, refreshUserData } = useAuth();
+  const { t } = useLanguage();
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [notificationPreferences, setNotificationPreferences] = useState<
-    Record<string, boolean>
-  >({
-    bill_due: true,
-    budget_alert: true,
-    goal_progress: true,
-    transaction_alert: false,
-    weekly_summary: true,
-  });
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{
     text: string;
@@ -65,9 +76,9 @@ export function NotificationSettingsForm() {
   useEffect(() => {
     if (userSettings) {
       setNotificationsEnabled(userSettings.notification_enabled);
-
-      // In a real app, we would load notification preferences from the database
-      // For now, we'll just use the default values
+      setNotificationPreferences(
+        parseNotificationPreferences(userSettings.notification_preferences)
+      );
     }
   }, [userSettings]);
 
@@ -82,15 +93,14 @@ export function NotificationSettingsForm() {
     try {
       const { error } = await updateUserSettings(user.id, {
         notification_enabled: notificationsEnabled,
-        // In a real app, we would save notification preferences to the database
-        // notification_preferences: notificationPreferences,
+        notification_preferences: notificationPreferences,
       });
 
       if (error) {
         setMessage({ text: error.message, type: "error" });
       } else {
         setMessage({
-          text: "Notification settings updated successfully",
+          text: t("settings.notifications.updated"),
           type: "success",
         });
         // Refresh user data to update the UI
@@ -99,14 +109,14 @@ export function NotificationSettingsForm() {
         }
       }
     } catch (err) {
-      setMessage({ text: "An unexpected error occurred", type: "error" });
+      setMessage({ text: t("common.unexpectedError"), type: "error" });
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const toggleNotificationType = (id: string) => {
+  const toggleNotificationType = (id: NotificationPreferenceType) => {
     setNotificationPreferences((prev) => ({
       ...prev,
       [id]: !prev[id],
@@ -116,8 +126,10 @@ export function NotificationSettingsForm() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Notification Settings</CardTitle>
-        <CardDescription>Manage how you receive notifications</CardDescription>
+        <CardTitle>{t("settings.notifications.title")}</CardTitle>
+        <CardDescription>
+          {t("settings.notifications.description")}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         {message && (
@@ -145,13 +157,15 @@ export function NotificationSettingsForm() {
               htmlFor="notifications-master"
               className="cursor-pointer font-medium"
             >
-              Enable all notifications
+              {t("settings.notifications.enableAll")}
             </Label>
           </div>
 
           {notificationsEnabled && (
             <div className="space-y-4 mt-4 border-t pt-4">
-              <h3 className="text-sm font-medium">Notification Types</h3>
+              <h3 className="text-sm font-medium">
+                {t("settings.notifications.types")}
+              </h3>
 
               <div className="space-y-4">
                 {NOTIFICATION_TYPES.map((type) => (
@@ -167,10 +181,10 @@ export function NotificationSettingsForm() {
                         htmlFor={`notification-${type.id}`}
                         className="cursor-pointer font-medium"
                       >
-                        {type.name}
+                        {t(type.name)}
                       </Label>
                       <p className="text-xs text-muted-foreground">
-                        {type.description}
+                        {t(type.description)}
                       </p>
                     </div>
                   </div>
@@ -180,7 +194,9 @@ export function NotificationSettingsForm() {
           )}
 
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Saving..." : "Save Notification Settings"}
+            {isLoading
+              ? t("common.saving")
+              : t("settings.notifications.submit")}
           </Button>
         </form>
       </CardContent>
@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useNotifications } from "../../../contexts/NotificationContext";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function PasswordChangeForm() {
   const [currentPassword, setCurrentPassword] = useState("");
@@ -18,6 +19,7 @@ export function PasswordChangeForm() {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { addNotification } = useNotifications();
+  const { t } = useLanguage();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,8 +27,8 @@ export function PasswordChangeForm() {
     // Validate form
     if (newPassword !== confirmPassword) {
       addNotification(
-        "Password Mismatch",
-        "New passwords do not match. Please make sure both fields contain the same password.",
+        t("settings.password.mismatch"),
+        t("settings.password.mismatchMessage"),
         "error"
       );
       return;
@@ -34,8 +36,8 @@ export function PasswordChangeForm() {
 
     if (newPassword.length < 8) {
       addNotification(
-        "Invalid Password",
-        "Password must be at least 8 characters long.",
+        t("settings.password.invalid"),
+        t("settings.password.invalidMessage"),
         "warning"
       );
       return;
@@ -47,11 +49,15 @@ export function PasswordChangeForm() {
       const { error } = await updatePassword(newPassword);
 
       if (error) {
-        addNotification("Password Update Failed", error.message, "error");
+        addNotification(
+          t("settings.password.updateFailed"),
+          error.message,
+          "error"
+        );
       } else {
         addNotification(
-          "Password Updated",
-          "Your password has been updated successfully.",
+          t("settings.password.updated"),
+          t("settings.password.updatedMessage"),
           "success"
         );
         // Clear form
@@ -61,8 +67,8 @@ export function PasswordChangeForm() {
       }
     } catch (err) {
       addNotification(
-        "Error",
-        "An unexpected error occurred while updating your password.",
+        t("common.error"),
+        t("settings.password.unexpectedError"),
         "error"
       );
       console.error(err);
@@ -74,14 +80,16 @@ export function PasswordChangeForm() {
   return (
     <Card className="border shadow-sm">
       <CardHeader className="pb-4">
-        <CardTitle className="text-xl font-semibold">Change Password</CardTitle>
-        <CardDescription>Update your account password</CardDescription>
+        <CardTitle className="text-xl font-semibold">
+          {t("settings.password.title")}
+        </CardTitle>
+        <CardDescription>{t("settings.password.description")}</CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-1.5">
             <Label htmlFor="currentPassword" className="text-sm font-medium">
-              Current Password
+              {t("settings.password.current")}
             </Label>
             <Input
               id="currentPassword"
@@ -95,7 +103,7 @@ export function PasswordChangeForm() {
 
           <div className="space-y-1.5">
             <Label htmlFor="newPassword" className="text-sm font-medium">
-              New Password
+              {t("settings.password.new")}
             </Label>
             <Input
               id="newPassword"
@@ -106,13 +114,13 @@ export function PasswordChangeForm() {
               className="focus-visible:ring-1"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Password must be at least 8 characters long
+              {t("settings.password.lengthHelp")}
             </p>
           </div>
 
           <div className="space-y-1.5">
             <Label htmlFor="confirmPassword" className="text-sm font-medium">
-              Confirm New Password
+              {t("settings.password.confirm")}
             </Label>
             <Input
               id="confirmPassword"
@@ -125,7 +133,9 @@ export function PasswordChangeForm() {
           </div>
 
           <Button type="submit" className="w-full mt-4" disabled={isLoading}>
-            {isLoading ? "Updating..." : "Update Password"}
+            {isLoading
+              ? t("settings.password.updating")
+              : t("settings.password.submit")}
           </Button>
         </form>
       </CardContent>
@@ -14,8 +14,10 @@ import {
   CardTitle,
   CardFooter,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function PasswordResetForm() {
+  const { t } = useLanguage();
   const [email, setEmail] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -35,7 +37,7 @@ export function PasswordResetForm() {
         setSuccess(true);
       }
     } catch (err) {
-      setError("An unexpected error occurred. Please try again.");
+      setError(t("auth.unexpectedError"));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -46,15 +48,16 @@ export function PasswordResetForm() {
     return (
       <Card className="w-full max-w-md mx-auto">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl">Check your email</CardTitle>
+          <CardTitle className="text-2xl">
+            {t("auth.reset.checkEmail")}
+          </CardTitle>
           <CardDescription className="text-base mt-4">
-            We've sent a password reset link to {email}. Please check your inbox
-            and follow the instructions to reset your password.
+            {t("auth.reset.sent", { email })}
           </CardDescription>
         </CardHeader>
         <CardFooter className="flex justify-center">
           <Button asChild variant="link">
-            <Link to="/login">Return to login</Link>
+            <Link to="/login">{t("auth.reset.returnToLogin")}</Link>
           </Button>
         </CardFooter>
       </Card>
@@ -64,9 +67,9 @@ export function PasswordResetForm() {
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
-        <CardTitle className="text-2xl">Reset your password</CardTitle>
+        <CardTitle className="text-2xl">{t("auth.reset.title")}</CardTitle>
         <CardDescription className="text-base">
-          Enter your email to receive a password reset link
+          {t("auth.reset.description")}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -79,7 +82,7 @@ export function PasswordResetForm() {
 
         <form className="space-y-4" onSubmit={handleSubmit}>
           <div className="space-y-2">
-            <Label htmlFor="email">Email address</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <Input
               id="email"
               name="email"
@@ -92,16 +95,16 @@ export function PasswordResetForm() {
           </div>
 
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Sending..." : "Send reset link"}
+            {isLoading ? t("auth.reset.submitting") : t("auth.reset.submit")}
           </Button>
         </form>
       </CardContent>
       <CardFooter className="flex justify-center">
         <div className="text-center">
           <p className="text-sm text-muted-foreground">
-            Remember your password?{" "}
+            {t("auth.reset.remember")}{" "}
             <Button asChild variant="link" className="p-0 h-auto font-normal">
-              <Link to="/login">Sign in</Link>
+              <Link to="/login">{t("auth.signIn")}</Link>
             </Button>
           </p>
         </div>
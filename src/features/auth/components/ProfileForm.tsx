@@ -21,10 +21,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useNotifications } from "../../../contexts/NotificationContext";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function ProfileForm() {
   const { user, userProfile, refreshUserData } = useAuth();
   const { addNotification } = useNotifications();
+  const { t } = useLanguage();
 
   // Use default values if userProfile is undefined
   const [fullName, setFullName] = useState("");
@@ -54,11 +56,15 @@ export function ProfileForm() {
       });
 
       if (error) {
-        addNotification("Profile Update Failed", error.message, "error");
+        addNotification(
+          t("settings.profile.updateFailed"),
+          error.message,
+          "error"
+        );
       } else {
         addNotification(
-          "Profile Updated",
-          "Your profile information has been updated successfully.",
+          t("settings.profile.updated"),
+          t("settings.profile.updatedMessage"),
           "success"
         );
 
@@ -69,8 +75,8 @@ export function ProfileForm() {
       }
     } catch (err) {
       addNotification(
-        "Error",
-        "An unexpected error occurred while updating your profile.",
+        t("common.error"),
+        t("settings.profile.unexpectedError"),
         "error"
       );
       console.error(err);
@@ -84,15 +90,15 @@ export function ProfileForm() {
       <CardHeader className="pb-4">
         <CardTitle className="text-xl font-semibold flex items-center">
           <User className="mr-2 h-5 w-5 text-violet-500" />
-          Profile Information
+          {t("settings.profile.title")}
         </CardTitle>
-        <CardDescription>Update your personal information</CardDescription>
+        <CardDescription>{t("settings.profile.description")}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-1.5">
             <Label htmlFor="email" className="text-sm font-medium">
-              Email
+              {t("settings.profile.email")}
             </Label>
             <div className="relative">
               <Input
@@ -110,19 +116,19 @@ export function ProfileForm() {
                     </div>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Email cannot be changed here</p>
+                    <p>{t("settings.profile.emailLocked")}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              To change your email, use the account settings
+              {t("settings.profile.emailHelp")}
             </p>
           </div>
 
           <div className="space-y-1.5">
             <Label htmlFor="fullName" className="text-sm font-medium">
-              Full Name
+              {t("settings.profile.fullName")}
             </Label>
             <Input
               id="fullName"
@@ -135,7 +141,7 @@ export function ProfileForm() {
 
           <div className="space-y-1.5">
             <Label htmlFor="avatarUrl" className="text-sm font-medium">
-              Avatar URL
+              {t("settings.profile.avatarUrl")}
             </Label>
             <Input
               id="avatarUrl"
@@ -149,7 +155,7 @@ export function ProfileForm() {
               className="focus-visible:ring-1"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Enter a URL to an image for your profile picture
+              {t("settings.profile.avatarHelp")}
             </p>
           </div>
 
@@ -159,7 +165,7 @@ export function ProfileForm() {
                 <Avatar className="w-20 h-20 border">
                   <AvatarImage
                     src={avatarUrl}
-                    alt="Avatar preview"
+                    alt={t("settings.profile.avatarPreview")}
                     onError={(e) => {
                       // Handle image load error
                       setPreviewError(true);
@@ -172,7 +178,7 @@ export function ProfileForm() {
                     }`}
                   >
                     {previewError
-                      ? "Error"
+                      ? t("common.error")
                       : fullName.charAt(0).toUpperCase() || "?"}
                   </AvatarFallback>
                 </Avatar>
@@ -184,7 +190,7 @@ export function ProfileForm() {
               </div>
               {previewError && (
                 <p className="text-xs text-red-500">
-                  Failed to load image. Please check the URL.
+                  {t("settings.profile.avatarError")}
                 </p>
               )}
             </div>
@@ -198,7 +204,7 @@ export function ProfileForm() {
           disabled={isLoading}
           className="w-full md:w-auto bg-violet-600 hover:bg-violet-700"
         >
-          {isLoading ? "Saving..." : "Save Changes"}
+          {isLoading ? t("common.saving") : t("common.saveChanges")}
         </Button>
       </CardFooter>
     </Card>
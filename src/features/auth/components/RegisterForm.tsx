@@ -14,6 +14,7 @@ import {
   CardTitle,
   CardFooter,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function RegisterForm() {
   const [fullName, setFullName] = useState("");
@@ -25,6 +26,7 @@ export function RegisterForm() {
   const [success, setSuccess] = useState(false);
 
   const { register } = useAuth();
+  const { t } = useLanguage();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -32,12 +34,12 @@ export function RegisterForm() {
 
     // Validate form
     if (password !== confirmPassword) {
-      setError("Passwords do not match");
+      setError(t("auth.register.passwordsMismatch"));
       return;
     }
 
     if (password.length < 8) {
-      setError("Password must be at least 8 characters long");
+      setError(t("auth.register.passwordHint"));
       return;
     }
 
@@ -57,7 +59,7 @@ export function RegisterForm() {
         }, 3000);
       }
     } catch (err) {
-      setError("An unexpected error occurred. Please try again.");
+      setError(t("auth.unexpectedError"));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -69,17 +71,18 @@ export function RegisterForm() {
       <Card className="w-full max-w-md mx-auto">
         <CardHeader className="text-center">
           <CheckCircle className="w-12 h-12 text-green-600 dark:text-green-400 mx-auto mb-2" />
-          <CardTitle className="text-2xl">Registration Successful!</CardTitle>
+          <CardTitle className="text-2xl">
+            {t("auth.register.success")}
+          </CardTitle>
         </CardHeader>
         <CardContent className="text-center">
           <p className="text-muted-foreground">
-            Please check your email to verify your account. You will be
-            redirected to the login page shortly.
+            {t("auth.register.successDescription")}
           </p>
         </CardContent>
         <CardFooter className="flex justify-center">
           <Button asChild variant="link">
-            <Link to="/login">Go to login page</Link>
+            <Link to="/login">{t("auth.register.goToLogin")}</Link>
           </Button>
         </CardFooter>
       </Card>
@@ -89,10 +92,8 @@ export function RegisterForm() {
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
-        <CardTitle className="text-2xl">Create an account</CardTitle>
-        <CardDescription>
-          Sign up to start tracking your finances
-        </CardDescription>
+        <CardTitle className="text-2xl">{t("auth.register.title")}</CardTitle>
+        <CardDescription>{t("auth.register.description")}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {error && (
@@ -104,7 +105,7 @@ export function RegisterForm() {
 
         <form className="space-y-4" onSubmit={handleSubmit}>
           <div className="space-y-2">
-            <Label htmlFor="fullName">Full Name</Label>
+            <Label htmlFor="fullName">{t("auth.fullName")}</Label>
             <Input
               id="fullName"
               name="fullName"
@@ -117,7 +118,7 @@ export function RegisterForm() {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="email">Email address</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <Input
               id="email"
               name="email"
@@ -130,7 +131,7 @@ export function RegisterForm() {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t("auth.password")}</Label>
             <Input
               id="password"
               name="password"
@@ -141,12 +142,12 @@ export function RegisterForm() {
               onChange={(e) => setPassword(e.target.value)}
             />
             <p className="text-xs text-muted-foreground">
-              Password must be at least 8 characters long
+              {t("auth.register.passwordHint")}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="confirmPassword">Confirm Password</Label>
+            <Label htmlFor="confirmPassword">{t("auth.confirmPassword")}</Label>
             <Input
               id="confirmPassword"
               name="confirmPassword"
@@ -159,17 +160,19 @@ export function RegisterForm() {
           </div>
 
           <Button type="submit" className="w-full mt-2" disabled={isLoading}>
-            {isLoading ? "Creating account..." : "Create account"}
+            {isLoading
+              ? t("auth.register.submitting")
+              : t("auth.register.submit")}
           </Button>
 
           <div className="text-center mt-4">
             <p className="text-sm text-muted-foreground">
-              Already have an account?{" "}
+              {t("auth.register.haveAccount")}{" "}
               <Link
                 to="/login"
                 className="font-medium text-primary hover:underline"
               >
-                Sign in
+                {t("auth.signIn")}
               </Link>
             </p>
           </div>
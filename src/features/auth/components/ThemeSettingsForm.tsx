@@ -21,32 +21,40 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useLanguage } from "../../../providers/languageUtils";
+import { TranslationKey } from "../../../i18n";
 
 // Theme options
-const THEMES = [
+const THEMES: {
+  value: string;
+  label: TranslationKey;
+  icon: typeof Sun;
+  description: TranslationKey;
+}[] = [
   {
     value: "light",
-    label: "Light",
+    label: "settings.theme.light",
     icon: Sun,
-    description: "Light mode with bright background and dark text",
+    description: "settings.theme.lightDescription",
   },
   {
     value: "dark",
-    label: "Dark",
+    label: "settings.theme.dark",
     icon: Moon,
-    description: "Dark mode with dark background and light text",
+    description: "settings.theme.darkDescription",
   },
   {
     value: "system",
-    label: "System",
+    label: "settings.theme.system",
     icon: Laptop,
-    description: "Follow your system's theme settings",
+    description: "settings.theme.systemDescription",
   },
 ];
 
 export function ThemeSettingsForm() {
   const { user, userSettings, refreshUserData } = useAuth();
   const { theme: currentTheme, setTheme: setAppTheme } = useTheme();
+  const { t } = useLanguage();
   const [theme, setTheme] = useState<"light" | "dark" | "system">(
     (currentTheme as "light" | "dark" | "system") || "light"
   );
@@ -80,7 +88,7 @@ export function ThemeSettingsForm() {
         setMessage({ text: error.message, type: "error" });
       } else {
         setMessage({
-          text: "Theme settings updated successfully",
+          text: t("settings.theme.updated"),
           type: "success",
         });
         // Refresh user data to update the UI
@@ -92,7 +100,7 @@ export function ThemeSettingsForm() {
         setAppTheme(theme as "light" | "dark" | "system");
       }
     } catch (err) {
-      setMessage({ text: "An unexpected error occurred", type: "error" });
+      setMessage({ text: t("common.unexpectedError"), type: "error" });
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -104,11 +112,9 @@ export function ThemeSettingsForm() {
       <CardHeader>
         <CardTitle className="flex items-center">
           <Palette className="mr-2 h-5 w-5 text-violet-500" />
-          Theme Settings
+          {t("settings.theme.title")}
         </CardTitle>
-        <CardDescription>
-          Customize the appearance of the application
-        </CardDescription>
+        <CardDescription>{t("settings.theme.description")}</CardDescription>
       </CardHeader>
       <CardContent>
         {message && (
@@ -127,7 +133,7 @@ export function ThemeSettingsForm() {
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-3">
-            <Label>Select Theme</Label>
+            <Label>{t("settings.theme.select")}</Label>
             <RadioGroup
               value={theme}
               onValueChange={(value) =>
@@ -149,9 +155,9 @@ export function ThemeSettingsForm() {
                       className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
                     >
                       <Icon className="mb-3 h-6 w-6" />
-                      <p className="font-medium">{themeOption.label}</p>
+                      <p className="font-medium">{t(themeOption.label)}</p>
                       <p className="text-xs text-muted-foreground text-center mt-1">
-                        {themeOption.description}
+                        {t(themeOption.description)}
                       </p>
                     </Label>
                   </div>
@@ -165,7 +171,7 @@ export function ThemeSettingsForm() {
             className="w-full bg-violet-600 hover:bg-violet-700"
             disabled={isLoading}
           >
-            {isLoading ? "Saving..." : "Save Theme Settings"}
+            {isLoading ? t("common.saving") : t("settings.theme.submit")}
           </Button>
         </form>
       </CardContent>
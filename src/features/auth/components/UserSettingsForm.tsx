@@ -20,6 +20,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { useLanguage } from "../../../providers/languageUtils";
+import { getCurrencyName, TranslationKey } from "../../../i18n";
 
 // Currency options
 const CURRENCIES = [
@@ -36,14 +38,15 @@ const CURRENCIES = [
 ];
 
 // Theme options
-const THEMES = [
-  { value: "light", label: "Light" },
-  { value: "dark", label: "Dark" },
-  { value: "system", label: "System Default" },
+const THEMES: { value: string; label: TranslationKey }[] = [
+  { value: "light", label: "settings.theme.light" },
+  { value: "dark", label: "settings.theme.dark" },
+  { value: "system", label: "settings.theme.systemDefault" },
 ];
 
 export function UserSettingsForm() {
   const { user, userSettings, refreshUserData } = useAuth();
+  const { t } = useLanguage();
   const [currency, setCurrency] = useState("USD");
   const [theme, setTheme] = useState("light");
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
@@ -80,14 +83,17 @@ export function UserSettingsForm() {
       if (error) {
         setMessage({ text: error.message, type: "error" });
       } else {
-        setMessage({ text: "Settings updated successfully", type: "success" });
+        setMessage({
+          text: t("settings.preferences.updated"),
+          type: "success",
+        });
         // Refresh user data to update the UI
         if (refreshUserData) {
           await refreshUserData();
         }
       }
     } catch (err) {
-      setMessage({ text: "An unexpected error occurred", type: "error" });
+      setMessage({ text: t("common.unexpectedError"), type: "error" });
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -97,8 +103,10 @@ export function UserSettingsForm() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>User Preferences</CardTitle>
-        <CardDescription>Customize your application settings</CardDescription>
+        <CardTitle>{t("settings.preferences.title")}</CardTitle>
+        <CardDescription>
+          {t("settings.preferences.description")}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         {message && (
@@ -117,34 +125,36 @@ export function UserSettingsForm() {
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="currency">Currency</Label>
+            <Label htmlFor="currency">{t("common.currency")}</Label>
             <Select value={currency} onValueChange={setCurrency}>
               <SelectTrigger id="currency">
-                <SelectValue placeholder="Select currency" />
+                <SelectValue placeholder={t("common.selectCurrency")} />
               </SelectTrigger>
               <SelectContent>
                 {CURRENCIES.map((curr) => (
                   <SelectItem key={curr.code} value={curr.code}>
-                    {curr.symbol} - {curr.name} ({curr.code})
+                    {curr.symbol} - {getCurrencyName(curr.code)} ({curr.code})
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              This will be used for displaying all monetary values
+              {t("settings.preferences.currencyHelp")}
             </p>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="theme">Theme</Label>
+            <Label htmlFor="theme">{t("settings.tabs.theme")}</Label>
             <Select value={theme} onValueChange={setTheme}>
               <SelectTrigger id="theme">
-                <SelectValue placeholder="Select theme" />
+                <SelectValue
+                  placeholder={t("settings.preferences.selectTheme")}
+                />
               </SelectTrigger>
               <SelectContent>
                 {THEMES.map((themeOption) => (
                   <SelectItem key={themeOption.value} value={themeOption.value}>
-                    {themeOption.label}
+                    {t(themeOption.label)}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -158,12 +168,12 @@ export function UserSettingsForm() {
               onCheckedChange={setNotificationsEnabled}
             />
             <Label htmlFor="notifications" className="cursor-pointer">
-              Enable notifications
+              {t("settings.preferences.enableNotifications")}
             </Label>
           </div>
 
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Saving..." : "Save Preferences"}
+            {isLoading ? t("common.saving") : t("settings.preferences.submit")}
           </Button>
         </form>
       </CardContent>
@@ -7,5 +7,7 @@ export * from "./AccountDeletionForm";
 export * from "./UserSettingsForm";
 export * from "./NotificationSettingsForm";
 export * from "./CurrencySettingsForm";
+export * from "./ExchangeRateSettings";
 export * from "./ThemeSettingsForm";
 export * from "./LanguageSettingsForm";
+export * from "./DataSettings";
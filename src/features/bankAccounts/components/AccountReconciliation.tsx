@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertCircle, CheckCircle2, Loader2, Lock } from "lucide-react";
+import { useAuth } from "../../../state/useAuth";
+import {
+  calculateClearedBalance,
+  cancelReconciliation,
+  completeReconciliation,
+  getOpenReconciliation,
+  getReconciliationWorksheet,
+  setTransactionCleared,
+  startReconciliation,
+  AccountReconciliation as Reconciliation,
+  ReconciliationWorksheet,
+} from "../../../api/supabase/reconciliations";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface AccountReconciliationProps {
+  accountId: string;
+}
+
+export function AccountReconciliation({
+  accountId,
+}: AccountReconciliationProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(
+    null
+  );
+  const [worksheet, setWorksheet] = useState<ReconciliationWorksheet | null>(
+    null
+  );
+  const [clearedIds, setClearedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Statement details for a new reconciliation
+  const [statementDate, setStatementDate] = useState(
+    new Date().toISOString().split("T")[0]
+  );
+  const [statementBalance, setStatementBalance] = useState("");
+
+  const loadWorksheet = async (open: Reconciliation) => {
+    const { data, error } = await getReconciliationWorksheet(
+      open.bank_account_id,
+      open.statement_date
+    );
+    if (error) throw error;
+
+    setWorksheet(data);
+    setClearedIds(
+      new Set(
+        (data?.entries || [])
+          .filter(({ transaction }) => transaction.status === "cleared")
+          .map(({ transaction }) => transaction.id)
+      )
+    );
+  };
+
+  useEffect(() => {
+    const loadReconciliation = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error } = await getOpenReconciliation(accountId);
+        if (error) throw error;
+
+        setReconciliation(data);
+        if (data) await loadWorksheet(data);
+      } catch (err) {
+        console.error("Error loading reconciliation:", err);
+        setError(t("accounts.reconciliation.loadError"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReconciliation();
+  }, [accountId, t]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (isNaN(parseFloat(statementBalance))) {
+      setError(t("accounts.reconciliation.closingBalanceRequired"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const { data, error } = await startReconciliation({
+        user_id: user.id,
+        bank_account_id: accountId,
+        statement_date: statementDate,
+        statement_balance: parseFloat(statementBalance),
+      });
+      if (error) throw error;
+      if (!data) return;
+
+      setReconciliation(data);
+      await loadWorksheet(data);
+    } catch (err) {
+      console.error("Error starting reconciliation:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : t("accounts.reconciliation.startError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Ticks are saved straight away so a reconciliation can be finished later
+  const handleToggleCleared = async (transactionId: string) => {
+    const cleared = !clearedIds.has(transactionId);
+    const next = new Set(clearedIds);
+    if (cleared) {
+      next.add(transactionId);
+    } else {
+      next.delete(transactionId);
+    }
+    setClearedIds(next);
+
+    const { error } = await setTransactionCleared(transactionId, cleared);
+    if (error) {
+      console.error("Error updating cleared status:", error);
+      showErrorToast(t("accounts.reconciliation.clearError"));
+      setClearedIds(clearedIds);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!reconciliation) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await completeReconciliation(reconciliation);
+      if (error) throw error;
+
+      showToast({
+        type: "success",
+        title: t("accounts.reconciliation.reconciled"),
+        description: t("accounts.reconciliation.locked", {
+          date: formatDate(reconciliation.statement_date),
+        }),
+        duration: 3000,
+      });
+      navigate(`/accounts/${accountId}`);
+    } catch (err) {
+      console.error("Error completing reconciliation:", err);
+      showErrorToast(
+        err instanceof Error
+          ? err.message
+          : t("accounts.reconciliation.finishError")
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!reconciliation) return;
+
+    const { error } = await cancelReconciliation(reconciliation.id);
+    if (error) {
+      console.error("Error cancelling reconciliation:", error);
+      showErrorToast(t("accounts.reconciliation.cancelError"));
+      return;
+    }
+
+    setReconciliation(null);
+    setWorksheet(null);
+    setClearedIds(new Set());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!reconciliation || !worksheet) {
+    return (
+      <form onSubmit={handleStart} className="space-y-4 max-w-md">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {t("accounts.reconciliation.intro")}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="statement-date">
+              {t("accounts.reconciliation.statementDate")}
+            </Label>
+            <Input
+              id="statement-date"
+              type="date"
+              value={statementDate}
+              onChange={(e) => setStatementDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statement-balance">
+              {t("accounts.reconciliation.closingBalance")}
+            </Label>
+            <Input
+              id="statement-balance"
+              type="number"
+              step="0.01"
+              value={statementBalance}
+              onChange={(e) => setStatementBalance(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <Button type="submit" disabled={isSaving}>
+          {isSaving
+            ? t("accounts.reconciliation.starting")
+            : t("accounts.reconciliation.start")}
+        </Button>
+      </form>
+    );
+  }
+
+  const currency = worksheet.account.currency;
+  const clearedBalance = calculateClearedBalance(worksheet, clearedIds);
+  const difference =
+    Math.round((reconciliation.statement_balance - clearedBalance) * 100) / 100;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm font-medium">
+              {t("accounts.reconciliation.statementBalance", {
+                date: formatDate(reconciliation.statement_date),
+              })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-3">
+            <p className="text-2xl font-bold">
+              {formatCurrency(reconciliation.statement_balance, { currency })}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm font-medium">
+              {t("accounts.reconciliation.clearedBalance")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-3">
+            <p className="text-2xl font-bold">
+              {formatCurrency(clearedBalance, { currency })}
+            </p>
+          </CardContent>
+        </Card>
+        <Card
+          className={difference === 0 ? "border-green-500" : "border-red-300"}
+        >
+          <CardHeader className="py-3">
+            <CardTitle className="text-sm font-medium">
+              {t("accounts.reconciliation.difference")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="py-0 pb-3">
+            <p
+              className={`text-2xl font-bold ${
+                difference === 0 ? "text-green-600" : "text-red-500"
+              }`}
+            >
+              {formatCurrency(difference, { currency })}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {worksheet.entries.length === 0 ? (
+        <div className="p-4 text-center text-muted-foreground">
+          {t("accounts.reconciliation.noEntries")}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                {t("transactions.statuses.cleared")}
+              </TableHead>
+              <TableHead>{t("common.date")}</TableHead>
+              <TableHead>{t("common.description")}</TableHead>
+              <TableHead className="text-right">{t("common.amount")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {worksheet.entries.map(({ transaction, change }) => (
+              <TableRow
+                key={transaction.id}
+                className="cursor-pointer"
+                onClick={() => handleToggleCleared(transaction.id)}
+              >
+                <TableCell>
+                  <Checkbox
+                    checked={clearedIds.has(transaction.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onCheckedChange={() => handleToggleCleared(transaction.id)}
+                    aria-label={t("transactions.statuses.cleared")}
+                  />
+                </TableCell>
+                <TableCell>{formatDate(transaction.date)}</TableCell>
+                <TableCell>
+                  {transaction.description ||
+                    (transaction.type === "transfer"
+                      ? t("common.transfer")
+                      : t("transactions.noDescription"))}
+                  {transaction.status === "pending" && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {t("transactions.statuses.pending")}
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-medium ${
+                    change < 0 ? "text-red-500" : "text-green-500"
+                  }`}
+                >
+                  {change < 0 ? "-" : "+"}
+                  {formatCurrency(Math.abs(change), { currency })}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="outline" onClick={handleCancel}>
+          {t("accounts.reconciliation.cancel")}
+        </Button>
+        <div className="flex items-center gap-3">
+          {difference === 0 ? (
+            <span className="flex items-center gap-1 text-sm text-green-600">
+              <CheckCircle2 className="h-4 w-4" />
+              {t("accounts.reconciliation.balanced")}
+            </span>
+          ) : (
+            <span className="text-sm text-muted-foreground">
+              {t("accounts.reconciliation.tickUntilZero")}
+            </span>
+          )}
+          <Button
+            onClick={handleFinish}
+            disabled={difference !== 0 || isSaving}
+          >
+            <Lock className="h-4 w-4 mr-1" />
+            {isSaving
+              ? t("accounts.reconciliation.finishing")
+              : t("accounts.reconciliation.finish")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
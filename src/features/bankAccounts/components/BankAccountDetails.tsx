@@ -1,12 +1,20 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
-  getBankAccountById,
+  getBankAccountLedger,
   deleteBankAccount,
+  updateBankAccountBalance,
+  recalculateBankAccountBalance,
+  alignOpeningBalance,
   BankAccount,
+  BankAccountLedger,
 } from "../../../api/supabase/bankAccounts";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
-import { showItemDeletedToast, showErrorToast } from "../../../utils/toast";
+import {
+  showToast,
+  showItemDeletedToast,
+  showErrorToast,
+} from "../../../utils/toast";
 import {
   Edit,
   Trash2,
@@ -21,6 +29,8 @@ import {
   Star,
   Calendar,
   Clock,
+  Scale,
+  ListChecks,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -35,7 +45,21 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { TransactionList } from "../../transactions/components/TransactionList";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ReconciliationHistory } from "./ReconciliationHistory";
+import { useLanguage } from "../../../providers/languageUtils";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// How many ledger lines the details page shows, newest first
+const LEDGER_PREVIEW_SIZE = 10;
 
 interface BankAccountDetailsProps {
   accountId?: string;
@@ -52,14 +76,21 @@ export function BankAccountDetails({
 }: BankAccountDetailsProps) {
   const params = useParams();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const id = accountId || params.id;
 
   const [account, setAccount] = useState<BankAccount | null>(null);
+  const [ledger, setLedger] = useState<BankAccountLedger | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [isBalanceDialogOpen, setIsBalanceDialogOpen] = useState(false);
+  const [newBalance, setNewBalance] = useState("");
+  const [isSavingBalance, setIsSavingBalance] = useState(false);
+  // Bumped to reload the account after its balance changes
+  const [reloadKey, setReloadKey] = useState(0);
 
-  // Load account details
+  // Load account details together with its ledger
   useEffect(() => {
     const loadAccount = async () => {
       if (!id) return;
@@ -68,20 +99,83 @@ export function BankAccountDetails({
       setError(null);
 
       try {
-        const { data, error } = await getBankAccountById(id);
+        const { data, error } = await getBankAccountLedger(id);
         if (error) throw error;
 
-        setAccount(data);
+        setAccount(data?.account || null);
+        setLedger(data);
       } catch (err) {
         console.error("Error loading bank account:", err);
-        setError("Failed to load bank account details. Please try again.");
+        setError(t("accounts.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     };
 
     loadAccount();
-  }, [id]);
+  }, [id, reloadKey, t]);
+
+  // Set the balance by hand, e.g. from a bank statement
+  const handleBalanceSave = async () => {
+    if (!id || isNaN(parseFloat(newBalance))) return;
+
+    try {
+      setIsSavingBalance(true);
+      const { error, discrepancy } = await updateBankAccountBalance(
+        id,
+        parseFloat(newBalance)
+      );
+      if (error) throw error;
+
+      if (discrepancy !== 0) {
+        showToast({
+          type: "warning",
+          title: t("accounts.balanceMismatch"),
+          description: t(
+            discrepancy > 0 ? "accounts.balanceMore" : "accounts.balanceLess",
+            {
+              amount: formatCurrency(Math.abs(discrepancy), {
+                currency: account?.currency,
+              }),
+            }
+          ),
+          duration: 5000,
+        });
+      } else {
+        showToast({
+          type: "success",
+          title: t("accounts.balanceUpdated"),
+          description: t("accounts.balanceMatches"),
+          duration: 3000,
+        });
+      }
+
+      setIsBalanceDialogOpen(false);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      console.error("Error updating balance:", err);
+      showErrorToast(t("accounts.balanceError"));
+    } finally {
+      setIsSavingBalance(false);
+    }
+  };
+
+  // Settle a discrepancy either way
+  const handleResolveDiscrepancy = async (useLedger: boolean) => {
+    if (!id) return;
+
+    const { error } = useLedger
+      ? await recalculateBankAccountBalance(id)
+      : await alignOpeningBalance(id);
+
+    if (error) {
+      console.error("Error resolving balance discrepancy:", error);
+      showErrorToast(t("accounts.balanceError"));
+      return;
+    }
+
+    setReloadKey((key) => key + 1);
+  };
 
   // Handle account deletion
   const handleDeleteClick = () => {
@@ -96,7 +190,7 @@ export function BankAccountDetails({
       if (error) throw error;
 
       // Show success toast
-      showItemDeletedToast("Bank account");
+      showItemDeletedToast(t("toast.items.bankAccount"));
 
       // Navigate back or call onDelete
       if (onDelete) {
@@ -106,7 +200,7 @@ export function BankAccountDetails({
       }
     } catch (err) {
       console.error("Error deleting bank account:", err);
-      showErrorToast("Failed to delete bank account");
+      showErrorToast(t("accounts.deleteError"));
     } finally {
       setIsDeleteConfirmOpen(false);
     }
@@ -151,7 +245,7 @@ export function BankAccountDetails({
     return (
       <Alert variant="destructive">
         <AlertCircle className="h-4 w-4" />
-        <AlertDescription>{error || "Bank account not found"}</AlertDescription>
+        <AlertDescription>{error || t("accounts.notFound")}</AlertDescription>
       </Alert>
     );
   }
@@ -166,7 +260,7 @@ export function BankAccountDetails({
           onClick={() => navigate("/accounts")}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Accounts
+          {t("accounts.backToAccounts")}
         </Button>
       )}
 
@@ -183,37 +277,95 @@ export function BankAccountDetails({
                 {account.is_default && (
                   <Badge variant="outline" className="ml-2">
                     <Star className="h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" />
-                    Default
+                    {t("accounts.default")}
                   </Badge>
                 )}
               </CardTitle>
               <p className="text-sm text-muted-foreground mt-1">
-                {account.institution || "No institution"} •{" "}
+                {account.institution || t("accounts.noInstitution")} •{" "}
                 {account.account_number
                   ? `****${account.account_number}`
-                  : "No account number"}
+                  : t("accounts.noAccountNumber")}
               </p>
             </div>
           </div>
           <div className="flex space-x-2">
+            <Button
+              onClick={() => navigate(`/accounts/${id}/reconcile`)}
+              size="sm"
+              variant="outline"
+            >
+              <ListChecks className="h-4 w-4 mr-1" />
+              {t("accounts.reconcile")}
+            </Button>
+            <Button
+              onClick={() => {
+                setNewBalance(account.current_balance.toString());
+                setIsBalanceDialogOpen(true);
+              }}
+              size="sm"
+              variant="outline"
+            >
+              <Scale className="h-4 w-4 mr-1" />
+              {t("accounts.setBalance")}
+            </Button>
             <Button onClick={handleEditClick} size="sm" variant="outline">
               <Edit className="h-4 w-4 mr-1" />
-              Edit
+              {t("common.edit")}
             </Button>
             <Button onClick={handleDeleteClick} size="sm" variant="destructive">
               <Trash2 className="h-4 w-4 mr-1" />
-              Delete
+              {t("common.delete")}
             </Button>
           </div>
         </CardHeader>
         <CardContent>
+          {ledger && ledger.discrepancy !== 0 && (
+            <Alert className="mt-4 border-yellow-300 bg-yellow-50 dark:bg-yellow-950">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <p>
+                  {t(
+                    ledger.discrepancy > 0
+                      ? "accounts.discrepancyMore"
+                      : "accounts.discrepancyLess",
+                    {
+                      amount: formatCurrency(Math.abs(ledger.discrepancy), {
+                        currency: account.currency,
+                      }),
+                      ledger: formatCurrency(ledger.ledgerBalance, {
+                        currency: account.currency,
+                      }),
+                    }
+                  )}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResolveDiscrepancy(true)}
+                  >
+                    {t("accounts.useLedgerBalance")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResolveDiscrepancy(false)}
+                  >
+                    {t("accounts.keepBalance")}
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="mt-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               {/* Balance */}
               <Card>
                 <CardHeader className="py-3">
                   <CardTitle className="text-sm font-medium">
-                    Current Balance
+                    {t("accounts.currentBalance")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0">
@@ -229,15 +381,12 @@ export function BankAccountDetails({
               <Card>
                 <CardHeader className="py-3">
                   <CardTitle className="text-sm font-medium">
-                    Account Type
+                    {t("accounts.accountType")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0">
-                  <Badge
-                    variant="outline"
-                    className="text-md capitalize font-normal"
-                  >
-                    {account.account_type}
+                  <Badge variant="outline" className="text-md font-normal">
+                    {t(`accounts.types.${account.account_type}`)}
                   </Badge>
                 </CardContent>
               </Card>
@@ -246,7 +395,7 @@ export function BankAccountDetails({
               <Card>
                 <CardHeader className="py-3">
                   <CardTitle className="text-sm font-medium">
-                    Last Updated
+                    {t("accounts.lastUpdated")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="py-0 flex items-center">
@@ -258,15 +407,31 @@ export function BankAccountDetails({
 
             {/* Additional Details */}
             <div className="mt-6">
-              <h3 className="text-lg font-medium mb-2">Additional Details</h3>
+              <h3 className="text-lg font-medium mb-2">
+                {t("accounts.additionalDetails")}
+              </h3>
               <Separator className="mb-4" />
               <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-3">
                 <div>
-                  <dt className="text-sm text-muted-foreground">Currency</dt>
+                  <dt className="text-sm text-muted-foreground">
+                    {t("common.currency")}
+                  </dt>
                   <dd>{account.currency}</dd>
                 </div>
                 <div>
-                  <dt className="text-sm text-muted-foreground">Created On</dt>
+                  <dt className="text-sm text-muted-foreground">
+                    {t("accounts.openingBalance")}
+                  </dt>
+                  <dd>
+                    {formatCurrency(account.opening_balance || 0, {
+                      currency: account.currency,
+                    })}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">
+                    {t("accounts.createdOn")}
+                  </dt>
                   <dd className="flex items-center">
                     <Calendar className="h-4 w-4 mr-1 text-muted-foreground" />
                     {formatDate(account.created_at)}
@@ -274,7 +439,9 @@ export function BankAccountDetails({
                 </div>
                 {account.notes && (
                   <div className="col-span-2 mt-2">
-                    <dt className="text-sm text-muted-foreground">Notes</dt>
+                    <dt className="text-sm text-muted-foreground">
+                      {t("common.notes")}
+                    </dt>
                     <dd className="mt-1 whitespace-pre-wrap">
                       {account.notes}
                     </dd>
@@ -290,46 +457,150 @@ export function BankAccountDetails({
       <Card>
         <CardHeader className="pb-2">
           <div className="flex justify-between items-center">
-            <CardTitle className="text-lg">Recent Transactions</CardTitle>
+            <CardTitle className="text-lg">
+              {t("accounts.recentTransactions")}
+            </CardTitle>
             <Button
               variant="link"
               onClick={() => navigate(`/transactions?account=${id}`)}
               className="h-8 px-2"
             >
-              View All
+              {t("common.viewAll")}
             </Button>
           </div>
         </CardHeader>
         <CardContent>
-          <TransactionList
-            filters={{ bankAccountId: id }}
-            showPagination={false}
-            compact={true}
-            limit={5}
+          {!ledger || ledger.entries.length === 0 ? (
+            <div className="p-4 text-center text-muted-foreground">
+              {t("accounts.noTransactions")}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("common.description")}</TableHead>
+                  <TableHead className="text-right">
+                    {t("common.amount")}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("accounts.balance")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.entries
+                  .slice(-LEDGER_PREVIEW_SIZE)
+                  .reverse()
+                  .map(({ transaction, change, balance }) => (
+                    <TableRow
+                      key={transaction.id}
+                      className={
+                        transaction.status === "cancelled" ? "opacity-60" : ""
+                      }
+                    >
+                      <TableCell>{formatDate(transaction.date)}</TableCell>
+                      <TableCell>
+                        {transaction.description ||
+                          (transaction.type === "transfer"
+                            ? t("common.transfer")
+                            : t("transactions.noDescription"))}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${
+                          change < 0
+                            ? "text-red-500"
+                            : change > 0
+                            ? "text-green-500"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        {change > 0 ? "+" : change < 0 ? "-" : ""}
+                        {formatCurrency(Math.abs(change), {
+                          currency: account.currency,
+                        })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(balance, {
+                          currency: account.currency,
+                        })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reconciliation History */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">
+            {t("accounts.reconciliation.history")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReconciliationHistory
+            accountId={account.id}
+            currency={account.currency}
+            onChange={() => setReloadKey((key) => key + 1)}
           />
         </CardContent>
       </Card>
 
-      {/* Delete Confirmation Dialog */}
-      <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+      {/* Set Balance Dialog */}
+      <Dialog open={isBalanceDialogOpen} onOpenChange={setIsBalanceDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogTitle>{t("accounts.setBalance")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this bank account? This action
-              cannot be undone. Any transactions associated with this account
-              will remain but will no longer be linked to an account.
+              {t("accounts.setBalanceDescription")}
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="newBalance">{t("accounts.balance")}</Label>
+            <Input
+              id="newBalance"
+              type="number"
+              step="0.01"
+              value={newBalance}
+              onChange={(e) => setNewBalance(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsBalanceDialogOpen(false)}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={handleBalanceSave}
+              disabled={isSavingBalance || isNaN(parseFloat(newBalance))}
+            >
+              {isSavingBalance ? t("common.saving") : t("accounts.saveBalance")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("accounts.deleteConfirm")}</DialogDescription>
+          </DialogHeader>
           <DialogFooter>
             <Button
               variant="outline"
               onClick={() => setIsDeleteConfirmOpen(false)}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete Account
+              {t("accounts.deleteAccount")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -27,6 +27,8 @@ import {
   BankAccountInsert,
 } from "../../../api/supabase/bankAccounts";
 import { CURRENCIES } from "../../../utils/constants";
+import { getCurrencyName } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BankAccountFormProps {
   account?: BankAccount;
@@ -42,6 +44,7 @@ export function BankAccountForm({
   defaultType = "checking",
 }: BankAccountFormProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -54,8 +57,8 @@ export function BankAccountForm({
   const [accountNumber, setAccountNumber] = useState(
     account?.account_number || ""
   );
-  const [currentBalance, setCurrentBalance] = useState(
-    account?.current_balance?.toString() || "0"
+  const [openingBalance, setOpeningBalance] = useState(
+    account?.opening_balance?.toString() || "0"
   );
   const [currency, setCurrency] = useState(account?.currency || "USD");
   const [isDefault, setIsDefault] = useState(account?.is_default || false);
@@ -72,15 +75,22 @@ export function BankAccountForm({
 
       // Validate form
       if (!name.trim()) {
-        setError("Please enter an account name");
+        setError(t("accounts.form.nameRequired"));
         return;
       }
 
-      if (isNaN(parseFloat(currentBalance))) {
-        setError("Please enter a valid balance");
+      if (isNaN(parseFloat(openingBalance))) {
+        setError(t("accounts.form.invalidBalance"));
         return;
       }
 
+      // The current balance is the opening balance plus the ledger, so a
+      // changed opening balance moves it by the same amount
+      const opening = parseFloat(openingBalance);
+      const currentBalance = account
+        ? account.current_balance + (opening - (account.opening_balance || 0))
+        : opening;
+
       // Prepare account data
       const accountData: BankAccountInsert = {
         user_id: user.id,
@@ -88,7 +98,8 @@ export function BankAccountForm({
         account_type: accountType,
         institution: institution || null,
         account_number: accountNumber || null,
-        current_balance: parseFloat(currentBalance),
+        opening_balance: opening,
+        current_balance: Math.round(currentBalance * 100) / 100,
         currency,
         is_default: isDefault,
         notes: notes || null,
@@ -111,9 +122,9 @@ export function BankAccountForm({
 
       // Show success toast
       if (account) {
-        showItemUpdatedToast("Bank account");
+        showItemUpdatedToast(t("toast.items.bankAccount"));
       } else {
-        showItemCreatedToast("Bank account");
+        showItemCreatedToast(t("toast.items.bankAccount"));
       }
 
       // Success
@@ -121,8 +132,8 @@ export function BankAccountForm({
       onClose();
     } catch (err) {
       console.error("Error saving bank account:", err);
-      setError("Failed to save bank account");
-      showErrorToast("Failed to save bank account");
+      setError(t("accounts.saveError"));
+      showErrorToast(t("accounts.saveError"));
     } finally {
       setIsLoading(false);
     }
@@ -132,7 +143,9 @@ export function BankAccountForm({
     <Card className="max-w-md w-full mx-auto">
       <CardHeader>
         <CardTitle className="text-xl">
-          {account ? "Edit Bank Account" : "Add Bank Account"}
+          {account
+            ? t("accounts.editBankAccount")
+            : t("accounts.addBankAccount")}
         </CardTitle>
       </CardHeader>
 
@@ -147,19 +160,19 @@ export function BankAccountForm({
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Account Name */}
           <div className="space-y-2">
-            <Label htmlFor="name">Account Name *</Label>
+            <Label htmlFor="name">{t("accounts.form.name")}</Label>
             <Input
               id="name"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              placeholder="e.g., Main Checking, Savings Account"
+              placeholder={t("accounts.form.namePlaceholder")}
               required
             />
           </div>
 
           {/* Account Type */}
           <div className="space-y-2">
-            <Label htmlFor="accountType">Account Type *</Label>
+            <Label htmlFor="accountType">{t("accounts.form.type")}</Label>
             <Select
               value={accountType}
               onValueChange={(value) =>
@@ -174,28 +187,40 @@ export function BankAccountForm({
               }
             >
               <SelectTrigger id="accountType">
-                <SelectValue placeholder="Select account type" />
+                <SelectValue placeholder={t("accounts.form.selectType")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="checking">Checking</SelectItem>
-                <SelectItem value="savings">Savings</SelectItem>
-                <SelectItem value="credit">Credit Card</SelectItem>
-                <SelectItem value="investment">Investment</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
+                <SelectItem value="checking">
+                  {t("accounts.types.checking")}
+                </SelectItem>
+                <SelectItem value="savings">
+                  {t("accounts.types.savings")}
+                </SelectItem>
+                <SelectItem value="credit">
+                  {t("accounts.types.credit")}
+                </SelectItem>
+                <SelectItem value="investment">
+                  {t("accounts.types.investment")}
+                </SelectItem>
+                <SelectItem value="other">
+                  {t("accounts.types.other")}
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
 
           {/* Institution */}
           <div className="space-y-2">
-            <Label htmlFor="institution">Financial Institution</Label>
+            <Label htmlFor="institution">
+              {t("accounts.form.institution")}
+            </Label>
             <div className="relative">
               <Building className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
                 id="institution"
                 value={institution}
                 onChange={(e) => setInstitution(e.target.value)}
-                placeholder="e.g., Chase, Bank of America"
+                placeholder={t("accounts.form.institutionPlaceholder")}
                 className="pl-9"
               />
             </div>
@@ -203,9 +228,7 @@ export function BankAccountForm({
 
           {/* Account Number (masked) */}
           <div className="space-y-2">
-            <Label htmlFor="accountNumber">
-              Account Number (last 4 digits)
-            </Label>
+            <Label htmlFor="accountNumber">{t("accounts.form.number")}</Label>
             <div className="relative">
               <CreditCard className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -218,41 +241,46 @@ export function BankAccountForm({
                     .slice(0, 4);
                   setAccountNumber(value);
                 }}
-                placeholder="e.g., 1234"
+                placeholder={t("accounts.form.numberPlaceholder")}
                 className="pl-9"
                 maxLength={4}
               />
             </div>
           </div>
 
-          {/* Current Balance */}
+          {/* Opening Balance */}
           <div className="space-y-2">
-            <Label htmlFor="currentBalance">Current Balance *</Label>
+            <Label htmlFor="openingBalance">
+              {t("accounts.form.openingBalance")}
+            </Label>
             <div className="relative">
               <Wallet className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
-                id="currentBalance"
+                id="openingBalance"
                 type="number"
-                value={currentBalance}
-                onChange={(e) => setCurrentBalance(e.target.value)}
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
                 step="0.01"
                 className="pl-9"
                 required
               />
             </div>
+            <p className="text-xs text-muted-foreground">
+              {t("accounts.form.openingBalanceHelp")}
+            </p>
           </div>
 
           {/* Currency */}
           <div className="space-y-2">
-            <Label htmlFor="currency">Currency</Label>
+            <Label htmlFor="currency">{t("common.currency")}</Label>
             <Select value={currency} onValueChange={setCurrency}>
               <SelectTrigger id="currency">
-                <SelectValue placeholder="Select currency" />
+                <SelectValue placeholder={t("common.selectCurrency")} />
               </SelectTrigger>
               <SelectContent>
                 {CURRENCIES.map((curr) => (
                   <SelectItem key={curr.code} value={curr.code}>
-                    {curr.code} - {curr.name}
+                    {curr.code} - {getCurrencyName(curr.code)}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -266,17 +294,17 @@ export function BankAccountForm({
               checked={isDefault}
               onCheckedChange={setIsDefault}
             />
-            <Label htmlFor="isDefault">Set as default account</Label>
+            <Label htmlFor="isDefault">{t("accounts.form.setDefault")}</Label>
           </div>
 
           {/* Notes */}
           <div className="space-y-2">
-            <Label htmlFor="notes">Notes</Label>
+            <Label htmlFor="notes">{t("common.notes")}</Label>
             <Textarea
               id="notes"
               value={notes}
               onChange={(e) => setNotes(e.target.value)}
-              placeholder="Add any additional notes about this account"
+              placeholder={t("accounts.form.notesPlaceholder")}
               rows={3}
             />
           </div>
@@ -284,14 +312,14 @@ export function BankAccountForm({
           {/* Submit Button */}
           <div className="flex justify-end space-x-3 pt-4">
             <Button type="button" onClick={onClose} variant="outline">
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button type="submit" disabled={isLoading}>
               {isLoading
-                ? "Saving..."
+                ? t("common.saving")
                 : account
-                ? "Update Account"
-                : "Add Account"}
+                ? t("accounts.update")
+                : t("accounts.add")}
             </Button>
           </div>
         </form>
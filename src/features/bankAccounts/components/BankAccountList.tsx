@@ -34,6 +34,7 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BankAccountListProps {
   onEdit: (account: BankAccount) => void;
@@ -49,6 +50,7 @@ export function BankAccountList({
   accountType,
 }: BankAccountListProps) {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [accounts, setAccounts] = useState<BankAccount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -84,11 +86,11 @@ export function BankAccountList({
       setTotalBalance(total);
     } catch (err) {
       console.error("Error loading bank accounts:", err);
-      setError("Failed to load bank accounts. Please try again.");
+      setError(t("accounts.loadError"));
     } finally {
       setIsLoading(false);
     }
-  }, [accountType]);
+  }, [accountType, t]);
 
   // Load accounts on component mount or when accountType changes
   useEffect(() => {
@@ -109,13 +111,13 @@ export function BankAccountList({
       if (error) throw error;
 
       // Show success toast
-      showItemDeletedToast("Bank account");
+      showItemDeletedToast(t("toast.items.bankAccount"));
 
       // Reload accounts
       loadAccounts();
     } catch (err) {
       console.error("Error deleting bank account:", err);
-      showErrorToast("Failed to delete bank account");
+      showErrorToast(t("accounts.deleteError"));
     } finally {
       setIsDeleteConfirmOpen(false);
       setAccountToDelete(null);
@@ -132,7 +134,7 @@ export function BankAccountList({
       loadAccounts();
     } catch (err) {
       console.error("Error setting default account:", err);
-      showErrorToast("Failed to set default account");
+      showErrorToast(t("accounts.setDefaultError"));
     }
   };
 
@@ -186,10 +188,10 @@ export function BankAccountList({
           <CardTitle className="text-lg flex items-center">
             <CreditCard className="mr-2 h-5 w-5 text-blue-500" />
             {accountType
-              ? `Total ${
-                  accountType.charAt(0).toUpperCase() + accountType.slice(1)
-                } Balance`
-              : "Total Balance"}
+              ? t("accounts.totalTypeBalance", {
+                  type: t(`accounts.types.${accountType}`),
+                })
+              : t("accounts.totalBalance")}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -197,7 +199,7 @@ export function BankAccountList({
             {formatCurrency(totalBalance)}
           </div>
           <p className="text-sm text-muted-foreground mt-1">
-            Across {accounts.length} account{accounts.length !== 1 ? "s" : ""}
+            {t("accounts.acrossAccounts", { count: accounts.length })}
           </p>
         </CardContent>
       </Card>
@@ -208,10 +210,10 @@ export function BankAccountList({
           <CardTitle className="text-xl flex items-center">
             <Wallet className="mr-2 h-5 w-5 text-blue-500" />
             {accountType
-              ? `Your ${
-                  accountType.charAt(0).toUpperCase() + accountType.slice(1)
-                } Accounts`
-              : "Your Accounts"}
+              ? t("accounts.yourTypeAccounts", {
+                  type: t(`accounts.types.${accountType}`),
+                })
+              : t("accounts.yourAccounts")}
           </CardTitle>
           {showAddButton && (
             <Button
@@ -220,24 +222,28 @@ export function BankAccountList({
               className="bg-blue-600 hover:bg-blue-700"
             >
               <Plus className="h-4 w-4 mr-1" />
-              Add Account
+              {t("accounts.add")}
             </Button>
           )}
         </CardHeader>
         <CardContent>
           {accounts.length === 0 ? (
             <div className="p-6 text-center text-muted-foreground">
-              No {accountType || "bank"} accounts found.{" "}
+              {accountType
+                ? t("accounts.emptyType", {
+                    type: t(`accounts.types.${accountType}`),
+                  })
+                : t("accounts.empty")}{" "}
               {showAddButton && (
                 <Button
                   onClick={handleAddAccount}
                   variant="link"
                   className="px-1 py-0 h-auto"
                 >
-                  Add your first account
+                  {t("accounts.addFirst")}
                 </Button>
               )}{" "}
-              to start tracking your finances!
+              {t("accounts.toStartTracking")}
             </div>
           ) : (
             <ul className="divide-y divide-border">
@@ -259,18 +265,18 @@ export function BankAccountList({
                           {account.is_default && (
                             <Badge variant="outline" className="text-xs">
                               <Star className="h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" />
-                              Default
+                              {t("accounts.default")}
                             </Badge>
                           )}
                         </div>
                         <p className="text-sm text-muted-foreground">
-                          {account.institution || "No institution"} •{" "}
+                          {account.institution || t("accounts.noInstitution")} •{" "}
                           {account.account_number
                             ? `****${account.account_number}`
-                            : "No account number"}
+                            : t("accounts.noAccountNumber")}
                         </p>
-                        <Badge variant="outline" className="mt-1 capitalize">
-                          {account.account_type}
+                        <Badge variant="outline" className="mt-1">
+                          {t(`accounts.types.${account.account_type}`)}
                         </Badge>
                       </div>
                     </div>
@@ -293,7 +299,7 @@ export function BankAccountList({
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8"
-                            title="Set as default"
+                            title={t("accounts.setAsDefault")}
                           >
                             <Star className="h-4 w-4" />
                           </Button>
@@ -328,22 +334,18 @@ export function BankAccountList({
       <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete this bank account? This action
-              cannot be undone. Any transactions associated with this account
-              will remain but will no longer be linked to an account.
-            </DialogDescription>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("accounts.deleteConfirm")}</DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button
               variant="outline"
               onClick={() => setIsDeleteConfirmOpen(false)}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete Account
+              {t("accounts.deleteAccount")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { AlertCircle } from "lucide-react";
+import {
+  showItemCreatedToast,
+  showItemUpdatedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createNetWorthItem,
+  updateNetWorthItem,
+  NetWorthItem,
+  NetWorthItemInsert,
+} from "../../../api/supabase/netWorth";
+import { CURRENCIES } from "../../../utils/constants";
+import { getCurrencyName } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface NetWorthItemFormProps {
+  item?: NetWorthItem;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function NetWorthItemForm({
+  item,
+  onClose,
+  onSuccess,
+}: NetWorthItemFormProps) {
+  const { user, userSettings } = useAuth();
+  const { t } = useLanguage();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState(item?.name || "");
+  const [itemType, setItemType] = useState<"asset" | "liability">(
+    item?.item_type || "asset"
+  );
+  const [value, setValue] = useState(item?.value?.toString() || "");
+  const [currency, setCurrency] = useState(
+    item?.currency || userSettings?.currency || "USD"
+  );
+  const [notes, setNotes] = useState(item?.notes || "");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Validate form
+      if (!name.trim()) {
+        setError(t("accounts.items.form.nameRequired"));
+        return;
+      }
+
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount < 0) {
+        setError(t("accounts.items.form.invalidValue"));
+        return;
+      }
+
+      const itemData: NetWorthItemInsert = {
+        user_id: user.id,
+        name: name.trim(),
+        item_type: itemType,
+        value: Math.round(amount * 100) / 100,
+        currency,
+        notes: notes || null,
+      };
+
+      const result = item
+        ? await updateNetWorthItem(item.id, itemData)
+        : await createNetWorthItem(itemData);
+
+      if (result.error) {
+        throw result.error;
+      }
+
+      if (item) {
+        showItemUpdatedToast(t("toast.items.netWorthItem"));
+      } else {
+        showItemCreatedToast(t("toast.items.netWorthItem"));
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error("Error saving net worth item:", err);
+      setError(t("accounts.items.saveError"));
+      showErrorToast(t("accounts.items.saveError"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Name */}
+      <div className="space-y-2">
+        <Label htmlFor="itemName">{t("accounts.items.form.name")}</Label>
+        <Input
+          id="itemName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("accounts.items.form.namePlaceholder")}
+          required
+        />
+      </div>
+
+      {/* Type */}
+      <div className="space-y-2">
+        <Label htmlFor="itemType">{t("accounts.items.form.type")}</Label>
+        <Select
+          value={itemType}
+          onValueChange={(value) => setItemType(value as "asset" | "liability")}
+        >
+          <SelectTrigger id="itemType">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="asset">{t("accounts.types.asset")}</SelectItem>
+            <SelectItem value="liability">
+              {t("accounts.types.liability")}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Value */}
+      <div className="space-y-2">
+        <Label htmlFor="itemValue">{t("accounts.items.form.value")}</Label>
+        <Input
+          id="itemValue"
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          step="0.01"
+          min="0"
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          {itemType === "asset"
+            ? t("accounts.items.form.assetValueHelp")
+            : t("accounts.items.form.liabilityValueHelp")}
+        </p>
+      </div>
+
+      {/* Currency */}
+      <div className="space-y-2">
+        <Label htmlFor="itemCurrency">{t("common.currency")}</Label>
+        <Select value={currency} onValueChange={setCurrency}>
+          <SelectTrigger id="itemCurrency">
+            <SelectValue placeholder={t("common.selectCurrency")} />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCIES.map((curr) => (
+              <SelectItem key={curr.code} value={curr.code}>
+                {curr.code} - {getCurrencyName(curr.code)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Notes */}
+      <div className="space-y-2">
+        <Label htmlFor="itemNotes">{t("common.notes")}</Label>
+        <Textarea
+          id="itemNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex justify-end space-x-3 pt-4">
+        <Button type="button" onClick={onClose} variant="outline">
+          {t("common.cancel")}
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading
+            ? t("common.saving")
+            : item
+            ? t("accounts.items.update")
+            : t("accounts.items.add")}
+        </Button>
+      </div>
+    </form>
+  );
+}
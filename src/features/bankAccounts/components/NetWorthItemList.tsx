@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  getNetWorthItems,
+  deleteNetWorthItem,
+  getNetWorthContribution,
+  NetWorthItem,
+} from "../../../api/supabase/netWorth";
+import { getCurrencyConverter } from "../../../api/supabase/exchangeRates";
+import { formatCurrency } from "../../../utils/formatters";
+import { showItemDeletedToast, showErrorToast } from "../../../utils/toast";
+import {
+  Edit,
+  Trash2,
+  Plus,
+  AlertCircle,
+  Loader2,
+  Home,
+  Landmark,
+  Scale,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface NetWorthItemListProps {
+  onEdit: (item: NetWorthItem) => void;
+  onAdd: () => void;
+  // Changing it reloads the list, e.g. after the form saved an item
+  refreshKey?: number;
+}
+
+export function NetWorthItemList({
+  onEdit,
+  onAdd,
+  refreshKey = 0,
+}: NetWorthItemListProps) {
+  const { t } = useLanguage();
+  const [items, setItems] = useState<NetWorthItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+
+  // Load items
+  const loadItems = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getNetWorthItems();
+      if (error) throw error;
+
+      setItems(data || []);
+
+      // Assets minus liabilities, in the base currency
+      const converter = await getCurrencyConverter();
+      const today = new Date().toISOString().split("T")[0];
+      setTotal(
+        (data || []).reduce(
+          (sum, item) =>
+            sum +
+            getNetWorthContribution(
+              item.item_type,
+              converter.convert(item.value, item.currency, today)
+            ),
+          0
+        )
+      );
+    } catch (err) {
+      console.error("Error loading net worth items:", err);
+      setError(t("accounts.items.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadItems();
+  }, [refreshKey, loadItems]);
+
+  // Handle item deletion
+  const handleDeleteClick = (id: string) => {
+    setItemToDelete(id);
+    setIsDeleteConfirmOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!itemToDelete) return;
+
+    try {
+      const { error } = await deleteNetWorthItem(itemToDelete);
+      if (error) throw error;
+
+      showItemDeletedToast(t("toast.items.netWorthItem"));
+      loadItems();
+    } catch (err) {
+      console.error("Error deleting net worth item:", err);
+      showErrorToast(t("accounts.items.deleteError"));
+    } finally {
+      setIsDeleteConfirmOpen(false);
+      setItemToDelete(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Total Card */}
+      <Card className="border-t-4 border-t-blue-500 bg-gradient-to-br from-blue-50/50 to-transparent">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <Scale className="mr-2 h-5 w-5 text-blue-500" />
+            {t("accounts.items.total")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div
+            className={`text-3xl font-bold ${
+              total < 0 ? "text-red-500" : "text-blue-700"
+            }`}
+          >
+            {formatCurrency(total)}
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t("accounts.items.totalHelp")}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Items List */}
+      <Card className="border-t-4 border-t-blue-500">
+        <CardHeader className="flex flex-row items-center justify-between py-4">
+          <CardTitle className="text-xl flex items-center">
+            <Home className="mr-2 h-5 w-5 text-blue-500" />
+            {t("accounts.items.title")}
+          </CardTitle>
+          <Button
+            onClick={onAdd}
+            size="sm"
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t("accounts.items.add")}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {items.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground">
+              {t("accounts.items.empty")}
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="py-4 hover:bg-muted/50 rounded-md px-2"
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex items-start space-x-3">
+                      <div className="p-2 bg-primary/10 rounded-full">
+                        {item.item_type === "asset" ? (
+                          <Home className="h-4 w-4" />
+                        ) : (
+                          <Landmark className="h-4 w-4" />
+                        )}
+                      </div>
+                      <div>
+                        <h3 className="text-md font-medium">{item.name}</h3>
+                        {item.notes && (
+                          <p className="text-sm text-muted-foreground">
+                            {item.notes}
+                          </p>
+                        )}
+                        <Badge variant="outline" className="mt-1">
+                          {t(`accounts.types.${item.item_type}`)}
+                        </Badge>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div
+                        className={`text-lg font-semibold ${
+                          item.item_type === "liability" ? "text-red-500" : ""
+                        }`}
+                      >
+                        {formatCurrency(item.value, {
+                          currency: item.currency,
+                        })}
+                      </div>
+                      <div className="flex mt-2 space-x-1 justify-end">
+                        <Button
+                          onClick={() => onEdit(item)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => handleDeleteClick(item.id)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>
+              {t("accounts.items.deleteConfirm")}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDeleteConfirmOpen(false)}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm}>
+              {t("common.delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
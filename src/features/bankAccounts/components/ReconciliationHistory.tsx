@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { AlertCircle, Loader2, Undo2 } from "lucide-react";
+import {
+  getReconciliations,
+  undoReconciliation,
+  AccountReconciliation,
+} from "../../../api/supabase/reconciliations";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface ReconciliationHistoryProps {
+  accountId: string;
+  currency?: string;
+  onChange?: () => void;
+}
+
+export function ReconciliationHistory({
+  accountId,
+  currency,
+  onChange,
+}: ReconciliationHistoryProps) {
+  const { t } = useLanguage();
+  const [reconciliations, setReconciliations] = useState<
+    AccountReconciliation[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [toUndo, setToUndo] = useState<AccountReconciliation | null>(null);
+  // Bumped to reload the history after an undo
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadReconciliations = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error } = await getReconciliations(accountId);
+        if (error) throw error;
+
+        setReconciliations(data || []);
+      } catch (err) {
+        console.error("Error loading reconciliations:", err);
+        setError(t("accounts.reconciliation.historyError"));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReconciliations();
+  }, [accountId, reloadKey, t]);
+
+  const handleUndo = async () => {
+    if (!toUndo) return;
+
+    const { error } = await undoReconciliation(toUndo);
+    if (error) {
+      console.error("Error undoing reconciliation:", error);
+      showErrorToast(
+        error instanceof Error
+          ? error.message
+          : t("accounts.reconciliation.undoError")
+      );
+    } else {
+      showToast({
+        type: "success",
+        title: t("accounts.reconciliation.undone"),
+        description: t("accounts.reconciliation.undoneDescription"),
+        duration: 3000,
+      });
+      setReloadKey((key) => key + 1);
+      onChange?.();
+    }
+    setToUndo(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (reconciliations.length === 0) {
+    return (
+      <div className="p-4 text-center text-muted-foreground">
+        {t("accounts.reconciliation.never")}
+      </div>
+    );
+  }
+
+  // Only the latest completed statement can be undone
+  const latestCompleted = reconciliations.find((r) => r.status === "completed");
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("accounts.reconciliation.statementDate")}</TableHead>
+            <TableHead className="text-right">
+              {t("accounts.reconciliation.closingBalance")}
+            </TableHead>
+            <TableHead className="text-right">
+              {t("accounts.reconciliation.transactions")}
+            </TableHead>
+            <TableHead>{t("accounts.reconciliation.completed")}</TableHead>
+            <TableHead className="text-right">{t("common.actions")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reconciliations.map((reconciliation) => (
+            <TableRow key={reconciliation.id}>
+              <TableCell>{formatDate(reconciliation.statement_date)}</TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(reconciliation.statement_balance, {
+                  currency,
+                })}
+              </TableCell>
+              <TableCell className="text-right">
+                {reconciliation.status === "completed"
+                  ? reconciliation.cleared_count
+                  : "—"}
+              </TableCell>
+              <TableCell>
+                {reconciliation.status === "completed" &&
+                reconciliation.completed_at ? (
+                  formatDate(reconciliation.completed_at)
+                ) : (
+                  <Badge variant="outline">
+                    {t("accounts.reconciliation.inProgress")}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {reconciliation.id === latestCompleted?.id && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("accounts.reconciliation.undo")}
+                    onClick={() => setToUndo(reconciliation)}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <AlertDialog
+        open={toUndo !== null}
+        onOpenChange={(open) => !open && setToUndo(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("accounts.reconciliation.undoTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("accounts.reconciliation.undoDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleUndo}>
+              {t("accounts.reconciliation.undo")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { recordNetWorthSnapshot } from "../../../api/supabase/netWorth";
+
+// Users whose net worth snapshot was already taken this session
+const syncedUsers = new Set<string>();
+
+/**
+ * Take this month's net worth snapshot once per session, when the user opens
+ * the app, so the history has a point for every month they use it in
+ */
+export const useNetWorthSnapshotSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user || syncedUsers.has(user.id)) return;
+    syncedUsers.add(user.id);
+
+    const syncNetWorthSnapshot = async () => {
+      const { error } = await recordNetWorthSnapshot();
+
+      if (error) {
+        console.error("Error recording net worth snapshot:", error);
+        // Try again on the next page load
+        syncedUsers.delete(user.id);
+      }
+    };
+
+    syncNetWorthSnapshot();
+  }, [user]);
+};
@@ -11,10 +11,12 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, CreditCard } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function BankAccountPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<BankAccount | undefined>(
     undefined
@@ -51,7 +53,7 @@ export function BankAccountPage() {
           <ChevronLeft size={20} />
         </Button>
         <CreditCard className="h-6 w-6 text-blue-500" />
-        <h2 className="text-2xl font-bold">Account Details</h2>
+        <h2 className="text-2xl font-bold">{t("accounts.details")}</h2>
       </div>
 
       <BankAccountDetails
@@ -64,7 +66,7 @@ export function BankAccountPage() {
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="sm:max-w-md md:max-w-lg">
           <DialogHeader>
-            <DialogTitle>Edit Account</DialogTitle>
+            <DialogTitle>{t("accounts.edit")}</DialogTitle>
           </DialogHeader>
           <BankAccountForm
             account={selectedAccount}
@@ -1,7 +1,10 @@
 import { useState } from "react";
 import { BankAccountList } from "../components/BankAccountList";
 import { BankAccountForm } from "../components/BankAccountForm";
+import { NetWorthItemList } from "../components/NetWorthItemList";
+import { NetWorthItemForm } from "../components/NetWorthItemForm";
 import { BankAccount } from "../../../api/supabase/bankAccounts";
+import { NetWorthItem } from "../../../api/supabase/netWorth";
 import { CreditCard, Wallet } from "lucide-react";
 import {
   Sheet,
@@ -13,15 +16,22 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 
 type AccountType = "checking" | "savings" | "credit" | "investment" | "other";
 
 export function BankAccountsPage() {
+  const { t } = useLanguage();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<
     BankAccount | undefined
   >(undefined);
   const [activeTab, setActiveTab] = useState<string>("all");
+  const [isItemFormOpen, setIsItemFormOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<NetWorthItem | undefined>(
+    undefined
+  );
+  const [itemsRefreshKey, setItemsRefreshKey] = useState(0);
 
   const handleAddAccount = () => {
     setSelectedAccount(undefined);
@@ -44,12 +54,31 @@ export function BankAccountsPage() {
     setSelectedAccount(undefined);
   };
 
+  const handleAddItem = () => {
+    setSelectedItem(undefined);
+    setIsItemFormOpen(true);
+  };
+
+  const handleEditItem = (item: NetWorthItem) => {
+    setSelectedItem(item);
+    setIsItemFormOpen(true);
+  };
+
+  const handleItemFormClose = () => {
+    setIsItemFormOpen(false);
+    setSelectedItem(undefined);
+  };
+
+  const handleItemFormSuccess = () => {
+    setItemsRefreshKey((key) => key + 1);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <CreditCard className="h-6 w-6 text-blue-500" />
-          <h2 className="text-2xl font-bold">Bank Accounts</h2>
+          <h2 className="text-2xl font-bold">{t("accounts.title")}</h2>
         </div>
         <Badge
           variant="outline"
@@ -72,31 +101,37 @@ export function BankAccountsPage() {
               value="all"
               className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700"
             >
-              All Accounts
+              {t("accounts.allAccounts")}
             </TabsTrigger>
             <TabsTrigger 
               value="checking"
               className="data-[state=active]:bg-green-50 data-[state=active]:text-green-700"
             >
-              Checking
+              {t("accounts.types.checking")}
             </TabsTrigger>
             <TabsTrigger 
               value="savings"
               className="data-[state=active]:bg-amber-50 data-[state=active]:text-amber-700"
             >
-              Savings
+              {t("accounts.types.savings")}
             </TabsTrigger>
             <TabsTrigger 
               value="credit"
               className="data-[state=active]:bg-red-50 data-[state=active]:text-red-700"
             >
-              Credit
+              {t("accounts.types.credit")}
             </TabsTrigger>
             <TabsTrigger 
               value="investment"
               className="data-[state=active]:bg-purple-50 data-[state=active]:text-purple-700"
             >
-              Investment
+              {t("accounts.types.investment")}
+            </TabsTrigger>
+            <TabsTrigger 
+              value="manual"
+              className="data-[state=active]:bg-slate-50 data-[state=active]:text-slate-700"
+            >
+              {t("accounts.items.tab")}
             </TabsTrigger>
           </TabsList>
 
@@ -138,6 +173,14 @@ export function BankAccountsPage() {
               accountType="investment"
             />
           </TabsContent>
+
+          <TabsContent value="manual" className="mt-0">
+            <NetWorthItemList
+              onEdit={handleEditItem}
+              onAdd={handleAddItem}
+              refreshKey={itemsRefreshKey}
+            />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -146,7 +189,7 @@ export function BankAccountsPage() {
         <SheetContent side="right" className="p-0 sm:max-w-md">
           <SheetHeader className="p-6 pb-2">
             <SheetTitle>
-              {selectedAccount ? "Edit Account" : "Add Account"}
+              {selectedAccount ? t("accounts.edit") : t("accounts.add")}
             </SheetTitle>
             <SheetClose className="absolute top-4 right-4" />
           </SheetHeader>
@@ -156,12 +199,35 @@ export function BankAccountsPage() {
               onClose={handleFormClose}
               onSuccess={handleFormSuccess}
               defaultType={
-                activeTab === "all" ? "checking" : (activeTab as AccountType)
+                activeTab === "all" || activeTab === "manual"
+                  ? "checking"
+                  : (activeTab as AccountType)
               }
             />
           </div>
         </SheetContent>
       </Sheet>
+
+      {/* Asset and Liability Form Sidebar */}
+      <Sheet open={isItemFormOpen} onOpenChange={setIsItemFormOpen}>
+        <SheetContent side="right" className="p-0 sm:max-w-md">
+          <SheetHeader className="p-6 pb-2">
+            <SheetTitle>
+              {selectedItem
+                ? t("accounts.items.edit")
+                : t("accounts.items.add")}
+            </SheetTitle>
+            <SheetClose className="absolute top-4 right-4" />
+          </SheetHeader>
+          <div className="px-6 pb-6">
+            <NetWorthItemForm
+              item={selectedItem}
+              onClose={handleItemFormClose}
+              onSuccess={handleItemFormSuccess}
+            />
+          </div>
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
@@ -6,8 +6,10 @@ import { Plus } from "lucide-react";
 import { useState } from "react";
 
 import { CreditCard, Repeat } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function AddBillsAndSubscriptions() {
+  const { t } = useLanguage();
   const [isBillModalOpen, setIsBillModalOpen] = useState(false);
   const [isSubscriptionModalOpen, setIsSubscriptionModalOpen] = useState(false);
 
@@ -20,8 +22,8 @@ export function AddBillsAndSubscriptions() {
             <div className="flex items-center gap-3">
               <CreditCard className="h-6 w-6 text-cyan-500" />
               <div>
-                <CardTitle className="text-lg flex items-center gap-2">Bills</CardTitle>
-                <p className="text-xs text-muted-foreground mt-1">Track one-time or irregular expenses.</p>
+                <CardTitle className="text-lg flex items-center gap-2">{t("bills.bills")}</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">{t("bills.billsDescription")}</p>
               </div>
             </div>
             <Button
@@ -30,7 +32,7 @@ export function AddBillsAndSubscriptions() {
               variant="default"
               size="sm"
             >
-              <Plus size={16} /> Add Bill
+              <Plus size={16} /> {t("bills.addBill")}
             </Button>
           </div>
         </CardHeader>
@@ -50,8 +52,8 @@ export function AddBillsAndSubscriptions() {
             <div className="flex items-center gap-3">
               <Repeat className="h-6 w-6 text-violet-500" />
               <div>
-                <CardTitle className="text-lg flex items-center gap-2">Subscriptions</CardTitle>
-                <p className="text-xs text-muted-foreground mt-1">Manage your recurring payments and services.</p>
+                <CardTitle className="text-lg flex items-center gap-2">{t("bills.subscriptions")}</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">{t("bills.subscriptionsDescription")}</p>
               </div>
             </div>
             <Button
@@ -60,7 +62,7 @@ export function AddBillsAndSubscriptions() {
               variant="default"
               size="sm"
             >
-              <Plus size={16} /> Add Subscription
+              <Plus size={16} /> {t("bills.addSubscription")}
             </Button>
           </div>
         </CardHeader>
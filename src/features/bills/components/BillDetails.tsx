@@ -17,13 +17,19 @@ import {
   markBillAsPaid,
   addBillPayment,
 } from "../../../api/supabase/bills";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
 import { PaymentHistory } from "./PaymentHistory";
 import { BillModal } from "./BillModal";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -34,6 +40,13 @@ import {
   DialogTitle,
   DialogClose,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface BillDetailsProps {
   billId: string;
@@ -41,6 +54,7 @@ interface BillDetailsProps {
 }
 
 export function BillDetails({ billId }: BillDetailsProps) {
+  const { t } = useLanguage();
   const [bill, setBill] = useState<BillWithCategory | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -49,6 +63,12 @@ export function BillDetails({ billId }: BillDetailsProps) {
   const [paymentAmount, setPaymentAmount] = useState("");
   const [paymentMethod, setPaymentMethod] = useState("");
   const [paymentNotes, setPaymentNotes] = useState("");
+  // Record the payment as an expense transaction on this account
+  const [recordAsExpense, setRecordAsExpense] = useState(false);
+  const [paymentAccountId, setPaymentAccountId] = useState("");
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  // Bumped to reload the payment history after a payment is added
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   useEffect(() => {
     async function fetchBillDetails() {
@@ -56,23 +76,30 @@ export function BillDetails({ billId }: BillDetailsProps) {
         setIsLoading(true);
         setError(null);
 
-        const { data, error } = await getBillById(billId);
+        const [{ data, error }, accountsResult] = await Promise.all([
+          getBillById(billId),
+          getBankAccounts(),
+        ]);
 
         if (error) {
           throw error;
         }
+        if (accountsResult.error) {
+          console.error("Error fetching bank accounts:", accountsResult.error);
+        }
 
         setBill(data);
+        setAccounts(accountsResult.data || []);
       } catch (err) {
         console.error("Error fetching bill details:", err);
-        setError("Failed to load bill details");
+        setError(t("bills.loadDetailsError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBillDetails();
-  }, [billId]);
+  }, [billId, t]);
 
   const handleMarkAsPaid = async () => {
     if (!bill) return;
@@ -85,7 +112,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
       if (data) setBill(data);
     } catch (err) {
       console.error("Error marking bill as paid:", err);
-      setError("Failed to mark bill as paid");
+      setError(t("bills.markPaidError"));
     }
   };
 
@@ -97,7 +124,11 @@ export function BillDetails({ billId }: BillDetailsProps) {
     try {
       const amount = parseFloat(paymentAmount);
       if (isNaN(amount) || amount <= 0) {
-        setError("Please enter a valid payment amount");
+        setError(t("bills.payments.invalidAmount"));
+        return;
+      }
+      if (recordAsExpense && !paymentAccountId) {
+        setError(t("bills.payments.accountRequired"));
         return;
       }
 
@@ -106,7 +137,8 @@ export function BillDetails({ billId }: BillDetailsProps) {
         amount,
         new Date(),
         paymentMethod || undefined,
-        paymentNotes || undefined
+        paymentNotes || undefined,
+        recordAsExpense ? paymentAccountId : undefined
       );
 
       if (error) throw error;
@@ -114,15 +146,18 @@ export function BillDetails({ billId }: BillDetailsProps) {
       // Refresh bill details
       const { data: updatedBill } = await getBillById(bill.id);
       setBill(updatedBill);
+      setHistoryVersion((version) => version + 1);
 
       // Reset form
       setPaymentAmount("");
       setPaymentMethod("");
       setPaymentNotes("");
+      setRecordAsExpense(false);
+      setPaymentAccountId("");
       setIsPaymentModalOpen(false);
     } catch (err) {
       console.error("Error adding payment:", err);
-      setError("Failed to add payment");
+      setError(t("bills.payments.addError"));
     }
   };
 
@@ -137,24 +172,6 @@ export function BillDetails({ billId }: BillDetailsProps) {
     setBill(data);
   };
 
-  // Get frequency display text
-  const getFrequencyText = (frequency: string) => {
-    switch (frequency) {
-      case "one-time":
-        return "One-time";
-      case "daily":
-        return "Daily";
-      case "weekly":
-        return "Weekly";
-      case "monthly":
-        return "Monthly";
-      case "yearly":
-        return "Yearly";
-      default:
-        return frequency;
-    }
-  };
-
   // Check if a bill is due soon (within the next 7 days)
   const isDueSoon = (nextDueDate: string) => {
     const today = new Date();
@@ -189,7 +206,9 @@ export function BillDetails({ billId }: BillDetailsProps) {
   }
 
   if (!bill) {
-    return <div className="p-4 text-muted-foreground">Bill not found</div>;
+    return (
+      <div className="p-4 text-muted-foreground">{t("bills.notFound")}</div>
+    );
   }
 
   return (
@@ -203,7 +222,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
               variant="ghost"
               size="icon"
               className="h-8 w-8 text-muted-foreground hover:text-primary"
-              aria-label="Edit"
+              aria-label={t("common.edit")}
             >
               <Edit size={18} />
             </Button>
@@ -215,7 +234,9 @@ export function BillDetails({ billId }: BillDetailsProps) {
               <div className="flex items-center mb-4">
                 <DollarSign size={18} className="text-muted-foreground mr-2" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Amount</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t("common.amount")}
+                  </p>
                   <p className="text-lg font-medium">
                     {formatCurrency(bill.amount)}
                   </p>
@@ -225,15 +246,17 @@ export function BillDetails({ billId }: BillDetailsProps) {
               <div className="flex items-center mb-4">
                 <Calendar size={18} className="text-muted-foreground mr-2" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Next Due Date</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t("bills.nextDueDate")}
+                  </p>
                   <p className="font-medium">
                     {bill.next_due_date
                       ? formatDate(bill.next_due_date, "medium")
-                      : "Not set"}
+                      : t("bills.notSet")}
 
                     {bill.next_due_date && isOverdue(bill.next_due_date) && (
                       <span className="ml-2 text-xs text-destructive font-normal">
-                        Overdue
+                        {t("bills.overdue")}
                       </span>
                     )}
 
@@ -241,7 +264,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
                       !isOverdue(bill.next_due_date) &&
                       isDueSoon(bill.next_due_date) && (
                         <span className="ml-2 text-xs text-yellow-600 font-normal">
-                          Due soon
+                          {t("bills.dueSoon")}
                         </span>
                       )}
                   </p>
@@ -251,9 +274,11 @@ export function BillDetails({ billId }: BillDetailsProps) {
               <div className="flex items-center mb-4">
                 <Clock size={18} className="text-muted-foreground mr-2" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Frequency</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t("bills.frequency")}
+                  </p>
                   <p className="font-medium">
-                    {getFrequencyText(bill.frequency)}
+                    {t(`bills.frequencies.${bill.frequency}`)}
                   </p>
                 </div>
               </div>
@@ -263,9 +288,11 @@ export function BillDetails({ billId }: BillDetailsProps) {
               <div className="flex items-center mb-4">
                 <Tag size={18} className="text-muted-foreground mr-2" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Category</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t("common.category")}
+                  </p>
                   <p className="font-medium">
-                    {bill.category_name || "Uncategorized"}
+                    {bill.category_name || t("bills.uncategorized")}
                   </p>
                 </div>
               </div>
@@ -278,7 +305,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
                   />
                   <div>
                     <p className="text-sm text-muted-foreground">
-                      Payment Method
+                      {t("bills.paymentMethod")}
                     </p>
                     <p className="font-medium">{bill.payment_method}</p>
                   </div>
@@ -288,8 +315,12 @@ export function BillDetails({ billId }: BillDetailsProps) {
               <div className="flex items-center mb-4">
                 <AlertCircle size={18} className="text-muted-foreground mr-2" />
                 <div>
-                  <p className="text-sm text-muted-foreground">Status</p>
-                  <p className="font-medium capitalize">{bill.status}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t("common.status")}
+                  </p>
+                  <p className="font-medium">
+                    {t(`bills.statuses.${bill.status}`)}
+                  </p>
                 </div>
               </div>
             </div>
@@ -297,7 +328,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
 
           {bill.notes && (
             <div className="mb-6">
-              <h3 className="text-sm font-medium mb-2">Notes</h3>
+              <h3 className="text-sm font-medium mb-2">{t("common.notes")}</h3>
               <p className="text-muted-foreground bg-muted p-3 rounded-md">
                 {bill.notes}
               </p>
@@ -311,7 +342,7 @@ export function BillDetails({ billId }: BillDetailsProps) {
               className="flex items-center"
             >
               <CheckCircle2 size={16} className="mr-1" />
-              Mark as Paid
+              {t("bills.markAsPaid")}
             </Button>
 
             <Button
@@ -319,11 +350,16 @@ export function BillDetails({ billId }: BillDetailsProps) {
               className="flex items-center"
             >
               <DollarSign size={16} className="mr-1" />
-              Add Payment
+              {t("bills.payments.add")}
             </Button>
           </div>
 
-          <PaymentHistory billId={bill.id} className="mt-6" />
+          <PaymentHistory
+            key={historyVersion}
+            billId={bill.id}
+            onChange={handleBillUpdate}
+            className="mt-6"
+          />
         </CardContent>
       </Card>
 
@@ -339,16 +375,18 @@ export function BillDetails({ billId }: BillDetailsProps) {
       <Dialog open={isPaymentModalOpen} onOpenChange={setIsPaymentModalOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Add Payment</DialogTitle>
+            <DialogTitle>{t("bills.payments.add")}</DialogTitle>
             <DialogClose className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:pointer-events-none data-[state=open]:bg-accent data-[state=open]:text-muted-foreground">
               <X className="h-4 w-4" />
-              <span className="sr-only">Close</span>
+              <span className="sr-only">{t("common.close")}</span>
             </DialogClose>
           </DialogHeader>
 
           <form onSubmit={handleAddPayment} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="paymentAmount">Amount *</Label>
+              <Label htmlFor="paymentAmount">
+                {t("bills.payments.amount")}
+              </Label>
               <div className="relative">
                 <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-muted-foreground">
                   $
@@ -367,18 +405,18 @@ export function BillDetails({ billId }: BillDetailsProps) {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="paymentMethod">Payment Method</Label>
+              <Label htmlFor="paymentMethod">{t("bills.paymentMethod")}</Label>
               <Input
                 type="text"
                 id="paymentMethod"
                 value={paymentMethod}
                 onChange={(e) => setPaymentMethod(e.target.value)}
-                placeholder="e.g., Credit Card, Bank Transfer"
+                placeholder={t("bills.payments.methodPlaceholder")}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="paymentNotes">Notes</Label>
+              <Label htmlFor="paymentNotes">{t("common.notes")}</Label>
               <Textarea
                 id="paymentNotes"
                 value={paymentNotes}
@@ -387,15 +425,56 @@ export function BillDetails({ billId }: BillDetailsProps) {
               />
             </div>
 
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="recordAsExpense">
+                    {t("bills.payments.recordAsExpense")}
+                  </Label>
+                  <Switch
+                    id="recordAsExpense"
+                    checked={recordAsExpense}
+                    onCheckedChange={setRecordAsExpense}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {bill.category_name
+                    ? t("bills.payments.recordAsExpenseHelp", {
+                        category: bill.category_name,
+                      })
+                    : t("bills.payments.recordAsExpenseUncategorized")}
+                </p>
+                {recordAsExpense && (
+                  <Select
+                    value={paymentAccountId}
+                    onValueChange={setPaymentAccountId}
+                  >
+                    <SelectTrigger id="paymentAccount">
+                      <SelectValue
+                        placeholder={t("bills.payments.selectAccount")}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => setIsPaymentModalOpen(false)}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
-              <Button type="submit">Add Payment</Button>
+              <Button type="submit">{t("bills.payments.add")}</Button>
             </DialogFooter>
           </form>
         </DialogContent>
@@ -8,6 +8,9 @@ import {
   showErrorToast,
 } from "../../../utils/toast";
 import { getCategories } from "../../../api/supabase/categories";
+import { useLanguage } from "../../../providers/languageUtils";
+import { getCurrencyName } from "../../../i18n";
+import { CURRENCIES } from "../../../utils/constants";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -42,7 +45,8 @@ export function BillForm({
   onCancel,
   defaultType,
 }: BillFormProps) {
-  const { user } = useAuth();
+  const { user, userSettings } = useAuth();
+  const { t } = useLanguage();
   const [categories, setCategories] = useState<
     Array<{ id: string; name: string; color: string }>
   >([]);
@@ -64,6 +68,7 @@ export function BillForm({
       user_id: user?.id || "",
       name: bill?.name || "",
       amount: bill?.amount || 0,
+      currency: bill?.currency || userSettings?.currency || "USD",
       due_date: bill?.due_date || new Date().toISOString().split("T")[0],
       frequency: bill?.frequency || "monthly",
       category_id: bill?.category_id || "none",
@@ -102,16 +107,16 @@ export function BillForm({
           methods.setValue("category_id", expenseCategories[0].id);
         }
       } catch {
-        setError("Failed to load categories");
+        setError(t("common.loadCategoriesError"));
       }
     }
     fetchCategories();
-  }, [bill, methods]);
+  }, [bill, methods, t]);
 
   // Submission logic
   const onFormSubmit = async (data: BillInsert) => {
     if (!user) {
-      setError("You must be logged in to create a bill");
+      setError(t("bills.form.loginRequired"));
       return;
     }
     try {
@@ -121,13 +126,17 @@ export function BillForm({
       if (data.category_id === "none") data.category_id = null;
       await onSubmit(data);
       if (bill) {
-        showItemUpdatedToast(itemType);
+        showItemUpdatedToast(t(`toast.items.${itemType}`));
       } else {
-        showItemCreatedToast(itemType);
+        showItemCreatedToast(t(`toast.items.${itemType}`));
       }
     } catch {
-      setError("Failed to save bill");
-      showErrorToast(`Failed to save ${itemType}`);
+      setError(t("bills.saveError"));
+      showErrorToast(
+        itemType === "subscription"
+          ? t("bills.saveSubscriptionError")
+          : t("bills.saveError")
+      );
     } finally {
       setIsLoading(false);
     }
@@ -141,18 +150,18 @@ export function BillForm({
           <span className="font-semibold text-lg">
             {isEdit
               ? itemType === "subscription"
-                ? "Edit Subscription"
-                : "Edit Bill"
+                ? t("bills.editSubscription")
+                : t("bills.editBill")
               : itemType === "subscription"
-              ? "Add Subscription"
-              : "Add Bill"}
+              ? t("bills.addSubscription")
+              : t("bills.addBill")}
           </span>
           <Button
             type="button"
             variant="ghost"
             size="icon"
             onClick={onCancel}
-            aria-label="Close"
+            aria-label={t("common.close")}
           >
             ×
           </Button>
@@ -172,17 +181,19 @@ export function BillForm({
             <FormItem>
               <FormLabel>
                 {itemType === "subscription"
-                  ? "Subscription Name"
-                  : "Bill Name"}{" "}
+                  ? t("bills.form.subscriptionName")
+                  : t("bills.form.billName")}{" "}
                 <span className="text-red-500">*</span>
               </FormLabel>
               <FormControl>
                 <Input
-                  {...register("name", { required: "Name is required" })}
+                  {...register("name", {
+                    required: t("bills.form.nameRequired"),
+                  })}
                   placeholder={
                     itemType === "subscription"
-                      ? "e.g., Netflix Subscription"
-                      : "e.g., Car Repair"
+                      ? t("bills.form.subscriptionPlaceholder")
+                      : t("bills.form.billPlaceholder")
                   }
                   required
                   ref={nameInputRef}
@@ -191,7 +202,9 @@ export function BillForm({
                 />
               </FormControl>
               <FormDescription>
-                Give your {itemType} a clear, recognizable name.
+                {itemType === "subscription"
+                  ? t("bills.form.subscriptionNameHelp")
+                  : t("bills.form.billNameHelp")}
               </FormDescription>
               <FormMessage>{errors.name?.message}</FormMessage>
             </FormItem>
@@ -199,7 +212,7 @@ export function BillForm({
             {/* Amount */}
             <FormItem>
               <FormLabel>
-                Amount <span className="text-red-500">*</span>
+                {t("common.amount")} <span className="text-red-500">*</span>
               </FormLabel>
               <FormControl>
                 <div className="relative">
@@ -211,9 +224,12 @@ export function BillForm({
                     min="0"
                     step="0.01"
                     {...register("amount", {
-                      required: "Amount is required",
+                      required: t("bills.form.amountRequired"),
                       valueAsNumber: true,
-                      min: { value: 0.01, message: "Must be greater than 0" },
+                      min: {
+                        value: 0.01,
+                        message: t("bills.form.amountPositive"),
+                      },
                     })}
                     placeholder="0.00"
                     required
@@ -226,16 +242,42 @@ export function BillForm({
               <FormMessage>{errors.amount?.message}</FormMessage>
             </FormItem>
 
+            {/* Currency */}
+            <FormItem>
+              <FormLabel>{t("common.currency")}</FormLabel>
+              <FormControl>
+                <Controller
+                  control={control}
+                  name="currency"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("common.selectCurrency")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((curr) => (
+                          <SelectItem key={curr.code} value={curr.code}>
+                            {curr.code} - {getCurrencyName(curr.code)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </FormControl>
+            </FormItem>
+
             {/* Due Date */}
             <FormItem>
               <FormLabel>
-                Due Date <span className="text-red-500">*</span>
+                {t("bills.form.dueDate")}{" "}
+                <span className="text-red-500">*</span>
               </FormLabel>
               <FormControl>
                 <Input
                   type="date"
                   {...register("due_date", {
-                    required: "Due date is required",
+                    required: t("bills.form.dueDateRequired"),
                   })}
                   required
                   aria-invalid={!!errors.due_date}
@@ -249,13 +291,14 @@ export function BillForm({
             {itemType === "subscription" && (
               <FormItem>
                 <FormLabel>
-                  Frequency <span className="text-red-500">*</span>
+                  {t("bills.frequency")}{" "}
+                  <span className="text-red-500">*</span>
                 </FormLabel>
                 <FormControl>
                   <Controller
                     control={control}
                     name="frequency"
-                    rules={{ required: "Frequency is required" }}
+                    rules={{ required: t("bills.form.frequencyRequired") }}
                     render={({ field }) => (
                       <Select
                         value={field.value}
@@ -263,13 +306,23 @@ export function BillForm({
                         required
                       >
                         <SelectTrigger>
-                          <SelectValue placeholder="Select frequency" />
+                          <SelectValue
+                            placeholder={t("bills.form.selectFrequency")}
+                          />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="daily">Daily</SelectItem>
-                          <SelectItem value="weekly">Weekly</SelectItem>
-                          <SelectItem value="monthly">Monthly</SelectItem>
-                          <SelectItem value="yearly">Yearly</SelectItem>
+                          <SelectItem value="daily">
+                            {t("bills.frequencies.daily")}
+                          </SelectItem>
+                          <SelectItem value="weekly">
+                            {t("bills.frequencies.weekly")}
+                          </SelectItem>
+                          <SelectItem value="monthly">
+                            {t("bills.frequencies.monthly")}
+                          </SelectItem>
+                          <SelectItem value="yearly">
+                            {t("bills.frequencies.yearly")}
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                     )}
@@ -281,7 +334,7 @@ export function BillForm({
 
             {/* Category */}
             <FormItem>
-              <FormLabel>Category</FormLabel>
+              <FormLabel>{t("common.category")}</FormLabel>
               <FormControl>
                 <Controller
                   control={control}
@@ -289,10 +342,10 @@ export function BillForm({
                   render={({ field }) => (
                     <Select value={field.value ?? undefined} onValueChange={field.onChange}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select category" />
+                        <SelectValue placeholder={t("common.selectCategory")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="none">{t("common.none")}</SelectItem>
                         {categories.map((cat) => (
                           <SelectItem key={cat.id} value={cat.id}>
                             {cat.name}
@@ -307,18 +360,18 @@ export function BillForm({
 
             {/* Payment Method */}
             <FormItem>
-              <FormLabel>Payment Method</FormLabel>
+              <FormLabel>{t("bills.paymentMethod")}</FormLabel>
               <FormControl>
                 <Input
                   {...register("payment_method")}
-                  placeholder="e.g., Credit Card"
+                  placeholder={t("bills.form.paymentMethodPlaceholder")}
                 />
               </FormControl>
             </FormItem>
 
             {/* Auto Pay */}
             <FormItem>
-              <FormLabel>Auto Pay</FormLabel>
+              <FormLabel>{t("bills.form.autoPay")}</FormLabel>
               <FormControl>
                 <Controller
                   control={control}
@@ -336,20 +389,20 @@ export function BillForm({
 
             {/* Reminder Days */}
             <FormItem>
-              <FormLabel>Reminder Days</FormLabel>
+              <FormLabel>{t("bills.form.reminderDays")}</FormLabel>
               <FormControl>
                 <Input
                   type="number"
                   min="0"
                   {...register("reminder_days", { valueAsNumber: true })}
-                  placeholder="Days before due date"
+                  placeholder={t("bills.form.reminderDaysPlaceholder")}
                 />
               </FormControl>
             </FormItem>
 
             {/* Status */}
             <FormItem>
-              <FormLabel>Status</FormLabel>
+              <FormLabel>{t("common.status")}</FormLabel>
               <FormControl>
                 <Controller
                   control={control}
@@ -357,12 +410,18 @@ export function BillForm({
                   render={({ field }) => (
                     <Select value={field.value ?? undefined} onValueChange={field.onChange}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select status" />
+                        <SelectValue placeholder={t("bills.form.selectStatus")} />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="active">Active</SelectItem>
-                        <SelectItem value="paused">Paused</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
+                        <SelectItem value="active">
+                          {t("bills.statuses.active")}
+                        </SelectItem>
+                        <SelectItem value="paused">
+                          {t("bills.statuses.paused")}
+                        </SelectItem>
+                        <SelectItem value="cancelled">
+                          {t("bills.statuses.cancelled")}
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   )}
@@ -372,11 +431,11 @@ export function BillForm({
 
             {/* Notes */}
             <FormItem>
-              <FormLabel>Notes</FormLabel>
+              <FormLabel>{t("common.notes")}</FormLabel>
               <FormControl>
                 <Textarea
                   {...register("notes")}
-                  placeholder="Optional notes, e.g., login info or payment details"
+                  placeholder={t("bills.form.notesPlaceholder")}
                 />
               </FormControl>
             </FormItem>
@@ -390,7 +449,7 @@ export function BillForm({
               onClick={onCancel}
               disabled={isLoading || isSubmitting}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               type="submit"
@@ -400,14 +459,14 @@ export function BillForm({
               {isLoading || isSubmitting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Saving...
+                  {t("common.saving")}
                 </>
               ) : isEdit ? (
-                "Save"
+                t("common.save")
               ) : itemType === "subscription" ? (
-                "Add Subscription"
+                t("bills.addSubscription")
               ) : (
-                "Add Bill"
+                t("bills.addBill")
               )}
             </Button>
           </div>
@@ -18,6 +18,7 @@ import {
   markBillAsPaid,
 } from "../../../api/supabase/bills";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -47,6 +48,7 @@ export function BillList({
   onSelectBill,
 }: BillListProps) {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [bills, setBills] = useState<BillWithCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -78,14 +80,14 @@ export function BillList({
         setBills(data || []);
       } catch (err) {
         console.error("Error fetching bills:", err);
-        setError("Failed to load bills");
+        setError(t("bills.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBills();
-  }, []);
+  }, [t]);
 
   // Navigate to add/edit pages
   const handleAddBill = () => {
@@ -119,7 +121,7 @@ export function BillList({
       setBillToDelete(null);
     } catch (err) {
       console.error("Error deleting bill:", err);
-      setError("Failed to delete bill");
+      setError(t("bills.deleteError"));
     }
   };
 
@@ -138,7 +140,7 @@ export function BillList({
       await refreshBills();
     } catch (err) {
       console.error("Error marking bill as paid:", err);
-      setError("Failed to mark bill as paid");
+      setError(t("bills.markPaidError"));
     }
   };
 
@@ -155,24 +157,6 @@ export function BillList({
 
   // Status colors are now handled by the Badge component variants
 
-  // Get frequency display text
-  const getFrequencyText = (frequency: string) => {
-    switch (frequency) {
-      case "one-time":
-        return "One-time";
-      case "daily":
-        return "Daily";
-      case "weekly":
-        return "Weekly";
-      case "monthly":
-        return "Monthly";
-      case "yearly":
-        return "Yearly";
-      default:
-        return frequency;
-    }
-  };
-
   // Check if a bill is due soon (within the next 7 days)
   const isDueSoon = (nextDueDate: string) => {
     const today = new Date();
@@ -213,7 +197,7 @@ export function BillList({
         <div className="mb-4 flex justify-end">
           <Button onClick={handleAddBill} className="flex items-center">
             <Plus size={16} className="mr-1" />
-            Add Bill/Subscription
+            {t("bills.addEither")}
           </Button>
         </div>
       )}
@@ -223,11 +207,11 @@ export function BillList({
         <CardContent className="p-0">
           {filteredBills.length === 0 ? (
             <div className="p-6 text-center text-muted-foreground">
-              <p className="mb-4">
-                No bills found. Add your first bill to start tracking!
-              </p>
+              <p className="mb-4">{t("bills.empty")}</p>
               {showAddButton && (
-                <Button onClick={handleAddBill}>Add Bill/Subscription</Button>
+                <Button onClick={handleAddBill}>
+                  {t("bills.addEither")}
+                </Button>
               )}
             </div>
           ) : (
@@ -249,15 +233,15 @@ export function BillList({
                         <h3 className="text-md font-medium">{bill.name}</h3>
                         <Badge variant="outline" className="ml-2 text-xs">
                           {bill.frequency === "one-time"
-                            ? "Bill"
-                            : "Subscription"}
+                            ? t("bills.bill")
+                            : t("bills.subscription")}
                         </Badge>
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {bill.category_name
                           ? bill.category_name
-                          : "Uncategorized"}{" "}
-                        • {getFrequencyText(bill.frequency)}
+                          : t("bills.uncategorized")}{" "}
+                        • {t(`bills.frequencies.${bill.frequency}`)}
                       </p>
                     </div>
                     <div className="flex space-x-2">
@@ -266,8 +250,8 @@ export function BillList({
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 text-muted-foreground hover:text-green-600"
-                        aria-label="Mark as Paid"
-                        title="Mark as Paid"
+                        aria-label={t("bills.markAsPaid")}
+                        title={t("bills.markAsPaid")}
                       >
                         <CheckCircle2 size={16} />
                       </Button>
@@ -276,7 +260,7 @@ export function BillList({
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 text-muted-foreground hover:text-primary"
-                        aria-label="Edit"
+                        aria-label={t("common.edit")}
                       >
                         <Edit size={16} />
                       </Button>
@@ -285,7 +269,7 @@ export function BillList({
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                        aria-label="Delete"
+                        aria-label={t("common.delete")}
                       >
                         <Trash2 size={16} />
                       </Button>
@@ -305,18 +289,18 @@ export function BillList({
                           : "secondary"
                       }
                     >
-                      {bill.status.charAt(0).toUpperCase() +
-                        bill.status.slice(1)}
+                      {t(`bills.statuses.${bill.status}`)}
                     </Badge>
                   </div>
 
                   <div className="flex items-center text-sm text-muted-foreground">
                     <Calendar size={14} className="mr-1" />
                     <span>
-                      Next due:{" "}
-                      {bill.next_due_date
-                        ? formatDate(bill.next_due_date, "medium")
-                        : "Not set"}
+                      {t("bills.nextDue", {
+                        date: bill.next_due_date
+                          ? formatDate(bill.next_due_date, "medium")
+                          : t("bills.notSet"),
+                      })}
                     </span>
                   </div>
 
@@ -324,7 +308,7 @@ export function BillList({
                   {bill.next_due_date && isOverdue(bill.next_due_date) && (
                     <div className="mt-2 flex items-center text-xs text-destructive">
                       <AlertCircle size={14} className="mr-1" />
-                      Overdue
+                      {t("bills.overdue")}
                     </div>
                   )}
 
@@ -333,14 +317,16 @@ export function BillList({
                     isDueSoon(bill.next_due_date) && (
                       <div className="mt-2 flex items-center text-xs text-yellow-600">
                         <AlertCircle size={14} className="mr-1" />
-                        Due soon
+                        {t("bills.dueSoon")}
                       </div>
                     )}
 
                   {/* Payment method if available */}
                   {bill.payment_method && (
                     <div className="mt-1 text-xs text-muted-foreground">
-                      Payment method: {bill.payment_method}
+                      {t("bills.paymentMethodValue", {
+                        method: bill.payment_method,
+                      })}
                     </div>
                   )}
                 </li>
@@ -356,18 +342,15 @@ export function BillList({
       <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete this bill? This action cannot be
-              undone.
-            </DialogDescription>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("bills.deleteConfirm")}</DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button variant="outline" onClick={handleDeleteCancel}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete
+              {t("common.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
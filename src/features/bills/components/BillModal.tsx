@@ -10,6 +10,7 @@ import {
   updateBill,
 } from "../../../api/supabase/bills";
 import { BillForm } from "./BillForm";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BillModalProps {
   isOpen: boolean;
@@ -26,6 +27,7 @@ export function BillModal({
   onSuccess,
   defaultType = 'bill',
 }: BillModalProps) {
+  const { t } = useLanguage();
   const [error, setError] = useState<string | null>(null);
 
   if (!isOpen) return null;
@@ -48,7 +50,7 @@ export function BillModal({
       onClose();
     } catch (err) {
       console.error("Error saving bill:", err);
-      setError("Failed to save bill. Please try again.");
+      setError(t("bills.saveRetryError"));
     }
   };
 
@@ -56,7 +58,7 @@ export function BillModal({
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader>
-          <SheetTitle>{bill ? "Edit Bill" : "Add New Bill"}</SheetTitle>
+          <SheetTitle>{bill ? t("bills.editBill") : t("bills.addNewBill")}</SheetTitle>
           <SheetClose>
             <X className="h-4 w-4" />
           </SheetClose>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { Calendar, AlertCircle, Bell, CheckCircle2 } from "lucide-react";
 import { getBills, markBillAsPaid } from "../../../api/supabase/bills";
+import { getDebts } from "../../../api/supabase/debts";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -8,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 // import { Separator } from "@/components/ui/separator";
 import { Loader2 } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BillRemindersProps {
   limit?: number;
@@ -26,7 +28,10 @@ export function BillReminders({
   limit = 5,
   className = "",
 }: BillRemindersProps) {
+  const { t } = useLanguage();
   const [bills, setBills] = useState<Bill[]>([]);
+  // Bills that schedule a debt's minimum payment
+  const [debtBillIds, setDebtBillIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,11 +41,17 @@ export function BillReminders({
         setIsLoading(true);
         setError(null);
 
-        const { data, error } = await getBills();
+        const [{ data, error }, debtsResult] = await Promise.all([
+          getBills(),
+          getDebts(),
+        ]);
 
         if (error) {
           throw error;
         }
+        if (debtsResult.error) {
+          console.error("Error fetching debts:", debtsResult.error);
+        }
 
         // Sort bills by due date (closest first)
         const sortedBills = (data || [])
@@ -53,16 +64,23 @@ export function BillReminders({
           .slice(0, limit);
 
         setBills(sortedBills);
+        setDebtBillIds(
+          new Set(
+            (debtsResult.data || []).flatMap((debt) =>
+              debt.bill_id ? [debt.bill_id] : []
+            )
+          )
+        );
       } catch (err) {
         console.error("Error fetching bills:", err);
-        setError("Failed to load upcoming bills");
+        setError(t("bills.reminders.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBills();
-  }, [limit]);
+  }, [limit, t]);
 
   const handleMarkAsPaid = async (billId: string) => {
     try {
@@ -76,7 +94,7 @@ export function BillReminders({
       setBills((prevBills) => prevBills.filter((bill) => bill.id !== billId));
     } catch (err) {
       console.error("Error marking bill as paid:", err);
-      setError("Failed to mark bill as paid");
+      setError(t("bills.markPaidError"));
     }
   };
 
@@ -117,12 +135,12 @@ export function BillReminders({
         <CardHeader>
           <CardTitle className="text-lg flex items-center">
             <Bell className="mr-2 h-5 w-5" />
-            Bill Reminders
+            {t("bills.reminders.title")}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="text-center text-muted-foreground py-6">
-            No upcoming bills due soon.
+            {t("bills.reminders.empty")}
           </div>
         </CardContent>
       </Card>
@@ -134,7 +152,7 @@ export function BillReminders({
       <CardHeader className="pb-2">
         <CardTitle className="text-lg flex items-center">
           <Bell className="mr-2 h-5 w-5" />
-          Bill Reminders
+          {t("bills.reminders.title")}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -144,9 +162,14 @@ export function BillReminders({
               <div>
                 <div className="flex items-center">
                   <h3 className="font-medium">{bill.name}</h3>
+                  {debtBillIds.has(bill.id) && (
+                    <Badge variant="secondary" className="ml-2">
+                      {t("bills.reminders.debtPayment")}
+                    </Badge>
+                  )}
                   {bill.next_due_date && isOverdue(bill.next_due_date) && (
                     <Badge variant="destructive" className="ml-2">
-                      Overdue
+                      {t("bills.overdue")}
                     </Badge>
                   )}
                   {bill.next_due_date &&
@@ -156,17 +179,18 @@ export function BillReminders({
                         variant="outline"
                         className="ml-2 border-yellow-500 text-yellow-600"
                       >
-                        Due Soon
+                        {t("bills.dueSoon")}
                       </Badge>
                     )}
                 </div>
                 <div className="flex items-center text-sm text-muted-foreground mt-1">
                   <Calendar size={14} className="mr-1" />
                   <span>
-                    Due:{" "}
-                    {bill.next_due_date
-                      ? formatDate(bill.next_due_date, "medium")
-                      : "N/A"}
+                    {t("bills.due", {
+                      date: bill.next_due_date
+                        ? formatDate(bill.next_due_date, "medium")
+                        : t("bills.notAvailable"),
+                    })}
                   </span>
                 </div>
                 <p className="text-sm font-medium mt-1">
@@ -180,7 +204,7 @@ export function BillReminders({
                 className="h-8 text-xs"
               >
                 <CheckCircle2 size={14} className="mr-1" />
-                Mark Paid
+                {t("bills.markPaid")}
               </Button>
             </div>
           ))}
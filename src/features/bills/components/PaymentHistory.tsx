@@ -1,57 +1,143 @@
-import { useState, useEffect } from "react";
-import { getBillPaymentHistory } from "../../../api/supabase/bills";
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import {
+  getBillPaymentHistory,
+  updateBillPayment,
+  deleteBillPayment,
+  BillPayment,
+} from "../../../api/supabase/bills";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
-import { Loader2, AlertCircle } from "lucide-react";
+import {
+  showItemUpdatedToast,
+  showItemDeletedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import { Loader2, AlertCircle, Edit, Trash2, ExternalLink } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface PaymentHistoryProps {
   billId: string;
+  // Called after a payment was edited or deleted, so the bill can be reloaded
+  onChange?: () => void;
   className?: string;
 }
 
-interface Payment {
-  id: string;
-  bill_id: string;
-  amount: number;
-  payment_date: string;
-  payment_method: string | null;
-  notes: string | null;
-  created_at: string;
-}
-
 export function PaymentHistory({
   billId,
+  onChange,
   className = "",
 }: PaymentHistoryProps) {
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const { t } = useLanguage();
+  const [payments, setPayments] = useState<BillPayment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchPaymentHistory() {
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        const { data, error } = await getBillPaymentHistory(billId);
-
-        if (error) {
-          throw error;
-        }
-
-        setPayments(data || []);
-      } catch (err) {
-        console.error("Error fetching payment history:", err);
-        setError("Failed to load payment history");
-      } finally {
-        setIsLoading(false);
+  // Edit and delete dialogs
+  const [editing, setEditing] = useState<BillPayment | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [editDate, setEditDate] = useState("");
+  const [editNotes, setEditNotes] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<BillPayment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPaymentHistory = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error } = await getBillPaymentHistory(billId);
+
+      if (error) {
+        throw error;
       }
+
+      setPayments(data || []);
+    } catch (err) {
+      console.error("Error fetching payment history:", err);
+      setError(t("bills.payments.loadError"));
+    } finally {
+      setIsLoading(false);
     }
+  }, [billId, t]);
 
+  useEffect(() => {
     fetchPaymentHistory();
-  }, [billId]);
+  }, [fetchPaymentHistory]);
+
+  const openEdit = (payment: BillPayment) => {
+    setEditing(payment);
+    setEditAmount(payment.amount.toString());
+    setEditDate(payment.payment_date);
+    setEditNotes(payment.notes || "");
+    setEditError(null);
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const amount = parseFloat(editAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setEditError(t("bills.payments.invalidAmount"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { error } = await updateBillPayment(editing.id, {
+        amount,
+        payment_date: editDate,
+        notes: editNotes || null,
+      });
+      if (error) throw error;
+
+      showItemUpdatedToast(t("toast.items.payment"));
+      setEditing(null);
+      fetchPaymentHistory();
+      onChange?.();
+    } catch (err) {
+      console.error("Error updating payment:", err);
+      setEditError(t("bills.payments.updateError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await deleteBillPayment(deleting);
+      if (error) throw error;
+
+      showItemDeletedToast(t("toast.items.payment"));
+      setDeleting(null);
+      fetchPaymentHistory();
+      onChange?.();
+    } catch (err) {
+      console.error("Error deleting payment:", err);
+      showErrorToast(t("bills.payments.deleteError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   if (isLoading) {
     return (
@@ -73,7 +159,7 @@ export function PaymentHistory({
   if (payments.length === 0) {
     return (
       <div className="p-4 text-center text-muted-foreground text-sm">
-        No payment history available.
+        {t("bills.payments.empty")}
       </div>
     );
   }
@@ -82,7 +168,9 @@ export function PaymentHistory({
     <div className={`${className}`}>
       <Card>
         <CardHeader className="pb-2">
-          <CardTitle className="text-sm">Payment History</CardTitle>
+          <CardTitle className="text-sm">
+            {t("bills.payments.history")}
+          </CardTitle>
         </CardHeader>
         <CardContent className="p-0">
           <div className="bg-muted/50 rounded-md overflow-hidden">
@@ -96,20 +184,49 @@ export function PaymentHistory({
                       </p>
                       {payment.payment_method && (
                         <p className="text-muted-foreground text-xs">
-                          via {payment.payment_method}
+                          {t("bills.payments.via", {
+                            method: payment.payment_method,
+                          })}
                         </p>
                       )}
-                    </div>
-                    <div className="text-right">
-                      <Badge variant="outline" className="font-normal">
-                        {formatCurrency(payment.amount)}
-                      </Badge>
-                      {payment.notes && (
-                        <p className="text-muted-foreground text-xs mt-1">
-                          {payment.notes}
-                        </p>
+                      {payment.transaction_id && (
+                        <Link
+                          to={`/transactions/${payment.transaction_id}`}
+                          className="inline-flex items-center text-xs text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-3 w-3 mr-1" />
+                          {t("bills.payments.viewTransaction")}
+                        </Link>
                       )}
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <div className="text-right">
+                        <Badge variant="outline" className="font-normal">
+                          {formatCurrency(payment.amount)}
+                        </Badge>
+                        {payment.notes && (
+                          <p className="text-muted-foreground text-xs mt-1">
+                            {payment.notes}
+                          </p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openEdit(payment)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => setDeleting(payment)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 </li>
               ))}
@@ -117,6 +234,110 @@ export function PaymentHistory({
           </div>
         </CardContent>
       </Card>
+
+      {/* Edit Payment Modal */}
+      <Dialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("bills.payments.edit")}</DialogTitle>
+            {editing?.transaction_id && (
+              <DialogDescription>
+                {t("bills.payments.editLinkedHelp")}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <form onSubmit={handleEdit} className="space-y-4">
+            {editError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{editError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="editPaymentAmount">
+                {t("bills.payments.amount")}
+              </Label>
+              <Input
+                type="number"
+                id="editPaymentAmount"
+                value={editAmount}
+                onChange={(e) => setEditAmount(e.target.value)}
+                step="0.01"
+                min="0"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editPaymentDate">{t("common.date")}</Label>
+              <Input
+                type="date"
+                id="editPaymentDate"
+                value={editDate}
+                onChange={(e) => setEditDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editPaymentNotes">{t("common.notes")}</Label>
+              <Textarea
+                id="editPaymentNotes"
+                value={editNotes}
+                onChange={(e) => setEditNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditing(null)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? t("common.saving") : t("common.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Payment Modal */}
+      <Dialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("bills.payments.delete")}</DialogTitle>
+            <DialogDescription>
+              {deleting?.transaction_id
+                ? t("bills.payments.deleteLinkedConfirm")
+                : t("bills.payments.deleteConfirm")}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isSaving}
+            >
+              {t("common.delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Select,
@@ -25,6 +26,12 @@ import {
   BudgetInsert,
 } from "../../../api/supabase/budgets";
 import { getCategories } from "../../../api/supabase/categories";
+import {
+  DEFAULT_BUDGET_ALERT_THRESHOLDS,
+  formatAlertThresholds,
+  parseAlertThresholds,
+} from "../../../api/supabase/budgetAlerts";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BudgetFormProps {
   budget?: Budget;
@@ -34,6 +41,7 @@ interface BudgetFormProps {
 
 export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [categories, setCategories] = useState<
@@ -51,6 +59,12 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
     budget?.start_date || new Date().toISOString().split("T")[0]
   );
   const [endDate, setEndDate] = useState(budget?.end_date || "");
+  const [rollover, setRollover] = useState(budget?.rollover || false);
+  const [alertThresholds, setAlertThresholds] = useState(
+    formatAlertThresholds(
+      budget?.alert_thresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS
+    )
+  );
   // Description is not in the database schema, but we'll keep it for future use
   const [description, setDescription] = useState("");
 
@@ -73,12 +87,12 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
         setCategories(filteredCategories);
       } catch (err) {
         console.error("Error fetching categories:", err);
-        setError("Failed to load categories");
+        setError(t("common.loadCategoriesError"));
       }
     }
 
     fetchCategories();
-  }, [user]);
+  }, [user, t]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -90,34 +104,41 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
 
       // Validate form
       if (!name.trim()) {
-        setError("Please enter a budget name");
+        setError(t("budgets.form.nameRequired"));
         return;
       }
 
       if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-        setError("Please enter a valid amount");
+        setError(t("common.invalidAmount"));
         return;
       }
 
       if (!startDate) {
-        setError("Please select a start date");
+        setError(t("budgets.form.startDateRequired"));
         return;
       }
 
       if (period === "custom" && !endDate) {
-        setError("Please select an end date for custom period");
+        setError(t("budgets.form.endDateRequired"));
+        return;
+      }
+
+      const thresholds = parseAlertThresholds(alertThresholds);
+      if (!thresholds) {
+        setError(t("budgets.form.alertThresholdsInvalid"));
         return;
       }
 
-      // Calculate end date for monthly/yearly periods if not provided
+      // Calculate end date for monthly/yearly periods if not provided.
+      // Rollover budgets stay open so there is a next period to carry into.
       let calculatedEndDate = endDate;
-      if (period === "monthly" && !endDate) {
+      if (!rollover && period === "monthly" && !endDate) {
         const start = new Date(startDate);
         const end = new Date(start);
         end.setMonth(end.getMonth() + 1);
         end.setDate(end.getDate() - 1);
         calculatedEndDate = end.toISOString().split("T")[0];
-      } else if (period === "yearly" && !endDate) {
+      } else if (!rollover && period === "yearly" && !endDate) {
         const start = new Date(startDate);
         const end = new Date(start);
         end.setFullYear(end.getFullYear() + 1);
@@ -134,6 +155,8 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
         period: period === "custom" ? "monthly" : period,
         start_date: startDate,
         end_date: calculatedEndDate || null,
+        rollover,
+        alert_thresholds: thresholds,
         // description field is not in the schema yet
       };
 
@@ -152,9 +175,9 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
 
       // Show success toast
       if (budget) {
-        showItemUpdatedToast("Budget");
+        showItemUpdatedToast(t("toast.items.budget"));
       } else {
-        showItemCreatedToast("Budget");
+        showItemCreatedToast(t("toast.items.budget"));
       }
 
       // Success
@@ -162,8 +185,8 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
       onClose();
     } catch (err) {
       console.error("Error saving budget:", err);
-      setError("Failed to save budget");
-      showErrorToast("Failed to save budget");
+      setError(t("budgets.saveError"));
+      showErrorToast(t("budgets.saveError"));
     } finally {
       setIsLoading(false);
     }
@@ -181,20 +204,20 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Budget Name */}
         <div className="space-y-2">
-          <Label htmlFor="name">Budget Name</Label>
+          <Label htmlFor="name">{t("budgets.form.name")}</Label>
           <Input
             type="text"
             id="name"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            placeholder="e.g., Monthly Groceries"
+            placeholder={t("budgets.form.namePlaceholder")}
             required
           />
         </div>
 
         {/* Amount */}
         <div className="space-y-2">
-          <Label htmlFor="amount">Budget Amount</Label>
+          <Label htmlFor="amount">{t("budgets.form.amount")}</Label>
           <div className="relative">
             <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">
               $
@@ -215,13 +238,15 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
 
         {/* Category */}
         <div className="space-y-2">
-          <Label htmlFor="category">Category</Label>
+          <Label htmlFor="category">{t("common.category")}</Label>
           <Select value={categoryId} onValueChange={setCategoryId}>
             <SelectTrigger id="category">
-              <SelectValue placeholder="Select a category" />
+              <SelectValue placeholder={t("common.selectCategory")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Expenses</SelectItem>
+              <SelectItem value="all">
+                {t("budgets.form.allExpenses")}
+              </SelectItem>
               {categories.map((category) => (
                 <SelectItem key={category.id} value={category.id}>
                   {category.name}
@@ -233,7 +258,7 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
 
         {/* Period */}
         <div className="space-y-2">
-          <Label htmlFor="period">Budget Period</Label>
+          <Label htmlFor="period">{t("budgets.form.period")}</Label>
           <Select
             value={period}
             onValueChange={(value) =>
@@ -241,20 +266,52 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
             }
           >
             <SelectTrigger id="period">
-              <SelectValue placeholder="Select period" />
+              <SelectValue placeholder={t("budgets.form.selectPeriod")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="monthly">Monthly</SelectItem>
-              <SelectItem value="yearly">Yearly</SelectItem>
-              <SelectItem value="custom">Custom</SelectItem>
+              <SelectItem value="monthly">{t("common.monthly")}</SelectItem>
+              <SelectItem value="yearly">{t("common.yearly")}</SelectItem>
+              <SelectItem value="custom">{t("common.custom")}</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
+        {/* Rollover */}
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="rollover">{t("budgets.form.rollover")}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t("budgets.form.rolloverHelp")}
+            </p>
+          </div>
+          <Switch
+            id="rollover"
+            checked={rollover}
+            onCheckedChange={setRollover}
+          />
+        </div>
+
+        {/* Alert Thresholds */}
+        <div className="space-y-2">
+          <Label htmlFor="alertThresholds">
+            {t("budgets.form.alertThresholds")}
+          </Label>
+          <Input
+            type="text"
+            id="alertThresholds"
+            value={alertThresholds}
+            onChange={(e) => setAlertThresholds(e.target.value)}
+            placeholder={formatAlertThresholds(DEFAULT_BUDGET_ALERT_THRESHOLDS)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t("budgets.form.alertThresholdsHelp")}
+          </p>
+        </div>
+
         {/* Date Range */}
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
-            <Label htmlFor="startDate">Start Date</Label>
+            <Label htmlFor="startDate">{t("common.startDate")}</Label>
             <Input
               type="date"
               id="startDate"
@@ -265,7 +322,9 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
           </div>
           <div className="space-y-2">
             <Label htmlFor="endDate">
-              End Date {period !== "custom" && "(Optional)"}
+              {period === "custom"
+                ? t("common.endDate")
+                : t("budgets.form.endDateOptional")}
             </Label>
             <Input
               type="date"
@@ -279,27 +338,29 @@ export function BudgetForm({ budget, onClose, onSuccess }: BudgetFormProps) {
 
         {/* Description */}
         <div className="space-y-2">
-          <Label htmlFor="description">Description (Optional)</Label>
+          <Label htmlFor="description">
+            {t("budgets.form.descriptionOptional")}
+          </Label>
           <Textarea
             id="description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
             rows={3}
-            placeholder="Add notes or details about this budget..."
+            placeholder={t("budgets.form.descriptionPlaceholder")}
           />
         </div>
 
         {/* Submit Button */}
         <div className="flex justify-end space-x-3 pt-4">
           <Button type="button" onClick={onClose} variant="outline">
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button type="submit" disabled={isLoading}>
             {isLoading
-              ? "Saving..."
+              ? t("common.saving")
               : budget
-              ? "Update Budget"
-              : "Create Budget"}
+              ? t("budgets.update")
+              : t("budgets.create")}
           </Button>
         </div>
       </form>
@@ -2,11 +2,22 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   getBudgets,
+  getBudgetHistories,
   deleteBudget,
   Budget,
+  BudgetPeriod,
 } from "../../../api/supabase/budgets";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
-import { Edit, Trash2, Plus, AlertCircle, Loader2 } from "lucide-react";
+import { BudgetPeriodHistory } from "./BudgetPeriodHistory";
+import { useLanguage } from "../../../providers/languageUtils";
+import {
+  Edit,
+  Trash2,
+  Plus,
+  AlertCircle,
+  Loader2,
+  History,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -30,11 +41,16 @@ export function BudgetList({
   className = "",
 }: BudgetListProps) {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [budgetToDelete, setBudgetToDelete] = useState<string | null>(null);
+  const [histories, setHistories] = useState<Record<string, BudgetPeriod[]>>(
+    {}
+  );
+  const [expandedBudgetId, setExpandedBudgetId] = useState<string | null>(null);
 
   // Fetch budgets
   useEffect(() => {
@@ -50,16 +66,17 @@ export function BudgetList({
         }
 
         setBudgets(data || []);
+        setHistories(await getBudgetHistories(data || []));
       } catch (err) {
         console.error("Error fetching budgets:", err);
-        setError("Failed to load budgets");
+        setError(t("budgets.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBudgets();
-  }, []);
+  }, [t]);
 
   // Navigate to add/edit pages
   const handleAddBudget = () => {
@@ -89,7 +106,7 @@ export function BudgetList({
       setBudgetToDelete(null);
     } catch (err) {
       console.error("Error deleting budget:", err);
-      setError("Failed to delete budget");
+      setError(t("budgets.deleteError"));
     }
   };
 
@@ -104,13 +121,12 @@ export function BudgetList({
       const { data, error } = await getBudgets();
       if (error) throw error;
       setBudgets(data || []);
+      setHistories(await getBudgetHistories(data || []));
     } catch (err) {
       console.error("Error fetching budgets:", err);
     }
   };
 
-  // Progress calculation will be implemented in a future update
-
   if (isLoading) {
     return (
       <div className="flex justify-center p-4">
@@ -135,7 +151,7 @@ export function BudgetList({
         <div className="mb-4 flex justify-end">
           <Button onClick={handleAddBudget} size="sm">
             <Plus size={16} className="mr-1" />
-            Add Budget
+            {t("budgets.add")}
           </Button>
         </div>
       )}
@@ -143,80 +159,141 @@ export function BudgetList({
       {/* Budgets List */}
       <Card>
         <CardHeader>
-          <CardTitle>Budgets</CardTitle>
+          <CardTitle>{t("budgets.title")}</CardTitle>
         </CardHeader>
         <CardContent>
           {budgets.length === 0 ? (
             <div className="p-6 text-center text-muted-foreground">
-              No budgets found.{" "}
+              {t("budgets.empty")}{" "}
               {showAddButton && (
                 <Button
                   onClick={handleAddBudget}
                   variant="link"
                   className="px-1 py-0 h-auto"
                 >
-                  Create your first budget
+                  {t("budgets.createFirst")}
                 </Button>
               )}{" "}
-              to start tracking your spending!
+              {t("budgets.startTracking")}
             </div>
           ) : (
             <ul className="divide-y divide-border">
-              {budgets.map((budget) => (
-                <li
-                  key={budget.id}
-                  className="p-4 hover:bg-muted/50 rounded-md"
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <div>
-                      <h3 className="text-md font-medium">{budget.name}</h3>
-                      <p className="text-sm text-muted-foreground">
-                        {budget.category_id ? "Category" : "All Categories"} •
-                        {budget.period === "monthly"
-                          ? " Monthly"
-                          : budget.period === "yearly"
-                          ? " Yearly"
-                          : " Custom"}
-                      </p>
+              {budgets.map((budget) => {
+                const history = histories[budget.id] || [];
+                const current = history[history.length - 1];
+                const carriedIn = current?.carriedIn || 0;
+                const spent = current?.spent || 0;
+                const available = budget.amount + carriedIn;
+                const progress =
+                  available > 0
+                    ? Math.min((spent / available) * 100, 100)
+                    : 100;
+
+                return (
+                  <li
+                    key={budget.id}
+                    className="p-4 hover:bg-muted/50 rounded-md"
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <h3 className="text-md font-medium">{budget.name}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {budget.category_id
+                            ? t("budgets.category")
+                            : t("budgets.allCategories")}{" "}
+                          •{" "}
+                          {budget.period === "monthly"
+                            ? t("common.monthly")
+                            : budget.period === "yearly"
+                            ? t("common.yearly")
+                            : t("common.custom")}
+                          {budget.rollover && ` • ${t("budgets.rollover")}`}
+                        </p>
+                      </div>
+                      <div className="flex space-x-1">
+                        <Button
+                          onClick={() => handleEditBudget(budget)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label={t("common.edit")}
+                        >
+                          <Edit size={16} />
+                        </Button>
+                        <Button
+                          onClick={() => handleDeleteClick(budget.id)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive/90"
+                          aria-label={t("common.delete")}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex space-x-1">
-                      <Button
-                        onClick={() => handleEditBudget(budget)}
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8"
-                        aria-label="Edit"
-                      >
-                        <Edit size={16} />
-                      </Button>
-                      <Button
-                        onClick={() => handleDeleteClick(budget.id)}
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-destructive hover:text-destructive/90"
-                        aria-label="Delete"
-                      >
-                        <Trash2 size={16} />
-                      </Button>
+
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium">
+                        {t("budgets.spentOf", {
+                          spent: formatCurrency(spent),
+                          available: formatCurrency(available),
+                        })}
+                        {carriedIn !== 0 && (
+                          <span
+                            className={`ml-1 text-xs font-normal ${
+                              carriedIn < 0
+                                ? "text-destructive"
+                                : "text-muted-foreground"
+                            }`}
+                          >
+                            (
+                            {t("budgets.carriedOver", {
+                              amount: `${
+                                carriedIn > 0 ? "+" : "-"
+                              }${formatCurrency(Math.abs(carriedIn))}`,
+                            })}
+                            )
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(budget.start_date, "short")} -{" "}
+                        {budget.end_date
+                          ? formatDate(budget.end_date, "short")
+                          : t("common.ongoing")}
+                      </span>
                     </div>
-                  </div>
-
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-medium">
-                      {formatCurrency(0)} of {formatCurrency(budget.amount)}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatDate(budget.start_date, "short")} -{" "}
-                      {budget.end_date
-                        ? formatDate(budget.end_date, "short")
-                        : "Ongoing"}
-                    </span>
-                  </div>
-
-                  {/* Progress bar */}
-                  <Progress value={0} className="h-2" />
-                </li>
-              ))}
+
+                    {/* Progress bar */}
+                    <Progress value={progress} className="h-2" />
+
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 mt-1 h-auto text-xs"
+                      onClick={() =>
+                        setExpandedBudgetId(
+                          expandedBudgetId === budget.id ? null : budget.id
+                        )
+                      }
+                    >
+                      <History size={14} className="mr-1" />
+                      {expandedBudgetId === budget.id
+                        ? t("budgets.hideHistory")
+                        : t("budgets.showHistory")}
+                    </Button>
+
+                    {expandedBudgetId === budget.id && (
+                      <div className="mt-2">
+                        <BudgetPeriodHistory
+                          periods={history}
+                          rollover={budget.rollover}
+                        />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
             </ul>
           )}
         </CardContent>
@@ -231,18 +308,15 @@ export function BudgetList({
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete this budget? This action cannot be
-              undone.
-            </DialogDescription>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("budgets.deleteConfirm")}</DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button variant="outline" onClick={handleDeleteCancel}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete
+              {t("common.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
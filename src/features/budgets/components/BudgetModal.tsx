@@ -1,5 +1,6 @@
 import { Budget } from "../../../api/supabase/budgets";
 import { BudgetForm } from "./BudgetForm";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetClose } from "@/components/ui/sheet";
 
 interface BudgetModalProps {
@@ -15,12 +16,13 @@ export function BudgetModal({
   budget,
   onSuccess,
 }: BudgetModalProps) {
+  const { t } = useLanguage();
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
           <SheetTitle>
-            {budget ? "Edit Budget" : "Add Budget"}
+            {budget ? t("budgets.edit") : t("budgets.add")}
           </SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
@@ -0,0 +1,92 @@
+import { BudgetPeriod } from "../../../api/supabase/budgets";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface BudgetPeriodHistoryProps {
+  periods: BudgetPeriod[];
+  rollover: boolean;
+  // Number of most recent periods to show
+  limit?: number;
+}
+
+export function BudgetPeriodHistory({
+  periods,
+  rollover,
+  limit = 6,
+}: BudgetPeriodHistoryProps) {
+  const { t } = useLanguage();
+
+  if (periods.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("budgets.periodHistory.empty")}
+      </p>
+    );
+  }
+
+  const formatCarried = (value: number) =>
+    rollover ? formatCurrency(value) : "—";
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t("budgets.periodHistory.period")}</TableHead>
+          <TableHead className="text-right">
+            {t("budgets.periodHistory.allocated")}
+          </TableHead>
+          <TableHead className="text-right">
+            {t("budgets.periodHistory.carriedIn")}
+          </TableHead>
+          <TableHead className="text-right">
+            {t("budgets.periodHistory.spent")}
+          </TableHead>
+          <TableHead className="text-right">
+            {t("budgets.periodHistory.carriedOver")}
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {[...periods]
+          .reverse()
+          .slice(0, limit)
+          .map((period) => (
+            <TableRow key={period.start}>
+              <TableCell className="whitespace-nowrap">
+                {formatDate(period.start, "short")} –{" "}
+                {formatDate(period.end, "short")}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(period.allocated)}
+              </TableCell>
+              <TableCell
+                className={`text-right ${
+                  period.carriedIn < 0 ? "text-destructive" : ""
+                }`}
+              >
+                {formatCarried(period.carriedIn)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCurrency(period.spent)}
+              </TableCell>
+              <TableCell
+                className={`text-right ${
+                  period.carriedOut < 0 ? "text-destructive" : ""
+                }`}
+              >
+                {formatCarried(period.carriedOut)}
+              </TableCell>
+            </TableRow>
+          ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
-import { getCurrentBudgets } from "../../../api/supabase/budgets";
+import { getCurrentBudgets, BudgetPeriod } from "../../../api/supabase/budgets";
 import { formatCurrency } from "../../../utils/formatters";
+import { BudgetPeriodHistory } from "./BudgetPeriodHistory";
+import { useLanguage } from "../../../providers/languageUtils";
 import { AlertCircle, Loader2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -11,14 +13,20 @@ interface Budget {
   name: string;
   amount: number;
   spent: number;
+  rollover: boolean;
+  carried_over: number;
+  available: number;
+  history: BudgetPeriod[];
   category_name?: string;
   category_color?: string;
 }
 
 export function BudgetSummary() {
+  const { t } = useLanguage();
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expandedBudgetId, setExpandedBudgetId] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchBudgets() {
@@ -33,14 +41,14 @@ export function BudgetSummary() {
         setBudgets(data || []);
       } catch (err) {
         console.error("Error fetching budgets:", err);
-        setError("Failed to load budgets");
+        setError(t("budgets.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBudgets();
-  }, []);
+  }, [t]);
 
   if (isLoading) {
     return (
@@ -62,9 +70,9 @@ export function BudgetSummary() {
   if (budgets.length === 0) {
     return (
       <div className="p-4 text-center text-muted-foreground">
-        <p className="mb-4">Create your first budget to track your spending!</p>
+        <p className="mb-4">{t("budgets.summaryEmpty")}</p>
         <Button onClick={() => (window.location.href = "/budgets")}>
-          Create Budget
+          {t("budgets.create")}
         </Button>
       </div>
     );
@@ -74,11 +82,15 @@ export function BudgetSummary() {
     <div>
       <div className="space-y-4">
         {budgets.map((budget) => {
-          const percentage = Math.min(
-            Math.round((budget.spent / budget.amount) * 100),
-            100
-          );
-          const isOverBudget = budget.spent > budget.amount;
+          // Rollover budgets can spend what was carried over as well
+          const percentage =
+            budget.available > 0
+              ? Math.min(
+                  Math.round((budget.spent / budget.available) * 100),
+                  100
+                )
+              : 100;
+          const isOverBudget = budget.spent > budget.available;
 
           return (
             <Card key={budget.id} className="p-4">
@@ -87,7 +99,7 @@ export function BudgetSummary() {
                   <h3 className="font-medium">{budget.name}</h3>
                   <span className="text-sm text-muted-foreground">
                     {formatCurrency(budget.spent)} /{" "}
-                    {formatCurrency(budget.amount)}
+                    {formatCurrency(budget.available)}
                   </span>
                 </div>
 
@@ -107,7 +119,7 @@ export function BudgetSummary() {
 
                 <div className="flex justify-between items-center mt-1">
                   <span className="text-xs text-muted-foreground">
-                    {budget.category_name || "General"}
+                    {budget.category_name || t("budgets.general")}
                   </span>
                   <span
                     className={`text-xs font-medium ${
@@ -119,6 +131,46 @@ export function BudgetSummary() {
                     {percentage}%
                   </span>
                 </div>
+
+                <div className="flex justify-between items-center mt-1">
+                  <span
+                    className={`text-xs ${
+                      budget.carried_over < 0
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {budget.rollover &&
+                      t("budgets.carriedOver", {
+                        amount: `${
+                          budget.carried_over < 0 ? "-" : "+"
+                        }${formatCurrency(Math.abs(budget.carried_over))}`,
+                      })}
+                  </span>
+                  <Button
+                    variant="link"
+                    className="text-xs h-auto p-0"
+                    onClick={() =>
+                      setExpandedBudgetId(
+                        expandedBudgetId === budget.id ? null : budget.id
+                      )
+                    }
+                  >
+                    {expandedBudgetId === budget.id
+                      ? t("budgets.hideHistory")
+                      : t("budgets.history")}
+                  </Button>
+                </div>
+
+                {expandedBudgetId === budget.id && (
+                  <div className="mt-2">
+                    <BudgetPeriodHistory
+                      periods={budget.history}
+                      rollover={budget.rollover}
+                      limit={3}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
@@ -131,7 +183,7 @@ export function BudgetSummary() {
           onClick={() => (window.location.href = "/budgets")}
           className="text-sm h-auto p-0"
         >
-          View All Budgets
+          {t("budgets.viewAll")}
         </Button>
       </div>
     </div>
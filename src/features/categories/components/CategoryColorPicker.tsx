@@ -14,6 +14,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { useLanguage } from "../../../providers/languageUtils";
 
 // Predefined colors
 const COLORS = [
@@ -48,6 +49,7 @@ export function CategoryColorPicker({
   color,
   onChange,
 }: CategoryColorPickerProps) {
+  const { t } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
   const [customColor, setCustomColor] = useState(color);
   const pickerRef = useRef<HTMLDivElement>(null);
@@ -97,13 +99,15 @@ export function CategoryColorPicker({
               variant="outline"
               className="w-10 h-10 p-0 relative overflow-hidden"
               style={{ backgroundColor: color }}
-              aria-label="Select color"
+              aria-label={t("categories.colorPicker.select")}
             >
               <Palette className="h-4 w-4 absolute text-white opacity-50" />
             </Button>
           </PopoverTrigger>
           <PopoverContent className="w-64 p-2">
-            <div className="mb-2 text-xs font-medium">Select a color</div>
+            <div className="mb-2 text-xs font-medium">
+              {t("categories.colorPicker.selectTitle")}
+            </div>
             <div className="grid grid-cols-5 gap-2">
               {COLORS.map((colorOption) => (
                 <TooltipProvider key={colorOption}>
@@ -120,7 +124,9 @@ export function CategoryColorPicker({
                         )}
                         style={{ backgroundColor: colorOption }}
                         onClick={() => handleColorSelect(colorOption)}
-                        aria-label={`Select color ${colorOption}`}
+                        aria-label={t("categories.colorPicker.selectValue", {
+                          color: colorOption,
+                        })}
                       >
                         {colorOption === color && (
                           <Check className="h-4 w-4 absolute text-white" />
@@ -135,7 +141,9 @@ export function CategoryColorPicker({
               ))}
             </div>
             <div className="mt-3 pt-3 border-t">
-              <div className="text-xs font-medium mb-2">Custom color</div>
+              <div className="text-xs font-medium mb-2">
+                {t("categories.colorPicker.custom")}
+              </div>
               <div className="flex items-center space-x-2">
                 <Input
                   type="text"
@@ -149,7 +157,7 @@ export function CategoryColorPicker({
                   value={customColor}
                   onChange={handleCustomColorChange}
                   className="w-10 h-10 p-0 cursor-pointer"
-                  aria-label="Pick custom color"
+                  aria-label={t("categories.colorPicker.pickCustom")}
                 />
               </div>
             </div>
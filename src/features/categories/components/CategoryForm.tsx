@@ -64,6 +64,7 @@ import {
 } from "../../../api/supabase";
 // Import directly from the file path to avoid TypeScript issues
 import { CategoryColorPicker } from "../../../features/categories/components/CategoryColorPicker";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface CategoryFormProps {
   category?: Category;
@@ -75,12 +76,14 @@ interface CategoryFormProps {
 
 // Sidebar modal for Add/Edit Category
 export function CategorySidebarModal({ isOpen, onClose, category, onSuccess, defaultType }: Omit<CategoryFormProps, 'inPage'> & { isOpen: boolean }) {
+  const { t } = useLanguage();
+
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
           <SheetTitle>
-            {category ? 'Edit Category' : 'Add Category'}
+            {category ? t("categories.edit") : t("categories.add")}
           </SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
@@ -144,6 +147,7 @@ export function CategoryForm({
   inPage = false,
 }: CategoryFormProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [name, setName] = useState("");
   const [type, setType] = useState<"expense" | "income" | "both">(
     defaultType || "expense"
@@ -170,7 +174,7 @@ export function CategoryForm({
 
     // Validate form
     if (!name.trim()) {
-      setError("Category name is required");
+      setError(t("categories.form.nameRequired"));
       return;
     }
 
@@ -213,7 +217,7 @@ export function CategoryForm({
       setError(
         err instanceof Error
           ? err.message
-          : "Failed to save category. Please try again."
+          : t("categories.saveError")
       );
     } finally {
       setIsLoading(false);
@@ -234,14 +238,14 @@ export function CategoryForm({
         <div className="space-y-2">
           <Label htmlFor="name" className="flex items-center gap-1">
             <Tag size={14} />
-            <span>Category Name</span>
+            <span>{t("categories.form.name")}</span>
           </Label>
           <Input
             id="name"
             type="text"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            placeholder="e.g., Groceries, Rent, Salary"
+            placeholder={t("categories.form.namePlaceholder")}
             required
           />
         </div>
@@ -249,7 +253,7 @@ export function CategoryForm({
         <div className="space-y-2">
           <Label htmlFor="type" className="flex items-center gap-1">
             <ArrowUpDown size={14} />
-            <span>Category Type</span>
+            <span>{t("categories.form.type")}</span>
           </Label>
           <Select
             value={type}
@@ -258,12 +262,12 @@ export function CategoryForm({
             }
           >
             <SelectTrigger id="type">
-              <SelectValue placeholder="Select type" />
+              <SelectValue placeholder={t("categories.form.selectType")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="expense">Expense</SelectItem>
-              <SelectItem value="income">Income</SelectItem>
-              <SelectItem value="both">Both</SelectItem>
+              <SelectItem value="expense">{t("common.expense")}</SelectItem>
+              <SelectItem value="income">{t("common.income")}</SelectItem>
+              <SelectItem value="both">{t("categories.both")}</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -271,7 +275,7 @@ export function CategoryForm({
         <div className="space-y-2">
           <Label className="flex items-center gap-1">
             <Palette size={14} />
-            <span>Category Color</span>
+            <span>{t("categories.form.color")}</span>
           </Label>
           <CategoryColorPicker color={color} onChange={setColor} />
         </div>
@@ -279,7 +283,7 @@ export function CategoryForm({
         <div className="space-y-2">
           <Label htmlFor="icon" className="flex items-center gap-1">
             <Tag size={14} />
-            <span>Icon</span>
+            <span>{t("common.icon")}</span>
           </Label>
           <div className="space-y-4">
             <div className="grid grid-cols-6 gap-2">
@@ -310,26 +314,26 @@ export function CategoryForm({
                 </div>
               ) : (
                 <span className="text-xs text-muted-foreground">
-                  Icon Preview
+                  {t("categories.form.iconPreview")}
                 </span>
               )}
             </div>
           </div>
           <p className="text-xs text-muted-foreground">
-            Select an icon that represents this category.
+            {t("categories.form.iconHelp")}
           </p>
         </div>
 
         <div className="mt-4 flex justify-end space-x-2">
           <Button type="button" variant="outline" onClick={onClose}>
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button type="submit" disabled={isLoading}>
             {isLoading
-              ? "Saving..."
+              ? t("common.saving")
               : category
-              ? "Update Category"
-              : "Add Category"}
+              ? t("categories.update")
+              : t("categories.add")}
           </Button>
         </div>
       </form>
@@ -69,8 +69,10 @@ interface CategoryListProps {
 }
 
 import { CategorySidebarModal } from "./CategoryForm";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListProps) {
+  const { t } = useLanguage();
   const [categories, setCategories] = useState<Category[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
@@ -100,7 +102,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
       setCategories(filteredData || []);
     } catch (err) {
       console.error("Error loading categories:", err);
-      setError("Failed to load categories. Please try again.");
+      setError(t("categories.loadError"));
     } finally {
       setIsLoading(false);
     }
@@ -135,7 +137,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
       await loadCategories();
     } catch (err) {
       console.error("Error deleting category:", err);
-      setError("Failed to delete category. Please try again.");
+      setError(t("categories.deleteError"));
     } finally {
       setDeleteInProgress(null);
       setIsDeleteConfirmOpen(false);
@@ -205,7 +207,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
             variant="outline"
             className="bg-red-100 text-red-800 hover:bg-red-100"
           >
-            Expense
+            {t("common.expense")}
           </Badge>
         );
       case "income":
@@ -214,7 +216,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
             variant="outline"
             className="bg-green-100 text-green-800 hover:bg-green-100"
           >
-            Income
+            {t("common.income")}
           </Badge>
         );
       case "both":
@@ -223,7 +225,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
             variant="outline"
             className="bg-blue-100 text-blue-800 hover:bg-blue-100"
           >
-            Both
+            {t("categories.both")}
           </Badge>
         );
       default:
@@ -252,7 +254,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
             <AlertDescription>{error}</AlertDescription>
           </Alert>
           <Button variant="outline" onClick={loadCategories}>
-            Try Again
+            {t("common.retry")}
           </Button>
         </CardContent>
       </div>
@@ -264,8 +266,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
       <CardContent className="pt-6">
         {categories.length === 0 ? (
           <div className="py-8 text-center text-muted-foreground">
-            No categories found. Click "Add Category" to create your first
-            category.
+            {t("categories.empty")}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -275,28 +276,30 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
                   <TableHead className="w-[10%]">
                     <div className="flex items-center gap-1">
                       <Tag size={14} />
-                      <span>Icon</span>
+                      <span>{t("common.icon")}</span>
                     </div>
                   </TableHead>
                   <TableHead className="w-[30%]">
                     <div className="flex items-center gap-1">
                       <Tag size={14} />
-                      <span>Name</span>
+                      <span>{t("common.name")}</span>
                     </div>
                   </TableHead>
                   <TableHead className="w-[15%]">
                     <div className="flex items-center gap-1">
                       <ArrowUpDown size={14} />
-                      <span>Type</span>
+                      <span>{t("common.type")}</span>
                     </div>
                   </TableHead>
                   <TableHead className="w-[15%]">
                     <div className="flex items-center gap-1">
                       <Palette size={14} />
-                      <span>Color</span>
+                      <span>{t("common.color")}</span>
                     </div>
                   </TableHead>
-                  <TableHead className="text-right w-[15%]">Actions</TableHead>
+                  <TableHead className="text-right w-[15%]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -359,8 +362,8 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
                         }`}
                         title={
                           category.is_default
-                            ? "Default categories cannot be deleted"
-                            : "Delete category"
+                            ? t("categories.defaultCannotDelete")
+                            : t("categories.deleteCategory")
                         }
                       >
                         <Trash2 size={16} />
@@ -387,7 +390,7 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
           }}
           className="mt-4"
         >
-          Add Category
+          {t("categories.add")}
         </Button>
         <CategorySidebarModal
           isOpen={isSidebarOpen}
@@ -404,17 +407,17 @@ export function CategoryList({ type = "expense", onAdd, onEdit }: CategoryListPr
         <Dialog open={isDeleteConfirmOpen} onOpenChange={(open) => !open && handleDeleteCancel()}>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Confirm Deletion</DialogTitle>
+              <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
               <DialogDescription>
-                Are you sure you want to delete this category? This action cannot be undone.
+                {t("categories.deleteConfirm")}
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
               <Button variant="outline" onClick={handleDeleteCancel}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button variant="destructive" onClick={handleDeleteConfirm}>
-                Delete
+                {t("common.delete")}
               </Button>
             </DialogFooter>
           </DialogContent>
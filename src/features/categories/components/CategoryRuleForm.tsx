@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { AlertCircle } from "lucide-react";
+import { useAuth } from "../../../state/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetClose,
+} from "@/components/ui/sheet";
+import { getCategories, Category } from "../../../api/supabase/categories";
+import {
+  createCategoryRule,
+  updateCategoryRule,
+  CategoryRule,
+} from "../../../api/supabase/categoryRules";
+import { TagSelector } from "../../tags/components/TagSelector";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface CategoryRuleFormProps {
+  rule?: CategoryRule;
+  nextPriority: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Sidebar modal for Add/Edit Category Rule
+export function CategoryRuleSidebarModal({
+  isOpen,
+  ...props
+}: CategoryRuleFormProps & { isOpen: boolean }) {
+  const { t } = useLanguage();
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && props.onClose()}>
+      <SheetContent side="right" className="p-0 sm:max-w-md overflow-y-auto">
+        <SheetHeader className="p-6 pb-2">
+          <SheetTitle>
+            {props.rule
+              ? t("categories.rules.edit")
+              : t("categories.rules.add")}
+          </SheetTitle>
+          <SheetClose className="absolute top-4 right-4" />
+        </SheetHeader>
+        <div className="px-6 pb-6">
+          <CategoryRuleForm key={props.rule?.id || "new"} {...props} />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export function CategoryRuleForm({
+  rule,
+  nextPriority,
+  onClose,
+  onSuccess,
+}: CategoryRuleFormProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [name, setName] = useState(rule?.name || "");
+  const [matchField, setMatchField] = useState<CategoryRule["match_field"]>(
+    rule?.match_field || "description"
+  );
+  const [matchType, setMatchType] = useState<CategoryRule["match_type"]>(
+    rule?.match_type || "contains"
+  );
+  const [pattern, setPattern] = useState(rule?.pattern || "");
+  const [transactionType, setTransactionType] = useState<string>(
+    rule?.transaction_type || "any"
+  );
+  const [categoryId, setCategoryId] = useState(rule?.category_id || "none");
+  const [tagIds, setTagIds] = useState<string[]>(rule?.tag_ids || []);
+  const [isActive, setIsActive] = useState(rule?.is_active ?? true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCategories() {
+      const { data, error } = await getCategories();
+      if (error) {
+        console.error("Error fetching categories:", error);
+        return;
+      }
+      setCategories(data || []);
+    }
+
+    fetchCategories();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) return;
+
+    // Validate form
+    if (!pattern.trim()) {
+      setError(t("categories.rules.form.patternRequired"));
+      return;
+    }
+
+    if (matchType === "regex") {
+      try {
+        new RegExp(pattern);
+      } catch {
+        setError(t("categories.rules.form.invalidRegex"));
+        return;
+      }
+    }
+
+    if (categoryId === "none" && tagIds.length === 0) {
+      setError(t("categories.rules.form.actionRequired"));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const values = {
+      name: name.trim() || pattern.trim(),
+      match_field: matchField,
+      match_type: matchType,
+      pattern: pattern.trim(),
+      transaction_type:
+        transactionType === "any"
+          ? null
+          : (transactionType as "expense" | "income"),
+      category_id: categoryId === "none" ? null : categoryId,
+      tag_ids: tagIds,
+      is_active: isActive,
+    };
+
+    try {
+      if (rule) {
+        const { error } = await updateCategoryRule(rule.id, values);
+        if (error) throw error;
+      } else {
+        const { error } = await createCategoryRule({
+          ...values,
+          user_id: user.id,
+          priority: nextPriority,
+        });
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error("Error saving category rule:", err);
+      setError(t("categories.rules.saveError"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="rule-name">{t("categories.rules.form.name")}</Label>
+          <Input
+            id="rule-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("categories.rules.form.namePlaceholder")}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>{t("categories.rules.form.when")}</Label>
+            <Select
+              value={matchField}
+              onValueChange={(value) =>
+                setMatchField(value as CategoryRule["match_field"])
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="description">
+                  {t("categories.rules.fields.description")}
+                </SelectItem>
+                <SelectItem value="notes">
+                  {t("categories.rules.fields.notes")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("categories.rules.form.condition")}</Label>
+            <Select
+              value={matchType}
+              onValueChange={(value) =>
+                setMatchType(value as CategoryRule["match_type"])
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="contains">
+                  {t("categories.rules.conditions.contains")}
+                </SelectItem>
+                <SelectItem value="starts_with">
+                  {t("categories.rules.conditions.starts_with")}
+                </SelectItem>
+                <SelectItem value="equals">
+                  {t("categories.rules.conditions.equals")}
+                </SelectItem>
+                <SelectItem value="regex">
+                  {t("categories.rules.conditions.regex")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rule-pattern">
+            {t("categories.rules.form.text")}
+          </Label>
+          <Input
+            id="rule-pattern"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={t("categories.rules.form.patternPlaceholder")}
+            required
+          />
+          <p className="text-xs text-muted-foreground">
+            {t("categories.rules.form.caseHelp")}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("categories.rules.form.transactionType")}</Label>
+          <Select value={transactionType} onValueChange={setTransactionType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">
+                {t("categories.rules.form.any")}
+              </SelectItem>
+              <SelectItem value="expense">{t("common.expense")}</SelectItem>
+              <SelectItem value="income">{t("common.income")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("categories.rules.form.setCategory")}</Label>
+          <Select value={categoryId} onValueChange={setCategoryId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("common.selectCategory")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                {t("categories.rules.form.dontChange")}
+              </SelectItem>
+              {categories
+                .filter(
+                  (category) =>
+                    transactionType === "any" ||
+                    category.type === transactionType ||
+                    category.type === "both"
+                )
+                .map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("categories.rules.form.addTags")}</Label>
+          <TagSelector selectedTagIds={tagIds} onTagsChange={setTagIds} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="rule-active">{t("categories.rules.active")}</Label>
+          <Switch
+            id="rule-active"
+            checked={isActive}
+            onCheckedChange={setIsActive}
+          />
+        </div>
+
+        <div className="mt-4 flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? t("common.saving")
+              : rule
+              ? t("categories.rules.update")
+              : t("categories.rules.add")}
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Edit,
+  Eye,
+  Loader2,
+  Plus,
+  Trash2,
+  Wand2,
+} from "lucide-react";
+import {
+  deleteCategoryRule,
+  getCategoryRules,
+  reorderCategoryRules,
+  updateCategoryRule,
+  CategoryRule,
+} from "../../../api/supabase/categoryRules";
+import { getCategories } from "../../../api/supabase/categories";
+import { getTags, Tag } from "../../../api/supabase/tags";
+import { showItemDeletedToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CategoryRuleSidebarModal } from "./CategoryRuleForm";
+import { CategoryRulePreview } from "./CategoryRulePreview";
+import { useLanguage } from "../../../providers/languageUtils";
+import type { TranslationKey } from "../../../i18n";
+
+const MATCH_TYPE_LABELS: Record<CategoryRule["match_type"], TranslationKey> = {
+  contains: "categories.rules.conditions.contains",
+  starts_with: "categories.rules.conditions.starts_with",
+  equals: "categories.rules.conditions.equals",
+  regex: "categories.rules.matches",
+};
+
+export function CategoryRuleList() {
+  const { t } = useLanguage();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [categoryNames, setCategoryNames] = useState<Record<string, string>>(
+    {}
+  );
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<CategoryRule | undefined>();
+  const [ruleToDelete, setRuleToDelete] = useState<CategoryRule | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewRuleId, setPreviewRuleId] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [rulesResult, categoriesResult, tagsResult] = await Promise.all([
+        getCategoryRules(),
+        getCategories(),
+        getTags(),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (tagsResult.error) throw tagsResult.error;
+
+      setRules(rulesResult.data || []);
+      setCategoryNames(
+        Object.fromEntries(
+          (categoriesResult.data || []).map((category) => [
+            category.id,
+            category.name,
+          ])
+        )
+      );
+      setTags(tagsResult.data || []);
+    } catch (err) {
+      console.error("Error loading category rules:", err);
+      setError(t("categories.rules.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    const updated = reordered.map((rule, i) => ({ ...rule, priority: i }));
+    setRules(updated);
+
+    const { error } = await reorderCategoryRules(updated.map((r) => r.id));
+    if (error) {
+      console.error("Error reordering category rules:", error);
+      showErrorToast(t("categories.rules.reorderError"));
+      loadRules();
+    }
+  };
+
+  const handleToggleActive = async (rule: CategoryRule, isActive: boolean) => {
+    setRules((prev) =>
+      prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r))
+    );
+
+    const { error } = await updateCategoryRule(rule.id, {
+      is_active: isActive,
+    });
+    if (error) {
+      console.error("Error updating category rule:", error);
+      showErrorToast(t("categories.rules.updateError"));
+      loadRules();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+
+    const { error } = await deleteCategoryRule(ruleToDelete.id);
+    if (error) {
+      console.error("Error deleting category rule:", error);
+      showErrorToast(t("categories.rules.deleteError"));
+    } else {
+      setRules((prev) => prev.filter((r) => r.id !== ruleToDelete.id));
+      showItemDeletedToast(t("toast.items.rule"));
+    }
+    setRuleToDelete(null);
+  };
+
+  const openPreview = (ruleId: string | null) => {
+    setPreviewRuleId(ruleId);
+    setIsPreviewOpen(true);
+  };
+
+  const tagName = (id: string) => tags.find((tag) => tag.id === id)?.name;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {t("categories.rules.help")}
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button
+            variant="outline"
+            onClick={() => openPreview(null)}
+            disabled={rules.length === 0}
+            className="flex items-center gap-1"
+          >
+            <Wand2 size={16} />
+            {t("categories.rules.runOnUncategorized")}
+          </Button>
+          <Button
+            onClick={() => {
+              setSelectedRule(undefined);
+              setIsFormOpen(true);
+            }}
+            className="flex items-center gap-1"
+          >
+            <Plus size={16} />
+            {t("categories.rules.add")}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="p-4 text-center text-muted-foreground">
+          {t("categories.rules.empty")}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[80px]">
+                {t("categories.rules.order")}
+              </TableHead>
+              <TableHead>{t("categories.rules.rule")}</TableHead>
+              <TableHead>{t("categories.rules.applies")}</TableHead>
+              <TableHead>{t("categories.rules.active")}</TableHead>
+              <TableHead className="text-right">
+                {t("common.actions")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule, index) => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === rules.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{rule.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {t("categories.rules.summary", {
+                      field: t(`categories.rules.fields.${rule.match_field}`),
+                      condition: t(MATCH_TYPE_LABELS[rule.match_type]),
+                      pattern: rule.pattern,
+                    })}
+                    {rule.transaction_type &&
+                      ` (${t(`common.${rule.transaction_type}`)})`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {rule.category_id && (
+                      <Badge variant="outline">
+                        {categoryNames[rule.category_id] ||
+                          t("categories.unknown")}
+                      </Badge>
+                    )}
+                    {rule.tag_ids.map(
+                      (id) =>
+                        tagName(id) && (
+                          <Badge key={id} variant="secondary">
+                            {tagName(id)}
+                          </Badge>
+                        )
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) =>
+                      handleToggleActive(rule, checked)
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("categories.rules.preview")}
+                    onClick={() => openPreview(rule.id)}
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("common.edit")}
+                    onClick={() => {
+                      setSelectedRule(rule);
+                      setIsFormOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("common.delete")}
+                    onClick={() => setRuleToDelete(rule)}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <CategoryRuleSidebarModal
+        isOpen={isFormOpen}
+        rule={selectedRule}
+        nextPriority={rules.length}
+        onClose={() => setIsFormOpen(false)}
+        onSuccess={loadRules}
+      />
+
+      <CategoryRulePreview
+        isOpen={isPreviewOpen}
+        onClose={() => setIsPreviewOpen(false)}
+        rules={rules}
+        ruleId={previewRuleId}
+        categoryNames={categoryNames}
+      />
+
+      <AlertDialog
+        open={ruleToDelete !== null}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("categories.rules.deleteTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("categories.rules.deleteDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect, useMemo } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import {
+  applyCategoryRules,
+  getUncategorizedTransactions,
+  matchCategoryRules,
+  CategoryRule,
+} from "../../../api/supabase/categoryRules";
+import type { Transaction } from "../../../api/supabase/transactions";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { useLanguage } from "../../../providers/languageUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface CategoryRulePreviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: CategoryRule[];
+  // Limit the preview to the rows this rule would touch
+  ruleId?: string | null;
+  categoryNames: Record<string, string>;
+}
+
+export function CategoryRulePreview({
+  isOpen,
+  onClose,
+  rules,
+  ruleId,
+  categoryNames,
+}: CategoryRulePreviewProps) {
+  const { t } = useLanguage();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    async function fetchUncategorized() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const { data, error } = await getUncategorizedTransactions();
+        if (error) throw error;
+
+        setTransactions(data || []);
+      } catch (err) {
+        console.error("Error fetching uncategorized transactions:", err);
+        setError(t("categories.rules.previewDialog.loadError"));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchUncategorized();
+  }, [isOpen, t]);
+
+  // Dry run: which rule would handle each uncategorized row
+  const matchesByRule = useMemo(() => {
+    const grouped = new Map<string, Transaction[]>();
+    matchCategoryRules(rules, transactions).forEach(({ rule, transaction }) => {
+      if (ruleId && rule.id !== ruleId) return;
+      grouped.set(rule.id, [...(grouped.get(rule.id) || []), transaction]);
+    });
+    return grouped;
+  }, [rules, transactions, ruleId]);
+
+  const matchedTransactions = Array.from(matchesByRule.values()).flat();
+
+  const handleApply = async () => {
+    try {
+      setIsApplying(true);
+      const { data, error } = await applyCategoryRules(
+        matchedTransactions,
+        rules
+      );
+      if (error) throw error;
+
+      showToast({
+        type: "success",
+        title: t("categories.rules.previewDialog.applied"),
+        description: t("categories.rules.previewDialog.appliedDescription", {
+          categorized: data?.categorized || 0,
+          tagged: data?.tagged || 0,
+        }),
+        duration: 3000,
+      });
+
+      onClose();
+    } catch (err) {
+      console.error("Error applying category rules:", err);
+      showErrorToast(t("categories.rules.previewDialog.applyError"));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const previewRules = rules.filter((rule) => matchesByRule.has(rule.id));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>{t("categories.rules.previewDialog.title")}</DialogTitle>
+          <DialogDescription>
+            {t("categories.rules.previewDialog.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="max-h-[400px] overflow-y-auto space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : previewRules.length === 0 ? (
+            <div className="p-4 text-center text-muted-foreground">
+              {ruleId
+                ? t("categories.rules.previewDialog.noMatchesRule")
+                : t("categories.rules.previewDialog.noMatchesRules")}
+            </div>
+          ) : (
+            previewRules.map((rule) => {
+              const ruleTransactions = matchesByRule.get(rule.id) || [];
+              return (
+                <div key={rule.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="secondary">
+                      {t("categories.rules.previewDialog.rows", {
+                        count: ruleTransactions.length,
+                      })}
+                    </Badge>
+                    {rule.category_id && (
+                      <Badge variant="outline">
+                        →{" "}
+                        {categoryNames[rule.category_id] ||
+                          t("categories.unknown")}
+                      </Badge>
+                    )}
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("common.date")}</TableHead>
+                        <TableHead>{t("common.description")}</TableHead>
+                        <TableHead className="text-right">
+                          {t("common.amount")}
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ruleTransactions.map((transaction) => (
+                        <TableRow key={transaction.id}>
+                          <TableCell>{formatDate(transaction.date)}</TableCell>
+                          <TableCell>
+                            {transaction.description || "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(transaction.amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.close")}
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={
+              isLoading || isApplying || matchedTransactions.length === 0
+            }
+          >
+            {isApplying
+              ? t("categories.rules.previewDialog.applying")
+              : t("categories.rules.previewDialog.apply", {
+                  count: matchedTransactions.length,
+                })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
 export * from './CategoryList';
 export * from './CategoryForm';
 export * from './CategoryColorPicker';
+export * from './CategoryRuleList';
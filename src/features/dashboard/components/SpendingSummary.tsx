@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { getMonthlySpending } from "../../../api/supabase/transactions";
-import { formatCurrency } from "../../../utils/formatters";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 import { AlertCircle, Loader2, ArrowUpCircle, ArrowDownCircle, Calendar } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -15,6 +16,7 @@ interface SpendingSummaryData {
 }
 
 export function SpendingSummary() {
+  const { t } = useLanguage();
   const [summary, setSummary] = useState<SpendingSummaryData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -32,14 +34,14 @@ export function SpendingSummary() {
         setSummary(data || null);
       } catch (err) {
         console.error("Error fetching spending summary:", err);
-        setError("Failed to load spending summary");
+        setError(t("dashboard.loadSummaryError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchSummary();
-  }, []);
+  }, [t]);
 
   if (isLoading) {
     return (
@@ -66,7 +68,7 @@ export function SpendingSummary() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <ArrowUpCircle className="h-4 w-4 text-green-500" />
-              Total Income
+              {t("dashboard.totalIncome")}
             </CardTitle>
           </CardHeader>
           <CardContent className="pb-2">
@@ -79,7 +81,7 @@ export function SpendingSummary() {
           </CardContent>
           <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
             <Calendar className="h-3 w-3 mr-1" />
-            Current month
+            {t("dashboard.currentMonth")}
           </CardFooter>
         </Card>
 
@@ -87,7 +89,7 @@ export function SpendingSummary() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <ArrowDownCircle className="h-4 w-4 text-red-500" />
-              Total Expenses
+              {t("dashboard.totalExpenses")}
             </CardTitle>
           </CardHeader>
           <CardContent className="pb-2">
@@ -100,7 +102,7 @@ export function SpendingSummary() {
           </CardContent>
           <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
             <Calendar className="h-3 w-3 mr-1" />
-            Current month
+            {t("dashboard.currentMonth")}
           </CardFooter>
         </Card>
 
@@ -108,7 +110,7 @@ export function SpendingSummary() {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <ArrowUpCircle className="h-4 w-4 text-green-500" />
-              Savings
+              {t("dashboard.savings")}
             </CardTitle>
           </CardHeader>
           <CardContent className="pb-2">
@@ -121,14 +123,15 @@ export function SpendingSummary() {
           </CardContent>
           <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
             <Calendar className="h-3 w-3 mr-1" />
-            Current month
+            {t("dashboard.currentMonth")}
           </CardFooter>
         </Card>
       </div>
     );
   }
 
-  const { totalIncome, totalExpenses, netSavings, month, year } = summary;
+  const { totalIncome, totalExpenses, netSavings } = summary;
+  const currentMonth = formatDate(new Date(), "month");
   const savingsRate =
     totalIncome > 0 ? Math.round((netSavings / totalIncome) * 100) : 0;
 
@@ -138,7 +141,7 @@ export function SpendingSummary() {
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium flex items-center gap-2">
             <ArrowUpCircle className="h-4 w-4 text-green-500" />
-            Total Income
+            {t("dashboard.totalIncome")}
           </CardTitle>
         </CardHeader>
         <CardContent className="pb-2">
@@ -154,7 +157,7 @@ export function SpendingSummary() {
         </CardContent>
         <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
           <Calendar className="h-3 w-3 mr-1" />
-          {month} {year}
+          {currentMonth}
         </CardFooter>
       </Card>
 
@@ -162,7 +165,7 @@ export function SpendingSummary() {
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium flex items-center gap-2">
             <ArrowDownCircle className="h-4 w-4 text-red-500" />
-            Total Expenses
+            {t("dashboard.totalExpenses")}
           </CardTitle>
         </CardHeader>
         <CardContent className="pb-2">
@@ -178,7 +181,7 @@ export function SpendingSummary() {
         </CardContent>
         <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
           <Calendar className="h-3 w-3 mr-1" />
-          {month} {year}
+          {currentMonth}
         </CardFooter>
       </Card>
 
@@ -196,7 +199,7 @@ export function SpendingSummary() {
             ) : (
               <ArrowDownCircle className="h-4 w-4 text-red-500" />
             )}
-            {netSavings >= 0 ? "Savings" : "Deficit"}
+            {netSavings >= 0 ? t("dashboard.savings") : t("dashboard.deficit")}
           </CardTitle>
         </CardHeader>
         <CardContent className="pb-2">
@@ -219,12 +222,12 @@ export function SpendingSummary() {
         <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground flex justify-between">
           <div>
             <Calendar className="h-3 w-3 mr-1 inline" />
-            {month} {year}
+            {currentMonth}
           </div>
           <div>
             {totalIncome > 0 && (
               <span className="font-medium">
-                {savingsRate}% of income
+                {t("dashboard.ofIncome", { percent: savingsRate })}
               </span>
             )}
           </div>
@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import {
+  generateAmortizationSchedule,
+  DebtTerms,
+} from "../../../api/supabase/debts";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface DebtAmortizationTableProps {
+  debt: DebtTerms;
+  extraPayment?: number;
+  className?: string;
+}
+
+export function DebtAmortizationTable({
+  debt,
+  extraPayment = 0,
+  className = "",
+}: DebtAmortizationTableProps) {
+  const { t } = useLanguage();
+  const schedule = useMemo(
+    () => generateAmortizationSchedule(debt, extraPayment),
+    [debt, extraPayment]
+  );
+
+  return (
+    <div className={className}>
+      {schedule.payoffDate ? (
+        <div className="grid grid-cols-3 gap-4 mb-4">
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {t("debts.schedule.payoffDate")}
+            </p>
+            <p className="text-lg font-semibold">
+              {formatDate(schedule.payoffDate, "medium")}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {t("debts.schedule.totalInterest")}
+            </p>
+            <p className="text-lg font-semibold text-red-600">
+              {formatCurrency(schedule.totalInterest)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {t("debts.schedule.totalPaid")}
+            </p>
+            <p className="text-lg font-semibold">
+              {formatCurrency(schedule.totalPaid)}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{t("debts.schedule.neverPaidOff")}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("debts.schedule.month")}</TableHead>
+              <TableHead>{t("common.date")}</TableHead>
+              <TableHead className="text-right">
+                {t("debts.schedule.payment")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("debts.schedule.interest")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("debts.schedule.principal")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("debts.schedule.balance")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.rows.map((row) => (
+              <TableRow key={row.month}>
+                <TableCell>{row.month}</TableCell>
+                <TableCell>{formatDate(row.date, "medium")}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.payment)}
+                </TableCell>
+                <TableCell className="text-right text-red-600">
+                  {formatCurrency(row.interest)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.principal)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(row.balance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
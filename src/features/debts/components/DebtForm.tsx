@@ -0,0 +1,316 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { AlertCircle } from "lucide-react";
+import {
+  showItemCreatedToast,
+  showItemUpdatedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createDebt,
+  updateDebt,
+  Debt,
+  DebtInsert,
+  DebtType,
+} from "../../../api/supabase/debts";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface DebtFormProps {
+  debt?: Debt;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Select value for a debt not linked to a bank account
+const NO_ACCOUNT = "none";
+
+export function DebtForm({ debt, onClose, onSuccess }: DebtFormProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+
+  // Form state
+  const [name, setName] = useState(debt?.name || "");
+  const [debtType, setDebtType] = useState<DebtType>(
+    debt?.debt_type || "loan"
+  );
+  const [principal, setPrincipal] = useState(
+    debt?.principal?.toString() || ""
+  );
+  const [apr, setApr] = useState(debt?.apr?.toString() || "");
+  const [minimumPayment, setMinimumPayment] = useState(
+    debt?.minimum_payment?.toString() || ""
+  );
+  const [dueDay, setDueDay] = useState(debt?.due_day?.toString() || "1");
+  const [bankAccountId, setBankAccountId] = useState(
+    debt?.bank_account_id || NO_ACCOUNT
+  );
+  const [notes, setNotes] = useState(debt?.notes || "");
+
+  // Credit cards can be linked to the credit account they are drawn on
+  useEffect(() => {
+    async function fetchAccounts() {
+      const { data, error } = await getBankAccounts();
+      if (error) {
+        console.error("Error fetching bank accounts:", error);
+        return;
+      }
+      setAccounts(
+        (data || []).filter((account) => account.account_type === "credit")
+      );
+    }
+
+    fetchAccounts();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Validate form
+      if (!name.trim()) {
+        setError(t("debts.form.nameRequired"));
+        return;
+      }
+
+      const principalAmount = parseFloat(principal);
+      if (isNaN(principalAmount) || principalAmount < 0) {
+        setError(t("debts.form.invalidPrincipal"));
+        return;
+      }
+
+      const aprValue = apr ? parseFloat(apr) : 0;
+      if (isNaN(aprValue) || aprValue < 0 || aprValue > 100) {
+        setError(t("debts.form.invalidApr"));
+        return;
+      }
+
+      const payment = parseFloat(minimumPayment);
+      if (isNaN(payment) || payment <= 0) {
+        setError(t("debts.form.invalidMinimumPayment"));
+        return;
+      }
+
+      const day = parseInt(dueDay, 10);
+      if (isNaN(day) || day < 1 || day > 31) {
+        setError(t("debts.form.invalidDueDay"));
+        return;
+      }
+
+      const debtData: DebtInsert = {
+        user_id: user.id,
+        name: name.trim(),
+        debt_type: debtType,
+        principal: Math.round(principalAmount * 100) / 100,
+        apr: aprValue,
+        minimum_payment: Math.round(payment * 100) / 100,
+        due_day: day,
+        bank_account_id:
+          debtType === "credit_card" && bankAccountId !== NO_ACCOUNT
+            ? bankAccountId
+            : null,
+        notes: notes || null,
+      };
+
+      const result = debt
+        ? await updateDebt(debt.id, debtData)
+        : await createDebt(debtData);
+
+      if (result.error) {
+        throw result.error;
+      }
+
+      if (debt) {
+        showItemUpdatedToast(t("toast.items.debt"));
+      } else {
+        showItemCreatedToast(t("toast.items.debt"));
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error("Error saving debt:", err);
+      setError(t("debts.saveError"));
+      showErrorToast(t("debts.saveError"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Name */}
+      <div className="space-y-2">
+        <Label htmlFor="debtName">{t("debts.form.name")}</Label>
+        <Input
+          id="debtName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("debts.form.namePlaceholder")}
+          required
+        />
+      </div>
+
+      {/* Type */}
+      <div className="space-y-2">
+        <Label htmlFor="debtType">{t("debts.form.type")}</Label>
+        <Select
+          value={debtType}
+          onValueChange={(value) => setDebtType(value as DebtType)}
+        >
+          <SelectTrigger id="debtType">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="credit_card">
+              {t("debts.types.credit_card")}
+            </SelectItem>
+            <SelectItem value="loan">{t("debts.types.loan")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Principal */}
+      <div className="space-y-2">
+        <Label htmlFor="debtPrincipal">{t("debts.form.principal")}</Label>
+        <Input
+          id="debtPrincipal"
+          type="number"
+          value={principal}
+          onChange={(e) => setPrincipal(e.target.value)}
+          step="0.01"
+          min="0"
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("debts.form.principalHelp")}
+        </p>
+      </div>
+
+      {/* APR */}
+      <div className="space-y-2">
+        <Label htmlFor="debtApr">{t("debts.form.apr")}</Label>
+        <Input
+          id="debtApr"
+          type="number"
+          value={apr}
+          onChange={(e) => setApr(e.target.value)}
+          step="0.001"
+          min="0"
+          max="100"
+          placeholder="0"
+        />
+      </div>
+
+      {/* Minimum Payment */}
+      <div className="space-y-2">
+        <Label htmlFor="debtMinimumPayment">
+          {t("debts.form.minimumPayment")}
+        </Label>
+        <Input
+          id="debtMinimumPayment"
+          type="number"
+          value={minimumPayment}
+          onChange={(e) => setMinimumPayment(e.target.value)}
+          step="0.01"
+          min="0.01"
+          required
+        />
+      </div>
+
+      {/* Due Day */}
+      <div className="space-y-2">
+        <Label htmlFor="debtDueDay">{t("debts.form.dueDay")}</Label>
+        <Input
+          id="debtDueDay"
+          type="number"
+          value={dueDay}
+          onChange={(e) => setDueDay(e.target.value)}
+          step="1"
+          min="1"
+          max="31"
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("debts.form.dueDayHelp")}
+        </p>
+      </div>
+
+      {/* Linked Credit Account */}
+      {debtType === "credit_card" && (
+        <div className="space-y-2">
+          <Label htmlFor="debtAccount">{t("debts.form.account")}</Label>
+          <Select value={bankAccountId} onValueChange={setBankAccountId}>
+            <SelectTrigger id="debtAccount">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT}>
+                {t("debts.form.noAccount")}
+              </SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Notes */}
+      <div className="space-y-2">
+        <Label htmlFor="debtNotes">{t("common.notes")}</Label>
+        <Textarea
+          id="debtNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+        />
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex justify-end space-x-3 pt-4">
+        <Button type="button" onClick={onClose} variant="outline">
+          {t("common.cancel")}
+        </Button>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading
+            ? t("common.saving")
+            : debt
+            ? t("debts.update")
+            : t("debts.add")}
+        </Button>
+      </div>
+    </form>
+  );
+}
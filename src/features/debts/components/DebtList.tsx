@@ -0,0 +1,242 @@
+import { useState } from "react";
+import {
+  deleteDebt,
+  getDebtPaymentDate,
+  Debt,
+} from "../../../api/supabase/debts";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showItemDeletedToast, showErrorToast } from "../../../utils/toast";
+import {
+  Edit,
+  Trash2,
+  Plus,
+  CreditCard,
+  Landmark,
+  TableProperties,
+  Scale,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { DebtAmortizationTable } from "./DebtAmortizationTable";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface DebtListProps {
+  debts: Debt[];
+  onEdit: (debt: Debt) => void;
+  onAdd: () => void;
+  onDeleted: () => void;
+}
+
+export function DebtList({ debts, onEdit, onAdd, onDeleted }: DebtListProps) {
+  const { t } = useLanguage();
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [debtToDelete, setDebtToDelete] = useState<string | null>(null);
+  const [scheduleDebt, setScheduleDebt] = useState<Debt | null>(null);
+
+  const totalOwed = debts.reduce((sum, debt) => sum + debt.principal, 0);
+  const totalMinimum = debts
+    .filter((debt) => debt.principal > 0)
+    .reduce((sum, debt) => sum + debt.minimum_payment, 0);
+
+  // Handle debt deletion
+  const handleDeleteClick = (id: string) => {
+    setDebtToDelete(id);
+    setIsDeleteConfirmOpen(true);
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!debtToDelete) return;
+
+    try {
+      const { error } = await deleteDebt(debtToDelete);
+      if (error) throw error;
+
+      showItemDeletedToast(t("toast.items.debt"));
+      onDeleted();
+    } catch (err) {
+      console.error("Error deleting debt:", err);
+      showErrorToast(t("debts.deleteError"));
+    } finally {
+      setIsDeleteConfirmOpen(false);
+      setDebtToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Total Card */}
+      <Card className="border-t-4 border-t-red-500 bg-gradient-to-br from-red-50/50 to-transparent">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <Scale className="mr-2 h-5 w-5 text-red-500" />
+            {t("debts.totalOwed")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold text-red-600">
+            {formatCurrency(totalOwed)}
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {t("debts.totalMinimum", {
+              amount: formatCurrency(totalMinimum),
+            })}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Debts List */}
+      <Card className="border-t-4 border-t-red-500">
+        <CardHeader className="flex flex-row items-center justify-between py-4">
+          <CardTitle className="text-xl flex items-center">
+            <Landmark className="mr-2 h-5 w-5 text-red-500" />
+            {t("debts.listTitle")}
+          </CardTitle>
+          <Button
+            onClick={onAdd}
+            size="sm"
+            className="bg-red-600 hover:bg-red-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t("debts.add")}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {debts.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground">
+              {t("debts.empty")}
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {debts.map((debt) => (
+                <li
+                  key={debt.id}
+                  className="py-4 hover:bg-muted/50 rounded-md px-2"
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex items-start space-x-3">
+                      <div className="p-2 bg-primary/10 rounded-full">
+                        {debt.debt_type === "credit_card" ? (
+                          <CreditCard className="h-4 w-4" />
+                        ) : (
+                          <Landmark className="h-4 w-4" />
+                        )}
+                      </div>
+                      <div>
+                        <h3 className="text-md font-medium">{debt.name}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {t("debts.terms", {
+                            apr: debt.apr,
+                            payment: formatCurrency(debt.minimum_payment),
+                          })}
+                        </p>
+                        {debt.principal > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            {t("debts.nextPayment", {
+                              date: formatDate(
+                                getDebtPaymentDate(debt.due_day, 1),
+                                "medium"
+                              ),
+                            })}
+                          </p>
+                        )}
+                        <div className="flex gap-1 mt-1">
+                          <Badge variant="outline">
+                            {t(`debts.types.${debt.debt_type}`)}
+                          </Badge>
+                          {debt.principal <= 0 && (
+                            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                              {t("debts.paidOff")}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-lg font-semibold text-red-500">
+                        {formatCurrency(debt.principal)}
+                      </div>
+                      <div className="flex mt-2 space-x-1 justify-end">
+                        <Button
+                          onClick={() => setScheduleDebt(debt)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={t("debts.schedule.title")}
+                        >
+                          <TableProperties className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => onEdit(debt)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          onClick={() => handleDeleteClick(debt.id)}
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Amortization Schedule Dialog */}
+      <Dialog
+        open={scheduleDebt !== null}
+        onOpenChange={(open) => !open && setScheduleDebt(null)}
+      >
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t("debts.schedule.title")}</DialogTitle>
+            <DialogDescription>
+              {scheduleDebt &&
+                t("debts.schedule.description", { name: scheduleDebt.name })}
+            </DialogDescription>
+          </DialogHeader>
+          {scheduleDebt && <DebtAmortizationTable debt={scheduleDebt} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("debts.deleteConfirm")}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsDeleteConfirmOpen(false)}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm}>
+              {t("common.delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
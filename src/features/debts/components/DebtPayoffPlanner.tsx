@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  compareDebtPayoffStrategies,
+  Debt,
+  DebtPayoffPlan,
+  DEBT_PAYOFF_STRATEGIES,
+} from "../../../api/supabase/debts";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Snowflake, Mountain } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface DebtPayoffPlannerProps {
+  debts: Debt[];
+  className?: string;
+}
+
+const STRATEGY_COLORS = {
+  snowball: "#3B82F6",
+  avalanche: "#F97316",
+};
+
+export function DebtPayoffPlanner({
+  debts,
+  className = "",
+}: DebtPayoffPlannerProps) {
+  const { t } = useLanguage();
+  const [extraPayment, setExtraPayment] = useState("0");
+
+  const extra = Math.max(0, parseFloat(extraPayment) || 0);
+  const openDebts = useMemo(
+    () => debts.filter((debt) => debt.principal > 0),
+    [debts]
+  );
+  const comparison = useMemo(
+    () => compareDebtPayoffStrategies(openDebts, extra),
+    [openDebts, extra]
+  );
+
+  // Total balance month by month, one line per strategy
+  const chartData = useMemo(() => {
+    const length = Math.max(
+      comparison.snowball.balances.length,
+      comparison.avalanche.balances.length
+    );
+    return Array.from({ length }, (_, month) => ({
+      month,
+      snowball: comparison.snowball.balances[month] ?? 0,
+      avalanche: comparison.avalanche.balances[month] ?? 0,
+    }));
+  }, [comparison]);
+
+  if (openDebts.length === 0) {
+    return (
+      <div className="p-6 text-center text-muted-foreground">
+        {t("debts.planner.noDebts")}
+      </div>
+    );
+  }
+
+  const recommended =
+    comparison.interestSaved > 0
+      ? "avalanche"
+      : comparison.interestSaved < 0
+      ? "snowball"
+      : null;
+
+  const renderPlan = (plan: DebtPayoffPlan) => (
+    <Card
+      key={plan.strategy}
+      className="border-t-4"
+      style={{ borderTopColor: STRATEGY_COLORS[plan.strategy] }}
+    >
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center">
+            {plan.strategy === "snowball" ? (
+              <Snowflake className="mr-2 h-5 w-5 text-blue-500" />
+            ) : (
+              <Mountain className="mr-2 h-5 w-5 text-orange-500" />
+            )}
+            {t(`debts.planner.strategies.${plan.strategy}`)}
+          </span>
+          {recommended === plan.strategy && (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              {t("debts.planner.cheapest")}
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {t(`debts.planner.strategyDescriptions.${plan.strategy}`)}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {t("debts.planner.debtFree")}
+            </p>
+            <p className="text-lg font-semibold">
+              {plan.payoffDate
+                ? formatDate(plan.payoffDate, "month")
+                : t("debts.planner.never")}
+            </p>
+            {plan.months !== null && (
+              <p className="text-xs text-muted-foreground">
+                {t("debts.planner.months", { count: plan.months })}
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {t("debts.schedule.totalInterest")}
+            </p>
+            <p className="text-lg font-semibold text-red-600">
+              {formatCurrency(plan.totalInterest)}
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>{t("debts.planner.debt")}</TableHead>
+              <TableHead>{t("debts.schedule.payoffDate")}</TableHead>
+              <TableHead className="text-right">
+                {t("debts.schedule.interest")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.debts.map((payoff) => (
+              <TableRow key={payoff.debtId}>
+                <TableCell>{payoff.order}</TableCell>
+                <TableCell>{payoff.name}</TableCell>
+                <TableCell>
+                  {payoff.payoffDate
+                    ? formatDate(payoff.payoffDate, "month")
+                    : t("debts.planner.never")}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(payoff.interestPaid)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="max-w-xs space-y-2">
+        <Label htmlFor="extraPayment">{t("debts.planner.extraPayment")}</Label>
+        <Input
+          id="extraPayment"
+          type="number"
+          value={extraPayment}
+          onChange={(e) => setExtraPayment(e.target.value)}
+          step="0.01"
+          min="0"
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("debts.planner.extraPaymentHelp")}
+        </p>
+      </div>
+
+      {recommended && (
+        <p className="text-sm">
+          {t(`debts.planner.savings.${recommended}`, {
+            amount: formatCurrency(Math.abs(comparison.interestSaved)),
+          })}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {DEBT_PAYOFF_STRATEGIES.map((strategy) =>
+          renderPlan(comparison[strategy])
+        )}
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+            <YAxis
+              tickFormatter={(value) =>
+                formatCurrency(value, { compact: true })
+              }
+            />
+            <Tooltip
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(month: number) =>
+                t("debts.planner.months", { count: month })
+              }
+            />
+            <Legend />
+            {DEBT_PAYOFF_STRATEGIES.map((strategy) => (
+              <Line
+                key={strategy}
+                type="monotone"
+                dataKey={strategy}
+                name={t(`debts.planner.strategies.${strategy}`)}
+                stroke={STRATEGY_COLORS[strategy]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
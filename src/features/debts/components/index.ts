@@ -0,0 +1,4 @@
+export * from './DebtForm';
+export * from './DebtList';
+export * from './DebtAmortizationTable';
+export * from './DebtPayoffPlanner';
@@ -1,58 +1,192 @@
 import { useState, useEffect } from "react";
-import { getGoalContributions } from "../../../api/supabase/goals";
+import { Edit, Trash2, History } from "lucide-react";
+import {
+  getGoalContributions,
+  getGoalContributionHistory,
+  updateGoalContribution,
+  deleteGoalContribution,
+  GoalContribution,
+  GoalContributionChange,
+} from "../../../api/supabase/goals";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
+import {
+  showItemUpdatedToast,
+  showItemDeletedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import { useLanguage } from "../../../providers/languageUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
 
 interface ContributionHistoryProps {
   goalId: string;
+  // Called after a contribution was edited or deleted, so the goal can be
+  // reloaded
+  onChange?: () => void;
   className?: string;
 }
 
-interface Contribution {
-  id: string;
-  goal_id: string;
-  amount: number;
-  contribution_date: string;
-  notes: string | null;
-  created_at: string;
-}
+// The parts of a contribution a change log entry shows
+type ContributionSnapshot = Pick<
+  GoalContribution,
+  "amount" | "contribution_date"
+>;
 
 export function ContributionHistory({
   goalId,
+  onChange,
   className = "",
 }: ContributionHistoryProps) {
-  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const { t } = useLanguage();
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+  const [changes, setChanges] = useState<GoalContributionChange[]>([]);
+  const [showChanges, setShowChanges] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Edit and delete dialogs
+  const [editing, setEditing] = useState<GoalContribution | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [editDate, setEditDate] = useState("");
+  const [editNotes, setEditNotes] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<GoalContribution | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
   useEffect(() => {
     async function fetchContributions() {
       try {
         setIsLoading(true);
         setError(null);
 
-        const { data, error } = await getGoalContributions(goalId);
+        const [{ data, error }, historyResult] = await Promise.all([
+          getGoalContributions(goalId),
+          getGoalContributionHistory(goalId),
+        ]);
 
         if (error) {
           throw error;
         }
+        if (historyResult.error) {
+          throw historyResult.error;
+        }
 
         setContributions(data || []);
+        setChanges(historyResult.data || []);
       } catch (err) {
         console.error("Error fetching contributions:", err);
-        setError("Failed to load contribution history");
+        setError(t("goals.contributions.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchContributions();
-  }, [goalId]);
+  }, [goalId, t]);
+
+  const openEdit = (contribution: GoalContribution) => {
+    setEditing(contribution);
+    setEditAmount(contribution.amount.toString());
+    setEditDate(contribution.contribution_date);
+    setEditNotes(contribution.notes || "");
+    setEditError(null);
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const amount = parseFloat(editAmount);
+    if (isNaN(amount) || amount === 0) {
+      setEditError(t("goals.contributions.invalidEditAmount"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { error } = await updateGoalContribution(editing.id, {
+        amount,
+        contribution_date: editDate,
+        notes: editNotes || null,
+      });
+      if (error) throw error;
+
+      showItemUpdatedToast(t("toast.items.contribution"));
+      setEditing(null);
+      onChange?.();
+    } catch (err) {
+      console.error("Error updating contribution:", err);
+      setEditError(t("goals.contributions.updateError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await deleteGoalContribution(deleting.id);
+      if (error) throw error;
+
+      showItemDeletedToast(t("toast.items.contribution"));
+      setDeleting(null);
+      onChange?.();
+    } catch (err) {
+      console.error("Error deleting contribution:", err);
+      showErrorToast(t("goals.contributions.deleteError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describeChange = (change: GoalContributionChange) => {
+    const before = change.before as ContributionSnapshot | null;
+    const after = change.after as ContributionSnapshot | null;
+
+    if (change.action === "created" && after) {
+      return t(
+        after.amount < 0
+          ? "goals.contributions.changes.withdrawn"
+          : "goals.contributions.changes.created",
+        {
+          amount: formatCurrency(Math.abs(after.amount)),
+          date: formatDate(after.contribution_date, "medium"),
+        }
+      );
+    }
+    if (change.action === "updated" && before && after) {
+      return t("goals.contributions.changes.updated", {
+        before: formatCurrency(before.amount),
+        after: formatCurrency(after.amount),
+        date: formatDate(after.contribution_date, "medium"),
+      });
+    }
+    if (change.action === "deleted" && before) {
+      return t("goals.contributions.changes.deleted", {
+        amount: formatCurrency(before.amount),
+        date: formatDate(before.contribution_date, "medium"),
+      });
+    }
+    return "-";
+  };
 
   if (isLoading) {
     return (
       <div className={`${className}`}>
         <h3 className="text-lg font-medium text-gray-900 mb-4">
-          Contribution History
+          {t("goals.contributions.history")}
         </h3>
         <div className="flex justify-center p-4">
           <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
@@ -65,7 +199,7 @@ export function ContributionHistory({
     return (
       <div className={`${className}`}>
         <h3 className="text-lg font-medium text-gray-900 mb-4">
-          Contribution History
+          {t("goals.contributions.history")}
         </h3>
         <div className="p-4 text-red-500 bg-red-50 rounded-md">{error}</div>
       </div>
@@ -74,13 +208,27 @@ export function ContributionHistory({
 
   return (
     <div className={`${className}`}>
-      <h3 className="text-lg font-medium text-gray-900 mb-4">
-        Contribution History
-      </h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          {t("goals.contributions.history")}
+        </h3>
+        {changes.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowChanges(!showChanges)}
+          >
+            <History className="h-4 w-4 mr-1" />
+            {showChanges
+              ? t("goals.contributions.changes.hide")
+              : t("goals.contributions.changes.show")}
+          </Button>
+        )}
+      </div>
 
       {contributions.length === 0 ? (
         <div className="text-center p-4 bg-gray-50 rounded-md text-gray-500">
-          No contributions yet
+          {t("goals.contributions.empty")}
         </div>
       ) : (
         <div className="overflow-hidden border border-gray-200 rounded-md">
@@ -91,19 +239,22 @@ export function ContributionHistory({
                   scope="col"
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                 >
-                  Date
+                  {t("common.date")}
                 </th>
                 <th
                   scope="col"
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                 >
-                  Amount
+                  {t("common.amount")}
                 </th>
                 <th
                   scope="col"
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                 >
-                  Notes
+                  {t("common.notes")}
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  <span className="sr-only">{t("common.actions")}</span>
                 </th>
               </tr>
             </thead>
@@ -113,11 +264,44 @@ export function ContributionHistory({
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {formatDate(contribution.contribution_date, "medium")}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  <td
+                    className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                      contribution.amount < 0 ? "text-red-600" : "text-gray-900"
+                    }`}
+                  >
                     {formatCurrency(contribution.amount)}
+                    {contribution.amount < 0 && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {t("goals.contributions.withdrawal")}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-500">
-                    {contribution.notes || "-"}
+                    {contribution.funding_rule_id && (
+                      <span className="inline-flex items-center px-2 py-0.5 mr-2 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                        {t("goals.funding.autoContribution")}
+                      </span>
+                    )}
+                    {contribution.notes ||
+                      (contribution.funding_rule_id ? "" : "-")}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openEdit(contribution)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => setDeleting(contribution)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </td>
                 </tr>
               ))}
@@ -125,6 +309,124 @@ export function ContributionHistory({
           </table>
         </div>
       )}
+
+      {showChanges && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">
+            {t("goals.contributions.changes.title")}
+          </h4>
+          <ul className="text-sm divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {changes.map((change) => (
+              <li key={change.id} className="flex justify-between px-4 py-2">
+                <span>{describeChange(change)}</span>
+                <span className="text-gray-500 whitespace-nowrap ml-4">
+                  {formatDate(change.created_at, "medium")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Edit Contribution Modal */}
+      <Dialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("goals.contributions.edit")}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleEdit} className="space-y-4">
+            {editError && (
+              <div className="p-3 text-sm text-red-500 bg-red-50 rounded-md">
+                {editError}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="editContributionAmount">
+                {t("goals.contributions.amount")}
+              </Label>
+              <Input
+                type="number"
+                id="editContributionAmount"
+                value={editAmount}
+                onChange={(e) => setEditAmount(e.target.value)}
+                step="0.01"
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("goals.contributions.amountHelp")}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editContributionDate">{t("common.date")}</Label>
+              <Input
+                type="date"
+                id="editContributionDate"
+                value={editDate}
+                onChange={(e) => setEditDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editContributionNotes">
+                {t("common.notes")}
+              </Label>
+              <Textarea
+                id="editContributionNotes"
+                value={editNotes}
+                onChange={(e) => setEditNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditing(null)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? t("common.saving") : t("common.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Contribution Modal */}
+      <Dialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("goals.contributions.delete")}</DialogTitle>
+            <DialogDescription>
+              {t("goals.contributions.deleteConfirm")}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isSaving}
+            >
+              {t("common.delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -7,6 +7,7 @@ import {
   TrendingUp,
   Edit,
   PlusCircle,
+  MinusCircle,
   AlertCircle,
   Loader2,
 } from "lucide-react";
@@ -14,11 +15,16 @@ import {
   GoalWithCategory,
   getGoalById,
   calculateGoalMetrics,
+  calculateGoalFundingStatus,
   addGoalContribution,
+  getGoalContributions,
+  GoalFundingStatus,
 } from "../../../api/supabase/goals";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
 import { GoalModal } from "./GoalModal";
 import { ContributionHistory } from "./ContributionHistory";
+import { GoalFundingRules } from "./GoalFundingRules";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -45,6 +51,7 @@ interface GoalDetailsProps {
 }
 
 export function GoalDetails({ goalId }: GoalDetailsProps) {
+  const { t } = useLanguage();
   const [goal, setGoal] = useState<GoalWithCategory | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -52,9 +59,18 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
   const [isContributeModalOpen, setIsContributeModalOpen] = useState(false);
   const [contributionAmount, setContributionAmount] = useState("");
   const [contributionNotes, setContributionNotes] = useState("");
+  // The contribution modal takes money out of the goal instead
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+  const [contributionError, setContributionError] = useState<string | null>(
+    null
+  );
   const [metrics, setMetrics] = useState<ReturnType<
     typeof calculateGoalMetrics
   > | null>(null);
+  const [fundingStatus, setFundingStatus] =
+    useState<GoalFundingStatus | null>(null);
+  // Bumped to reload the contribution history after contributions are made
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   useEffect(() => {
     async function fetchGoalDetails() {
@@ -62,26 +78,35 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
         setIsLoading(true);
         setError(null);
 
-        const { data, error } = await getGoalById(goalId);
+        const [{ data, error }, contributionsResult] = await Promise.all([
+          getGoalById(goalId),
+          getGoalContributions(goalId),
+        ]);
 
         if (error) {
           throw error;
         }
+        if (contributionsResult.error) {
+          throw contributionsResult.error;
+        }
 
         setGoal(data);
         if (data) {
           setMetrics(calculateGoalMetrics(data));
+          setFundingStatus(
+            calculateGoalFundingStatus(data, contributionsResult.data || [])
+          );
         }
       } catch (err) {
         console.error("Error fetching goal details:", err);
-        setError("Failed to load goal details");
+        setError(t("goals.loadDetailsError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGoalDetails();
-  }, [goalId]);
+  }, [goalId, t]);
 
   const handleAddContribution = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,48 +116,75 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
     try {
       const amount = parseFloat(contributionAmount);
       if (isNaN(amount) || amount <= 0) {
-        setError("Please enter a valid contribution amount");
+        setContributionError(t("goals.contributions.invalidAmount"));
+        return;
+      }
+      if (isWithdrawal && amount > goal.current_amount) {
+        setContributionError(
+          t("goals.contributions.withdrawTooMuch", {
+            amount: formatCurrency(goal.current_amount),
+          })
+        );
         return;
       }
 
       const { error } = await addGoalContribution(
         goal.id,
-        amount,
+        isWithdrawal ? -amount : amount,
         new Date(),
         contributionNotes || undefined
       );
 
       if (error) throw error;
 
-      // Refresh goal details
-      const { data: updatedGoal } = await getGoalById(goal.id);
-      setGoal(updatedGoal);
-      if (updatedGoal) {
-        setMetrics(calculateGoalMetrics(updatedGoal));
-      }
+      await handleGoalUpdate();
 
-      // Reset form
-      setContributionAmount("");
-      setContributionNotes("");
-      setIsContributeModalOpen(false);
+      closeContributeModal();
     } catch (err) {
       console.error("Error adding contribution:", err);
-      setError("Failed to add contribution");
+      setContributionError(
+        isWithdrawal
+          ? t("goals.contributions.withdrawError")
+          : t("goals.contributions.addError")
+      );
     }
   };
 
+  const openContributeModal = (withdrawal: boolean) => {
+    setIsWithdrawal(withdrawal);
+    setContributionError(null);
+    setIsContributeModalOpen(true);
+  };
+
+  const closeContributeModal = () => {
+    setContributionAmount("");
+    setContributionNotes("");
+    setContributionError(null);
+    setIsContributeModalOpen(false);
+  };
+
   const handleGoalUpdate = async () => {
     // Refresh goal details
-    const { data, error } = await getGoalById(goalId);
-    if (error) {
-      console.error("Error refreshing goal details:", error);
+    const [{ data, error }, contributionsResult] = await Promise.all([
+      getGoalById(goalId),
+      getGoalContributions(goalId),
+    ]);
+    if (error || contributionsResult.error) {
+      console.error(
+        "Error refreshing goal details:",
+        error || contributionsResult.error
+      );
       return;
     }
 
     setGoal(data);
     if (data) {
       setMetrics(calculateGoalMetrics(data));
+      setFundingStatus(
+        calculateGoalFundingStatus(data, contributionsResult.data || [])
+      );
     }
+    setHistoryVersion((version) => version + 1);
   };
 
   // Get status badge color
@@ -149,20 +201,6 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
     }
   };
 
-  // Get status display text
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "in_progress":
-        return "In Progress";
-      case "achieved":
-        return "Achieved";
-      case "cancelled":
-        return "Cancelled";
-      default:
-        return status;
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex justify-center p-4">
@@ -181,7 +219,7 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
   }
 
   if (!goal || !metrics) {
-    return <div className="p-4 text-muted-foreground">Goal not found</div>;
+    return <div className="p-4 text-muted-foreground">{t("goals.notFound")}</div>;
   }
 
   return (
@@ -206,10 +244,14 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
 
         <div className="flex justify-between text-sm mb-6">
           <span>
-            {formatCurrency(goal.current_amount)} of{" "}
-            {formatCurrency(goal.target_amount)}
+            {t("common.of", {
+              value: formatCurrency(goal.current_amount),
+              total: formatCurrency(goal.target_amount),
+            })}
+          </span>
+          <span className="font-medium">
+            {t("goals.percentComplete", { percent: metrics.percentComplete })}
           </span>
-          <span className="font-medium">{metrics.percentComplete}% complete</span>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
@@ -217,7 +259,9 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
             <div className="flex items-center mb-4">
               <Target size={18} className="text-muted-foreground mr-2" />
               <div>
-                <p className="text-sm text-muted-foreground">Target Amount</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("goals.targetAmount")}
+                </p>
                 <p className="text-lg font-medium">
                   {formatCurrency(goal.target_amount)}
                 </p>
@@ -227,7 +271,9 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
             <div className="flex items-center mb-4">
               <Calendar size={18} className="text-muted-foreground mr-2" />
               <div>
-                <p className="text-sm text-muted-foreground">Start Date</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("common.startDate")}
+                </p>
                 <p className="font-medium">
                   {formatDate(goal.start_date, "medium")}
                 </p>
@@ -237,15 +283,17 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
             <div className="flex items-center mb-4">
               <Calendar size={18} className="text-muted-foreground mr-2" />
               <div>
-                <p className="text-sm text-muted-foreground">Target Date</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("goals.targetDate")}
+                </p>
                 <p className="font-medium">
                   {goal.target_date
                     ? formatDate(goal.target_date, "medium")
-                    : "No target date"}
+                    : t("goals.noTargetDate")}
 
                   {goal.target_date && metrics.isOverdue && (
                     <Badge variant="destructive" className="ml-2 text-xs font-normal">
-                      Overdue
+                      {t("goals.overdue")}
                     </Badge>
                   )}
                 </p>
@@ -257,9 +305,11 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
             <div className="flex items-center mb-4">
               <Tag size={18} className="text-muted-foreground mr-2" />
               <div>
-                <p className="text-sm text-muted-foreground">Category</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("common.category")}
+                </p>
                 <p className="font-medium">
-                  {goal.category_name || "Uncategorized"}
+                  {goal.category_name || t("goals.uncategorized")}
                 </p>
               </div>
             </div>
@@ -267,7 +317,9 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
             <div className="flex items-center mb-4">
               <DollarSign size={18} className="text-muted-foreground mr-2" />
               <div>
-                <p className="text-sm text-muted-foreground">Amount Remaining</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("goals.amountRemaining")}
+                </p>
                 <p className="font-medium">
                   {formatCurrency(metrics.amountRemaining)}
                 </p>
@@ -279,12 +331,14 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
                 <span className="text-sm font-bold">%</span>
               </div>
               <div>
-                <p className="text-sm text-muted-foreground">Status</p>
+                <p className="text-sm text-muted-foreground">
+                  {t("common.status")}
+                </p>
                 <Badge
                   variant="outline"
                   className={getStatusColor(goal.status)}
                 >
-                  {getStatusText(goal.status)}
+                  {t(`goals.statuses.${goal.status}`)}
                 </Badge>
               </div>
             </div>
@@ -295,14 +349,18 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
         {goal.status === "in_progress" && goal.target_date && (
           <Card className="bg-primary/5 mb-6">
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm">Saving Targets</CardTitle>
+              <CardTitle className="text-sm">
+                {t("goals.savingTargets")}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="flex items-center">
                   <TrendingUp size={16} className="text-primary mr-2" />
                   <div>
-                    <p className="text-xs text-muted-foreground">Daily Target</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("goals.dailyTarget")}
+                    </p>
                     <p className="text-sm font-medium">
                       {formatCurrency(metrics.dailyTarget)}
                     </p>
@@ -311,16 +369,42 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
                 <div className="flex items-center">
                   <TrendingUp size={16} className="text-primary mr-2" />
                   <div>
-                    <p className="text-xs text-muted-foreground">Monthly Target</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("goals.monthlyTarget")}
+                    </p>
                     <p className="text-sm font-medium">
                       {formatCurrency(metrics.monthlyTarget)}
                     </p>
                   </div>
                 </div>
               </div>
+              {fundingStatus && fundingStatus.status !== "no_target" && (
+                <div className="flex items-center flex-wrap gap-2 mt-3">
+                  <Badge
+                    variant="outline"
+                    className={
+                      fundingStatus.status === "on_track"
+                        ? "bg-green-100 text-green-800 hover:bg-green-100"
+                        : "bg-amber-100 text-amber-800 hover:bg-amber-100"
+                    }
+                  >
+                    {fundingStatus.status === "on_track"
+                      ? t("goals.funding.status.onTrack")
+                      : t("goals.funding.status.behind")}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {t("goals.funding.status.actualMonthly", {
+                      actual: formatCurrency(fundingStatus.actualMonthly),
+                      target: formatCurrency(fundingStatus.monthlyTarget),
+                    })}
+                  </span>
+                </div>
+              )}
               {metrics.timeRemainingDays > 0 && (
                 <p className="text-xs text-muted-foreground mt-2">
-                  {metrics.timeRemainingDays} days remaining to reach your goal
+                  {t("goals.daysRemaining", {
+                    count: metrics.timeRemainingDays,
+                  })}
                 </p>
               )}
             </CardContent>
@@ -329,26 +413,52 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
 
         {goal.notes && (
           <div className="mb-6">
-            <h3 className="text-sm font-medium mb-2">Notes</h3>
+            <h3 className="text-sm font-medium mb-2">{t("common.notes")}</h3>
             <p className="text-muted-foreground bg-muted p-3 rounded-md">
               {goal.notes}
             </p>
           </div>
         )}
 
-        {goal.status === "in_progress" && (
+        {goal.status !== "cancelled" && (
           <div className="flex space-x-3 mb-6">
-            <Button
-              onClick={() => setIsContributeModalOpen(true)}
-              className="flex items-center"
-            >
-              <PlusCircle size={16} className="mr-1" />
-              Add Contribution
-            </Button>
+            {goal.status === "in_progress" && (
+              <Button
+                onClick={() => openContributeModal(false)}
+                className="flex items-center"
+              >
+                <PlusCircle size={16} className="mr-1" />
+                {t("goals.contributions.add")}
+              </Button>
+            )}
+            {goal.current_amount > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => openContributeModal(true)}
+                className="flex items-center"
+              >
+                <MinusCircle size={16} className="mr-1" />
+                {t("goals.contributions.withdraw")}
+              </Button>
+            )}
           </div>
         )}
 
-        <ContributionHistory goalId={goal.id} className="mt-6" />
+        {goal.status === "in_progress" && (
+          <GoalFundingRules
+            goal={goal}
+            monthlyTarget={metrics.monthlyTarget}
+            onContributed={handleGoalUpdate}
+            className="mb-6"
+          />
+        )}
+
+        <ContributionHistory
+          key={historyVersion}
+          goalId={goal.id}
+          onChange={handleGoalUpdate}
+          className="mt-6"
+        />
 
         {/* Edit Modal */}
         <GoalModal
@@ -361,16 +471,29 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
         {/* Add Contribution Modal */}
         <Dialog 
           open={isContributeModalOpen} 
-          onOpenChange={(open) => !open && setIsContributeModalOpen(false)}
+          onOpenChange={(open) => !open && closeContributeModal()}
         >
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add Contribution</DialogTitle>
+              <DialogTitle>
+                {isWithdrawal
+                  ? t("goals.contributions.withdrawTitle")
+                  : t("goals.contributions.add")}
+              </DialogTitle>
             </DialogHeader>
 
             <form onSubmit={handleAddContribution} className="space-y-4">
+              {contributionError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{contributionError}</AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-2">
-                <Label htmlFor="contributionAmount">Amount *</Label>
+                <Label htmlFor="contributionAmount">
+                  {t("goals.contributions.amount")}
+                </Label>
                 <div className="relative">
                   <DollarSign className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -387,7 +510,7 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="contributionNotes">Notes</Label>
+                <Label htmlFor="contributionNotes">{t("common.notes")}</Label>
                 <Textarea
                   id="contributionNotes"
                   value={contributionNotes}
@@ -400,12 +523,14 @@ export function GoalDetails({ goalId }: GoalDetailsProps) {
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setIsContributeModalOpen(false)}
+                  onClick={closeContributeModal}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button type="submit">
-                  Add Contribution
+                  {isWithdrawal
+                    ? t("goals.contributions.withdraw")
+                    : t("goals.contributions.add")}
                 </Button>
               </DialogFooter>
             </form>
@@ -7,6 +7,7 @@ import {
   showErrorToast,
 } from "../../../utils/toast";
 import { getCategories } from "../../../api/supabase/categories";
+import { useLanguage } from "../../../providers/languageUtils";
 import { AlertCircle, DollarSign } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,6 +30,7 @@ interface GoalFormProps {
 
 export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [categories, setCategories] = useState<
     Array<{ id: string; name: string; color: string }>
   >([]);
@@ -40,8 +42,8 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
   const [targetAmount, setTargetAmount] = useState(
     goal?.target_amount?.toString() || ""
   );
-  const [currentAmount, setCurrentAmount] = useState(
-    goal?.current_amount?.toString() || "0"
+  const [openingAmount, setOpeningAmount] = useState(
+    goal?.opening_amount?.toString() || "0"
   );
   const [startDate, setStartDate] = useState(
     goal?.start_date || new Date().toISOString().split("T")[0]
@@ -49,9 +51,11 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
   const [targetDate, setTargetDate] = useState(goal?.target_date || "");
   const [categoryId, setCategoryId] = useState(goal?.category_id || "none");
   const [notes, setNotes] = useState(goal?.notes || "");
-  const [status, setStatus] = useState<
-    "in_progress" | "achieved" | "cancelled"
-  >(goal?.status || "in_progress");
+  // Whether a goal is achieved follows from its contributions, so only
+  // cancelling it is up to the user
+  const [status, setStatus] = useState<"in_progress" | "cancelled">(
+    goal?.status === "cancelled" ? "cancelled" : "in_progress"
+  );
 
   // Fetch categories
   useEffect(() => {
@@ -69,24 +73,24 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
         setCategories(expenseCategories);
       } catch (err) {
         console.error("Error fetching categories:", err);
-        setError("Failed to load categories");
+        setError(t("common.loadCategoriesError"));
       }
     }
 
     fetchCategories();
-  }, []);
+  }, [t]);
 
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!user) {
-      setError("You must be logged in to create a goal");
+      setError(t("goals.form.loginRequired"));
       return;
     }
 
     if (!name || !targetAmount || !startDate) {
-      setError("Please fill in all required fields");
+      setError(t("goals.form.requiredFields"));
       return;
     }
 
@@ -98,7 +102,7 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
         user_id: user.id,
         name,
         target_amount: parseFloat(targetAmount),
-        current_amount: parseFloat(currentAmount || "0"),
+        opening_amount: parseFloat(openingAmount || "0"),
         start_date: startDate,
         target_date: targetDate || null,
         category_id: categoryId === "none" ? null : categoryId,
@@ -110,14 +114,14 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
 
       // Show success toast
       if (goal) {
-        showItemUpdatedToast("Goal");
+        showItemUpdatedToast(t("toast.items.goal"));
       } else {
-        showItemCreatedToast("Goal");
+        showItemCreatedToast(t("toast.items.goal"));
       }
     } catch (err) {
       console.error("Error submitting goal:", err);
-      setError("Failed to save goal");
-      showErrorToast("Failed to save goal");
+      setError(t("goals.saveError"));
+      showErrorToast(t("goals.saveError"));
     } finally {
       setIsLoading(false);
     }
@@ -134,7 +138,7 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Goal Name */}
         <div className="space-y-2">
-          <Label htmlFor="name">Goal Name *</Label>
+          <Label htmlFor="name">{t("goals.form.name")}</Label>
           <Input
             type="text"
             id="name"
@@ -146,7 +150,7 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
 
         {/* Target Amount */}
         <div className="space-y-2">
-          <Label htmlFor="targetAmount">Target Amount *</Label>
+          <Label htmlFor="targetAmount">{t("goals.form.targetAmount")}</Label>
           <div className="relative">
             <DollarSign className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
@@ -162,26 +166,29 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
           </div>
         </div>
 
-        {/* Current Amount */}
+        {/* Opening Amount */}
         <div className="space-y-2">
-          <Label htmlFor="currentAmount">Current Amount</Label>
+          <Label htmlFor="openingAmount">{t("goals.form.openingAmount")}</Label>
           <div className="relative">
             <DollarSign className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
               type="number"
-              id="currentAmount"
-              value={currentAmount}
-              onChange={(e) => setCurrentAmount(e.target.value)}
+              id="openingAmount"
+              value={openingAmount}
+              onChange={(e) => setOpeningAmount(e.target.value)}
               className="pl-8"
               step="0.01"
               min="0"
             />
           </div>
+          <p className="text-xs text-muted-foreground">
+            {t("goals.form.openingAmountHelp")}
+          </p>
         </div>
 
         {/* Start Date */}
         <div className="space-y-2">
-          <Label htmlFor="startDate">Start Date *</Label>
+          <Label htmlFor="startDate">{t("goals.form.startDate")}</Label>
           <Input
             type="date"
             id="startDate"
@@ -193,7 +200,7 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
 
         {/* Target Date */}
         <div className="space-y-2">
-          <Label htmlFor="targetDate">Target Date</Label>
+          <Label htmlFor="targetDate">{t("goals.targetDate")}</Label>
           <Input
             type="date"
             id="targetDate"
@@ -204,13 +211,13 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
 
         {/* Category */}
         <div className="space-y-2">
-          <Label htmlFor="category">Category</Label>
+          <Label htmlFor="category">{t("common.category")}</Label>
           <Select value={categoryId} onValueChange={setCategoryId}>
             <SelectTrigger id="category">
-              <SelectValue placeholder="Select a category" />
+              <SelectValue placeholder={t("common.selectCategory")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="none">{t("common.none")}</SelectItem>
               {categories.map((category) => (
                 <SelectItem key={category.id} value={category.id}>
                   {category.name}
@@ -222,27 +229,30 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
 
         {/* Status */}
         <div className="space-y-2">
-          <Label htmlFor="status">Status</Label>
+          <Label htmlFor="status">{t("common.status")}</Label>
           <Select
             value={status}
             onValueChange={(value) =>
-              setStatus(value as "in_progress" | "achieved" | "cancelled")
+              setStatus(value as "in_progress" | "cancelled")
             }
           >
             <SelectTrigger id="status">
-              <SelectValue placeholder="Select status" />
+              <SelectValue placeholder={t("goals.form.selectStatus")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="in_progress">In Progress</SelectItem>
-              <SelectItem value="achieved">Achieved</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="in_progress">
+                {t("goals.statuses.in_progress")}
+              </SelectItem>
+              <SelectItem value="cancelled">
+                {t("goals.statuses.cancelled")}
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
 
         {/* Notes */}
         <div className="space-y-2">
-          <Label htmlFor="notes">Notes</Label>
+          <Label htmlFor="notes">{t("common.notes")}</Label>
           <Textarea
             id="notes"
             value={notes}
@@ -254,10 +264,14 @@ export function GoalForm({ goal, onSubmit, onCancel }: GoalFormProps) {
         {/* Form Actions */}
         <div className="flex justify-end space-x-3 pt-4">
           <Button type="button" variant="outline" onClick={onCancel}>
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button type="submit" disabled={isLoading}>
-            {isLoading ? "Saving..." : goal ? "Update Goal" : "Add Goal"}
+            {isLoading
+              ? t("common.saving")
+              : goal
+              ? t("goals.update")
+              : t("goals.add")}
           </Button>
         </div>
       </form>
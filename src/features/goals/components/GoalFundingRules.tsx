@@ -0,0 +1,533 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Repeat,
+  Percent,
+  Plus,
+  Trash2,
+  AlertCircle,
+  Loader2,
+} from "lucide-react";
+import {
+  getGoalFundingRules,
+  createGoalFundingRule,
+  updateGoalFundingRule,
+  deleteGoalFundingRule,
+  processDueGoalFunding,
+  previewGoalFunding,
+  GoalFundingRule,
+  GoalFundingPreview,
+} from "../../../api/supabase/goalFunding";
+import { Goal } from "../../../api/supabase/goals";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
+import { useAuth } from "../../../state/useAuth";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showErrorToast } from "../../../utils/toast";
+import { useLanguage } from "../../../providers/languageUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+interface GoalFundingRulesProps {
+  goal: Goal;
+  monthlyTarget: number;
+  // Called after contributions were made, so the goal can be reloaded
+  onContributed: () => void;
+  className?: string;
+}
+
+type RuleType = GoalFundingRule["rule_type"];
+type Frequency = NonNullable<GoalFundingRule["frequency"]>;
+
+export function GoalFundingRules({
+  goal,
+  monthlyTarget,
+  onContributed,
+  className = "",
+}: GoalFundingRulesProps) {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const [rules, setRules] = useState<GoalFundingRule[]>([]);
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [preview, setPreview] = useState<GoalFundingPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add rule form
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [ruleType, setRuleType] = useState<RuleType>("fixed");
+  const [amount, setAmount] = useState("");
+  const [percentage, setPercentage] = useState("");
+  const [frequency, setFrequency] = useState<Frequency>("monthly");
+  const [accountId, setAccountId] = useState("");
+  const [startDate, setStartDate] = useState(
+    new Date().toISOString().split("T")[0]
+  );
+
+  const loadRules = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [rulesResult, accountsResult] = await Promise.all([
+        getGoalFundingRules(goal.id),
+        getBankAccounts(),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+
+      setRules(rulesResult.data || []);
+      setAccounts(accountsResult.data || []);
+
+      const { data: previewData, error: previewError } =
+        await previewGoalFunding(goal, rulesResult.data || []);
+      if (previewError) throw previewError;
+
+      setPreview(previewData);
+    } catch (err) {
+      console.error("Error loading goal funding rules:", err);
+      setError(t("goals.funding.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [goal, t]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const resetForm = () => {
+    setRuleType("fixed");
+    setAmount("");
+    setPercentage("");
+    setFrequency("monthly");
+    setAccountId("");
+    setStartDate(new Date().toISOString().split("T")[0]);
+    setFormError(null);
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!accountId) {
+      setFormError(t("goals.funding.form.accountRequired"));
+      return;
+    }
+
+    const value = parseFloat(ruleType === "fixed" ? amount : percentage);
+    if (
+      isNaN(value) ||
+      value <= 0 ||
+      (ruleType === "percentage" && value > 100)
+    ) {
+      setFormError(
+        ruleType === "fixed"
+          ? t("goals.funding.form.invalidAmount")
+          : t("goals.funding.form.invalidPercentage")
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+
+      const { error } = await createGoalFundingRule({
+        user_id: user.id,
+        goal_id: goal.id,
+        bank_account_id: accountId,
+        rule_type: ruleType,
+        amount: ruleType === "fixed" ? Math.round(value * 100) / 100 : null,
+        percentage: ruleType === "percentage" ? value : null,
+        frequency: ruleType === "fixed" ? frequency : null,
+        start_date: startDate,
+      });
+      if (error) throw error;
+
+      // A rule starting today or earlier contributes right away
+      const { data: funding } = await processDueGoalFunding();
+
+      setIsFormOpen(false);
+      resetForm();
+      if (funding && funding.created > 0) {
+        onContributed();
+      } else {
+        loadRules();
+      }
+    } catch (err) {
+      console.error("Error saving goal funding rule:", err);
+      setFormError(t("goals.funding.saveError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: GoalFundingRule) => {
+    const { error } = await updateGoalFundingRule(rule.id, {
+      is_active: !rule.is_active,
+    });
+    if (error) {
+      console.error("Error updating goal funding rule:", error);
+      showErrorToast(t("goals.funding.saveError"));
+      return;
+    }
+    loadRules();
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    const { error } = await deleteGoalFundingRule(id);
+    if (error) {
+      console.error("Error deleting goal funding rule:", error);
+      showErrorToast(t("goals.funding.deleteError"));
+      return;
+    }
+    loadRules();
+  };
+
+  const getAccountName = (id: string) =>
+    accounts.find((account) => account.id === id)?.name ||
+    t("goals.funding.unknownAccount");
+
+  const describeRule = (rule: GoalFundingRule) =>
+    rule.rule_type === "fixed"
+      ? t("goals.funding.fixedDescription", {
+          amount: formatCurrency(rule.amount || 0),
+          frequency: t(
+            `goals.funding.frequencies.${rule.frequency || "monthly"}`
+          ),
+        })
+      : t("goals.funding.percentageDescription", {
+          percent: rule.percentage || 0,
+        });
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Repeat className="mr-2 h-5 w-5 text-primary" />
+          {t("goals.funding.title")}
+        </CardTitle>
+        {goal.status === "in_progress" && (
+          <Button size="sm" onClick={() => setIsFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t("goals.funding.add")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : rules.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">
+            {t("goals.funding.empty")}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <ul className="divide-y divide-border">
+              {rules.map((rule) => (
+                <li
+                  key={rule.id}
+                  className="py-3 flex items-center justify-between"
+                >
+                  <div className="flex items-start space-x-3">
+                    <div className="p-2 bg-primary/10 rounded-full">
+                      {rule.rule_type === "fixed" ? (
+                        <Repeat className="h-4 w-4" />
+                      ) : (
+                        <Percent className="h-4 w-4" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-medium">{describeRule(rule)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {t("goals.funding.fromAccount", {
+                          account: getAccountName(rule.bank_account_id),
+                        })}
+                      </p>
+                      {rule.rule_type === "fixed" &&
+                        rule.next_date &&
+                        rule.is_active && (
+                          <p className="text-xs text-muted-foreground">
+                            {t("goals.funding.nextContribution", {
+                              date: formatDate(rule.next_date, "medium"),
+                            })}
+                          </p>
+                        )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={() => handleToggleRule(rule)}
+                      aria-label={t("goals.funding.active")}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDeleteRule(rule.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {preview && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">
+                  {t("goals.funding.preview.title")}
+                </h4>
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-3">
+                  <span>
+                    {t("goals.funding.preview.scheduledMonthly", {
+                      amount: formatCurrency(preview.scheduledMonthly),
+                    })}
+                  </span>
+                  {preview.estimatedMonthlyFromIncome > 0 && (
+                    <span className="text-muted-foreground">
+                      {t("goals.funding.preview.fromIncome", {
+                        amount: formatCurrency(
+                          preview.estimatedMonthlyFromIncome
+                        ),
+                      })}
+                    </span>
+                  )}
+                  {monthlyTarget > 0 && (
+                    <span
+                      className={
+                        preview.scheduledMonthly >= monthlyTarget
+                          ? "text-green-600"
+                          : "text-amber-600"
+                      }
+                    >
+                      {preview.scheduledMonthly >= monthlyTarget
+                        ? t("goals.funding.preview.coversTarget")
+                        : t("goals.funding.preview.shortOfTarget", {
+                            amount: formatCurrency(
+                              monthlyTarget - preview.scheduledMonthly
+                            ),
+                          })}
+                    </span>
+                  )}
+                </div>
+                {preview.items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {t("goals.funding.preview.empty")}
+                  </p>
+                ) : (
+                  <ul className="text-sm divide-y divide-border border rounded-md">
+                    {preview.items.map((item) => (
+                      <li
+                        key={`${item.ruleId}-${item.date}`}
+                        className="flex justify-between px-3 py-2"
+                      >
+                        <span>{formatDate(item.date, "medium")}</span>
+                        <span className="flex items-center gap-2">
+                          {item.completesGoal && (
+                            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                              {t("goals.funding.preview.completesGoal")}
+                            </Badge>
+                          )}
+                          {formatCurrency(item.amount)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Add Rule Modal */}
+        <Dialog
+          open={isFormOpen}
+          onOpenChange={(open) => {
+            if (!open) {
+              setIsFormOpen(false);
+              resetForm();
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t("goals.funding.add")}</DialogTitle>
+            </DialogHeader>
+
+            <form onSubmit={handleAddRule} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="fundingType">
+                  {t("goals.funding.form.type")}
+                </Label>
+                <Select
+                  value={ruleType}
+                  onValueChange={(value) => setRuleType(value as RuleType)}
+                >
+                  <SelectTrigger id="fundingType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">
+                      {t("goals.funding.types.fixed")}
+                    </SelectItem>
+                    <SelectItem value="percentage">
+                      {t("goals.funding.types.percentage")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {ruleType === "fixed" ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="fundingAmount">{t("common.amount")}</Label>
+                    <Input
+                      type="number"
+                      id="fundingAmount"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      step="0.01"
+                      min="0.01"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fundingFrequency">
+                      {t("goals.funding.form.frequency")}
+                    </Label>
+                    <Select
+                      value={frequency}
+                      onValueChange={(value) =>
+                        setFrequency(value as Frequency)
+                      }
+                    >
+                      <SelectTrigger id="fundingFrequency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="weekly">
+                          {t("goals.funding.frequencies.weekly")}
+                        </SelectItem>
+                        <SelectItem value="monthly">
+                          {t("goals.funding.frequencies.monthly")}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="fundingPercentage">
+                    {t("goals.funding.form.percentage")}
+                  </Label>
+                  <Input
+                    type="number"
+                    id="fundingPercentage"
+                    value={percentage}
+                    onChange={(e) => setPercentage(e.target.value)}
+                    step="0.01"
+                    min="0.01"
+                    max="100"
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t("goals.funding.form.percentageHelp")}
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="fundingAccount">
+                  {t("goals.funding.form.account")}
+                </Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger id="fundingAccount">
+                    <SelectValue
+                      placeholder={t("goals.funding.form.selectAccount")}
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fundingStartDate">
+                  {t("common.startDate")}
+                </Label>
+                <Input
+                  type="date"
+                  id="fundingStartDate"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setIsFormOpen(false);
+                    resetForm();
+                  }}
+                >
+                  {t("common.cancel")}
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? t("common.saving") : t("goals.funding.add")}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
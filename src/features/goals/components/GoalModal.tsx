@@ -7,6 +7,7 @@ import {
   updateGoal,
 } from "../../../api/supabase/goals";
 import { GoalForm } from "./GoalForm";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetClose } from "@/components/ui/sheet";
 
@@ -23,6 +24,7 @@ export function GoalModal({
   goal,
   onSuccess,
 }: GoalModalProps) {
+  const { t } = useLanguage();
   const [error, setError] = useState<string | null>(null);
 
   if (!isOpen) return null;
@@ -45,7 +47,7 @@ export function GoalModal({
       onClose();
     } catch (err) {
       console.error("Error saving goal:", err);
-      setError("Failed to save goal. Please try again.");
+      setError(t("goals.saveRetryError"));
     }
   };
 
@@ -53,7 +55,7 @@ export function GoalModal({
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
-          <SheetTitle>{goal ? "Edit Goal" : "Add New Goal"}</SheetTitle>
+          <SheetTitle>{goal ? t("goals.edit") : t("goals.addNew")}</SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
         {error && (
@@ -18,6 +18,7 @@ import {
   calculateGoalMetrics,
 } from "../../../api/supabase/goals";
 import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -42,6 +43,7 @@ export function GoalsList({
   className = "",
 }: GoalsListProps) {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [goals, setGoals] = useState<GoalWithCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,14 +67,14 @@ export function GoalsList({
         setGoals(data || []);
       } catch (err) {
         console.error("Error fetching goals:", err);
-        setError("Failed to load goals");
+        setError(t("goals.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGoals();
-  }, []);
+  }, [t]);
 
   // Navigate to add/edit pages
   const handleAddGoal = () => {
@@ -102,7 +104,7 @@ export function GoalsList({
       setGoalToDelete(null);
     } catch (err) {
       console.error("Error deleting goal:", err);
-      setError("Failed to delete goal");
+      setError(t("goals.deleteError"));
     }
   };
 
@@ -136,20 +138,6 @@ export function GoalsList({
     }
   };
 
-  // Get status display text
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case "in_progress":
-        return "In Progress";
-      case "achieved":
-        return "Achieved";
-      case "cancelled":
-        return "Cancelled";
-      default:
-        return status;
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex justify-center p-4">
@@ -174,7 +162,7 @@ export function GoalsList({
         <div className="mb-4 flex justify-end">
           <Button onClick={handleAddGoal} size="sm">
             <Plus size={16} className="mr-1" />
-            Add Goal
+            {t("goals.add")}
           </Button>
         </div>
       )}
@@ -182,16 +170,14 @@ export function GoalsList({
       {/* Goals List */}
       <Card>
         <CardHeader>
-          <CardTitle>Financial Goals</CardTitle>
+          <CardTitle>{t("goals.title")}</CardTitle>
         </CardHeader>
         <CardContent>
           {goals.length === 0 ? (
             <div className="p-6 text-center text-muted-foreground">
-              <p className="mb-4">
-                No financial goals found. Add your first goal to start tracking!
-              </p>
+              <p className="mb-4">{t("goals.empty")}</p>
               {showAddButton && (
-                <Button onClick={handleAddGoal}>Add Goal</Button>
+                <Button onClick={handleAddGoal}>{t("goals.add")}</Button>
               )}
             </div>
           ) : (
@@ -209,7 +195,7 @@ export function GoalsList({
                         <p className="text-sm text-muted-foreground">
                           {goal.category_name
                             ? goal.category_name
-                            : "Uncategorized"}
+                            : t("goals.uncategorized")}
                         </p>
                       </div>
                       <div className="flex space-x-1">
@@ -244,7 +230,7 @@ export function GoalsList({
                         variant="outline"
                         className={getStatusColor(goal.status)}
                       >
-                        {getStatusText(goal.status)}
+                        {t(`goals.statuses.${goal.status}`)}
                       </Badge>
                     </div>
 
@@ -256,18 +242,26 @@ export function GoalsList({
 
                     <div className="flex justify-between text-xs text-muted-foreground mb-2">
                       <span>
-                        {formatCurrency(goal.current_amount)} of{" "}
-                        {formatCurrency(goal.target_amount)}
+                        {t("common.of", {
+                          value: formatCurrency(goal.current_amount),
+                          total: formatCurrency(goal.target_amount),
+                        })}
+                      </span>
+                      <span>
+                        {t("goals.percentComplete", {
+                          percent: metrics.percentComplete,
+                        })}
                       </span>
-                      <span>{metrics.percentComplete}% complete</span>
                     </div>
 
                     <div className="flex items-center text-sm text-muted-foreground">
                       <Calendar size={14} className="mr-1" />
                       <span>
                         {goal.target_date
-                          ? `Target: ${formatDate(goal.target_date, "medium")}`
-                          : "No target date"}
+                          ? t("goals.targetOn", {
+                              date: formatDate(goal.target_date, "medium"),
+                            })
+                          : t("goals.noTargetDate")}
                       </span>
                     </div>
 
@@ -277,15 +271,18 @@ export function GoalsList({
                         <div className="flex items-center">
                           <DollarSign size={14} className="mr-1" />
                           <span>
-                            {formatCurrency(metrics.amountRemaining)} remaining
+                            {t("goals.remaining", {
+                              amount: formatCurrency(metrics.amountRemaining),
+                            })}
                           </span>
                         </div>
                         {goal.target_date && metrics.dailyTarget > 0 && (
                           <div className="flex items-center mt-1">
                             <TrendingUp size={14} className="mr-1" />
                             <span>
-                              Save {formatCurrency(metrics.dailyTarget)} daily
-                              to reach goal
+                              {t("goals.saveDaily", {
+                                amount: formatCurrency(metrics.dailyTarget),
+                              })}
                             </span>
                           </div>
                         )}
@@ -308,18 +305,15 @@ export function GoalsList({
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete this goal? This action cannot be
-              undone.
-            </DialogDescription>
+            <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+            <DialogDescription>{t("goals.deleteConfirm")}</DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button variant="outline" onClick={handleDeleteCancel}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm}>
-              Delete
+              {t("common.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
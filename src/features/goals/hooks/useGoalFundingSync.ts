@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { processDueGoalFunding } from "../../../api/supabase/goalFunding";
+import { showToast } from "../../../utils/toast";
+import { translate } from "../../../i18n";
+
+// Users whose goal contributions were already made this session
+const syncedUsers = new Set<string>();
+
+/**
+ * Make due automatic goal contributions once per session, when the user opens
+ * the app
+ */
+export const useGoalFundingSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user || syncedUsers.has(user.id)) return;
+    syncedUsers.add(user.id);
+
+    const syncGoalFunding = async () => {
+      const { data, error } = await processDueGoalFunding();
+
+      if (error) {
+        console.error("Error making automatic goal contributions:", error);
+        // Try again on the next page load
+        syncedUsers.delete(user.id);
+        return;
+      }
+
+      if (data && data.created > 0) {
+        showToast({
+          type: "info",
+          title: translate("goals.funding.title"),
+          description: translate("goals.funding.syncAdded", {
+            count: data.created,
+          }),
+          duration: 5000,
+        });
+      }
+    };
+
+    syncGoalFunding();
+  }, [user]);
+};
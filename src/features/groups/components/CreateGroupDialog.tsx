@@ -1,5 +1,5 @@
 import { useState } from "react";
-// Translation imports removed
+import { useLanguage } from "../../../providers/languageUtils";
 import { useAuth } from "../../../state/useAuth";
 import {
   Sheet,
@@ -26,7 +26,7 @@ export function CreateGroupDialog({
   onOpenChange,
   onCreateGroup,
 }: CreateGroupDialogProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -38,7 +38,7 @@ export function CreateGroupDialog({
 
     if (!user) {
       console.error("No user found");
-      setError("You must be logged in to create a group");
+      setError(t("groups.errors.loginToCreate"));
       return;
     }
 
@@ -71,9 +71,9 @@ export function CreateGroupDialog({
     } catch (err) {
       console.error("Error creating group:", err);
       setError(
-        `Failed to create group: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.errors.createFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
     } finally {
       setIsLoading(false);
@@ -97,7 +97,7 @@ export function CreateGroupDialog({
     <Sheet open={open} onOpenChange={handleOpenChange}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
-          <SheetTitle>Create Group</SheetTitle>
+          <SheetTitle>{t("groups.create")}</SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
 
@@ -109,23 +109,23 @@ export function CreateGroupDialog({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="name">{"GroupName"}</Label>
+            <Label htmlFor="name">{t("groups.name")}</Label>
             <Input
               id="name"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              placeholder={"GroupNamePlaceholder"}
+              placeholder={t("groups.namePlaceholder")}
               required
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="description">{"GroupDescription"}</Label>
+            <Label htmlFor="description">{t("common.description")}</Label>
             <Textarea
               id="description"
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              placeholder={"GroupDescriptionPlaceholder"}
+              placeholder={t("groups.descriptionPlaceholder")}
               rows={3}
             />
           </div>
@@ -137,10 +137,10 @@ export function CreateGroupDialog({
               onClick={() => handleOpenChange(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button type="submit" disabled={isLoading || !name}>
-              {isLoading ? "Creating..." : "Create"}
+              {isLoading ? t("groups.creating") : t("common.create")}
             </Button>
           </div>
         </form>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "../../../state/useAuth";
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   Sheet,
   SheetContent,
@@ -23,6 +24,7 @@ interface EditGroupDialogProps {
 
 export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: EditGroupDialogProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -35,7 +37,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
       setError(null);
       const { data, error } = await getBudgetGroup(groupId);
       if (error) {
-        setError("Failed to load group");
+        setError(t("groups.errors.loadFailed"));
       } else if (data) {
         setName(data.name || "");
         setDescription(data.description || "");
@@ -43,12 +45,12 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
       setIsLoading(false);
     }
     fetchGroup();
-  }, [groupId, open]);
+  }, [groupId, open, t]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
-      setError("You must be logged in to edit a group");
+      setError(t("groups.errors.loginToEdit"));
       return;
     }
     setIsLoading(true);
@@ -58,7 +60,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
       description,
     });
     if (error) {
-      setError("Failed to update group");
+      setError(t("groups.errors.updateFailed"));
     } else {
       onEditGroup();
       onOpenChange(false);
@@ -70,7 +72,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
-          <SheetTitle>Edit Group</SheetTitle>
+          <SheetTitle>{t("groups.edit")}</SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
         <div className="px-6 pb-6">
@@ -81,7 +83,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
           )}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="name">Group Name</Label>
+              <Label htmlFor="name">{t("groups.name")}</Label>
               <Input
                 type="text"
                 id="name"
@@ -91,7 +93,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description">{t("common.description")}</Label>
               <Textarea
                 id="description"
                 value={description}
@@ -101,10 +103,10 @@ export function EditGroupDialog({ open, onOpenChange, groupId, onEditGroup }: Ed
             </div>
             <div className="flex justify-end gap-2 pt-4">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button type="submit" disabled={isLoading || !name}>
-                {isLoading ? "Saving..." : "Save"}
+                {isLoading ? t("common.saving") : t("common.save")}
               </Button>
             </div>
           </form>
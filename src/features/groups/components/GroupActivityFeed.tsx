@@ -1,4 +1,4 @@
-// Translation imports removed
+import { useState, useEffect } from "react";
 import {
   Card,
   CardContent,
@@ -7,6 +7,15 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Activity,
   Receipt,
@@ -15,7 +24,18 @@ import {
   UserMinus,
   Settings,
   Edit,
+  Mail,
+  Share2,
+  Loader2,
 } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
+import { formatCurrency, formatDate as formatDay } from "../../../utils/formatters";
+import { getGroupActivity } from "../../../api/supabase/budgetGroups";
+import {
+  GROUP_ACTIVITY_ENTITY_TYPES,
+  GroupActivityEntityType,
+} from "../../../api/supabase/groupActivity";
 
 interface GroupActivity {
   id: string;
@@ -35,19 +55,112 @@ interface GroupActivity {
   } | null;
 }
 
+interface GroupMember {
+  user_id: string;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+    } | null;
+  } | null;
+}
+
 interface GroupActivityFeedProps {
-  groupId: string; // Not used but kept for API consistency
+  groupId: string;
   activity: GroupActivity[];
+  // Members to filter by; without them the feed has no filters
+  members?: GroupMember[];
 }
 
+// Changed fields shown under an update, in this order
+const CHANGE_FIELDS = [
+  "description",
+  "name",
+  "amount",
+  "type",
+  "date",
+  "period",
+  "start_date",
+  "end_date",
+  "status",
+  "payment_method",
+  "split_method",
+  "role",
+  "family_role",
+  "notes",
+] as const;
+
+type ChangeField = (typeof CHANGE_FIELDS)[number];
+
+// Filtered activity is fetched on demand, up to this many entries
+const FILTERED_LIMIT = 100;
+
 export function GroupActivityFeed(props: GroupActivityFeedProps) {
-  const { activity } = props;
-  // groupId is not used but kept for API consistency
-  // Translation hooks removed
+  const { groupId, activity, members } = props;
+  const { t } = useLanguage();
+  const [memberFilter, setMemberFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [filteredActivity, setFilteredActivity] = useState<
+    GroupActivity[] | null
+  >(null);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const [filterError, setFilterError] = useState<string | null>(null);
+
+  const hasFilters =
+    memberFilter !== "all" || entityFilter !== "all" || !!fromDate || !!toDate;
+
+  useEffect(() => {
+    if (!hasFilters) {
+      setFilteredActivity(null);
+      setFilterError(null);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchFilteredActivity() {
+      setIsFiltering(true);
+      setFilterError(null);
+
+      const { data, error } = await getGroupActivity(groupId, FILTERED_LIMIT, {
+        userId: memberFilter === "all" ? undefined : memberFilter,
+        entityType:
+          entityFilter === "all"
+            ? undefined
+            : (entityFilter as GroupActivityEntityType),
+        from: fromDate || undefined,
+        to: toDate || undefined,
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error filtering group activity:", error);
+        setFilterError(t("groups.activity.loadError"));
+      } else {
+        setFilteredActivity((data || []) as unknown as GroupActivity[]);
+      }
+      setIsFiltering(false);
+    }
+
+    fetchFilteredActivity();
+    return () => {
+      cancelled = true;
+    };
+    // Refetch when new activity comes in as well
+  }, [groupId, memberFilter, entityFilter, fromDate, toDate, hasFilters, activity, t]);
+
+  const clearFilters = () => {
+    setMemberFilter("all");
+    setEntityFilter("all");
+    setFromDate("");
+    setToDate("");
+  };
+
+  const shownActivity = filteredActivity ?? activity;
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return new Intl.DateTimeFormat(undefined, {
+    return new Intl.DateTimeFormat(getLocale(), {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -69,6 +182,13 @@ export function GroupActivityFeed(props: GroupActivityFeedProps) {
       } else {
         return <Edit className="h-4 w-4" />;
       }
+    } else if (entityType === "invitation") {
+      return <Mail className="h-4 w-4" />;
+    } else if (
+      entityType === "shared_category" ||
+      entityType === "shared_budget"
+    ) {
+      return <Share2 className="h-4 w-4" />;
     } else if (entityType === "group") {
       return <Settings className="h-4 w-4" />;
     }
@@ -80,58 +200,141 @@ export function GroupActivityFeed(props: GroupActivityFeedProps) {
 
     // Format user name
     const userName =
-      item.user?.user_profiles?.full_name || item.user?.id || "Unknown user";
+      item.user?.user_profiles?.full_name ||
+      item.user?.id ||
+      t("groups.activity.unknownUser");
+    const amount = formatCurrency(Number(details?.amount) || 0);
+    const typeLabel =
+      details?.type === "income" || details?.type === "expense"
+        ? t(`groups.activity.types.${details.type}`)
+        : t("groups.activity.types.transaction");
+    const roleLabel = (role: unknown) =>
+      role === "owner" || role === "admin" || role === "viewer"
+        ? t(`groups.roles.${role}`)
+        : t("groups.roles.member");
 
     // Format action based on entity type and action
     if (entity_type === "transaction") {
+      const values = { user: userName, type: typeLabel, amount };
       if (action === "created") {
-        return `${userName} created a new ${
-          details?.type || "transaction"
-        } for $${details?.amount || 0}`;
+        return t("groups.activity.transactionCreated", values);
       } else if (action === "updated") {
-        return `${userName} updated a ${details?.type || "transaction"} for $${
-          details?.amount || 0
-        }`;
+        return t("groups.activity.transactionUpdated", values);
       } else if (action === "deleted") {
-        return `${userName} deleted a ${details?.type || "transaction"} for $${
-          details?.amount || 0
-        }`;
+        return t("groups.activity.transactionDeleted", values);
+      } else if (action === "approved" || action === "rejected") {
+        const message =
+          action === "approved"
+            ? t("groups.activity.transactionApproved", values)
+            : t("groups.activity.transactionRejected", values);
+        return details?.comment
+          ? t("groups.activity.withComment", {
+              message,
+              comment: String(details.comment),
+            })
+          : message;
       }
     } else if (entity_type === "budget") {
+      const values = { user: userName, name: String(details?.name || ""), amount };
       if (action === "created") {
-        return `${userName} created a new budget "${
-          details?.name || ""
-        }" for $${details?.amount || 0}`;
+        return t("groups.activity.budgetCreated", values);
       } else if (action === "updated") {
-        return `${userName} updated budget "${details?.name || ""}" to $${
-          details?.amount || 0
-        }`;
+        return t("groups.activity.budgetUpdated", values);
       } else if (action === "deleted") {
-        return `${userName} deleted budget "${details?.name || ""}"`;
+        return t("groups.activity.budgetDeleted", values);
       }
     } else if (entity_type === "member") {
       if (action === "added_member") {
-        return `${userName} added a new member with role ${
-          details?.role || "member"
-        }`;
+        return t("groups.activity.memberAdded", {
+          user: userName,
+          role: roleLabel(details?.role),
+        });
       } else if (action === "updated_member") {
-        return `${userName} updated a member's role to ${
-          details?.role || "member"
-        }`;
+        return t("groups.activity.memberUpdated", {
+          user: userName,
+          role: roleLabel(details?.role),
+        });
       } else if (action === "removed_member") {
-        return `${userName} removed a member from the group`;
+        return t("groups.activity.memberRemoved", { user: userName });
+      }
+    } else if (entity_type === "invitation") {
+      const values = {
+        user: userName,
+        email: String(details?.email || ""),
+        role: roleLabel(details?.role),
+      };
+      if (action === "created") {
+        return t("groups.activity.invitationCreated", values);
+      } else if (action === "updated") {
+        return t("groups.activity.invitationUpdated", values);
+      } else if (action === "deleted") {
+        return t("groups.activity.invitationDeleted", values);
+      } else if (action === "accepted") {
+        return t("groups.activity.invitationAccepted", values);
+      } else if (action === "rejected") {
+        return t("groups.activity.invitationRejected", values);
+      } else if (action === "expired") {
+        return t("groups.activity.invitationExpired", values);
       }
+    } else if (
+      entity_type === "shared_category" ||
+      entity_type === "shared_budget"
+    ) {
+      const values = { user: userName, name: String(details?.name || "") };
+      const isCategory = entity_type === "shared_category";
+      if (action === "shared") {
+        return isCategory
+          ? t("groups.activity.categoryShared", values)
+          : t("groups.activity.budgetShared", values);
+      } else if (action === "unshared") {
+        return isCategory
+          ? t("groups.activity.categoryUnshared", values)
+          : t("groups.activity.budgetUnshared", values);
+      }
+    } else if (entity_type === "group" && action === "created_group") {
+      return t("groups.activity.groupCreated", {
+        user: userName,
+        name: String(details?.group_name || ""),
+      });
     }
 
     // Default message
-    return `${userName} performed action "${action}" on ${
-      entity_type || "item"
-    }`;
+    return t("groups.activity.generic", {
+      user: userName,
+      action,
+      entity: entity_type || t("groups.activity.item"),
+    });
+  };
+
+  const formatChangeValue = (field: ChangeField, value: unknown) => {
+    if (value === null || value === undefined || value === "") {
+      return t("groups.activity.noValue");
+    }
+    if (field === "amount") return formatCurrency(Number(value));
+    if (field === "date" || field === "start_date" || field === "end_date") {
+      return formatDay(String(value), "short");
+    }
+    return String(value);
+  };
+
+  // Fields an update changed, e.g. "Amount: $10.00 → $12.50"
+  const getActivityChanges = (item: GroupActivity) => {
+    const before = item.details?.before as Record<string, unknown> | null;
+    const after = item.details?.after as Record<string, unknown> | null;
+    if (!before || !after) return [];
+
+    return CHANGE_FIELDS.filter((field) => field in after).map((field) =>
+      t("groups.activity.change", {
+        field: t(`groups.activity.fields.${field}`),
+        before: formatChangeValue(field, before[field]),
+        after: formatChangeValue(field, after[field]),
+      })
+    );
   };
 
   // Group activities by day
-  const groupedByDay = activity.reduce((acc: Record<string, typeof activity>, item) => {
-    const day = new Date(item.created_at).toLocaleDateString();
+  const groupedByDay = shownActivity.reduce((acc: Record<string, typeof activity>, item) => {
+    const day = new Date(item.created_at).toLocaleDateString(getLocale());
     if (!acc[day]) acc[day] = [];
     acc[day].push(item);
     return acc;
@@ -142,17 +345,82 @@ export function GroupActivityFeed(props: GroupActivityFeedProps) {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Activity className="h-6 w-6 text-purple-500" />
-          Activity Feed
+          {t("groups.activity.title")}
         </CardTitle>
-        <CardDescription>Recent activity in this group</CardDescription>
+        <CardDescription>{t("groups.activity.description")}</CardDescription>
       </CardHeader>
       <CardContent>
+        {members && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mb-6">
+            <Select value={memberFilter} onValueChange={setMemberFilter}>
+              <SelectTrigger aria-label={t("groups.activity.filterMember")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">
+                  {t("groups.activity.allMembers")}
+                </SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.user?.user_profiles?.full_name ||
+                      t("groups.activity.unknownUser")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={entityFilter} onValueChange={setEntityFilter}>
+              <SelectTrigger aria-label={t("groups.activity.filterType")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">
+                  {t("groups.activity.allTypes")}
+                </SelectItem>
+                {GROUP_ACTIVITY_ENTITY_TYPES.map((entityType) => (
+                  <SelectItem key={entityType} value={entityType}>
+                    {t(`groups.activity.entityTypes.${entityType}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              aria-label={t("groups.activity.from")}
+            />
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              aria-label={t("groups.activity.to")}
+            />
+            <Button
+              variant="outline"
+              onClick={clearFilters}
+              disabled={!hasFilters}
+            >
+              {t("groups.activity.clearFilters")}
+            </Button>
+          </div>
+        )}
+        {filterError && (
+          <p className="text-sm text-destructive mb-4">{filterError}</p>
+        )}
         <div className="relative pl-8">
           {/* Timeline bar */}
           <div className="absolute left-3 top-0 bottom-0 w-1 bg-gradient-to-b from-purple-200 to-blue-200 rounded-full" style={{ zIndex: 0 }} />
-          {!activity || activity.length === 0 ? (
+          {isFiltering ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !shownActivity || shownActivity.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
-              No activity recorded yet
+              {hasFilters
+                ? t("groups.activity.filteredEmpty")
+                : t("groups.activity.empty")}
             </p>
           ) : (
             Object.entries(groupedByDay).map(([day, items]) => (
@@ -197,6 +465,14 @@ export function GroupActivityFeed(props: GroupActivityFeedProps) {
                             {getActivityMessage(item)}
                           </p>
                         </div>
+                        {getActivityChanges(item).map((change) => (
+                          <p
+                            key={change}
+                            className="text-xs text-muted-foreground"
+                          >
+                            {change}
+                          </p>
+                        ))}
                         <p className="text-xs text-muted-foreground">
                           {formatDate(item.created_at)}
                         </p>
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useLanguage } from "../../../providers/languageUtils";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showToast } from "../../../utils/toast";
+import { reviewGroupTransaction } from "../../../api/supabase/groupTransactions";
+import {
+  canReviewGroupTransaction,
+  type GroupAccess,
+  type GroupFamilyRole,
+  type GroupRole,
+} from "../../../api/supabase/groupPermissions";
+
+interface GroupMember {
+  user_id: string;
+  role: GroupRole;
+  family_role?: GroupFamilyRole | null;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+      avatar_url?: string | null;
+    } | null;
+  } | null;
+}
+
+interface PendingTransaction {
+  id: string;
+  created_by: string;
+  amount: number;
+  description: string | null;
+  date: string;
+  status: string | null;
+}
+
+interface GroupApprovalsProps {
+  members: GroupMember[];
+  transactions: PendingTransaction[];
+  access: GroupAccess;
+  currentUserId: string;
+  onChange: () => void;
+}
+
+type Decision = "approved" | "rejected";
+
+/**
+ * Queue of expenses waiting for the current user's approval
+ */
+export function GroupApprovals({
+  members,
+  transactions,
+  access,
+  currentUserId,
+  onChange,
+}: GroupApprovalsProps) {
+  const { t } = useLanguage();
+  const [reviewing, setReviewing] = useState<{
+    transaction: PendingTransaction;
+    decision: Decision;
+  } | null>(null);
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberFor = (userId: string) =>
+    members.find((member) => member.user_id === userId);
+  const memberName = (userId: string) =>
+    memberFor(userId)?.user?.user_profiles?.full_name ||
+    t("groups.activity.unknownUser");
+
+  const queue = transactions.filter((transaction) => {
+    if (transaction.status !== "pending") return false;
+    const submitter = memberFor(transaction.created_by);
+    return canReviewGroupTransaction(
+      access,
+      {
+        role: submitter?.role || null,
+        familyRole: submitter?.family_role || null,
+      },
+      transaction.created_by === currentUserId
+    );
+  });
+
+  if (queue.length === 0) return null;
+
+  const openReview = (transaction: PendingTransaction, decision: Decision) => {
+    setReviewing({ transaction, decision });
+    setComment("");
+    setError(null);
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await reviewGroupTransaction(
+        reviewing.transaction.id,
+        reviewing.decision,
+        comment
+      );
+      if (error) throw error;
+
+      showToast({
+        type: "success",
+        title: t("common.success"),
+        description: t(`groups.approvals.${reviewing.decision}`),
+        duration: 3000,
+      });
+      setReviewing(null);
+      onChange();
+    } catch (err) {
+      console.error("Error reviewing transaction:", err);
+      setError(t("groups.approvals.reviewFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <ClipboardCheck className="mr-2 h-5 w-5 text-amber-600" />
+          {t("groups.approvals.title", { count: queue.length })}
+        </CardTitle>
+        <CardDescription>{t("groups.approvals.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-border">
+          {queue.map((transaction) => {
+            const member = memberFor(transaction.created_by);
+            const name = memberName(transaction.created_by);
+            return (
+              <li
+                key={transaction.id}
+                className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Avatar className="h-8 w-8">
+                    {member?.user?.user_profiles?.avatar_url && (
+                      <AvatarImage
+                        src={member.user.user_profiles.avatar_url}
+                        alt={name}
+                      />
+                    )}
+                    <AvatarFallback>
+                      {name.substring(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {transaction.description ||
+                        t("transactions.noDescription")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("groups.approvals.submittedBy", { name })} ·{" "}
+                      {formatDate(transaction.date, "medium")}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-destructive mr-2">
+                    {formatCurrency(transaction.amount)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openReview(transaction, "rejected")}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    {t("groups.approvals.reject")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => openReview(transaction, "approved")}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    {t("groups.approvals.approve")}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+
+      {/* Review Modal */}
+      <Dialog
+        open={!!reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "rejected"
+                ? t("groups.approvals.rejectTitle")
+                : t("groups.approvals.approveTitle")}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing &&
+                t("groups.approvals.reviewDescription", {
+                  description:
+                    reviewing.transaction.description ||
+                    t("transactions.noDescription"),
+                  amount: formatCurrency(reviewing.transaction.amount),
+                  name: memberName(reviewing.transaction.created_by),
+                })}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reviewComment">
+              {t("groups.approvals.comment")}
+            </Label>
+            <Textarea
+              id="reviewComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={t("groups.approvals.commentPlaceholder")}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant={
+                reviewing?.decision === "rejected" ? "destructive" : "default"
+              }
+              onClick={handleReview}
+              disabled={isSaving}
+            >
+              {reviewing?.decision === "rejected"
+                ? t("groups.approvals.reject")
+                : t("groups.approvals.approve")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,551 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import {
+  Scale,
+  ArrowRight,
+  HandCoins,
+  Trash2,
+  Loader2,
+  AlertCircle,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useLanguage } from "../../../providers/languageUtils";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import {
+  showItemCreatedToast,
+  showItemDeletedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import {
+  GroupSettlement,
+  GroupTransactionSplit,
+  SettlementSuggestion,
+  calculateGroupBalances,
+  createGroupSettlement,
+  deleteGroupSettlement,
+  getGroupSettlements,
+  getGroupTransactionSplits,
+  suggestSettlements,
+} from "../../../api/supabase/groupSplits";
+import type { GroupTransaction } from "../../../api/supabase/groupTransactions";
+import {
+  hasGroupPermission,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
+
+interface GroupMember {
+  user_id: string;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+      avatar_url?: string | null;
+    } | null;
+  } | null;
+}
+
+interface GroupBalancesProps {
+  groupId: string;
+  members: GroupMember[];
+  transactions: Pick<
+    GroupTransaction,
+    "id" | "amount" | "type" | "status" | "paid_by" | "created_by"
+  >[];
+  access: GroupAccess;
+  currentUserId: string;
+}
+
+export function GroupBalances({
+  groupId,
+  members,
+  transactions,
+  access,
+  currentUserId,
+}: GroupBalancesProps) {
+  const { t } = useLanguage();
+  const [splits, setSplits] = useState<GroupTransactionSplit[]>([]);
+  const [settlements, setSettlements] = useState<GroupSettlement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settle-up dialog
+  const [isSettleOpen, setIsSettleOpen] = useState(false);
+  const [fromUserId, setFromUserId] = useState("");
+  const [toUserId, setToUserId] = useState("");
+  const [settleAmount, setSettleAmount] = useState("");
+  const [settleDate, setSettleDate] = useState("");
+  const [settleNotes, setSettleNotes] = useState("");
+  const [settleError, setSettleError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<GroupSettlement | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canSettle = hasGroupPermission(access, "recordSettlement");
+  const canDeleteSettlement = (settlement: GroupSettlement) =>
+    hasGroupPermission(access, "deleteAnySettlement") ||
+    (settlement.created_by === currentUserId &&
+      hasGroupPermission(access, "deleteOwnSettlement"));
+
+  const fetchBalances = useCallback(async () => {
+    try {
+      setError(null);
+
+      const [splitsResult, settlementsResult] = await Promise.all([
+        getGroupTransactionSplits(groupId),
+        getGroupSettlements(groupId),
+      ]);
+
+      if (splitsResult.error) throw splitsResult.error;
+      if (settlementsResult.error) throw settlementsResult.error;
+
+      setSplits(splitsResult.data || []);
+      setSettlements(settlementsResult.data || []);
+    } catch (err) {
+      console.error("Error fetching group balances:", err);
+      setError(t("groups.balances.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, t]);
+
+  // Transactions are passed in, so reload whenever they change
+  useEffect(() => {
+    fetchBalances();
+  }, [fetchBalances, transactions]);
+
+  const balances = calculateGroupBalances(
+    members.map((member) => member.user_id),
+    transactions,
+    splits,
+    settlements
+  );
+  const suggestions = suggestSettlements(balances);
+
+  const memberFor = (userId: string) =>
+    members.find((member) => member.user_id === userId);
+  const memberName = (userId: string) =>
+    memberFor(userId)?.user?.user_profiles?.full_name ||
+    t("groups.activity.unknownUser");
+
+  const openSettle = (suggestion?: SettlementSuggestion) => {
+    setFromUserId(suggestion?.fromUserId || currentUserId);
+    setToUserId(suggestion?.toUserId || "");
+    setSettleAmount(suggestion ? suggestion.amount.toFixed(2) : "");
+    setSettleDate(format(new Date(), "yyyy-MM-dd"));
+    setSettleNotes("");
+    setSettleError(null);
+    setIsSettleOpen(true);
+  };
+
+  const handleSettle = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(settleAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setSettleError(t("common.invalidAmount"));
+      return;
+    }
+    if (!fromUserId || !toUserId || fromUserId === toUserId) {
+      setSettleError(t("groups.balances.sameMember"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { error } = await createGroupSettlement({
+        group_id: groupId,
+        from_user_id: fromUserId,
+        to_user_id: toUserId,
+        amount,
+        date: settleDate,
+        notes: settleNotes || null,
+        created_by: currentUserId,
+      });
+      if (error) throw error;
+
+      showItemCreatedToast(t("toast.items.settlement"));
+      setIsSettleOpen(false);
+      fetchBalances();
+    } catch (err) {
+      console.error("Error recording settlement:", err);
+      setSettleError(t("groups.balances.settleError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await deleteGroupSettlement(deleting.id);
+      if (error) throw error;
+
+      showItemDeletedToast(t("toast.items.settlement"));
+      setDeleting(null);
+      fetchBalances();
+    } catch (err) {
+      console.error("Error deleting settlement:", err);
+      showErrorToast(t("groups.balances.deleteError"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderMember = (userId: string) => {
+    const member = memberFor(userId);
+    const name = memberName(userId);
+    return (
+      <div className="flex items-center gap-2 min-w-0">
+        <Avatar className="h-6 w-6">
+          {member?.user?.user_profiles?.avatar_url && (
+            <AvatarImage src={member.user.user_profiles.avatar_url} alt={name} />
+          )}
+          <AvatarFallback>{name.substring(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="text-sm truncate">
+          {name}
+          {userId === currentUserId && ` ${t("groups.members.you")}`}
+        </span>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">{t("groups.balances.title")}</h2>
+        {canSettle && (
+          <Button onClick={() => openSettle()}>
+            <HandCoins className="mr-2 h-4 w-4" />
+            {t("groups.balances.settleUp")}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Member Balances */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-base">
+              <Scale className="mr-2 h-4 w-4" />
+              {t("groups.balances.memberBalances")}
+            </CardTitle>
+            <CardDescription>{t("groups.balances.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {balances.map((balance) => (
+                <li
+                  key={balance.userId}
+                  className="flex items-center justify-between py-2"
+                >
+                  <div className="min-w-0">
+                    {renderMember(balance.userId)}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {t("groups.balances.paidAndOwed", {
+                        paid: formatCurrency(balance.paid),
+                        owed: formatCurrency(balance.owed),
+                      })}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p
+                      className={
+                        balance.balance > 0
+                          ? "font-medium text-green-600"
+                          : balance.balance < 0
+                          ? "font-medium text-red-600"
+                          : "font-medium text-muted-foreground"
+                      }
+                    >
+                      {formatCurrency(Math.abs(balance.balance))}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {balance.balance > 0
+                        ? t("groups.balances.isOwed")
+                        : balance.balance < 0
+                        ? t("groups.balances.owes")
+                        : t("groups.balances.settled")}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        {/* Suggested Payments */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-base">
+              <HandCoins className="mr-2 h-4 w-4" />
+              {t("groups.balances.suggested")}
+            </CardTitle>
+            <CardDescription>
+              {t("groups.balances.suggestedHelp")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {t("groups.balances.allSettled")}
+              </p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {suggestions.map((suggestion) => (
+                  <li
+                    key={`${suggestion.fromUserId}-${suggestion.toUserId}`}
+                    className="flex items-center justify-between gap-2 py-2"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {renderMember(suggestion.fromUserId)}
+                      <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      {renderMember(suggestion.toUserId)}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {formatCurrency(suggestion.amount)}
+                      </span>
+                      {canSettle && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openSettle(suggestion)}
+                        >
+                          {t("groups.balances.record")}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Settlement History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {t("groups.balances.history")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {settlements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {t("groups.balances.noSettlements")}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {settlements.map((settlement) => (
+                <li
+                  key={settlement.id}
+                  className="flex items-center justify-between gap-2 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      {renderMember(settlement.from_user_id)}
+                      <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      {renderMember(settlement.to_user_id)}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDate(settlement.date, "medium")}
+                      {settlement.notes && ` · ${settlement.notes}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {formatCurrency(settlement.amount)}
+                    </span>
+                    {canDeleteSettlement(settlement) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => setDeleting(settlement)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Settle Up Modal */}
+      <Dialog open={isSettleOpen} onOpenChange={setIsSettleOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("groups.balances.settleUp")}</DialogTitle>
+            <DialogDescription>
+              {t("groups.balances.settleUpHelp")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSettle} className="space-y-4">
+            {settleError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{settleError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="settleFrom">{t("groups.balances.from")}</Label>
+                <Select value={fromUserId} onValueChange={setFromUserId}>
+                  <SelectTrigger id="settleFrom">
+                    <SelectValue placeholder={t("groups.splits.selectMember")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {memberName(member.user_id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settleTo">{t("groups.balances.to")}</Label>
+                <Select value={toUserId} onValueChange={setToUserId}>
+                  <SelectTrigger id="settleTo">
+                    <SelectValue placeholder={t("groups.splits.selectMember")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {memberName(member.user_id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="settleAmount">{t("common.amount")}</Label>
+                <Input
+                  type="number"
+                  id="settleAmount"
+                  value={settleAmount}
+                  onChange={(e) => setSettleAmount(e.target.value)}
+                  step="0.01"
+                  min="0.01"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settleDate">{t("common.date")}</Label>
+                <Input
+                  type="date"
+                  id="settleDate"
+                  value={settleDate}
+                  onChange={(e) => setSettleDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settleNotes">{t("common.notes")}</Label>
+              <Textarea
+                id="settleNotes"
+                value={settleNotes}
+                onChange={(e) => setSettleNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsSettleOpen(false)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? t("common.saving") : t("groups.balances.record")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Settlement Modal */}
+      <Dialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("groups.balances.deleteTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("groups.balances.deleteConfirm")}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={isSaving}
+            >
+              {t("common.delete")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import { useState, useEffect } from "react";
-// Translation imports removed
 import { useAuth } from "../../../state/useAuth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -21,12 +20,19 @@ import {
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getDateLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 import { getCategories } from "../../../api/supabase/categories";
 import {
   createGroupBudget,
   updateGroupBudget,
 
 } from "../../../api/supabase/groupBudgets";
+import {
+  DEFAULT_BUDGET_ALERT_THRESHOLDS,
+  formatAlertThresholds,
+  parseAlertThresholds,
+} from "../../../api/supabase/budgetAlerts";
 
 // Use the canonical GroupBudget type from the API
 import type { GroupBudget } from "../../../api/supabase/groupBudgets";
@@ -43,7 +49,7 @@ export function GroupBudgetForm({
   budget,
   onSuccess,
 }: GroupBudgetFormProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [name, setName] = useState(budget?.name || "");
   const [amount, setAmount] = useState(budget ? budget.amount.toString() : "");
@@ -57,6 +63,11 @@ export function GroupBudgetForm({
   const [endDate, setEndDate] = useState<Date | undefined>(
     budget?.end_date ? new Date(budget.end_date) : undefined
   );
+  const [alertThresholds, setAlertThresholds] = useState(
+    formatAlertThresholds(
+      budget?.alert_thresholds || DEFAULT_BUDGET_ALERT_THRESHOLDS
+    )
+  );
   const [categories, setCategories] = useState<
     { id: string; name: string; type: string }[]
   >([]);
@@ -73,12 +84,12 @@ export function GroupBudgetForm({
         setCategories(data || []);
       } catch (err) {
         console.error("Error fetching categories:", err);
-        setError("Failed to load categories");
+        setError(t("common.loadCategoriesError"));
       }
     }
 
     fetchCategories();
-  }, [user]);
+  }, [user, t]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,12 +102,17 @@ export function GroupBudgetForm({
     try {
       // Validate amount
       if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-        throw new Error("Please enter a valid amount");
+        throw new Error(t("common.invalidAmount"));
       }
 
       // Validate category
       if (!categoryId) {
-        throw new Error("Please select a category");
+        throw new Error(t("groups.budgets.categoryRequired"));
+      }
+
+      const thresholds = parseAlertThresholds(alertThresholds);
+      if (!thresholds) {
+        throw new Error(t("budgets.form.alertThresholdsInvalid"));
       }
 
       // Prepare budget data
@@ -109,6 +125,7 @@ export function GroupBudgetForm({
         period,
         start_date: format(startDate, "yyyy-MM-dd"),
         end_date: endDate ? format(endDate, "yyyy-MM-dd") : null,
+        alert_thresholds: thresholds,
       };
 
       if (budget) {
@@ -127,7 +144,7 @@ export function GroupBudgetForm({
       setError(
         typeof err === "string"
           ? err
-          : (err as Error).message || "Failed to save budget"
+          : (err as Error).message || t("budgets.saveError")
       );
     } finally {
       setIsLoading(false);
@@ -145,12 +162,12 @@ export function GroupBudgetForm({
       <div className="space-y-4">
         {/* Budget Name */}
         <div className="space-y-2">
-          <Label htmlFor="name">Budget Name</Label>
+          <Label htmlFor="name">{t("budgets.form.name")}</Label>
           <Input
             id="name"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            placeholder="Enter budget name"
+            placeholder={t("groups.budgets.namePlaceholder")}
             required
           />
         </div>
@@ -158,7 +175,7 @@ export function GroupBudgetForm({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Amount */}
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount</Label>
+            <Label htmlFor="amount">{t("common.amount")}</Label>
             <div className="relative">
               <span className="absolute left-3 top-1/2 -translate-y-1/2">
                 $
@@ -178,10 +195,10 @@ export function GroupBudgetForm({
 
           {/* Category */}
           <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
+            <Label htmlFor="category">{t("common.category")}</Label>
             <Select value={categoryId} onValueChange={setCategoryId} required>
               <SelectTrigger id="category">
-                <SelectValue placeholder="Select a category" />
+                <SelectValue placeholder={t("common.selectCategory")} />
               </SelectTrigger>
               <SelectContent>
                 {categories.map((category) => (
@@ -196,7 +213,7 @@ export function GroupBudgetForm({
 
         {/* Period */}
         <div className="space-y-2">
-          <Label htmlFor="period">Period</Label>
+          <Label htmlFor="period">{t("budgets.periodHistory.period")}</Label>
           <Select
             value={period}
             onValueChange={(value) =>
@@ -204,21 +221,37 @@ export function GroupBudgetForm({
             }
           >
             <SelectTrigger id="period">
-              <SelectValue placeholder="Select a period" />
+              <SelectValue placeholder={t("groups.budgets.selectPeriod")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="daily">Daily</SelectItem>
-              <SelectItem value="weekly">Weekly</SelectItem>
-              <SelectItem value="monthly">Monthly</SelectItem>
-              <SelectItem value="yearly">Yearly</SelectItem>
+              <SelectItem value="daily">{t("common.daily")}</SelectItem>
+              <SelectItem value="weekly">{t("common.weekly")}</SelectItem>
+              <SelectItem value="monthly">{t("common.monthly")}</SelectItem>
+              <SelectItem value="yearly">{t("common.yearly")}</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
+        {/* Alert Thresholds */}
+        <div className="space-y-2">
+          <Label htmlFor="alertThresholds">
+            {t("budgets.form.alertThresholds")}
+          </Label>
+          <Input
+            id="alertThresholds"
+            value={alertThresholds}
+            onChange={(e) => setAlertThresholds(e.target.value)}
+            placeholder={formatAlertThresholds(DEFAULT_BUDGET_ALERT_THRESHOLDS)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {t("budgets.form.alertThresholdsHelp")}
+          </p>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Start Date */}
           <div className="space-y-2">
-            <Label>Start Date</Label>
+            <Label>{t("common.startDate")}</Label>
             <Popover>
               <PopoverTrigger asChild>
                 <Button
@@ -230,9 +263,9 @@ export function GroupBudgetForm({
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
                   {startDate ? (
-                    format(startDate, "PPP")
+                    format(startDate, "PPP", { locale: getDateLocale() })
                   ) : (
-                    <span>Pick a date</span>
+                    <span>{t("groups.budgets.pickDate")}</span>
                   )}
                 </Button>
               </PopoverTrigger>
@@ -249,7 +282,7 @@ export function GroupBudgetForm({
 
           {/* End Date (Optional) */}
           <div className="space-y-2">
-            <Label>End Date (Optional)</Label>
+            <Label>{t("budgets.form.endDateOptional")}</Label>
             <Popover>
               <PopoverTrigger asChild>
                 <Button
@@ -260,7 +293,11 @@ export function GroupBudgetForm({
                   )}
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
-                  {endDate ? format(endDate, "PPP") : <span>No End Date</span>}
+                  {endDate ? (
+                    format(endDate, "PPP", { locale: getDateLocale() })
+                  ) : (
+                    <span>{t("groups.budgets.noEndDate")}</span>
+                  )}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-auto p-0">
@@ -270,7 +307,7 @@ export function GroupBudgetForm({
                     className="w-full justify-start text-left mb-2"
                     onClick={() => setEndDate(undefined)}
                   >
-                    No End Date
+                    {t("groups.budgets.noEndDate")}
                   </Button>
                 </div>
                 <Calendar
@@ -290,11 +327,11 @@ export function GroupBudgetForm({
         <Button type="submit" disabled={isLoading}>
           {isLoading
             ? budget
-              ? "Saving"
-              : "Creating"
+              ? t("groups.budgets.saving")
+              : t("groups.budgets.creating")
             : budget
-            ? "Save"
-            : "Create"}
+            ? t("common.save")
+            : t("common.create")}
         </Button>
       </div>
     </form>
@@ -1,5 +1,4 @@
-import { useState } from "react";
-// Translation imports removed
+import { useCallback, useEffect, useState } from "react";
 import { useAuth } from "../../../state/useAuth";
 import {
   Card,
@@ -29,14 +28,25 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Plus, MoreHorizontal, Edit, Trash2, Calendar, PiggyBank } from "lucide-react";
 import { GroupBudgetForm } from "./GroupBudgetForm";
+import {
+  useGroupRealtime,
+  type GroupTransactionChange,
+} from "../hooks/useGroupRealtime";
 import {
   deleteGroupBudget,
   calculateGroupBudgetProgress,
 
 } from "../../../api/supabase/groupBudgets";
+import {
+  canChangeGroupItem,
+  hasGroupPermission,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
 
 // Use the canonical GroupBudget type from the API
 import type { GroupBudget } from "../../../api/supabase/groupBudgets";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface BudgetProgress {
   budgetAmount: number;
@@ -48,7 +58,7 @@ interface BudgetProgress {
 interface GroupBudgetsProps {
   groupId: string;
   budgets: GroupBudget[];
-  userRole: string;
+  access: GroupAccess;
   onChange: () => void;
   compact?: boolean;
 }
@@ -57,11 +67,11 @@ interface GroupBudgetsProps {
 export function GroupBudgets({
   groupId,
   budgets,
-  userRole,
+  access,
   onChange,
   compact = false,
 }: GroupBudgetsProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -76,15 +86,9 @@ export function GroupBudgets({
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [newBudgetName, setNewBudgetName] = useState<string | null>(null);
 
-  const canCreateBudget =
-    userRole === "owner" || userRole === "admin" || userRole === "member";
-  const canEditBudget = (budget: GroupBudget) => {
-    return (
-      userRole === "owner" ||
-      userRole === "admin" ||
-      budget.created_by === user?.id
-    );
-  };
+  const canCreateBudget = hasGroupPermission(access, "createBudget");
+  const canChangeBudget = (action: "edit" | "delete", budget: GroupBudget) =>
+    canChangeGroupItem(access, action, "Budget", budget.created_by === user?.id);
 
   const handleOpenForm = (budget?: GroupBudget) => {
     setSelectedBudget(budget || null);
@@ -107,13 +111,13 @@ export function GroupBudgets({
       setSelectedBudget(null);
     } catch (err) {
       console.error("Error deleting budget:", err);
-      setError("Failed to delete budget. Please try again.");
+      setError(t("groups.budgets.deleteFailed"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const loadBudgetProgress = async (budgetId: string) => {
+  const loadBudgetProgress = useCallback(async (budgetId: string) => {
     try {
       const { data, error } = await calculateGroupBudgetProgress(budgetId);
 
@@ -126,10 +130,32 @@ export function GroupBudgets({
     } catch (err) {
       console.error("Error calculating budget progress:", err);
     }
+  }, []);
+
+  // Recalculate progress whenever a budget is added or changed
+  useEffect(() => {
+    budgets.forEach((budget) => loadBudgetProgress(budget.id));
+  }, [budgets, loadBudgetProgress]);
+
+  // Keep spending up to date when anyone changes a transaction in one of the
+  // budgets' categories
+  const handleRealtimeTransaction = (change: GroupTransactionChange) => {
+    const categoryIds = [
+      "category_id" in change.new ? change.new.category_id : null,
+      "category_id" in change.old ? change.old.category_id : null,
+    ];
+    budgets
+      .filter((budget) => categoryIds.includes(budget.category_id))
+      .forEach((budget) => loadBudgetProgress(budget.id));
   };
 
+  useGroupRealtime({
+    groupId,
+    onTransactionChange: handleRealtimeTransaction,
+  });
+
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat(undefined, {
+    return new Intl.NumberFormat(getLocale(), {
       style: "currency",
       currency: "USD",
     }).format(amount);
@@ -138,13 +164,13 @@ export function GroupBudgets({
   const formatPeriod = (period: string) => {
     switch (period) {
       case "daily":
-        return "Daily";
+        return t("common.daily");
       case "weekly":
-        return "Weekly";
+        return t("common.weekly");
       case "monthly":
-        return "Monthly";
+        return t("common.monthly");
       case "yearly":
-        return "Yearly";
+        return t("common.yearly");
       default:
         return period;
     }
@@ -152,7 +178,7 @@ export function GroupBudgets({
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return new Intl.DateTimeFormat(undefined, {
+    return new Intl.DateTimeFormat(getLocale(), {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -163,11 +189,11 @@ export function GroupBudgets({
     <div className="space-y-4">
       {!compact && (
         <div className="flex justify-between items-center">
-          <h2 className="text-xl font-semibold">Budgets</h2>
+          <h2 className="text-xl font-semibold">{t("groups.budgets.title")}</h2>
           {canCreateBudget && (
             <Button onClick={() => handleOpenForm()}>
               <Plus className="mr-2 h-4 w-4" />
-              Add Budget
+              {t("groups.budgets.add")}
             </Button>
           )}
         </div>
@@ -202,15 +228,14 @@ export function GroupBudgets({
               <div className="rounded-full bg-amber-50 p-3">
                 <PiggyBank className="h-8 w-8 text-amber-500" />
               </div>
-              <h3 className="text-lg font-medium">No budgets found</h3>
+              <h3 className="text-lg font-medium">{t("groups.budgets.empty")}</h3>
               <p className="text-muted-foreground max-w-sm mx-auto mb-2">
-                Create budgets to track and manage your group's spending in
-                different categories.
+                {t("groups.budgets.emptyHelp")}
               </p>
               {canCreateBudget && (
                 <Button onClick={() => handleOpenForm()} className="mt-2">
                   <Plus className="mr-2 h-4 w-4" />
-                  Add Budget
+                  {t("groups.budgets.add")}
                 </Button>
               )}
             </div>
@@ -219,11 +244,6 @@ export function GroupBudgets({
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {budgets.map((budget) => {
-            // Load budget progress if not already loaded
-            if (!budgetProgress[budget.id]) {
-              loadBudgetProgress(budget.id);
-            }
-
             const progress = budgetProgress[budget.id];
 
             return (
@@ -237,31 +257,36 @@ export function GroupBudgets({
                         {formatCurrency(budget.amount)}
                       </CardDescription>
                     </div>
-                    {canEditBudget(budget) && (
+                    {(canChangeBudget("edit", budget) ||
+                      canChangeBudget("delete", budget)) && (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button variant="ghost" size="icon">
                             <MoreHorizontal className="h-4 w-4" />
-                            <span className="sr-only">Actions</span>
+                            <span className="sr-only">{t("common.actions")}</span>
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => handleOpenForm(budget)}
-                          >
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => {
-                              setSelectedBudget(budget);
-                              setIsDeleteDialogOpen(true);
-                            }}
-                            className="text-destructive focus:text-destructive"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canChangeBudget("edit", budget) && (
+                            <DropdownMenuItem
+                              onClick={() => handleOpenForm(budget)}
+                            >
+                              <Edit className="mr-2 h-4 w-4" />
+                              {t("common.edit")}
+                            </DropdownMenuItem>
+                          )}
+                          {canChangeBudget("delete", budget) && (
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedBudget(budget);
+                                setIsDeleteDialogOpen(true);
+                              }}
+                              className="text-destructive focus:text-destructive"
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              {t("common.delete")}
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     )}
@@ -272,7 +297,9 @@ export function GroupBudgets({
                     {budget.category_id && (
                       <div className="flex items-center gap-2">
                         <Badge variant="outline">
-                          Category: {budget.category_id}
+                          {t("groups.budgets.categoryLabel", {
+                            category: budget.category_id,
+                          })}
                         </Badge>
                       </div>
                     )}
@@ -287,7 +314,7 @@ export function GroupBudgets({
 
                     <div className="flex items-center gap-2 text-sm">
                       <span className="text-muted-foreground">
-                        Created by: {budget.created_by}
+                        {t("groups.budgets.createdBy", { name: budget.created_by })}
                       </span>
                     </div>
 
@@ -335,7 +362,7 @@ export function GroupBudgets({
         <DialogContent className="sm:max-w-[600px]">
           <DialogHeader>
             <DialogTitle>
-              {selectedBudget ? "Edit Budget" : "Add Budget"}
+              {selectedBudget ? t("groups.budgets.edit") : t("groups.budgets.add")}
             </DialogTitle>
           </DialogHeader>
           <GroupBudgetForm
@@ -346,7 +373,7 @@ export function GroupBudgets({
               onChange();
               // Show success message
               if (!selectedBudget) {
-                setSuccessMessage("Budget created successfully!");
+                setSuccessMessage(t("groups.budgets.created"));
                 setNewBudgetName(budgets?.[0]?.name || null);
                 // Clear success message after 5 seconds
                 setTimeout(() => {
@@ -363,10 +390,9 @@ export function GroupBudgets({
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Budget</DialogTitle>
+            <DialogTitle>{t("groups.budgets.delete")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the budget "{selectedBudget?.name}
-              "? This action cannot be undone.
+              {t("groups.budgets.deleteConfirm", { name: selectedBudget?.name || "" })}
             </DialogDescription>
           </DialogHeader>
 
@@ -376,14 +402,14 @@ export function GroupBudgets({
               onClick={() => setIsDeleteDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
               onClick={handleDeleteBudget}
               disabled={isLoading}
             >
-              {isLoading ? "Deleting..." : "Delete"}
+              {isLoading ? t("common.deleting") : t("common.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Translation imports removed
 import { useAuth } from "../../../state/useAuth";
 import {
   Card,
@@ -18,6 +17,8 @@ import {
   rejectInvitation,
 } from "../../../api/supabase/budgetGroups";
 import { Check, X, Clock } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface Invitation {
   id: string;
@@ -54,7 +55,7 @@ export function GroupInvitationsList({
   invitations,
   onAccept,
 }: GroupInvitationsListProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [processingInvitations, setProcessingInvitations] = useState<
     Record<string, boolean>
@@ -77,7 +78,7 @@ export function GroupInvitationsList({
       console.error("Error accepting invitation:", err);
       setErrors((prev) => ({
         ...prev,
-        [token]: "Failed to accept invitation. Please try again.",
+        [token]: t("groups.invitations.acceptFailed"),
       }));
     } finally {
       setProcessingInvitations((prev) => ({ ...prev, [token]: false }));
@@ -98,7 +99,7 @@ export function GroupInvitationsList({
       console.error("Error rejecting invitation:", err);
       setErrors((prev) => ({
         ...prev,
-        [token]: "Failed to reject invitation. Please try again.",
+        [token]: t("groups.invitations.rejectFailed"),
       }));
     } finally {
       setProcessingInvitations((prev) => ({ ...prev, [token]: false }));
@@ -107,7 +108,7 @@ export function GroupInvitationsList({
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return new Intl.DateTimeFormat(undefined, {
+    return new Intl.DateTimeFormat(getLocale(), {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -140,29 +141,30 @@ export function GroupInvitationsList({
                     {invitation.group?.name}
                   </CardTitle>
                   <CardDescription>
-                    {"InvitedBy"}:{" "}
-                    {invitation.inviter?.user_profiles?.full_name ||
-                      invitation.inviter?.id}
+                    {t("groups.invitations.invitedBy", {
+                      name:
+                        invitation.inviter?.user_profiles?.full_name ||
+                        invitation.inviter?.id ||
+                        "",
+                    })}
                   </CardDescription>
                 </div>
               </div>
               <Badge className="bg-purple-100 text-purple-700 hover:bg-purple-200 border-none">
-                {invitation.role === "admin"
-                  ? "RoleAdmin"
-                  : invitation.role === "member"
-                  ? "RoleMember"
-                  : "RoleViewer"}
+                {t(`groups.roles.${invitation.role}`)}
               </Badge>
             </div>
           </CardHeader>
           <CardContent className="pb-2">
             <p className="text-sm">
-              {invitation.group?.description || "NoDescription"}
+              {invitation.group?.description || t("groups.noDescription")}
             </p>
             <div className="flex items-center mt-2 text-sm text-muted-foreground">
               <Clock className="mr-1 h-4 w-4 text-purple-500" />
               <span>
-                {"ExpiresOn"}: {formatDate(invitation.expires_at)}
+                {t("groups.invitations.expiresOn", {
+                  date: formatDate(invitation.expires_at),
+                })}
               </span>
             </div>
             {errors[invitation.token] && (
@@ -180,7 +182,7 @@ export function GroupInvitationsList({
               className="border-red-200 text-red-700 hover:bg-red-50"
             >
               <X className="mr-1 h-4 w-4" />
-              {"Decline"}
+              {t("groups.invitations.decline")}
             </Button>
             <Button
               variant="default"
@@ -190,7 +192,7 @@ export function GroupInvitationsList({
               className="bg-purple-600 hover:bg-purple-700"
             >
               <Check className="mr-1 h-4 w-4" />
-              {"Accept"}
+              {t("groups.invitations.accept")}
             </Button>
           </CardFooter>
         </Card>
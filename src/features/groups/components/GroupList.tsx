@@ -1,4 +1,3 @@
-// Translation imports removed
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { Edit, Trash2 } from "lucide-react";
@@ -16,6 +15,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Users, ArrowRight } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
+import type { GroupMember } from "../../../api/supabase/budgetGroups";
+import { hasGroupPermission } from "../../../api/supabase/groupPermissions";
 
 interface Group {
   id: string;
@@ -23,7 +25,7 @@ interface Group {
   description: string | null;
   avatar_url: string | null;
   is_active: boolean;
-  role: string;
+  role: GroupMember["role"];
 }
 
 interface GroupListProps {
@@ -32,6 +34,7 @@ interface GroupListProps {
 
 export function GroupList({ groups }: GroupListProps) {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editGroupId, setEditGroupId] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
@@ -58,7 +61,7 @@ export function GroupList({ groups }: GroupListProps) {
     setDeleteConfirmOpen(false);
     setGroupToDelete(null);
     if (error) {
-      setError("Failed to delete group");
+      setError(t("groups.errors.deleteFailed"));
     } else {
       window.location.reload(); // Or trigger a refresh in parent if possible
     }
@@ -87,14 +90,14 @@ export function GroupList({ groups }: GroupListProps) {
                   <CardTitle className="text-lg">{group.name}</CardTitle>
                   <div className="flex gap-2 mt-1">
                     <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200 border-none">
-                      {group.role.charAt(0).toUpperCase() + group.role.slice(1)}
+                      {t(`groups.roles.${group.role}`)}
                     </Badge>
                     {!group.is_active && (
                       <Badge
                         variant="outline"
                         className="text-gray-500 border-gray-300"
                       >
-                        Inactive
+                        {t("groups.inactive")}
                       </Badge>
                     )}
                   </div>
@@ -102,42 +105,46 @@ export function GroupList({ groups }: GroupListProps) {
               </div>
             </div>
             <CardDescription className="line-clamp-2 mt-2">
-              {group.description || "No description available"}
+              {group.description || t("groups.noDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent className="pb-2">
             <div className="flex items-center text-sm text-muted-foreground">
               <Users className="mr-1 h-4 w-4 text-blue-500" />
-              <span>0 members</span>
+              <span>{t("groups.memberCount", { count: 0 })}</span>
             </div>
           </CardContent>
           <CardFooter className="flex flex-col gap-2">
-            <div className="flex gap-2 w-full mb-2">
-              <Button
-                variant="outline"
-                size="icon"
-                aria-label="Edit Group"
-                onClick={() => handleEditClick(group.id)}
-                className="flex-1"
-              >
-                <Edit className="h-4 w-4" /> Edit
-              </Button>
-              <Button
-                variant="outline"
-                size="icon"
-                aria-label="Delete Group"
-                onClick={() => handleDeleteClick(group.id)}
-                className="flex-1 text-destructive hover:bg-red-50"
-              >
-                <Trash2 className="h-4 w-4" /> Delete
-              </Button>
-            </div>
+            {hasGroupPermission({ role: group.role }, "editSettings") && (
+              <div className="flex gap-2 w-full mb-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label={t("groups.edit")}
+                  onClick={() => handleEditClick(group.id)}
+                  className="flex-1"
+                >
+                  <Edit className="h-4 w-4" /> {t("common.edit")}
+                </Button>
+                {hasGroupPermission({ role: group.role }, "deleteGroup") && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label={t("groups.deleteTitle")}
+                    onClick={() => handleDeleteClick(group.id)}
+                    className="flex-1 text-destructive hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" /> {t("common.delete")}
+                  </Button>
+                )}
+              </div>
+            )}
             <Button
               variant="default"
               className="w-full bg-blue-600 hover:bg-blue-700"
               onClick={() => navigate(`/groups/${group.id}`)}
             >
-              View Group
+              {t("groups.view")}
               <ArrowRight className="ml-2 h-4 w-4" />
             </Button>
           </CardFooter>
@@ -157,17 +164,17 @@ export function GroupList({ groups }: GroupListProps) {
     {deleteConfirmOpen && (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
         <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm">
-          <h2 className="text-lg font-semibold mb-2">Delete Group?</h2>
-          <p className="mb-4">Are you sure you want to delete this group? This action cannot be undone.</p>
+          <h2 className="text-lg font-semibold mb-2">{t("groups.deleteTitle")}</h2>
+          <p className="mb-4">{t("groups.deleteConfirm")}</p>
           {error && (
             <div className="text-red-600 mb-2 text-sm">{error}</div>
           )}
           <div className="flex gap-2 justify-end">
             <Button variant="outline" onClick={() => setDeleteConfirmOpen(false)} disabled={loadingDelete}>
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button variant="destructive" onClick={handleDeleteConfirm} disabled={loadingDelete}>
-              {loadingDelete ? "Deleting..." : "Delete"}
+              {loadingDelete ? t("common.deleting") : t("common.delete")}
             </Button>
           </div>
         </div>
@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Translation imports removed
 import { Users, UserMinus, UserCog } from "lucide-react";
 import {
   Card,
@@ -34,10 +33,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { MoreHorizontal, Shield } from "lucide-react";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   updateGroupMember,
   removeGroupMember,
 } from "../../../api/supabase/budgetGroups";
+import {
+  canManageGroupMember,
+  getAssignableGroupRoles,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
 
 interface GroupMember {
   group_id: string;
@@ -58,17 +64,20 @@ interface GroupMember {
 interface GroupMembersProps {
   groupId: string;
   members: GroupMember[];
-  userRole: string;
+  access: GroupAccess;
   currentUserId: string;
+  // Members who have the group open right now
+  onlineUserIds?: string[];
 }
 
 export function GroupMembers({
   groupId,
   members,
-  userRole,
+  access,
   currentUserId,
+  onlineUserIds = [],
 }: GroupMembersProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isChangeRoleDialogOpen, setIsChangeRoleDialogOpen] = useState(false);
@@ -80,7 +89,7 @@ export function GroupMembers({
   const [newFamilyRole, setNewFamilyRole] = useState<string>("");
   const [isFamilyRoleDialogOpen, setIsFamilyRoleDialogOpen] = useState(false);
 
-  const isAdmin = userRole === "owner" || userRole === "admin";
+  const assignableRoles = getAssignableGroupRoles(access);
 
   const handleChangeRole = async () => {
     if (!selectedMember || !newRole) return;
@@ -95,9 +104,14 @@ export function GroupMembers({
         role: newRole,
       });
 
-      await updateGroupMember(groupId, selectedMember.user_id, {
-        role: newRole as "owner" | "admin" | "member" | "viewer",
-      });
+      const { error } = await updateGroupMember(
+        groupId,
+        selectedMember.user_id,
+        {
+          role: newRole as "owner" | "admin" | "member" | "viewer",
+        }
+      );
+      if (error) throw error;
 
       // Note: In a real application, we would update the local state here
       // but for this example, we'll rely on the parent component to refresh the data
@@ -109,9 +123,9 @@ export function GroupMembers({
     } catch (err) {
       console.error("Error changing role:", err);
       setError(
-        `Failed to change role: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.members.changeRoleFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
     } finally {
       setIsLoading(false);
@@ -131,14 +145,19 @@ export function GroupMembers({
         familyRole: newFamilyRole,
       });
 
-      await updateGroupMember(groupId, selectedMember.user_id, {
-        family_role: newFamilyRole as
-          | "parent"
-          | "child"
-          | "guardian"
-          | "other"
-          | null,
-      });
+      const { error } = await updateGroupMember(
+        groupId,
+        selectedMember.user_id,
+        {
+          family_role: newFamilyRole as
+            | "parent"
+            | "child"
+            | "guardian"
+            | "other"
+            | null,
+        }
+      );
+      if (error) throw error;
 
       // Close dialog
       setIsFamilyRoleDialogOpen(false);
@@ -147,9 +166,9 @@ export function GroupMembers({
     } catch (err) {
       console.error("Error changing family role:", err);
       setError(
-        `Failed to change family role: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.members.changeFamilyRoleFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
     } finally {
       setIsLoading(false);
@@ -163,7 +182,11 @@ export function GroupMembers({
     setError(null);
 
     try {
-      await removeGroupMember(groupId, selectedMember.user_id);
+      const { error } = await removeGroupMember(
+        groupId,
+        selectedMember.user_id
+      );
+      if (error) throw error;
 
       // Note: In a real application, we would update the local state here
       // but for this example, we'll rely on the parent component to refresh the data
@@ -173,25 +196,14 @@ export function GroupMembers({
       setSelectedMember(null);
     } catch (err) {
       console.error("Error removing member:", err);
-      setError("Failed to remove member. Please try again.");
+      setError(t("groups.members.removeFailed"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const canManageMember = (member: GroupMember) => {
-    // Owners can manage everyone except themselves
-    if (userRole === "owner") {
-      return member.user_id !== currentUserId;
-    }
-
-    // Admins can manage members and viewers, but not owners or other admins
-    if (userRole === "admin") {
-      return member.role !== "owner" && member.role !== "admin";
-    }
-
-    return false;
-  };
+  const canManageMember = (member: GroupMember) =>
+    canManageGroupMember(access, member, member.user_id === currentUserId);
 
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
@@ -219,10 +231,10 @@ export function GroupMembers({
         <CardHeader className="flex flex-row items-center justify-between pb-2">
           <div className="flex items-center gap-2">
             <Users className="h-6 w-6 text-purple-500" />
-            <CardTitle className="text-xl">Members</CardTitle>
+            <CardTitle className="text-xl">{t("groups.members.title")}</CardTitle>
             <span className="ml-2 text-sm text-muted-foreground">({members.length})</span>
           </div>
-          <CardDescription>Manage group members and their roles</CardDescription>
+          <CardDescription>{t("groups.members.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           {error && (
@@ -260,21 +272,31 @@ export function GroupMembers({
                           .toUpperCase()}
                       </AvatarFallback>
                     </Avatar>
-                    {/* Placeholder for online indicator */}
-                    <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full bg-green-400 ring-2 ring-white" title="Online (mock)"></span>
+                    {onlineUserIds.includes(member.user_id) && (
+                      <span
+                        className="absolute bottom-0 right-0 block h-3 w-3 rounded-full bg-green-400 ring-2 ring-white"
+                        title={t("groups.presence.online")}
+                      ></span>
+                    )}
                   </div>
                   <div>
                     <div className="font-semibold text-lg flex items-center gap-2">
                       {member.user?.user_profiles?.full_name || member.user?.email}
                       {member.user_id === currentUserId && (
-                        <span className="ml-2 text-xs text-purple-500">(You)</span>
+                        <span className="ml-2 text-xs text-purple-500">
+                          {t("groups.members.you")}
+                        </span>
                       )}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {member.user?.email}
                     </div>
                     <div className="text-xs text-muted-foreground mt-1">
-                      Joined {new Date(member.joined_at).toLocaleDateString()}
+                      {t("groups.members.joined", {
+                        date: new Date(member.joined_at).toLocaleDateString(
+                          getLocale()
+                        ),
+                      })}
                     </div>
                   </div>
                 </div>
@@ -284,21 +306,19 @@ export function GroupMembers({
                     className="flex items-center text-xs px-2 py-1"
                   >
                     {getRoleIcon(member.role)}
-                    {member.role.charAt(0).toUpperCase() +
-                      member.role.slice(1)}
+                    {t(`groups.roles.${member.role}`)}
                   </Badge>
                   {member.family_role && (
                     <Badge variant="outline" className="flex items-center">
-                      {member.family_role.charAt(0).toUpperCase() +
-                        member.family_role.slice(1)}
+                      {t(`groups.familyRoles.${member.family_role}`)}
                     </Badge>
                   )}
-                  {isAdmin && canManageMember(member) && (
+                  {canManageMember(member) && (
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="icon">
                           <MoreHorizontal className="h-4 w-4" />
-                          <span className="sr-only">Actions</span>
+                          <span className="sr-only">{t("common.actions")}</span>
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
@@ -310,7 +330,7 @@ export function GroupMembers({
                           }}
                         >
                           <UserCog className="mr-2 h-4 w-4" />
-                          Change Role
+                          {t("groups.members.changeRole")}
                         </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => {
@@ -320,7 +340,7 @@ export function GroupMembers({
                           }}
                         >
                           <UserCog className="mr-2 h-4 w-4" />
-                          Change Family Role
+                          {t("groups.members.changeFamilyRole")}
                         </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => {
@@ -330,7 +350,7 @@ export function GroupMembers({
                           className="text-destructive focus:text-destructive"
                         >
                           <UserMinus className="mr-2 h-4 w-4" />
-                          Remove Member
+                          {t("groups.members.remove")}
                         </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
@@ -349,35 +369,35 @@ export function GroupMembers({
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Change Role</DialogTitle>
+            <DialogTitle>{t("groups.members.changeRole")}</DialogTitle>
             <DialogDescription>
-              Change the role for{" "}
-              {selectedMember?.user?.user_profiles?.full_name ||
-                selectedMember?.user?.email}
+              {t("groups.members.changeRoleFor", {
+                name: selectedMember?.user?.user_profiles?.full_name ||
+                  selectedMember?.user?.email ||
+                  "",
+              })}
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
             <Select value={newRole} onValueChange={setNewRole}>
               <SelectTrigger>
-                <SelectValue placeholder="Select a role" />
+                <SelectValue placeholder={t("groups.invite.selectRole")} />
               </SelectTrigger>
               <SelectContent>
-                {userRole === "owner" && (
-                  <SelectItem value="admin">Admin</SelectItem>
-                )}
-                <SelectItem value="member">Member</SelectItem>
-                <SelectItem value="viewer">Viewer</SelectItem>
+                {assignableRoles.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {t(`groups.roles.${role}`)}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
             <p className="text-sm text-muted-foreground">
-              {newRole === "admin"
-                ? "Can manage group settings and members"
-                : newRole === "member"
-                ? "Can add transactions and view all data"
-                : newRole === "viewer"
-                ? "Can only view group data"
+              {newRole === "admin" ||
+              newRole === "member" ||
+              newRole === "viewer"
+                ? t(`groups.roleDescriptions.${newRole}`)
                 : ""}
             </p>
           </div>
@@ -388,7 +408,7 @@ export function GroupMembers({
               onClick={() => setIsChangeRoleDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleChangeRole}
@@ -396,7 +416,7 @@ export function GroupMembers({
                 isLoading || !newRole || newRole === selectedMember?.role
               }
             >
-              {isLoading ? "Saving..." : "Save"}
+              {isLoading ? t("common.saving") : t("common.save")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -406,12 +426,13 @@ export function GroupMembers({
       <Dialog open={isRemoveDialogOpen} onOpenChange={setIsRemoveDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Remove Member</DialogTitle>
+            <DialogTitle>{t("groups.members.remove")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to remove{" "}
-              {selectedMember?.user?.user_profiles?.full_name ||
-                selectedMember?.user?.email}{" "}
-              from this group?
+              {t("groups.members.removeConfirm", {
+                name: selectedMember?.user?.user_profiles?.full_name ||
+                  selectedMember?.user?.email ||
+                  "",
+              })}
             </DialogDescription>
           </DialogHeader>
 
@@ -421,14 +442,14 @@ export function GroupMembers({
               onClick={() => setIsRemoveDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
               onClick={handleRemoveMember}
               disabled={isLoading}
             >
-              {isLoading ? "Removing..." : "Remove Member"}
+              {isLoading ? t("groups.members.removing") : t("groups.members.remove")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -441,39 +462,46 @@ export function GroupMembers({
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Change Family Role</DialogTitle>
+            <DialogTitle>{t("groups.members.changeFamilyRole")}</DialogTitle>
             <DialogDescription>
-              Assign a family role to{" "}
-              {selectedMember?.user?.user_profiles?.full_name ||
-                selectedMember?.user?.email ||
-                "this member"}
+              {t("groups.members.assignFamilyRole", {
+                name:
+                  selectedMember?.user?.user_profiles?.full_name ||
+                  selectedMember?.user?.email ||
+                  t("groups.members.thisMember"),
+              })}
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
             <Select value={newFamilyRole} onValueChange={setNewFamilyRole}>
               <SelectTrigger>
-                <SelectValue placeholder="Select a family role" />
+                <SelectValue placeholder={t("groups.invite.selectFamilyRole")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="parent">Parent</SelectItem>
-                <SelectItem value="child">Child</SelectItem>
-                <SelectItem value="guardian">Guardian</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-                <SelectItem value="">None</SelectItem>
+                <SelectItem value="parent">
+                  {t("groups.familyRoles.parent")}
+                </SelectItem>
+                <SelectItem value="child">
+                  {t("groups.familyRoles.child")}
+                </SelectItem>
+                <SelectItem value="guardian">
+                  {t("groups.familyRoles.guardian")}
+                </SelectItem>
+                <SelectItem value="other">
+                  {t("groups.familyRoles.other")}
+                </SelectItem>
+                <SelectItem value="">{t("common.none")}</SelectItem>
               </SelectContent>
             </Select>
 
             <p className="text-sm text-muted-foreground">
-              {newFamilyRole === "parent"
-                ? "Full access to manage family finances and children's accounts"
-                : newFamilyRole === "child"
-                ? "Limited access based on parent settings"
-                : newFamilyRole === "guardian"
-                ? "Similar to parent but with some restrictions"
-                : newFamilyRole === "other"
-                ? "Custom role with specific permissions"
-                : "No specific family role assigned"}
+              {newFamilyRole === "parent" ||
+              newFamilyRole === "child" ||
+              newFamilyRole === "guardian" ||
+              newFamilyRole === "other"
+                ? t(`groups.familyRoleDescriptions.${newFamilyRole}`)
+                : t("groups.members.noFamilyRole")}
             </p>
           </div>
 
@@ -483,7 +511,7 @@ export function GroupMembers({
               onClick={() => setIsFamilyRoleDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               onClick={handleChangeFamilyRole}
@@ -492,7 +520,7 @@ export function GroupMembers({
                 newFamilyRole === (selectedMember?.family_role || "")
               }
             >
-              {isLoading ? "Saving..." : "Save"}
+              {isLoading ? t("common.saving") : t("common.save")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,79 @@
+import { Eye } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useLanguage } from "../../../providers/languageUtils";
+
+interface GroupMember {
+  user_id: string;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+      avatar_url?: string | null;
+    } | null;
+  } | null;
+}
+
+interface GroupPresenceProps {
+  members: GroupMember[];
+  onlineUserIds: string[];
+  currentUserId: string;
+}
+
+// Avatars shown before the rest is collapsed into a count
+const MAX_AVATARS = 5;
+
+/**
+ * Shows the other members who have the group open right now
+ */
+export function GroupPresence({
+  members,
+  onlineUserIds,
+  currentUserId,
+}: GroupPresenceProps) {
+  const { t } = useLanguage();
+
+  const viewers = members.filter(
+    (member) =>
+      member.user_id !== currentUserId &&
+      onlineUserIds.includes(member.user_id)
+  );
+
+  if (viewers.length === 0) return null;
+
+  const memberName = (member: GroupMember) =>
+    member.user?.user_profiles?.full_name || t("groups.activity.unknownUser");
+  const hidden = viewers.length - MAX_AVATARS;
+
+  return (
+    <div
+      className="flex items-center gap-2 text-sm text-muted-foreground"
+      title={viewers.map(memberName).join(", ")}
+    >
+      <Eye className="h-4 w-4" />
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((member) => {
+          const name = memberName(member);
+          return (
+            <div key={member.user_id} className="relative">
+              <Avatar className="h-7 w-7 border-2 border-background">
+                {member.user?.user_profiles?.avatar_url && (
+                  <AvatarImage
+                    src={member.user.user_profiles.avatar_url}
+                    alt={name}
+                  />
+                )}
+                <AvatarFallback className="text-xs">
+                  {name.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="absolute bottom-0 right-0 h-2 w-2 rounded-full bg-green-500 ring-2 ring-background" />
+            </div>
+          );
+        })}
+      </div>
+      {hidden > 0 && (
+        <span>{t("groups.presence.more", { count: hidden })}</span>
+      )}
+      <span>{t("groups.presence.viewingNow")}</span>
+    </div>
+  );
+}
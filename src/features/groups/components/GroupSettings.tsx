@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Translation imports removed
 import { useNavigate } from "react-router-dom";
 import {
   Card,
@@ -15,6 +14,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -27,7 +33,17 @@ import {
   updateBudgetGroup,
   deleteBudgetGroup,
 } from "../../../api/supabase/budgetGroups";
+import {
+  getGroupApprovalRules,
+  getGroupChildLimits,
+  hasGroupPermission,
+  type GroupAccess,
+  type GroupApprovalRules,
+  type GroupChildLimits,
+} from "../../../api/supabase/groupPermissions";
+import type { Json } from "../../../lib/database.types";
 import { Trash2 } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface Group {
   id: string;
@@ -36,17 +52,29 @@ interface Group {
   avatar_url: string | null;
   is_active: boolean;
   created_by: string;
+  child_limits?: Json;
+  approval_rules?: Json;
   created_at: string;
   updated_at: string;
 }
 
 interface GroupSettingsProps {
   group: Group;
+  access: GroupAccess;
   onUpdateGroup: (group: Group) => void;
 }
 
-export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
-  // Translation hooks removed
+// Child limits that are switched on or off
+const CHILD_LIMIT_FLAGS: Array<
+  Exclude<keyof GroupChildLimits, "expenseApprovalLimit">
+> = ["canEditTransactions", "canManageBudgets", "canRecordSettlements"];
+
+export function GroupSettings({
+  group,
+  access,
+  onUpdateGroup,
+}: GroupSettingsProps) {
+  const { t } = useLanguage();
   const navigate = useNavigate();
   const [name, setName] = useState(group.name);
   const [description, setDescription] = useState(group.description || "");
@@ -56,6 +84,27 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
   const [success, setSuccess] = useState<string | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [confirmText, setConfirmText] = useState("");
+  const [childLimits, setChildLimits] = useState(() =>
+    getGroupChildLimits(group.child_limits)
+  );
+  const [approvalLimit, setApprovalLimit] = useState(
+    childLimits.expenseApprovalLimit?.toString() || ""
+  );
+
+  const [approvalRole, setApprovalRole] = useState<string>(
+    () => getGroupApprovalRules(group.approval_rules).role || "none"
+  );
+  const [approvalAmount, setApprovalAmount] = useState(
+    () =>
+      getGroupApprovalRules(group.approval_rules).amountLimit?.toString() || ""
+  );
+
+  const canDeleteGroup = hasGroupPermission(access, "deleteGroup");
+  const canManageChildLimits = hasGroupPermission(access, "manageChildLimits");
+  const canManageApprovalRules = hasGroupPermission(
+    access,
+    "manageApprovalRules"
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -84,7 +133,7 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
 
       console.log("Group updated successfully:", data);
       onUpdateGroup(data);
-      setSuccess("Settings saved successfully!");
+      setSuccess(t("groups.settings.saved"));
 
       // Clear success message after a few seconds
       setTimeout(() => {
@@ -93,9 +142,93 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
     } catch (err) {
       console.error("Error updating group:", err);
       setError(
-        `Failed to update group: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.settings.updateFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveChildLimits = async () => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const limit =
+        approvalLimit.trim() === "" ? null : parseFloat(approvalLimit);
+      if (limit !== null && (isNaN(limit) || limit < 0)) {
+        throw new Error(t("common.invalidAmount"));
+      }
+
+      const limits: GroupChildLimits = {
+        ...childLimits,
+        expenseApprovalLimit: limit,
+      };
+      const { data, error } = await updateBudgetGroup(group.id, {
+        child_limits: { ...limits },
+      });
+      if (error) throw error;
+
+      onUpdateGroup(data);
+      setChildLimits(limits);
+      setSuccess(t("groups.settings.saved"));
+
+      // Clear success message after a few seconds
+      setTimeout(() => {
+        setSuccess(null);
+      }, 3000);
+    } catch (err) {
+      console.error("Error updating child limits:", err);
+      setError(
+        t("groups.settings.updateFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveApprovalRules = async () => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const limit =
+        approvalAmount.trim() === "" ? null : parseFloat(approvalAmount);
+      if (limit !== null && (isNaN(limit) || limit < 0)) {
+        throw new Error(t("common.invalidAmount"));
+      }
+
+      const rules: GroupApprovalRules = {
+        role:
+          approvalRole === "member" || approvalRole === "admin"
+            ? approvalRole
+            : null,
+        amountLimit: limit,
+      };
+      const { data, error } = await updateBudgetGroup(group.id, {
+        approval_rules: { ...rules },
+      });
+      if (error) throw error;
+
+      onUpdateGroup(data);
+      setSuccess(t("groups.settings.saved"));
+
+      // Clear success message after a few seconds
+      setTimeout(() => {
+        setSuccess(null);
+      }, 3000);
+    } catch (err) {
+      console.error("Error updating approval rules:", err);
+      setError(
+        t("groups.settings.updateFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
     } finally {
       setIsLoading(false);
@@ -105,7 +238,7 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
   const handleDeleteGroup = async () => {
     // Verify that the user has typed the correct group name
     if (confirmText !== group.name) {
-      setError("Please type the exact group name to confirm deletion.");
+      setError(t("groups.settings.confirmNameMismatch"));
       return;
     }
 
@@ -127,9 +260,9 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
     } catch (err) {
       console.error("Error deleting group:", err);
       setError(
-        `Failed to delete group: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.settings.deleteFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
       setIsDeleteDialogOpen(false);
       setIsLoading(false);
@@ -147,9 +280,9 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
       <Card>
         <form onSubmit={handleSubmit}>
           <CardHeader>
-            <CardTitle>General Settings</CardTitle>
+            <CardTitle>{t("groups.settings.general")}</CardTitle>
             <CardDescription>
-              Manage your group's basic information and settings
+              {t("groups.settings.generalDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -169,7 +302,7 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
             )}
 
             <div className="space-y-2">
-              <Label htmlFor="name">Group Name</Label>
+              <Label htmlFor="name">{t("groups.name")}</Label>
               <Input
                 id="name"
                 value={name}
@@ -179,7 +312,9 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="description">Group Description</Label>
+              <Label htmlFor="description">
+                {t("groups.settings.description")}
+              </Label>
               <Textarea
                 id="description"
                 value={description}
@@ -190,10 +325,11 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
 
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <Label htmlFor="active">Active Status</Label>
+                <Label htmlFor="active">
+                  {t("groups.settings.activeStatus")}
+                </Label>
                 <p className="text-sm text-muted-foreground">
-                  When inactive, members won't be able to create new
-                  transactions
+                  {t("groups.settings.activeHelp")}
                 </p>
               </div>
               <Switch
@@ -205,49 +341,157 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
           </CardContent>
           <CardFooter>
             <Button type="submit" disabled={isLoading}>
-              {isLoading ? "Saving..." : "Save Changes"}
+              {isLoading ? t("common.saving") : t("common.saveChanges")}
             </Button>
           </CardFooter>
         </form>
       </Card>
 
-      <Card className="border-destructive">
-        <CardHeader>
-          <CardTitle className="text-destructive">Danger Zone</CardTitle>
-          <CardDescription>Actions that can't be undone</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground mb-4">
-            Deleting this group will permanently remove all associated data
-            including transactions, budgets, and member information.
-          </p>
-          <Button variant="destructive" onClick={handleOpenDeleteDialog}>
-            <Trash2 className="mr-2 h-4 w-4" />
-            Delete Group
-          </Button>
-        </CardContent>
-      </Card>
+      {canManageApprovalRules && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("groups.approvals.rules")}</CardTitle>
+            <CardDescription>
+              {t("groups.approvals.rulesDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="approval-role">
+                {t("groups.approvals.role")}
+              </Label>
+              <Select value={approvalRole} onValueChange={setApprovalRole}>
+                <SelectTrigger id="approval-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">
+                    {t("groups.approvals.roles.none")}
+                  </SelectItem>
+                  <SelectItem value="member">
+                    {t("groups.approvals.roles.member")}
+                  </SelectItem>
+                  <SelectItem value="admin">
+                    {t("groups.approvals.roles.admin")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="approval-amount">
+                {t("groups.approvals.amountLimit")}
+              </Label>
+              <Input
+                id="approval-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={approvalAmount}
+                onChange={(e) => setApprovalAmount(e.target.value)}
+                placeholder={t("groups.approvals.everyExpense")}
+                disabled={approvalRole === "none"}
+              />
+              <p className="text-sm text-muted-foreground">
+                {t("groups.approvals.amountLimitHelp")}
+              </p>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSaveApprovalRules} disabled={isLoading}>
+              {isLoading ? t("common.saving") : t("common.saveChanges")}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {canManageChildLimits && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("groups.permissions.childLimits")}</CardTitle>
+            <CardDescription>
+              {t("groups.permissions.childLimitsDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="approval-limit">
+                {t("groups.permissions.approvalLimit")}
+              </Label>
+              <Input
+                id="approval-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={approvalLimit}
+                onChange={(e) => setApprovalLimit(e.target.value)}
+                placeholder={t("groups.permissions.noLimit")}
+              />
+              <p className="text-sm text-muted-foreground">
+                {t("groups.permissions.approvalLimitHelp")}
+              </p>
+            </div>
+
+            {CHILD_LIMIT_FLAGS.map((flag) => (
+              <div key={flag} className="flex items-center justify-between">
+                <Label htmlFor={flag}>{t(`groups.permissions.${flag}`)}</Label>
+                <Switch
+                  id={flag}
+                  checked={childLimits[flag]}
+                  onCheckedChange={(checked) =>
+                    setChildLimits((limits) => ({ ...limits, [flag]: checked }))
+                  }
+                />
+              </div>
+            ))}
+          </CardContent>
+          <CardFooter>
+            <Button onClick={handleSaveChildLimits} disabled={isLoading}>
+              {isLoading ? t("common.saving") : t("common.saveChanges")}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {canDeleteGroup && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">
+              {t("groups.settings.dangerZone")}
+            </CardTitle>
+            <CardDescription>
+              {t("groups.settings.dangerDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t("groups.settings.deleteWarning")}
+            </p>
+            <Button variant="destructive" onClick={handleOpenDeleteDialog}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t("groups.settings.delete")}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Delete Group Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Group</DialogTitle>
+            <DialogTitle>{t("groups.settings.delete")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the group "{group.name}"? This
-              action cannot be undone.
+              {t("groups.settings.deleteConfirm", { name: group.name })}
             </DialogDescription>
           </DialogHeader>
 
           <div className="py-4">
             <p className="text-sm text-muted-foreground">
-              All group data including transactions, budgets, and member
-              information will be permanently deleted. Members will lose access
-              to all shared resources.
+              {t("groups.settings.deleteDetails")}
             </p>
             <div className="mt-4 p-4 border border-destructive/20 bg-destructive/5 rounded-md">
               <p className="text-sm font-medium text-destructive">
-                Type the group name to confirm deletion:
+                {t("groups.settings.typeToConfirm")}
               </p>
               <Input
                 className="mt-2"
@@ -264,14 +508,14 @@ export function GroupSettings({ group, onUpdateGroup }: GroupSettingsProps) {
               onClick={() => setIsDeleteDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
               onClick={handleDeleteGroup}
               disabled={isLoading || confirmText !== group.name}
             >
-              {isLoading ? "Deleting..." : "Delete Group"}
+              {isLoading ? t("common.deleting") : t("groups.settings.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
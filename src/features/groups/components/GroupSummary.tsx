@@ -1,11 +1,11 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-// Translation imports removed
 import {
   getBudgetGroups,
   getGroupActivity,
 } from "../../../api/supabase/budgetGroups";
 import { formatDate } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -56,7 +56,7 @@ interface ActivityData {
 }
 
 export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const navigate = useNavigate();
   const [groups, setGroups] = useState<GroupData[]>([]);
   const [recentActivity, setRecentActivity] = useState<ActivityData[]>([]);
@@ -90,14 +90,14 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
         }
       } catch (err) {
         console.error("Error fetching budget groups:", err);
-        setError("Failed to load budget groups");
+        setError(t("groups.summary.loadFailed"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGroups();
-  }, [limit]);
+  }, [limit, t]);
 
   async function fetchGroupActivity(groupId: string) {
     try {
@@ -139,13 +139,15 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
         <CardHeader>
           <CardTitle className="text-lg flex items-center">
             <Users className="mr-2 h-5 w-5" />
-            {"Title"}
+            {t("groups.title")}
           </CardTitle>
         </CardHeader>
         <CardContent className="text-center py-6">
-          <p className="text-muted-foreground mb-4">{"NoGroups"}</p>
+          <p className="text-muted-foreground mb-4">
+            {t("groups.page.noGroupsDescription")}
+          </p>
           <Button onClick={() => navigate("/groups")}>
-            {"CreateGroup"}
+            {t("groups.create")}
           </Button>
         </CardContent>
       </Card>
@@ -157,7 +159,7 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-medium flex items-center">
           <Users className="mr-2 h-5 w-5" />
-          {"MyGroups"}
+          {t("groups.page.myGroups")}
         </h3>
         <Button
           variant="ghost"
@@ -165,7 +167,7 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
           className="gap-1"
           onClick={() => navigate("/groups")}
         >
-          {"ViewAll"}
+          {t("common.viewAll")}
           <ArrowRight className="h-4 w-4" />
         </Button>
       </div>
@@ -188,12 +190,12 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
                     <h4 className="font-medium truncate">{group.name}</h4>
                     {!group.is_active && (
                       <Badge variant="outline" className="ml-1">
-                        {"Inactive"}
+                        {t("groups.inactive")}
                       </Badge>
                     )}
                   </div>
                   <p className="text-sm text-muted-foreground truncate">
-                    {group.description || "NoDescription"}
+                    {group.description || t("groups.noDescription")}
                   </p>
                 </div>
                 <Button
@@ -214,7 +216,9 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
         <div className="mt-6">
           <div className="flex items-center mb-2">
             <Activity className="mr-2 h-5 w-5" />
-            <h3 className="text-lg font-medium">{"Activity"}</h3>
+            <h3 className="text-lg font-medium">
+              {t("groups.summary.recentActivity")}
+            </h3>
           </div>
           <Card>
             <CardContent className="p-4 space-y-4">
@@ -222,24 +226,17 @@ export function GroupSummary({ limit = 3 }: GroupSummaryProps) {
                 const userName =
                   item.user?.user_profiles?.full_name ||
                   item.user?.id ||
-                  "Unknown user";
-                let message = "";
-
-                if (item.entity_type === "transaction") {
-                  message = `${userName} ${item.action} a ${
-                    item.details?.type || ""
-                  } transaction`;
-                } else if (item.entity_type === "budget") {
-                  message = `${userName} ${item.action} a budget "${
-                    item.details?.name || ""
-                  }"`;
-                } else if (item.entity_type === "member") {
-                  message = `${userName} ${item.action.replace("_", " ")} ${
-                    item.details?.user_id || ""
-                  }`;
-                } else {
-                  message = `${userName} ${item.action} a ${item.entity_type}`;
-                }
+                  t("groups.activity.unknownUser");
+                const message = t("groups.activity.generic", {
+                  user: userName,
+                  action: item.action.replace("_", " "),
+                  entity:
+                    item.entity_type === "budget"
+                      ? item.details?.name || item.entity_type
+                      : item.entity_type === "member"
+                      ? item.details?.user_id || item.entity_type
+                      : item.entity_type || t("groups.activity.item"),
+                });
 
                 return (
                   <div key={item.id} className="flex items-start gap-3">
@@ -1,5 +1,4 @@
 import { useState, useEffect } from "react";
-// Translation imports removed
 import { useAuth } from "../../../state/useAuth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +12,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -23,28 +24,70 @@ import {
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getDateLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 import { getCategories } from "../../../api/supabase/categories";
 import {
   createGroupTransaction,
   updateGroupTransaction,
 
 } from "../../../api/supabase/groupTransactions";
+import {
+  GROUP_SPLIT_METHODS,
+  GroupSplitMethod,
+  SplitShareInput,
+  calculateSplitShares,
+  getSplitsForGroupTransaction,
+  setGroupTransactionSplits,
+  splitInputsValid,
+} from "../../../api/supabase/groupSplits";
+import {
+  isGroupTransactionApproved,
+  needsGroupApproval,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
+import { formatCurrency } from "../../../utils/formatters";
 
 // Extend the API type for our component
 import type { GroupTransaction } from "../../../api/supabase/groupTransactions";
 
+interface GroupMember {
+  user_id: string;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+    } | null;
+  } | null;
+}
+
 interface GroupTransactionFormProps {
   groupId: string;
+  members: GroupMember[];
+  access: GroupAccess;
   transaction?: GroupTransaction;
   onSuccess: () => void;
 }
 
+// Value each member starts with when switching to a split method
+const defaultSplitValue = (method: GroupSplitMethod, memberCount: number) => {
+  switch (method) {
+    case "percentage":
+      return memberCount > 0 ? (100 / memberCount).toFixed(2) : "";
+    case "shares":
+      return "1";
+    default:
+      return "";
+  }
+};
+
 export function GroupTransactionForm({
   groupId,
+  members,
+  access,
   transaction,
   onSuccess,
 }: GroupTransactionFormProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [amount, setAmount] = useState(
     transaction ? transaction.amount.toString() : ""
@@ -64,11 +107,21 @@ export function GroupTransactionForm({
   const [paymentMethod, setPaymentMethod] = useState(
     transaction?.payment_method || "none"
   );
-  const [status, setStatus] = useState<"pending" | "completed" | "cancelled">(
-    (transaction?.status as "pending" | "completed" | "cancelled") ||
-      "completed"
+  const [status, setStatus] = useState<GroupTransaction["status"]>(
+    transaction?.status || "completed"
   );
   const [notes, setNotes] = useState(transaction?.notes || "");
+  const [paidBy, setPaidBy] = useState(
+    transaction?.paid_by || transaction?.created_by || user?.id || ""
+  );
+  const [isSplit, setIsSplit] = useState(!!transaction?.split_method);
+  const [splitMethod, setSplitMethod] = useState<GroupSplitMethod>(
+    transaction?.split_method || "equal"
+  );
+  // Split value per member; members without an entry are left out
+  const [splitValues, setSplitValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(members.map((member) => [member.user_id, ""]))
+  );
   const [categories, setCategories] = useState<
     { id: string; name: string; type: string }[]
   >([]);
@@ -85,12 +138,80 @@ export function GroupTransactionForm({
         setCategories(data || []);
       } catch (err) {
         console.error("Error fetching categories:", err);
-        setError("Failed to load categories");
+        setError(t("common.loadCategoriesError"));
       }
     }
 
     fetchCategories();
-  }, [user]);
+  }, [user, t]);
+
+  useEffect(() => {
+    async function fetchSplits() {
+      if (!transaction?.split_method) return;
+
+      const { data, error } = await getSplitsForGroupTransaction(
+        transaction.id
+      );
+      if (error) {
+        console.error("Error fetching transaction splits:", error);
+        return;
+      }
+      setSplitValues(
+        Object.fromEntries(
+          (data || []).map((split) => [split.user_id, split.value.toString()])
+        )
+      );
+    }
+
+    fetchSplits();
+  }, [transaction]);
+
+  const memberName = (member: GroupMember) =>
+    member.user?.user_profiles?.full_name || t("groups.activity.unknownUser");
+
+  const handleSplitMethodChange = (method: GroupSplitMethod) => {
+    setSplitMethod(method);
+    setSplitValues((values) => {
+      const included = Object.keys(values);
+      return Object.fromEntries(
+        included.map((userId) => [
+          userId,
+          defaultSplitValue(method, included.length),
+        ])
+      );
+    });
+  };
+
+  const toggleSplitMember = (userId: string, included: boolean) => {
+    setSplitValues((values) => {
+      const next = { ...values };
+      if (included) {
+        next[userId] = defaultSplitValue(
+          splitMethod,
+          Object.keys(values).length + 1
+        );
+      } else {
+        delete next[userId];
+      }
+      return next;
+    });
+  };
+
+  const splitInputs: SplitShareInput[] = members
+    .filter((member) => member.user_id in splitValues)
+    .map((member) => ({
+      user_id: member.user_id,
+      value:
+        splitMethod === "equal"
+          ? 1
+          : parseFloat(splitValues[member.user_id] || "0"),
+    }));
+  const splitTotal = parseFloat(amount) || 0;
+  const splitIsValid = splitInputsValid(splitTotal, splitMethod, splitInputs);
+  const splitShares = splitIsValid
+    ? calculateSplitShares(splitTotal, splitMethod, splitInputs)
+    : [];
+  const shouldSplit = isSplit && type === "expense";
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -103,7 +224,11 @@ export function GroupTransactionForm({
     try {
       // Validate amount
       if (isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
-        throw new Error("Please enter a valid amount");
+        throw new Error(t("common.invalidAmount"));
+      }
+
+      if (shouldSplit && !splitIsValid) {
+        throw new Error(t(`groups.splits.invalid.${splitMethod}`));
       }
 
       // Prepare transaction data
@@ -118,18 +243,32 @@ export function GroupTransactionForm({
         payment_method: paymentMethod === "none" ? null : paymentMethod,
         status,
         notes: notes || null,
+        paid_by: paidBy || user.id,
       };
 
+      let saved: GroupTransaction | null;
       if (transaction) {
-        // Update existing transaction
-        const { error } = await updateGroupTransaction(
-          transaction.id,
-          transactionData
-        );
+        // Update existing transaction, which stays with whoever added it
+        const { data, error } = await updateGroupTransaction(transaction.id, {
+          ...transactionData,
+          created_by: transaction.created_by,
+        });
         if (error) throw error;
+        saved = data;
       } else {
         // Create new transaction
-        const { error } = await createGroupTransaction(transactionData);
+        const { data, error } = await createGroupTransaction(transactionData);
+        if (error) throw error;
+        saved = data;
+      }
+
+      // Splits are re-saved with every edit so they follow the amount
+      if (saved && (shouldSplit || transaction?.split_method)) {
+        const { error } = await setGroupTransactionSplits(
+          saved,
+          shouldSplit ? splitMethod : null,
+          splitInputs
+        );
         if (error) throw error;
       }
 
@@ -139,13 +278,21 @@ export function GroupTransactionForm({
       setError(
         typeof err === "string"
           ? err
-          : (err as Error).message || "Failed to save transaction"
+          : (err as Error).message || t("transactions.saveError")
       );
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Expenses waiting for approval, or rejected, are sent for approval again
+  // when saved, and only a review changes their status
+  const isUnderReview =
+    !!transaction && !isGroupTransactionApproved(transaction);
+  const willNeedApproval =
+    isUnderReview ||
+    needsGroupApproval(access, { type, amount: parseFloat(amount) || 0 });
+
   // Filter categories based on transaction type
   const filteredCategories = categories.filter(
     (category) => category.type === "both" || category.type === type
@@ -162,7 +309,7 @@ export function GroupTransactionForm({
       <div className="space-y-4">
         {/* Transaction Type */}
         <div className="space-y-2">
-          <Label>{"TransactionType"}</Label>
+          <Label>{t("groups.transactions.type")}</Label>
           <RadioGroup
             value={type}
             onValueChange={(value) => setType(value as "expense" | "income")}
@@ -171,13 +318,13 @@ export function GroupTransactionForm({
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="expense" id="expense" />
               <Label htmlFor="expense" className="cursor-pointer">
-                {"Expense"}
+                {t("common.expense")}
               </Label>
             </div>
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="income" id="income" />
               <Label htmlFor="income" className="cursor-pointer">
-                {"Income"}
+                {t("common.income")}
               </Label>
             </div>
           </RadioGroup>
@@ -186,7 +333,7 @@ export function GroupTransactionForm({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Amount */}
           <div className="space-y-2">
-            <Label htmlFor="amount">{"Amount"}</Label>
+            <Label htmlFor="amount">{t("common.amount")}</Label>
             <div className="relative">
               <span className="absolute left-3 top-1/2 -translate-y-1/2">
                 $
@@ -206,7 +353,7 @@ export function GroupTransactionForm({
 
           {/* Date */}
           <div className="space-y-2">
-            <Label>{"Date"}</Label>
+            <Label>{t("common.date")}</Label>
             <Popover>
               <PopoverTrigger asChild>
                 <Button
@@ -217,7 +364,11 @@ export function GroupTransactionForm({
                   )}
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
-                  {date ? format(date, "PPP") : <span>Pick a date</span>}
+                  {date ? (
+                    format(date, "PPP", { locale: getDateLocale() })
+                  ) : (
+                    <span>{t("groups.budgets.pickDate")}</span>
+                  )}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-auto p-0">
@@ -234,25 +385,25 @@ export function GroupTransactionForm({
 
         {/* Description */}
         <div className="space-y-2">
-          <Label htmlFor="description">{"Description"}</Label>
+          <Label htmlFor="description">{t("common.description")}</Label>
           <Input
             id="description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder={"DescriptionPlaceholder"}
+            placeholder={t("transactions.form.descriptionPlaceholder")}
           />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Category */}
           <div className="space-y-2">
-            <Label htmlFor="category">{"Category"}</Label>
+            <Label htmlFor="category">{t("common.category")}</Label>
             <Select value={categoryId} onValueChange={setCategoryId}>
               <SelectTrigger id="category">
-                <SelectValue placeholder={"SelectCategory"} />
+                <SelectValue placeholder={t("common.selectCategory")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="none">{"None"}</SelectItem>
+                <SelectItem value="none">{t("common.none")}</SelectItem>
                 {filteredCategories.map((category) => (
                   <SelectItem key={category.id} value={category.id}>
                     {category.name}
@@ -264,74 +415,209 @@ export function GroupTransactionForm({
 
           {/* Payment Method */}
           <div className="space-y-2">
-            <Label htmlFor="paymentMethod">{"PaymentMethod"}</Label>
+            <Label htmlFor="paymentMethod">
+              {t("transactions.form.paymentMethod")}
+            </Label>
             <Select value={paymentMethod} onValueChange={setPaymentMethod}>
               <SelectTrigger id="paymentMethod">
-                <SelectValue placeholder={"SelectPaymentMethod"} />
+                <SelectValue
+                  placeholder={t("transactions.form.selectPaymentMethod")}
+                />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="none">{"None"}</SelectItem>
-                <SelectItem value="cash">{"Cash"}</SelectItem>
+                <SelectItem value="none">{t("common.none")}</SelectItem>
+                <SelectItem value="cash">
+                  {t("transactions.paymentMethods.cash")}
+                </SelectItem>
                 <SelectItem value="credit_card">
-                  {"CreditCard"}
+                  {t("transactions.paymentMethods.credit_card")}
                 </SelectItem>
                 <SelectItem value="debit_card">
-                  {"DebitCard"}
+                  {t("transactions.paymentMethods.debit_card")}
                 </SelectItem>
                 <SelectItem value="bank_transfer">
-                  {"BankTransfer"}
+                  {t("transactions.paymentMethods.bank_transfer")}
                 </SelectItem>
                 <SelectItem value="mobile_payment">
-                  {"MobilePayment"}
+                  {t("transactions.paymentMethods.mobile_payment")}
+                </SelectItem>
+                <SelectItem value="other">
+                  {t("transactions.paymentMethods.other")}
                 </SelectItem>
-                <SelectItem value="other">{"Other"}</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </div>
 
-        {/* Status */}
+        {/* Paid By */}
         <div className="space-y-2">
-          <Label htmlFor="status">{"Status"}</Label>
-          <Select
-            value={status}
-            onValueChange={(value) =>
-              setStatus(value as "pending" | "completed" | "cancelled")
-            }
-          >
-            <SelectTrigger id="status">
-              <SelectValue placeholder={"SelectStatus"} />
+          <Label htmlFor="paidBy">{t("groups.splits.paidBy")}</Label>
+          <Select value={paidBy} onValueChange={setPaidBy}>
+            <SelectTrigger id="paidBy">
+              <SelectValue placeholder={t("groups.splits.selectMember")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="completed">{"Completed"}</SelectItem>
-              <SelectItem value="pending">{"Pending"}</SelectItem>
-              <SelectItem value="cancelled">{"Cancelled"}</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {memberName(member)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
+        {/* Split */}
+        {type === "expense" && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="isSplit">{t("groups.splits.split")}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t("groups.splits.splitHelp")}
+                </p>
+              </div>
+              <Switch
+                id="isSplit"
+                checked={isSplit}
+                onCheckedChange={setIsSplit}
+              />
+            </div>
+
+            {isSplit && (
+              <>
+                <Select
+                  value={splitMethod}
+                  onValueChange={(value) =>
+                    handleSplitMethodChange(value as GroupSplitMethod)
+                  }
+                >
+                  <SelectTrigger id="splitMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GROUP_SPLIT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {t(`groups.splits.methods.${method}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="space-y-2">
+                  {members.map((member) => {
+                    const included = member.user_id in splitValues;
+                    const share = splitShares.find(
+                      (s) => s.user_id === member.user_id
+                    );
+                    return (
+                      <div
+                        key={member.user_id}
+                        className="flex items-center gap-2"
+                      >
+                        <Checkbox
+                          id={`split-${member.user_id}`}
+                          checked={included}
+                          onCheckedChange={(checked) =>
+                            toggleSplitMember(member.user_id, checked === true)
+                          }
+                        />
+                        <Label
+                          htmlFor={`split-${member.user_id}`}
+                          className="flex-1 truncate cursor-pointer"
+                        >
+                          {memberName(member)}
+                        </Label>
+                        {included && splitMethod !== "equal" && (
+                          <Input
+                            type="number"
+                            step={splitMethod === "shares" ? "1" : "0.01"}
+                            min="0"
+                            value={splitValues[member.user_id]}
+                            onChange={(e) =>
+                              setSplitValues((values) => ({
+                                ...values,
+                                [member.user_id]: e.target.value,
+                              }))
+                            }
+                            className="w-24"
+                            aria-label={t(
+                              `groups.splits.valueLabels.${splitMethod}`
+                            )}
+                          />
+                        )}
+                        <span className="w-20 text-right text-sm text-muted-foreground">
+                          {share ? formatCurrency(share.amount) : ""}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {!splitIsValid && splitInputs.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    {t(`groups.splits.invalid.${splitMethod}`)}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Status */}
+        {!isUnderReview && (
+          <div className="space-y-2">
+            <Label htmlFor="status">{t("common.status")}</Label>
+            <Select
+              value={status}
+              onValueChange={(value) =>
+                setStatus(value as GroupTransaction["status"])
+              }
+            >
+              <SelectTrigger id="status">
+                <SelectValue placeholder={t("transactions.form.selectStatus")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="completed">
+                  {t("transactions.statuses.completed")}
+                </SelectItem>
+                <SelectItem value="cancelled">
+                  {t("transactions.statuses.cancelled")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Notes */}
         <div className="space-y-2">
-          <Label htmlFor="notes">{"Notes"}</Label>
+          <Label htmlFor="notes">{t("common.notes")}</Label>
           <Textarea
             id="notes"
             value={notes}
             onChange={(e) => setNotes(e.target.value)}
-            placeholder={"NotesPlaceholder"}
+            placeholder={t("transactions.form.notesPlaceholder")}
             rows={3}
           />
         </div>
       </div>
 
+      {willNeedApproval && (
+        <Alert>
+          <AlertDescription>
+            {t("groups.approvals.willNeedApproval")}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="flex justify-end space-x-2 pt-4">
         <Button type="submit" disabled={isLoading}>
           {isLoading
             ? transaction
-              ? "Saving"
-              : "Creating"
+              ? t("groups.budgets.saving")
+              : t("groups.budgets.creating")
             : transaction
-            ? "Save"
-            : "Create"}
+            ? t("common.save")
+            : t("common.create")}
         </Button>
       </div>
     </form>
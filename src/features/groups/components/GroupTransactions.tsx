@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Translation imports removed
 import { useAuth } from "../../../state/useAuth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -48,29 +47,47 @@ import { GroupTransactionForm } from "./GroupTransactionForm";
 import {
   deleteGroupTransaction
 } from "../../../api/supabase/groupTransactions";
+import {
+  canChangeGroupItem,
+  hasGroupPermission,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
 
 // Define the transaction interface
 // Extend the API type for our component
 // Use the canonical GroupTransaction type from the API
 import type { GroupTransaction } from "../../../api/supabase/groupTransactions";
+import { getLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 // No local extension of GroupTransaction needed; use as-is from API
 
+interface GroupMember {
+  user_id: string;
+  user?: {
+    user_profiles?: {
+      full_name?: string | null;
+    } | null;
+  } | null;
+}
+
 interface GroupTransactionsProps {
   groupId: string;
+  members: GroupMember[];
   transactions: GroupTransaction[];
-  userRole: string;
+  access: GroupAccess;
   onChange: () => void;
   compact?: boolean;
 }
 
 export function GroupTransactions({
   groupId,
+  members,
   transactions,
-  userRole,
+  access,
   onChange,
   compact = false,
 }: GroupTransactionsProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -79,15 +96,17 @@ export function GroupTransactions({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const canCreateTransaction =
-    userRole === "owner" || userRole === "admin" || userRole === "member";
-  const canEditTransaction = (transaction: GroupTransaction) => {
-    return (
-      userRole === "owner" ||
-      userRole === "admin" ||
+  const canCreateTransaction = hasGroupPermission(access, "createTransaction");
+  const canChangeTransaction = (
+    action: "edit" | "delete",
+    transaction: GroupTransaction
+  ) =>
+    canChangeGroupItem(
+      access,
+      action,
+      "Transaction",
       transaction.created_by === user?.id
     );
-  };
 
   const handleOpenForm = (transaction?: GroupTransaction) => {
     setSelectedTransaction(transaction || null);
@@ -113,15 +132,22 @@ export function GroupTransactions({
       setSelectedTransaction(null);
     } catch (err) {
       console.error("Error deleting transaction:", err);
-      setError("Failed to delete transaction. Please try again.");
+      setError(t("groups.transactions.deleteFailed"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const paidByName = (transaction: GroupTransaction) => {
+    const payer = members.find(
+      (member) => member.user_id === transaction.paid_by
+    );
+    return payer?.user?.user_profiles?.full_name || t("groups.activity.unknownUser");
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return new Intl.DateTimeFormat(undefined, {
+    return new Intl.DateTimeFormat(getLocale(), {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -129,7 +155,7 @@ export function GroupTransactions({
   };
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat(undefined, {
+    return new Intl.NumberFormat(getLocale(), {
       style: "currency",
       currency: "USD",
     }).format(amount);
@@ -139,11 +165,11 @@ export function GroupTransactions({
     <div className="space-y-4">
       {!compact && (
         <div className="flex justify-between items-center">
-          <h2 className="text-xl font-semibold">Transactions</h2>
+          <h2 className="text-xl font-semibold">{t("transactions.title")}</h2>
           {canCreateTransaction && (
             <Button onClick={() => handleOpenForm()}>
               <Plus className="mr-2 h-4 w-4" />
-              Add Transaction
+              {t("transactions.add")}
             </Button>
           )}
         </div>
@@ -163,15 +189,14 @@ export function GroupTransactions({
                 <div className="rounded-full bg-blue-50 p-3">
                   <Receipt className="h-8 w-8 text-blue-500" />
                 </div>
-                <h3 className="text-lg font-medium">No transactions found</h3>
+                <h3 className="text-lg font-medium">{t("groups.transactions.empty")}</h3>
                 <p className="text-muted-foreground max-w-sm mx-auto mb-2">
-                  Start tracking your group's expenses and income by adding your
-                  first transaction.
+                  {t("groups.transactions.emptyHelp")}
                 </p>
                 {canCreateTransaction && (
                   <Button onClick={() => handleOpenForm()} className="mt-2">
                     <Plus className="mr-2 h-4 w-4" />
-                    Add Transaction
+                    {t("transactions.add")}
                   </Button>
                 )}
               </div>
@@ -180,13 +205,15 @@ export function GroupTransactions({
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Description</TableHead>
-                  {!compact && <TableHead>Category</TableHead>}
-                  <TableHead>Amount</TableHead>
-                  {!compact && <TableHead>Created By</TableHead>}
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("common.description")}</TableHead>
+                  {!compact && <TableHead>{t("common.category")}</TableHead>}
+                  <TableHead>{t("common.amount")}</TableHead>
+                  {!compact && <TableHead>{t("groups.transactions.createdBy")}</TableHead>}
                   {!compact && (
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead className="text-right">
+                      {t("common.actions")}
+                    </TableHead>
                   )}
                 </TableRow>
               </TableHeader>
@@ -202,8 +229,34 @@ export function GroupTransactions({
                           <ArrowUpCircle className="h-4 w-4 text-green-500" />
                         )}
                         <span>
-                          {transaction.description || "No description"}
+                          {transaction.description || t("transactions.noDescription")}
                         </span>
+                        {transaction.split_method && (
+                          <Badge
+                            variant="secondary"
+                            title={t("groups.splits.paidByName", {
+                              name: paidByName(transaction),
+                            })}
+                          >
+                            {t(`groups.splits.methods.${transaction.split_method}`)}
+                          </Badge>
+                        )}
+                        {transaction.status === "pending" && (
+                          <Badge
+                            variant="outline"
+                            className="border-amber-500 text-amber-600"
+                          >
+                            {t("groups.approvals.statusPending")}
+                          </Badge>
+                        )}
+                        {transaction.status === "rejected" && (
+                          <Badge
+                            variant="destructive"
+                            title={transaction.review_comment || undefined}
+                          >
+                            {t("groups.approvals.statusRejected")}
+                          </Badge>
+                        )}
                       </div>
                     </TableCell>
                     {!compact && (
@@ -223,7 +276,7 @@ export function GroupTransactions({
                           </Badge>
                         ) : (
                           <span className="text-muted-foreground">
-                            Uncategorized
+                            {t("analytics.uncategorized")}
                           </span>
                         )}
                       </TableCell>
@@ -274,31 +327,36 @@ export function GroupTransactions({
                     )}
                     {!compact && (
                       <TableCell className="text-right">
-                        {canEditTransaction(transaction) && (
+                        {(canChangeTransaction("edit", transaction) ||
+                          canChangeTransaction("delete", transaction)) && (
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button variant="ghost" size="icon">
                                 <MoreHorizontal className="h-4 w-4" />
-                                <span className="sr-only">Actions</span>
+                                <span className="sr-only">{t("common.actions")}</span>
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem
-                                onClick={() => handleOpenForm(transaction)}
-                              >
-                                <Edit className="mr-2 h-4 w-4" />
-                                Edit
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => {
-                                  setSelectedTransaction(transaction);
-                                  setIsDeleteDialogOpen(true);
-                                }}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <Trash2 className="mr-2 h-4 w-4" />
-                                Delete
-                              </DropdownMenuItem>
+                              {canChangeTransaction("edit", transaction) && (
+                                <DropdownMenuItem
+                                  onClick={() => handleOpenForm(transaction)}
+                                >
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  {t("common.edit")}
+                                </DropdownMenuItem>
+                              )}
+                              {canChangeTransaction("delete", transaction) && (
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setSelectedTransaction(transaction);
+                                    setIsDeleteDialogOpen(true);
+                                  }}
+                                  className="text-destructive focus:text-destructive"
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  {t("common.delete")}
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         )}
@@ -317,13 +375,17 @@ export function GroupTransactions({
         <SheetContent side="right" className="p-0 sm:max-w-md">
           <SheetHeader className="p-6 pb-2">
             <SheetTitle>
-              {selectedTransaction ? "Edit Transaction" : "Add Transaction"}
+              {selectedTransaction
+                ? t("transactions.edit")
+                : t("transactions.add")}
             </SheetTitle>
             <SheetClose className="absolute top-4 right-4" />
           </SheetHeader>
           <div className="px-6 pb-6">
             <GroupTransactionForm
               groupId={groupId}
+              members={members}
+              access={access}
               transaction={selectedTransaction || undefined}
               onSuccess={() => {
                 setIsFormDialogOpen(false);
@@ -338,10 +400,9 @@ export function GroupTransactions({
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Transaction</DialogTitle>
+            <DialogTitle>{t("transactions.deleteTitle")}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this transaction? This action
-              cannot be undone.
+              {t("transactions.deleteConfirm")}
             </DialogDescription>
           </DialogHeader>
 
@@ -351,14 +412,14 @@ export function GroupTransactions({
               onClick={() => setIsDeleteDialogOpen(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               variant="destructive"
               onClick={handleDeleteTransaction}
               disabled={isLoading}
             >
-              {isLoading ? "Deleting..." : "Delete"}
+              {isLoading ? t("common.deleting") : t("common.delete")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-// Translation imports removed
+import { useLanguage } from "../../../providers/languageUtils";
 import { useAuth } from "../../../state/useAuth";
 import {
   Dialog,
@@ -22,11 +22,16 @@ import {
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { createInvitation } from "../../../api/supabase/budgetGroups";
+import {
+  getAssignableGroupRoles,
+  type GroupAccess,
+} from "../../../api/supabase/groupPermissions";
 
 interface InviteMemberDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   groupId: string;
+  access: GroupAccess;
   onInvite?: () => void;
 }
 
@@ -34,9 +39,10 @@ export function InviteMemberDialog({
   open,
   onOpenChange,
   groupId,
+  access,
   onInvite,
 }: InviteMemberDialogProps) {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [email, setEmail] = useState("");
   const [role, setRole] = useState<"admin" | "member" | "viewer">("member");
@@ -81,12 +87,12 @@ export function InviteMemberDialog({
       const { error } = await createInvitation(invitationData);
 
       if (error) {
-        setError("Failed to send invitation. Please try again.");
+        setError(t("groups.invite.failed"));
         setIsLoading(false);
         return;
       }
 
-      setSuccess("Invitation sent successfully!");
+      setSuccess(t("groups.invite.success"));
       setInvitedEmail(email);
       setEmail("");
       if (onInvite) onInvite();
@@ -98,7 +104,7 @@ export function InviteMemberDialog({
       }, 2000);
     } catch (err) {
       console.error("Error sending invitation:", err);
-      setError("Failed to send invitation. Please try again.");
+      setError(t("groups.invite.failed"));
       // Do not close dialog, keep it open for user to retry
     } finally {
       setIsLoading(false);
@@ -126,9 +132,9 @@ export function InviteMemberDialog({
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Invite Member</DialogTitle>
+          <DialogTitle>{t("groups.invite.title")}</DialogTitle>
           <DialogDescription>
-            Invite someone to join this budget group
+            {t("groups.invite.description")}
           </DialogDescription>
         </DialogHeader>
 
@@ -149,13 +155,10 @@ export function InviteMemberDialog({
                 {invitedEmail && (
                   <div className="text-sm">
                     <p>
-                      An invitation email has been sent to:{" "}
+                      {t("groups.invite.sentTo")}{" "}
                       <strong>{invitedEmail}</strong>
                     </p>
-                    <p>
-                      The user will also see the invitation when they log in.
-                      The invitation will expire in 7 days.
-                    </p>
+                    <p>{t("groups.invite.expiryNote")}</p>
                   </div>
                 )}
               </AlertDescription>
@@ -163,19 +166,19 @@ export function InviteMemberDialog({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
+            <Label htmlFor="email">{t("groups.invite.email")}</Label>
             <Input
               id="email"
               type="email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
-              placeholder="Enter email address"
+              placeholder={t("groups.invite.emailPlaceholder")}
               required
             />
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="role">Role</Label>
+            <Label htmlFor="role">{t("groups.invite.role")}</Label>
             <Select
               value={role}
               onValueChange={(value) =>
@@ -183,20 +186,18 @@ export function InviteMemberDialog({
               }
             >
               <SelectTrigger id="role">
-                <SelectValue placeholder="Select a role" />
+                <SelectValue placeholder={t("groups.invite.selectRole")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="admin">Admin</SelectItem>
-                <SelectItem value="member">Member</SelectItem>
-                <SelectItem value="viewer">Viewer</SelectItem>
+                {getAssignableGroupRoles(access).map((assignable) => (
+                  <SelectItem key={assignable} value={assignable}>
+                    {t(`groups.roles.${assignable}`)}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground mt-1">
-              {role === "admin"
-                ? "Can manage group settings and members"
-                : role === "member"
-                ? "Can add transactions and view all data"
-                : "Can only view group data"}
+              {t(`groups.roleDescriptions.${role}`)}
             </p>
           </div>
 
@@ -207,12 +208,14 @@ export function InviteMemberDialog({
                 checked={isFamily}
                 onCheckedChange={(checked) => setIsFamily(checked === true)}
               />
-              <Label htmlFor="is-family">This is a family member</Label>
+              <Label htmlFor="is-family">{t("groups.invite.isFamily")}</Label>
             </div>
 
             {isFamily && (
               <div className="space-y-2 mt-4">
-                <Label htmlFor="family-role">Family Role</Label>
+                <Label htmlFor="family-role">
+                  {t("groups.invite.familyRole")}
+                </Label>
                 <Select
                   value={familyRole}
                   onValueChange={(value) =>
@@ -222,24 +225,28 @@ export function InviteMemberDialog({
                   }
                 >
                   <SelectTrigger id="family-role">
-                    <SelectValue placeholder="Select a family role" />
+                    <SelectValue
+                      placeholder={t("groups.invite.selectFamilyRole")}
+                    />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="parent">Parent</SelectItem>
-                    <SelectItem value="child">Child</SelectItem>
-                    <SelectItem value="guardian">Guardian</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="parent">
+                      {t("groups.familyRoles.parent")}
+                    </SelectItem>
+                    <SelectItem value="child">
+                      {t("groups.familyRoles.child")}
+                    </SelectItem>
+                    <SelectItem value="guardian">
+                      {t("groups.familyRoles.guardian")}
+                    </SelectItem>
+                    <SelectItem value="other">
+                      {t("groups.familyRoles.other")}
+                    </SelectItem>
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {familyRole === "parent"
-                    ? "Full access to manage family finances and children's accounts"
-                    : familyRole === "child"
-                    ? "Limited access based on parent settings"
-                    : familyRole === "guardian"
-                    ? "Similar to parent but with some restrictions"
-                    : familyRole === "other"
-                    ? "Custom role with specific permissions"
+                  {familyRole
+                    ? t(`groups.familyRoleDescriptions.${familyRole}`)
                     : ""}
                 </p>
               </div>
@@ -253,10 +260,10 @@ export function InviteMemberDialog({
               onClick={() => handleOpenChange(false)}
               disabled={isLoading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button type="submit" disabled={isLoading || !email}>
-              {isLoading ? "Sending..." : "Send Invitation"}
+              {isLoading ? t("groups.invite.sending") : t("groups.invite.send")}
             </Button>
           </DialogFooter>
         </form>
@@ -1,70 +1,207 @@
-import { useEffect } from "react";
+import { useEffect, useId, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
 import { supabase } from "@/api/supabase/client";
+import type { Database } from "@/lib/database.types";
+
+type Tables = Database["public"]["Tables"];
+
+export type GroupTransactionChange = RealtimePostgresChangesPayload<
+  Tables["group_transactions"]["Row"]
+>;
+export type GroupBudgetChange = RealtimePostgresChangesPayload<
+  Tables["group_budgets"]["Row"]
+>;
+
+/**
+ * Patch a list with a realtime change: an inserted or updated row is put in
+ * place of the item with the same ID, or added, and a deleted row is removed.
+ * Without a row for an insert or update the list is left as it is. Pass a
+ * compare function to keep the list sorted.
+ */
+export function patchRealtimeList<T extends { id: string }>(
+  items: T[],
+  change: { eventType: "INSERT" | "UPDATE" | "DELETE"; id: string },
+  item?: T,
+  compare?: (a: T, b: T) => number
+): T[] {
+  if (change.eventType !== "DELETE" && !item) return items;
+
+  const rest = items.filter((existing) => existing.id !== change.id);
+  if (change.eventType === "DELETE" || !item) return rest;
+
+  const next = [...rest, item];
+  return compare ? next.sort(compare) : next;
+}
+
+/**
+ * Get the ID of the row a realtime change is about
+ */
+export function getRealtimeChangeId(
+  change: RealtimePostgresChangesPayload<{ id: string }>
+): string {
+  return change.eventType === "DELETE"
+    ? (change.old.id as string)
+    : change.new.id;
+}
 
 /**
  * Hook for subscribing to real-time updates for a group.
- * Calls the provided callbacks on data changes for members, activity, or group info.
+ * Calls the provided callbacks on data changes for members, activity, group
+ * info, transactions and budgets. With a presence user ID the user is shown as
+ * viewing the group, and the IDs of everyone viewing it are returned.
  */
 export function useGroupRealtime({
   groupId,
   onMembers,
   onActivity,
   onGroupInfo,
+  onTransactionChange,
+  onBudgetChange,
+  presenceUserId,
 }: {
   groupId: string;
   onMembers?: () => void;
   onActivity?: () => void;
   onGroupInfo?: () => void;
+  onTransactionChange?: (change: GroupTransactionChange) => void;
+  onBudgetChange?: (change: GroupBudgetChange) => void;
+  presenceUserId?: string;
 }) {
+  // Every component using the hook gets its own channels; joining a channel
+  // twice closes the first one
+  const instanceId = useId();
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+
+  // Callbacks are read through a ref, so passing new functions on every
+  // render doesn't resubscribe
+  const callbacks = useRef({
+    onMembers,
+    onActivity,
+    onGroupInfo,
+    onTransactionChange,
+    onBudgetChange,
+  });
+  callbacks.current = {
+    onMembers,
+    onActivity,
+    onGroupInfo,
+    onTransactionChange,
+    onBudgetChange,
+  };
+
+  const hasMembers = !!onMembers;
+  const hasActivity = !!onActivity;
+  const hasGroupInfo = !!onGroupInfo;
+  const hasTransactions = !!onTransactionChange;
+  const hasBudgets = !!onBudgetChange;
+
   useEffect(() => {
     if (!groupId) return;
     // Using RealtimeChannel type for Supabase channels
     const channels: Array<{ unsubscribe: () => void }> = [];
+    const name = (prefix: string) => `${prefix}-${groupId}-${instanceId}`;
 
     // Members
-    if (onMembers) {
+    if (hasMembers) {
       const memberChannel = supabase
-        .channel(`group-members-${groupId}`)
+        .channel(name("group-members"))
         .on(
           'postgres_changes',
           { event: '*', schema: 'public', table: 'group_members', filter: `group_id=eq.${groupId}` },
           () => {
-            onMembers();
+            callbacks.current.onMembers?.();
           }
         )
         .subscribe();
       channels.push(memberChannel);
     }
     // Activity
-    if (onActivity) {
+    if (hasActivity) {
       const activityChannel = supabase
-        .channel(`group-activity-${groupId}`)
+        .channel(name("group-activity"))
         .on(
           'postgres_changes',
-          { event: '*', schema: 'public', table: 'group_activity', filter: `group_id=eq.${groupId}` },
+          { event: '*', schema: 'public', table: 'group_activity_log', filter: `group_id=eq.${groupId}` },
           () => {
-            onActivity();
+            callbacks.current.onActivity?.();
           }
         )
         .subscribe();
       channels.push(activityChannel);
     }
     // Group Info
-    if (onGroupInfo) {
+    if (hasGroupInfo) {
       const groupChannel = supabase
-        .channel(`budget-groups-${groupId}`)
+        .channel(name("budget-groups"))
         .on(
           'postgres_changes',
           { event: '*', schema: 'public', table: 'budget_groups', filter: `id=eq.${groupId}` },
           () => {
-            onGroupInfo();
+            callbacks.current.onGroupInfo?.();
           }
         )
         .subscribe();
       channels.push(groupChannel);
     }
+    // Transactions
+    if (hasTransactions) {
+      const transactionChannel = supabase
+        .channel(name("group-transactions"))
+        .on<Tables["group_transactions"]["Row"]>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'group_transactions', filter: `group_id=eq.${groupId}` },
+          (change) => {
+            callbacks.current.onTransactionChange?.(change);
+          }
+        )
+        .subscribe();
+      channels.push(transactionChannel);
+    }
+    // Budgets
+    if (hasBudgets) {
+      const budgetChannel = supabase
+        .channel(name("group-budgets"))
+        .on<Tables["group_budgets"]["Row"]>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'group_budgets', filter: `group_id=eq.${groupId}` },
+          (change) => {
+            callbacks.current.onBudgetChange?.(change);
+          }
+        )
+        .subscribe();
+      channels.push(budgetChannel);
+    }
+    // Presence. Everyone viewing the group shares this channel, so only one
+    // component per page should track presence.
+    if (presenceUserId) {
+      const presenceChannel = supabase.channel(`group-presence-${groupId}`, {
+        config: { presence: { key: presenceUserId } },
+      });
+      presenceChannel
+        .on('presence', { event: 'sync' }, () => {
+          setOnlineUserIds(Object.keys(presenceChannel.presenceState()));
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            presenceChannel.track({ online_at: new Date().toISOString() });
+          }
+        });
+      channels.push(presenceChannel);
+    }
     return () => {
       channels.forEach((ch) => ch.unsubscribe());
+      setOnlineUserIds([]);
     };
-  }, [groupId, onMembers, onActivity, onGroupInfo]);
+  }, [
+    groupId,
+    instanceId,
+    hasMembers,
+    hasActivity,
+    hasGroupInfo,
+    hasTransactions,
+    hasBudgets,
+    presenceUserId,
+  ]);
+
+  return { onlineUserIds };
 }
@@ -1,7 +1,13 @@
-import { useState, useEffect } from "react";
-import { useGroupRealtime } from "../hooks/useGroupRealtime";
+import { useState, useEffect, useMemo } from "react";
+import {
+  useGroupRealtime,
+  patchRealtimeList,
+  getRealtimeChangeId,
+  type GroupTransactionChange,
+  type GroupBudgetChange,
+} from "../hooks/useGroupRealtime";
 import { useParams, useNavigate } from "react-router-dom";
-// Translation imports removed
+import { useLanguage } from "../../../providers/languageUtils";
 import { useAuth } from "../../../state/useAuth";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -18,6 +24,7 @@ import {
   UserPlus,
   Calendar,
   Activity,
+  Scale,
 } from "lucide-react";
 import {
   getBudgetGroup,
@@ -27,17 +34,31 @@ import {
 } from "../../../api/supabase/budgetGroups";
 import {
   getGroupTransactions,
-  getGroupTransactionsSummary,
+  getGroupTransaction,
+  summarizeGroupTransactions,
 } from "../../../api/supabase/groupTransactions";
 import {
   getGroupBudgets,
 } from "../../../api/supabase/groupBudgets";
+import {
+  getGroupApprovalRules,
+  getGroupChildLimits,
+  hasGroupPermission,
+  type GroupAccess,
+  type GroupFamilyRole,
+  type GroupRole,
+} from "../../../api/supabase/groupPermissions";
+import type { Json } from "../../../lib/database.types";
 import { GroupMembers } from "../components/GroupMembers";
 import { GroupTransactions } from "../components/GroupTransactions";
 import { GroupBudgets } from "../components/GroupBudgets";
+import { GroupBalances } from "../components/GroupBalances";
 import { GroupSettings } from "../components/GroupSettings";
 import { GroupActivityFeed } from "../components/GroupActivityFeed";
+import { GroupPresence } from "../components/GroupPresence";
+import { GroupApprovals } from "../components/GroupApprovals";
 import { InviteMemberDialog } from "../components/InviteMemberDialog";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
 
 // Define TypeScript interfaces for our data structures
 interface BudgetGroup {
@@ -47,6 +68,8 @@ interface BudgetGroup {
   created_by: string;
   is_active: boolean;
   avatar_url: string | null;
+  child_limits?: Json;
+  approval_rules?: Json;
   created_at: string;
   updated_at: string;
 }
@@ -77,8 +100,10 @@ interface GroupTransaction {
   date: string;
   type: "expense" | "income";
   payment_method: string | null;
-  status: string | null;
+  status: "pending" | "completed" | "cancelled" | "rejected";
   notes: string | null;
+  paid_by: string | null;
+  split_method: string | null;
   created_at: string;
   updated_at: string;
   creator?: {
@@ -112,25 +137,19 @@ interface GroupActivity {
   } | null;
 }
 
-interface TransactionSummary {
-  totalIncome: number;
-  totalExpenses: number;
-  balance: number;
-}
-
 export function GroupPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [group, setGroup] = useState<BudgetGroup | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [transactions, setTransactions] = useState<GroupTransaction[]>([]);
   const [budgets, setBudgets] = useState<GroupBudget[]>([]);
   const [activity, setActivity] = useState<GroupActivity[]>([]);
-  const [summary, setSummary] = useState<TransactionSummary | null>(null);
-  const [userRole, setUserRole] = useState<string | null>(null);
-  // Family role will be used in future updates
-  const [, setUserFamilyRole] = useState<string | null>(null);
+  const [userRole, setUserRole] = useState<GroupRole | null>(null);
+  const [userFamilyRole, setUserFamilyRole] =
+    useState<GroupFamilyRole | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
@@ -151,7 +170,7 @@ export function GroupPage() {
       }
       if (!groupData) {
         console.error("Group not found");
-        throw new Error("Group not found");
+        throw new Error(t("groups.detail.notFound"));
       }
       setGroup(groupData);
       
@@ -221,17 +240,9 @@ export function GroupPage() {
       } catch (activityErr) {
         console.warn("Non-critical: Exception fetching activity:", activityErr);
       }
-      
-      // Fetch transactions summary
-      const { data: summaryData, error: summaryError } = await getGroupTransactionsSummary(id);
-      if (summaryError) {
-        console.error("Error fetching transactions summary:", summaryError);
-        throw summaryError;
-      }
-      setSummary(summaryData);
     } catch (err) {
       console.error("Error fetching group data:", err);
-      setError("Failed to load group data. Please try again.");
+      setError(t("groups.detail.loadFailed"));
     } finally {
       setIsLoading(false);
     }
@@ -241,12 +252,88 @@ export function GroupPage() {
     fetchGroupData();
   }, [user, id]);
 
-  // Real-time updates for group, members, and activity
-  useGroupRealtime({
+  // Totals follow the transactions, so they stay current with realtime changes
+  const summary = useMemo(
+    () => summarizeGroupTransactions(transactions),
+    [transactions]
+  );
+
+  const refreshGroup = async () => {
+    const { data, error } = await getBudgetGroup(id || "");
+    if (error) {
+      console.warn("Error refreshing group details:", error);
+    } else if (data) {
+      setGroup(data);
+    }
+  };
+
+  const refreshMembers = async () => {
+    const { data, error } = await getGroupMembers(id || "");
+    if (error) {
+      console.warn("Error refreshing group members:", error);
+    } else {
+      setMembers((data || []) as unknown as GroupMember[]);
+    }
+  };
+
+  const refreshActivity = async () => {
+    const { data, error } = await getGroupActivity(id || "");
+    if (error) {
+      console.warn("Error refreshing group activity:", error);
+    } else {
+      setActivity((data || []) as unknown as GroupActivity[]);
+    }
+  };
+
+  const handleRealtimeTransaction = async (change: GroupTransactionChange) => {
+    const transactionId = getRealtimeChangeId(change);
+    let transaction: GroupTransaction | undefined;
+    if (change.eventType !== "DELETE") {
+      // The change doesn't include the category and creator
+      const { data, error } = await getGroupTransaction(transactionId);
+      if (error) console.warn("Error loading changed transaction:", error);
+      transaction = (data || undefined) as GroupTransaction | undefined;
+    }
+    setTransactions((current) => {
+      // If the full row couldn't be loaded, keep the row with the columns the
+      // change does include instead of dropping it
+      const item =
+        transaction ??
+        (change.eventType === "DELETE"
+          ? undefined
+          : ({
+              ...current.find((existing) => existing.id === transactionId),
+              ...change.new,
+            } as GroupTransaction));
+      return patchRealtimeList(
+        current,
+        { eventType: change.eventType, id: transactionId },
+        item,
+        (a, b) => b.date.localeCompare(a.date)
+      );
+    });
+  };
+
+  const handleRealtimeBudget = (change: GroupBudgetChange) => {
+    setBudgets((current) =>
+      patchRealtimeList(
+        current,
+        { eventType: change.eventType, id: getRealtimeChangeId(change) },
+        change.eventType === "DELETE" ? undefined : change.new,
+        (a, b) => a.name.localeCompare(b.name)
+      )
+    );
+  };
+
+  // Real-time updates for everything on the page, and who else is viewing it
+  const { onlineUserIds } = useGroupRealtime({
     groupId: id || "",
-    onMembers: fetchGroupData,
-    onActivity: fetchGroupData,
-    onGroupInfo: fetchGroupData,
+    onMembers: refreshMembers,
+    onActivity: refreshActivity,
+    onGroupInfo: refreshGroup,
+    onTransactionChange: handleRealtimeTransaction,
+    onBudgetChange: handleRealtimeBudget,
+    presenceUserId: user?.id,
   });
 
   const handleInviteMember = async () => {
@@ -258,7 +345,7 @@ export function GroupPage() {
       setIsInviteDialogOpen(false);
     } catch (err) {
       console.error("Error refreshing members:", err);
-      setError("Failed to refresh members. Please try again.");
+      setError(t("groups.detail.refreshMembersFailed"));
     }
   };
 
@@ -271,13 +358,9 @@ export function GroupPage() {
       const { data: transactionsData, error: transactionsError } = await getGroupTransactions(id || "");
       if (transactionsError) throw transactionsError;
       setTransactions((transactionsData || []) as unknown as GroupTransaction[]);
-
-      const { data: summaryData, error: summaryError } = await getGroupTransactionsSummary(id || "");
-      if (summaryError) throw summaryError;
-      setSummary(summaryData);
     } catch (err) {
       console.error("Error refreshing transactions:", err);
-      setError("Failed to refresh transactions. Please try again.");
+      setError(t("groups.detail.refreshTransactionsFailed"));
     }
   };
 
@@ -304,11 +387,21 @@ export function GroupPage() {
       setBudgets(convertedBudgets as unknown as GroupBudget[]);
     } catch (err) {
       console.error("Error refreshing budgets:", err);
-      setError("Failed to refresh budgets. Please try again.");
+      setError(t("groups.detail.refreshBudgetsFailed"));
     }
   };
 
-  const isAdmin = userRole === "owner" || userRole === "admin";
+  const access = useMemo<GroupAccess>(
+    () => ({
+      role: userRole,
+      familyRole: userFamilyRole,
+      childLimits: getGroupChildLimits(group?.child_limits),
+      approvalRules: getGroupApprovalRules(group?.approval_rules),
+    }),
+    [userRole, userFamilyRole, group?.child_limits, group?.approval_rules]
+  );
+  const canInvite = hasGroupPermission(access, "inviteMembers");
+  const canManageSettings = hasGroupPermission(access, "editSettings");
 
   if (isLoading) {
     return (
@@ -316,7 +409,7 @@ export function GroupPage() {
         <div className="flex items-center space-x-4">
           <Button variant="ghost" size="sm" onClick={() => navigate("/groups")}>
             <ArrowLeft className="mr-2 h-4 w-4" />
-            {"Back"}
+            {t("common.back")}
           </Button>
         </div>
         <div className="space-y-4">
@@ -334,14 +427,14 @@ export function GroupPage() {
         <div className="flex items-center space-x-4">
           <Button variant="ghost" size="sm" onClick={() => navigate("/groups")}>
             <ArrowLeft className="mr-2 h-4 w-4" />
-            {"Back"}
+            {t("common.back")}
           </Button>
         </div>
         <Alert variant="destructive">
-          <AlertTitle>Error</AlertTitle>
+          <AlertTitle>{t("common.error")}</AlertTitle>
           <AlertDescription>{error}</AlertDescription>
         </Alert>
-        <Button onClick={() => fetchGroupData()}>Retry</Button>
+        <Button onClick={() => fetchGroupData()}>{t("common.retry")}</Button>
       </div>
     );
   }
@@ -351,7 +444,7 @@ export function GroupPage() {
       <div className="flex items-center space-x-4">
         <Button variant="ghost" size="sm" onClick={() => navigate("/groups")}>
           <ArrowLeft className="mr-2 h-4 w-4" />
-          {"Back"}
+          {t("common.back")}
         </Button>
       </div>
 
@@ -380,7 +473,7 @@ export function GroupPage() {
                 {group?.name}
               </h1>
               <p className="text-white/80 drop-shadow-md">
-                {group?.description || "No description"}
+                {group?.description || t("groups.noDescription")}
               </p>
             </div>
           </div>
@@ -395,68 +488,109 @@ export function GroupPage() {
         <div className="flex flex-col md:flex-row gap-2 md:items-center">
           <div className="flex items-center">
             <Badge variant="outline" className="mr-2">
-              Created {new Date(group?.created_at || "").toLocaleDateString()}
+              {t("groups.detail.created", {
+                date: group ? formatDate(group.created_at, "short") : "",
+              })}
             </Badge>
             {userRole && (
               <Badge className="bg-purple-500">
-                {userRole.charAt(0).toUpperCase() + userRole.slice(1)}
+                {t(`groups.roles.${userRole as GroupMember["role"]}`)}
               </Badge>
             )}
           </div>
           
-          {summary && (
-            <div className="flex gap-2 text-sm">
-              <span className="text-green-600">
-                Income: ${summary.totalIncome.toFixed(2)}
-              </span>
-              <span className="text-red-600">
-                Expenses: ${summary.totalExpenses.toFixed(2)}
-              </span>
-              <span className="font-medium">
-                Balance: ${summary.balance.toFixed(2)}
-              </span>
-            </div>
-          )}
+          <div className="flex gap-2 text-sm">
+            <span className="text-green-600">
+              {t("analytics.valueLine", {
+                label: t("common.income"),
+                value: formatCurrency(summary.totalIncome),
+              })}
+            </span>
+            <span className="text-red-600">
+              {t("analytics.valueLine", {
+                label: t("analytics.expenses"),
+                value: formatCurrency(summary.totalExpenses),
+              })}
+            </span>
+            <span className="font-medium">
+              {t("analytics.valueLine", {
+                label: t("groups.detail.balance"),
+                value: formatCurrency(summary.balance),
+              })}
+            </span>
+          </div>
         </div>
 
-        {isAdmin && (
-          <Button
-            onClick={() => setIsInviteDialogOpen(true)}
-            className="bg-purple-600 hover:bg-purple-700"
-          >
-            <UserPlus className="mr-2 h-4 w-4" />
-            Invite Member
-          </Button>
-        )}
+        <div className="flex items-center gap-4">
+          <GroupPresence
+            members={members}
+            onlineUserIds={onlineUserIds}
+            currentUserId={user?.id || ""}
+          />
+          {canInvite && (
+            <Button
+              onClick={() => setIsInviteDialogOpen(true)}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              {t("groups.invite.title")}
+            </Button>
+          )}
+        </div>
       </div>
 
+      <GroupApprovals
+        members={members}
+        transactions={transactions}
+        access={access}
+        currentUserId={user?.id || ""}
+        onChange={handleTransactionChange}
+      />
+
       <Tabs defaultValue="transactions">
-        <TabsList className="grid grid-cols-2 md:grid-cols-5 w-full">
+        <TabsList className="grid grid-cols-2 md:grid-cols-6 w-full">
           <TabsTrigger value="transactions">
             <Receipt className="mr-2 h-4 w-4" />
-            <span className="hidden md:inline">Transactions</span>
-            <span className="md:hidden">Trans</span>
+            <span className="hidden md:inline">
+              {t("transactions.title")}
+            </span>
+            <span className="md:hidden">
+              {t("groups.detail.tabs.transactionsShort")}
+            </span>
           </TabsTrigger>
           <TabsTrigger value="budgets">
             <Calendar className="mr-2 h-4 w-4" />
-            <span className="hidden md:inline">Budgets</span>
-            <span className="md:hidden">Budg</span>
+            <span className="hidden md:inline">
+              {t("groups.budgets.title")}
+            </span>
+            <span className="md:hidden">{t("groups.detail.tabs.budgetsShort")}</span>
+          </TabsTrigger>
+          <TabsTrigger value="balances">
+            <Scale className="mr-2 h-4 w-4" />
+            <span className="hidden md:inline">
+              {t("groups.balances.title")}
+            </span>
+            <span className="md:hidden">{t("groups.detail.tabs.balancesShort")}</span>
           </TabsTrigger>
           <TabsTrigger value="members">
             <Users className="mr-2 h-4 w-4" />
-            <span className="hidden md:inline">Members</span>
-            <span className="md:hidden">Memb</span>
+            <span className="hidden md:inline">
+              {t("groups.members.title")}
+            </span>
+            <span className="md:hidden">{t("groups.detail.tabs.membersShort")}</span>
           </TabsTrigger>
           <TabsTrigger value="activity">
             <Activity className="mr-2 h-4 w-4" />
-            <span className="hidden md:inline">Activity</span>
-            <span className="md:hidden">Act</span>
+            <span className="hidden md:inline">{t("groups.detail.tabs.activity")}</span>
+            <span className="md:hidden">{t("groups.detail.tabs.activityShort")}</span>
           </TabsTrigger>
-          {isAdmin && (
+          {canManageSettings && (
             <TabsTrigger value="settings">
               <Settings className="mr-2 h-4 w-4" />
-              <span className="hidden md:inline">Settings</span>
-              <span className="md:hidden">Set</span>
+              <span className="hidden md:inline">{t("nav.settings")}</span>
+              <span className="md:hidden">
+                {t("groups.detail.tabs.settingsShort")}
+              </span>
             </TabsTrigger>
           )}
         </TabsList>
@@ -464,9 +598,10 @@ export function GroupPage() {
         <TabsContent value="transactions" className="mt-6">
           <GroupTransactions
             groupId={id || ""}
+            members={members}
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             transactions={transactions as any}
-            userRole={userRole || ""}
+            access={access}
             onChange={handleTransactionChange}
           />
         </TabsContent>
@@ -476,30 +611,46 @@ export function GroupPage() {
             groupId={id || ""}
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             budgets={budgets as any}
-            userRole={userRole || ""}
+            access={access}
             onChange={handleBudgetChange}
           />
         </TabsContent>
 
+        <TabsContent value="balances" className="mt-6">
+          <GroupBalances
+            groupId={id || ""}
+            members={members}
+            transactions={transactions}
+            access={access}
+            currentUserId={user?.id || ""}
+          />
+        </TabsContent>
+
         <TabsContent value="members" className="mt-6">
           <GroupMembers
             groupId={id || ""}
             members={members}
-            userRole={userRole || ""}
+            access={access}
             currentUserId={user?.id || ""}
+            onlineUserIds={onlineUserIds}
           />
         </TabsContent>
 
         <TabsContent value="activity" className="mt-6">
-          <GroupActivityFeed groupId={id || ""} activity={activity} />
+          <GroupActivityFeed
+            groupId={id || ""}
+            activity={activity}
+            members={members}
+          />
         </TabsContent>
 
-        {isAdmin && (
+        {canManageSettings && (
           <TabsContent value="settings" className="mt-6">
             <GroupSettings 
               // Using type assertion to satisfy the component props requirement
               group={group as unknown as import("../../../api/supabase/budgetGroups").BudgetGroup} 
               onUpdateGroup={handleUpdateGroup} 
+              access={access}
             />
           </TabsContent>
         )}
@@ -509,6 +660,7 @@ export function GroupPage() {
         open={isInviteDialogOpen}
         onOpenChange={setIsInviteDialogOpen}
         groupId={id || ""}
+        access={access}
         onInvite={handleInviteMember}
       />
     </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-// Translation imports removed
+import { useLanguage } from "../../../providers/languageUtils";
 import { useAuth } from "../../../state/useAuth";
 
 import { Button } from "@/components/ui/button";
@@ -25,11 +25,12 @@ import { Skeleton } from "@/components/ui/skeleton";
 import type {
   BudgetGroup,
   GroupInvitation,
+  GroupMember,
 } from "../../../api/supabase/budgetGroups";
 
 // Define component-specific types that match the component interfaces
 interface Group extends BudgetGroup {
-  role: string;
+  role: GroupMember["role"];
 }
 
 interface Invitation extends Omit<GroupInvitation, "role" | "status"> {
@@ -51,7 +52,7 @@ interface Invitation extends Omit<GroupInvitation, "role" | "status"> {
 }
 
 export function GroupsPage() {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const { user } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
 
@@ -80,9 +81,9 @@ export function GroupsPage() {
         if (groupsError) {
           console.error("Error fetching budget groups:", groupsError);
           setError(
-            `Failed to load groups: ${
-              groupsError.message || "Please try again."
-            }`
+            t("groups.page.loadFailed", {
+              message: groupsError.message || t("groups.errors.tryAgain"),
+            })
           );
           setGroups([]);
         } else {
@@ -107,9 +108,9 @@ export function GroupsPage() {
       } catch (err) {
         console.error("Error fetching groups data:", err);
         setError(
-          `Failed to load groups: ${
-            (err as Error).message || "Please try again."
-          }`
+          t("groups.page.loadFailed", {
+            message: (err as Error).message || t("groups.errors.tryAgain"),
+          })
         );
         setGroups([]);
         setInvitations([]);
@@ -119,7 +120,7 @@ export function GroupsPage() {
     }
 
     fetchData();
-  }, [user]);
+  }, [user, t]);
 
   // The newGroup parameter is not used because we refresh from the server
   const handleCreateGroup = async () => {
@@ -133,7 +134,9 @@ export function GroupsPage() {
       if (error) {
         console.error("Error refreshing groups:", error);
         setError(
-          `Failed to refresh groups: ${error.message || "Please try again."}`
+          t("groups.page.refreshFailed", {
+            message: error.message || t("groups.errors.tryAgain"),
+          })
         );
       } else {
         console.log("Groups refreshed successfully:", data);
@@ -144,9 +147,9 @@ export function GroupsPage() {
     } catch (err) {
       console.error("Error refreshing groups:", err);
       setError(
-        `Failed to refresh groups: ${
-          (err as Error).message || "Please try again."
-        }`
+        t("groups.page.refreshFailed", {
+          message: (err as Error).message || t("groups.errors.tryAgain"),
+        })
       );
     } finally {
       setIsLoading(false);
@@ -172,7 +175,7 @@ export function GroupsPage() {
       setGroups(groupsData || []);
     } catch (err) {
       console.error("Error refreshing data after accepting invitation:", err);
-      setError("Failed to refresh data. Please try again.");
+      setError(t("groups.page.refreshDataFailed"));
     }
   };
 
@@ -182,10 +185,8 @@ export function GroupsPage() {
         <div className="flex items-center gap-2">
           <Users className="h-6 w-6 text-blue-500" />
           <div>
-            <h2 className="text-2xl font-bold">Budget Groups</h2>
-            <p className="text-muted-foreground">
-              Manage your shared budgets and expenses with family and friends
-            </p>
+            <h2 className="text-2xl font-bold">{t("groups.page.title")}</h2>
+            <p className="text-muted-foreground">{t("groups.page.subtitle")}</p>
           </div>
         </div>
         <Button
@@ -193,13 +194,13 @@ export function GroupsPage() {
           className="bg-blue-600 hover:bg-blue-700"
         >
           <Plus className="mr-2 h-4 w-4" />
-          Create Group
+          {t("groups.create")}
         </Button>
       </div>
 
       {error && (
         <Alert variant="destructive">
-          <AlertTitle>Error</AlertTitle>
+          <AlertTitle>{t("common.error")}</AlertTitle>
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
@@ -211,14 +212,14 @@ export function GroupsPage() {
             className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700"
           >
             <Users className="mr-2 h-4 w-4" />
-            My Groups
+            {t("groups.page.myGroups")}
           </TabsTrigger>
           <TabsTrigger
             value="invitations"
             className="data-[state=active]:bg-purple-50 data-[state=active]:text-purple-700"
           >
             <UserPlus className="mr-2 h-4 w-4" />
-            Invitations
+            {t("groups.page.invitations")}
             {invitations.length > 0 && (
               <span className="ml-2 rounded-full bg-purple-600 text-white px-2 py-0.5 text-xs">
                 {invitations.length}
@@ -239,20 +240,20 @@ export function GroupsPage() {
           ) : (
             <Card>
               <CardHeader>
-                <CardTitle>No Groups</CardTitle>
+                <CardTitle>{t("groups.page.noGroups")}</CardTitle>
                 <CardDescription>
-                  You haven't joined any budget groups yet
+                  {t("groups.page.noGroupsDescription")}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground">
-                  Create a new group to start managing shared finances
+                  {t("groups.page.noGroupsHelp")}
                 </p>
               </CardContent>
               <CardFooter>
                 <Button onClick={() => setIsCreateDialogOpen(true)}>
                   <Plus className="mr-2 h-4 w-4" />
-                  Create Group
+                  {t("groups.create")}
                 </Button>
               </CardFooter>
             </Card>
@@ -273,15 +274,14 @@ export function GroupsPage() {
           ) : (
             <Card>
               <CardHeader>
-                <CardTitle>No Invitations</CardTitle>
+                <CardTitle>{t("groups.page.noInvitations")}</CardTitle>
                 <CardDescription>
-                  You don't have any pending group invitations
+                  {t("groups.page.noInvitationsDescription")}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-muted-foreground">
-                  When someone invites you to join their group, it will appear
-                  here
+                  {t("groups.page.noInvitationsHelp")}
                 </p>
               </CardContent>
             </Card>
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   createTag,
   updateTag,
@@ -43,6 +44,7 @@ const TAG_COLORS = [
 
 export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -60,12 +62,12 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
 
       // Validate form
       if (!name.trim()) {
-        setError("Please enter a tag name");
+        setError(t("tags.form.nameRequired"));
         return;
       }
 
       if (!color) {
-        setError("Please select a color");
+        setError(t("tags.form.colorRequired"));
         return;
       }
 
@@ -94,7 +96,7 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
       onClose();
     } catch (err) {
       console.error("Error saving tag:", err);
-      setError("Failed to save tag");
+      setError(t("tags.saveError"));
     } finally {
       setIsLoading(false);
     }
@@ -104,7 +106,7 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
     <div className="p-6 max-w-md w-full mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-semibold">
-          {tag ? "Edit Tag" : "Create Tag"}
+          {tag ? t("tags.edit") : t("tags.create")}
         </h2>
       </div>
 
@@ -118,20 +120,20 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Tag Name */}
         <div className="space-y-2">
-          <Label htmlFor="name">Tag Name</Label>
+          <Label htmlFor="name">{t("tags.form.name")}</Label>
           <Input
             type="text"
             id="name"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            placeholder="e.g., Vacation, Business, Personal"
+            placeholder={t("tags.form.namePlaceholder")}
             required
           />
         </div>
 
         {/* Color Selection */}
         <div className="space-y-2">
-          <Label>Tag Color</Label>
+          <Label>{t("tags.form.color")}</Label>
           <div className="grid grid-cols-6 gap-2">
             {TAG_COLORS.map((colorOption) => (
               <Button
@@ -146,7 +148,7 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
                 )}
                 style={{ backgroundColor: colorOption }}
                 onClick={() => setColor(colorOption)}
-                aria-label={`Select color ${colorOption}`}
+                aria-label={t("tags.form.selectColor", { color: colorOption })}
               />
             ))}
           </div>
@@ -154,23 +156,29 @@ export function TagForm({ tag, onClose, onSuccess }: TagFormProps) {
 
         {/* Preview */}
         <div className="space-y-2">
-          <Label>Preview</Label>
+          <Label>{t("tags.form.preview")}</Label>
           <div className="flex items-center space-x-2 p-2 border rounded-md">
             <div
               className="w-4 h-4 rounded-full"
               style={{ backgroundColor: color }}
             ></div>
-            <span className="text-sm font-medium">{name || "Tag Name"}</span>
+            <span className="text-sm font-medium">
+              {name || t("tags.form.name")}
+            </span>
           </div>
         </div>
 
         {/* Submit Button */}
         <div className="flex justify-end space-x-3 pt-4">
           <Button type="button" variant="outline" onClick={onClose}>
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button type="submit" disabled={isLoading}>
-            {isLoading ? "Saving..." : tag ? "Update Tag" : "Create Tag"}
+            {isLoading
+              ? t("common.saving")
+              : tag
+              ? t("tags.update")
+              : t("tags.create")}
           </Button>
         </div>
       </form>
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { getTags, deleteTag, Tag } from "../../../api/supabase/tags";
 import { TagModal } from "./TagModal";
+import { useLanguage } from "../../../providers/languageUtils";
 import { Edit, Trash2, Plus, Loader2, AlertCircle, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -30,6 +31,7 @@ export function TagList({
   className = "",
   onAddTag,
 }: TagListProps) {
+  const { t } = useLanguage();
   const [tags, setTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,14 +57,14 @@ export function TagList({
         setTags(data || []);
       } catch (err) {
         console.error("Error fetching tags:", err);
-        setError("Failed to load tags");
+        setError(t("tags.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTags();
-  }, []);
+  }, [t]);
 
   // Filter tags based on search query
   const filteredTags = tags.filter((tag) =>
@@ -98,12 +100,12 @@ export function TagList({
       if (error) throw error;
 
       // Remove from local state
-      setTags(tags.filter((t) => t.id !== tagToDelete));
+      setTags(tags.filter((tag) => tag.id !== tagToDelete));
       setIsDeleteConfirmOpen(false);
       setTagToDelete(null);
     } catch (err) {
       console.error("Error deleting tag:", err);
-      setError("Failed to delete tag");
+      setError(t("tags.deleteError"));
     }
   };
 
@@ -139,10 +141,10 @@ export function TagList({
     return (
       <Card className={className}>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-xl">Tags</CardTitle>
+          <CardTitle className="text-xl">{t("tags.title")}</CardTitle>
           {showAddButton && (
             <Button onClick={handleAddTag} size="sm">
-              <Plus size={16} className="mr-1" /> Add Tag
+              <Plus size={16} className="mr-1" /> {t("tags.add")}
             </Button>
           )}
         </CardHeader>
@@ -159,10 +161,10 @@ export function TagList({
     return (
       <Card className={className}>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-xl">Tags</CardTitle>
+          <CardTitle className="text-xl">{t("tags.title")}</CardTitle>
           {showAddButton && (
             <Button onClick={handleAddTag} size="sm">
-              <Plus size={16} className="mr-1" /> Add Tag
+              <Plus size={16} className="mr-1" /> {t("tags.add")}
             </Button>
           )}
         </CardHeader>
@@ -172,7 +174,7 @@ export function TagList({
             <AlertDescription>{error}</AlertDescription>
           </Alert>
           <Button variant="outline" onClick={handleTagSuccess}>
-            Try Again
+            {t("common.retry")}
           </Button>
         </CardContent>
       </Card>
@@ -182,10 +184,10 @@ export function TagList({
   return (
     <Card className={className}>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-xl">Tags</CardTitle>
+        <CardTitle className="text-xl">{t("tags.title")}</CardTitle>
         {showAddButton && (
           <Button onClick={handleAddTag} size="sm">
-            <Plus size={16} className="mr-1" /> Add Tag
+            <Plus size={16} className="mr-1" /> {t("tags.add")}
           </Button>
         )}
       </CardHeader>
@@ -194,7 +196,7 @@ export function TagList({
         <div className="mb-4 relative">
           <Input
             type="text"
-            placeholder="Search tags..."
+            placeholder={t("tags.search")}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -206,20 +208,20 @@ export function TagList({
         {filteredTags.length === 0 ? (
           <div className="p-6 text-center text-muted-foreground">
             {searchQuery ? (
-              <>No tags found matching "{searchQuery}"</>
+              t("tags.noMatches", { query: searchQuery })
             ) : (
               <>
-                No tags found.{" "}
+                {t("tags.empty")}{" "}
                 {showAddButton && (
                   <Button
                     onClick={handleAddTag}
                     variant="link"
                     className="px-1 py-0 h-auto"
                   >
-                    Create your first tag
+                    {t("tags.createFirst")}
                   </Button>
                 )}{" "}
-                to organize your transactions!
+                {t("tags.toOrganize")}
               </>
             )}
           </div>
@@ -287,18 +289,15 @@ export function TagList({
         >
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Confirm Deletion</DialogTitle>
-              <DialogDescription>
-                Are you sure you want to delete this tag? This action cannot be
-                undone.
-              </DialogDescription>
+              <DialogTitle>{t("common.confirmDeletion")}</DialogTitle>
+              <DialogDescription>{t("tags.deleteConfirm")}</DialogDescription>
             </DialogHeader>
             <DialogFooter>
               <Button variant="outline" onClick={handleDeleteCancel}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button variant="destructive" onClick={handleDeleteConfirm}>
-                Delete
+                {t("common.delete")}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1,6 +1,7 @@
 import { Tag } from "../../../api/supabase/tags";
 import { TagForm } from "./TagForm";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetClose } from "@/components/ui/sheet";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface TagModalProps {
   isOpen: boolean;
@@ -10,13 +11,15 @@ interface TagModalProps {
 }
 
 export function TagModal({ isOpen, onClose, tag, onSuccess }: TagModalProps) {
+  const { t } = useLanguage();
+
   if (!isOpen) return null;
 
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
-          <SheetTitle>{tag ? 'Edit Tag' : 'Add Tag'}</SheetTitle>
+          <SheetTitle>{tag ? t("tags.edit") : t("tags.add")}</SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
         <div className="px-6 pb-6">
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/popover";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface TagSelectorProps {
   transactionId?: string;
@@ -31,6 +32,7 @@ export function TagSelector({
   selectedTagIds: externalSelectedTagIds,
   readOnly = false,
 }: TagSelectorProps) {
+  const { t } = useLanguage();
   const [tags, setTags] = useState<Tag[]>([]);
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(
     externalSelectedTagIds || []
@@ -55,14 +57,14 @@ export function TagSelector({
         setTags(data || []);
       } catch (err) {
         console.error("Error fetching tags:", err);
-        setError("Failed to load tags");
+        setError(t("tags.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTags();
-  }, []);
+  }, [t]);
 
   // Fetch tags for this transaction if transactionId is provided
   useEffect(() => {
@@ -90,14 +92,14 @@ export function TagSelector({
         }
       } catch (err) {
         console.error("Error fetching transaction tags:", err);
-        setError("Failed to load transaction tags");
+        setError(t("tags.loadTransactionError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTransactionTags();
-  }, [transactionId, onTagsChange]);
+  }, [transactionId, onTagsChange, t]);
 
   // Update selected tags when external selectedTagIds changes
   useEffect(() => {
@@ -142,7 +144,7 @@ export function TagSelector({
       }
     } catch (err) {
       console.error("Error updating tags:", err);
-      setError("Failed to update tags");
+      setError(t("tags.updateError"));
     }
   };
 
@@ -178,7 +180,7 @@ export function TagSelector({
             <div className="flex flex-wrap gap-1 mr-2">
               {selectedTags.length === 0 ? (
                 <span className="text-muted-foreground">
-                  {readOnly ? "No tags" : "Select tags..."}
+                  {readOnly ? t("tags.none") : t("tags.select")}
                 </span>
               ) : (
                 selectedTags.map((tag) => (
@@ -218,7 +220,7 @@ export function TagSelector({
         <PopoverContent className="w-full p-0" align="start">
           {isLoading ? (
             <div className="p-2 text-center text-muted-foreground">
-              Loading tags...
+              {t("tags.loading")}
             </div>
           ) : error ? (
             <div className="p-2 text-center text-destructive">{error}</div>
@@ -227,7 +229,7 @@ export function TagSelector({
               <div className="max-h-60 overflow-y-auto">
                 {tags.length === 0 ? (
                   <div className="p-2 text-center text-muted-foreground">
-                    No tags found
+                    {t("tags.notFound")}
                   </div>
                 ) : (
                   <div className="py-1">
@@ -263,7 +265,7 @@ export function TagSelector({
                 }}
               >
                 <Plus size={14} className="mr-2" />
-                Create new tag
+                {t("tags.createNew")}
               </Button>
             </>
           )}
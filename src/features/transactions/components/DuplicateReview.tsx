@@ -0,0 +1,238 @@
+import { useState, useEffect, useMemo } from "react";
+import { AlertCircle, Check, Loader2, X } from "lucide-react";
+import {
+  getTransactionsByDateRange,
+  mergeTransactions,
+  Transaction,
+} from "../../../api/supabase/transactions";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TagSelector } from "../../tags/components/TagSelector";
+import { findDuplicatePairs, shiftDate } from "../utils/duplicateDetection";
+import { useLanguage } from "../../../providers/languageUtils";
+
+// Pairs the user marked as "not a duplicate" are remembered locally
+const DISMISSED_STORAGE_KEY = "dismissedDuplicatePairs";
+
+function pairKey(a: string, b: string) {
+  return [a, b].sort().join(":");
+}
+
+function getDismissedPairs(): string[] {
+  try {
+    const stored = localStorage.getItem(DISMISSED_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error parsing dismissed duplicate pairs:", error);
+    return [];
+  }
+}
+
+export function DuplicateReview() {
+  const { t } = useLanguage();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>(getDismissedPairs);
+  const [lookbackDays, setLookbackDays] = useState("90");
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchTransactions() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const today = new Date().toISOString().split("T")[0];
+        const { data, error } = await getTransactionsByDateRange(
+          shiftDate(today, -parseInt(lookbackDays, 10)),
+          today
+        );
+        if (error) throw error;
+
+        setTransactions((data || []) as Transaction[]);
+      } catch (err) {
+        console.error("Error fetching transactions:", err);
+        setError(t("transactions.loadError"));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchTransactions();
+  }, [lookbackDays, t]);
+
+  const pairs = useMemo(
+    () =>
+      findDuplicatePairs(transactions).filter(
+        (pair) => !dismissed.includes(pairKey(pair.first.id, pair.second.id))
+      ),
+    [transactions, dismissed]
+  );
+
+  const handleKeep = async (keep: Transaction, duplicate: Transaction) => {
+    const key = pairKey(keep.id, duplicate.id);
+
+    try {
+      setBusyPair(key);
+      const { error } = await mergeTransactions(keep.id, duplicate.id);
+      if (error) throw error;
+
+      setTransactions((prev) =>
+        prev.filter((transaction) => transaction.id !== duplicate.id)
+      );
+      showToast({
+        type: "success",
+        title: t("common.success"),
+        description: t("transactions.duplicates.merged"),
+        duration: 3000,
+      });
+    } catch (err) {
+      console.error("Error merging transactions:", err);
+      showErrorToast(t("transactions.duplicates.mergeError"));
+    } finally {
+      setBusyPair(null);
+    }
+  };
+
+  const handleDismiss = (a: Transaction, b: Transaction) => {
+    const updated = [...dismissed, pairKey(a.id, b.id)];
+    setDismissed(updated);
+    localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const renderTransaction = (
+    transaction: Transaction,
+    other: Transaction,
+    isBusy: boolean
+  ) => (
+    <div className="flex-1 space-y-2 rounded-md border p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">
+            {transaction.description || t("transactions.noDescription")}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {formatDate(transaction.date)}
+            {transaction.bank_account_name &&
+              ` • ${transaction.bank_account_name}`}
+            {transaction.category_name && ` • ${transaction.category_name}`}
+          </div>
+        </div>
+        <span
+          className={`font-medium ${
+            transaction.type === "expense" ? "text-red-500" : "text-green-500"
+          }`}
+        >
+          {transaction.type === "expense" ? "-" : "+"}
+          {formatCurrency(transaction.amount, {
+            currency: transaction.currency,
+          })}
+        </span>
+      </div>
+      {transaction.notes && (
+        <p className="text-sm text-muted-foreground">{transaction.notes}</p>
+      )}
+      <TagSelector transactionId={transaction.id} readOnly={true} />
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={isBusy}
+        onClick={() => handleKeep(transaction, other)}
+      >
+        <Check className="h-4 w-4 mr-1" />
+        {t("transactions.duplicates.keep")}
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {t("transactions.duplicates.help")}
+        </p>
+        <Select value={lookbackDays} onValueChange={setLookbackDays}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">
+              {t("transactions.duplicates.last30")}
+            </SelectItem>
+            <SelectItem value="90">
+              {t("transactions.duplicates.last90")}
+            </SelectItem>
+            <SelectItem value="180">
+              {t("transactions.duplicates.last180")}
+            </SelectItem>
+            <SelectItem value="365">
+              {t("transactions.duplicates.last365")}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : pairs.length === 0 ? (
+        <div className="p-4 text-center text-muted-foreground">
+          {t("transactions.duplicates.empty")}
+        </div>
+      ) : (
+        pairs.map((pair) => {
+          const key = pairKey(pair.first.id, pair.second.id);
+          const isBusy = busyPair === key;
+
+          return (
+            <Card key={key}>
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline">
+                    {t("transactions.duplicates.match", {
+                      percent: Math.round(pair.score * 100),
+                    })}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isBusy}
+                    onClick={() => handleDismiss(pair.first, pair.second)}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {t("transactions.duplicates.dismiss")}
+                  </Button>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  {renderTransaction(pair.first, pair.second, isBusy)}
+                  {renderTransaction(pair.second, pair.first, isBusy)}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
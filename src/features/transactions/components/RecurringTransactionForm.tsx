@@ -0,0 +1,510 @@
+import { useState, useEffect } from "react";
+import { AlertCircle } from "lucide-react";
+import { useAuth } from "../../../state/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetClose,
+} from "@/components/ui/sheet";
+import { getCategories, Category } from "../../../api/supabase/categories";
+import { useLanguage } from "../../../providers/languageUtils";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
+import {
+  createRecurringTransaction,
+  updateRecurringTransaction,
+  hasRecurringEnded,
+  RecurringTransaction,
+} from "../../../api/supabase/recurringTransactions";
+import { calculateNextDueDate } from "../../../api/supabase/bills";
+import {
+  showItemCreatedToast,
+  showItemUpdatedToast,
+} from "../../../utils/toast";
+
+interface RecurringTransactionFormProps {
+  recurringTransaction?: RecurringTransaction;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Sidebar modal for Add/Edit Recurring Transaction
+export function RecurringTransactionSidebarModal({
+  isOpen,
+  ...props
+}: RecurringTransactionFormProps & { isOpen: boolean }) {
+  const { t } = useLanguage();
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && props.onClose()}>
+      <SheetContent side="right" className="p-0 sm:max-w-md overflow-y-auto">
+        <SheetHeader className="p-6 pb-2">
+          <SheetTitle>
+            {props.recurringTransaction
+              ? t("transactions.recurring.edit")
+              : t("transactions.recurring.add")}
+          </SheetTitle>
+          <SheetClose className="absolute top-4 right-4" />
+        </SheetHeader>
+        <div className="px-6 pb-6">
+          <RecurringTransactionForm
+            key={props.recurringTransaction?.id || "new"}
+            {...props}
+          />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export function RecurringTransactionForm({
+  recurringTransaction,
+  onClose,
+  onSuccess,
+}: RecurringTransactionFormProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [description, setDescription] = useState(
+    recurringTransaction?.description || ""
+  );
+  const [amount, setAmount] = useState(
+    recurringTransaction?.amount?.toString() || ""
+  );
+  const [type, setType] = useState<RecurringTransaction["type"]>(
+    recurringTransaction?.type || "expense"
+  );
+  const [categoryId, setCategoryId] = useState(
+    recurringTransaction?.category_id || "none"
+  );
+  const [bankAccountId, setBankAccountId] = useState(
+    recurringTransaction?.bank_account_id || "none"
+  );
+  const [transferAccountId, setTransferAccountId] = useState(
+    recurringTransaction?.transfer_account_id || "none"
+  );
+  const [frequency, setFrequency] = useState<RecurringTransaction["frequency"]>(
+    recurringTransaction?.frequency || "monthly"
+  );
+  const [startDate, setStartDate] = useState(
+    recurringTransaction?.start_date || new Date().toISOString().split("T")[0]
+  );
+  const [endType, setEndType] = useState<RecurringTransaction["end_type"]>(
+    recurringTransaction?.end_type || "never"
+  );
+  const [endDate, setEndDate] = useState(recurringTransaction?.end_date || "");
+  const [maxOccurrences, setMaxOccurrences] = useState(
+    recurringTransaction?.max_occurrences?.toString() || ""
+  );
+  const [notes, setNotes] = useState(recurringTransaction?.notes || "");
+
+  useEffect(() => {
+    async function fetchData() {
+      const [categoriesResult, accountsResult] = await Promise.all([
+        getCategories(),
+        getBankAccounts(),
+      ]);
+
+      if (categoriesResult.error) {
+        console.error("Error fetching categories:", categoriesResult.error);
+      } else {
+        setCategories(categoriesResult.data || []);
+      }
+
+      if (accountsResult.error) {
+        console.warn("Error fetching bank accounts:", accountsResult.error);
+      } else {
+        setBankAccounts(accountsResult.data || []);
+      }
+    }
+
+    fetchData();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) return;
+
+    // Validate form
+    if (!description.trim()) {
+      setError(t("transactions.recurring.descriptionRequired"));
+      return;
+    }
+
+    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+      setError(t("common.invalidAmount"));
+      return;
+    }
+
+    if (type === "transfer") {
+      if (bankAccountId === "none" || transferAccountId === "none") {
+        setError(t("transactions.transfer.selectBoth"));
+        return;
+      }
+      if (bankAccountId === transferAccountId) {
+        setError(t("transactions.transfer.selectDifferent"));
+        return;
+      }
+      const currencies = bankAccounts
+        .filter(
+          (account) =>
+            account.id === bankAccountId || account.id === transferAccountId
+        )
+        .map((account) => account.currency);
+      if (new Set(currencies).size > 1) {
+        setError(t("transactions.transfer.sameCurrency"));
+        return;
+      }
+    }
+
+    if (endType === "on_date" && (!endDate || endDate < startDate)) {
+      setError(t("transactions.recurring.endBeforeStart"));
+      return;
+    }
+
+    if (
+      endType === "after_occurrences" &&
+      (!maxOccurrences || parseInt(maxOccurrences, 10) < 1)
+    ) {
+      setError(t("transactions.recurring.occurrencesRequired"));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const values = {
+      description: description.trim(),
+      amount: parseFloat(amount),
+      type,
+      category_id:
+        type === "transfer" || categoryId === "none" ? null : categoryId,
+      bank_account_id: bankAccountId === "none" ? null : bankAccountId,
+      transfer_account_id: type === "transfer" ? transferAccountId : null,
+      notes: notes || null,
+      frequency,
+      start_date: startDate,
+      end_type: endType,
+      end_date: endType === "on_date" ? endDate : null,
+      max_occurrences:
+        endType === "after_occurrences" ? parseInt(maxOccurrences, 10) : null,
+    };
+
+    try {
+      if (recurringTransaction) {
+        // A changed schedule continues from the next instance that wasn't
+        // generated yet, never before it
+        let nextDate = recurringTransaction.next_date;
+        if (
+          startDate !== recurringTransaction.start_date ||
+          frequency !== recurringTransaction.frequency
+        ) {
+          nextDate = calculateNextDueDate(
+            startDate,
+            frequency,
+            new Date(
+              recurringTransaction.occurrences_count > 0
+                ? recurringTransaction.next_date
+                : startDate
+            )
+          );
+        }
+
+        // Extending the end of a finished template resumes it; a paused
+        // template stays paused
+        const wasEnded = hasRecurringEnded(
+          recurringTransaction,
+          recurringTransaction.next_date,
+          recurringTransaction.occurrences_count
+        );
+        const isEnded = hasRecurringEnded(
+          values,
+          nextDate,
+          recurringTransaction.occurrences_count
+        );
+
+        const { error } = await updateRecurringTransaction(
+          recurringTransaction.id,
+          {
+            ...values,
+            next_date: nextDate,
+            is_active: !isEnded && (wasEnded || recurringTransaction.is_active),
+          }
+        );
+        if (error) throw error;
+        showItemUpdatedToast(t("toast.items.recurringTransaction"));
+      } else {
+        const { error } = await createRecurringTransaction({
+          ...values,
+          user_id: user.id,
+          next_date: startDate,
+        });
+        if (error) throw error;
+        showItemCreatedToast(t("toast.items.recurringTransaction"));
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error("Error saving recurring transaction:", err);
+      setError(t("transactions.recurring.saveError"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Tabs
+          value={type}
+          onValueChange={(value) =>
+            setType(value as RecurringTransaction["type"])
+          }
+        >
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="expense">{t("common.expense")}</TabsTrigger>
+            <TabsTrigger value="income">{t("common.income")}</TabsTrigger>
+            <TabsTrigger value="transfer">{t("common.transfer")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurring-description">
+            {t("common.description")}
+          </Label>
+          <Input
+            id="recurring-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("transactions.recurring.descriptionPlaceholder")}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurring-amount">{t("common.amount")}</Label>
+          <Input
+            id="recurring-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            required
+          />
+        </div>
+
+        {type !== "transfer" && (
+          <div className="space-y-2">
+            <Label>{t("common.category")}</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("common.selectCategory")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t("common.none")}</SelectItem>
+                {categories
+                  .filter(
+                    (category) =>
+                      category.type === type || category.type === "both"
+                  )
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>
+            {type === "transfer"
+              ? t("transactions.transfer.from")
+              : t("transactions.form.bankAccount")}
+          </Label>
+          <Select value={bankAccountId} onValueChange={setBankAccountId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("common.selectAccount")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                {type === "transfer"
+                  ? t("common.selectAccount")
+                  : t("common.none")}
+              </SelectItem>
+              {bankAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === "transfer" && (
+          <div className="space-y-2">
+            <Label>{t("transactions.transfer.to")}</Label>
+            <Select
+              value={transferAccountId}
+              onValueChange={setTransferAccountId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t("common.selectAccount")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">
+                  {t("common.selectAccount")}
+                </SelectItem>
+                {bankAccounts
+                  .filter((account) => account.id !== bankAccountId)
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>{t("transactions.recurring.repeats")}</Label>
+            <Select
+              value={frequency}
+              onValueChange={(value) =>
+                setFrequency(value as RecurringTransaction["frequency"])
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">{t("common.daily")}</SelectItem>
+                <SelectItem value="weekly">{t("common.weekly")}</SelectItem>
+                <SelectItem value="monthly">{t("common.monthly")}</SelectItem>
+                <SelectItem value="yearly">{t("common.yearly")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recurring-start">
+              {t("transactions.recurring.starting")}
+            </Label>
+            <Input
+              id="recurring-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("transactions.recurring.ends")}</Label>
+          <Select
+            value={endType}
+            onValueChange={(value) =>
+              setEndType(value as RecurringTransaction["end_type"])
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">
+                {t("transactions.recurring.never")}
+              </SelectItem>
+              <SelectItem value="on_date">
+                {t("transactions.recurring.onDate")}
+              </SelectItem>
+              <SelectItem value="after_occurrences">
+                {t("transactions.recurring.afterOccurrences")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          {endType === "on_date" && (
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          )}
+          {endType === "after_occurrences" && (
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={maxOccurrences}
+              onChange={(e) => setMaxOccurrences(e.target.value)}
+              placeholder={t("transactions.recurring.occurrencesPlaceholder")}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurring-notes">{t("common.notes")}</Label>
+          <Textarea
+            id="recurring-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        {!recurringTransaction &&
+          startDate < new Date().toISOString().split("T")[0] && (
+            <p className="text-xs text-muted-foreground">
+              {t("transactions.recurring.catchUpHint")}
+            </p>
+          )}
+
+        <div className="mt-4 flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? t("common.saving")
+              : recurringTransaction
+              ? t("common.update")
+              : t("transactions.recurring.add")}
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+}
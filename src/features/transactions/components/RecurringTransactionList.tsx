@@ -0,0 +1,356 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  AlertCircle,
+  Edit,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  SkipForward,
+  Trash2,
+} from "lucide-react";
+import {
+  deleteRecurringTransaction,
+  getRecurringTransactions,
+  hasRecurringEnded,
+  processDueRecurringTransactions,
+  skipNextRecurringTransaction,
+  updateRecurringTransaction,
+  RecurringTransaction,
+} from "../../../api/supabase/recurringTransactions";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import {
+  showToast,
+  showItemDeletedToast,
+  showErrorToast,
+} from "../../../utils/toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RecurringTransactionSidebarModal } from "./RecurringTransactionForm";
+import { useLanguage } from "../../../providers/languageUtils";
+import { translate } from "../../../i18n";
+
+function describeEnd(recurring: RecurringTransaction) {
+  if (recurring.end_type === "on_date" && recurring.end_date) {
+    return translate("transactions.recurring.until", {
+      date: formatDate(recurring.end_date),
+    });
+  }
+  if (recurring.end_type === "after_occurrences") {
+    return translate("common.of", {
+      value: recurring.occurrences_count,
+      total: recurring.max_occurrences ?? 0,
+    });
+  }
+  return translate("transactions.recurring.never");
+}
+
+export function RecurringTransactionList() {
+  const { t } = useLanguage();
+  const [recurringTransactions, setRecurringTransactions] = useState<
+    RecurringTransaction[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selected, setSelected] = useState<RecurringTransaction | undefined>();
+  const [toDelete, setToDelete] = useState<RecurringTransaction | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRecurringTransactions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getRecurringTransactions();
+      if (error) throw error;
+
+      setRecurringTransactions(data || []);
+    } catch (err) {
+      console.error("Error loading recurring transactions:", err);
+      setError(t("transactions.recurring.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadRecurringTransactions();
+  }, [loadRecurringTransactions]);
+
+  // A template that starts in the past is caught up straight away
+  const handleSaved = async () => {
+    const { data, error } = await processDueRecurringTransactions();
+    if (error) {
+      console.error("Error generating recurring transactions:", error);
+    } else if (data && data.created > 0) {
+      showToast({
+        type: "info",
+        title: t("transactions.recurring.title"),
+        description: t("transactions.recurring.pastAdded", {
+          count: data.created,
+        }),
+        duration: 3000,
+      });
+    }
+
+    loadRecurringTransactions();
+  };
+
+  const handleSkip = async (recurring: RecurringTransaction) => {
+    try {
+      setBusyId(recurring.id);
+      const { error } = await skipNextRecurringTransaction(recurring);
+      if (error) throw error;
+
+      showToast({
+        type: "success",
+        title: t("transactions.recurring.skipped"),
+        description: t("transactions.recurring.skippedDescription", {
+          date: formatDate(recurring.next_date),
+        }),
+        duration: 3000,
+      });
+      loadRecurringTransactions();
+    } catch (err) {
+      console.error("Error skipping recurring transaction:", err);
+      showErrorToast(t("transactions.recurring.skipError"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = async (recurring: RecurringTransaction) => {
+    try {
+      setBusyId(recurring.id);
+      const { error } = await updateRecurringTransaction(recurring.id, {
+        is_active: !recurring.is_active,
+      });
+      if (error) throw error;
+
+      // Resuming catches up on anything that came due while paused
+      if (!recurring.is_active) {
+        await handleSaved();
+      } else {
+        loadRecurringTransactions();
+      }
+    } catch (err) {
+      console.error("Error updating recurring transaction:", err);
+      showErrorToast(t("transactions.recurring.updateError"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+
+    const { error } = await deleteRecurringTransaction(toDelete.id);
+    if (error) {
+      console.error("Error deleting recurring transaction:", error);
+      showErrorToast(t("transactions.recurring.deleteError"));
+    } else {
+      setRecurringTransactions((prev) =>
+        prev.filter((r) => r.id !== toDelete.id)
+      );
+      showItemDeletedToast(t("toast.items.recurringTransaction"));
+    }
+    setToDelete(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {t("transactions.recurring.help")}
+        </p>
+        <Button
+          onClick={() => {
+            setSelected(undefined);
+            setIsFormOpen(true);
+          }}
+          className="flex items-center gap-1 shrink-0"
+        >
+          <Plus size={16} />
+          {t("transactions.recurring.addShort")}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : recurringTransactions.length === 0 ? (
+        <div className="p-4 text-center text-muted-foreground">
+          {t("transactions.recurring.empty")}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("common.description")}</TableHead>
+              <TableHead>{t("transactions.recurring.repeats")}</TableHead>
+              <TableHead>{t("transactions.recurring.next")}</TableHead>
+              <TableHead>{t("transactions.recurring.ends")}</TableHead>
+              <TableHead className="text-right">{t("common.amount")}</TableHead>
+              <TableHead className="text-right">
+                {t("common.actions")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {recurringTransactions.map((recurring) => {
+              const isEnded = hasRecurringEnded(
+                recurring,
+                recurring.next_date,
+                recurring.occurrences_count
+              );
+              const isBusy = busyId === recurring.id;
+
+              return (
+                <TableRow
+                  key={recurring.id}
+                  className={recurring.is_active ? "" : "opacity-60"}
+                >
+                  <TableCell>
+                    <div className="font-medium">{recurring.description}</div>
+                    {!recurring.is_active && (
+                      <Badge variant="outline">
+                        {isEnded
+                          ? t("transactions.recurring.ended")
+                          : t("transactions.recurring.paused")}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{t(`common.${recurring.frequency}`)}</TableCell>
+                  <TableCell>
+                    {isEnded ? "—" : formatDate(recurring.next_date)}
+                  </TableCell>
+                  <TableCell>{describeEnd(recurring)}</TableCell>
+                  <TableCell
+                    className={`text-right font-medium ${
+                      recurring.type === "transfer"
+                        ? "text-blue-500"
+                        : recurring.type === "expense"
+                        ? "text-red-500"
+                        : "text-green-500"
+                    }`}
+                  >
+                    {recurring.type === "transfer"
+                      ? ""
+                      : recurring.type === "expense"
+                      ? "-"
+                      : "+"}
+                    {formatCurrency(recurring.amount)}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("transactions.recurring.skipNext")}
+                      disabled={isBusy || !recurring.is_active}
+                      onClick={() => handleSkip(recurring)}
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={
+                        recurring.is_active
+                          ? t("transactions.recurring.pause")
+                          : t("transactions.recurring.resume")
+                      }
+                      disabled={isBusy || isEnded}
+                      onClick={() => handleToggleActive(recurring)}
+                    >
+                      {recurring.is_active ? (
+                        <Pause className="h-4 w-4" />
+                      ) : (
+                        <Play className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("common.edit")}
+                      onClick={() => {
+                        setSelected(recurring);
+                        setIsFormOpen(true);
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("common.delete")}
+                      onClick={() => setToDelete(recurring)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <RecurringTransactionSidebarModal
+        isOpen={isFormOpen}
+        recurringTransaction={selected}
+        onClose={() => setIsFormOpen(false)}
+        onSuccess={handleSaved}
+      />
+
+      <AlertDialog
+        open={toDelete !== null}
+        onOpenChange={(open) => !open && setToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("transactions.recurring.deleteTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("transactions.recurring.deleteConfirm")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Transaction } from "../../../api/supabase/transactions";
 import { TransactionForm } from "./TransactionForm";
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   Sheet,
   SheetContent,
@@ -25,12 +26,18 @@ export function TransactionDialog({
   defaultType,
   title,
 }: TransactionDialogProps) {
+  const { t } = useLanguage();
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
           <SheetTitle>
-            {title || (transaction ? "Edit Transaction" : defaultType === "income" ? "Add Income" : "Add Expense")}
+            {title ||
+              (transaction
+                ? t("transactions.edit")
+                : defaultType === "income"
+                ? t("transactions.addIncome")
+                : t("transactions.addExpense"))}
           </SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
@@ -20,6 +20,7 @@ import {
 import { Filter } from "lucide-react";
 import { useCategories } from "@/features/categories/hooks/useCategories";
 import { useBankAccounts } from "@/features/bankAccounts/hooks/useBankAccounts";
+import { useLanguage } from "@/providers/languageUtils";
 
 export type TransactionType = "EXPENSE" | "INCOME" | "TRANSFER" | "all";
 
@@ -59,6 +60,7 @@ export const TransactionFilters: React.FC<TransactionFiltersProps> = ({
   searchQuery,
   onChange,
 }) => {
+  const { t } = useLanguage();
   const { data: categories } = useCategories();
   const { data: bankAccounts } = useBankAccounts();
 
@@ -170,43 +172,49 @@ export const TransactionFilters: React.FC<TransactionFiltersProps> = ({
       <SheetTrigger asChild>
         <Button variant="outline" size="sm" className="h-8 lg:flex">
           <Filter className="mr-2 h-4 w-4" />
-          Filters
+          {t("transactions.filters.title")}
         </Button>
       </SheetTrigger>
       <SheetContent>
         <SheetHeader>
-          <SheetTitle>Filters</SheetTitle>
+          <SheetTitle>{t("transactions.filters.title")}</SheetTitle>
           <SheetDescription>
-            Apply filters to your transactions
+            {t("transactions.filters.description")}
           </SheetDescription>
         </SheetHeader>
         <div className="grid gap-4 py-4">
           <div className="space-y-2">
-            <Label className="text-xs">Type</Label>
+            <Label className="text-xs">{t("common.type")}</Label>
             <Select value={type || "all"} onValueChange={handleTypeChange}>
               <SelectTrigger>
-                <SelectValue placeholder="Select type" />
+                <SelectValue
+                  placeholder={t("transactions.filters.selectType")}
+                />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="EXPENSE">Expense</SelectItem>
-                <SelectItem value="INCOME">Income</SelectItem>
-                <SelectItem value="TRANSFER">Transfer</SelectItem>
+                <SelectItem value="all">
+                  {t("transactions.filters.allTypes")}
+                </SelectItem>
+                <SelectItem value="EXPENSE">{t("common.expense")}</SelectItem>
+                <SelectItem value="INCOME">{t("common.income")}</SelectItem>
+                <SelectItem value="TRANSFER">{t("common.transfer")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
           <div className="space-y-2">
-            <Label className="text-xs">Category</Label>
+            <Label className="text-xs">{t("common.category")}</Label>
             <Select
               value={categoryId || "all"}
               onValueChange={handleCategoryChange}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Select category" />
+                <SelectValue placeholder={t("common.selectCategory")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
+                <SelectItem value="all">
+                  {t("transactions.filters.allCategories")}
+                </SelectItem>
                 {categories?.map((category: Category) => (
                   <SelectItem key={category.id} value={category.id}>
                     {category.name}
@@ -217,16 +225,18 @@ export const TransactionFilters: React.FC<TransactionFiltersProps> = ({
           </div>
 
           <div className="space-y-2">
-            <Label className="text-xs">Account</Label>
+            <Label className="text-xs">{t("common.account")}</Label>
             <Select
               value={bankAccountId || "all"}
               onValueChange={handleBankAccountChange}
             >
               <SelectTrigger>
-                <SelectValue placeholder="Select account" />
+                <SelectValue placeholder={t("common.selectAccount")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Accounts</SelectItem>
+                <SelectItem value="all">
+                  {t("transactions.filters.allAccounts")}
+                </SelectItem>
                 {bankAccounts?.map((account: BankAccount) => (
                   <SelectItem key={account.id} value={account.id}>
                     {account.name}
@@ -237,48 +247,50 @@ export const TransactionFilters: React.FC<TransactionFiltersProps> = ({
           </div>
 
           <div className="space-y-2">
-            <Label className="text-xs">Date</Label>
+            <Label className="text-xs">{t("common.date")}</Label>
             <div className="flex gap-2">
               <Input
                 type="date"
                 value={startDate || ""}
                 onChange={(e) => handleDateChange("startDate", e)}
-                placeholder="Start date"
+                placeholder={t("common.startDate")}
               />
               <Input
                 type="date"
                 value={endDate || ""}
                 onChange={(e) => handleDateChange("endDate", e)}
-                placeholder="End date"
+                placeholder={t("common.endDate")}
               />
             </div>
           </div>
 
           <div className="space-y-2">
-            <Label className="text-xs">Amount</Label>
+            <Label className="text-xs">{t("common.amount")}</Label>
             <div className="flex gap-2">
               <Input
                 type="number"
                 value={minAmount || ""}
                 onChange={(e) => handleAmountChange("minAmount", e)}
-                placeholder="Min amount"
+                placeholder={t("transactions.filters.minAmount")}
               />
               <Input
                 type="number"
                 value={maxAmount || ""}
                 onChange={(e) => handleAmountChange("maxAmount", e)}
-                placeholder="Max amount"
+                placeholder={t("transactions.filters.maxAmount")}
               />
             </div>
           </div>
 
           <div className="space-y-2">
-            <Label className="text-xs">Search</Label>
+            <Label className="text-xs">
+              {t("transactions.filters.search")}
+            </Label>
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="text"
-                placeholder="Search transactions..."
+                placeholder={t("transactions.filters.searchPlaceholder")}
                 value={searchQuery || ""}
                 onChange={handleSearchChange}
                 className="pl-8"
@@ -293,7 +305,7 @@ export const TransactionFilters: React.FC<TransactionFiltersProps> = ({
               variant="outline"
               className="w-full"
             >
-              Clear Filters
+              {t("transactions.filters.clear")}
             </Button>
           </div>
         </div>
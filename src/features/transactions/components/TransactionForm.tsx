@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "../../../state/useAuth";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Copy, Lock } from "lucide-react";
 import {
   showItemCreatedToast,
   showItemUpdatedToast,
@@ -11,6 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -22,13 +23,35 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   createTransaction,
   updateTransaction,
+  getTransactionsByDateRange,
   Transaction,
   TransactionInsert,
+  TransactionStatus,
 } from "../../../api/supabase/transactions";
 import { getCategories } from "../../../api/supabase/categories";
+import { applyCategoryRules } from "../../../api/supabase/categoryRules";
+import {
+  deleteTransactionSplits,
+  getSplitsForTransaction,
+  saveTransactionSplits,
+  splitsMatchAmount,
+} from "../../../api/supabase/transactionSplits";
 import { TagSelector } from "../../tags/components/TagSelector";
 import { getTagsForTransaction } from "../../../api/supabase/tags";
 import { getBankAccounts } from "../../../api/supabase/bankAccounts";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { CURRENCIES, PAYMENT_METHODS } from "../../../utils/constants";
+import { useLanguage } from "../../../providers/languageUtils";
+import { getCurrencyName } from "../../../i18n";
+import {
+  findDuplicates,
+  shiftDate,
+  DuplicateMatch,
+} from "../utils/duplicateDetection";
+import {
+  TransactionSplitEditor,
+  SplitLineDraft,
+} from "./TransactionSplitEditor";
 
 interface TransactionFormProps {
   transaction?: Transaction;
@@ -43,14 +66,21 @@ export function TransactionForm({
   onSuccess,
   defaultType,
 }: TransactionFormProps) {
-  const { user } = useAuth();
+  const { user, userSettings } = useAuth();
+  const { t } = useLanguage();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [categories, setCategories] = useState<
     { id: string; name: string; type: string }[]
   >([]);
   const [bankAccounts, setBankAccounts] = useState<
-    { id: string; name: string; account_type: string; is_default: boolean }[]
+    {
+      id: string;
+      name: string;
+      account_type: string;
+      currency: string;
+      is_default: boolean;
+    }[]
   >([]);
 
   // Form state
@@ -61,8 +91,11 @@ export function TransactionForm({
   const [date, setDate] = useState(
     transaction?.date || new Date().toISOString().split("T")[0]
   );
+  // Transfers are edited in TransferForm and never reach this form
   const [type, setType] = useState<"expense" | "income">(
-    transaction?.type || defaultType || "expense"
+    (transaction?.type !== "transfer" && transaction?.type) ||
+      defaultType ||
+      "expense"
   );
   const [categoryId, setCategoryId] = useState(
     transaction?.category_id || "none"
@@ -70,14 +103,38 @@ export function TransactionForm({
   const [paymentMethod, setPaymentMethod] = useState(
     transaction?.payment_method || "none"
   );
-  const [status, setStatus] = useState<"pending" | "completed" | "cancelled">(
+  const [status, setStatus] = useState<TransactionStatus>(
     transaction?.status || "completed"
   );
+  // Reconciled transactions keep their amount, date, account and status
+  const isReconciled = transaction?.status === "reconciled";
   const [notes, setNotes] = useState(transaction?.notes || "");
   const [bankAccountId, setBankAccountId] = useState(
     transaction?.bank_account_id || "none"
   );
+  const [currency, setCurrency] = useState(transaction?.currency || "");
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [isSplit, setIsSplit] = useState(false);
+  const [hadSplits, setHadSplits] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[]>([]);
+  const [duplicateMatches, setDuplicateMatches] = useState<
+    DuplicateMatch<Transaction>[]
+  >([]);
+
+  // Transactions on an account are always in the account's currency
+  const selectedAccount = bankAccounts.find(
+    (account) => account.id === bankAccountId
+  );
+  const transactionCurrency =
+    selectedAccount?.currency || currency || userSettings?.currency || "USD";
+  const currencySymbol =
+    CURRENCIES.find((c) => c.code === transactionCurrency)?.symbol ||
+    transactionCurrency;
+
+  // Any change to the matched fields means the duplicate check must run again
+  useEffect(() => {
+    setDuplicateMatches([]);
+  }, [amount, date, type, bankAccountId]);
 
   // Fetch categories and tags
   useEffect(() => {
@@ -121,6 +178,26 @@ export function TransactionForm({
           }
         }
 
+        // Fetch split lines for existing transaction
+        if (transaction?.id) {
+          const { data: splitsData, error: splitsError } =
+            await getSplitsForTransaction(transaction.id);
+
+          if (splitsError) {
+            console.warn("Error fetching split lines:", splitsError);
+          } else if (splitsData && splitsData.length > 0) {
+            setIsSplit(true);
+            setHadSplits(true);
+            setSplitLines(
+              splitsData.map((split) => ({
+                amount: split.amount.toString(),
+                categoryId: split.category_id || "none",
+                note: split.note || "",
+              }))
+            );
+          }
+        }
+
         try {
           // Fetch bank accounts
           const { data: accountsData, error: accountsError } =
@@ -144,14 +221,14 @@ export function TransactionForm({
         }
       } catch (err) {
         console.error("Error fetching data:", err);
-        setError("Failed to load data. Please try again.");
+        setError(t("transactions.form.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchData();
-  }, [user, bankAccountId, transaction?.bank_account_id, transaction?.id, defaultType]);
+  }, [user, bankAccountId, transaction?.bank_account_id, transaction?.id, defaultType, t]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -162,23 +239,43 @@ export function TransactionForm({
 
       // Validate form
       if (!amount || isNaN(parseFloat(amount))) {
-        setError("Please enter a valid amount.");
+        setError(t("common.invalidAmount"));
         return;
       }
 
       if (!date) {
-        setError("Please select a date.");
+        setError(t("transactions.form.dateRequired"));
         return;
       }
 
+      // Split lines must cover the whole amount
+      const splits = splitLines.map((line) => ({
+        category_id: line.categoryId === "none" ? null : line.categoryId,
+        amount: parseFloat(line.amount) || 0,
+        note: line.note || null,
+      }));
+
+      if (isSplit) {
+        if (splits.length < 2 || splits.some((split) => split.amount <= 0)) {
+          setError(t("transactions.form.splitAmountRequired"));
+          return;
+        }
+
+        if (!splitsMatchAmount(splits, parseFloat(amount))) {
+          setError(t("transactions.form.splitTotalMismatch"));
+          return;
+        }
+      }
+
       // Prepare transaction data
       if (!user?.id) {
-        setError("You must be logged in to add a transaction");
+        setError(t("transactions.form.loginRequired"));
         return;
       }
       const transactionData: TransactionInsert = {
         user_id: user.id,
         amount: parseFloat(amount),
+        currency: transactionCurrency,
         description: description || null,
         date,
         type,
@@ -189,6 +286,15 @@ export function TransactionForm({
         notes: notes || null,
       };
 
+      // Warn once about likely duplicates; submitting again saves anyway
+      if (duplicateMatches.length === 0) {
+        const matches = await findExistingDuplicates(transactionData);
+        if (matches.length > 0) {
+          setDuplicateMatches(matches);
+          return;
+        }
+      }
+
       let result;
       if (transaction) {
         // Update existing transaction
@@ -202,11 +308,35 @@ export function TransactionForm({
         throw result.error;
       }
 
+      // Save or clear the split lines
+      if (result.data) {
+        if (isSplit) {
+          const { error: splitsError } = await saveTransactionSplits(
+            result.data.id,
+            splits
+          );
+          if (splitsError) throw splitsError;
+        } else if (hadSplits) {
+          const { error: splitsError } = await deleteTransactionSplits(
+            result.data.id
+          );
+          if (splitsError) throw splitsError;
+        }
+      }
+
+      // Let the user's category rules fill in the category and tags
+      if (!transaction && result.data) {
+        const { error: rulesError } = await applyCategoryRules([result.data]);
+        if (rulesError) {
+          console.warn("Error applying category rules:", rulesError);
+        }
+      }
+
       // Show success toast
       if (transaction) {
-        showItemUpdatedToast("Transaction");
+        showItemUpdatedToast(t("toast.items.transaction"));
       } else {
-        showItemCreatedToast("Transaction");
+        showItemCreatedToast(t("toast.items.transaction"));
       }
 
       // Success
@@ -214,13 +344,33 @@ export function TransactionForm({
       onClose();
     } catch (err) {
       console.error("Error saving transaction:", err);
-      setError("Failed to save transaction. Please try again.");
-      showErrorToast("Failed to save transaction");
+      setError(t("transactions.form.saveError"));
+      showErrorToast(t("transactions.saveError"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Look for saved transactions that look like the one being entered
+  const findExistingDuplicates = async (transactionData: TransactionInsert) => {
+    try {
+      const { data, error } = await getTransactionsByDateRange(
+        shiftDate(transactionData.date, -3),
+        shiftDate(transactionData.date, 3)
+      );
+      if (error) throw error;
+
+      return findDuplicates(
+        { ...transactionData, id: transaction?.id },
+        (data || []) as Transaction[]
+      );
+    } catch (err) {
+      // Don't block saving if the check itself fails
+      console.warn("Error checking for duplicate transactions:", err);
+      return [];
+    }
+  };
+
   return (
     <div className="w-full">
       {error && (
@@ -230,11 +380,44 @@ export function TransactionForm({
         </Alert>
       )}
 
+      {isReconciled && (
+        <Alert className="mb-4">
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            {t("transactions.form.reconciledLocked")}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {duplicateMatches.length > 0 && (
+        <Alert className="mb-4 border-yellow-300 bg-yellow-50 dark:bg-yellow-950">
+          <Copy className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium">
+              {t("transactions.form.duplicateWarning")}
+            </p>
+            <ul className="mt-1 space-y-1 text-sm">
+              {duplicateMatches.slice(0, 3).map(({ transaction: match }) => (
+                <li key={match.id}>
+                  {formatDate(match.date)} &middot;{" "}
+                  {match.description || t("transactions.noDescription")} &middot;{" "}
+                  {formatCurrency(match.amount, { currency: match.currency })}
+                  {match.bank_account_name && ` (${match.bank_account_name})`}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {t("transactions.form.duplicateHint")}
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Transaction Type */}
         {defaultType ? (
           <div className="mb-2">
-            <span className={`text-sm font-medium ${defaultType === 'expense' ? 'text-red-600' : 'text-green-600'}`}>{defaultType === 'expense' ? 'Expense' : 'Income'}</span>
+            <span className={`text-sm font-medium ${defaultType === 'expense' ? 'text-red-600' : 'text-green-600'}`}>{defaultType === "expense" ? t("common.expense") : t("common.income")}</span>
           </div>
         ) : (
           <Tabs
@@ -247,13 +430,13 @@ export function TransactionForm({
                 value="expense"
                 className="data-[state=active]:bg-red-100 data-[state=active]:text-red-700"
               >
-                Expense
+                {t("common.expense")}
               </TabsTrigger>
               <TabsTrigger
                 value="income"
                 className="data-[state=active]:bg-green-100 data-[state=active]:text-green-700"
               >
-                Income
+                {t("common.income")}
               </TabsTrigger>
             </TabsList>
           </Tabs>
@@ -261,10 +444,10 @@ export function TransactionForm({
 
         {/* Amount */}
         <div className="space-y-2">
-          <Label htmlFor="amount">Amount</Label>
+          <Label htmlFor="amount">{t("common.amount")}</Label>
           <div className="relative">
             <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-gray-500">
-              $
+              {currencySymbol}
             </span>
             <Input
               type="number"
@@ -274,76 +457,142 @@ export function TransactionForm({
               step="0.01"
               min="0"
               required
+              disabled={isReconciled}
               className="pl-8"
               placeholder="0.00"
             />
           </div>
         </div>
 
+        {/* Currency */}
+        <div className="space-y-2">
+          <Label htmlFor="currency">{t("common.currency")}</Label>
+          <Select
+            value={transactionCurrency}
+            onValueChange={setCurrency}
+            disabled={!!selectedAccount}
+          >
+            <SelectTrigger id="currency">
+              <SelectValue placeholder={t("common.selectCurrency")} />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((curr) => (
+                <SelectItem key={curr.code} value={curr.code}>
+                  {curr.code} - {getCurrencyName(curr.code)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedAccount && (
+            <p className="text-xs text-muted-foreground">
+              {t("transactions.form.accountCurrency", {
+                account: selectedAccount.name,
+              })}
+            </p>
+          )}
+        </div>
+
         {/* Description */}
         <div className="space-y-2">
-          <Label htmlFor="description">Description</Label>
+          <Label htmlFor="description">{t("common.description")}</Label>
           <Input
             type="text"
             id="description"
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder="Enter a description"
+            placeholder={t("transactions.form.descriptionPlaceholder")}
           />
         </div>
 
         {/* Date */}
         <div className="space-y-2">
-          <Label htmlFor="date">Date</Label>
+          <Label htmlFor="date">{t("common.date")}</Label>
           <Input
             type="date"
             id="date"
             value={date}
             onChange={(e) => setDate(e.target.value)}
             required
+            disabled={isReconciled}
           />
         </div>
 
         {/* Category */}
         <div className="space-y-2">
-          <Label htmlFor="category">Category</Label>
-          <Select
-            value={categoryId}
-            onValueChange={setCategoryId}
-          >
-            <SelectTrigger id="category">
-              <SelectValue placeholder="Select a category" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="none">None</SelectItem>
-              {categories
-                .filter(
-                  (cat) =>
-                    !type ||
-                    cat.type === type.toUpperCase() ||
-                    cat.type === "BOTH"
-                )
-                .map((category) => (
-                  <SelectItem key={category.id} value={category.id}>
-                    {category.name}
-                  </SelectItem>
-                ))}
-            </SelectContent>
-          </Select>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="category">{t("common.category")}</Label>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="split"
+                checked={isSplit}
+                onCheckedChange={(checked) => {
+                  setIsSplit(checked === true);
+                  if (checked === true && splitLines.length === 0) {
+                    // Start from the current amount and category
+                    setSplitLines([
+                      { amount, categoryId, note: "" },
+                      { amount: "", categoryId: "none", note: "" },
+                    ]);
+                  }
+                }}
+              />
+              <Label htmlFor="split" className="text-sm font-normal">
+                {t("transactions.form.split")}
+              </Label>
+            </div>
+          </div>
+          {isSplit ? (
+            <TransactionSplitEditor
+              lines={splitLines}
+              onChange={setSplitLines}
+              categories={categories.filter(
+                (cat) =>
+                  !type ||
+                  cat.type === type.toUpperCase() ||
+                  cat.type === "BOTH"
+              )}
+              total={parseFloat(amount) || 0}
+            />
+          ) : (
+            <Select
+              value={categoryId}
+              onValueChange={setCategoryId}
+            >
+              <SelectTrigger id="category">
+                <SelectValue placeholder={t("common.selectCategory")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t("common.none")}</SelectItem>
+                {categories
+                  .filter(
+                    (cat) =>
+                      !type ||
+                      cat.type === type.toUpperCase() ||
+                      cat.type === "BOTH"
+                  )
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         {/* Bank Account */}
         <div className="space-y-2">
-          <Label htmlFor="bankAccount">Bank Account</Label>
+          <Label htmlFor="bankAccount">{t("transactions.form.bankAccount")}</Label>
           <Select
             value={bankAccountId}
             onValueChange={setBankAccountId}
+            disabled={isReconciled}
           >
             <SelectTrigger id="bankAccount">
-              <SelectValue placeholder="Select a bank account" />
+              <SelectValue placeholder={t("transactions.form.selectBankAccount")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="none">{t("common.none")}</SelectItem>
               {bankAccounts.map((account) => (
                 <SelectItem key={account.id} value={account.id}>
                   {account.name}
@@ -355,62 +604,65 @@ export function TransactionForm({
 
         {/* Payment Method */}
         <div className="space-y-2">
-          <Label htmlFor="paymentMethod">Payment Method</Label>
+          <Label htmlFor="paymentMethod">{t("transactions.form.paymentMethod")}</Label>
           <Select
             value={paymentMethod}
             onValueChange={setPaymentMethod}
           >
             <SelectTrigger id="paymentMethod">
-              <SelectValue placeholder="Select a payment method" />
+              <SelectValue placeholder={t("transactions.form.selectPaymentMethod")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="none">None</SelectItem>
-              <SelectItem value="cash">Cash</SelectItem>
-              <SelectItem value="credit_card">Credit Card</SelectItem>
-              <SelectItem value="debit_card">Debit Card</SelectItem>
-              <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-              <SelectItem value="check">Check</SelectItem>
-              <SelectItem value="mobile_payment">Mobile Payment</SelectItem>
-              <SelectItem value="other">Other</SelectItem>
+              <SelectItem value="none">{t("common.none")}</SelectItem>
+              {PAYMENT_METHODS.map((method) => (
+                <SelectItem key={method} value={method}>
+                  {t(`transactions.paymentMethods.${method}`)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
         {/* Status */}
         <div className="space-y-2">
-          <Label htmlFor="status">Status</Label>
+          <Label htmlFor="status">{t("common.status")}</Label>
           <Select
             value={status}
             onValueChange={(value) =>
-              setStatus(value as "pending" | "completed" | "cancelled")
+              setStatus(value as TransactionStatus)
             }
+            disabled={isReconciled}
           >
             <SelectTrigger id="status">
-              <SelectValue placeholder="Select a status" />
+              <SelectValue placeholder={t("transactions.form.selectStatus")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="pending">{t("transactions.statuses.pending")}</SelectItem>
+              <SelectItem value="completed">{t("transactions.statuses.completed")}</SelectItem>
+              <SelectItem value="cleared">{t("transactions.statuses.cleared")}</SelectItem>
+              {isReconciled && (
+                <SelectItem value="reconciled">{t("transactions.statuses.reconciled")}</SelectItem>
+              )}
+              <SelectItem value="cancelled">{t("transactions.statuses.cancelled")}</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
         {/* Notes */}
         <div className="space-y-2">
-          <Label htmlFor="notes">Notes</Label>
+          <Label htmlFor="notes">{t("common.notes")}</Label>
           <Textarea
             id="notes"
             value={notes}
             onChange={(e) => setNotes(e.target.value)}
-            placeholder="Add any additional notes"
+            placeholder={t("transactions.form.notesPlaceholder")}
             rows={3}
           />
         </div>
 
         {/* Tags */}
         <div className="space-y-2">
-          <Label htmlFor="tags">Tags</Label>
+          <Label htmlFor="tags">{t("transactions.form.tags")}</Label>
           <TagSelector
             transactionId={transaction?.id}
             selectedTagIds={selectedTagIds}
@@ -421,7 +673,7 @@ export function TransactionForm({
         {/* Submit Button */}
         <div className="flex justify-end space-x-3 pt-4">
           <Button type="button" onClick={onClose} variant="outline">
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button 
             type="submit" 
@@ -429,10 +681,12 @@ export function TransactionForm({
             className={type === "expense" ? "bg-red-600 hover:bg-red-700" : "bg-green-600 hover:bg-green-700"}
           >
             {isLoading
-              ? "Saving..."
+              ? t("common.saving")
+              : duplicateMatches.length > 0
+              ? t("transactions.saveAnyway")
               : transaction
-              ? "Update Transaction"
-              : "Add Transaction"}
+              ? t("transactions.update")
+              : t("transactions.add")}
           </Button>
         </div>
       </form>
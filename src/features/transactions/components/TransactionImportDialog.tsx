@@ -0,0 +1,681 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { AlertCircle, CheckCircle2, Copy, FileUp, Loader2 } from "lucide-react";
+import { showToast, showErrorToast } from "../../../utils/toast";
+import { formatCurrency, formatDate } from "../../../utils/formatters";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createTransactions,
+  getTransactionsByDateRange,
+  Transaction,
+  TransactionInsert,
+} from "../../../api/supabase/transactions";
+import { applyCategoryRules } from "../../../api/supabase/categoryRules";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
+import {
+  buildImportRows,
+  detectStatementFormat,
+  parseStatement,
+  suggestColumnMapping,
+  ColumnMapping,
+  ImportOptions,
+  ParsedStatement,
+} from "../utils/statementImport";
+import { findDuplicates, shiftDate } from "../utils/duplicateDetection";
+import { useLanguage } from "../../../providers/languageUtils";
+import type { TranslationKey } from "../../../i18n";
+
+interface TransactionImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type ImportStep = "upload" | "map" | "preview";
+
+const MAPPING_FIELDS: {
+  key: keyof ColumnMapping;
+  label: TranslationKey;
+  required: boolean;
+}[] = [
+  { key: "date", label: "common.date", required: true },
+  { key: "amount", label: "common.amount", required: true },
+  { key: "description", label: "common.description", required: false },
+  { key: "type", label: "transactions.import.typeColumn", required: false },
+  {
+    key: "bankAccount",
+    label: "transactions.form.bankAccount",
+    required: false,
+  },
+];
+
+const EMPTY_MAPPING: ColumnMapping = {
+  date: null,
+  amount: null,
+  description: null,
+  type: null,
+  bankAccount: null,
+};
+
+const DEFAULT_OPTIONS: ImportOptions = {
+  dateOrder: "auto",
+  decimalSeparator: ".",
+  amountSign: "negative-is-expense",
+  defaultBankAccountId: null,
+};
+
+export function TransactionImportDialog({
+  isOpen,
+  onClose,
+  onSuccess,
+}: TransactionImportDialogProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [existingTransactions, setExistingTransactions] = useState<
+    Transaction[]
+  >([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch bank accounts for the default account selector
+  useEffect(() => {
+    if (!isOpen) return;
+
+    async function fetchBankAccounts() {
+      try {
+        const { data, error } = await getBankAccounts();
+        if (error) throw error;
+
+        setBankAccounts(data || []);
+
+        const defaultAccount = data?.find((account) => account.is_default);
+        if (defaultAccount) {
+          setOptions((prev) => ({
+            ...prev,
+            defaultBankAccountId:
+              prev.defaultBankAccountId || defaultAccount.id,
+          }));
+        }
+      } catch (err) {
+        console.warn("Error fetching bank accounts:", err);
+        setBankAccounts([]);
+      }
+    }
+
+    fetchBankAccounts();
+  }, [isOpen]);
+
+  const importRows = useMemo(() => {
+    if (!statement || !user) return [];
+    return buildImportRows(statement, mapping, options, bankAccounts, user.id);
+  }, [statement, mapping, options, bankAccounts, user]);
+
+  const validRows = importRows.filter((row) => row.transaction);
+  const invalidRows = importRows.filter((row) => !row.transaction);
+
+  // Likely duplicates of already saved transactions, keyed by row number
+  const duplicatesByRow = useMemo(() => {
+    const result = new Map<number, Transaction>();
+    importRows.forEach((row) => {
+      if (!row.transaction) return;
+      const [match] = findDuplicates(row.transaction, existingTransactions);
+      if (match) result.set(row.rowNumber, match.transaction);
+    });
+    return result;
+  }, [importRows, existingTransactions]);
+
+  const rowsToImport = validRows.filter(
+    (row) => !skipDuplicates || !duplicatesByRow.has(row.rowNumber)
+  );
+
+  const resetState = () => {
+    setStep("upload");
+    setFileName(null);
+    setStatement(null);
+    setMapping(EMPTY_MAPPING);
+    setOptions(DEFAULT_OPTIONS);
+    setExistingTransactions([]);
+    setSkipDuplicates(true);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const content = await file.text();
+      const format = detectStatementFormat(file.name, content);
+      const parsed = parseStatement(content, format);
+
+      if (parsed.rows.length === 0) {
+        setError(t("transactions.import.noRows"));
+        return;
+      }
+
+      setFileName(file.name);
+      setStatement(parsed);
+      setMapping(suggestColumnMapping(parsed));
+      setStep("map");
+    } catch (err) {
+      console.error("Error reading statement file:", err);
+      setError(t("transactions.import.readError"));
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      [field]: value === "none" ? null : parseInt(value, 10),
+    }));
+  };
+
+  // Load saved transactions around the statement's dates for duplicate checks
+  const handlePreview = async () => {
+    const dates = validRows
+      .map((row) => row.transaction?.date)
+      .filter((date): date is string => !!date)
+      .sort();
+
+    try {
+      setIsLoadingPreview(true);
+
+      if (dates.length > 0) {
+        const { data, error } = await getTransactionsByDateRange(
+          shiftDate(dates[0], -3),
+          shiftDate(dates[dates.length - 1], 3)
+        );
+        if (error) throw error;
+        setExistingTransactions((data || []) as Transaction[]);
+      }
+    } catch (err) {
+      console.warn("Error loading transactions for duplicate check:", err);
+      setExistingTransactions([]);
+    } finally {
+      setIsLoadingPreview(false);
+      setStep("preview");
+    }
+  };
+
+  const handleImport = async () => {
+    const transactions = rowsToImport
+      .map((row) => row.transaction)
+      .filter((t): t is TransactionInsert => t !== null);
+    if (transactions.length === 0) return;
+
+    try {
+      setIsImporting(true);
+      setError(null);
+
+      const { data, error } = await createTransactions(transactions);
+      if (error) {
+        throw new Error(
+          `${error.message} (${data.length} of ${transactions.length} imported)`
+        );
+      }
+
+      // Imported rows have no category yet; let the category rules fill it in
+      const { data: rulesResult, error: rulesError } = await applyCategoryRules(
+        data
+      );
+      if (rulesError) {
+        console.warn("Error applying category rules:", rulesError);
+      }
+      const categorized = rulesResult?.categorized || 0;
+
+      showToast({
+        type: "success",
+        title: t("transactions.import.complete"),
+        description: [
+          t("transactions.import.imported", { count: data.length }),
+          ...(importRows.length > data.length
+            ? [
+                t("transactions.import.skipped", {
+                  count: importRows.length - data.length,
+                }),
+              ]
+            : []),
+          ...(categorized > 0
+            ? [t("transactions.import.categorized", { count: categorized })]
+            : []),
+        ].join(", "),
+        duration: 3000,
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (err) {
+      console.error("Error importing transactions:", err);
+      setError(
+        t("transactions.import.failedWithReason", {
+          reason: (err as Error).message,
+        })
+      );
+      showErrorToast(t("transactions.import.failed"));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const accountName = (id: string | null | undefined) =>
+    bankAccounts.find((account) => account.id === id)?.name || "—";
+
+  const renderDuplicateHint = (rowNumber: number) => {
+    const duplicate = duplicatesByRow.get(rowNumber);
+    if (!duplicate) return null;
+
+    return (
+      <div className="text-xs text-yellow-700 flex items-center gap-1">
+        <Copy className="h-3 w-3" />
+        {t("transactions.import.duplicateOf", {
+          description: duplicate.description || t("transactions.noDescription"),
+          date: formatDate(duplicate.date),
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("transactions.import.title")}</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && t("transactions.import.uploadDescription")}
+            {step === "map" &&
+              t("transactions.import.mapDescription", { file: fileName || "" })}
+            {step === "preview" && t("transactions.import.previewDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Step 1: Upload */}
+        {step === "upload" && (
+          <div className="flex flex-col items-center justify-center gap-4 border-2 border-dashed rounded-lg p-10">
+            <FileUp className="h-10 w-10 text-muted-foreground" />
+            <Label htmlFor="statementFile" className="text-center">
+              {t("transactions.import.chooseFile")}
+            </Label>
+            <Input
+              id="statementFile"
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif,.txt"
+              onChange={handleFileChange}
+              className="max-w-xs"
+            />
+          </div>
+        )}
+
+        {/* Step 2: Column mapping */}
+        {step === "map" && statement && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {t(field.label)}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={
+                      mapping[field.key] === null
+                        ? "none"
+                        : String(mapping[field.key])
+                    }
+                    onValueChange={(value) =>
+                      handleMappingChange(field.key, value)
+                    }
+                  >
+                    <SelectTrigger id={`map-${field.key}`}>
+                      <SelectValue
+                        placeholder={t("transactions.import.selectColumn")}
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">
+                        {t("transactions.import.notMapped")}
+                      </SelectItem>
+                      {statement.columns.map((column, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {column}
+                          {statement.rows[0]?.[index]
+                            ? ` ${t("transactions.import.example", {
+                                value: statement.rows[0][index],
+                              })}`
+                            : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="defaultBankAccount">
+                  {t("transactions.import.defaultAccount")}
+                </Label>
+                <Select
+                  value={options.defaultBankAccountId || "none"}
+                  onValueChange={(value) =>
+                    setOptions((prev) => ({
+                      ...prev,
+                      defaultBankAccountId: value === "none" ? null : value,
+                    }))
+                  }
+                >
+                  <SelectTrigger id="defaultBankAccount">
+                    <SelectValue
+                      placeholder={t("transactions.form.selectBankAccount")}
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t("common.none")}</SelectItem>
+                    {bankAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dateOrder">
+                  {t("transactions.import.dateFormat")}
+                </Label>
+                <Select
+                  value={options.dateOrder}
+                  onValueChange={(value) =>
+                    setOptions((prev) => ({
+                      ...prev,
+                      dateOrder: value as ImportOptions["dateOrder"],
+                    }))
+                  }
+                >
+                  <SelectTrigger id="dateOrder">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      {t("transactions.import.detect")}
+                    </SelectItem>
+                    <SelectItem value="YMD">
+                      {t("transactions.import.ymd")}
+                    </SelectItem>
+                    <SelectItem value="DMY">
+                      {t("transactions.import.dmy")}
+                    </SelectItem>
+                    <SelectItem value="MDY">
+                      {t("transactions.import.mdy")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="decimalSeparator">
+                  {t("transactions.import.decimalSeparator")}
+                </Label>
+                <Select
+                  value={options.decimalSeparator}
+                  onValueChange={(value) =>
+                    setOptions((prev) => ({
+                      ...prev,
+                      decimalSeparator: value as "." | ",",
+                    }))
+                  }
+                >
+                  <SelectTrigger id="decimalSeparator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">
+                      {t("transactions.import.point")}
+                    </SelectItem>
+                    <SelectItem value=",">
+                      {t("transactions.import.comma")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amountSign">
+                  {t("transactions.import.amountSign")}
+                </Label>
+                <Select
+                  value={options.amountSign}
+                  onValueChange={(value) =>
+                    setOptions((prev) => ({
+                      ...prev,
+                      amountSign: value as ImportOptions["amountSign"],
+                    }))
+                  }
+                >
+                  <SelectTrigger id="amountSign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="negative-is-expense">
+                      {t("transactions.import.negativeIsExpense")}
+                    </SelectItem>
+                    <SelectItem value="positive-is-expense">
+                      {t("transactions.import.positiveIsExpense")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="outline" className="gap-1">
+                <CheckCircle2 className="h-3 w-3 text-green-600" />
+                {t("transactions.import.ready", { count: validRows.length })}
+              </Badge>
+              {invalidRows.length > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {t("transactions.import.withErrors", {
+                    count: invalidRows.length,
+                  })}
+                </Badge>
+              )}
+              {duplicatesByRow.size > 0 && (
+                <Badge
+                  variant="outline"
+                  className="gap-1 border-yellow-400 text-yellow-700"
+                >
+                  <Copy className="h-3 w-3" />
+                  {t("transactions.import.possibleDuplicates", {
+                    count: duplicatesByRow.size,
+                  })}
+                </Badge>
+              )}
+            </div>
+
+            {duplicatesByRow.size > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="skipDuplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) =>
+                    setSkipDuplicates(checked === true)
+                  }
+                />
+                <Label htmlFor="skipDuplicates">
+                  {t("transactions.import.skipDuplicates")}
+                </Label>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("transactions.import.row")}</TableHead>
+                  <TableHead>{t("common.date")}</TableHead>
+                  <TableHead>{t("common.description")}</TableHead>
+                  <TableHead>{t("common.account")}</TableHead>
+                  <TableHead className="text-right">
+                    {t("common.amount")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {importRows.map((row) => (
+                  <TableRow
+                    key={row.rowNumber}
+                    className={row.transaction ? "" : "bg-destructive/10"}
+                  >
+                    <TableCell className="text-muted-foreground">
+                      {row.rowNumber}
+                    </TableCell>
+                    {row.transaction ? (
+                      <>
+                        <TableCell>
+                          {formatDate(row.transaction.date)}
+                        </TableCell>
+                        <TableCell>
+                          {row.transaction.description ||
+                            t("transactions.noDescription")}
+                          {renderDuplicateHint(row.rowNumber)}
+                        </TableCell>
+                        <TableCell>
+                          {accountName(row.transaction.bank_account_id)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            row.transaction.type === "expense"
+                              ? "text-red-500"
+                              : "text-green-500"
+                          }`}
+                        >
+                          {row.transaction.type === "expense" ? "-" : "+"}
+                          {formatCurrency(row.transaction.amount)}
+                        </TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={4}>
+                        <div className="text-sm text-destructive">
+                          {row.errors.join("; ")}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {row.values.join(" | ")}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={resetState}>
+                {t("common.back")}
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={
+                  mapping.date === null ||
+                  mapping.amount === null ||
+                  isLoadingPreview
+                }
+              >
+                {isLoadingPreview
+                  ? t("common.loading")
+                  : t("transactions.import.preview")}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setStep("map")}
+                disabled={isImporting}
+              >
+                {t("common.back")}
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || rowsToImport.length === 0}
+              >
+                {isImporting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    {t("transactions.import.importing")}
+                  </>
+                ) : (
+                  t("transactions.import.submit", {
+                    count: rowsToImport.length,
+                  })
+                )}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
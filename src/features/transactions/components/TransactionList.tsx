@@ -9,8 +9,14 @@ import {
 import { formatCurrency, formatDate } from "../../../utils/formatters";
 import { TransactionFilters } from "./TransactionFilters";
 import { TransactionDialog } from "./TransactionDialog";
+import { TransferSidebarModal } from "./TransferForm";
+import { useLanguage } from "../../../providers/languageUtils";
 import type { TransactionType as FilterTransactionType } from "./TransactionFilters";
-import { Edit, Trash2, Plus } from "lucide-react";
+import {
+  matchesTransactionFilters,
+  saveCurrentTransactionFilters,
+} from "../utils/transactionFilters";
+import { ArrowRightLeft, Edit, Trash2, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -55,6 +61,7 @@ export function TransactionList({
   className = "",
   filters: externalFilters,
 }: TransactionListProps = {}) {
+  const { t } = useLanguage();
   const [transactions, setTransactions] = useState<TransactionType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -70,6 +77,7 @@ export function TransactionList({
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] =
     useState<TransactionType | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
 
   // Update internal filters when external filters change
   useEffect(() => {
@@ -102,54 +110,21 @@ export function TransactionList({
         }
 
         // Apply client-side filters
-        const filteredData = (result.data || []).filter((transaction) => {
-          // Skip any filter that doesn't have a value
-          if (filters.type && filters.type !== "all") {
-            if (transaction.type !== filters.type.toLowerCase()) return false;
-          }
-
-          if (filters.categoryId) {
-            if (transaction.category_id !== filters.categoryId) return false;
-          }
-
-          if (filters.bankAccountId) {
-            if (transaction.bank_account_id !== filters.bankAccountId)
-              return false;
-          }
-
-          if (filters.minAmount !== undefined) {
-            if (transaction.amount < filters.minAmount) return false;
-          }
-
-          if (filters.maxAmount !== undefined) {
-            if (transaction.amount > filters.maxAmount) return false;
-          }
-
-          if (filters.searchQuery) {
-            const query = filters.searchQuery.toLowerCase();
-            const matchesSearch =
-              transaction.description?.toLowerCase().includes(query) ||
-              transaction.category_name?.toLowerCase().includes(query) ||
-              transaction.payment_method?.toLowerCase().includes(query) ||
-              transaction.notes?.toLowerCase().includes(query);
-
-            if (!matchesSearch) return false;
-          }
-
-          return true;
-        });
+        const filteredData = (result.data || []).filter((transaction) =>
+          matchesTransactionFilters(transaction, filters)
+        );
 
         setTransactions(filteredData);
       } catch (err) {
         console.error("Error fetching transactions:", err);
-        setError("Failed to load transactions");
+        setError(t("transactions.loadError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTransactions();
-  }, [filters, limit]);
+  }, [filters, limit, t]);
 
   // Handle opening the transaction dialog
   const handleAddTransaction = () => {
@@ -159,7 +134,11 @@ export function TransactionList({
 
   const handleEditTransaction = (transaction: TransactionType) => {
     setSelectedTransaction(transaction);
-    setIsDialogOpen(true);
+    if (transaction.type === "transfer") {
+      setIsTransferOpen(true);
+    } else {
+      setIsDialogOpen(true);
+    }
   };
 
   // Handle transaction deletion
@@ -181,7 +160,7 @@ export function TransactionList({
       setTransactionToDelete(null);
     } catch (err) {
       console.error("Error deleting transaction:", err);
-      setError("Failed to delete transaction");
+      setError(t("transactions.deleteError"));
     }
   };
 
@@ -193,6 +172,7 @@ export function TransactionList({
   // Handle filter changes
   const handleFilterChange = (newFilters: TransactionListFilters) => {
     setFilters(newFilters);
+    saveCurrentTransactionFilters(newFilters);
   };
 
   if (isLoading) {
@@ -215,7 +195,7 @@ export function TransactionList({
     return (
       <div className="p-4 text-center text-muted-foreground">
         <p className="mb-4">
-          No transactions found. Add your first transaction to get started!
+          {t("transactions.empty")}
         </p>
       </div>
     );
@@ -243,7 +223,7 @@ export function TransactionList({
         <div className="flex justify-end mb-4">
           <Button onClick={handleAddTransaction}>
             <Plus className="h-4 w-4 mr-2" />
-            Add Transaction
+            {t("transactions.add")}
           </Button>
         </div>
       )}
@@ -264,19 +244,41 @@ export function TransactionList({
           >
             {/* Transaction details */}
             <div className="flex items-center space-x-4">
-              <div
-                className={`w-2 h-2 rounded-full ${
-                  transaction.type === "expense" ? "bg-red-500" : "bg-green-500"
-                }`}
-              />
+              {transaction.type === "transfer" ? (
+                <ArrowRightLeft className="w-3 h-3 text-blue-500" />
+              ) : (
+                <div
+                  className={`w-2 h-2 rounded-full ${
+                    transaction.type === "expense" ? "bg-red-500" : "bg-green-500"
+                  }`}
+                />
+              )}
               <div>
                 <div className="font-medium">
-                  {transaction.description || "No description"}
+                  {transaction.description ||
+                    (transaction.type === "transfer"
+                      ? t("common.transfer")
+                      : t("transactions.noDescription"))}
                 </div>
                 <div className="text-muted-foreground text-sm">
                   {formatDate(transaction.date)}
-                  {transaction.category_name && <span className="mx-1">•</span>}
-                  {transaction.category_name}
+                  {transaction.type === "transfer" ? (
+                    <>
+                      <span className="mx-1">•</span>
+                      {transaction.bank_account_name ||
+                        t("transactions.deletedAccount")}{" "}
+                      →{" "}
+                      {transaction.transfer_account_name ||
+                        t("transactions.deletedAccount")}
+                    </>
+                  ) : (
+                    <>
+                      {transaction.category_name && (
+                        <span className="mx-1">•</span>
+                      )}
+                      {transaction.category_name}
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -285,13 +287,21 @@ export function TransactionList({
             <div className="flex items-center space-x-4">
               <span
                 className={`font-medium ${
-                  transaction.type === "expense"
+                  transaction.type === "transfer"
+                    ? "text-blue-500"
+                    : transaction.type === "expense"
                     ? "text-red-500"
                     : "text-green-500"
                 }`}
               >
-                {transaction.type === "expense" ? "-" : "+"}
-                {formatCurrency(transaction.amount)}
+                {transaction.type === "transfer"
+                  ? ""
+                  : transaction.type === "expense"
+                  ? "-"
+                  : "+"}
+                {formatCurrency(transaction.amount, {
+                  currency: transaction.currency,
+                })}
               </span>
 
               {!compact && (
@@ -327,7 +337,7 @@ export function TransactionList({
       {showPagination && transactions.length >= limit && (
         <div className="flex justify-center mt-4">
           <Button variant="outline" onClick={() => setLimit(limit + 10)}>
-            Load More
+            {t("transactions.loadMore")}
           </Button>
         </div>
       )}
@@ -339,23 +349,33 @@ export function TransactionList({
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Transaction</AlertDialogTitle>
+            <AlertDialogTitle>{t("transactions.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this transaction? This action
-              cannot be undone.
+              {t("transactions.deleteConfirm")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel onClick={handleDeleteCancel}>
-              Cancel
+              {t("common.cancel")}
             </AlertDialogCancel>
             <AlertDialogAction onClick={handleDeleteConfirm}>
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Transfer Form */}
+      <TransferSidebarModal
+        isOpen={isTransferOpen}
+        transfer={selectedTransaction || undefined}
+        onClose={() => setIsTransferOpen(false)}
+        onSuccess={() => {
+          setSelectedTransaction(null);
+          setFilters({ ...filters });
+        }}
+      />
+
       {/* Transaction Dialog */}
       <TransactionDialog
         isOpen={isDialogOpen}
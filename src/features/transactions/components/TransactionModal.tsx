@@ -1,5 +1,6 @@
 import { Transaction } from "../../../api/supabase/transactions";
 import { TransactionForm } from "./TransactionForm";
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   Sheet,
   SheetContent,
@@ -21,12 +22,13 @@ export function TransactionModal({
   transaction,
   onSuccess,
 }: TransactionModalProps) {
+  const { t } = useLanguage();
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="right" className="p-0 sm:max-w-md">
         <SheetHeader className="p-6 pb-2">
           <SheetTitle>
-            {transaction ? "Edit Expense" : "Add Expense"}
+            {transaction ? t("transactions.edit") : t("transactions.addExpense")}
           </SheetTitle>
           <SheetClose className="absolute top-4 right-4" />
         </SheetHeader>
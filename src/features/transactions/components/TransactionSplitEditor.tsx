@@ -0,0 +1,134 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatCurrency } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
+
+// A split line while it is being edited; the amount is kept as typed
+export interface SplitLineDraft {
+  amount: string;
+  categoryId: string;
+  note: string;
+}
+
+interface TransactionSplitEditorProps {
+  lines: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  categories: { id: string; name: string }[];
+  total: number;
+}
+
+const emptySplitLine = (): SplitLineDraft => ({
+  amount: "",
+  categoryId: "none",
+  note: "",
+});
+
+export function TransactionSplitEditor({
+  lines,
+  onChange,
+  categories,
+  total,
+}: TransactionSplitEditorProps) {
+  const { t } = useLanguage();
+  const allocated = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.amount) || 0),
+    0
+  );
+  const remaining = Math.round((total - allocated) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+    onChange(
+      lines.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      {lines.map((line, index) => (
+        <div key={index} className="grid grid-cols-[90px_1fr_auto] gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            aria-label={t("transactions.split.amount")}
+          />
+          <Select
+            value={line.categoryId}
+            onValueChange={(value) => updateLine(index, { categoryId: value })}
+          >
+            <SelectTrigger aria-label={t("transactions.split.category")}>
+              <SelectValue placeholder={t("common.category")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t("common.none")}</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={lines.length <= 2}
+            onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            aria-label={t("transactions.split.remove")}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Input
+            className="col-span-2 col-start-2"
+            placeholder={t("transactions.split.notePlaceholder")}
+            value={line.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-1">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            // Prefill the new line with whatever is left to allocate
+            const line = emptySplitLine();
+            if (remaining > 0) line.amount = remaining.toFixed(2);
+            onChange([...lines, line]);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          {t("transactions.split.addLine")}
+        </Button>
+        <span
+          className={`text-sm ${
+            remaining === 0 ? "text-muted-foreground" : "text-destructive"
+          }`}
+        >
+          {remaining === 0
+            ? t("transactions.split.allocated")
+            : remaining > 0
+            ? t("transactions.split.remaining", {
+                amount: formatCurrency(remaining),
+              })
+            : t("transactions.split.over", {
+                amount: formatCurrency(-remaining),
+              })}
+        </span>
+      </div>
+    </div>
+  );
+}
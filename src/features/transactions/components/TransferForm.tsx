@@ -0,0 +1,293 @@
+import { useState, useEffect } from "react";
+import { AlertCircle, ArrowDown } from "lucide-react";
+import { useAuth } from "../../../state/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetClose,
+} from "@/components/ui/sheet";
+import {
+  getBankAccounts,
+  BankAccount,
+} from "../../../api/supabase/bankAccounts";
+import {
+  createTransfer,
+  updateTransfer,
+} from "../../../api/supabase/transfers";
+import type { Transaction } from "../../../api/supabase/transactions";
+import { formatCurrency } from "../../../utils/formatters";
+import { useLanguage } from "../../../providers/languageUtils";
+import {
+  showItemCreatedToast,
+  showItemUpdatedToast,
+} from "../../../utils/toast";
+
+interface TransferFormProps {
+  transfer?: Transaction;
+  defaultFromAccountId?: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Sidebar modal for Add/Edit Transfer
+export function TransferSidebarModal({
+  isOpen,
+  ...props
+}: TransferFormProps & { isOpen: boolean }) {
+  const { t } = useLanguage();
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && props.onClose()}>
+      <SheetContent side="right" className="p-0 sm:max-w-md overflow-y-auto">
+        <SheetHeader className="p-6 pb-2">
+          <SheetTitle>
+            {props.transfer
+              ? t("transactions.transfer.edit")
+              : t("transactions.transfer.title")}
+          </SheetTitle>
+          <SheetClose className="absolute top-4 right-4" />
+        </SheetHeader>
+        <div className="px-6 pb-6">
+          <TransferForm key={props.transfer?.id || "new"} {...props} />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export function TransferForm({
+  transfer,
+  defaultFromAccountId,
+  onClose,
+  onSuccess,
+}: TransferFormProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [fromAccountId, setFromAccountId] = useState(
+    transfer?.bank_account_id || defaultFromAccountId || "none"
+  );
+  const [toAccountId, setToAccountId] = useState(
+    transfer?.transfer_account_id || "none"
+  );
+  const [amount, setAmount] = useState(transfer?.amount?.toString() || "");
+  const [date, setDate] = useState(
+    transfer?.date || new Date().toISOString().split("T")[0]
+  );
+  const [description, setDescription] = useState(transfer?.description || "");
+  const [notes, setNotes] = useState(transfer?.notes || "");
+
+  useEffect(() => {
+    async function fetchAccounts() {
+      const { data, error } = await getBankAccounts();
+      if (error) {
+        console.error("Error fetching bank accounts:", error);
+        setError(t("common.loadAccountsError"));
+      } else {
+        setBankAccounts(data || []);
+      }
+    }
+
+    fetchAccounts();
+  }, [t]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) return;
+
+    // Validate form
+    if (fromAccountId === "none" || toAccountId === "none") {
+      setError(t("transactions.transfer.selectBoth"));
+      return;
+    }
+
+    if (fromAccountId === toAccountId) {
+      setError(t("transactions.transfer.selectDifferent"));
+      return;
+    }
+
+    const currencies = bankAccounts
+      .filter(
+        (account) => account.id === fromAccountId || account.id === toAccountId
+      )
+      .map((account) => account.currency);
+    if (new Set(currencies).size > 1) {
+      setError(t("transactions.transfer.sameCurrency"));
+      return;
+    }
+
+    if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
+      setError(t("common.invalidAmount"));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const values = {
+      fromAccountId,
+      toAccountId,
+      amount: parseFloat(amount),
+      date,
+      description: description.trim() || null,
+      notes: notes || null,
+    };
+
+    try {
+      if (transfer) {
+        const { error } = await updateTransfer(transfer.id, values);
+        if (error) throw error;
+        showItemUpdatedToast(t("toast.items.transfer"));
+      } else {
+        const { error } = await createTransfer(user.id, values);
+        if (error) throw error;
+        showItemCreatedToast(t("toast.items.transfer"));
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      console.error("Error saving transfer:", err);
+      setError(t("transactions.transfer.saveError"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderAccountOptions = (excludeId: string) =>
+    bankAccounts
+      .filter((account) => account.id !== excludeId)
+      .map((account) => (
+        <SelectItem key={account.id} value={account.id}>
+          {account.name} (
+          {formatCurrency(account.current_balance, {
+            currency: account.currency,
+          })}
+          )
+        </SelectItem>
+      ));
+
+  return (
+    <>
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label>{t("transactions.transfer.from")}</Label>
+          <Select value={fromAccountId} onValueChange={setFromAccountId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("common.selectAccount")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t("common.selectAccount")}</SelectItem>
+              {renderAccountOptions(toAccountId)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-center">
+          <ArrowDown className="h-4 w-4 text-muted-foreground" />
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("transactions.transfer.to")}</Label>
+          <Select value={toAccountId} onValueChange={setToAccountId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("common.selectAccount")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t("common.selectAccount")}</SelectItem>
+              {renderAccountOptions(fromAccountId)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-amount">{t("common.amount")}</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-date">{t("common.date")}</Label>
+            <Input
+              id="transfer-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="transfer-description">
+            {t("common.description")}
+          </Label>
+          <Input
+            id="transfer-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("transactions.transfer.descriptionPlaceholder")}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="transfer-notes">{t("common.notes")}</Label>
+          <Textarea
+            id="transfer-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t("transactions.transfer.help")}
+        </p>
+
+        <div className="mt-4 flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? t("common.saving")
+              : transfer
+              ? t("common.update")
+              : t("transactions.transfer.submit")}
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+}
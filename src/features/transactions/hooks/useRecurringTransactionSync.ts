@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+import { useAuth } from "../../../state/useAuth";
+import { processDueRecurringTransactions } from "../../../api/supabase/recurringTransactions";
+import { showToast } from "../../../utils/toast";
+import { translate } from "../../../i18n";
+
+// Users whose recurring transactions were already generated this session
+const syncedUsers = new Set<string>();
+
+/**
+ * Generate due recurring transactions once per session, when the user opens
+ * the app
+ */
+export const useRecurringTransactionSync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user || syncedUsers.has(user.id)) return;
+    syncedUsers.add(user.id);
+
+    const syncRecurringTransactions = async () => {
+      const { data, error } = await processDueRecurringTransactions();
+
+      if (error) {
+        console.error("Error generating recurring transactions:", error);
+        // Try again on the next page load
+        syncedUsers.delete(user.id);
+        return;
+      }
+
+      if (data && data.created > 0) {
+        showToast({
+          type: "info",
+          title: translate("transactions.recurring.title"),
+          description: translate("transactions.recurring.syncAdded", {
+            count: data.created,
+          }),
+          duration: 5000,
+        });
+      }
+    };
+
+    syncRecurringTransactions();
+  }, [user]);
+};
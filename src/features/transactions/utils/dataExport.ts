@@ -0,0 +1,365 @@
+import type { TransactionFilters } from "../components/TransactionFilters";
+import type {
+  ArchiveSection,
+  DataArchive,
+} from "../../../api/supabase/dataArchive";
+import type { TranslationKey } from "../../../i18n";
+import { matchesTransactionFilters } from "./transactionFilters";
+import { formatAlertThresholds } from "../../../api/supabase/budgetAlerts";
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// The sections offered as their own CSV file
+export type ExportEntity = Extract<
+  ArchiveSection,
+  | "transactions"
+  | "categories"
+  | "tags"
+  | "budgets"
+  | "bills"
+  | "goals"
+  | "bank_accounts"
+>;
+
+export const EXPORT_ENTITIES: { value: ExportEntity; label: TranslationKey }[] =
+  [
+    { value: "transactions", label: "settings.data.entities.transactions" },
+    { value: "categories", label: "settings.data.entities.categories" },
+    { value: "tags", label: "settings.data.entities.tags" },
+    { value: "budgets", label: "settings.data.entities.budgets" },
+    { value: "bills", label: "settings.data.entities.bills" },
+    { value: "goals", label: "settings.data.entities.goals" },
+    { value: "bank_accounts", label: "settings.data.entities.bank_accounts" },
+  ];
+
+/**
+ * Quote a CSV cell when needed. Text starting with a formula character is
+ * prefixed so spreadsheets don't evaluate it.
+ */
+function toCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header and rows
+ */
+export function toCsv(columns: string[], rows: CsvValue[][]): string {
+  return [columns, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Get the archived transactions that pass the filters
+ */
+export function getFilteredTransactions(
+  archive: DataArchive,
+  filters: TransactionFilters
+) {
+  const categoryNames = new Map(archive.categories.map((c) => [c.id, c.name]));
+
+  return archive.transactions.filter((transaction) =>
+    matchesTransactionFilters(
+      {
+        ...transaction,
+        category_name: transaction.category_id
+          ? categoryNames.get(transaction.category_id)
+          : null,
+      },
+      filters
+    )
+  );
+}
+
+/**
+ * Build the CSV export for one kind of record. Transactions honour the
+ * filters; linked records are shown by name.
+ */
+export function buildEntityCsv(
+  entity: ExportEntity,
+  archive: DataArchive,
+  filters: TransactionFilters
+): string {
+  const categoryNames = new Map(archive.categories.map((c) => [c.id, c.name]));
+  const accountNames = new Map(
+    archive.bank_accounts.map((a) => [a.id, a.name])
+  );
+  const categoryName = (id: string | null) =>
+    id ? categoryNames.get(id) || "" : "";
+  const accountName = (id: string | null) =>
+    id ? accountNames.get(id) || "" : "";
+
+  switch (entity) {
+    case "transactions": {
+      const tagNames = new Map(archive.tags.map((t) => [t.id, t.name]));
+      const transactionTags = new Map<string, string[]>();
+      archive.transaction_tags.forEach((link) => {
+        const name = tagNames.get(link.tag_id);
+        if (!name) return;
+        transactionTags.set(link.transaction_id, [
+          ...(transactionTags.get(link.transaction_id) || []),
+          name,
+        ]);
+      });
+
+      return toCsv(
+        [
+          "date",
+          "type",
+          "description",
+          "amount",
+          "currency",
+          "category",
+          "account",
+          "transfer_account",
+          "payment_method",
+          "status",
+          "tags",
+          "notes",
+        ],
+        getFilteredTransactions(archive, filters).map((t) => [
+          t.date,
+          t.type,
+          t.description,
+          t.amount,
+          t.currency,
+          categoryName(t.category_id),
+          accountName(t.bank_account_id),
+          accountName(t.transfer_account_id),
+          t.payment_method,
+          t.status,
+          (transactionTags.get(t.id) || []).join("; "),
+          t.notes,
+        ])
+      );
+    }
+    case "categories":
+      return toCsv(
+        ["name", "type", "color", "icon"],
+        archive.categories.map((c) => [c.name, c.type, c.color, c.icon])
+      );
+    case "tags":
+      return toCsv(
+        ["name", "color"],
+        archive.tags.map((t) => [t.name, t.color])
+      );
+    case "budgets":
+      return toCsv(
+        [
+          "name",
+          "category",
+          "amount",
+          "period",
+          "start_date",
+          "end_date",
+          "rollover",
+          "alert_thresholds",
+        ],
+        archive.budgets.map((b) => [
+          b.name,
+          categoryName(b.category_id),
+          b.amount,
+          b.period,
+          b.start_date,
+          b.end_date,
+          b.rollover,
+          // Archives made before thresholds existed don't have them
+          formatAlertThresholds(b.alert_thresholds || []),
+        ])
+      );
+    case "bills":
+      return toCsv(
+        [
+          "name",
+          "amount",
+          "category",
+          "frequency",
+          "next_due_date",
+          "status",
+          "auto_pay",
+          "notes",
+        ],
+        archive.bills.map((b) => [
+          b.name,
+          b.amount,
+          categoryName(b.category_id),
+          b.frequency,
+          b.next_due_date,
+          b.status,
+          b.auto_pay,
+          b.notes,
+        ])
+      );
+    case "goals":
+      return toCsv(
+        [
+          "name",
+          "target_amount",
+          "current_amount",
+          "start_date",
+          "target_date",
+          "category",
+          "status",
+          "notes",
+        ],
+        archive.goals.map((g) => [
+          g.name,
+          g.target_amount,
+          g.current_amount,
+          g.start_date,
+          g.target_date,
+          categoryName(g.category_id),
+          g.status,
+          g.notes,
+        ])
+      );
+    case "bank_accounts":
+      return toCsv(
+        [
+          "name",
+          "account_type",
+          "institution",
+          "account_number",
+          "currency",
+          "opening_balance",
+          "current_balance",
+          "notes",
+        ],
+        archive.bank_accounts.map((a) => [
+          a.name,
+          a.account_type,
+          a.institution,
+          a.account_number,
+          a.currency,
+          a.opening_balance,
+          a.current_balance,
+          a.notes,
+        ])
+      );
+  }
+}
+
+const escapeOfx = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const toOfxDate = (date: string) => date.slice(0, 10).replace(/-/g, "");
+
+const OFX_ACCOUNT_TYPES: Record<string, string> = {
+  checking: "CHECKING",
+  savings: "SAVINGS",
+  credit: "CREDITLINE",
+};
+
+/**
+ * Build an OFX 1.02 statement per bank account from the filtered
+ * transactions. Transactions without an account are left out.
+ */
+export function buildTransactionsOfx(
+  archive: DataArchive,
+  filters: TransactionFilters
+): string {
+  const transactions = getFilteredTransactions(archive, filters);
+
+  const statements = archive.bank_accounts.flatMap((account) => {
+    // Transfers are listed on both of their accounts
+    const accountTransactions = transactions.filter(
+      (t) =>
+        t.bank_account_id === account.id || t.transfer_account_id === account.id
+    );
+    if (accountTransactions.length === 0) return [];
+
+    const dates = accountTransactions.map((t) => t.date).sort();
+    const entries = accountTransactions.map((t) => {
+      const incoming =
+        t.type === "income" || t.transfer_account_id === account.id;
+      const amount = incoming ? t.amount : -t.amount;
+      const name = t.description || "Transaction";
+      return [
+        "<STMTTRN>",
+        `<TRNTYPE>${
+          t.type === "income"
+            ? "CREDIT"
+            : t.type === "transfer"
+            ? "XFER"
+            : "DEBIT"
+        }`,
+        `<DTPOSTED>${toOfxDate(t.date)}`,
+        `<TRNAMT>${amount.toFixed(2)}`,
+        `<FITID>${t.id}`,
+        `<NAME>${escapeOfx(name.slice(0, 32))}`,
+        ...(t.notes ? [`<MEMO>${escapeOfx(t.notes)}`] : []),
+        "</STMTTRN>",
+      ].join("\n");
+    });
+
+    return [
+      [
+        "<STMTTRNRS>",
+        `<TRNUID>${account.id}`,
+        "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+        "<STMTRS>",
+        `<CURDEF>${account.currency}`,
+        "<BANKACCTFROM>",
+        "<BANKID>0",
+        `<ACCTID>${escapeOfx(account.account_number || account.id)}`,
+        `<ACCTTYPE>${OFX_ACCOUNT_TYPES[account.account_type] || "CHECKING"}`,
+        "</BANKACCTFROM>",
+        "<BANKTRANLIST>",
+        `<DTSTART>${toOfxDate(dates[0])}`,
+        `<DTEND>${toOfxDate(dates[dates.length - 1])}`,
+        ...entries,
+        "</BANKTRANLIST>",
+        "<LEDGERBAL>",
+        `<BALAMT>${account.current_balance.toFixed(2)}`,
+        `<DTASOF>${toOfxDate(archive.exported_at)}`,
+        "</LEDGERBAL>",
+        "</STMTRS>",
+        "</STMTTRNRS>",
+      ].join("\n"),
+    ];
+  });
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${toOfxDate(archive.exported_at)}`,
+    "<LANGUAGE>ENG",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements,
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Save text content as a file through the browser
+ */
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
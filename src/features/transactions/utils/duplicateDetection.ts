@@ -0,0 +1,171 @@
+// Minimal shape needed to compare two transactions; works for saved rows,
+// TransactionInsert objects from the form and rows from a statement import.
+export interface DuplicateCandidate {
+  id?: string;
+  amount: number;
+  date: string;
+  type: string;
+  bank_account_id?: string | null;
+  description?: string | null;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate> {
+  transaction: T;
+  score: number;
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate> {
+  first: T;
+  second: T;
+  score: number;
+}
+
+export interface DuplicateOptions {
+  dateWindowDays?: number;
+  threshold?: number;
+}
+
+const DEFAULT_DATE_WINDOW_DAYS = 3;
+const DEFAULT_THRESHOLD = 0.6;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().split("T")[0];
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(
+    Math.round(
+      (Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / DAY_MS
+    )
+  );
+}
+
+/**
+ * Normalize a description for comparison: lowercase, drop card/terminal
+ * numbers and punctuation, and collapse whitespace
+ */
+export function normalizeDescription(description?: string | null): string {
+  return (description || "")
+    .toLowerCase()
+    .replace(/[0-9]+/g, " ")
+    .replace(/[^\p{L}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized descriptions
+ */
+export function descriptionSimilarity(
+  a?: string | null,
+  b?: string | null
+): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+
+  // Nothing to compare against; neither evidence for nor against
+  if (!left || !right) return 0.5;
+  if (left === right) return 1;
+
+  const bigrams = (text: string) => {
+    const result = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      result.set(bigram, (result.get(bigram) || 0) + 1);
+    }
+    return result;
+  };
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let overlap = 0;
+
+  leftBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, rightBigrams.get(bigram) || 0);
+  });
+
+  const total = left.length - 1 + (right.length - 1);
+  return total > 0 ? (2 * overlap) / total : 0;
+}
+
+/**
+ * Score how likely two transactions are the same purchase, from 0 to 1.
+ * The amount and type must match exactly and the dates must fall within the
+ * window; the account and description then raise or lower the score.
+ */
+export function scoreDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+): number {
+  if (a.type !== b.type) return 0;
+  if (Math.abs(Number(a.amount) - Number(b.amount)) >= 0.005) return 0;
+
+  const dayDifference = daysBetween(a.date, b.date);
+  if (dayDifference > dateWindowDays) return 0;
+
+  // Different accounts can't hold the same purchase
+  if (a.bank_account_id && b.bank_account_id) {
+    if (a.bank_account_id !== b.bank_account_id) return 0;
+  }
+
+  const dateScore = 1 - dayDifference / (dateWindowDays + 1);
+  const accountScore = a.bank_account_id && b.bank_account_id ? 1 : 0.5;
+  const descriptionScore = descriptionSimilarity(a.description, b.description);
+
+  return 0.5 * dateScore + 0.2 * accountScore + 0.3 * descriptionScore;
+}
+
+/**
+ * Find likely duplicates of a transaction among existing ones, best first
+ */
+export function findDuplicates<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+  options: DuplicateOptions = {}
+): DuplicateMatch<T>[] {
+  const dateWindowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+
+  return existing
+    .filter((transaction) => !candidate.id || transaction.id !== candidate.id)
+    .map((transaction) => ({
+      transaction,
+      score: scoreDuplicate(candidate, transaction, dateWindowDays),
+    }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Find likely duplicate pairs within a list of transactions, best first
+ */
+export function findDuplicatePairs<T extends DuplicateCandidate>(
+  transactions: T[],
+  options: DuplicateOptions = {}
+): DuplicatePair<T>[] {
+  const dateWindowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const pairs: DuplicatePair<T>[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      // Sorted by date, so once outside the window no later row can match
+      if (daysBetween(sorted[i].date, sorted[j].date) > dateWindowDays) break;
+
+      const score = scoreDuplicate(sorted[i], sorted[j], dateWindowDays);
+      if (score >= threshold) {
+        pairs.push({ first: sorted[i], second: sorted[j], score });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
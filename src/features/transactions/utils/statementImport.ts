@@ -0,0 +1,484 @@
+import type { TransactionInsert } from "../../../api/supabase/transactions";
+import { translate } from "../../../i18n";
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+// A parsed statement is always a table of string cells, whatever the source
+// format, so the same column mapping step works for CSV, OFX and QIF files.
+export interface ParsedStatement {
+  format: StatementFormat;
+  columns: string[];
+  rows: string[][];
+}
+
+export type DateOrder = "auto" | "YMD" | "DMY" | "MDY";
+export type AmountSign = "negative-is-expense" | "positive-is-expense";
+
+export interface ColumnMapping {
+  date: number | null;
+  amount: number | null;
+  description: number | null;
+  type: number | null;
+  bankAccount: number | null;
+}
+
+export interface ImportOptions {
+  dateOrder: DateOrder;
+  decimalSeparator: "." | ",";
+  amountSign: AmountSign;
+  defaultBankAccountId: string | null;
+}
+
+export interface ImportBankAccount {
+  id: string;
+  name: string;
+  account_number: string | null;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  values: string[];
+  transaction: TransactionInsert | null;
+  errors: string[];
+}
+
+const OFX_COLUMNS = ["Date", "Amount", "Payee", "Memo", "Type", "Reference"];
+const QIF_COLUMNS = ["Date", "Amount", "Payee", "Memo", "Number", "Category"];
+
+/**
+ * Detect the statement format from the file name, falling back to the content
+ */
+export function detectStatementFormat(
+  fileName: string,
+  content: string
+): StatementFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (extension === "csv") return "csv";
+
+  const head = content.trimStart().slice(0, 200).toUpperCase();
+  if (head.startsWith("OFXHEADER") || head.includes("<OFX>")) return "ofx";
+  if (head.startsWith("!TYPE") || head.startsWith("!ACCOUNT")) return "qif";
+
+  return "csv";
+}
+
+/**
+ * Parse the contents of a bank statement file
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat
+): ParsedStatement {
+  switch (format) {
+    case "ofx":
+      return parseOfx(content);
+    case "qif":
+      return parseQif(content);
+    default:
+      return parseCsv(content);
+  }
+}
+
+/**
+ * Parse CSV content, detecting the delimiter from the header line
+ */
+export function parseCsv(content: string): ParsedStatement {
+  const text = content.replace(/^\uFEFF/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim() !== ""));
+  const [header = [], ...rows] = nonEmpty;
+
+  return {
+    format: "csv",
+    columns: header.map((name, index) => name.trim() || `Column ${index + 1}`),
+    rows: rows.map((r) => r.map((cell) => cell.trim())),
+  };
+}
+
+/**
+ * Parse OFX/QFX content (both the SGML and XML variants)
+ */
+export function parseOfx(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const rows = blocks.map((block) => {
+    const tag = (name: string) => {
+      const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"));
+      return match ? match[1].trim() : "";
+    };
+
+    // DTPOSTED looks like 20240115120000[-5:EST]; only the date part matters
+    const posted = tag("DTPOSTED").slice(0, 8);
+    const date =
+      posted.length === 8
+        ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+        : posted;
+
+    return [
+      date,
+      tag("TRNAMT"),
+      tag("NAME") || tag("PAYEE"),
+      tag("MEMO"),
+      tag("TRNTYPE"),
+      tag("FITID"),
+    ];
+  });
+
+  return { format: "ofx", columns: OFX_COLUMNS, rows };
+}
+
+/**
+ * Parse QIF content
+ */
+export function parseQif(content: string): ParsedStatement {
+  const rows: string[][] = [];
+  let current: Record<string, string> = {};
+
+  const flush = () => {
+    if (Object.keys(current).length > 0) {
+      rows.push([
+        (current.D || "").replace(/'/g, "/"),
+        current.T || current.U || "",
+        current.P || "",
+        current.M || "",
+        current.N || "",
+        current.L || "",
+      ]);
+    }
+    current = {};
+  };
+
+  content.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!")) return;
+
+    if (line.startsWith("^")) {
+      flush();
+      return;
+    }
+
+    const code = line[0];
+    // Only keep the first occurrence of each field (split lines repeat S/E/$)
+    if (!(code in current)) {
+      current[code] = line.slice(1).trim();
+    }
+  });
+  flush();
+
+  return { format: "qif", columns: QIF_COLUMNS, rows };
+}
+
+/**
+ * Guess a column mapping from the column names
+ */
+export function suggestColumnMapping(
+  statement: ParsedStatement
+): ColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = statement.columns.findIndex((column) => pattern.test(column));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    date: find(/date|datum|posted|booking/i),
+    amount: find(/amount|bedrag|value|sum/i),
+    description: find(/description|payee|name|omschrijving|naam|memo/i),
+    // OFX and QIF amounts are always signed, so their type codes aren't needed
+    type:
+      statement.format === "csv"
+        ? find(/^type$|debit.?credit|af.?bij|direction/i)
+        : null,
+    bankAccount: find(/^account$|account.?(name|number)|rekening/i),
+  };
+}
+
+/**
+ * Work out whether ambiguous dates in a column are day-first or month-first
+ */
+export function detectDateOrder(values: string[]): Exclude<DateOrder, "auto"> {
+  for (const value of values) {
+    const parts = value.trim().split(/[/.\-\s]+/);
+    if (parts.length < 3) continue;
+    if (parts[0].length === 4) return "YMD";
+
+    // A first component above 12 can only be a day
+    if (parseInt(parts[0], 10) > 12) return "DMY";
+  }
+
+  return "MDY";
+}
+
+/**
+ * Parse a date string into YYYY-MM-DD, or null if it isn't a valid date
+ */
+export function parseImportDate(
+  value: string,
+  order: Exclude<DateOrder, "auto">
+): string | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (/^\d{8}$/.test(trimmed)) {
+    year = parseInt(trimmed.slice(0, 4), 10);
+    month = parseInt(trimmed.slice(4, 6), 10);
+    day = parseInt(trimmed.slice(6, 8), 10);
+  } else {
+    const parts = trimmed.split(/[/.\-\s]+/).slice(0, 3);
+    if (parts.length < 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+
+    const numbers = parts.map((p) => parseInt(p, 10));
+    if (parts[0].length === 4 || order === "YMD") {
+      [year, month, day] = numbers;
+    } else if (order === "DMY") {
+      [day, month, year] = numbers;
+    } else {
+      [month, day, year] = numbers;
+    }
+
+    if (year < 100) year += 2000;
+  }
+
+  const daysInMonth = new Date(year, month, 0).getDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Parse an amount string, honouring the decimal separator and accounting
+ * style negatives such as "(12.50)" or "12.50-"
+ */
+export function parseImportAmount(
+  value: string,
+  decimalSeparator: "." | ","
+): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+  text = text
+    .replace(/[^\d.,+-]/g, "")
+    .split(thousandsSeparator)
+    .join("")
+    .replace(decimalSeparator, ".");
+
+  if (!/^[+-]?\d*\.?\d+$/.test(text)) return null;
+
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Map a value from a type column to a transaction type
+ */
+export function parseImportType(value: string): "expense" | "income" | null {
+  const normalized = value.trim().toLowerCase();
+
+  if (
+    /^(income|credit|cr|deposit|bij|in|dep|int|div)$/.test(normalized) ||
+    normalized.startsWith("credit")
+  ) {
+    return "income";
+  }
+  if (
+    /^(expense|debit|dr|withdrawal|af|out|payment|pos|atm|fee|check|srvchg)$/.test(
+      normalized
+    ) ||
+    normalized.startsWith("debit")
+  ) {
+    return "expense";
+  }
+
+  return null;
+}
+
+/**
+ * Apply a column mapping to a parsed statement, producing one import row
+ * (with any validation errors) per source row
+ */
+export function buildImportRows(
+  statement: ParsedStatement,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  bankAccounts: ImportBankAccount[],
+  userId: string
+): ImportRow[] {
+  const dateOrder =
+    options.dateOrder === "auto"
+      ? detectDateOrder(
+          mapping.date === null
+            ? []
+            : statement.rows.map((row) => row[mapping.date as number] || "")
+        )
+      : options.dateOrder;
+
+  const findAccount = (value: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (!normalized) return undefined;
+
+    return bankAccounts.find(
+      (account) =>
+        account.name.toLowerCase() === normalized ||
+        (account.account_number &&
+          normalized.endsWith(account.account_number.toLowerCase()))
+    );
+  };
+
+  return statement.rows.map((values, index) => {
+    const errors: string[] = [];
+    const cell = (column: number | null) =>
+      column === null ? "" : (values[column] || "").trim();
+
+    // Date
+    let date: string | null = null;
+    if (mapping.date === null) {
+      errors.push(translate("transactions.import.errors.noDateColumn"));
+    } else {
+      date = parseImportDate(cell(mapping.date), dateOrder);
+      if (!date) {
+        errors.push(
+          translate("transactions.import.errors.invalidDate", {
+            value: cell(mapping.date),
+          })
+        );
+      }
+    }
+
+    // Amount
+    let amount: number | null = null;
+    if (mapping.amount === null) {
+      errors.push(translate("transactions.import.errors.noAmountColumn"));
+    } else {
+      amount = parseImportAmount(
+        cell(mapping.amount),
+        options.decimalSeparator
+      );
+      if (amount === null) {
+        errors.push(
+          translate("transactions.import.errors.invalidAmount", {
+            value: cell(mapping.amount),
+          })
+        );
+      } else if (amount === 0) {
+        errors.push(translate("transactions.import.errors.zeroAmount"));
+      }
+    }
+
+    // Type, either from its own column or from the sign of the amount
+    let type: "expense" | "income" | null = null;
+    if (mapping.type !== null && cell(mapping.type)) {
+      type = parseImportType(cell(mapping.type));
+      if (!type) {
+        errors.push(
+          translate("transactions.import.errors.unknownType", {
+            value: cell(mapping.type),
+          })
+        );
+      }
+    } else if (amount !== null) {
+      const isNegative = amount < 0;
+      type =
+        isNegative === (options.amountSign === "negative-is-expense")
+          ? "expense"
+          : "income";
+    }
+
+    // Bank account
+    let bankAccountId = options.defaultBankAccountId;
+    if (mapping.bankAccount !== null && cell(mapping.bankAccount)) {
+      const account = findAccount(cell(mapping.bankAccount));
+      if (account) {
+        bankAccountId = account.id;
+      } else {
+        errors.push(
+          translate("transactions.import.errors.unknownAccount", {
+            value: cell(mapping.bankAccount),
+          })
+        );
+      }
+    }
+
+    const transaction: TransactionInsert | null =
+      errors.length === 0 && date && amount !== null && type
+        ? {
+            user_id: userId,
+            date,
+            amount: Math.abs(amount),
+            type,
+            description: cell(mapping.description) || null,
+            bank_account_id: bankAccountId,
+            status: "completed",
+          }
+        : null;
+
+    return {
+      rowNumber: index + 1,
+      values,
+      transaction,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,93 @@
+import type { TransactionFilters } from "../components/TransactionFilters";
+
+// The transaction fields the filters look at
+export interface FilterableTransaction {
+  date: string;
+  type: string;
+  amount: number;
+  category_id: string | null;
+  bank_account_id: string | null;
+  transfer_account_id: string | null;
+  description: string | null;
+  payment_method: string | null;
+  notes: string | null;
+  category_name?: string | null;
+}
+
+// The filters last applied on the transactions page, kept for this session so
+// exports can use the same selection
+const CURRENT_FILTERS_KEY = "transactionFilters";
+
+/**
+ * Check whether a transaction passes a set of filters. Filters without a
+ * value are ignored.
+ */
+export function matchesTransactionFilters(
+  transaction: FilterableTransaction,
+  filters: TransactionFilters
+): boolean {
+  if (filters.type && filters.type !== "all") {
+    if (transaction.type !== filters.type.toLowerCase()) return false;
+  }
+
+  if (filters.categoryId) {
+    if (transaction.category_id !== filters.categoryId) return false;
+  }
+
+  if (filters.bankAccountId) {
+    // Transfers show up on both of their accounts
+    if (
+      transaction.bank_account_id !== filters.bankAccountId &&
+      transaction.transfer_account_id !== filters.bankAccountId
+    )
+      return false;
+  }
+
+  if (filters.startDate && transaction.date < filters.startDate) return false;
+  if (filters.endDate && transaction.date > filters.endDate) return false;
+
+  if (filters.minAmount !== undefined) {
+    if (transaction.amount < filters.minAmount) return false;
+  }
+
+  if (filters.maxAmount !== undefined) {
+    if (transaction.amount > filters.maxAmount) return false;
+  }
+
+  if (filters.searchQuery) {
+    const query = filters.searchQuery.toLowerCase();
+    const matchesSearch =
+      transaction.description?.toLowerCase().includes(query) ||
+      transaction.category_name?.toLowerCase().includes(query) ||
+      transaction.payment_method?.toLowerCase().includes(query) ||
+      transaction.notes?.toLowerCase().includes(query);
+
+    if (!matchesSearch) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Remember the filters currently applied on the transactions page
+ */
+export function saveCurrentTransactionFilters(filters: TransactionFilters) {
+  try {
+    sessionStorage.setItem(CURRENT_FILTERS_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error("Error saving transaction filters:", error);
+  }
+}
+
+/**
+ * Get the filters currently applied on the transactions page
+ */
+export function getCurrentTransactionFilters(): TransactionFilters {
+  try {
+    const filters = sessionStorage.getItem(CURRENT_FILTERS_KEY);
+    return filters ? JSON.parse(filters) : {};
+  } catch (error) {
+    console.error("Error parsing transaction filters:", error);
+    return {};
+  }
+}
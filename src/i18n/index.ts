@@ -0,0 +1,125 @@
+import type { Locale } from "date-fns";
+import { de, enUS, fr, nl } from "date-fns/locale";
+import { translations } from "./translations";
+
+export type Language = keyof typeof translations;
+
+type Messages = typeof translations.en.translation;
+
+// Dotted paths to every message in the English catalog
+type MessagePath<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePath<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+// Plural forms are picked through the `count` value, never named directly
+export type TranslationKey = Exclude<MessagePath<Messages>, `${string}_plural`>;
+
+export type TranslationValues = Record<string, string | number>;
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+export const LANGUAGES: Record<
+  Language,
+  { nativeName: string; flag: string; locale: string; dateLocale: Locale }
+> = {
+  en: { nativeName: "English", flag: "🇬🇧", locale: "en-US", dateLocale: enUS },
+  nl: { nativeName: "Nederlands", flag: "🇳🇱", locale: "nl-NL", dateLocale: nl },
+  fr: { nativeName: "Français", flag: "🇫🇷", locale: "fr-FR", dateLocale: fr },
+  de: { nativeName: "Deutsch", flag: "🇩🇪", locale: "de-DE", dateLocale: de },
+};
+
+// Every language has to provide all of the English messages
+const catalogs: Record<Language, { translation: Messages }> = translations;
+
+// The language used by code outside React, such as toasts and formatters.
+// LanguageProvider keeps it in step with the Language setting.
+let currentLanguage: Language = DEFAULT_LANGUAGE;
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && value in LANGUAGES;
+}
+
+/**
+ * Get the language the interface is currently shown in
+ */
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+/**
+ * Switch the language used for new translations and formatting
+ */
+export function setLanguage(language: Language) {
+  currentLanguage = language;
+  document.documentElement.lang = language;
+}
+
+/**
+ * Get the Intl locale for the current language
+ */
+export function getLocale(): string {
+  return LANGUAGES[currentLanguage].locale;
+}
+
+/**
+ * Get the date-fns locale for the current language
+ */
+export function getDateLocale(): Locale {
+  return LANGUAGES[currentLanguage].dateLocale;
+}
+
+/**
+ * Get the name of a currency in the current language
+ */
+export function getCurrencyName(code: string): string {
+  try {
+    return (
+      new Intl.DisplayNames([getLocale()], { type: "currency" }).of(code) ||
+      code
+    );
+  } catch {
+    return code;
+  }
+}
+
+function lookup(language: Language, key: string): string | undefined {
+  let node: unknown = catalogs[language].translation;
+
+  for (const part of key.split(".")) {
+    if (!node || typeof node !== "object") return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+
+  return typeof node === "string" ? node : undefined;
+}
+
+/**
+ * Translate a message. `{{name}}` placeholders are filled from the values,
+ * and a numeric `count` picks the `_plural` form when the language needs
+ * it. Messages missing in a language fall back to English.
+ */
+export function translate(
+  key: TranslationKey,
+  values?: TranslationValues,
+  language: Language = currentLanguage
+): string {
+  const find = (path: string) =>
+    lookup(language, path) ?? lookup(DEFAULT_LANGUAGE, path);
+
+  let message: string | undefined;
+  if (
+    typeof values?.count === "number" &&
+    new Intl.PluralRules(LANGUAGES[language].locale).select(values.count) !==
+      "one"
+  ) {
+    message = find(`${key}_plural`);
+  }
+  message = message ?? find(key) ?? key;
+
+  if (!values) return message;
+  return message.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
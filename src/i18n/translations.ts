@@ -0,0 +1,8087 @@
+// Message catalogs for every supported language, grouped by feature.
+// English is the reference catalog; see docs/TRANSLATION_GUIDE.md.
+export const translations = {
+  en: {
+    translation: {
+      common: {
+        save: "Save",
+        saving: "Saving...",
+        saveChanges: "Save Changes",
+        cancel: "Cancel",
+        delete: "Delete",
+        deleting: "Deleting...",
+        edit: "Edit",
+        add: "Add",
+        create: "Create",
+        update: "Update",
+        close: "Close",
+        back: "Back",
+        goBack: "Go Back",
+        actions: "Actions",
+        loading: "Loading...",
+        retry: "Try Again",
+        none: "None",
+        all: "All",
+        name: "Name",
+        description: "Description",
+        amount: "Amount",
+        date: "Date",
+        category: "Category",
+        account: "Account",
+        currency: "Currency",
+        notes: "Notes",
+        status: "Status",
+        type: "Type",
+        color: "Color",
+        icon: "Icon",
+        startDate: "Start Date",
+        endDate: "End Date",
+        optional: "Optional",
+        selectCategory: "Select a category",
+        selectAccount: "Select an account",
+        selectCurrency: "Select currency",
+        noCategory: "No category",
+        noAccount: "No account",
+        expense: "Expense",
+        income: "Income",
+        transfer: "Transfer",
+        search: "Search...",
+        viewAll: "View All",
+        viewDetails: "View Details",
+        unexpectedError: "An unexpected error occurred",
+        error: "Error",
+        success: "Success",
+        yes: "Yes",
+        no: "No",
+        of: "{{value}} of {{total}}",
+        daily: "Daily",
+        weekly: "Weekly",
+        biweekly: "Bi-weekly",
+        monthly: "Monthly",
+        quarterly: "Quarterly",
+        yearly: "Yearly",
+        transactionCount: "{{count}} transaction",
+        transactionCount_plural: "{{count}} transactions",
+        dayCount: "{{count}} day",
+        dayCount_plural: "{{count}} days",
+        invalidAmount: "Please enter a valid amount",
+        loadCategoriesError: "Failed to load categories",
+        loadAccountsError: "Failed to load bank accounts",
+        confirmDeletion: "Confirm Deletion",
+        custom: "Custom",
+        ongoing: "Ongoing",
+      },
+      nav: {
+        appName: "Budget Tracker",
+        version: "Version {{version}}",
+        dashboard: "Dashboard",
+        transactions: "Transactions",
+        expenses: "Expenses",
+        income: "Income",
+        categories: "Categories",
+        budgets: "Budgets",
+        accounts: "Accounts",
+        groups: "Groups",
+        tags: "Tags",
+        goals: "Goals",
+        analytics: "Analytics",
+        bills: "Bills",
+        debts: "Debts",
+        settings: "Settings",
+        profile: "Profile",
+        search: "Search",
+        searchPlaceholder: "Search transactions, categories and tags...",
+        help: "Help",
+        keyboardShortcuts: "Keyboard shortcuts",
+        lightMode: "Light mode",
+        darkMode: "Dark mode",
+        logout: "Log out",
+        login: "Log in",
+        user: "User",
+        quickAdd: "Quick Add",
+        newExpense: "New Expense",
+        newIncome: "New Income",
+        newBudget: "New Budget",
+        newGoal: "New Goal",
+        newTag: "New Tag",
+        copyright: "© {{year}} Budget Tracker. All rights reserved.",
+        privacyPolicy: "Privacy Policy",
+        termsOfService: "Terms of Service",
+        contact: "Contact",
+        helpSupport: "Help & Support",
+        theme: "Theme",
+        systemMode: "System mode",
+        helpModal: {
+          title: "Help & Keyboard Shortcuts",
+          shortcuts: "Keyboard Shortcuts",
+          navigation: "Navigation",
+          actions: "Actions",
+          goTo: "Go to {{page}}",
+          newTransaction: "New Transaction",
+          gettingStarted: "Getting Started",
+          step1Title: "1. Track Your Transactions",
+          step1Text:
+            "Start by adding your income and expenses in the Transactions section. You can categorize them and add tags for better organization.",
+          step2Title: "2. Create Budgets",
+          step2Text:
+            "Set up monthly budgets for different categories to help you manage your spending and stay on track with your financial goals.",
+          step3Title: "3. Set Financial Goals",
+          step3Text:
+            "Define your financial goals like saving for a vacation, buying a car, or building an emergency fund. Track your progress and make regular contributions.",
+          step4Title: "4. Manage Bills & Subscriptions",
+          step4Text:
+            "Keep track of your recurring bills and subscriptions to avoid late payments and manage your cash flow better.",
+          tipsTitle: "Tips & Tricks",
+          tip1: "Use tags to further categorize your transactions for more detailed reporting.",
+          tip2: "Review your spending patterns on the Dashboard to identify areas where you can save money.",
+          tip3: "Set up realistic budgets based on your historical spending to increase your chances of success.",
+          tip4: "Make regular contributions to your financial goals, even if they're small amounts.",
+          tip5: "Use the mobile view to track expenses on the go and stay on top of your finances.",
+          gotIt: "Got it",
+        },
+        welcome: {
+          title: "Welcome to Budget Tracker",
+          greeting:
+            "Welcome, {{name}}! We're excited to help you manage your finances.",
+          greetingNoName:
+            "Welcome! We're excited to help you manage your finances.",
+          tour: "Let's take a quick tour to get you started.",
+          transactionsTitle: "Track Your Transactions",
+          transactionsText:
+            "Easily record your income and expenses to keep track of your spending habits.",
+          proTip: "Pro Tip",
+          shortcutPrefix: "Press",
+          shortcutSuffix: "to quickly add a new transaction.",
+          budgetsTitle: "Set Budgets and Goals",
+          budgetsText:
+            "Plan your finances with our budgeting and goal-setting tools.",
+          budgets: "Budgets",
+          budgetsHelp:
+            "Create monthly budgets to control your spending in different categories.",
+          savingsGoals: "Savings Goals",
+          savingsGoalsHelp:
+            "Set savings goals and track your progress over time.",
+          doneTitle: "You're All Set!",
+          doneText:
+            "You're now ready to take control of your finances with Budget Tracker.",
+          reminder:
+            "Remember to regularly update your transactions for the most accurate financial picture.",
+          begin: 'Click "Get Started" to begin your financial journey!',
+          back: "Back",
+          skip: "Skip",
+          next: "Next",
+          getStarted: "Get Started",
+        },
+        notifications: {
+          title: "Notifications",
+          markAllRead: "Mark All as Read",
+          clear: "Clear",
+          empty: "No Notifications",
+          dismiss: "Dismiss",
+        },
+      },
+      auth: {
+        email: "Email address",
+        password: "Password",
+        fullName: "Full Name",
+        confirmPassword: "Confirm Password",
+        signIn: "Sign in",
+        unexpectedError: "An unexpected error occurred. Please try again.",
+        login: {
+          title: "Welcome back",
+          description: "Sign in to your account",
+          forgotPassword: "Forgot password?",
+          signingIn: "Signing in...",
+          noAccount: "Don't have an account?",
+          register: "Register",
+        },
+        register: {
+          title: "Create an account",
+          description: "Sign up to start tracking your finances",
+          passwordHint: "Password must be at least 8 characters long",
+          passwordsMismatch: "Passwords do not match",
+          submit: "Create account",
+          submitting: "Creating account...",
+          haveAccount: "Already have an account?",
+          success: "Registration Successful!",
+          successDescription:
+            "Please check your email to verify your account. You will be redirected to the login page shortly.",
+          goToLogin: "Go to login page",
+        },
+        reset: {
+          title: "Reset your password",
+          description: "Enter your email to receive a password reset link",
+          submit: "Send reset link",
+          submitting: "Sending...",
+          remember: "Remember your password?",
+          checkEmail: "Check your email",
+          sent: "We've sent a password reset link to {{email}}. Please check your inbox and follow the instructions to reset your password.",
+          returnToLogin: "Return to login",
+        },
+        landing: {
+          tagline:
+            "Take control of your finances with our powerful budgeting and expense tracking tools.",
+          trackTitle: "Track Your Expenses",
+          trackText:
+            "Easily log and categorize your expenses to see where your money is going.",
+          budgetsTitle: "Set Budgets",
+          budgetsText:
+            "Create custom budgets for different categories and track your progress.",
+          visualizeTitle: "Visualize Your Finances",
+          visualizeText:
+            "Get insights with beautiful charts and reports to help you make better financial decisions.",
+          goalsTitle: "Achieve Your Goals",
+          goalsText:
+            "Set financial goals and track your progress towards achieving them.",
+        },
+      },
+      settings: {
+        title: "Settings",
+        description: "Manage your account settings and preferences",
+        new: "New",
+        helpSupport: "Help & Support",
+        tabs: {
+          profile: "Profile",
+          password: "Password",
+          preferences: "Preferences",
+          notifications: "Notifications",
+          currency: "Currency",
+          theme: "Theme",
+          language: "Language",
+          data: "Data",
+          account: "Account",
+        },
+        tabDescriptions: {
+          profile: "Manage your personal information and profile settings",
+          password: "Update your password and security settings",
+          preferences: "Customize your app experience and default settings",
+          notifications: "Control how and when you receive notifications",
+          currency: "Set your preferred currency and format options",
+          theme: "Choose your preferred theme and appearance settings",
+          language: "Select your preferred language for the application",
+          data: "Export your data or restore it from a backup",
+          account: "Manage your account security and connected services",
+          default: "Manage your settings and preferences",
+        },
+        connected: {
+          title: "Connected Services",
+          description: "Manage your connected accounts and services",
+          banking: "Banking Integration",
+          bankingDescription:
+            "Connect your bank accounts for automatic transaction import",
+          connect: "Connect",
+          twoFactor: "Two-Factor Authentication",
+          twoFactorDescription:
+            "Add an extra layer of security to your account",
+          setup: "Setup",
+          sync: "Data Synchronization",
+          lastSynced: "Last synced 5 minutes ago",
+          syncNow: "Sync Now",
+        },
+        profile: {
+          title: "Profile Information",
+          description: "Update your personal information",
+          email: "Email",
+          emailLocked: "Email cannot be changed here",
+          emailHelp: "To change your email, use the account settings",
+          fullName: "Full Name",
+          avatarUrl: "Avatar URL",
+          avatarHelp: "Enter a URL to an image for your profile picture",
+          avatarPreview: "Avatar preview",
+          avatarError: "Failed to load image. Please check the URL.",
+          updated: "Profile Updated",
+          updatedMessage:
+            "Your profile information has been updated successfully.",
+          updateFailed: "Profile Update Failed",
+          unexpectedError:
+            "An unexpected error occurred while updating your profile.",
+        },
+        password: {
+          title: "Change Password",
+          description: "Update your account password",
+          current: "Current Password",
+          new: "New Password",
+          confirm: "Confirm New Password",
+          lengthHelp: "Password must be at least 8 characters long",
+          submit: "Update Password",
+          updating: "Updating...",
+          mismatch: "Password Mismatch",
+          mismatchMessage:
+            "New passwords do not match. Please make sure both fields contain the same password.",
+          invalid: "Invalid Password",
+          invalidMessage: "Password must be at least 8 characters long.",
+          updated: "Password Updated",
+          updatedMessage: "Your password has been updated successfully.",
+          updateFailed: "Password Update Failed",
+          unexpectedError:
+            "An unexpected error occurred while updating your password.",
+        },
+        preferences: {
+          title: "User Preferences",
+          description: "Customize your application settings",
+          currencyHelp: "This will be used for displaying all monetary values",
+          selectTheme: "Select theme",
+          enableNotifications: "Enable notifications",
+          submit: "Save Preferences",
+          updated: "Settings updated successfully",
+        },
+        notifications: {
+          title: "Notification Settings",
+          description: "Manage how you receive notifications",
+          enableAll: "Enable all notifications",
+          types: "Notification Types",
+          billDue: "Bill Due Reminders",
+          billDueDescription: "Get notified when bills are due",
+          budgetAlert: "Budget Alerts",
+          budgetAlertDescription:
+            "Get notified when you're close to exceeding your budget",
+          goalProgress: "Goal Progress",
+          goalProgressDescription:
+            "Get notified about your savings goal progress",
+          groupInvitation: "Group Invitations",
+          groupInvitationDescription:
+            "Get notified when you're invited to a budget group",
+          transactionAlert: "Transaction Alerts",
+          transactionAlertDescription: "Get notified about new transactions",
+          weeklySummary: "Weekly Summary",
+          weeklySummaryDescription: "Get a weekly summary of your finances",
+          submit: "Save Notification Settings",
+          updated: "Notification settings updated successfully",
+        },
+        currency: {
+          title: "Currency Settings",
+          description: "Choose your preferred currency for the application",
+          select: "Select Currency",
+          help: "Your base currency: totals, reports and budgets are converted into it using your exchange rates",
+          preview: "Currency Preview",
+          symbol: "Symbol:",
+          code: "Code:",
+          format: "Format:",
+          example: "Example",
+          formattedValue: "Formatted Value",
+          positive: "Positive Amount",
+          negative: "Negative Amount",
+          zero: "Zero Amount",
+          submit: "Save Currency Settings",
+          updated: "Currency settings updated successfully",
+        },
+        exchangeRates: {
+          title: "Exchange Rates",
+          description:
+            "Reports and budgets convert other currencies into {{currency}} using the latest rate on or before each transaction's date",
+          rateLabel: "Rate ({{currency}} per unit)",
+          add: "Add Rate",
+          import: "Import CSV",
+          importHelp:
+            "CSV files need date, currency and rate columns. An optional base column sets the currency the rate is quoted in; it defaults to {{currency}}.",
+          empty:
+            "No exchange rates yet. Amounts in other currencies are counted unconverted until a rate is added.",
+          rate: "Rate",
+          missingColumns: "The CSV needs date, currency and rate columns",
+          selectCurrencyError: "Please select a currency.",
+          rateError: "Please enter a rate greater than zero.",
+          loadError: "Failed to load exchange rates.",
+          saveError: "Failed to save the exchange rate. Please try again.",
+          deleteError: "Failed to delete exchange rate",
+          noRatesFound: "No valid rates were found in the file.",
+          importError: "Failed to import exchange rates. Please try again.",
+          imported: "Exchange rates imported",
+          importedCount: "{{count}} rate imported",
+          importedCount_plural: "{{count}} rates imported",
+          skippedCount: "{{count}} row skipped",
+          skippedCount_plural: "{{count}} rows skipped",
+        },
+        theme: {
+          title: "Theme Settings",
+          description: "Customize the appearance of the application",
+          select: "Select Theme",
+          light: "Light",
+          lightDescription: "Light mode with bright background and dark text",
+          dark: "Dark",
+          darkDescription: "Dark mode with dark background and light text",
+          system: "System",
+          systemDefault: "System Default",
+          systemDescription: "Follow your system's theme settings",
+          submit: "Save Theme Settings",
+          updated: "Theme settings updated successfully",
+        },
+        language: {
+          title: "Language Settings",
+          description: "Choose your preferred language for the application",
+          select: "Select Language",
+          help: "This will change the language used throughout the application",
+          preview: "Language Preview",
+          flag: "Flag:",
+          name: "Name:",
+          native: "Native:",
+          submit: "Save Language Settings",
+          updated: "Language settings updated successfully",
+        },
+        deletion: {
+          title: "Delete Account",
+          description:
+            "This action is permanent and cannot be undone. All your data will be permanently deleted.",
+          confirmLabel: 'To confirm, type "{{phrase}}" below',
+          confirmError: "Please type {{phrase}} to confirm",
+          submit: "Permanently Delete My Account",
+          error: "Failed to delete account. Please contact support.",
+        },
+        data: {
+          exportTitle: "Export Data",
+          exportDescription:
+            "Download your records as CSV or OFX, or everything as a JSON archive that can be restored later",
+          filters: "Transaction filters",
+          filtersHelp:
+            "Transaction CSV and OFX exports include only the matching transactions. Filters from the transactions page are applied by default.",
+          csvContents: "CSV contents",
+          downloadCsv: "Download CSV",
+          downloadOfx: "Download OFX",
+          downloadJson: "Download JSON Archive",
+          exportError: "Failed to export your data. Please try again.",
+          restoreTitle: "Restore Backup",
+          restoreDescription:
+            "Re-create everything from a JSON archive under your account. Restored records are added next to your existing data; categories and tags with the same name are reused.",
+          restoreButton: "Restore from Archive",
+          restoring: "Restoring...",
+          restore: "Restore",
+          invalidFile: "This file is not a backup that can be restored.",
+          unreadableFile: "The backup file could not be read.",
+          confirm:
+            "This backup from {{date}} contains {{contents}}. Everything is added to your current data, so restoring the same backup twice creates duplicates.",
+          noRecords: "no records",
+          partial:
+            "The restore stopped partway. Restored so far: {{contents}}.",
+          restoreError: "Failed to restore the backup. Please try again.",
+          restoreFailed: "Failed to restore backup",
+          restored: "Backup restored",
+          nothingNew: "Nothing new to restore",
+          entities: {
+            transactions: "Transactions",
+            categories: "Categories",
+            tags: "Tags",
+            budgets: "Budgets",
+            bills: "Bills & Subscriptions",
+            goals: "Goals",
+            bank_accounts: "Bank Accounts",
+          },
+          counts: {
+            bank_accounts: "{{count}} bank account",
+            bank_accounts_plural: "{{count}} bank accounts",
+            categories: "{{count}} category",
+            categories_plural: "{{count}} categories",
+            tags: "{{count}} tag",
+            tags_plural: "{{count}} tags",
+            transactions: "{{count}} transaction",
+            transactions_plural: "{{count}} transactions",
+            transaction_splits: "{{count}} transaction split",
+            transaction_splits_plural: "{{count}} transaction splits",
+            transaction_tags: "{{count}} transaction tag",
+            transaction_tags_plural: "{{count}} transaction tags",
+            budgets: "{{count}} budget",
+            budgets_plural: "{{count}} budgets",
+            bills: "{{count}} bill",
+            bills_plural: "{{count}} bills",
+            bill_payments: "{{count}} bill payment",
+            bill_payments_plural: "{{count}} bill payments",
+            goals: "{{count}} goal",
+            goals_plural: "{{count}} goals",
+            goal_contributions: "{{count}} goal contribution",
+            goal_contributions_plural: "{{count}} goal contributions",
+          },
+        },
+      },
+      dashboard: {
+        welcome: "Welcome back, {{name}}",
+        householdDashboard: "Household Dashboard",
+        tabs: {
+          overview: "Overview",
+          finances: "Finances",
+          goals: "Goals",
+        },
+        billReminders: "Bill Reminders",
+        budgetProgress: "Budget Progress",
+        expenseCategories: "Expense Categories",
+        recentTransactions: "Recent Transactions",
+        totalIncome: "Total Income",
+        totalExpenses: "Total Expenses",
+        savings: "Savings",
+        deficit: "Deficit",
+        currentMonth: "Current month",
+        ofIncome: "{{percent}}% of income",
+        loadSummaryError: "Failed to load spending summary",
+      },
+      transactions: {
+        title: "Transactions",
+        add: "Add Transaction",
+        edit: "Edit Transaction",
+        update: "Update Transaction",
+        addExpense: "Add Expense",
+        addIncome: "Add Income",
+        saveAnyway: "Save Anyway",
+        noDescription: "No description",
+        deletedAccount: "Deleted account",
+        loadMore: "Load More",
+        empty:
+          "No transactions found. Add your first transaction to get started!",
+        deleteTitle: "Delete Transaction",
+        deleteConfirm:
+          "Are you sure you want to delete this transaction? This action cannot be undone.",
+        loadError: "Failed to load transactions",
+        loadOneError: "Failed to load transaction",
+        deleteError: "Failed to delete transaction",
+        saveError: "Failed to save transaction",
+        paymentMethods: {
+          cash: "Cash",
+          credit_card: "Credit Card",
+          debit_card: "Debit Card",
+          bank_transfer: "Bank Transfer",
+          check: "Check",
+          mobile_payment: "Mobile Payment",
+          other: "Other",
+        },
+        statuses: {
+          pending: "Pending",
+          completed: "Completed",
+          cleared: "Cleared",
+          reconciled: "Reconciled",
+          cancelled: "Cancelled",
+        },
+        form: {
+          loadError: "Failed to load data. Please try again.",
+          dateRequired: "Please select a date.",
+          splitAmountRequired:
+            "Each split line needs an amount greater than zero.",
+          splitTotalMismatch:
+            "Split lines must add up to the transaction amount.",
+          loginRequired: "You must be logged in to add a transaction",
+          saveError: "Failed to save transaction. Please try again.",
+          reconciledLocked:
+            "This transaction is part of a reconciled statement. Its amount, date and account are locked.",
+          duplicateWarning: "This looks like a transaction you already have:",
+          duplicateHint: "Submit again to save it anyway.",
+          accountCurrency: "Transactions on {{account}} are in its currency",
+          descriptionPlaceholder: "Enter a description",
+          split: "Split across categories",
+          bankAccount: "Bank Account",
+          selectBankAccount: "Select a bank account",
+          paymentMethod: "Payment Method",
+          selectPaymentMethod: "Select a payment method",
+          selectStatus: "Select a status",
+          notesPlaceholder: "Add any additional notes",
+          tags: "Tags",
+        },
+        split: {
+          amount: "Split amount",
+          category: "Split category",
+          remove: "Remove split line",
+          notePlaceholder: "Note (optional)",
+          addLine: "Add Line",
+          allocated: "Fully allocated",
+          remaining: "{{amount}} left to allocate",
+          over: "{{amount}} over the amount",
+        },
+        transfer: {
+          edit: "Edit Transfer",
+          title: "Transfer Between Accounts",
+          from: "From",
+          to: "To",
+          submit: "Transfer",
+          descriptionPlaceholder: "e.g., Monthly savings",
+          help: "Both account balances are updated. Transfers are not counted as income or expenses.",
+          selectBoth: "Please select both accounts.",
+          selectDifferent: "Please select two different accounts.",
+          sameCurrency: "Both accounts must use the same currency.",
+          saveError: "Failed to save transfer. Please try again.",
+        },
+        filters: {
+          title: "Filters",
+          description: "Apply filters to your transactions",
+          selectType: "Select type",
+          allTypes: "All Types",
+          allCategories: "All Categories",
+          allAccounts: "All Accounts",
+          minAmount: "Min amount",
+          maxAmount: "Max amount",
+          search: "Search",
+          searchPlaceholder: "Search transactions...",
+          clear: "Clear Filters",
+        },
+        recurring: {
+          title: "Recurring Transactions",
+          add: "Add Recurring Transaction",
+          edit: "Edit Recurring Transaction",
+          addShort: "Add Recurring",
+          descriptionPlaceholder: "e.g., Salary, Rent",
+          repeats: "Repeats",
+          starting: "Starting",
+          ends: "Ends",
+          next: "Next",
+          never: "Never",
+          onDate: "On a date",
+          afterOccurrences: "After a number of times",
+          occurrencesPlaceholder: "e.g., 12",
+          until: "Until {{date}}",
+          catchUpHint:
+            "Occurrences since the start date will be added right away.",
+          descriptionRequired: "Please enter a description.",
+          endBeforeStart: "The end date must be on or after the start date.",
+          occurrencesRequired:
+            "Please enter how many times the transaction repeats.",
+          saveError: "Failed to save recurring transaction. Please try again.",
+          loadError: "Failed to load recurring transactions. Please try again.",
+          help: "Due occurrences are added to your transactions when you open the app, including any that were missed since your last visit.",
+          empty: "No recurring transactions yet.",
+          ended: "Ended",
+          paused: "Paused",
+          skipNext: "Skip next",
+          pause: "Pause",
+          resume: "Resume",
+          skipped: "Skipped",
+          skippedDescription: "The {{date}} occurrence will not be added",
+          pastAdded: "{{count}} past occurrence was added",
+          pastAdded_plural: "{{count}} past occurrences were added",
+          syncAdded: "{{count}} recurring transaction was added",
+          syncAdded_plural: "{{count}} recurring transactions were added",
+          skipError: "Failed to skip the next occurrence",
+          updateError: "Failed to update recurring transaction",
+          deleteError: "Failed to delete recurring transaction",
+          deleteTitle: "Delete recurring transaction?",
+          deleteConfirm:
+            "No new occurrences will be added. Transactions it already added are kept.",
+        },
+        import: {
+          title: "Import Transactions",
+          uploadDescription:
+            "Upload a bank statement in CSV, OFX/QFX or QIF format.",
+          mapDescription: "Map the columns of {{file}} to transaction fields.",
+          previewDescription:
+            "Review the parsed rows. Rows with errors will not be imported.",
+          chooseFile: "Choose a statement file",
+          typeColumn: "Type (income/expense)",
+          selectColumn: "Select a column",
+          notMapped: "Not mapped",
+          example: "(e.g. {{value}})",
+          defaultAccount: "Default Bank Account",
+          dateFormat: "Date Format",
+          detect: "Detect automatically",
+          ymd: "Year-Month-Day",
+          dmy: "Day/Month/Year",
+          mdy: "Month/Day/Year",
+          decimalSeparator: "Decimal Separator",
+          point: "Point (1,234.56)",
+          comma: "Comma (1.234,56)",
+          amountSign: "Amount Sign",
+          negativeIsExpense: "Negative amounts are expenses",
+          positiveIsExpense: "Positive amounts are expenses",
+          ready: "{{count}} ready to import",
+          ready_plural: "{{count}} ready to import",
+          withErrors: "{{count}} with errors",
+          possibleDuplicates: "{{count}} possible duplicate",
+          possibleDuplicates_plural: "{{count}} possible duplicates",
+          duplicateOf: "Possible duplicate of {{description}} on {{date}}",
+          skipDuplicates: "Skip rows that look like existing transactions",
+          row: "Row",
+          preview: "Preview",
+          importing: "Importing...",
+          submit: "Import {{count}} Transaction",
+          submit_plural: "Import {{count}} Transactions",
+          noRows: "No transactions were found in this file.",
+          readError: "Failed to read the file. Please check the format.",
+          complete: "Import complete",
+          imported: "{{count}} transaction imported",
+          imported_plural: "{{count}} transactions imported",
+          skipped: "{{count}} row skipped",
+          skipped_plural: "{{count}} rows skipped",
+          categorized: "{{count}} categorized by rules",
+          failed: "Failed to import transactions",
+          failedWithReason: "Failed to import transactions: {{reason}}",
+          errors: {
+            noDateColumn: "No date column mapped",
+            invalidDate: 'Invalid date "{{value}}"',
+            noAmountColumn: "No amount column mapped",
+            invalidAmount: 'Invalid amount "{{value}}"',
+            zeroAmount: "Amount is zero",
+            unknownType: 'Unrecognized type "{{value}}"',
+            unknownAccount: 'Unknown bank account "{{value}}"',
+          },
+        },
+        duplicates: {
+          merged: "Transactions merged successfully",
+          mergeError: "Failed to merge transactions",
+          keep: "Keep this one",
+          help: "Keeping one transaction deletes the other and moves its tags, notes and category onto the one you keep.",
+          last30: "Last 30 days",
+          last90: "Last 90 days",
+          last180: "Last 6 months",
+          last365: "Last year",
+          empty: "No likely duplicates found.",
+          match: "{{percent}}% match",
+          dismiss: "Not a duplicate",
+        },
+        all: "All Transactions",
+        recurringShort: "Recurring",
+        reviewDuplicates: "Review Duplicates",
+        importShort: "Import",
+        expenses: "Expenses",
+        expenseTransactions: "Expense Transactions",
+        incomeTransactions: "Income Transactions",
+        recurringTemplates: "Recurring Templates",
+        recurringTemplatesDescription:
+          "Income and expenses that repeat on a schedule, such as your salary, rent or subscriptions.",
+        possibleDuplicates: "Possible Duplicate Transactions",
+        possibleDuplicatesDescription:
+          "Transactions with the same amount and type, booked within a few days of each other on the same account.",
+      },
+      budgets: {
+        title: "Budgets",
+        management: "Budget Management",
+        add: "Add Budget",
+        edit: "Edit Budget",
+        create: "Create Budget",
+        update: "Update Budget",
+        viewAll: "View All Budgets",
+        general: "General",
+        category: "Category",
+        allCategories: "All Categories",
+        rollover: "Rollover",
+        spentOf: "{{spent}} of {{available}}",
+        carriedOver: "{{amount}} carried over",
+        history: "History",
+        showHistory: "Show history",
+        hideHistory: "Hide history",
+        empty: "No budgets found.",
+        createFirst: "Create your first budget",
+        startTracking: "to start tracking your spending!",
+        summaryEmpty: "Create your first budget to track your spending!",
+        deleteConfirm:
+          "Are you sure you want to delete this budget? This action cannot be undone.",
+        loadError: "Failed to load budgets",
+        loadOneError: "Failed to load budget",
+        deleteError: "Failed to delete budget",
+        saveError: "Failed to save budget",
+        form: {
+          name: "Budget Name",
+          namePlaceholder: "e.g., Monthly Groceries",
+          amount: "Budget Amount",
+          allExpenses: "All Expenses",
+          period: "Budget Period",
+          selectPeriod: "Select period",
+          rollover: "Roll over to next period",
+          alertThresholds: "Alert thresholds (%)",
+          alertThresholdsHelp:
+            "Get a notification when spending reaches each percentage of the budget, once per period. Leave empty for no alerts.",
+          alertThresholdsInvalid:
+            "Enter whole percentages from 1 to 1000, separated by commas",
+          rolloverHelp:
+            "Carry what's left, or what was overspent, into the next period",
+          endDateOptional: "End Date (Optional)",
+          descriptionOptional: "Description (Optional)",
+          descriptionPlaceholder: "Add notes or details about this budget...",
+          nameRequired: "Please enter a budget name",
+          startDateRequired: "Please select a start date",
+          endDateRequired: "Please select an end date for custom period",
+        },
+        periodHistory: {
+          empty: "This budget has no periods yet.",
+          period: "Period",
+          allocated: "Allocated",
+          carriedIn: "Carried In",
+          spent: "Spent",
+          carriedOver: "Carried Over",
+        },
+      },
+      goals: {
+        title: "Financial Goals",
+        add: "Add Goal",
+        addNew: "Add New Goal",
+        edit: "Edit Goal",
+        update: "Update Goal",
+        backToList: "Back to goals list",
+        empty:
+          "No financial goals found. Add your first goal to start tracking!",
+        notFound: "Goal not found",
+        uncategorized: "Uncategorized",
+        noTargetDate: "No target date",
+        targetOn: "Target: {{date}}",
+        overdue: "Overdue",
+        percentComplete: "{{percent}}% complete",
+        remaining: "{{amount}} remaining",
+        saveDaily: "Save {{amount}} daily to reach goal",
+        deleteConfirm:
+          "Are you sure you want to delete this goal? This action cannot be undone.",
+        targetAmount: "Target Amount",
+        currentAmount: "Current Amount",
+        targetDate: "Target Date",
+        amountRemaining: "Amount Remaining",
+        savingTargets: "Saving Targets",
+        dailyTarget: "Daily Target",
+        monthlyTarget: "Monthly Target",
+        daysRemaining: "{{count}} day remaining to reach your goal",
+        daysRemaining_plural: "{{count}} days remaining to reach your goal",
+        statuses: {
+          in_progress: "In Progress",
+          achieved: "Achieved",
+          cancelled: "Cancelled",
+        },
+        form: {
+          name: "Goal Name *",
+          targetAmount: "Target Amount *",
+          startDate: "Start Date *",
+          selectStatus: "Select status",
+          loginRequired: "You must be logged in to create a goal",
+          requiredFields: "Please fill in all required fields",
+          openingAmount: "Starting Amount",
+          openingAmountHelp:
+            "Money already saved before you started adding contributions",
+        },
+        contributions: {
+          add: "Add Contribution",
+          history: "Contribution History",
+          empty: "No contributions yet",
+          amount: "Amount *",
+          invalidAmount: "Please enter a valid contribution amount",
+          loadError: "Failed to load contribution history",
+          addError: "Failed to add contribution",
+          edit: "Edit Contribution",
+          delete: "Delete Contribution",
+          deleteConfirm:
+            "Are you sure you want to delete this contribution? Its amount is taken back out of the goal.",
+          amountHelp: "A negative amount is a withdrawal",
+          invalidEditAmount: "Please enter an amount other than zero",
+          updateError: "Failed to update contribution",
+          deleteError: "Failed to delete contribution",
+          withdraw: "Withdraw",
+          withdrawTitle: "Withdraw from Goal",
+          withdrawal: "Withdrawal",
+          withdrawTooMuch: "You can't withdraw more than the {{amount}} saved",
+          withdrawError: "Failed to withdraw from goal",
+          changes: {
+            title: "Change Log",
+            show: "Show changes",
+            hide: "Hide changes",
+            created: "Added {{amount}} on {{date}}",
+            withdrawn: "Withdrew {{amount}} on {{date}}",
+            updated: "Changed {{before}} to {{after}} on {{date}}",
+            deleted: "Deleted {{amount}} from {{date}}",
+          },
+        },
+        funding: {
+          title: "Automatic Funding",
+          add: "Add Rule",
+          empty:
+            "No funding rules yet. Set money aside automatically on a schedule or from your income.",
+          syncAdded: "Made {{count}} automatic contribution",
+          syncAdded_plural: "Made {{count}} automatic contributions",
+          autoContribution: "Auto",
+          fixedDescription: "{{amount}} {{frequency}}",
+          percentageDescription: "{{percent}}% of each income",
+          fromAccount: "From {{account}}",
+          nextContribution: "Next contribution: {{date}}",
+          unknownAccount: "Unknown account",
+          active: "Active",
+          loadError: "Failed to load funding rules",
+          saveError: "Failed to save funding rule",
+          deleteError: "Failed to delete funding rule",
+          types: {
+            fixed: "Fixed amount",
+            percentage: "Percentage of income",
+          },
+          frequencies: {
+            weekly: "weekly",
+            monthly: "monthly",
+          },
+          form: {
+            type: "Rule Type",
+            frequency: "Frequency",
+            percentage: "Percentage (%)",
+            percentageHelp:
+              "Applied to every income transaction landing in the account",
+            account: "Bank Account",
+            selectAccount: "Select an account",
+            accountRequired: "Please select a bank account",
+            invalidAmount: "Please enter a valid amount",
+            invalidPercentage: "Percentage must be between 0 and 100",
+          },
+          preview: {
+            title: "Upcoming Contributions",
+            empty: "No scheduled contributions in the next 3 months",
+            scheduledMonthly: "{{amount}} scheduled per month",
+            fromIncome: "About {{amount}} per month from income",
+            coversTarget: "Covers the monthly target",
+            shortOfTarget: "{{amount}} short of the monthly target",
+            completesGoal: "Completes goal",
+          },
+          status: {
+            onTrack: "On track",
+            behind: "Behind",
+            actualMonthly:
+              "Contributing {{actual}} per month against a {{target}} target",
+          },
+        },
+        loadError: "Failed to load goals",
+        loadOneError: "Failed to load goal",
+        loadDetailsError: "Failed to load goal details",
+        deleteError: "Failed to delete goal",
+        saveError: "Failed to save goal",
+        saveRetryError: "Failed to save goal. Please try again.",
+      },
+      bills: {
+        title: "Bills & Subscriptions",
+        bills: "Bills",
+        billsDescription: "Track one-time or irregular expenses.",
+        subscriptions: "Subscriptions",
+        subscriptionsDescription:
+          "Manage your recurring payments and services.",
+        bill: "Bill",
+        subscription: "Subscription",
+        addBill: "Add Bill",
+        addNewBill: "Add New Bill",
+        addSubscription: "Add Subscription",
+        addEither: "Add Bill/Subscription",
+        addBillOrSubscription: "Add Bill or Subscription",
+        editBill: "Edit Bill",
+        editSubscription: "Edit Subscription",
+        empty: "No bills found. Add your first bill to start tracking!",
+        notFound: "Bill not found",
+        uncategorized: "Uncategorized",
+        nextDue: "Next due: {{date}}",
+        nextDueDate: "Next Due Date",
+        due: "Due: {{date}}",
+        notSet: "Not set",
+        notAvailable: "N/A",
+        overdue: "Overdue",
+        dueSoon: "Due soon",
+        frequency: "Frequency",
+        paymentMethod: "Payment Method",
+        paymentMethodValue: "Payment method: {{method}}",
+        markAsPaid: "Mark as Paid",
+        markPaid: "Mark Paid",
+        deleteConfirm:
+          "Are you sure you want to delete this bill? This action cannot be undone.",
+        frequencies: {
+          "one-time": "One-time",
+          daily: "Daily",
+          weekly: "Weekly",
+          monthly: "Monthly",
+          yearly: "Yearly",
+        },
+        statuses: {
+          active: "Active",
+          paused: "Paused",
+          cancelled: "Cancelled",
+        },
+        form: {
+          billName: "Bill Name",
+          subscriptionName: "Subscription Name",
+          billPlaceholder: "e.g., Car Repair",
+          subscriptionPlaceholder: "e.g., Netflix Subscription",
+          billNameHelp: "Give your bill a clear, recognizable name.",
+          subscriptionNameHelp:
+            "Give your subscription a clear, recognizable name.",
+          nameRequired: "Name is required",
+          amountRequired: "Amount is required",
+          amountPositive: "Must be greater than 0",
+          dueDate: "Due Date",
+          dueDateRequired: "Due date is required",
+          frequencyRequired: "Frequency is required",
+          selectFrequency: "Select frequency",
+          paymentMethodPlaceholder: "e.g., Credit Card",
+          autoPay: "Auto Pay",
+          reminderDays: "Reminder Days",
+          reminderDaysPlaceholder: "Days before due date",
+          selectStatus: "Select status",
+          notesPlaceholder:
+            "Optional notes, e.g., login info or payment details",
+          loginRequired: "You must be logged in to create a bill",
+        },
+        payments: {
+          add: "Add Payment",
+          history: "Payment History",
+          empty: "No payment history available.",
+          via: "via {{method}}",
+          amount: "Amount *",
+          methodPlaceholder: "e.g., Credit Card, Bank Transfer",
+          invalidAmount: "Please enter a valid payment amount",
+          loadError: "Failed to load payment history",
+          addError: "Failed to add payment",
+          recordAsExpense: "Record as expense",
+          recordAsExpenseHelp:
+            "Adds an expense in {{category}} to the chosen account, so it counts towards budgets and analytics",
+          recordAsExpenseUncategorized:
+            "Adds an uncategorized expense to the chosen account, so it counts towards budgets and analytics",
+          selectAccount: "Select an account",
+          accountRequired: "Please select the account the bill was paid from",
+          viewTransaction: "View transaction",
+          edit: "Edit Payment",
+          editLinkedHelp: "Its expense transaction is updated as well.",
+          delete: "Delete Payment",
+          deleteConfirm: "Are you sure you want to delete this payment?",
+          deleteLinkedConfirm:
+            "Are you sure you want to delete this payment? Its expense transaction is deleted too.",
+          updateError: "Failed to update payment",
+          deleteError: "Failed to delete payment",
+        },
+        reminders: {
+          title: "Bill Reminders",
+          empty: "No upcoming bills due soon.",
+          loadError: "Failed to load upcoming bills",
+          debtPayment: "Debt payment",
+        },
+        loadError: "Failed to load bills",
+        loadOneError: "Failed to load bill",
+        loadDetailsError: "Failed to load bill details",
+        deleteError: "Failed to delete bill",
+        markPaidError: "Failed to mark bill as paid",
+        saveError: "Failed to save bill",
+        saveSubscriptionError: "Failed to save subscription",
+        saveRetryError: "Failed to save bill. Please try again.",
+      },
+      debts: {
+        title: "Debts",
+        listTitle: "Credit Cards & Loans",
+        totalOwed: "Total Owed",
+        totalMinimum: "{{amount}} in minimum payments each month",
+        add: "Add Debt",
+        edit: "Edit Debt",
+        update: "Update Debt",
+        empty:
+          "No debts yet. Add a credit card or loan to plan paying it off.",
+        terms: "{{apr}}% APR · {{payment}} minimum",
+        nextPayment: "Next payment: {{date}}",
+        paidOff: "Paid off",
+        loadError: "Failed to load debts",
+        saveError: "Failed to save debt",
+        deleteError: "Failed to delete debt",
+        deleteConfirm:
+          "Are you sure you want to delete this debt? Its scheduled bill is deleted too.",
+        types: {
+          credit_card: "Credit card",
+          loan: "Loan",
+        },
+        form: {
+          name: "Name",
+          namePlaceholder: "e.g. Visa card, Car loan",
+          type: "Type",
+          principal: "Amount Owed",
+          principalHelp: "What is still left to pay off today",
+          apr: "APR (%)",
+          minimumPayment: "Minimum Monthly Payment",
+          dueDay: "Due Day",
+          dueDayHelp:
+            "Day of the month the payment is due. It is scheduled as a monthly bill.",
+          account: "Credit Account",
+          noAccount: "Not linked",
+          nameRequired: "Name is required",
+          invalidPrincipal: "Please enter a valid amount owed",
+          invalidApr: "APR must be between 0 and 100",
+          invalidMinimumPayment: "Minimum payment must be greater than 0",
+          invalidDueDay: "Due day must be between 1 and 31",
+        },
+        schedule: {
+          title: "Amortization Schedule",
+          description: "Paying the minimum on {{name}} every month",
+          payoffDate: "Payoff Date",
+          totalInterest: "Total Interest",
+          totalPaid: "Total Paid",
+          neverPaidOff:
+            "The minimum payment doesn't cover the monthly interest, so this debt is never paid off.",
+          month: "Month",
+          payment: "Payment",
+          interest: "Interest",
+          principal: "Principal",
+          balance: "Balance",
+        },
+        planner: {
+          title: "Payoff Planner",
+          description:
+            "Compare paying off your debts smallest balance first or highest interest first.",
+          noDebts: "Add a debt with an amount owed to plan paying it off.",
+          extraPayment: "Extra Payment per Month",
+          extraPaymentHelp:
+            "Paid on top of the minimums. Minimums of paid-off debts roll over too.",
+          debtFree: "Debt-free",
+          never: "Never",
+          months: "{{count}} month",
+          months_plural: "{{count}} months",
+          debt: "Debt",
+          cheapest: "Least interest",
+          strategies: {
+            snowball: "Snowball",
+            avalanche: "Avalanche",
+          },
+          strategyDescriptions: {
+            snowball: "Smallest balance first, for quick wins",
+            avalanche: "Highest APR first, for the least interest",
+          },
+          savings: {
+            avalanche: "Avalanche saves you {{amount}} in interest.",
+            snowball: "Snowball saves you {{amount}} in interest.",
+          },
+        },
+      },
+      categories: {
+        title: "Categories",
+        management: "Category Management",
+        managementDescription:
+          "Manage your expense and income categories. Categories help you organize your transactions and track your spending patterns.",
+        expenseCategories: "Expense Categories",
+        incomeCategories: "Income Categories",
+        add: "Add Category",
+        edit: "Edit Category",
+        update: "Update Category",
+        createNew: "Create New Category",
+        editDescription: "Update your category details below",
+        createDescription:
+          "Categories help you organize your transactions and track your spending patterns",
+        empty:
+          'No categories found. Click "Add Category" to create your first category.',
+        both: "Both",
+        unknown: "Unknown",
+        defaultCannotDelete: "Default categories cannot be deleted",
+        deleteCategory: "Delete category",
+        deleteConfirm:
+          "Are you sure you want to delete this category? This action cannot be undone.",
+        loadError: "Failed to load categories. Please try again.",
+        loadOneError: "Failed to load category",
+        deleteError: "Failed to delete category. Please try again.",
+        saveError: "Failed to save category. Please try again.",
+        form: {
+          name: "Category Name",
+          namePlaceholder: "e.g., Groceries, Rent, Salary",
+          nameRequired: "Category name is required",
+          type: "Category Type",
+          selectType: "Select type",
+          color: "Category Color",
+          iconPreview: "Icon Preview",
+          iconHelp: "Select an icon that represents this category.",
+        },
+        colorPicker: {
+          select: "Select color",
+          selectTitle: "Select a color",
+          selectValue: "Select color {{color}}",
+          custom: "Custom color",
+          pickCustom: "Pick custom color",
+        },
+        rules: {
+          title: "Categorization Rules",
+          description:
+            "Categorize and tag transactions automatically based on their description or notes.",
+          help: "Rules run from top to bottom; the first matching rule sets the category and adds its tags. They run when you add or import transactions.",
+          runOnUncategorized: "Run on Uncategorized",
+          add: "Add Rule",
+          edit: "Edit Rule",
+          update: "Update Rule",
+          empty:
+            "No rules yet. Add one to categorize transactions automatically.",
+          order: "Order",
+          rule: "Rule",
+          applies: "Applies",
+          active: "Active",
+          preview: "Preview",
+          summary: '{{field}} {{condition}} "{{pattern}}"',
+          matches: "matches",
+          deleteTitle: "Delete rule?",
+          deleteDescription:
+            "Transactions it already categorized keep their category and tags.",
+          loadError: "Failed to load rules. Please try again.",
+          reorderError: "Failed to reorder rules",
+          updateError: "Failed to update rule",
+          deleteError: "Failed to delete rule",
+          saveError: "Failed to save rule. Please try again.",
+          fields: {
+            description: "Description",
+            notes: "Notes",
+          },
+          conditions: {
+            contains: "contains",
+            starts_with: "starts with",
+            equals: "equals",
+            regex: "matches regex",
+          },
+          form: {
+            name: "Rule Name",
+            namePlaceholder: "e.g., Supermarket",
+            when: "When",
+            condition: "Condition",
+            text: "Text",
+            patternPlaceholder: "e.g., ALBERT HEIJN",
+            caseHelp: "Matching ignores upper and lower case.",
+            transactionType: "Transaction Type",
+            any: "Any",
+            setCategory: "Set Category",
+            dontChange: "Don't change",
+            addTags: "Add Tags",
+            patternRequired: "A pattern to match is required",
+            invalidRegex: "The pattern is not a valid regular expression",
+            actionRequired: "Choose a category or at least one tag to apply",
+          },
+          previewDialog: {
+            title: "Rule Preview",
+            description:
+              "Uncategorized transactions the rules would change. Nothing is saved until you apply.",
+            noMatchesRule: "No uncategorized transactions match this rule.",
+            noMatchesRules: "No uncategorized transactions match your rules.",
+            rows: "{{count}} row",
+            rows_plural: "{{count}} rows",
+            applying: "Applying...",
+            apply: "Apply to {{count}} transaction",
+            apply_plural: "Apply to {{count}} transactions",
+            applied: "Rules applied",
+            appliedDescription:
+              "{{categorized}} transactions categorized, {{tagged}} tagged",
+            loadError: "Failed to load uncategorized transactions",
+            applyError: "Failed to apply category rules",
+          },
+        },
+      },
+      tags: {
+        title: "Tags",
+        management: "Tag Management",
+        managementDescription:
+          "Manage your transaction tags. Tags help you organize and filter your transactions across categories.",
+        add: "Add Tag",
+        edit: "Edit Tag",
+        create: "Create Tag",
+        update: "Update Tag",
+        search: "Search tags...",
+        noMatches: 'No tags found matching "{{query}}"',
+        empty: "No tags found.",
+        createFirst: "Create your first tag",
+        toOrganize: "to organize your transactions!",
+        deleteConfirm:
+          "Are you sure you want to delete this tag? This action cannot be undone.",
+        none: "No tags",
+        select: "Select tags...",
+        loading: "Loading tags...",
+        notFound: "No tags found",
+        createNew: "Create new tag",
+        form: {
+          name: "Tag Name",
+          namePlaceholder: "e.g., Vacation, Business, Personal",
+          color: "Tag Color",
+          selectColor: "Select color {{color}}",
+          preview: "Preview",
+          nameRequired: "Please enter a tag name",
+          colorRequired: "Please select a color",
+        },
+        loadError: "Failed to load tags",
+        loadOneError: "Failed to load tag",
+        loadTransactionError: "Failed to load transaction tags",
+        updateError: "Failed to update tags",
+        deleteError: "Failed to delete tag",
+        saveError: "Failed to save tag",
+      },
+      accounts: {
+        title: "Bank Accounts",
+        details: "Account Details",
+        add: "Add Account",
+        edit: "Edit Account",
+        update: "Update Account",
+        addBankAccount: "Add Bank Account",
+        editBankAccount: "Edit Bank Account",
+        deleteAccount: "Delete Account",
+        backToAccounts: "Back to Accounts",
+        allAccounts: "All Accounts",
+        types: {
+          checking: "Checking",
+          savings: "Savings",
+          credit: "Credit Card",
+          investment: "Investment",
+          other: "Other",
+          asset: "Asset",
+          liability: "Liability",
+        },
+        totalBalance: "Total Balance",
+        totalTypeBalance: "Total {{type}} Balance",
+        acrossAccounts: "Across {{count}} account",
+        acrossAccounts_plural: "Across {{count}} accounts",
+        yourAccounts: "Your Accounts",
+        yourTypeAccounts: "Your {{type}} Accounts",
+        empty: "No bank accounts found.",
+        emptyType: "No {{type}} accounts found.",
+        addFirst: "Add your first account",
+        toStartTracking: "to start tracking your finances!",
+        default: "Default",
+        setAsDefault: "Set as default",
+        noInstitution: "No institution",
+        noAccountNumber: "No account number",
+        deleteConfirm:
+          "Are you sure you want to delete this bank account? This action cannot be undone. Any transactions associated with this account will remain but will no longer be linked to an account.",
+        loadError: "Failed to load bank accounts. Please try again.",
+        loadOneError: "Failed to load bank account details. Please try again.",
+        notFound: "Bank account not found",
+        deleteError: "Failed to delete bank account",
+        setDefaultError: "Failed to set default account",
+        saveError: "Failed to save bank account",
+        form: {
+          name: "Account Name *",
+          namePlaceholder: "e.g., Main Checking, Savings Account",
+          type: "Account Type *",
+          selectType: "Select account type",
+          institution: "Financial Institution",
+          institutionPlaceholder: "e.g., Chase, Bank of America",
+          number: "Account Number (last 4 digits)",
+          numberPlaceholder: "e.g., 1234",
+          openingBalance: "Opening Balance *",
+          openingBalanceHelp:
+            "The balance before any transactions recorded here. Transactions linked to the account update its balance from there.",
+          setDefault: "Set as default account",
+          notesPlaceholder: "Add any additional notes about this account",
+          nameRequired: "Please enter an account name",
+          invalidBalance: "Please enter a valid balance",
+        },
+        reconcile: "Reconcile",
+        setBalance: "Set Balance",
+        setBalanceDescription:
+          "Enter the balance your bank reports. If it doesn't match your transactions, the difference is shown on this page.",
+        balance: "Balance",
+        saveBalance: "Save Balance",
+        balanceMismatch: "Balance differs from the ledger",
+        balanceMore:
+          "The new balance is {{amount}} more than your transactions add up to.",
+        balanceLess:
+          "The new balance is {{amount}} less than your transactions add up to.",
+        balanceUpdated: "Balance updated",
+        balanceMatches: "The balance matches the ledger.",
+        balanceError: "Failed to update balance",
+        discrepancyMore:
+          "The current balance is {{amount}} more than the opening balance plus transactions ({{ledger}}). A transaction may be missing or entered twice.",
+        discrepancyLess:
+          "The current balance is {{amount}} less than the opening balance plus transactions ({{ledger}}). A transaction may be missing or entered twice.",
+        useLedgerBalance: "Use Ledger Balance",
+        keepBalance: "Keep Balance, Adjust Opening",
+        currentBalance: "Current Balance",
+        accountType: "Account Type",
+        lastUpdated: "Last Updated",
+        additionalDetails: "Additional Details",
+        openingBalance: "Opening Balance",
+        createdOn: "Created On",
+        recentTransactions: "Recent Transactions",
+        noTransactions: "No transactions linked to this account yet.",
+        items: {
+          tab: "Assets & Liabilities",
+          title: "Other Assets & Liabilities",
+          total: "Assets minus Liabilities",
+          totalHelp: "Counted in your net worth alongside your bank accounts",
+          empty:
+            "Track things like a house, a car or a loan here to include them in your net worth.",
+          add: "Add Item",
+          edit: "Edit Item",
+          update: "Update Item",
+          loadError: "Failed to load assets and liabilities",
+          saveError: "Failed to save item",
+          deleteError: "Failed to delete item",
+          deleteConfirm:
+            "Are you sure you want to delete this item? Its past values stay in your net worth history.",
+          form: {
+            name: "Name",
+            namePlaceholder: "e.g. House, Car loan",
+            type: "Type",
+            value: "Value",
+            assetValueHelp: "What it is worth today",
+            liabilityValueHelp: "What is still owed",
+            nameRequired: "Name is required",
+            invalidValue: "Please enter a value of zero or more",
+          },
+        },
+        reconciliation: {
+          pageTitle: "Reconcile Account",
+          title: "Statement Reconciliation",
+          description:
+            "Tick off the transactions on your statement. When the cleared balance matches the closing balance, finishing locks the period.",
+          history: "Reconciliation History",
+          intro:
+            "Enter the end date and closing balance from your statement, then tick off the transactions that appear on it.",
+          statementDate: "Statement End Date",
+          closingBalance: "Closing Balance",
+          closingBalanceRequired:
+            "Please enter the closing balance from your statement.",
+          start: "Start Reconciliation",
+          starting: "Starting...",
+          statementBalance: "Statement Balance ({{date}})",
+          clearedBalance: "Cleared Balance",
+          difference: "Difference",
+          noEntries: "No unreconciled transactions up to the statement date.",
+          cancel: "Cancel Reconciliation",
+          balanced: "Balanced",
+          tickUntilZero: "Tick transactions until the difference is zero",
+          finish: "Finish & Lock",
+          finishing: "Finishing...",
+          loadError: "Failed to load the reconciliation. Please try again.",
+          startError: "Failed to start the reconciliation. Please try again.",
+          clearError: "Failed to update the transaction",
+          reconciled: "Statement reconciled",
+          locked: "Transactions up to {{date}} are now locked",
+          finishError: "Failed to finish reconciliation",
+          cancelError: "Failed to cancel reconciliation",
+          historyError: "Failed to load reconciliation history.",
+          undoError: "Failed to undo reconciliation",
+          undone: "Reconciliation undone",
+          undoneDescription:
+            "Its transactions are unlocked and marked as cleared",
+          never: "This account hasn't been reconciled yet.",
+          transactions: "Transactions",
+          completed: "Completed",
+          inProgress: "In progress",
+          undo: "Undo",
+          undoTitle: "Undo reconciliation?",
+          undoDescription:
+            "The transactions in this statement are unlocked and go back to cleared, so they can be edited again.",
+        },
+      },
+      analytics: {
+        title: "Financial Analytics",
+        dateRange: "Date Range",
+        ranges: {
+          thisMonth: "This Month",
+          lastMonth: "Last Month",
+          thisQuarter: "This Quarter",
+          thisYear: "This Year",
+          lastYear: "Last Year",
+        },
+        apply: "Apply",
+        expenseCategories: "Expense Categories",
+        incomeVsExpenses: "Income vs Expenses",
+        spendingTrends: "Spending Trends",
+        savingsRate: "Savings Rate",
+        cashFlowForecast: "Cash Flow Forecast",
+        netWorthOverTime: "Net Worth Over Time",
+        budgetComparison: "Budget Comparison",
+        expensesByCategory: "Expenses by Category",
+        budgetVsActual: "Budget vs Actual Spending",
+        monthlyTrend: "Spending Trend (Monthly)",
+        dailyTrend: "Spending Trend (Daily)",
+        savingsRateTrend: "Savings Rate Trend",
+        budget: "Budget",
+        actual: "Actual",
+        amount: "Amount",
+        income: "Income",
+        expenses: "Expenses",
+        savings: "Savings",
+        valueLine: "{{label}}: {{value}}",
+        net: "Net",
+        overBudgetBy: "Over budget by {{amount}}",
+        underBudgetBy: "Under budget by {{amount}}",
+        averageSavingsRate: "Average Savings Rate: {{rate}}%",
+        good: "Good",
+        minimum: "Minimum",
+        goodRange: "Good: ≥20%",
+        fairRange: "Fair: 0-20%",
+        poorRange: "Poor: <0%",
+        uncategorized: "Uncategorized",
+        noBudgetData:
+          "No budget data available. Create budgets to see comparison.",
+        noExpenseData: "No expense data available for the selected period.",
+        noTransactionData:
+          "No transaction data available for the selected period.",
+        forecast: {
+          days: "{{count}} days",
+          payingAccount: "Bills paid from",
+          lowPoint: "Lowest: {{amount}} on {{date}}",
+          shortfall: "Below zero from {{date}}",
+          noShortfall: "No shortfall",
+          discretionaryNote:
+            "Includes about {{amount}} a day of everyday spending from {{account}}, based on the last three months.",
+          noAccounts: "Add a bank account to see a cash flow forecast.",
+        },
+        netWorth: {
+          netWorth: "Net worth",
+          assets: "Assets",
+          liabilities: "Liabilities",
+          accountType: "Account type",
+          monthOverMonth: "Change from last month",
+          sinceLastMonth: "{{amount}} since last month",
+          noData:
+            "Add bank accounts, assets or liabilities to start tracking your net worth.",
+        },
+        errors: {
+          budgetComparison: "Failed to load budget comparison data",
+          forecast: "Failed to load cash flow forecast",
+          netWorth: "Failed to load net worth data",
+          expenseCategories: "Failed to load expense category data",
+          incomeVsExpenses: "Failed to load income vs expenses data",
+          savingsRate: "Failed to load savings rate data",
+          spendingTrend: "Failed to load spending trend data",
+        },
+      },
+      groups: {
+        title: "Groups",
+        create: "Create Group",
+        edit: "Edit Group",
+        name: "Group Name",
+        namePlaceholder: "Enter group name",
+        descriptionPlaceholder: "What is this group for?",
+        creating: "Creating...",
+        inactive: "Inactive",
+        noDescription: "No description available",
+        memberCount: "{{count}} member",
+        memberCount_plural: "{{count}} members",
+        view: "View Group",
+        deleteTitle: "Delete Group?",
+        deleteConfirm:
+          "Are you sure you want to delete this group? This action cannot be undone.",
+        roles: {
+          owner: "Owner",
+          admin: "Admin",
+          member: "Member",
+          viewer: "Viewer",
+        },
+        roleDescriptions: {
+          admin: "Can manage group settings and members",
+          member: "Can add transactions and view all data",
+          viewer: "Can only view group data",
+        },
+        familyRoles: {
+          parent: "Parent",
+          child: "Child",
+          guardian: "Guardian",
+          other: "Other",
+        },
+        familyRoleDescriptions: {
+          parent:
+            "Full access to manage family finances and children's accounts",
+          child: "Limited access based on parent settings",
+          guardian: "Similar to parent but with some restrictions",
+          other: "Custom role with specific permissions",
+        },
+        errors: {
+          loginToCreate: "You must be logged in to create a group",
+          loginToEdit: "You must be logged in to edit a group",
+          createFailed: "Failed to create group: {{message}}",
+          tryAgain: "Please try again.",
+          loadFailed: "Failed to load group",
+          updateFailed: "Failed to update group",
+          deleteFailed: "Failed to delete group",
+        },
+        invitations: {
+          invitedBy: "Invited by: {{name}}",
+          expiresOn: "Expires on: {{date}}",
+          accept: "Accept",
+          decline: "Decline",
+          acceptFailed: "Failed to accept invitation. Please try again.",
+          rejectFailed: "Failed to reject invitation. Please try again.",
+        },
+        invite: {
+          title: "Invite Member",
+          description: "Invite someone to join this budget group",
+          email: "Email",
+          emailPlaceholder: "Enter email address",
+          role: "Role",
+          selectRole: "Select a role",
+          isFamily: "This is a family member",
+          familyRole: "Family Role",
+          selectFamilyRole: "Select a family role",
+          success: "Invitation sent successfully!",
+          sentTo: "An invitation email has been sent to:",
+          expiryNote:
+            "The user will also see the invitation when they log in. The invitation will expire in 7 days.",
+          failed: "Failed to send invitation. Please try again.",
+          sending: "Sending...",
+          send: "Send Invitation",
+        },
+        activity: {
+          title: "Activity Feed",
+          description: "Recent activity in this group",
+          empty: "No activity recorded yet",
+          unknownUser: "Unknown user",
+          types: {
+            income: "income",
+            expense: "expense",
+            transaction: "transaction",
+          },
+          transactionCreated: "{{user}} created a new {{type}} for {{amount}}",
+          transactionUpdated: "{{user}} updated a {{type}} for {{amount}}",
+          transactionDeleted: "{{user}} deleted a {{type}} for {{amount}}",
+          transactionApproved: "{{user}} approved a {{type}} for {{amount}}",
+          transactionRejected: "{{user}} rejected a {{type}} for {{amount}}",
+          withComment: '{{message}}: "{{comment}}"',
+          budgetCreated:
+            '{{user}} created a new budget "{{name}}" for {{amount}}',
+          budgetUpdated: '{{user}} updated budget "{{name}}" to {{amount}}',
+          budgetDeleted: '{{user}} deleted budget "{{name}}"',
+          memberAdded: "{{user}} added a new member with role {{role}}",
+          memberUpdated: "{{user}} updated a member's role to {{role}}",
+          memberRemoved: "{{user}} removed a member from the group",
+          generic: '{{user}} performed action "{{action}}" on {{entity}}',
+          item: "item",
+          invitationCreated: "{{user}} invited {{email}} as {{role}}",
+          invitationUpdated: "{{user}} updated the invitation for {{email}}",
+          invitationDeleted: "{{user}} cancelled the invitation for {{email}}",
+          invitationAccepted: "{{user}} accepted the invitation to join",
+          invitationRejected: "{{user}} declined the invitation to join",
+          invitationExpired: "The invitation for {{email}} expired",
+          categoryShared: '{{user}} shared the category "{{name}}"',
+          categoryUnshared: '{{user}} stopped sharing the category "{{name}}"',
+          budgetShared: '{{user}} shared the budget "{{name}}"',
+          budgetUnshared: '{{user}} stopped sharing the budget "{{name}}"',
+          groupCreated: '{{user}} created the group "{{name}}"',
+          change: "{{field}}: {{before}} → {{after}}",
+          noValue: "none",
+          fields: {
+            description: "Description",
+            name: "Name",
+            amount: "Amount",
+            type: "Type",
+            date: "Date",
+            period: "Period",
+            start_date: "Start date",
+            end_date: "End date",
+            status: "Status",
+            payment_method: "Payment method",
+            split_method: "Split",
+            role: "Role",
+            family_role: "Family role",
+            notes: "Notes",
+          },
+          entityTypes: {
+            transaction: "Transactions",
+            budget: "Budgets",
+            member: "Members",
+            invitation: "Invitations",
+            shared_category: "Shared categories",
+            shared_budget: "Shared budgets",
+            group: "Group",
+          },
+          filterMember: "Filter by member",
+          filterType: "Filter by type",
+          allMembers: "All members",
+          allTypes: "All activity",
+          from: "From",
+          to: "To",
+          clearFilters: "Clear filters",
+          filteredEmpty: "No activity matches these filters",
+          loadError: "Failed to load activity",
+        },
+        budgets: {
+          title: "Budgets",
+          add: "Add Budget",
+          edit: "Edit Budget",
+          delete: "Delete Budget",
+          empty: "No budgets found",
+          emptyHelp:
+            "Create budgets to track and manage your group's spending in different categories.",
+          categoryLabel: "Category: {{category}}",
+          createdBy: "Created by: {{name}}",
+          created: "Budget created successfully!",
+          deleteConfirm:
+            'Are you sure you want to delete the budget "{{name}}"? This action cannot be undone.',
+          deleteFailed: "Failed to delete budget. Please try again.",
+          namePlaceholder: "Enter budget name",
+          categoryRequired: "Please select a category",
+          selectPeriod: "Select a period",
+          pickDate: "Pick a date",
+          noEndDate: "No End Date",
+          creating: "Creating",
+          saving: "Saving",
+        },
+        page: {
+          title: "Budget Groups",
+          subtitle:
+            "Manage your shared budgets and expenses with family and friends",
+          myGroups: "My Groups",
+          invitations: "Invitations",
+          noGroups: "No Groups",
+          noGroupsDescription: "You haven't joined any budget groups yet",
+          noGroupsHelp: "Create a new group to start managing shared finances",
+          noInvitations: "No Invitations",
+          noInvitationsDescription:
+            "You don't have any pending group invitations",
+          noInvitationsHelp:
+            "When someone invites you to join their group, it will appear here",
+          loadFailed: "Failed to load groups: {{message}}",
+          refreshFailed: "Failed to refresh groups: {{message}}",
+          refreshDataFailed: "Failed to refresh data. Please try again.",
+        },
+        members: {
+          title: "Members",
+          description: "Manage group members and their roles",
+          you: "(You)",
+          joined: "Joined {{date}}",
+          changeRole: "Change Role",
+          changeRoleFor: "Change the role for {{name}}",
+          changeFamilyRole: "Change Family Role",
+          assignFamilyRole: "Assign a family role to {{name}}",
+          thisMember: "this member",
+          noFamilyRole: "No specific family role assigned",
+          remove: "Remove Member",
+          removing: "Removing...",
+          removeConfirm:
+            "Are you sure you want to remove {{name}} from this group?",
+          changeRoleFailed: "Failed to change role: {{message}}",
+          changeFamilyRoleFailed: "Failed to change family role: {{message}}",
+          removeFailed: "Failed to remove member. Please try again.",
+        },
+        settings: {
+          general: "General Settings",
+          generalDescription:
+            "Manage your group's basic information and settings",
+          description: "Group Description",
+          activeStatus: "Active Status",
+          activeHelp:
+            "When inactive, members won't be able to create new transactions",
+          saved: "Settings saved successfully!",
+          updateFailed: "Failed to update group: {{message}}",
+          deleteFailed: "Failed to delete group: {{message}}",
+          confirmNameMismatch:
+            "Please type the exact group name to confirm deletion.",
+          dangerZone: "Danger Zone",
+          dangerDescription: "Actions that can't be undone",
+          deleteWarning:
+            "Deleting this group will permanently remove all associated data including transactions, budgets, and member information.",
+          delete: "Delete Group",
+          deleteConfirm:
+            'Are you sure you want to delete the group "{{name}}"? This action cannot be undone.',
+          deleteDetails:
+            "All group data including transactions, budgets, and member information will be permanently deleted. Members will lose access to all shared resources.",
+          typeToConfirm: "Type the group name to confirm deletion:",
+        },
+        summary: {
+          loadFailed: "Failed to load budget groups",
+          recentActivity: "Recent Activity",
+        },
+        transactions: {
+          empty: "No transactions found",
+          emptyHelp:
+            "Start tracking your group's expenses and income by adding your first transaction.",
+          createdBy: "Created By",
+          deleteFailed: "Failed to delete transaction. Please try again.",
+          type: "Transaction Type",
+        },
+        splits: {
+          paidBy: "Paid by",
+          paidByName: "Paid by {{name}}",
+          selectMember: "Select a member",
+          split: "Split between members",
+          splitHelp: "Share this expense and track who owes what",
+          methods: {
+            equal: "Split equally",
+            percentage: "By percentage",
+            shares: "By shares",
+            exact: "Exact amounts",
+          },
+          valueLabels: {
+            equal: "Share",
+            percentage: "Percentage",
+            shares: "Shares",
+            exact: "Amount",
+          },
+          invalid: {
+            equal: "Select at least one member",
+            percentage: "Percentages must add up to 100",
+            shares: "Give at least one member a share",
+            exact: "Amounts must add up to the total",
+          },
+        },
+        balances: {
+          title: "Balances",
+          memberBalances: "Member Balances",
+          description: "Based on split expenses and recorded reimbursements",
+          paidAndOwed: "Paid {{paid}} · Share {{owed}}",
+          isOwed: "is owed",
+          owes: "owes",
+          settled: "settled up",
+          suggested: "Suggested Payments",
+          suggestedHelp: "The fewest payments that settle everyone up",
+          allSettled: "Everyone is settled up",
+          record: "Record payment",
+          history: "Settlement History",
+          noSettlements: "No reimbursements recorded yet",
+          settleUp: "Settle Up",
+          settleUpHelp: "Record a member paying another member back",
+          from: "From",
+          to: "To",
+          sameMember: "Choose two different members",
+          loadError: "Failed to load balances",
+          settleError: "Failed to record payment",
+          deleteError: "Failed to delete payment",
+          deleteTitle: "Delete Payment",
+          deleteConfirm:
+            "Are you sure you want to delete this reimbursement? Balances are recalculated without it.",
+        },
+        presence: {
+          viewingNow: "Viewing now",
+          online: "Viewing this group now",
+          more: "+{{count}}",
+        },
+        permissions: {
+          childLimits: "Limits for children",
+          childLimitsDescription:
+            "Set what members with the family role Child may do in this group",
+          approvalLimit: "Approval needed above",
+          approvalLimitHelp:
+            "Children's expenses above this amount wait for a parent's approval",
+          noLimit: "No limit",
+          canEditTransactions: "Edit and delete their own transactions",
+          canManageBudgets: "Create and manage budgets",
+          canRecordSettlements: "Record settlements",
+        },
+        approvals: {
+          title: "Waiting for your approval ({{count}})",
+          description:
+            "These expenses count towards the group's totals, budgets and balances once they are approved",
+          statusPending: "Waiting for approval",
+          statusRejected: "Rejected",
+          approve: "Approve",
+          reject: "Reject",
+          approveTitle: "Approve expense",
+          rejectTitle: "Reject expense",
+          reviewDescription:
+            '{{name}} added "{{description}}" for {{amount}}',
+          comment: "Comment (optional)",
+          commentPlaceholder: "Let them know why",
+          submittedBy: "Added by {{name}}",
+          approved: "Expense approved",
+          rejected: "Expense rejected",
+          reviewFailed: "Failed to save your review. Please try again.",
+          willNeedApproval:
+            "This expense will wait for approval before it counts towards the group's totals and budgets.",
+          rules: "Expense approvals",
+          rulesDescription:
+            "Choose whose expenses wait for approval. Owners and admins approve expenses from members with a lower role, and parents approve their children's.",
+          role: "Require approval for expenses from",
+          roles: {
+            none: "Nobody",
+            member: "Members",
+            admin: "Members and admins",
+          },
+          amountLimit: "Only above",
+          everyExpense: "Every expense",
+          amountLimitHelp:
+            "Leave empty to send every expense from these members for approval",
+        },
+        detail: {
+          loadFailed: "Failed to load group data. Please try again.",
+          notFound: "Group not found",
+          refreshMembersFailed: "Failed to refresh members. Please try again.",
+          refreshTransactionsFailed:
+            "Failed to refresh transactions. Please try again.",
+          refreshBudgetsFailed: "Failed to refresh budgets. Please try again.",
+          created: "Created {{date}}",
+          balance: "Balance",
+          tabs: {
+            transactionsShort: "Trans",
+            budgetsShort: "Budg",
+            membersShort: "Memb",
+            activity: "Activity",
+            activityShort: "Act",
+            balancesShort: "Bal",
+            settingsShort: "Set",
+          },
+        },
+        dashboard: {
+          title: "Household Dashboard",
+          personal: "Personal Dashboard",
+          noGroups: "No Budget Groups Found",
+          noGroupsHelp:
+            "You don't have any budget groups yet. Create a group to start managing household finances together.",
+          createGroup: "Create a Budget Group",
+          viewAllGroups: "View All Groups",
+          selectGroup: "Select a group",
+          groupSettings: "Group Settings",
+          overview: "Overview",
+          totalIncome: "Total Income",
+          totalExpenses: "Total Expenses",
+          currentMonth: "Current month",
+          percentOfIncome: "{{percent}}% of income",
+          recentTransactions: "Recent Transactions",
+          budgetProgress: "Budget Progress",
+          groupMembers: "Group Members",
+          groupTransactions: "Group Transactions",
+          groupBudgets: "Group Budgets",
+          loadGroupsFailed: "Failed to load budget groups",
+          loadFailed: "Failed to load group data",
+        },
+        invitation: {
+          title: "You're Invited to Join a Group!",
+          notFoundOrExpired: "Invitation not found or expired.",
+          notFound: "Invitation not found.",
+          defaultGroupName: "Budget Group",
+          unknownError: "Unknown error",
+          acceptFailed: "Failed to accept invitation",
+          backHome: "Back to Home",
+          joinPrefix: "Accept this invitation to join",
+          joinSuffix: ".",
+          joinAs: "as",
+          status: "Status:",
+          statuses: {
+            pending: "Pending",
+            accepted: "Accepted",
+            expired: "Expired",
+          },
+          acceptedRedirecting:
+            "Invitation accepted! Redirecting to your group…",
+          accept: "Accept Invitation",
+          redirecting: "Accepted! Redirecting…",
+        },
+      },
+      notifications: {
+        billDue: {
+          title: "Bill due soon",
+          message: "{{name}} ({{amount}}) is due on {{date}}.",
+        },
+        budgetAlert: {
+          title: "{{name}} is at {{percent}}%",
+          exceededTitle: "{{name}} is over budget",
+          message:
+            "You've spent {{spent}} of {{available}} on {{category}} this period.",
+        },
+        goalProgress: {
+          title: "Goal milestone reached",
+          message: "{{name}} is {{percent}}% funded.",
+          achievedTitle: "Goal achieved",
+          achievedMessage:
+            "You reached your target of {{amount}} for {{name}}.",
+        },
+        groupInvitation: {
+          title: "New group invitation",
+          message: "You've been invited to join {{group}} as {{role}}.",
+        },
+      },
+      toast: {
+        itemCreated: "{{item}} created successfully",
+        itemUpdated: "{{item}} updated successfully",
+        itemDeleted: "{{item}} deleted successfully",
+        somethingWentWrong: "Something went wrong",
+        items: {
+          transaction: "Transaction",
+          transfer: "Transfer",
+          recurringTransaction: "Recurring transaction",
+          budget: "Budget",
+          goal: "Goal",
+          contribution: "Contribution",
+          bill: "Bill",
+          payment: "Payment",
+          subscription: "Subscription",
+          settlement: "Settlement",
+          bankAccount: "Bank account",
+          netWorthItem: "Item",
+          debt: "Debt",
+          category: "Category",
+          tag: "Tag",
+          rule: "Rule",
+        },
+      },
+      errors: {
+        notFound: {
+          title: "Page Not Found",
+          description:
+            "The page you are looking for doesn't exist or has been moved.",
+          goHome: "Go back home",
+        },
+        boundary: {
+          title: "Something went wrong",
+          description:
+            "We're sorry, but an error occurred while rendering this component. You can try refreshing the page or resetting the component.",
+          stackTrace: "Stack trace",
+          tryAgain: "Try Again",
+        },
+      },
+    },
+  },
+  nl: {
+    translation: {
+      common: {
+        save: "Opslaan",
+        saving: "Opslaan...",
+        saveChanges: "Wijzigingen opslaan",
+        cancel: "Annuleren",
+        delete: "Verwijderen",
+        deleting: "Verwijderen...",
+        edit: "Bewerken",
+        add: "Toevoegen",
+        create: "Aanmaken",
+        update: "Bijwerken",
+        close: "Sluiten",
+        back: "Terug",
+        goBack: "Ga terug",
+        actions: "Acties",
+        loading: "Laden...",
+        retry: "Opnieuw proberen",
+        none: "Geen",
+        all: "Alle",
+        name: "Naam",
+        description: "Omschrijving",
+        amount: "Bedrag",
+        date: "Datum",
+        category: "Categorie",
+        account: "Rekening",
+        currency: "Valuta",
+        notes: "Notities",
+        status: "Status",
+        type: "Type",
+        color: "Kleur",
+        icon: "Pictogram",
+        startDate: "Startdatum",
+        endDate: "Einddatum",
+        optional: "Optioneel",
+        selectCategory: "Kies een categorie",
+        selectAccount: "Kies een rekening",
+        selectCurrency: "Kies valuta",
+        noCategory: "Geen categorie",
+        noAccount: "Geen rekening",
+        expense: "Uitgave",
+        income: "Inkomsten",
+        transfer: "Overboeking",
+        search: "Zoeken...",
+        viewAll: "Alles bekijken",
+        viewDetails: "Details bekijken",
+        unexpectedError: "Er is een onverwachte fout opgetreden",
+        error: "Fout",
+        success: "Gelukt",
+        yes: "Ja",
+        no: "Nee",
+        of: "{{value}} van {{total}}",
+        daily: "Dagelijks",
+        weekly: "Wekelijks",
+        biweekly: "Tweewekelijks",
+        monthly: "Maandelijks",
+        quarterly: "Per kwartaal",
+        yearly: "Jaarlijks",
+        transactionCount: "{{count}} transactie",
+        transactionCount_plural: "{{count}} transacties",
+        dayCount: "{{count}} dag",
+        dayCount_plural: "{{count}} dagen",
+        invalidAmount: "Vul een geldig bedrag in",
+        loadCategoriesError: "Kan categorieën niet laden",
+        loadAccountsError: "Kan bankrekeningen niet laden",
+        confirmDeletion: "Verwijderen bevestigen",
+        custom: "Aangepast",
+        ongoing: "Doorlopend",
+      },
+      nav: {
+        appName: "Budget Tracker",
+        version: "Versie {{version}}",
+        dashboard: "Dashboard",
+        transactions: "Transacties",
+        expenses: "Uitgaven",
+        income: "Inkomsten",
+        categories: "Categorieën",
+        budgets: "Budgetten",
+        accounts: "Rekeningen",
+        groups: "Groepen",
+        tags: "Tags",
+        goals: "Doelen",
+        analytics: "Analyses",
+        bills: "Facturen",
+        debts: "Schulden",
+        settings: "Instellingen",
+        profile: "Profiel",
+        search: "Zoeken",
+        searchPlaceholder: "Zoek transacties, categorieën en tags...",
+        help: "Help",
+        keyboardShortcuts: "Sneltoetsen",
+        lightMode: "Lichte modus",
+        darkMode: "Donkere modus",
+        logout: "Uitloggen",
+        login: "Inloggen",
+        user: "Gebruiker",
+        quickAdd: "Snel toevoegen",
+        newExpense: "Nieuwe uitgave",
+        newIncome: "Nieuwe inkomsten",
+        newBudget: "Nieuw budget",
+        newGoal: "Nieuw doel",
+        newTag: "Nieuwe tag",
+        copyright: "© {{year}} Budget Tracker. Alle rechten voorbehouden.",
+        privacyPolicy: "Privacybeleid",
+        termsOfService: "Servicevoorwaarden",
+        contact: "Contact",
+        helpSupport: "Help & ondersteuning",
+        theme: "Thema",
+        systemMode: "Systeemmodus",
+        helpModal: {
+          title: "Help en sneltoetsen",
+          shortcuts: "Sneltoetsen",
+          navigation: "Navigatie",
+          actions: "Acties",
+          goTo: "Ga naar {{page}}",
+          newTransaction: "Nieuwe transactie",
+          gettingStarted: "Aan de slag",
+          step1Title: "1. Houd je transacties bij",
+          step1Text:
+            "Begin met het toevoegen van je inkomsten en uitgaven bij Transacties. Je kunt ze indelen in categorieën en tags toevoegen.",
+          step2Title: "2. Maak budgetten",
+          step2Text:
+            "Stel maandbudgetten per categorie in om je uitgaven te beheersen en je financiële doelen te halen.",
+          step3Title: "3. Stel financiële doelen",
+          step3Text:
+            "Bepaal je financiële doelen, zoals sparen voor een vakantie, een auto of een noodfonds. Volg je voortgang en stort regelmatig.",
+          step4Title: "4. Beheer facturen en abonnementen",
+          step4Text:
+            "Houd terugkerende facturen en abonnementen bij om te late betalingen te voorkomen en je kasstroom te beheren.",
+          tipsTitle: "Tips en trucs",
+          tip1: "Gebruik tags om je transacties verder in te delen voor gedetailleerdere rapporten.",
+          tip2: "Bekijk je uitgavenpatroon op het dashboard om te zien waar je kunt besparen.",
+          tip3: "Stel realistische budgetten op basis van je eerdere uitgaven om ze beter vol te houden.",
+          tip4: "Stort regelmatig in je financiële doelen, ook al zijn het kleine bedragen.",
+          tip5: "Gebruik de mobiele weergave om onderweg uitgaven bij te houden.",
+          gotIt: "Begrepen",
+        },
+        welcome: {
+          title: "Welkom bij Budget Tracker",
+          greeting: "Welkom, {{name}}! We helpen je graag met je financiën.",
+          greetingNoName: "Welkom! We helpen je graag met je financiën.",
+          tour: "We geven je een korte rondleiding.",
+          transactionsTitle: "Houd je transacties bij",
+          transactionsText:
+            "Leg eenvoudig je inkomsten en uitgaven vast en houd zicht op je uitgavenpatroon.",
+          proTip: "Tip",
+          shortcutPrefix: "Druk op",
+          shortcutSuffix: "om snel een transactie toe te voegen.",
+          budgetsTitle: "Stel budgetten en doelen",
+          budgetsText: "Plan je financiën met budgetten en doelen.",
+          budgets: "Budgetten",
+          budgetsHelp:
+            "Maak maandbudgetten om je uitgaven per categorie te beheersen.",
+          savingsGoals: "Spaardoelen",
+          savingsGoalsHelp: "Stel spaardoelen en volg je voortgang.",
+          doneTitle: "Je bent klaar!",
+          doneText:
+            "Je bent klaar om grip te krijgen op je financiën met Budget Tracker.",
+          reminder:
+            "Werk je transacties regelmatig bij voor het meest actuele beeld.",
+          begin: 'Klik op "Aan de slag" om te beginnen!',
+          back: "Terug",
+          skip: "Overslaan",
+          next: "Volgende",
+          getStarted: "Aan de slag",
+        },
+        notifications: {
+          title: "Meldingen",
+          markAllRead: "Alles als gelezen markeren",
+          clear: "Wissen",
+          empty: "Geen meldingen",
+          dismiss: "Sluiten",
+        },
+      },
+      auth: {
+        email: "E-mailadres",
+        password: "Wachtwoord",
+        fullName: "Volledige naam",
+        confirmPassword: "Bevestig wachtwoord",
+        signIn: "Inloggen",
+        unexpectedError:
+          "Er is een onverwachte fout opgetreden. Probeer het opnieuw.",
+        login: {
+          title: "Welkom terug",
+          description: "Log in op je account",
+          forgotPassword: "Wachtwoord vergeten?",
+          signingIn: "Inloggen...",
+          noAccount: "Nog geen account?",
+          register: "Registreren",
+        },
+        register: {
+          title: "Account aanmaken",
+          description: "Meld je aan en houd je financiën bij",
+          passwordHint: "Het wachtwoord moet minstens 8 tekens lang zijn",
+          passwordsMismatch: "Wachtwoorden komen niet overeen",
+          submit: "Account aanmaken",
+          submitting: "Account aanmaken...",
+          haveAccount: "Heb je al een account?",
+          success: "Registratie gelukt!",
+          successDescription:
+            "Controleer je e-mail om je account te bevestigen. Je wordt zo doorgestuurd naar de inlogpagina.",
+          goToLogin: "Naar de inlogpagina",
+        },
+        reset: {
+          title: "Wachtwoord opnieuw instellen",
+          description: "Vul je e-mailadres in om een herstellink te ontvangen",
+          submit: "Herstellink versturen",
+          submitting: "Versturen...",
+          remember: "Weet je je wachtwoord weer?",
+          checkEmail: "Controleer je e-mail",
+          sent: "We hebben een herstellink gestuurd naar {{email}}. Kijk in je inbox en volg de instructies om je wachtwoord opnieuw in te stellen.",
+          returnToLogin: "Terug naar inloggen",
+        },
+        landing: {
+          tagline:
+            "Krijg grip op je financiën met krachtige tools voor budgetteren en uitgaven bijhouden.",
+          trackTitle: "Houd je uitgaven bij",
+          trackText:
+            "Leg je uitgaven eenvoudig vast en deel ze in, zodat je ziet waar je geld heen gaat.",
+          budgetsTitle: "Stel budgetten in",
+          budgetsText: "Maak budgetten per categorie en volg je voortgang.",
+          visualizeTitle: "Breng je financiën in beeld",
+          visualizeText:
+            "Krijg inzicht met overzichtelijke grafieken en rapporten voor betere financiële beslissingen.",
+          goalsTitle: "Bereik je doelen",
+          goalsText: "Stel financiële doelen en volg hoe je ze bereikt.",
+        },
+      },
+      settings: {
+        title: "Instellingen",
+        description: "Beheer je accountinstellingen en voorkeuren",
+        new: "Nieuw",
+        helpSupport: "Help & ondersteuning",
+        tabs: {
+          profile: "Profiel",
+          password: "Wachtwoord",
+          preferences: "Voorkeuren",
+          notifications: "Meldingen",
+          currency: "Valuta",
+          theme: "Thema",
+          language: "Taal",
+          data: "Gegevens",
+          account: "Account",
+        },
+        tabDescriptions: {
+          profile: "Beheer je persoonlijke gegevens en profielinstellingen",
+          password: "Wijzig je wachtwoord en beveiligingsinstellingen",
+          preferences: "Pas de app en je standaardinstellingen aan",
+          notifications: "Bepaal hoe en wanneer je meldingen ontvangt",
+          currency: "Stel je voorkeursvaluta en notatie in",
+          theme: "Kies je thema en weergave-instellingen",
+          language: "Kies de taal van de applicatie",
+          data: "Exporteer je gegevens of zet een back-up terug",
+          account:
+            "Beheer de beveiliging van je account en gekoppelde diensten",
+          default: "Beheer je instellingen en voorkeuren",
+        },
+        connected: {
+          title: "Gekoppelde diensten",
+          description: "Beheer je gekoppelde accounts en diensten",
+          banking: "Bankkoppeling",
+          bankingDescription:
+            "Koppel je bankrekeningen om transacties automatisch te importeren",
+          connect: "Koppelen",
+          twoFactor: "Tweestapsverificatie",
+          twoFactorDescription:
+            "Voeg een extra beveiligingslaag toe aan je account",
+          setup: "Instellen",
+          sync: "Gegevenssynchronisatie",
+          lastSynced: "5 minuten geleden gesynchroniseerd",
+          syncNow: "Nu synchroniseren",
+        },
+        profile: {
+          title: "Profielgegevens",
+          description: "Werk je persoonlijke gegevens bij",
+          email: "E-mail",
+          emailLocked: "E-mail kan hier niet worden gewijzigd",
+          emailHelp: "Gebruik de accountinstellingen om je e-mail te wijzigen",
+          fullName: "Volledige naam",
+          avatarUrl: "Avatar-URL",
+          avatarHelp: "Voer de URL van een afbeelding voor je profielfoto in",
+          avatarPreview: "Voorbeeld avatar",
+          avatarError: "Afbeelding laden mislukt. Controleer de URL.",
+          updated: "Profiel bijgewerkt",
+          updatedMessage: "Je profielgegevens zijn bijgewerkt.",
+          updateFailed: "Profiel bijwerken mislukt",
+          unexpectedError:
+            "Er is een onverwachte fout opgetreden bij het bijwerken van je profiel.",
+        },
+        password: {
+          title: "Wachtwoord wijzigen",
+          description: "Wijzig het wachtwoord van je account",
+          current: "Huidig wachtwoord",
+          new: "Nieuw wachtwoord",
+          confirm: "Bevestig nieuw wachtwoord",
+          lengthHelp: "Het wachtwoord moet minstens 8 tekens lang zijn",
+          submit: "Wachtwoord bijwerken",
+          updating: "Bijwerken...",
+          mismatch: "Wachtwoorden komen niet overeen",
+          mismatchMessage:
+            "De nieuwe wachtwoorden komen niet overeen. Zorg dat beide velden hetzelfde wachtwoord bevatten.",
+          invalid: "Ongeldig wachtwoord",
+          invalidMessage: "Het wachtwoord moet minstens 8 tekens lang zijn.",
+          updated: "Wachtwoord bijgewerkt",
+          updatedMessage: "Je wachtwoord is bijgewerkt.",
+          updateFailed: "Wachtwoord bijwerken mislukt",
+          unexpectedError:
+            "Er is een onverwachte fout opgetreden bij het bijwerken van je wachtwoord.",
+        },
+        preferences: {
+          title: "Gebruikersvoorkeuren",
+          description: "Pas je applicatie-instellingen aan",
+          currencyHelp: "Dit wordt gebruikt om alle bedragen weer te geven",
+          selectTheme: "Kies thema",
+          enableNotifications: "Meldingen inschakelen",
+          submit: "Voorkeuren opslaan",
+          updated: "Instellingen bijgewerkt",
+        },
+        notifications: {
+          title: "Meldingsinstellingen",
+          description: "Beheer hoe je meldingen ontvangt",
+          enableAll: "Alle meldingen inschakelen",
+          types: "Soorten meldingen",
+          billDue: "Herinneringen voor facturen",
+          billDueDescription: "Ontvang een melding wanneer facturen vervallen",
+          budgetAlert: "Budgetwaarschuwingen",
+          budgetAlertDescription:
+            "Ontvang een melding wanneer je bijna over je budget gaat",
+          goalProgress: "Voortgang van doelen",
+          goalProgressDescription:
+            "Ontvang meldingen over de voortgang van je spaardoelen",
+          groupInvitation: "Groepsuitnodigingen",
+          groupInvitationDescription:
+            "Ontvang een melding wanneer je voor een budgetgroep wordt uitgenodigd",
+          transactionAlert: "Transactiemeldingen",
+          transactionAlertDescription:
+            "Ontvang meldingen over nieuwe transacties",
+          weeklySummary: "Wekelijks overzicht",
+          weeklySummaryDescription:
+            "Ontvang een wekelijks overzicht van je financiën",
+          submit: "Meldingsinstellingen opslaan",
+          updated: "Meldingsinstellingen bijgewerkt",
+        },
+        currency: {
+          title: "Valuta-instellingen",
+          description: "Kies je voorkeursvaluta voor de applicatie",
+          select: "Kies valuta",
+          help: "Je basisvaluta: totalen, rapporten en budgetten worden hiernaar omgerekend met je wisselkoersen",
+          preview: "Voorbeeld valuta",
+          symbol: "Symbool:",
+          code: "Code:",
+          format: "Notatie:",
+          example: "Voorbeeld",
+          formattedValue: "Weergegeven waarde",
+          positive: "Positief bedrag",
+          negative: "Negatief bedrag",
+          zero: "Nulbedrag",
+          submit: "Valuta-instellingen opslaan",
+          updated: "Valuta-instellingen bijgewerkt",
+        },
+        exchangeRates: {
+          title: "Wisselkoersen",
+          description:
+            "Rapporten en budgetten rekenen andere valuta om naar {{currency}} met de laatste koers op of vóór de datum van elke transactie",
+          rateLabel: "Koers ({{currency}} per eenheid)",
+          add: "Koers toevoegen",
+          import: "CSV importeren",
+          importHelp:
+            "CSV-bestanden hebben kolommen voor datum, valuta en koers nodig. Een optionele kolom base bepaalt in welke valuta de koers is uitgedrukt; standaard {{currency}}.",
+          empty:
+            "Nog geen wisselkoersen. Bedragen in andere valuta tellen onomgerekend mee tot er een koers is toegevoegd.",
+          rate: "Koers",
+          missingColumns:
+            "De CSV heeft kolommen voor datum, valuta en koers nodig",
+          selectCurrencyError: "Kies een valuta.",
+          rateError: "Voer een koers groter dan nul in.",
+          loadError: "Wisselkoersen laden mislukt.",
+          saveError: "Wisselkoers opslaan mislukt. Probeer het opnieuw.",
+          deleteError: "Wisselkoers verwijderen mislukt",
+          noRatesFound: "Er zijn geen geldige koersen in het bestand gevonden.",
+          importError: "Wisselkoersen importeren mislukt. Probeer het opnieuw.",
+          imported: "Wisselkoersen geïmporteerd",
+          importedCount: "{{count}} koers geïmporteerd",
+          importedCount_plural: "{{count}} koersen geïmporteerd",
+          skippedCount: "{{count}} rij overgeslagen",
+          skippedCount_plural: "{{count}} rijen overgeslagen",
+        },
+        theme: {
+          title: "Thema-instellingen",
+          description: "Pas het uiterlijk van de applicatie aan",
+          select: "Kies thema",
+          light: "Licht",
+          lightDescription:
+            "Lichte modus met heldere achtergrond en donkere tekst",
+          dark: "Donker",
+          darkDescription:
+            "Donkere modus met donkere achtergrond en lichte tekst",
+          system: "Systeem",
+          systemDefault: "Systeemstandaard",
+          systemDescription: "Volg de thema-instellingen van je systeem",
+          submit: "Thema-instellingen opslaan",
+          updated: "Thema-instellingen bijgewerkt",
+        },
+        language: {
+          title: "Taalinstellingen",
+          description: "Kies je voorkeurstaal voor de applicatie",
+          select: "Kies taal",
+          help: "Hiermee verander je de taal in de hele applicatie",
+          preview: "Voorbeeld taal",
+          flag: "Vlag:",
+          name: "Naam:",
+          native: "Eigen naam:",
+          submit: "Taalinstellingen opslaan",
+          updated: "Taalinstellingen bijgewerkt",
+        },
+        deletion: {
+          title: "Account verwijderen",
+          description:
+            "Deze actie is definitief en kan niet ongedaan worden gemaakt. Al je gegevens worden permanent verwijderd.",
+          confirmLabel: 'Typ ter bevestiging "{{phrase}}" hieronder',
+          confirmError: "Typ {{phrase}} om te bevestigen",
+          submit: "Mijn account definitief verwijderen",
+          error: "Account verwijderen mislukt. Neem contact op met support.",
+        },
+        data: {
+          exportTitle: "Gegevens exporteren",
+          exportDescription:
+            "Download je gegevens als CSV of OFX, of alles als JSON-archief dat later kan worden teruggezet",
+          filters: "Transactiefilters",
+          filtersHelp:
+            "CSV- en OFX-exports van transacties bevatten alleen de overeenkomende transacties. De filters van de transactiepagina worden standaard toegepast.",
+          csvContents: "Inhoud CSV",
+          downloadCsv: "CSV downloaden",
+          downloadOfx: "OFX downloaden",
+          downloadJson: "JSON-archief downloaden",
+          exportError: "Gegevens exporteren mislukt. Probeer het opnieuw.",
+          restoreTitle: "Back-up terugzetten",
+          restoreDescription:
+            "Maak alles uit een JSON-archief opnieuw aan onder je account. Teruggezette gegevens komen naast je bestaande gegevens; categorieën en tags met dezelfde naam worden hergebruikt.",
+          restoreButton: "Terugzetten uit archief",
+          restoring: "Terugzetten...",
+          restore: "Terugzetten",
+          invalidFile: "Dit bestand is geen back-up die kan worden teruggezet.",
+          unreadableFile: "Het back-upbestand kon niet worden gelezen.",
+          confirm:
+            "Deze back-up van {{date}} bevat {{contents}}. Alles wordt aan je huidige gegevens toegevoegd, dus dezelfde back-up twee keer terugzetten geeft dubbele gegevens.",
+          noRecords: "geen gegevens",
+          partial:
+            "Het terugzetten is halverwege gestopt. Tot nu toe teruggezet: {{contents}}.",
+          restoreError: "Back-up terugzetten mislukt. Probeer het opnieuw.",
+          restoreFailed: "Back-up terugzetten mislukt",
+          restored: "Back-up teruggezet",
+          nothingNew: "Niets nieuws om terug te zetten",
+          entities: {
+            transactions: "Transacties",
+            categories: "Categorieën",
+            tags: "Tags",
+            budgets: "Budgetten",
+            bills: "Facturen & abonnementen",
+            goals: "Doelen",
+            bank_accounts: "Bankrekeningen",
+          },
+          counts: {
+            bank_accounts: "{{count}} bankrekening",
+            bank_accounts_plural: "{{count}} bankrekeningen",
+            categories: "{{count}} categorie",
+            categories_plural: "{{count}} categorieën",
+            tags: "{{count}} tag",
+            tags_plural: "{{count}} tags",
+            transactions: "{{count}} transactie",
+            transactions_plural: "{{count}} transacties",
+            transaction_splits: "{{count}} gesplitste regel",
+            transaction_splits_plural: "{{count}} gesplitste regels",
+            transaction_tags: "{{count}} transactietag",
+            transaction_tags_plural: "{{count}} transactietags",
+            budgets: "{{count}} budget",
+            budgets_plural: "{{count}} budgetten",
+            bills: "{{count}} factuur",
+            bills_plural: "{{count}} facturen",
+            bill_payments: "{{count}} factuurbetaling",
+            bill_payments_plural: "{{count}} factuurbetalingen",
+            goals: "{{count}} doel",
+            goals_plural: "{{count}} doelen",
+            goal_contributions: "{{count}} doelinleg",
+            goal_contributions_plural: "{{count}} doelinleggen",
+          },
+        },
+      },
+      dashboard: {
+        welcome: "Welkom terug, {{name}}",
+        householdDashboard: "Huishouddashboard",
+        tabs: {
+          overview: "Overzicht",
+          finances: "Financiën",
+          goals: "Doelen",
+        },
+        billReminders: "Factuurherinneringen",
+        budgetProgress: "Budgetvoortgang",
+        expenseCategories: "Uitgavencategorieën",
+        recentTransactions: "Recente transacties",
+        totalIncome: "Totale inkomsten",
+        totalExpenses: "Totale uitgaven",
+        savings: "Besparingen",
+        deficit: "Tekort",
+        currentMonth: "Huidige maand",
+        ofIncome: "{{percent}}% van inkomsten",
+        loadSummaryError: "Kan het uitgavenoverzicht niet laden",
+      },
+      transactions: {
+        title: "Transacties",
+        add: "Transactie toevoegen",
+        edit: "Transactie bewerken",
+        update: "Transactie bijwerken",
+        addExpense: "Uitgave toevoegen",
+        addIncome: "Inkomsten toevoegen",
+        saveAnyway: "Toch opslaan",
+        noDescription: "Geen omschrijving",
+        deletedAccount: "Verwijderde rekening",
+        loadMore: "Meer laden",
+        empty:
+          "Geen transacties gevonden. Voeg je eerste transactie toe om te beginnen!",
+        deleteTitle: "Transactie verwijderen",
+        deleteConfirm:
+          "Weet je zeker dat je deze transactie wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        loadError: "Kan transacties niet laden",
+        loadOneError: "Kan transactie niet laden",
+        deleteError: "Kan transactie niet verwijderen",
+        saveError: "Kan transactie niet opslaan",
+        paymentMethods: {
+          cash: "Contant",
+          credit_card: "Creditcard",
+          debit_card: "Betaalpas",
+          bank_transfer: "Bankoverschrijving",
+          check: "Cheque",
+          mobile_payment: "Mobiele betaling",
+          other: "Overig",
+        },
+        statuses: {
+          pending: "In behandeling",
+          completed: "Voltooid",
+          cleared: "Verwerkt",
+          reconciled: "Afgestemd",
+          cancelled: "Geannuleerd",
+        },
+        form: {
+          loadError: "Kan gegevens niet laden. Probeer het opnieuw.",
+          dateRequired: "Kies een datum.",
+          splitAmountRequired:
+            "Elke splitsregel heeft een bedrag groter dan nul nodig.",
+          splitTotalMismatch:
+            "De splitsregels moeten optellen tot het transactiebedrag.",
+          loginRequired:
+            "Je moet ingelogd zijn om een transactie toe te voegen",
+          saveError: "Kan transactie niet opslaan. Probeer het opnieuw.",
+          reconciledLocked:
+            "Deze transactie hoort bij een afgestemd afschrift. Bedrag, datum en rekening zijn vergrendeld.",
+          duplicateWarning: "Dit lijkt op een transactie die je al hebt:",
+          duplicateHint: "Verstuur opnieuw om toch op te slaan.",
+          accountCurrency:
+            "Transacties op {{account}} zijn in de valuta van die rekening",
+          descriptionPlaceholder: "Vul een omschrijving in",
+          split: "Verdelen over categorieën",
+          bankAccount: "Bankrekening",
+          selectBankAccount: "Kies een bankrekening",
+          paymentMethod: "Betaalmethode",
+          selectPaymentMethod: "Kies een betaalmethode",
+          selectStatus: "Kies een status",
+          notesPlaceholder: "Voeg extra notities toe",
+          tags: "Tags",
+        },
+        split: {
+          amount: "Splitsbedrag",
+          category: "Splitscategorie",
+          remove: "Splitsregel verwijderen",
+          notePlaceholder: "Notitie (optioneel)",
+          addLine: "Regel toevoegen",
+          allocated: "Volledig verdeeld",
+          remaining: "Nog {{amount}} te verdelen",
+          over: "{{amount}} boven het bedrag",
+        },
+        transfer: {
+          edit: "Overboeking bewerken",
+          title: "Overboeken tussen rekeningen",
+          from: "Van",
+          to: "Naar",
+          submit: "Overboeken",
+          descriptionPlaceholder: "bijv. Maandelijks sparen",
+          help: "Beide rekeningsaldi worden bijgewerkt. Overboekingen tellen niet als inkomsten of uitgaven.",
+          selectBoth: "Kies beide rekeningen.",
+          selectDifferent: "Kies twee verschillende rekeningen.",
+          sameCurrency: "Beide rekeningen moeten dezelfde valuta hebben.",
+          saveError: "Kan overboeking niet opslaan. Probeer het opnieuw.",
+        },
+        filters: {
+          title: "Filters",
+          description: "Filter je transacties",
+          selectType: "Kies type",
+          allTypes: "Alle types",
+          allCategories: "Alle categorieën",
+          allAccounts: "Alle rekeningen",
+          minAmount: "Min. bedrag",
+          maxAmount: "Max. bedrag",
+          search: "Zoeken",
+          searchPlaceholder: "Transacties zoeken...",
+          clear: "Filters wissen",
+        },
+        recurring: {
+          title: "Terugkerende transacties",
+          add: "Terugkerende transactie toevoegen",
+          edit: "Terugkerende transactie bewerken",
+          addShort: "Terugkerend toevoegen",
+          descriptionPlaceholder: "bijv. Salaris, Huur",
+          repeats: "Herhaalt",
+          starting: "Vanaf",
+          ends: "Eindigt",
+          next: "Volgende",
+          never: "Nooit",
+          onDate: "Op een datum",
+          afterOccurrences: "Na een aantal keer",
+          occurrencesPlaceholder: "bijv. 12",
+          until: "Tot {{date}}",
+          catchUpHint:
+            "Herhalingen sinds de startdatum worden meteen toegevoegd.",
+          descriptionRequired: "Vul een omschrijving in.",
+          endBeforeStart: "De einddatum moet op of na de startdatum liggen.",
+          occurrencesRequired: "Vul in hoe vaak de transactie herhaalt.",
+          saveError:
+            "Kan terugkerende transactie niet opslaan. Probeer het opnieuw.",
+          loadError:
+            "Kan terugkerende transacties niet laden. Probeer het opnieuw.",
+          help: "Verschuldigde herhalingen worden aan je transacties toegevoegd wanneer je de app opent, ook de gemiste sinds je laatste bezoek.",
+          empty: "Nog geen terugkerende transacties.",
+          ended: "Beëindigd",
+          paused: "Gepauzeerd",
+          skipNext: "Volgende overslaan",
+          pause: "Pauzeren",
+          resume: "Hervatten",
+          skipped: "Overgeslagen",
+          skippedDescription: "De herhaling van {{date}} wordt niet toegevoegd",
+          pastAdded: "{{count}} eerdere herhaling is toegevoegd",
+          pastAdded_plural: "{{count}} eerdere herhalingen zijn toegevoegd",
+          syncAdded: "{{count}} terugkerende transactie is toegevoegd",
+          syncAdded_plural:
+            "{{count}} terugkerende transacties zijn toegevoegd",
+          skipError: "Kan de volgende herhaling niet overslaan",
+          updateError: "Kan terugkerende transactie niet bijwerken",
+          deleteError: "Kan terugkerende transactie niet verwijderen",
+          deleteTitle: "Terugkerende transactie verwijderen?",
+          deleteConfirm:
+            "Er worden geen nieuwe herhalingen toegevoegd. Al toegevoegde transacties blijven behouden.",
+        },
+        import: {
+          title: "Transacties importeren",
+          uploadDescription:
+            "Upload een bankafschrift in CSV-, OFX/QFX- of QIF-formaat.",
+          mapDescription:
+            "Koppel de kolommen van {{file}} aan transactievelden.",
+          previewDescription:
+            "Controleer de ingelezen regels. Regels met fouten worden niet geïmporteerd.",
+          chooseFile: "Kies een afschriftbestand",
+          typeColumn: "Type (inkomsten/uitgave)",
+          selectColumn: "Kies een kolom",
+          notMapped: "Niet gekoppeld",
+          example: "(bijv. {{value}})",
+          defaultAccount: "Standaard bankrekening",
+          dateFormat: "Datumnotatie",
+          detect: "Automatisch herkennen",
+          ymd: "Jaar-Maand-Dag",
+          dmy: "Dag/Maand/Jaar",
+          mdy: "Maand/Dag/Jaar",
+          decimalSeparator: "Decimaalteken",
+          point: "Punt (1,234.56)",
+          comma: "Komma (1.234,56)",
+          amountSign: "Teken van bedrag",
+          negativeIsExpense: "Negatieve bedragen zijn uitgaven",
+          positiveIsExpense: "Positieve bedragen zijn uitgaven",
+          ready: "{{count}} klaar om te importeren",
+          ready_plural: "{{count}} klaar om te importeren",
+          withErrors: "{{count}} met fouten",
+          possibleDuplicates: "{{count}} mogelijk dubbel",
+          possibleDuplicates_plural: "{{count}} mogelijk dubbele",
+          duplicateOf: "Mogelijk dubbel van {{description}} op {{date}}",
+          skipDuplicates:
+            "Regels overslaan die op bestaande transacties lijken",
+          row: "Regel",
+          preview: "Voorbeeld",
+          importing: "Importeren...",
+          submit: "{{count}} transactie importeren",
+          submit_plural: "{{count}} transacties importeren",
+          noRows: "Er zijn geen transacties gevonden in dit bestand.",
+          readError: "Kan het bestand niet lezen. Controleer het formaat.",
+          complete: "Import voltooid",
+          imported: "{{count}} transactie geïmporteerd",
+          imported_plural: "{{count}} transacties geïmporteerd",
+          skipped: "{{count}} regel overgeslagen",
+          skipped_plural: "{{count}} regels overgeslagen",
+          categorized: "{{count}} gecategoriseerd door regels",
+          failed: "Kan transacties niet importeren",
+          failedWithReason: "Kan transacties niet importeren: {{reason}}",
+          errors: {
+            noDateColumn: "Geen datumkolom gekoppeld",
+            invalidDate: 'Ongeldige datum "{{value}}"',
+            noAmountColumn: "Geen bedragkolom gekoppeld",
+            invalidAmount: 'Ongeldig bedrag "{{value}}"',
+            zeroAmount: "Bedrag is nul",
+            unknownType: 'Onbekend type "{{value}}"',
+            unknownAccount: 'Onbekende bankrekening "{{value}}"',
+          },
+        },
+        duplicates: {
+          merged: "Transacties samengevoegd",
+          mergeError: "Kan transacties niet samenvoegen",
+          keep: "Deze behouden",
+          help: "Als je één transactie behoudt, wordt de andere verwijderd en gaan de tags, notities en categorie over naar de transactie die je behoudt.",
+          last30: "Laatste 30 dagen",
+          last90: "Laatste 90 dagen",
+          last180: "Laatste 6 maanden",
+          last365: "Afgelopen jaar",
+          empty: "Geen waarschijnlijke dubbelen gevonden.",
+          match: "{{percent}}% overeenkomst",
+          dismiss: "Geen dubbele",
+        },
+        all: "Alle transacties",
+        recurringShort: "Terugkerend",
+        reviewDuplicates: "Dubbelen controleren",
+        importShort: "Importeren",
+        expenses: "Uitgaven",
+        expenseTransactions: "Uitgaventransacties",
+        incomeTransactions: "Inkomstentransacties",
+        recurringTemplates: "Terugkerende sjablonen",
+        recurringTemplatesDescription:
+          "Inkomsten en uitgaven die volgens een schema terugkomen, zoals je salaris, huur of abonnementen.",
+        possibleDuplicates: "Mogelijk dubbele transacties",
+        possibleDuplicatesDescription:
+          "Transacties met hetzelfde bedrag en type, binnen een paar dagen van elkaar geboekt op dezelfde rekening.",
+      },
+      budgets: {
+        title: "Budgetten",
+        management: "Budgetbeheer",
+        add: "Budget toevoegen",
+        edit: "Budget bewerken",
+        create: "Budget aanmaken",
+        update: "Budget bijwerken",
+        viewAll: "Alle budgetten bekijken",
+        general: "Algemeen",
+        category: "Categorie",
+        allCategories: "Alle categorieën",
+        rollover: "Doorschuiven",
+        spentOf: "{{spent}} van {{available}}",
+        carriedOver: "{{amount}} overgedragen",
+        history: "Geschiedenis",
+        showHistory: "Geschiedenis tonen",
+        hideHistory: "Geschiedenis verbergen",
+        empty: "Geen budgetten gevonden.",
+        createFirst: "Maak je eerste budget",
+        startTracking: "om je uitgaven bij te houden!",
+        summaryEmpty: "Maak je eerste budget om je uitgaven bij te houden!",
+        deleteConfirm:
+          "Weet je zeker dat je dit budget wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        loadError: "Kan budgetten niet laden",
+        loadOneError: "Kan budget niet laden",
+        deleteError: "Kan budget niet verwijderen",
+        saveError: "Kan budget niet opslaan",
+        form: {
+          name: "Budgetnaam",
+          namePlaceholder: "bijv. Boodschappen per maand",
+          amount: "Budgetbedrag",
+          allExpenses: "Alle uitgaven",
+          period: "Budgetperiode",
+          selectPeriod: "Kies periode",
+          rollover: "Doorschuiven naar volgende periode",
+          alertThresholds: "Waarschuwingsdrempels (%)",
+          alertThresholdsHelp:
+            "Ontvang een melding wanneer de uitgaven elk percentage van het budget bereiken, één keer per periode. Laat leeg voor geen meldingen.",
+          alertThresholdsInvalid:
+            "Voer hele percentages van 1 tot 1000 in, gescheiden door komma's",
+          rolloverHelp:
+            "Neem het restant of het tekort mee naar de volgende periode",
+          endDateOptional: "Einddatum (optioneel)",
+          descriptionOptional: "Omschrijving (optioneel)",
+          descriptionPlaceholder:
+            "Voeg notities of details over dit budget toe...",
+          nameRequired: "Vul een budgetnaam in",
+          startDateRequired: "Kies een startdatum",
+          endDateRequired: "Kies een einddatum voor een aangepaste periode",
+        },
+        periodHistory: {
+          empty: "Dit budget heeft nog geen periodes.",
+          period: "Periode",
+          allocated: "Toegewezen",
+          carriedIn: "Meegenomen",
+          spent: "Uitgegeven",
+          carriedOver: "Overgedragen",
+        },
+      },
+      goals: {
+        title: "Financiële doelen",
+        add: "Doel toevoegen",
+        addNew: "Nieuw doel toevoegen",
+        edit: "Doel bewerken",
+        update: "Doel bijwerken",
+        backToList: "Terug naar doelen",
+        empty:
+          "Geen financiële doelen gevonden. Voeg je eerste doel toe om te beginnen!",
+        notFound: "Doel niet gevonden",
+        uncategorized: "Geen categorie",
+        noTargetDate: "Geen streefdatum",
+        targetOn: "Streefdatum: {{date}}",
+        overdue: "Verlopen",
+        percentComplete: "{{percent}}% voltooid",
+        remaining: "{{amount}} resterend",
+        saveDaily: "Spaar dagelijks {{amount}} om je doel te halen",
+        deleteConfirm:
+          "Weet je zeker dat je dit doel wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        targetAmount: "Doelbedrag",
+        currentAmount: "Huidig bedrag",
+        targetDate: "Streefdatum",
+        amountRemaining: "Resterend bedrag",
+        savingTargets: "Spaardoelen",
+        dailyTarget: "Dagdoel",
+        monthlyTarget: "Maanddoel",
+        daysRemaining: "Nog {{count}} dag om je doel te halen",
+        daysRemaining_plural: "Nog {{count}} dagen om je doel te halen",
+        statuses: {
+          in_progress: "Bezig",
+          achieved: "Behaald",
+          cancelled: "Geannuleerd",
+        },
+        form: {
+          name: "Naam van het doel *",
+          targetAmount: "Doelbedrag *",
+          startDate: "Startdatum *",
+          selectStatus: "Kies status",
+          loginRequired: "Je moet ingelogd zijn om een doel aan te maken",
+          requiredFields: "Vul alle verplichte velden in",
+          openingAmount: "Beginbedrag",
+          openingAmountHelp:
+            "Geld dat al gespaard was voordat je bijdragen begon toe te voegen",
+        },
+        contributions: {
+          add: "Inleg toevoegen",
+          history: "Inleggeschiedenis",
+          empty: "Nog geen inleg",
+          amount: "Bedrag *",
+          invalidAmount: "Vul een geldig inlegbedrag in",
+          loadError: "Kan inleggeschiedenis niet laden",
+          addError: "Kan inleg niet toevoegen",
+          edit: "Bijdrage bewerken",
+          delete: "Bijdrage verwijderen",
+          deleteConfirm:
+            "Weet je zeker dat je deze bijdrage wilt verwijderen? Het bedrag wordt weer van het doel afgehaald.",
+          amountHelp: "Een negatief bedrag is een opname",
+          invalidEditAmount: "Voer een bedrag anders dan nul in",
+          updateError: "Kan bijdrage niet bijwerken",
+          deleteError: "Kan bijdrage niet verwijderen",
+          withdraw: "Opnemen",
+          withdrawTitle: "Opnemen van doel",
+          withdrawal: "Opname",
+          withdrawTooMuch: "Je kunt niet meer opnemen dan de gespaarde {{amount}}",
+          withdrawError: "Kan niet opnemen van doel",
+          changes: {
+            title: "Wijzigingslog",
+            show: "Wijzigingen tonen",
+            hide: "Wijzigingen verbergen",
+            created: "{{amount}} toegevoegd op {{date}}",
+            withdrawn: "{{amount}} opgenomen op {{date}}",
+            updated: "{{before}} gewijzigd in {{after}} op {{date}}",
+            deleted: "{{amount}} van {{date}} verwijderd",
+          },
+        },
+        funding: {
+          title: "Automatisch sparen",
+          add: "Regel toevoegen",
+          empty:
+            "Nog geen spaarregels. Zet automatisch geld opzij volgens een schema of uit je inkomen.",
+          syncAdded: "{{count}} automatische bijdrage gedaan",
+          syncAdded_plural: "{{count}} automatische bijdragen gedaan",
+          autoContribution: "Auto",
+          fixedDescription: "{{amount}} {{frequency}}",
+          percentageDescription: "{{percent}}% van elk inkomen",
+          fromAccount: "Van {{account}}",
+          nextContribution: "Volgende bijdrage: {{date}}",
+          unknownAccount: "Onbekende rekening",
+          active: "Actief",
+          loadError: "Kan spaarregels niet laden",
+          saveError: "Kan spaarregel niet opslaan",
+          deleteError: "Kan spaarregel niet verwijderen",
+          types: {
+            fixed: "Vast bedrag",
+            percentage: "Percentage van inkomen",
+          },
+          frequencies: {
+            weekly: "per week",
+            monthly: "per maand",
+          },
+          form: {
+            type: "Soort regel",
+            frequency: "Frequentie",
+            percentage: "Percentage (%)",
+            percentageHelp:
+              "Toegepast op elke inkomstentransactie op de rekening",
+            account: "Bankrekening",
+            selectAccount: "Kies een rekening",
+            accountRequired: "Kies een bankrekening",
+            invalidAmount: "Voer een geldig bedrag in",
+            invalidPercentage: "Percentage moet tussen 0 en 100 liggen",
+          },
+          preview: {
+            title: "Komende bijdragen",
+            empty: "Geen geplande bijdragen in de komende 3 maanden",
+            scheduledMonthly: "{{amount}} gepland per maand",
+            fromIncome: "Ongeveer {{amount}} per maand uit inkomen",
+            coversTarget: "Dekt het maanddoel",
+            shortOfTarget: "{{amount}} te weinig voor het maanddoel",
+            completesGoal: "Bereikt doel",
+          },
+          status: {
+            onTrack: "Op schema",
+            behind: "Achter",
+            actualMonthly:
+              "Je draagt {{actual}} per maand bij bij een doel van {{target}}",
+          },
+        },
+        loadError: "Kan doelen niet laden",
+        loadOneError: "Kan doel niet laden",
+        loadDetailsError: "Kan doelgegevens niet laden",
+        deleteError: "Kan doel niet verwijderen",
+        saveError: "Kan doel niet opslaan",
+        saveRetryError: "Kan doel niet opslaan. Probeer het opnieuw.",
+      },
+      bills: {
+        title: "Facturen en abonnementen",
+        bills: "Facturen",
+        billsDescription: "Houd eenmalige of onregelmatige uitgaven bij.",
+        subscriptions: "Abonnementen",
+        subscriptionsDescription:
+          "Beheer je terugkerende betalingen en diensten.",
+        bill: "Factuur",
+        subscription: "Abonnement",
+        addBill: "Factuur toevoegen",
+        addNewBill: "Nieuwe factuur toevoegen",
+        addSubscription: "Abonnement toevoegen",
+        addEither: "Factuur/abonnement toevoegen",
+        addBillOrSubscription: "Factuur of abonnement toevoegen",
+        editBill: "Factuur bewerken",
+        editSubscription: "Abonnement bewerken",
+        empty:
+          "Geen facturen gevonden. Voeg je eerste factuur toe om te beginnen!",
+        notFound: "Factuur niet gevonden",
+        uncategorized: "Geen categorie",
+        nextDue: "Volgende vervaldatum: {{date}}",
+        nextDueDate: "Volgende vervaldatum",
+        due: "Vervalt: {{date}}",
+        notSet: "Niet ingesteld",
+        notAvailable: "n.v.t.",
+        overdue: "Verlopen",
+        dueSoon: "Vervalt binnenkort",
+        frequency: "Frequentie",
+        paymentMethod: "Betaalmethode",
+        paymentMethodValue: "Betaalmethode: {{method}}",
+        markAsPaid: "Markeren als betaald",
+        markPaid: "Betaald",
+        deleteConfirm:
+          "Weet je zeker dat je deze factuur wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        frequencies: {
+          "one-time": "Eenmalig",
+          daily: "Dagelijks",
+          weekly: "Wekelijks",
+          monthly: "Maandelijks",
+          yearly: "Jaarlijks",
+        },
+        statuses: {
+          active: "Actief",
+          paused: "Gepauzeerd",
+          cancelled: "Geannuleerd",
+        },
+        form: {
+          billName: "Naam factuur",
+          subscriptionName: "Naam abonnement",
+          billPlaceholder: "bijv. Autoreparatie",
+          subscriptionPlaceholder: "bijv. Netflix-abonnement",
+          billNameHelp: "Geef je factuur een duidelijke, herkenbare naam.",
+          subscriptionNameHelp:
+            "Geef je abonnement een duidelijke, herkenbare naam.",
+          nameRequired: "Naam is verplicht",
+          amountRequired: "Bedrag is verplicht",
+          amountPositive: "Moet groter zijn dan 0",
+          dueDate: "Vervaldatum",
+          dueDateRequired: "Vervaldatum is verplicht",
+          frequencyRequired: "Frequentie is verplicht",
+          selectFrequency: "Kies frequentie",
+          paymentMethodPlaceholder: "bijv. creditcard",
+          autoPay: "Automatisch betalen",
+          reminderDays: "Herinneringsdagen",
+          reminderDaysPlaceholder: "Dagen voor de vervaldatum",
+          selectStatus: "Kies status",
+          notesPlaceholder:
+            "Optionele notities, bijv. inloggegevens of betaalgegevens",
+          loginRequired: "Je moet ingelogd zijn om een factuur aan te maken",
+        },
+        payments: {
+          add: "Betaling toevoegen",
+          history: "Betalingsgeschiedenis",
+          empty: "Geen betalingsgeschiedenis beschikbaar.",
+          via: "via {{method}}",
+          amount: "Bedrag *",
+          methodPlaceholder: "bijv. creditcard, overschrijving",
+          invalidAmount: "Vul een geldig betalingsbedrag in",
+          loadError: "Kan betalingsgeschiedenis niet laden",
+          addError: "Kan betaling niet toevoegen",
+          recordAsExpense: "Vastleggen als uitgave",
+          recordAsExpenseHelp:
+            "Voegt een uitgave in {{category}} toe aan de gekozen rekening, zodat deze meetelt in budgetten en analyses",
+          recordAsExpenseUncategorized:
+            "Voegt een uitgave zonder categorie toe aan de gekozen rekening, zodat deze meetelt in budgetten en analyses",
+          selectAccount: "Kies een rekening",
+          accountRequired: "Kies de rekening waarmee de factuur is betaald",
+          viewTransaction: "Transactie bekijken",
+          edit: "Betaling bewerken",
+          editLinkedHelp: "De bijbehorende uitgave wordt ook bijgewerkt.",
+          delete: "Betaling verwijderen",
+          deleteConfirm: "Weet je zeker dat je deze betaling wilt verwijderen?",
+          deleteLinkedConfirm:
+            "Weet je zeker dat je deze betaling wilt verwijderen? De bijbehorende uitgave wordt ook verwijderd.",
+          updateError: "Kan betaling niet bijwerken",
+          deleteError: "Kan betaling niet verwijderen",
+        },
+        reminders: {
+          title: "Factuurherinneringen",
+          empty: "Geen facturen die binnenkort vervallen.",
+          loadError: "Kan komende facturen niet laden",
+          debtPayment: "Schuldaflossing",
+        },
+        loadError: "Kan facturen niet laden",
+        loadOneError: "Kan factuur niet laden",
+        loadDetailsError: "Kan factuurgegevens niet laden",
+        deleteError: "Kan factuur niet verwijderen",
+        markPaidError: "Kan factuur niet als betaald markeren",
+        saveError: "Kan factuur niet opslaan",
+        saveSubscriptionError: "Kan abonnement niet opslaan",
+        saveRetryError: "Kan factuur niet opslaan. Probeer het opnieuw.",
+      },
+      debts: {
+        title: "Schulden",
+        listTitle: "Creditcards en leningen",
+        totalOwed: "Totaal verschuldigd",
+        totalMinimum: "{{amount}} aan minimale aflossingen per maand",
+        add: "Schuld toevoegen",
+        edit: "Schuld bewerken",
+        update: "Schuld bijwerken",
+        empty:
+          "Nog geen schulden. Voeg een creditcard of lening toe om de aflossing te plannen.",
+        terms: "{{apr}}% JKP · minimaal {{payment}}",
+        nextPayment: "Volgende betaling: {{date}}",
+        paidOff: "Afgelost",
+        loadError: "Kan schulden niet laden",
+        saveError: "Kan schuld niet opslaan",
+        deleteError: "Kan schuld niet verwijderen",
+        deleteConfirm:
+          "Weet je zeker dat je deze schuld wilt verwijderen? De geplande factuur wordt ook verwijderd.",
+        types: {
+          credit_card: "Creditcard",
+          loan: "Lening",
+        },
+        form: {
+          name: "Naam",
+          namePlaceholder: "bijv. Visa-kaart, Autolening",
+          type: "Type",
+          principal: "Verschuldigd bedrag",
+          principalHelp: "Wat er vandaag nog af te lossen is",
+          apr: "JKP (%)",
+          minimumPayment: "Minimale maandelijkse betaling",
+          dueDay: "Vervaldag",
+          dueDayHelp:
+            "Dag van de maand waarop de betaling vervalt. Deze wordt ingepland als maandelijkse factuur.",
+          account: "Creditrekening",
+          noAccount: "Niet gekoppeld",
+          nameRequired: "Naam is verplicht",
+          invalidPrincipal: "Voer een geldig verschuldigd bedrag in",
+          invalidApr: "JKP moet tussen 0 en 100 liggen",
+          invalidMinimumPayment: "Minimale betaling moet groter zijn dan 0",
+          invalidDueDay: "Vervaldag moet tussen 1 en 31 liggen",
+        },
+        schedule: {
+          title: "Aflossingsschema",
+          description: "Elke maand het minimum betalen op {{name}}",
+          payoffDate: "Aflosdatum",
+          totalInterest: "Totale rente",
+          totalPaid: "Totaal betaald",
+          neverPaidOff:
+            "De minimale betaling dekt de maandelijkse rente niet, dus deze schuld wordt nooit afgelost.",
+          month: "Maand",
+          payment: "Betaling",
+          interest: "Rente",
+          principal: "Aflossing",
+          balance: "Saldo",
+        },
+        planner: {
+          title: "Aflossingsplanner",
+          description:
+            "Vergelijk het aflossen van je schulden met het kleinste saldo eerst of de hoogste rente eerst.",
+          noDebts:
+            "Voeg een schuld met een verschuldigd bedrag toe om de aflossing te plannen.",
+          extraPayment: "Extra betaling per maand",
+          extraPaymentHelp:
+            "Bovenop de minimale betalingen. Minima van afgeloste schulden schuiven ook door.",
+          debtFree: "Schuldenvrij",
+          never: "Nooit",
+          months: "{{count}} maand",
+          months_plural: "{{count}} maanden",
+          debt: "Schuld",
+          cheapest: "Minste rente",
+          strategies: {
+            snowball: "Sneeuwbal",
+            avalanche: "Lawine",
+          },
+          strategyDescriptions: {
+            snowball: "Kleinste saldo eerst, voor snelle successen",
+            avalanche: "Hoogste JKP eerst, voor de minste rente",
+          },
+          savings: {
+            avalanche: "Lawine bespaart je {{amount}} aan rente.",
+            snowball: "Sneeuwbal bespaart je {{amount}} aan rente.",
+          },
+        },
+      },
+      categories: {
+        title: "Categorieën",
+        management: "Categoriebeheer",
+        managementDescription:
+          "Beheer je uitgaven- en inkomstencategorieën. Categorieën helpen je transacties te ordenen en je uitgavenpatroon te volgen.",
+        expenseCategories: "Uitgavencategorieën",
+        incomeCategories: "Inkomstencategorieën",
+        add: "Categorie toevoegen",
+        edit: "Categorie bewerken",
+        update: "Categorie bijwerken",
+        createNew: "Nieuwe categorie aanmaken",
+        editDescription: "Werk hieronder de gegevens van je categorie bij",
+        createDescription:
+          "Categorieën helpen je transacties te ordenen en je uitgavenpatroon te volgen",
+        empty:
+          'Geen categorieën gevonden. Klik op "Categorie toevoegen" om je eerste categorie te maken.',
+        both: "Beide",
+        unknown: "Onbekend",
+        defaultCannotDelete:
+          "Standaardcategorieën kunnen niet worden verwijderd",
+        deleteCategory: "Categorie verwijderen",
+        deleteConfirm:
+          "Weet je zeker dat je deze categorie wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        loadError: "Kan categorieën niet laden. Probeer het opnieuw.",
+        loadOneError: "Kan categorie niet laden",
+        deleteError: "Kan categorie niet verwijderen. Probeer het opnieuw.",
+        saveError: "Kan categorie niet opslaan. Probeer het opnieuw.",
+        form: {
+          name: "Categorienaam",
+          namePlaceholder: "bijv. Boodschappen, Huur, Salaris",
+          nameRequired: "Categorienaam is verplicht",
+          type: "Categorietype",
+          selectType: "Kies type",
+          color: "Categoriekleur",
+          iconPreview: "Voorbeeld pictogram",
+          iconHelp: "Kies een pictogram dat bij deze categorie past.",
+        },
+        colorPicker: {
+          select: "Kies kleur",
+          selectTitle: "Kies een kleur",
+          selectValue: "Kies kleur {{color}}",
+          custom: "Eigen kleur",
+          pickCustom: "Eigen kleur kiezen",
+        },
+        rules: {
+          title: "Categorisatieregels",
+          description:
+            "Categoriseer en tag transacties automatisch op basis van hun omschrijving of notities.",
+          help: "Regels worden van boven naar beneden uitgevoerd; de eerste passende regel stelt de categorie in en voegt zijn tags toe. Ze worden uitgevoerd wanneer je transacties toevoegt of importeert.",
+          runOnUncategorized: "Uitvoeren op ongecategoriseerd",
+          add: "Regel toevoegen",
+          edit: "Regel bewerken",
+          update: "Regel bijwerken",
+          empty:
+            "Nog geen regels. Voeg er een toe om transacties automatisch te categoriseren.",
+          order: "Volgorde",
+          rule: "Regel",
+          applies: "Past toe",
+          active: "Actief",
+          preview: "Voorbeeld",
+          summary: '{{field}} {{condition}} "{{pattern}}"',
+          matches: "komt overeen met",
+          deleteTitle: "Regel verwijderen?",
+          deleteDescription:
+            "Transacties die al gecategoriseerd zijn, behouden hun categorie en tags.",
+          loadError: "Kan regels niet laden. Probeer het opnieuw.",
+          reorderError: "Kan regels niet herschikken",
+          updateError: "Kan regel niet bijwerken",
+          deleteError: "Kan regel niet verwijderen",
+          saveError: "Kan regel niet opslaan. Probeer het opnieuw.",
+          fields: {
+            description: "Omschrijving",
+            notes: "Notities",
+          },
+          conditions: {
+            contains: "bevat",
+            starts_with: "begint met",
+            equals: "is gelijk aan",
+            regex: "komt overeen met regex",
+          },
+          form: {
+            name: "Regelnaam",
+            namePlaceholder: "bijv. Supermarkt",
+            when: "Wanneer",
+            condition: "Voorwaarde",
+            text: "Tekst",
+            patternPlaceholder: "bijv. ALBERT HEIJN",
+            caseHelp: "Hoofdletters en kleine letters worden genegeerd.",
+            transactionType: "Transactietype",
+            any: "Alle",
+            setCategory: "Categorie instellen",
+            dontChange: "Niet wijzigen",
+            addTags: "Tags toevoegen",
+            patternRequired: "Een patroon om op te zoeken is verplicht",
+            invalidRegex: "Het patroon is geen geldige reguliere expressie",
+            actionRequired: "Kies een categorie of ten minste één tag",
+          },
+          previewDialog: {
+            title: "Voorbeeld van regels",
+            description:
+              "Ongecategoriseerde transacties die de regels zouden wijzigen. Er wordt niets opgeslagen totdat je toepast.",
+            noMatchesRule:
+              "Geen ongecategoriseerde transacties komen overeen met deze regel.",
+            noMatchesRules:
+              "Geen ongecategoriseerde transacties komen overeen met je regels.",
+            rows: "{{count}} rij",
+            rows_plural: "{{count}} rijen",
+            applying: "Toepassen...",
+            apply: "Toepassen op {{count}} transactie",
+            apply_plural: "Toepassen op {{count}} transacties",
+            applied: "Regels toegepast",
+            appliedDescription:
+              "{{categorized}} transacties gecategoriseerd, {{tagged}} getagd",
+            loadError: "Kan ongecategoriseerde transacties niet laden",
+            applyError: "Kan categorieregels niet toepassen",
+          },
+        },
+      },
+      tags: {
+        title: "Tags",
+        management: "Tagbeheer",
+        managementDescription:
+          "Beheer je transactietags. Met tags orden en filter je transacties over categorieën heen.",
+        add: "Tag toevoegen",
+        edit: "Tag bewerken",
+        create: "Tag aanmaken",
+        update: "Tag bijwerken",
+        search: "Tags zoeken...",
+        noMatches: 'Geen tags gevonden voor "{{query}}"',
+        empty: "Geen tags gevonden.",
+        createFirst: "Maak je eerste tag",
+        toOrganize: "om je transacties te ordenen!",
+        deleteConfirm:
+          "Weet je zeker dat je deze tag wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        none: "Geen tags",
+        select: "Kies tags...",
+        loading: "Tags laden...",
+        notFound: "Geen tags gevonden",
+        createNew: "Nieuwe tag aanmaken",
+        form: {
+          name: "Tagnaam",
+          namePlaceholder: "bijv. Vakantie, Zakelijk, Persoonlijk",
+          color: "Tagkleur",
+          selectColor: "Kies kleur {{color}}",
+          preview: "Voorbeeld",
+          nameRequired: "Vul een tagnaam in",
+          colorRequired: "Kies een kleur",
+        },
+        loadError: "Kan tags niet laden",
+        loadOneError: "Kan tag niet laden",
+        loadTransactionError: "Kan tags van transactie niet laden",
+        updateError: "Kan tags niet bijwerken",
+        deleteError: "Kan tag niet verwijderen",
+        saveError: "Kan tag niet opslaan",
+      },
+      accounts: {
+        title: "Bankrekeningen",
+        details: "Rekeninggegevens",
+        add: "Rekening toevoegen",
+        edit: "Rekening bewerken",
+        update: "Rekening bijwerken",
+        addBankAccount: "Bankrekening toevoegen",
+        editBankAccount: "Bankrekening bewerken",
+        deleteAccount: "Rekening verwijderen",
+        backToAccounts: "Terug naar rekeningen",
+        allAccounts: "Alle rekeningen",
+        types: {
+          checking: "Betaalrekening",
+          savings: "Spaarrekening",
+          credit: "Creditcard",
+          investment: "Beleggingsrekening",
+          other: "Overig",
+          asset: "Bezitting",
+          liability: "Schuld",
+        },
+        totalBalance: "Totaal saldo",
+        totalTypeBalance: "Totaal saldo {{type}}",
+        acrossAccounts: "Over {{count}} rekening",
+        acrossAccounts_plural: "Over {{count}} rekeningen",
+        yourAccounts: "Je rekeningen",
+        yourTypeAccounts: "Je rekeningen: {{type}}",
+        empty: "Geen bankrekeningen gevonden.",
+        emptyType: "Geen rekeningen van het type {{type}} gevonden.",
+        addFirst: "Voeg je eerste rekening toe",
+        toStartTracking: "om je financiën bij te houden!",
+        default: "Standaard",
+        setAsDefault: "Als standaard instellen",
+        noInstitution: "Geen instelling",
+        noAccountNumber: "Geen rekeningnummer",
+        deleteConfirm:
+          "Weet je zeker dat je deze bankrekening wilt verwijderen? Dit kan niet ongedaan worden gemaakt. Gekoppelde transacties blijven bestaan, maar zijn niet meer aan een rekening gekoppeld.",
+        loadError: "Kan bankrekeningen niet laden. Probeer het opnieuw.",
+        loadOneError: "Kan rekeninggegevens niet laden. Probeer het opnieuw.",
+        notFound: "Bankrekening niet gevonden",
+        deleteError: "Kan bankrekening niet verwijderen",
+        setDefaultError: "Kan standaardrekening niet instellen",
+        saveError: "Kan bankrekening niet opslaan",
+        form: {
+          name: "Rekeningnaam *",
+          namePlaceholder: "bijv. Betaalrekening, Spaarrekening",
+          type: "Rekeningtype *",
+          selectType: "Kies rekeningtype",
+          institution: "Financiële instelling",
+          institutionPlaceholder: "bijv. ING, Rabobank",
+          number: "Rekeningnummer (laatste 4 cijfers)",
+          numberPlaceholder: "bijv. 1234",
+          openingBalance: "Beginsaldo *",
+          openingBalanceHelp:
+            "Het saldo vóór de transacties die hier zijn vastgelegd. Gekoppelde transacties werken het saldo vanaf daar bij.",
+          setDefault: "Als standaardrekening instellen",
+          notesPlaceholder: "Voeg eventuele notities over deze rekening toe",
+          nameRequired: "Vul een rekeningnaam in",
+          invalidBalance: "Vul een geldig saldo in",
+        },
+        reconcile: "Afstemmen",
+        setBalance: "Saldo instellen",
+        setBalanceDescription:
+          "Vul het saldo in dat je bank aangeeft. Als het niet overeenkomt met je transacties, zie je het verschil op deze pagina.",
+        balance: "Saldo",
+        saveBalance: "Saldo opslaan",
+        balanceMismatch: "Saldo wijkt af van het grootboek",
+        balanceMore:
+          "Het nieuwe saldo is {{amount}} hoger dan je transacties samen.",
+        balanceLess:
+          "Het nieuwe saldo is {{amount}} lager dan je transacties samen.",
+        balanceUpdated: "Saldo bijgewerkt",
+        balanceMatches: "Het saldo komt overeen met het grootboek.",
+        balanceError: "Kan saldo niet bijwerken",
+        discrepancyMore:
+          "Het huidige saldo is {{amount}} hoger dan het beginsaldo plus transacties ({{ledger}}). Mogelijk ontbreekt een transactie of is er een dubbel ingevoerd.",
+        discrepancyLess:
+          "Het huidige saldo is {{amount}} lager dan het beginsaldo plus transacties ({{ledger}}). Mogelijk ontbreekt een transactie of is er een dubbel ingevoerd.",
+        useLedgerBalance: "Grootboeksaldo gebruiken",
+        keepBalance: "Saldo behouden, beginsaldo aanpassen",
+        currentBalance: "Huidig saldo",
+        accountType: "Rekeningtype",
+        lastUpdated: "Laatst bijgewerkt",
+        additionalDetails: "Aanvullende gegevens",
+        openingBalance: "Beginsaldo",
+        createdOn: "Aangemaakt op",
+        recentTransactions: "Recente transacties",
+        noTransactions: "Nog geen transacties aan deze rekening gekoppeld.",
+        items: {
+          tab: "Bezittingen & schulden",
+          title: "Overige bezittingen & schulden",
+          total: "Bezittingen min schulden",
+          totalHelp: "Telt mee in je vermogen naast je bankrekeningen",
+          empty:
+            "Houd hier zaken bij zoals een huis, een auto of een lening om ze mee te tellen in je vermogen.",
+          add: "Item toevoegen",
+          edit: "Item bewerken",
+          update: "Item bijwerken",
+          loadError: "Kan bezittingen en schulden niet laden",
+          saveError: "Kan item niet opslaan",
+          deleteError: "Kan item niet verwijderen",
+          deleteConfirm:
+            "Weet je zeker dat je dit item wilt verwijderen? Eerdere waarden blijven in je vermogensgeschiedenis staan.",
+          form: {
+            name: "Naam",
+            namePlaceholder: "bijv. Huis, Autolening",
+            type: "Type",
+            value: "Waarde",
+            assetValueHelp: "Wat het vandaag waard is",
+            liabilityValueHelp: "Wat er nog openstaat",
+            nameRequired: "Naam is verplicht",
+            invalidValue: "Voer een waarde van nul of meer in",
+          },
+        },
+        reconciliation: {
+          pageTitle: "Rekening afstemmen",
+          title: "Afschrift afstemmen",
+          description:
+            "Vink de transacties op je afschrift af. Zodra het verwerkte saldo gelijk is aan het eindsaldo, vergrendelt afronden de periode.",
+          history: "Afstemmingsgeschiedenis",
+          intro:
+            "Vul de einddatum en het eindsaldo van je afschrift in en vink daarna de transacties af die erop staan.",
+          statementDate: "Einddatum afschrift",
+          closingBalance: "Eindsaldo",
+          closingBalanceRequired: "Vul het eindsaldo van je afschrift in.",
+          start: "Afstemming starten",
+          starting: "Starten...",
+          statementBalance: "Saldo afschrift ({{date}})",
+          clearedBalance: "Verwerkt saldo",
+          difference: "Verschil",
+          noEntries: "Geen niet-afgestemde transacties tot de afschriftdatum.",
+          cancel: "Afstemming annuleren",
+          balanced: "In balans",
+          tickUntilZero: "Vink transacties af tot het verschil nul is",
+          finish: "Afronden en vergrendelen",
+          finishing: "Afronden...",
+          loadError: "Kan de afstemming niet laden. Probeer het opnieuw.",
+          startError: "Kan de afstemming niet starten. Probeer het opnieuw.",
+          clearError: "Kan de transactie niet bijwerken",
+          reconciled: "Afschrift afgestemd",
+          locked: "Transacties tot en met {{date}} zijn nu vergrendeld",
+          finishError: "Kan afstemming niet afronden",
+          cancelError: "Kan afstemming niet annuleren",
+          historyError: "Kan afstemmingsgeschiedenis niet laden.",
+          undoError: "Kan afstemming niet ongedaan maken",
+          undone: "Afstemming ongedaan gemaakt",
+          undoneDescription:
+            "De transacties zijn ontgrendeld en gemarkeerd als verwerkt",
+          never: "Deze rekening is nog niet afgestemd.",
+          transactions: "Transacties",
+          completed: "Voltooid",
+          inProgress: "Bezig",
+          undo: "Ongedaan maken",
+          undoTitle: "Afstemming ongedaan maken?",
+          undoDescription:
+            "De transacties op dit afschrift worden ontgrendeld en teruggezet naar verwerkt, zodat je ze weer kunt bewerken.",
+        },
+      },
+      analytics: {
+        title: "Financiële analyse",
+        dateRange: "Periode",
+        ranges: {
+          thisMonth: "Deze maand",
+          lastMonth: "Vorige maand",
+          thisQuarter: "Dit kwartaal",
+          thisYear: "Dit jaar",
+          lastYear: "Vorig jaar",
+        },
+        apply: "Toepassen",
+        expenseCategories: "Uitgavencategorieën",
+        incomeVsExpenses: "Inkomsten vs uitgaven",
+        spendingTrends: "Uitgaventrends",
+        savingsRate: "Spaarquote",
+        cashFlowForecast: "Kasstroomprognose",
+        netWorthOverTime: "Vermogen door de tijd",
+        budgetComparison: "Budgetvergelijking",
+        expensesByCategory: "Uitgaven per categorie",
+        budgetVsActual: "Budget vs werkelijke uitgaven",
+        monthlyTrend: "Uitgaventrend (maandelijks)",
+        dailyTrend: "Uitgaventrend (dagelijks)",
+        savingsRateTrend: "Verloop spaarquote",
+        budget: "Budget",
+        actual: "Werkelijk",
+        amount: "Bedrag",
+        income: "Inkomsten",
+        expenses: "Uitgaven",
+        savings: "Besparingen",
+        valueLine: "{{label}}: {{value}}",
+        net: "Netto",
+        overBudgetBy: "{{amount}} boven budget",
+        underBudgetBy: "{{amount}} onder budget",
+        averageSavingsRate: "Gemiddelde spaarquote: {{rate}}%",
+        good: "Goed",
+        minimum: "Minimum",
+        goodRange: "Goed: ≥20%",
+        fairRange: "Redelijk: 0-20%",
+        poorRange: "Slecht: <0%",
+        uncategorized: "Geen categorie",
+        noBudgetData:
+          "Geen budgetgegevens. Maak budgetten aan om ze te vergelijken.",
+        noExpenseData: "Geen uitgaven in de gekozen periode.",
+        noTransactionData: "Geen transacties in de gekozen periode.",
+        forecast: {
+          days: "{{count}} dagen",
+          payingAccount: "Rekeningen betaald vanaf",
+          lowPoint: "Laagste: {{amount}} op {{date}}",
+          shortfall: "Onder nul vanaf {{date}}",
+          noShortfall: "Geen tekort",
+          discretionaryNote:
+            "Inclusief ongeveer {{amount}} per dag aan dagelijkse uitgaven van {{account}}, op basis van de afgelopen drie maanden.",
+          noAccounts:
+            "Voeg een bankrekening toe om een kasstroomprognose te zien.",
+        },
+        netWorth: {
+          netWorth: "Vermogen",
+          assets: "Bezittingen",
+          liabilities: "Schulden",
+          accountType: "Rekeningtype",
+          monthOverMonth: "Verschil met vorige maand",
+          sinceLastMonth: "{{amount}} sinds vorige maand",
+          noData:
+            "Voeg bankrekeningen, bezittingen of schulden toe om je vermogen te volgen.",
+        },
+        errors: {
+          budgetComparison: "Kan budgetvergelijking niet laden",
+          forecast: "Kan kasstroomprognose niet laden",
+          netWorth: "Kan vermogensgegevens niet laden",
+          expenseCategories: "Kan uitgaven per categorie niet laden",
+          incomeVsExpenses: "Kan inkomsten en uitgaven niet laden",
+          savingsRate: "Kan spaarquote niet laden",
+          spendingTrend: "Kan uitgaventrend niet laden",
+        },
+      },
+      groups: {
+        title: "Groepen",
+        create: "Groep aanmaken",
+        edit: "Groep bewerken",
+        name: "Groepsnaam",
+        namePlaceholder: "Vul een groepsnaam in",
+        descriptionPlaceholder: "Waar is deze groep voor?",
+        creating: "Aanmaken...",
+        inactive: "Inactief",
+        noDescription: "Geen omschrijving",
+        memberCount: "{{count}} lid",
+        memberCount_plural: "{{count}} leden",
+        view: "Groep bekijken",
+        deleteTitle: "Groep verwijderen?",
+        deleteConfirm:
+          "Weet je zeker dat je deze groep wilt verwijderen? Dit kan niet ongedaan worden gemaakt.",
+        roles: {
+          owner: "Eigenaar",
+          admin: "Beheerder",
+          member: "Lid",
+          viewer: "Kijker",
+        },
+        roleDescriptions: {
+          admin: "Kan groepsinstellingen en leden beheren",
+          member: "Kan transacties toevoegen en alle gegevens bekijken",
+          viewer: "Kan alleen groepsgegevens bekijken",
+        },
+        familyRoles: {
+          parent: "Ouder",
+          child: "Kind",
+          guardian: "Voogd",
+          other: "Anders",
+        },
+        familyRoleDescriptions: {
+          parent:
+            "Volledige toegang tot de gezinsfinanciën en de rekeningen van de kinderen",
+          child: "Beperkte toegang volgens de instellingen van de ouder",
+          guardian: "Zoals een ouder, maar met enkele beperkingen",
+          other: "Aangepaste rol met eigen rechten",
+        },
+        errors: {
+          loginToCreate: "Je moet ingelogd zijn om een groep aan te maken",
+          loginToEdit: "Je moet ingelogd zijn om een groep te bewerken",
+          createFailed: "Kan groep niet aanmaken: {{message}}",
+          tryAgain: "Probeer het opnieuw.",
+          loadFailed: "Kan groep niet laden",
+          updateFailed: "Kan groep niet bijwerken",
+          deleteFailed: "Kan groep niet verwijderen",
+        },
+        invitations: {
+          invitedBy: "Uitgenodigd door: {{name}}",
+          expiresOn: "Verloopt op: {{date}}",
+          accept: "Accepteren",
+          decline: "Weigeren",
+          acceptFailed: "Kan uitnodiging niet accepteren. Probeer het opnieuw.",
+          rejectFailed: "Kan uitnodiging niet weigeren. Probeer het opnieuw.",
+        },
+        invite: {
+          title: "Lid uitnodigen",
+          description: "Nodig iemand uit voor deze budgetgroep",
+          email: "E-mail",
+          emailPlaceholder: "Vul een e-mailadres in",
+          role: "Rol",
+          selectRole: "Kies een rol",
+          isFamily: "Dit is een gezinslid",
+          familyRole: "Gezinsrol",
+          selectFamilyRole: "Kies een gezinsrol",
+          success: "Uitnodiging verstuurd!",
+          sentTo: "Er is een uitnodiging gestuurd naar:",
+          expiryNote:
+            "De gebruiker ziet de uitnodiging ook na het inloggen. De uitnodiging verloopt na 7 dagen.",
+          failed: "Kan uitnodiging niet versturen. Probeer het opnieuw.",
+          sending: "Versturen...",
+          send: "Uitnodiging versturen",
+        },
+        activity: {
+          title: "Activiteiten",
+          description: "Recente activiteit in deze groep",
+          empty: "Nog geen activiteit",
+          unknownUser: "Onbekende gebruiker",
+          types: {
+            income: "inkomst",
+            expense: "uitgave",
+            transaction: "transactie",
+          },
+          transactionCreated:
+            "{{user}} heeft een nieuwe {{type}} van {{amount}} toegevoegd",
+          transactionUpdated:
+            "{{user}} heeft een {{type}} van {{amount}} bijgewerkt",
+          transactionDeleted:
+            "{{user}} heeft een {{type}} van {{amount}} verwijderd",
+          transactionApproved:
+            "{{user}} heeft een {{type}} van {{amount}} goedgekeurd",
+          transactionRejected:
+            "{{user}} heeft een {{type}} van {{amount}} afgewezen",
+          withComment: '{{message}}: "{{comment}}"',
+          budgetCreated:
+            '{{user}} heeft het budget "{{name}}" van {{amount}} aangemaakt',
+          budgetUpdated:
+            '{{user}} heeft het budget "{{name}}" aangepast naar {{amount}}',
+          budgetDeleted: '{{user}} heeft het budget "{{name}}" verwijderd',
+          memberAdded:
+            "{{user}} heeft een nieuw lid toegevoegd met de rol {{role}}",
+          memberUpdated:
+            "{{user}} heeft de rol van een lid gewijzigd in {{role}}",
+          memberRemoved: "{{user}} heeft een lid uit de groep verwijderd",
+          generic: '{{user}} voerde actie "{{action}}" uit op {{entity}}',
+          item: "item",
+          invitationCreated: "{{user}} heeft {{email}} uitgenodigd als {{role}}",
+          invitationUpdated: "{{user}} heeft de uitnodiging voor {{email}} bijgewerkt",
+          invitationDeleted: "{{user}} heeft de uitnodiging voor {{email}} ingetrokken",
+          invitationAccepted: "{{user}} heeft de uitnodiging geaccepteerd",
+          invitationRejected: "{{user}} heeft de uitnodiging afgewezen",
+          invitationExpired: "De uitnodiging voor {{email}} is verlopen",
+          categoryShared: '{{user}} heeft de categorie "{{name}}" gedeeld',
+          categoryUnshared: '{{user}} deelt de categorie "{{name}}" niet meer',
+          budgetShared: '{{user}} heeft het budget "{{name}}" gedeeld',
+          budgetUnshared: '{{user}} deelt het budget "{{name}}" niet meer',
+          groupCreated: '{{user}} heeft de groep "{{name}}" aangemaakt',
+          change: "{{field}}: {{before}} → {{after}}",
+          noValue: "geen",
+          fields: {
+            description: "Omschrijving",
+            name: "Naam",
+            amount: "Bedrag",
+            type: "Type",
+            date: "Datum",
+            period: "Periode",
+            start_date: "Startdatum",
+            end_date: "Einddatum",
+            status: "Status",
+            payment_method: "Betaalmethode",
+            split_method: "Verdeling",
+            role: "Rol",
+            family_role: "Gezinsrol",
+            notes: "Notities",
+          },
+          entityTypes: {
+            transaction: "Transacties",
+            budget: "Budgetten",
+            member: "Leden",
+            invitation: "Uitnodigingen",
+            shared_category: "Gedeelde categorieën",
+            shared_budget: "Gedeelde budgetten",
+            group: "Groep",
+          },
+          filterMember: "Filteren op lid",
+          filterType: "Filteren op type",
+          allMembers: "Alle leden",
+          allTypes: "Alle activiteit",
+          from: "Van",
+          to: "Tot",
+          clearFilters: "Filters wissen",
+          filteredEmpty: "Geen activiteit die aan deze filters voldoet",
+          loadError: "Kan activiteit niet laden",
+        },
+        budgets: {
+          title: "Budgetten",
+          add: "Budget toevoegen",
+          edit: "Budget bewerken",
+          delete: "Budget verwijderen",
+          empty: "Geen budgetten gevonden",
+          emptyHelp:
+            "Maak budgetten om de uitgaven van je groep per categorie te volgen en te beheren.",
+          categoryLabel: "Categorie: {{category}}",
+          createdBy: "Aangemaakt door: {{name}}",
+          created: "Budget aangemaakt!",
+          deleteConfirm:
+            'Weet je zeker dat je het budget "{{name}}" wilt verwijderen? Dit kan niet ongedaan worden gemaakt.',
+          deleteFailed: "Kan budget niet verwijderen. Probeer het opnieuw.",
+          namePlaceholder: "Vul een budgetnaam in",
+          categoryRequired: "Kies een categorie",
+          selectPeriod: "Kies een periode",
+          pickDate: "Kies een datum",
+          noEndDate: "Geen einddatum",
+          creating: "Aanmaken",
+          saving: "Opslaan",
+        },
+        page: {
+          title: "Budgetgroepen",
+          subtitle:
+            "Beheer gedeelde budgetten en uitgaven met familie en vrienden",
+          myGroups: "Mijn groepen",
+          invitations: "Uitnodigingen",
+          noGroups: "Geen groepen",
+          noGroupsDescription: "Je bent nog geen lid van een budgetgroep",
+          noGroupsHelp:
+            "Maak een nieuwe groep om gedeelde financiën te beheren",
+          noInvitations: "Geen uitnodigingen",
+          noInvitationsDescription:
+            "Je hebt geen openstaande groepsuitnodigingen",
+          noInvitationsHelp:
+            "Als iemand je uitnodigt voor een groep, zie je dat hier",
+          loadFailed: "Kan groepen niet laden: {{message}}",
+          refreshFailed: "Kan groepen niet vernieuwen: {{message}}",
+          refreshDataFailed:
+            "Kan gegevens niet vernieuwen. Probeer het opnieuw.",
+        },
+        members: {
+          title: "Leden",
+          description: "Beheer groepsleden en hun rollen",
+          you: "(Jij)",
+          joined: "Lid sinds {{date}}",
+          changeRole: "Rol wijzigen",
+          changeRoleFor: "Wijzig de rol van {{name}}",
+          changeFamilyRole: "Gezinsrol wijzigen",
+          assignFamilyRole: "Wijs een gezinsrol toe aan {{name}}",
+          thisMember: "dit lid",
+          noFamilyRole: "Geen gezinsrol toegewezen",
+          remove: "Lid verwijderen",
+          removing: "Verwijderen...",
+          removeConfirm:
+            "Weet je zeker dat je {{name}} uit deze groep wilt verwijderen?",
+          changeRoleFailed: "Kan rol niet wijzigen: {{message}}",
+          changeFamilyRoleFailed: "Kan gezinsrol niet wijzigen: {{message}}",
+          removeFailed: "Kan lid niet verwijderen. Probeer het opnieuw.",
+        },
+        settings: {
+          general: "Algemene instellingen",
+          generalDescription:
+            "Beheer de basisgegevens en instellingen van je groep",
+          description: "Groepsomschrijving",
+          activeStatus: "Actief",
+          activeHelp:
+            "Als de groep inactief is, kunnen leden geen nieuwe transacties aanmaken",
+          saved: "Instellingen opgeslagen!",
+          updateFailed: "Kan groep niet bijwerken: {{message}}",
+          deleteFailed: "Kan groep niet verwijderen: {{message}}",
+          confirmNameMismatch:
+            "Typ de exacte groepsnaam om het verwijderen te bevestigen.",
+          dangerZone: "Gevarenzone",
+          dangerDescription: "Acties die niet ongedaan kunnen worden gemaakt",
+          deleteWarning:
+            "Als je deze groep verwijdert, worden alle bijbehorende gegevens, zoals transacties, budgetten en leden, definitief verwijderd.",
+          delete: "Groep verwijderen",
+          deleteConfirm:
+            'Weet je zeker dat je de groep "{{name}}" wilt verwijderen? Dit kan niet ongedaan worden gemaakt.',
+          deleteDetails:
+            "Alle groepsgegevens, zoals transacties, budgetten en leden, worden definitief verwijderd. Leden verliezen de toegang tot alle gedeelde onderdelen.",
+          typeToConfirm: "Typ de groepsnaam om te bevestigen:",
+        },
+        summary: {
+          loadFailed: "Kan budgetgroepen niet laden",
+          recentActivity: "Recente activiteit",
+        },
+        transactions: {
+          empty: "Geen transacties gevonden",
+          emptyHelp:
+            "Houd de uitgaven en inkomsten van je groep bij door je eerste transactie toe te voegen.",
+          createdBy: "Aangemaakt door",
+          deleteFailed: "Kan transactie niet verwijderen. Probeer het opnieuw.",
+          type: "Soort transactie",
+        },
+        splits: {
+          paidBy: "Betaald door",
+          paidByName: "Betaald door {{name}}",
+          selectMember: "Kies een lid",
+          split: "Verdelen tussen leden",
+          splitHelp: "Deel deze uitgave en houd bij wie wat verschuldigd is",
+          methods: {
+            equal: "Gelijk verdelen",
+            percentage: "Op percentage",
+            shares: "Op aandelen",
+            exact: "Exacte bedragen",
+          },
+          valueLabels: {
+            equal: "Deel",
+            percentage: "Percentage",
+            shares: "Aandelen",
+            exact: "Bedrag",
+          },
+          invalid: {
+            equal: "Kies minstens één lid",
+            percentage: "Percentages moeten samen 100 zijn",
+            shares: "Geef minstens één lid een aandeel",
+            exact: "Bedragen moeten samen het totaal zijn",
+          },
+        },
+        balances: {
+          title: "Saldi",
+          memberBalances: "Saldi per lid",
+          description: "Op basis van verdeelde uitgaven en vastgelegde terugbetalingen",
+          paidAndOwed: "Betaald {{paid}} · Deel {{owed}}",
+          isOwed: "krijgt nog",
+          owes: "moet nog betalen",
+          settled: "verrekend",
+          suggested: "Voorgestelde betalingen",
+          suggestedHelp: "Het kleinste aantal betalingen waarmee iedereen quitte staat",
+          allSettled: "Iedereen staat quitte",
+          record: "Betaling vastleggen",
+          history: "Verrekeningsgeschiedenis",
+          noSettlements: "Nog geen terugbetalingen vastgelegd",
+          settleUp: "Verrekenen",
+          settleUpHelp: "Leg vast dat een lid een ander lid heeft terugbetaald",
+          from: "Van",
+          to: "Aan",
+          sameMember: "Kies twee verschillende leden",
+          loadError: "Kan saldi niet laden",
+          settleError: "Kan betaling niet vastleggen",
+          deleteError: "Kan betaling niet verwijderen",
+          deleteTitle: "Betaling verwijderen",
+          deleteConfirm:
+            "Weet je zeker dat je deze terugbetaling wilt verwijderen? De saldi worden zonder herberekend.",
+        },
+        presence: {
+          viewingNow: "Bekijkt nu",
+          online: "Bekijkt deze groep nu",
+          more: "+{{count}}",
+        },
+        permissions: {
+          childLimits: "Beperkingen voor kinderen",
+          childLimitsDescription:
+            "Stel in wat leden met de gezinsrol Kind in deze groep mogen doen",
+          approvalLimit: "Goedkeuring nodig boven",
+          approvalLimitHelp:
+            "Uitgaven van kinderen boven dit bedrag wachten op goedkeuring van een ouder",
+          noLimit: "Geen limiet",
+          canEditTransactions: "Eigen transacties bewerken en verwijderen",
+          canManageBudgets: "Budgetten aanmaken en beheren",
+          canRecordSettlements: "Verrekeningen vastleggen",
+        },
+        approvals: {
+          title: "Wacht op jouw goedkeuring ({{count}})",
+          description:
+            "Deze uitgaven tellen mee voor de totalen, budgetten en saldi van de groep zodra ze zijn goedgekeurd",
+          statusPending: "Wacht op goedkeuring",
+          statusRejected: "Afgewezen",
+          approve: "Goedkeuren",
+          reject: "Afwijzen",
+          approveTitle: "Uitgave goedkeuren",
+          rejectTitle: "Uitgave afwijzen",
+          reviewDescription:
+            '{{name}} heeft "{{description}}" van {{amount}} toegevoegd',
+          comment: "Opmerking (optioneel)",
+          commentPlaceholder: "Laat weten waarom",
+          submittedBy: "Toegevoegd door {{name}}",
+          approved: "Uitgave goedgekeurd",
+          rejected: "Uitgave afgewezen",
+          reviewFailed:
+            "Je beoordeling kon niet worden opgeslagen. Probeer het opnieuw.",
+          willNeedApproval:
+            "Deze uitgave wacht op goedkeuring voordat ze meetelt voor de totalen en budgetten van de groep.",
+          rules: "Goedkeuring van uitgaven",
+          rulesDescription:
+            "Kies wiens uitgaven op goedkeuring wachten. Eigenaars en beheerders keuren uitgaven goed van leden met een lagere rol, en ouders die van hun kinderen.",
+          role: "Goedkeuring vereist voor uitgaven van",
+          roles: {
+            none: "Niemand",
+            member: "Leden",
+            admin: "Leden en beheerders",
+          },
+          amountLimit: "Alleen boven",
+          everyExpense: "Elke uitgave",
+          amountLimitHelp:
+            "Laat leeg om elke uitgave van deze leden ter goedkeuring voor te leggen",
+        },
+        detail: {
+          loadFailed: "Kan groepsgegevens niet laden. Probeer het opnieuw.",
+          notFound: "Groep niet gevonden",
+          refreshMembersFailed:
+            "Kan leden niet vernieuwen. Probeer het opnieuw.",
+          refreshTransactionsFailed:
+            "Kan transacties niet vernieuwen. Probeer het opnieuw.",
+          refreshBudgetsFailed:
+            "Kan budgetten niet vernieuwen. Probeer het opnieuw.",
+          created: "Aangemaakt op {{date}}",
+          balance: "Saldo",
+          tabs: {
+            transactionsShort: "Trans",
+            budgetsShort: "Budg",
+            membersShort: "Leden",
+            activity: "Activiteit",
+            activityShort: "Act",
+            balancesShort: "Sald",
+            settingsShort: "Inst",
+          },
+        },
+        dashboard: {
+          title: "Huishouddashboard",
+          personal: "Persoonlijk dashboard",
+          noGroups: "Geen budgetgroepen gevonden",
+          noGroupsHelp:
+            "Je hebt nog geen budgetgroepen. Maak een groep om samen de huishoudfinanciën te beheren.",
+          createGroup: "Budgetgroep aanmaken",
+          viewAllGroups: "Alle groepen bekijken",
+          selectGroup: "Kies een groep",
+          groupSettings: "Groepsinstellingen",
+          overview: "Overzicht",
+          totalIncome: "Totale inkomsten",
+          totalExpenses: "Totale uitgaven",
+          currentMonth: "Huidige maand",
+          percentOfIncome: "{{percent}}% van inkomsten",
+          recentTransactions: "Recente transacties",
+          budgetProgress: "Budgetvoortgang",
+          groupMembers: "Groepsleden",
+          groupTransactions: "Groepstransacties",
+          groupBudgets: "Groepsbudgetten",
+          loadGroupsFailed: "Kan budgetgroepen niet laden",
+          loadFailed: "Kan groepsgegevens niet laden",
+        },
+        invitation: {
+          title: "Je bent uitgenodigd voor een groep!",
+          notFoundOrExpired: "Uitnodiging niet gevonden of verlopen.",
+          notFound: "Uitnodiging niet gevonden.",
+          defaultGroupName: "Budgetgroep",
+          unknownError: "Onbekende fout",
+          acceptFailed: "Kan uitnodiging niet accepteren",
+          backHome: "Terug naar home",
+          joinPrefix: "Accepteer deze uitnodiging om lid te worden van",
+          joinSuffix: ".",
+          joinAs: "als",
+          status: "Status:",
+          statuses: {
+            pending: "In afwachting",
+            accepted: "Geaccepteerd",
+            expired: "Verlopen",
+          },
+          acceptedRedirecting:
+            "Uitnodiging geaccepteerd! Je wordt doorgestuurd naar je groep…",
+          accept: "Uitnodiging accepteren",
+          redirecting: "Geaccepteerd! Doorsturen…",
+        },
+      },
+      notifications: {
+        billDue: {
+          title: "Factuur vervalt binnenkort",
+          message: "{{name}} ({{amount}}) vervalt op {{date}}.",
+        },
+        budgetAlert: {
+          title: "{{name}} staat op {{percent}}%",
+          exceededTitle: "{{name}} is over het budget",
+          message:
+            "Je hebt deze periode {{spent}} van {{available}} uitgegeven aan {{category}}.",
+        },
+        goalProgress: {
+          title: "Mijlpaal bereikt",
+          message: "{{name}} is voor {{percent}}% gespaard.",
+          achievedTitle: "Doel bereikt",
+          achievedMessage:
+            "Je hebt je doel van {{amount}} voor {{name}} bereikt.",
+        },
+        groupInvitation: {
+          title: "Nieuwe groepsuitnodiging",
+          message: "Je bent uitgenodigd voor {{group}} als {{role}}.",
+        },
+      },
+      toast: {
+        itemCreated: "{{item}} aangemaakt",
+        itemUpdated: "{{item}} bijgewerkt",
+        itemDeleted: "{{item}} verwijderd",
+        somethingWentWrong: "Er ging iets mis",
+        items: {
+          transaction: "Transactie",
+          transfer: "Overboeking",
+          recurringTransaction: "Terugkerende transactie",
+          budget: "Budget",
+          goal: "Doel",
+          contribution: "Bijdrage",
+          bill: "Factuur",
+          payment: "Betaling",
+          subscription: "Abonnement",
+          settlement: "Verrekening",
+          bankAccount: "Bankrekening",
+          netWorthItem: "Item",
+          debt: "Schuld",
+          category: "Categorie",
+          tag: "Tag",
+          rule: "Regel",
+        },
+      },
+      errors: {
+        notFound: {
+          title: "Pagina niet gevonden",
+          description: "De pagina die je zoekt bestaat niet of is verplaatst.",
+          goHome: "Terug naar home",
+        },
+        boundary: {
+          title: "Er ging iets mis",
+          description:
+            "Sorry, er is een fout opgetreden bij het weergeven van dit onderdeel. Vernieuw de pagina of probeer het opnieuw.",
+          stackTrace: "Stacktrace",
+          tryAgain: "Opnieuw proberen",
+        },
+      },
+    },
+  },
+  fr: {
+    translation: {
+      common: {
+        save: "Enregistrer",
+        saving: "Enregistrement...",
+        saveChanges: "Enregistrer les modifications",
+        cancel: "Annuler",
+        delete: "Supprimer",
+        deleting: "Suppression...",
+        edit: "Modifier",
+        add: "Ajouter",
+        create: "Créer",
+        update: "Mettre à jour",
+        close: "Fermer",
+        back: "Retour",
+        goBack: "Revenir",
+        actions: "Actions",
+        loading: "Chargement...",
+        retry: "Réessayer",
+        none: "Aucun",
+        all: "Tous",
+        name: "Nom",
+        description: "Description",
+        amount: "Montant",
+        date: "Date",
+        category: "Catégorie",
+        account: "Compte",
+        currency: "Devise",
+        notes: "Notes",
+        status: "Statut",
+        type: "Type",
+        color: "Couleur",
+        icon: "Icône",
+        startDate: "Date de début",
+        endDate: "Date de fin",
+        optional: "Facultatif",
+        selectCategory: "Choisir une catégorie",
+        selectAccount: "Choisir un compte",
+        selectCurrency: "Choisir une devise",
+        noCategory: "Aucune catégorie",
+        noAccount: "Aucun compte",
+        expense: "Dépense",
+        income: "Revenu",
+        transfer: "Virement",
+        search: "Rechercher...",
+        viewAll: "Tout voir",
+        viewDetails: "Voir les détails",
+        unexpectedError: "Une erreur inattendue s'est produite",
+        error: "Erreur",
+        success: "Succès",
+        yes: "Oui",
+        no: "Non",
+        of: "{{value}} sur {{total}}",
+        daily: "Quotidien",
+        weekly: "Hebdomadaire",
+        biweekly: "Toutes les deux semaines",
+        monthly: "Mensuel",
+        quarterly: "Trimestriel",
+        yearly: "Annuel",
+        transactionCount: "{{count}} transaction",
+        transactionCount_plural: "{{count}} transactions",
+        dayCount: "{{count}} jour",
+        dayCount_plural: "{{count}} jours",
+        invalidAmount: "Veuillez saisir un montant valide",
+        loadCategoriesError: "Impossible de charger les catégories",
+        loadAccountsError: "Impossible de charger les comptes bancaires",
+        confirmDeletion: "Confirmer la suppression",
+        custom: "Personnalisé",
+        ongoing: "En cours",
+      },
+      nav: {
+        appName: "Budget Tracker",
+        version: "Version {{version}}",
+        dashboard: "Tableau de bord",
+        transactions: "Transactions",
+        expenses: "Dépenses",
+        income: "Revenus",
+        categories: "Catégories",
+        budgets: "Budgets",
+        accounts: "Comptes",
+        groups: "Groupes",
+        tags: "Étiquettes",
+        goals: "Objectifs",
+        analytics: "Analyses",
+        bills: "Factures",
+        debts: "Dettes",
+        settings: "Paramètres",
+        profile: "Profil",
+        search: "Rechercher",
+        searchPlaceholder:
+          "Rechercher des transactions, catégories et étiquettes...",
+        help: "Aide",
+        keyboardShortcuts: "Raccourcis clavier",
+        lightMode: "Mode clair",
+        darkMode: "Mode sombre",
+        logout: "Se déconnecter",
+        login: "Se connecter",
+        user: "Utilisateur",
+        quickAdd: "Ajout rapide",
+        newExpense: "Nouvelle dépense",
+        newIncome: "Nouveau revenu",
+        newBudget: "Nouveau budget",
+        newGoal: "Nouvel objectif",
+        newTag: "Nouvelle étiquette",
+        copyright: "© {{year}} Budget Tracker. Tous droits réservés.",
+        privacyPolicy: "Politique de confidentialité",
+        termsOfService: "Conditions d'utilisation",
+        contact: "Contact",
+        helpSupport: "Aide et support",
+        theme: "Thème",
+        systemMode: "Mode système",
+        helpModal: {
+          title: "Aide et raccourcis clavier",
+          shortcuts: "Raccourcis clavier",
+          navigation: "Navigation",
+          actions: "Actions",
+          goTo: "Aller à {{page}}",
+          newTransaction: "Nouvelle transaction",
+          gettingStarted: "Premiers pas",
+          step1Title: "1. Suivez vos transactions",
+          step1Text:
+            "Commencez par ajouter vos revenus et dépenses dans la section Transactions. Vous pouvez les classer et ajouter des étiquettes.",
+          step2Title: "2. Créez des budgets",
+          step2Text:
+            "Définissez des budgets mensuels par catégorie pour maîtriser vos dépenses et atteindre vos objectifs.",
+          step3Title: "3. Fixez des objectifs financiers",
+          step3Text:
+            "Définissez vos objectifs, comme épargner pour des vacances, une voiture ou un fonds d'urgence. Suivez vos progrès et contribuez régulièrement.",
+          step4Title: "4. Gérez factures et abonnements",
+          step4Text:
+            "Suivez vos factures et abonnements récurrents pour éviter les retards de paiement et mieux gérer votre trésorerie.",
+          tipsTitle: "Trucs et astuces",
+          tip1: "Utilisez des étiquettes pour affiner le classement de vos transactions.",
+          tip2: "Examinez vos habitudes de dépense sur le tableau de bord pour repérer des économies.",
+          tip3: "Fixez des budgets réalistes basés sur vos dépenses passées pour augmenter vos chances de réussite.",
+          tip4: "Contribuez régulièrement à vos objectifs, même avec de petits montants.",
+          tip5: "Utilisez la vue mobile pour suivre vos dépenses en déplacement.",
+          gotIt: "Compris",
+        },
+        welcome: {
+          title: "Bienvenue dans Budget Tracker",
+          greeting:
+            "Bienvenue, {{name}} ! Nous sommes ravis de vous aider à gérer vos finances.",
+          greetingNoName:
+            "Bienvenue ! Nous sommes ravis de vous aider à gérer vos finances.",
+          tour: "Faisons un petit tour pour bien démarrer.",
+          transactionsTitle: "Suivez vos transactions",
+          transactionsText:
+            "Enregistrez facilement vos revenus et dépenses pour suivre vos habitudes.",
+          proTip: "Astuce",
+          shortcutPrefix: "Appuyez sur",
+          shortcutSuffix: "pour ajouter rapidement une transaction.",
+          budgetsTitle: "Définissez budgets et objectifs",
+          budgetsText:
+            "Planifiez vos finances avec nos outils de budget et d'objectifs.",
+          budgets: "Budgets",
+          budgetsHelp:
+            "Créez des budgets mensuels pour maîtriser vos dépenses par catégorie.",
+          savingsGoals: "Objectifs d'épargne",
+          savingsGoalsHelp:
+            "Fixez des objectifs d'épargne et suivez vos progrès.",
+          doneTitle: "Tout est prêt !",
+          doneText:
+            "Vous êtes prêt à prendre le contrôle de vos finances avec Budget Tracker.",
+          reminder:
+            "Mettez régulièrement à jour vos transactions pour une vision fidèle de vos finances.",
+          begin: "Cliquez sur « Commencer » pour vous lancer !",
+          back: "Retour",
+          skip: "Passer",
+          next: "Suivant",
+          getStarted: "Commencer",
+        },
+        notifications: {
+          title: "Notifications",
+          markAllRead: "Tout marquer comme lu",
+          clear: "Effacer",
+          empty: "Aucune notification",
+          dismiss: "Ignorer",
+        },
+      },
+      auth: {
+        email: "Adresse e-mail",
+        password: "Mot de passe",
+        fullName: "Nom complet",
+        confirmPassword: "Confirmer le mot de passe",
+        signIn: "Se connecter",
+        unexpectedError:
+          "Une erreur inattendue s'est produite. Veuillez réessayer.",
+        login: {
+          title: "Bon retour",
+          description: "Connectez-vous à votre compte",
+          forgotPassword: "Mot de passe oublié ?",
+          signingIn: "Connexion...",
+          noAccount: "Vous n'avez pas de compte ?",
+          register: "S'inscrire",
+        },
+        register: {
+          title: "Créer un compte",
+          description: "Inscrivez-vous pour suivre vos finances",
+          passwordHint: "Le mot de passe doit contenir au moins 8 caractères",
+          passwordsMismatch: "Les mots de passe ne correspondent pas",
+          submit: "Créer le compte",
+          submitting: "Création du compte...",
+          haveAccount: "Vous avez déjà un compte ?",
+          success: "Inscription réussie !",
+          successDescription:
+            "Consultez vos e-mails pour vérifier votre compte. Vous allez être redirigé vers la page de connexion.",
+          goToLogin: "Aller à la page de connexion",
+        },
+        reset: {
+          title: "Réinitialiser votre mot de passe",
+          description:
+            "Saisissez votre e-mail pour recevoir un lien de réinitialisation",
+          submit: "Envoyer le lien",
+          submitting: "Envoi...",
+          remember: "Vous vous souvenez de votre mot de passe ?",
+          checkEmail: "Consultez vos e-mails",
+          sent: "Nous avons envoyé un lien de réinitialisation à {{email}}. Consultez votre boîte de réception et suivez les instructions.",
+          returnToLogin: "Retour à la connexion",
+        },
+        landing: {
+          tagline:
+            "Prenez le contrôle de vos finances grâce à nos outils de budget et de suivi des dépenses.",
+          trackTitle: "Suivez vos dépenses",
+          trackText:
+            "Enregistrez et classez facilement vos dépenses pour savoir où va votre argent.",
+          budgetsTitle: "Définissez des budgets",
+          budgetsText:
+            "Créez des budgets par catégorie et suivez votre progression.",
+          visualizeTitle: "Visualisez vos finances",
+          visualizeText:
+            "Obtenez des analyses grâce à des graphiques et rapports clairs pour mieux décider.",
+          goalsTitle: "Atteignez vos objectifs",
+          goalsText:
+            "Fixez des objectifs financiers et suivez votre progression.",
+        },
+      },
+      settings: {
+        title: "Paramètres",
+        description: "Gérez les paramètres et préférences de votre compte",
+        new: "Nouveau",
+        helpSupport: "Aide et support",
+        tabs: {
+          profile: "Profil",
+          password: "Mot de passe",
+          preferences: "Préférences",
+          notifications: "Notifications",
+          currency: "Devise",
+          theme: "Thème",
+          language: "Langue",
+          data: "Données",
+          account: "Compte",
+        },
+        tabDescriptions: {
+          profile: "Gérez vos informations personnelles et votre profil",
+          password: "Modifiez votre mot de passe et vos paramètres de sécurité",
+          preferences:
+            "Personnalisez l'application et vos paramètres par défaut",
+          notifications:
+            "Choisissez comment et quand recevoir des notifications",
+          currency: "Définissez votre devise et vos options de format",
+          theme: "Choisissez votre thème et votre apparence",
+          language: "Choisissez la langue de l'application",
+          data: "Exportez vos données ou restaurez une sauvegarde",
+          account:
+            "Gérez la sécurité de votre compte et les services connectés",
+          default: "Gérez vos paramètres et préférences",
+        },
+        connected: {
+          title: "Services connectés",
+          description: "Gérez vos comptes et services connectés",
+          banking: "Intégration bancaire",
+          bankingDescription:
+            "Connectez vos comptes bancaires pour importer automatiquement les transactions",
+          connect: "Connecter",
+          twoFactor: "Authentification à deux facteurs",
+          twoFactorDescription:
+            "Ajoutez une couche de sécurité supplémentaire à votre compte",
+          setup: "Configurer",
+          sync: "Synchronisation des données",
+          lastSynced: "Dernière synchronisation il y a 5 minutes",
+          syncNow: "Synchroniser",
+        },
+        profile: {
+          title: "Informations du profil",
+          description: "Mettez à jour vos informations personnelles",
+          email: "E-mail",
+          emailLocked: "L'e-mail ne peut pas être modifié ici",
+          emailHelp: "Pour changer d'e-mail, utilisez les paramètres du compte",
+          fullName: "Nom complet",
+          avatarUrl: "URL de l'avatar",
+          avatarHelp: "Saisissez l'URL d'une image pour votre photo de profil",
+          avatarPreview: "Aperçu de l'avatar",
+          avatarError: "Impossible de charger l'image. Vérifiez l'URL.",
+          updated: "Profil mis à jour",
+          updatedMessage: "Vos informations de profil ont été mises à jour.",
+          updateFailed: "Échec de la mise à jour du profil",
+          unexpectedError:
+            "Une erreur inattendue s'est produite lors de la mise à jour de votre profil.",
+        },
+        password: {
+          title: "Changer le mot de passe",
+          description: "Modifiez le mot de passe de votre compte",
+          current: "Mot de passe actuel",
+          new: "Nouveau mot de passe",
+          confirm: "Confirmer le nouveau mot de passe",
+          lengthHelp: "Le mot de passe doit contenir au moins 8 caractères",
+          submit: "Mettre à jour le mot de passe",
+          updating: "Mise à jour...",
+          mismatch: "Les mots de passe ne correspondent pas",
+          mismatchMessage:
+            "Les nouveaux mots de passe ne correspondent pas. Saisissez le même mot de passe dans les deux champs.",
+          invalid: "Mot de passe invalide",
+          invalidMessage:
+            "Le mot de passe doit contenir au moins 8 caractères.",
+          updated: "Mot de passe mis à jour",
+          updatedMessage: "Votre mot de passe a été mis à jour.",
+          updateFailed: "Échec de la mise à jour du mot de passe",
+          unexpectedError:
+            "Une erreur inattendue s'est produite lors de la mise à jour de votre mot de passe.",
+        },
+        preferences: {
+          title: "Préférences utilisateur",
+          description: "Personnalisez les paramètres de l'application",
+          currencyHelp: "Elle sera utilisée pour afficher tous les montants",
+          selectTheme: "Choisir un thème",
+          enableNotifications: "Activer les notifications",
+          submit: "Enregistrer les préférences",
+          updated: "Paramètres mis à jour",
+        },
+        notifications: {
+          title: "Paramètres de notification",
+          description: "Gérez la réception des notifications",
+          enableAll: "Activer toutes les notifications",
+          types: "Types de notification",
+          billDue: "Rappels d'échéance",
+          billDueDescription:
+            "Soyez averti lorsque des factures arrivent à échéance",
+          budgetAlert: "Alertes de budget",
+          budgetAlertDescription:
+            "Soyez averti lorsque vous êtes près de dépasser votre budget",
+          goalProgress: "Progression des objectifs",
+          goalProgressDescription:
+            "Soyez informé de la progression de vos objectifs d'épargne",
+          groupInvitation: "Invitations de groupe",
+          groupInvitationDescription:
+            "Soyez averti lorsque vous êtes invité dans un groupe de budget",
+          transactionAlert: "Alertes de transaction",
+          transactionAlertDescription:
+            "Soyez averti des nouvelles transactions",
+          weeklySummary: "Résumé hebdomadaire",
+          weeklySummaryDescription:
+            "Recevez un résumé hebdomadaire de vos finances",
+          submit: "Enregistrer les notifications",
+          updated: "Paramètres de notification mis à jour",
+        },
+        currency: {
+          title: "Paramètres de devise",
+          description: "Choisissez la devise de l'application",
+          select: "Choisir la devise",
+          help: "Votre devise de référence : les totaux, rapports et budgets y sont convertis avec vos taux de change",
+          preview: "Aperçu de la devise",
+          symbol: "Symbole :",
+          code: "Code :",
+          format: "Format :",
+          example: "Exemple",
+          formattedValue: "Valeur formatée",
+          positive: "Montant positif",
+          negative: "Montant négatif",
+          zero: "Montant nul",
+          submit: "Enregistrer la devise",
+          updated: "Paramètres de devise mis à jour",
+        },
+        exchangeRates: {
+          title: "Taux de change",
+          description:
+            "Les rapports et budgets convertissent les autres devises en {{currency}} au dernier taux connu à la date de chaque transaction",
+          rateLabel: "Taux ({{currency}} par unité)",
+          add: "Ajouter un taux",
+          import: "Importer un CSV",
+          importHelp:
+            "Les fichiers CSV doivent contenir les colonnes date, devise et taux. Une colonne base facultative indique la devise de cotation ; par défaut {{currency}}.",
+          empty:
+            "Aucun taux de change. Les montants dans d'autres devises sont comptés sans conversion jusqu'à l'ajout d'un taux.",
+          rate: "Taux",
+          missingColumns:
+            "Le CSV doit contenir les colonnes date, devise et taux",
+          selectCurrencyError: "Veuillez choisir une devise.",
+          rateError: "Saisissez un taux supérieur à zéro.",
+          loadError: "Impossible de charger les taux de change.",
+          saveError: "Impossible d'enregistrer le taux de change. Réessayez.",
+          deleteError: "Impossible de supprimer le taux de change",
+          noRatesFound: "Aucun taux valide n'a été trouvé dans le fichier.",
+          importError: "Impossible d'importer les taux de change. Réessayez.",
+          imported: "Taux de change importés",
+          importedCount: "{{count}} taux importé",
+          importedCount_plural: "{{count}} taux importés",
+          skippedCount: "{{count}} ligne ignorée",
+          skippedCount_plural: "{{count}} lignes ignorées",
+        },
+        theme: {
+          title: "Paramètres du thème",
+          description: "Personnalisez l'apparence de l'application",
+          select: "Choisir le thème",
+          light: "Clair",
+          lightDescription: "Mode clair avec fond lumineux et texte foncé",
+          dark: "Sombre",
+          darkDescription: "Mode sombre avec fond foncé et texte clair",
+          system: "Système",
+          systemDefault: "Par défaut du système",
+          systemDescription: "Suivre le thème du système",
+          submit: "Enregistrer le thème",
+          updated: "Paramètres du thème mis à jour",
+        },
+        language: {
+          title: "Paramètres de langue",
+          description: "Choisissez la langue de l'application",
+          select: "Choisir la langue",
+          help: "La langue sera modifiée dans toute l'application",
+          preview: "Aperçu de la langue",
+          flag: "Drapeau :",
+          name: "Nom :",
+          native: "Nom natif :",
+          submit: "Enregistrer la langue",
+          updated: "Paramètres de langue mis à jour",
+        },
+        deletion: {
+          title: "Supprimer le compte",
+          description:
+            "Cette action est définitive et irréversible. Toutes vos données seront définitivement supprimées.",
+          confirmLabel: "Pour confirmer, saisissez « {{phrase}} » ci-dessous",
+          confirmError: "Saisissez {{phrase}} pour confirmer",
+          submit: "Supprimer définitivement mon compte",
+          error: "Impossible de supprimer le compte. Contactez le support.",
+        },
+        data: {
+          exportTitle: "Exporter les données",
+          exportDescription:
+            "Téléchargez vos données en CSV ou OFX, ou tout en archive JSON restaurable plus tard",
+          filters: "Filtres de transactions",
+          filtersHelp:
+            "Les exports CSV et OFX ne contiennent que les transactions correspondantes. Les filtres de la page des transactions sont appliqués par défaut.",
+          csvContents: "Contenu du CSV",
+          downloadCsv: "Télécharger le CSV",
+          downloadOfx: "Télécharger l'OFX",
+          downloadJson: "Télécharger l'archive JSON",
+          exportError: "Impossible d'exporter vos données. Réessayez.",
+          restoreTitle: "Restaurer une sauvegarde",
+          restoreDescription:
+            "Recréez tout à partir d'une archive JSON sous votre compte. Les éléments restaurés s'ajoutent à vos données ; les catégories et étiquettes du même nom sont réutilisées.",
+          restoreButton: "Restaurer depuis l'archive",
+          restoring: "Restauration...",
+          restore: "Restaurer",
+          invalidFile: "Ce fichier n'est pas une sauvegarde restaurable.",
+          unreadableFile: "Le fichier de sauvegarde est illisible.",
+          confirm:
+            "Cette sauvegarde du {{date}} contient {{contents}}. Tout est ajouté à vos données actuelles : restaurer deux fois la même sauvegarde crée des doublons.",
+          noRecords: "aucun élément",
+          partial:
+            "La restauration s'est arrêtée en cours de route. Déjà restauré : {{contents}}.",
+          restoreError: "Impossible de restaurer la sauvegarde. Réessayez.",
+          restoreFailed: "Échec de la restauration",
+          restored: "Sauvegarde restaurée",
+          nothingNew: "Rien de nouveau à restaurer",
+          entities: {
+            transactions: "Transactions",
+            categories: "Catégories",
+            tags: "Étiquettes",
+            budgets: "Budgets",
+            bills: "Factures et abonnements",
+            goals: "Objectifs",
+            bank_accounts: "Comptes bancaires",
+          },
+          counts: {
+            bank_accounts: "{{count}} compte bancaire",
+            bank_accounts_plural: "{{count}} comptes bancaires",
+            categories: "{{count}} catégorie",
+            categories_plural: "{{count}} catégories",
+            tags: "{{count}} étiquette",
+            tags_plural: "{{count}} étiquettes",
+            transactions: "{{count}} transaction",
+            transactions_plural: "{{count}} transactions",
+            transaction_splits: "{{count}} ventilation",
+            transaction_splits_plural: "{{count}} ventilations",
+            transaction_tags: "{{count}} étiquette de transaction",
+            transaction_tags_plural: "{{count}} étiquettes de transaction",
+            budgets: "{{count}} budget",
+            budgets_plural: "{{count}} budgets",
+            bills: "{{count}} facture",
+            bills_plural: "{{count}} factures",
+            bill_payments: "{{count}} paiement de facture",
+            bill_payments_plural: "{{count}} paiements de facture",
+            goals: "{{count}} objectif",
+            goals_plural: "{{count}} objectifs",
+            goal_contributions: "{{count}} contribution",
+            goal_contributions_plural: "{{count}} contributions",
+          },
+        },
+      },
+      dashboard: {
+        welcome: "Bon retour, {{name}}",
+        householdDashboard: "Tableau de bord du foyer",
+        tabs: {
+          overview: "Aperçu",
+          finances: "Finances",
+          goals: "Objectifs",
+        },
+        billReminders: "Rappels de factures",
+        budgetProgress: "Suivi des budgets",
+        expenseCategories: "Catégories de dépenses",
+        recentTransactions: "Transactions récentes",
+        totalIncome: "Revenus totaux",
+        totalExpenses: "Dépenses totales",
+        savings: "Épargne",
+        deficit: "Déficit",
+        currentMonth: "Mois en cours",
+        ofIncome: "{{percent}} % des revenus",
+        loadSummaryError: "Impossible de charger le résumé des dépenses",
+      },
+      transactions: {
+        title: "Transactions",
+        add: "Ajouter une transaction",
+        edit: "Modifier la transaction",
+        update: "Mettre à jour la transaction",
+        addExpense: "Ajouter une dépense",
+        addIncome: "Ajouter un revenu",
+        saveAnyway: "Enregistrer quand même",
+        noDescription: "Sans description",
+        deletedAccount: "Compte supprimé",
+        loadMore: "Charger plus",
+        empty:
+          "Aucune transaction trouvée. Ajoutez votre première transaction pour commencer !",
+        deleteTitle: "Supprimer la transaction",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cette transaction ? Cette action est irréversible.",
+        loadError: "Impossible de charger les transactions",
+        loadOneError: "Impossible de charger la transaction",
+        deleteError: "Impossible de supprimer la transaction",
+        saveError: "Impossible d'enregistrer la transaction",
+        paymentMethods: {
+          cash: "Espèces",
+          credit_card: "Carte de crédit",
+          debit_card: "Carte de débit",
+          bank_transfer: "Virement bancaire",
+          check: "Chèque",
+          mobile_payment: "Paiement mobile",
+          other: "Autre",
+        },
+        statuses: {
+          pending: "En attente",
+          completed: "Terminée",
+          cleared: "Rapprochée",
+          reconciled: "Réconciliée",
+          cancelled: "Annulée",
+        },
+        form: {
+          loadError: "Impossible de charger les données. Veuillez réessayer.",
+          dateRequired: "Veuillez choisir une date.",
+          splitAmountRequired:
+            "Chaque ligne de répartition doit avoir un montant supérieur à zéro.",
+          splitTotalMismatch:
+            "La somme des lignes doit correspondre au montant de la transaction.",
+          loginRequired:
+            "Vous devez être connecté pour ajouter une transaction",
+          saveError:
+            "Impossible d'enregistrer la transaction. Veuillez réessayer.",
+          reconciledLocked:
+            "Cette transaction fait partie d'un relevé réconcilié. Son montant, sa date et son compte sont verrouillés.",
+          duplicateWarning:
+            "Cette transaction ressemble à une transaction existante :",
+          duplicateHint: "Validez à nouveau pour l'enregistrer quand même.",
+          accountCurrency:
+            "Les transactions sur {{account}} sont dans sa devise",
+          descriptionPlaceholder: "Saisissez une description",
+          split: "Répartir entre catégories",
+          bankAccount: "Compte bancaire",
+          selectBankAccount: "Choisir un compte bancaire",
+          paymentMethod: "Moyen de paiement",
+          selectPaymentMethod: "Choisir un moyen de paiement",
+          selectStatus: "Choisir un statut",
+          notesPlaceholder: "Ajoutez des notes supplémentaires",
+          tags: "Étiquettes",
+        },
+        split: {
+          amount: "Montant de la ligne",
+          category: "Catégorie de la ligne",
+          remove: "Supprimer la ligne",
+          notePlaceholder: "Note (facultative)",
+          addLine: "Ajouter une ligne",
+          allocated: "Entièrement réparti",
+          remaining: "{{amount}} restant à répartir",
+          over: "{{amount}} au-delà du montant",
+        },
+        transfer: {
+          edit: "Modifier le virement",
+          title: "Virement entre comptes",
+          from: "De",
+          to: "Vers",
+          submit: "Virer",
+          descriptionPlaceholder: "ex. : Épargne mensuelle",
+          help: "Les soldes des deux comptes sont mis à jour. Les virements ne comptent ni comme revenus ni comme dépenses.",
+          selectBoth: "Veuillez choisir les deux comptes.",
+          selectDifferent: "Veuillez choisir deux comptes différents.",
+          sameCurrency: "Les deux comptes doivent utiliser la même devise.",
+          saveError:
+            "Impossible d'enregistrer le virement. Veuillez réessayer.",
+        },
+        filters: {
+          title: "Filtres",
+          description: "Filtrez vos transactions",
+          selectType: "Choisir un type",
+          allTypes: "Tous les types",
+          allCategories: "Toutes les catégories",
+          allAccounts: "Tous les comptes",
+          minAmount: "Montant min.",
+          maxAmount: "Montant max.",
+          search: "Recherche",
+          searchPlaceholder: "Rechercher des transactions...",
+          clear: "Effacer les filtres",
+        },
+        recurring: {
+          title: "Transactions récurrentes",
+          add: "Ajouter une transaction récurrente",
+          edit: "Modifier la transaction récurrente",
+          addShort: "Ajouter une récurrence",
+          descriptionPlaceholder: "ex. : Salaire, Loyer",
+          repeats: "Répétition",
+          starting: "À partir du",
+          ends: "Fin",
+          next: "Prochaine",
+          never: "Jamais",
+          onDate: "À une date",
+          afterOccurrences: "Après un nombre de fois",
+          occurrencesPlaceholder: "ex. : 12",
+          until: "Jusqu'au {{date}}",
+          catchUpHint:
+            "Les occurrences depuis la date de début seront ajoutées immédiatement.",
+          descriptionRequired: "Veuillez saisir une description.",
+          endBeforeStart:
+            "La date de fin doit être égale ou postérieure à la date de début.",
+          occurrencesRequired:
+            "Veuillez indiquer combien de fois la transaction se répète.",
+          saveError:
+            "Impossible d'enregistrer la transaction récurrente. Veuillez réessayer.",
+          loadError:
+            "Impossible de charger les transactions récurrentes. Veuillez réessayer.",
+          help: "Les occurrences échues sont ajoutées à vos transactions à l'ouverture de l'application, y compris celles manquées depuis votre dernière visite.",
+          empty: "Aucune transaction récurrente pour le moment.",
+          ended: "Terminée",
+          paused: "En pause",
+          skipNext: "Ignorer la prochaine",
+          pause: "Suspendre",
+          resume: "Reprendre",
+          skipped: "Ignorée",
+          skippedDescription: "L'occurrence du {{date}} ne sera pas ajoutée",
+          pastAdded: "{{count}} occurrence passée a été ajoutée",
+          pastAdded_plural: "{{count}} occurrences passées ont été ajoutées",
+          syncAdded: "{{count}} transaction récurrente a été ajoutée",
+          syncAdded_plural:
+            "{{count}} transactions récurrentes ont été ajoutées",
+          skipError: "Impossible d'ignorer la prochaine occurrence",
+          updateError: "Impossible de mettre à jour la transaction récurrente",
+          deleteError: "Impossible de supprimer la transaction récurrente",
+          deleteTitle: "Supprimer la transaction récurrente ?",
+          deleteConfirm:
+            "Aucune nouvelle occurrence ne sera ajoutée. Les transactions déjà ajoutées sont conservées.",
+        },
+        import: {
+          title: "Importer des transactions",
+          uploadDescription:
+            "Téléversez un relevé bancaire au format CSV, OFX/QFX ou QIF.",
+          mapDescription:
+            "Associez les colonnes de {{file}} aux champs de transaction.",
+          previewDescription:
+            "Vérifiez les lignes analysées. Les lignes en erreur ne seront pas importées.",
+          chooseFile: "Choisissez un fichier de relevé",
+          typeColumn: "Type (revenu/dépense)",
+          selectColumn: "Choisir une colonne",
+          notMapped: "Non associée",
+          example: "(ex. {{value}})",
+          defaultAccount: "Compte bancaire par défaut",
+          dateFormat: "Format de date",
+          detect: "Détecter automatiquement",
+          ymd: "Année-Mois-Jour",
+          dmy: "Jour/Mois/Année",
+          mdy: "Mois/Jour/Année",
+          decimalSeparator: "Séparateur décimal",
+          point: "Point (1,234.56)",
+          comma: "Virgule (1.234,56)",
+          amountSign: "Signe du montant",
+          negativeIsExpense: "Les montants négatifs sont des dépenses",
+          positiveIsExpense: "Les montants positifs sont des dépenses",
+          ready: "{{count}} prête à importer",
+          ready_plural: "{{count}} prêtes à importer",
+          withErrors: "{{count}} en erreur",
+          possibleDuplicates: "{{count}} doublon possible",
+          possibleDuplicates_plural: "{{count}} doublons possibles",
+          duplicateOf: "Doublon possible de {{description}} du {{date}}",
+          skipDuplicates:
+            "Ignorer les lignes qui ressemblent à des transactions existantes",
+          row: "Ligne",
+          preview: "Aperçu",
+          importing: "Importation...",
+          submit: "Importer {{count}} transaction",
+          submit_plural: "Importer {{count}} transactions",
+          noRows: "Aucune transaction n'a été trouvée dans ce fichier.",
+          readError:
+            "Impossible de lire le fichier. Veuillez vérifier le format.",
+          complete: "Importation terminée",
+          imported: "{{count}} transaction importée",
+          imported_plural: "{{count}} transactions importées",
+          skipped: "{{count}} ligne ignorée",
+          skipped_plural: "{{count}} lignes ignorées",
+          categorized: "{{count}} catégorisées par les règles",
+          failed: "Impossible d'importer les transactions",
+          failedWithReason:
+            "Impossible d'importer les transactions : {{reason}}",
+          errors: {
+            noDateColumn: "Aucune colonne de date associée",
+            invalidDate: "Date invalide « {{value}} »",
+            noAmountColumn: "Aucune colonne de montant associée",
+            invalidAmount: "Montant invalide « {{value}} »",
+            zeroAmount: "Le montant est nul",
+            unknownType: "Type non reconnu « {{value}} »",
+            unknownAccount: "Compte bancaire inconnu « {{value}} »",
+          },
+        },
+        duplicates: {
+          merged: "Transactions fusionnées",
+          mergeError: "Impossible de fusionner les transactions",
+          keep: "Garder celle-ci",
+          help: "Garder une transaction supprime l'autre et transfère ses étiquettes, notes et catégorie vers celle que vous gardez.",
+          last30: "30 derniers jours",
+          last90: "90 derniers jours",
+          last180: "6 derniers mois",
+          last365: "Dernière année",
+          empty: "Aucun doublon probable trouvé.",
+          match: "{{percent}} % de correspondance",
+          dismiss: "Pas un doublon",
+        },
+        all: "Toutes les transactions",
+        recurringShort: "Récurrentes",
+        reviewDuplicates: "Vérifier les doublons",
+        importShort: "Importer",
+        expenses: "Dépenses",
+        expenseTransactions: "Transactions de dépenses",
+        incomeTransactions: "Transactions de revenus",
+        recurringTemplates: "Modèles récurrents",
+        recurringTemplatesDescription:
+          "Revenus et dépenses qui se répètent selon un calendrier, comme votre salaire, votre loyer ou vos abonnements.",
+        possibleDuplicates: "Transactions en double possibles",
+        possibleDuplicatesDescription:
+          "Transactions de même montant et de même type, enregistrées à quelques jours d'intervalle sur le même compte.",
+      },
+      budgets: {
+        title: "Budgets",
+        management: "Gestion des budgets",
+        add: "Ajouter un budget",
+        edit: "Modifier le budget",
+        create: "Créer le budget",
+        update: "Mettre à jour le budget",
+        viewAll: "Voir tous les budgets",
+        general: "Général",
+        category: "Catégorie",
+        allCategories: "Toutes les catégories",
+        rollover: "Report",
+        spentOf: "{{spent}} sur {{available}}",
+        carriedOver: "{{amount}} reporté",
+        history: "Historique",
+        showHistory: "Afficher l'historique",
+        hideHistory: "Masquer l'historique",
+        empty: "Aucun budget trouvé.",
+        createFirst: "Créez votre premier budget",
+        startTracking: "pour commencer à suivre vos dépenses !",
+        summaryEmpty: "Créez votre premier budget pour suivre vos dépenses !",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer ce budget ? Cette action est irréversible.",
+        loadError: "Impossible de charger les budgets",
+        loadOneError: "Impossible de charger le budget",
+        deleteError: "Impossible de supprimer le budget",
+        saveError: "Impossible d'enregistrer le budget",
+        form: {
+          name: "Nom du budget",
+          namePlaceholder: "ex. : Courses du mois",
+          amount: "Montant du budget",
+          allExpenses: "Toutes les dépenses",
+          period: "Période du budget",
+          selectPeriod: "Choisir une période",
+          rollover: "Reporter sur la période suivante",
+          alertThresholds: "Seuils d'alerte (%)",
+          alertThresholdsHelp:
+            "Recevez une notification lorsque les dépenses atteignent chaque pourcentage du budget, une fois par période. Laissez vide pour ne pas être alerté.",
+          alertThresholdsInvalid:
+            "Saisissez des pourcentages entiers de 1 à 1000, séparés par des virgules",
+          rolloverHelp:
+            "Reporter le reste, ou le dépassement, sur la période suivante",
+          endDateOptional: "Date de fin (facultative)",
+          descriptionOptional: "Description (facultative)",
+          descriptionPlaceholder:
+            "Ajoutez des notes ou des détails sur ce budget...",
+          nameRequired: "Veuillez saisir un nom de budget",
+          startDateRequired: "Veuillez choisir une date de début",
+          endDateRequired:
+            "Veuillez choisir une date de fin pour une période personnalisée",
+        },
+        periodHistory: {
+          empty: "Ce budget n'a encore aucune période.",
+          period: "Période",
+          allocated: "Alloué",
+          carriedIn: "Reporté en entrée",
+          spent: "Dépensé",
+          carriedOver: "Reporté",
+        },
+      },
+      goals: {
+        title: "Objectifs financiers",
+        add: "Ajouter un objectif",
+        addNew: "Ajouter un nouvel objectif",
+        edit: "Modifier l'objectif",
+        update: "Mettre à jour l'objectif",
+        backToList: "Retour à la liste des objectifs",
+        empty:
+          "Aucun objectif financier. Ajoutez votre premier objectif pour commencer le suivi !",
+        notFound: "Objectif introuvable",
+        uncategorized: "Sans catégorie",
+        noTargetDate: "Pas de date cible",
+        targetOn: "Échéance : {{date}}",
+        overdue: "En retard",
+        percentComplete: "{{percent}} % atteint",
+        remaining: "{{amount}} restant",
+        saveDaily: "Épargnez {{amount}} par jour pour atteindre l'objectif",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cet objectif ? Cette action est irréversible.",
+        targetAmount: "Montant cible",
+        currentAmount: "Montant actuel",
+        targetDate: "Date cible",
+        amountRemaining: "Montant restant",
+        savingTargets: "Objectifs d'épargne",
+        dailyTarget: "Objectif quotidien",
+        monthlyTarget: "Objectif mensuel",
+        daysRemaining: "{{count}} jour restant pour atteindre votre objectif",
+        daysRemaining_plural:
+          "{{count}} jours restants pour atteindre votre objectif",
+        statuses: {
+          in_progress: "En cours",
+          achieved: "Atteint",
+          cancelled: "Annulé",
+        },
+        form: {
+          name: "Nom de l'objectif *",
+          targetAmount: "Montant cible *",
+          startDate: "Date de début *",
+          selectStatus: "Choisir un statut",
+          loginRequired: "Vous devez être connecté pour créer un objectif",
+          requiredFields: "Veuillez remplir tous les champs obligatoires",
+          openingAmount: "Montant de départ",
+          openingAmountHelp:
+            "Argent déjà épargné avant d'ajouter des contributions",
+        },
+        contributions: {
+          add: "Ajouter une contribution",
+          history: "Historique des contributions",
+          empty: "Aucune contribution pour l'instant",
+          amount: "Montant *",
+          invalidAmount: "Veuillez saisir un montant de contribution valide",
+          loadError: "Impossible de charger l'historique des contributions",
+          addError: "Impossible d'ajouter la contribution",
+          edit: "Modifier la contribution",
+          delete: "Supprimer la contribution",
+          deleteConfirm:
+            "Êtes-vous sûr de vouloir supprimer cette contribution ? Son montant est retiré de l'objectif.",
+          amountHelp: "Un montant négatif est un retrait",
+          invalidEditAmount: "Veuillez saisir un montant différent de zéro",
+          updateError: "Échec de la mise à jour de la contribution",
+          deleteError: "Échec de la suppression de la contribution",
+          withdraw: "Retirer",
+          withdrawTitle: "Retirer de l'objectif",
+          withdrawal: "Retrait",
+          withdrawTooMuch:
+            "Vous ne pouvez pas retirer plus que les {{amount}} épargnés",
+          withdrawError: "Échec du retrait de l'objectif",
+          changes: {
+            title: "Journal des modifications",
+            show: "Afficher les modifications",
+            hide: "Masquer les modifications",
+            created: "{{amount}} ajoutés le {{date}}",
+            withdrawn: "{{amount}} retirés le {{date}}",
+            updated: "{{before}} remplacés par {{after}} le {{date}}",
+            deleted: "{{amount}} du {{date}} supprimés",
+          },
+        },
+        funding: {
+          title: "Épargne automatique",
+          add: "Ajouter une règle",
+          empty:
+            "Aucune règle d'épargne. Mettez de l'argent de côté automatiquement selon un calendrier ou à partir de vos revenus.",
+          syncAdded: "{{count}} contribution automatique effectuée",
+          syncAdded_plural: "{{count}} contributions automatiques effectuées",
+          autoContribution: "Auto",
+          fixedDescription: "{{amount}} {{frequency}}",
+          percentageDescription: "{{percent}} % de chaque revenu",
+          fromAccount: "Depuis {{account}}",
+          nextContribution: "Prochaine contribution : {{date}}",
+          unknownAccount: "Compte inconnu",
+          active: "Active",
+          loadError: "Échec du chargement des règles d'épargne",
+          saveError: "Échec de l'enregistrement de la règle d'épargne",
+          deleteError: "Échec de la suppression de la règle d'épargne",
+          types: {
+            fixed: "Montant fixe",
+            percentage: "Pourcentage des revenus",
+          },
+          frequencies: {
+            weekly: "par semaine",
+            monthly: "par mois",
+          },
+          form: {
+            type: "Type de règle",
+            frequency: "Fréquence",
+            percentage: "Pourcentage (%)",
+            percentageHelp:
+              "Appliqué à chaque revenu arrivant sur le compte",
+            account: "Compte bancaire",
+            selectAccount: "Sélectionnez un compte",
+            accountRequired: "Veuillez sélectionner un compte bancaire",
+            invalidAmount: "Veuillez saisir un montant valide",
+            invalidPercentage: "Le pourcentage doit être compris entre 0 et 100",
+          },
+          preview: {
+            title: "Contributions à venir",
+            empty: "Aucune contribution prévue dans les 3 prochains mois",
+            scheduledMonthly: "{{amount}} prévus par mois",
+            fromIncome: "Environ {{amount}} par mois issus des revenus",
+            coversTarget: "Couvre l'objectif mensuel",
+            shortOfTarget: "{{amount}} de moins que l'objectif mensuel",
+            completesGoal: "Atteint l'objectif",
+          },
+          status: {
+            onTrack: "En bonne voie",
+            behind: "En retard",
+            actualMonthly:
+              "Contribution de {{actual}} par mois pour un objectif de {{target}}",
+          },
+        },
+        loadError: "Impossible de charger les objectifs",
+        loadOneError: "Impossible de charger l'objectif",
+        loadDetailsError: "Impossible de charger les détails de l'objectif",
+        deleteError: "Impossible de supprimer l'objectif",
+        saveError: "Impossible d'enregistrer l'objectif",
+        saveRetryError:
+          "Impossible d'enregistrer l'objectif. Veuillez réessayer.",
+      },
+      bills: {
+        title: "Factures et abonnements",
+        bills: "Factures",
+        billsDescription: "Suivez les dépenses ponctuelles ou irrégulières.",
+        subscriptions: "Abonnements",
+        subscriptionsDescription: "Gérez vos paiements et services récurrents.",
+        bill: "Facture",
+        subscription: "Abonnement",
+        addBill: "Ajouter une facture",
+        addNewBill: "Ajouter une nouvelle facture",
+        addSubscription: "Ajouter un abonnement",
+        addEither: "Ajouter une facture/un abonnement",
+        addBillOrSubscription: "Ajouter une facture ou un abonnement",
+        editBill: "Modifier la facture",
+        editSubscription: "Modifier l'abonnement",
+        empty:
+          "Aucune facture trouvée. Ajoutez votre première facture pour commencer le suivi !",
+        notFound: "Facture introuvable",
+        uncategorized: "Sans catégorie",
+        nextDue: "Prochaine échéance : {{date}}",
+        nextDueDate: "Prochaine échéance",
+        due: "Échéance : {{date}}",
+        notSet: "Non défini",
+        notAvailable: "N/D",
+        overdue: "En retard",
+        dueSoon: "Échéance proche",
+        frequency: "Fréquence",
+        paymentMethod: "Moyen de paiement",
+        paymentMethodValue: "Moyen de paiement : {{method}}",
+        markAsPaid: "Marquer comme payée",
+        markPaid: "Payée",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cette facture ? Cette action est irréversible.",
+        frequencies: {
+          "one-time": "Ponctuelle",
+          daily: "Quotidienne",
+          weekly: "Hebdomadaire",
+          monthly: "Mensuelle",
+          yearly: "Annuelle",
+        },
+        statuses: {
+          active: "Active",
+          paused: "En pause",
+          cancelled: "Annulée",
+        },
+        form: {
+          billName: "Nom de la facture",
+          subscriptionName: "Nom de l'abonnement",
+          billPlaceholder: "ex. : Réparation de voiture",
+          subscriptionPlaceholder: "ex. : Abonnement Netflix",
+          billNameHelp:
+            "Donnez à votre facture un nom clair et reconnaissable.",
+          subscriptionNameHelp:
+            "Donnez à votre abonnement un nom clair et reconnaissable.",
+          nameRequired: "Le nom est obligatoire",
+          amountRequired: "Le montant est obligatoire",
+          amountPositive: "Doit être supérieur à 0",
+          dueDate: "Date d'échéance",
+          dueDateRequired: "La date d'échéance est obligatoire",
+          frequencyRequired: "La fréquence est obligatoire",
+          selectFrequency: "Choisir une fréquence",
+          paymentMethodPlaceholder: "ex. : Carte de crédit",
+          autoPay: "Paiement automatique",
+          reminderDays: "Jours de rappel",
+          reminderDaysPlaceholder: "Jours avant l'échéance",
+          selectStatus: "Choisir un statut",
+          notesPlaceholder:
+            "Notes facultatives, ex. : identifiants ou détails de paiement",
+          loginRequired: "Vous devez être connecté pour créer une facture",
+        },
+        payments: {
+          add: "Ajouter un paiement",
+          history: "Historique des paiements",
+          empty: "Aucun historique de paiement disponible.",
+          via: "via {{method}}",
+          amount: "Montant *",
+          methodPlaceholder: "ex. : Carte de crédit, virement",
+          invalidAmount: "Veuillez saisir un montant de paiement valide",
+          loadError: "Impossible de charger l'historique des paiements",
+          addError: "Impossible d'ajouter le paiement",
+          recordAsExpense: "Enregistrer comme dépense",
+          recordAsExpenseHelp:
+            "Ajoute une dépense dans {{category}} au compte choisi, pour qu'elle compte dans les budgets et les analyses",
+          recordAsExpenseUncategorized:
+            "Ajoute une dépense sans catégorie au compte choisi, pour qu'elle compte dans les budgets et les analyses",
+          selectAccount: "Sélectionnez un compte",
+          accountRequired:
+            "Veuillez sélectionner le compte depuis lequel la facture a été payée",
+          viewTransaction: "Voir la transaction",
+          edit: "Modifier le paiement",
+          editLinkedHelp: "Sa transaction de dépense est également mise à jour.",
+          delete: "Supprimer le paiement",
+          deleteConfirm: "Êtes-vous sûr de vouloir supprimer ce paiement ?",
+          deleteLinkedConfirm:
+            "Êtes-vous sûr de vouloir supprimer ce paiement ? Sa transaction de dépense est également supprimée.",
+          updateError: "Échec de la mise à jour du paiement",
+          deleteError: "Échec de la suppression du paiement",
+        },
+        reminders: {
+          title: "Rappels de factures",
+          empty: "Aucune facture à échéance prochaine.",
+          loadError: "Impossible de charger les prochaines factures",
+          debtPayment: "Remboursement de dette",
+        },
+        loadError: "Impossible de charger les factures",
+        loadOneError: "Impossible de charger la facture",
+        loadDetailsError: "Impossible de charger les détails de la facture",
+        deleteError: "Impossible de supprimer la facture",
+        markPaidError: "Impossible de marquer la facture comme payée",
+        saveError: "Impossible d'enregistrer la facture",
+        saveSubscriptionError: "Impossible d'enregistrer l'abonnement",
+        saveRetryError:
+          "Impossible d'enregistrer la facture. Veuillez réessayer.",
+      },
+      debts: {
+        title: "Dettes",
+        listTitle: "Cartes de crédit et prêts",
+        totalOwed: "Total dû",
+        totalMinimum: "{{amount}} de paiements minimums chaque mois",
+        add: "Ajouter une dette",
+        edit: "Modifier la dette",
+        update: "Mettre à jour la dette",
+        empty:
+          "Aucune dette pour l'instant. Ajoutez une carte de crédit ou un prêt pour planifier son remboursement.",
+        terms: "TAEG {{apr}} % · minimum {{payment}}",
+        nextPayment: "Prochain paiement : {{date}}",
+        paidOff: "Remboursée",
+        loadError: "Échec du chargement des dettes",
+        saveError: "Échec de l'enregistrement de la dette",
+        deleteError: "Échec de la suppression de la dette",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cette dette ? Sa facture planifiée sera également supprimée.",
+        types: {
+          credit_card: "Carte de crédit",
+          loan: "Prêt",
+        },
+        form: {
+          name: "Nom",
+          namePlaceholder: "ex. Carte Visa, Prêt auto",
+          type: "Type",
+          principal: "Montant dû",
+          principalHelp: "Ce qu'il reste à rembourser aujourd'hui",
+          apr: "TAEG (%)",
+          minimumPayment: "Paiement mensuel minimum",
+          dueDay: "Jour d'échéance",
+          dueDayHelp:
+            "Jour du mois où le paiement est dû. Il est planifié comme facture mensuelle.",
+          account: "Compte de crédit",
+          noAccount: "Non lié",
+          nameRequired: "Le nom est requis",
+          invalidPrincipal: "Veuillez saisir un montant dû valide",
+          invalidApr: "Le TAEG doit être compris entre 0 et 100",
+          invalidMinimumPayment:
+            "Le paiement minimum doit être supérieur à 0",
+          invalidDueDay: "Le jour d'échéance doit être compris entre 1 et 31",
+        },
+        schedule: {
+          title: "Tableau d'amortissement",
+          description: "En payant le minimum sur {{name}} chaque mois",
+          payoffDate: "Date de remboursement",
+          totalInterest: "Intérêts totaux",
+          totalPaid: "Total payé",
+          neverPaidOff:
+            "Le paiement minimum ne couvre pas les intérêts mensuels, cette dette ne sera donc jamais remboursée.",
+          month: "Mois",
+          payment: "Paiement",
+          interest: "Intérêts",
+          principal: "Capital",
+          balance: "Solde",
+        },
+        planner: {
+          title: "Planificateur de remboursement",
+          description:
+            "Comparez le remboursement de vos dettes par le plus petit solde ou par le taux le plus élevé.",
+          noDebts:
+            "Ajoutez une dette avec un montant dû pour planifier son remboursement.",
+          extraPayment: "Paiement supplémentaire par mois",
+          extraPaymentHelp:
+            "Versé en plus des minimums. Les minimums des dettes remboursées sont aussi reportés.",
+          debtFree: "Sans dettes",
+          never: "Jamais",
+          months: "{{count}} mois",
+          months_plural: "{{count}} mois",
+          debt: "Dette",
+          cheapest: "Moins d'intérêts",
+          strategies: {
+            snowball: "Boule de neige",
+            avalanche: "Avalanche",
+          },
+          strategyDescriptions: {
+            snowball: "Plus petit solde d'abord, pour des victoires rapides",
+            avalanche: "TAEG le plus élevé d'abord, pour le moins d'intérêts",
+          },
+          savings: {
+            avalanche:
+              "L'avalanche vous fait économiser {{amount}} d'intérêts.",
+            snowball:
+              "La boule de neige vous fait économiser {{amount}} d'intérêts.",
+          },
+        },
+      },
+      categories: {
+        title: "Catégories",
+        management: "Gestion des catégories",
+        managementDescription:
+          "Gérez vos catégories de dépenses et de revenus. Les catégories vous aident à organiser vos transactions et à suivre vos habitudes de dépense.",
+        expenseCategories: "Catégories de dépenses",
+        incomeCategories: "Catégories de revenus",
+        add: "Ajouter une catégorie",
+        edit: "Modifier la catégorie",
+        update: "Mettre à jour la catégorie",
+        createNew: "Créer une nouvelle catégorie",
+        editDescription: "Modifiez les détails de votre catégorie ci-dessous",
+        createDescription:
+          "Les catégories vous aident à organiser vos transactions et à suivre vos habitudes de dépense",
+        empty:
+          "Aucune catégorie trouvée. Cliquez sur « Ajouter une catégorie » pour créer votre première catégorie.",
+        both: "Les deux",
+        unknown: "Inconnue",
+        defaultCannotDelete:
+          "Les catégories par défaut ne peuvent pas être supprimées",
+        deleteCategory: "Supprimer la catégorie",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cette catégorie ? Cette action est irréversible.",
+        loadError: "Impossible de charger les catégories. Veuillez réessayer.",
+        loadOneError: "Impossible de charger la catégorie",
+        deleteError:
+          "Impossible de supprimer la catégorie. Veuillez réessayer.",
+        saveError: "Impossible d'enregistrer la catégorie. Veuillez réessayer.",
+        form: {
+          name: "Nom de la catégorie",
+          namePlaceholder: "ex. : Courses, Loyer, Salaire",
+          nameRequired: "Le nom de la catégorie est obligatoire",
+          type: "Type de catégorie",
+          selectType: "Choisir un type",
+          color: "Couleur de la catégorie",
+          iconPreview: "Aperçu de l'icône",
+          iconHelp: "Choisissez une icône qui représente cette catégorie.",
+        },
+        colorPicker: {
+          select: "Choisir une couleur",
+          selectTitle: "Choisissez une couleur",
+          selectValue: "Choisir la couleur {{color}}",
+          custom: "Couleur personnalisée",
+          pickCustom: "Choisir une couleur personnalisée",
+        },
+        rules: {
+          title: "Règles de catégorisation",
+          description:
+            "Catégorisez et étiquetez automatiquement les transactions selon leur description ou leurs notes.",
+          help: "Les règles s'appliquent de haut en bas ; la première règle correspondante définit la catégorie et ajoute ses étiquettes. Elles s'exécutent lorsque vous ajoutez ou importez des transactions.",
+          runOnUncategorized: "Appliquer aux non catégorisées",
+          add: "Ajouter une règle",
+          edit: "Modifier la règle",
+          update: "Mettre à jour la règle",
+          empty:
+            "Aucune règle pour l'instant. Ajoutez-en une pour catégoriser automatiquement vos transactions.",
+          order: "Ordre",
+          rule: "Règle",
+          applies: "Applique",
+          active: "Active",
+          preview: "Aperçu",
+          summary: "{{field}} {{condition}} « {{pattern}} »",
+          matches: "correspond à",
+          deleteTitle: "Supprimer la règle ?",
+          deleteDescription:
+            "Les transactions déjà catégorisées conservent leur catégorie et leurs étiquettes.",
+          loadError: "Impossible de charger les règles. Veuillez réessayer.",
+          reorderError: "Impossible de réorganiser les règles",
+          updateError: "Impossible de mettre à jour la règle",
+          deleteError: "Impossible de supprimer la règle",
+          saveError: "Impossible d'enregistrer la règle. Veuillez réessayer.",
+          fields: {
+            description: "Description",
+            notes: "Notes",
+          },
+          conditions: {
+            contains: "contient",
+            starts_with: "commence par",
+            equals: "est égal à",
+            regex: "correspond à l'expression régulière",
+          },
+          form: {
+            name: "Nom de la règle",
+            namePlaceholder: "ex. : Supermarché",
+            when: "Quand",
+            condition: "Condition",
+            text: "Texte",
+            patternPlaceholder: "ex. : CARREFOUR",
+            caseHelp: "La correspondance ignore les majuscules et minuscules.",
+            transactionType: "Type de transaction",
+            any: "Tous",
+            setCategory: "Définir la catégorie",
+            dontChange: "Ne pas modifier",
+            addTags: "Ajouter des étiquettes",
+            patternRequired: "Un motif de correspondance est obligatoire",
+            invalidRegex: "Le motif n'est pas une expression régulière valide",
+            actionRequired:
+              "Choisissez une catégorie ou au moins une étiquette à appliquer",
+          },
+          previewDialog: {
+            title: "Aperçu des règles",
+            description:
+              "Transactions non catégorisées que les règles modifieraient. Rien n'est enregistré avant l'application.",
+            noMatchesRule:
+              "Aucune transaction non catégorisée ne correspond à cette règle.",
+            noMatchesRules:
+              "Aucune transaction non catégorisée ne correspond à vos règles.",
+            rows: "{{count}} ligne",
+            rows_plural: "{{count}} lignes",
+            applying: "Application...",
+            apply: "Appliquer à {{count}} transaction",
+            apply_plural: "Appliquer à {{count}} transactions",
+            applied: "Règles appliquées",
+            appliedDescription:
+              "{{categorized}} transactions catégorisées, {{tagged}} étiquetées",
+            loadError:
+              "Impossible de charger les transactions non catégorisées",
+            applyError: "Impossible d'appliquer les règles de catégorie",
+          },
+        },
+      },
+      tags: {
+        title: "Étiquettes",
+        management: "Gestion des étiquettes",
+        managementDescription:
+          "Gérez vos étiquettes de transaction. Les étiquettes vous aident à organiser et filtrer vos transactions au-delà des catégories.",
+        add: "Ajouter une étiquette",
+        edit: "Modifier l'étiquette",
+        create: "Créer l'étiquette",
+        update: "Mettre à jour l'étiquette",
+        search: "Rechercher des étiquettes...",
+        noMatches: "Aucune étiquette ne correspond à « {{query}} »",
+        empty: "Aucune étiquette trouvée.",
+        createFirst: "Créez votre première étiquette",
+        toOrganize: "pour organiser vos transactions !",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer cette étiquette ? Cette action est irréversible.",
+        none: "Aucune étiquette",
+        select: "Choisir des étiquettes...",
+        loading: "Chargement des étiquettes...",
+        notFound: "Aucune étiquette trouvée",
+        createNew: "Créer une étiquette",
+        form: {
+          name: "Nom de l'étiquette",
+          namePlaceholder: "ex. : Vacances, Professionnel, Personnel",
+          color: "Couleur de l'étiquette",
+          selectColor: "Choisir la couleur {{color}}",
+          preview: "Aperçu",
+          nameRequired: "Veuillez saisir un nom d'étiquette",
+          colorRequired: "Veuillez choisir une couleur",
+        },
+        loadError: "Impossible de charger les étiquettes",
+        loadOneError: "Impossible de charger l'étiquette",
+        loadTransactionError:
+          "Impossible de charger les étiquettes de la transaction",
+        updateError: "Impossible de mettre à jour les étiquettes",
+        deleteError: "Impossible de supprimer l'étiquette",
+        saveError: "Impossible d'enregistrer l'étiquette",
+      },
+      accounts: {
+        title: "Comptes bancaires",
+        details: "Détails du compte",
+        add: "Ajouter un compte",
+        edit: "Modifier le compte",
+        update: "Mettre à jour le compte",
+        addBankAccount: "Ajouter un compte bancaire",
+        editBankAccount: "Modifier le compte bancaire",
+        deleteAccount: "Supprimer le compte",
+        backToAccounts: "Retour aux comptes",
+        allAccounts: "Tous les comptes",
+        types: {
+          checking: "Compte courant",
+          savings: "Épargne",
+          credit: "Carte de crédit",
+          investment: "Investissement",
+          other: "Autre",
+          asset: "Actif",
+          liability: "Passif",
+        },
+        totalBalance: "Solde total",
+        totalTypeBalance: "Solde total {{type}}",
+        acrossAccounts: "Sur {{count}} compte",
+        acrossAccounts_plural: "Sur {{count}} comptes",
+        yourAccounts: "Vos comptes",
+        yourTypeAccounts: "Vos comptes : {{type}}",
+        empty: "Aucun compte bancaire trouvé.",
+        emptyType: "Aucun compte de type {{type}} trouvé.",
+        addFirst: "Ajoutez votre premier compte",
+        toStartTracking: "pour commencer à suivre vos finances !",
+        default: "Par défaut",
+        setAsDefault: "Définir par défaut",
+        noInstitution: "Aucun établissement",
+        noAccountNumber: "Aucun numéro de compte",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer ce compte bancaire ? Cette action est irréversible. Les transactions associées seront conservées mais ne seront plus liées à un compte.",
+        loadError:
+          "Impossible de charger les comptes bancaires. Veuillez réessayer.",
+        loadOneError:
+          "Impossible de charger les détails du compte. Veuillez réessayer.",
+        notFound: "Compte bancaire introuvable",
+        deleteError: "Impossible de supprimer le compte bancaire",
+        setDefaultError: "Impossible de définir le compte par défaut",
+        saveError: "Impossible d'enregistrer le compte bancaire",
+        form: {
+          name: "Nom du compte *",
+          namePlaceholder: "ex. : Compte courant, Livret d'épargne",
+          type: "Type de compte *",
+          selectType: "Choisir le type de compte",
+          institution: "Établissement financier",
+          institutionPlaceholder: "ex. : BNP Paribas, Crédit Agricole",
+          number: "Numéro de compte (4 derniers chiffres)",
+          numberPlaceholder: "ex. : 1234",
+          openingBalance: "Solde d'ouverture *",
+          openingBalanceHelp:
+            "Le solde avant toute transaction enregistrée ici. Les transactions liées au compte mettent ensuite son solde à jour.",
+          setDefault: "Définir comme compte par défaut",
+          notesPlaceholder: "Ajoutez des notes sur ce compte",
+          nameRequired: "Veuillez saisir un nom de compte",
+          invalidBalance: "Veuillez saisir un solde valide",
+        },
+        reconcile: "Rapprocher",
+        setBalance: "Définir le solde",
+        setBalanceDescription:
+          "Saisissez le solde indiqué par votre banque. S'il ne correspond pas à vos transactions, l'écart s'affiche sur cette page.",
+        balance: "Solde",
+        saveBalance: "Enregistrer le solde",
+        balanceMismatch: "Le solde diffère du registre",
+        balanceMore:
+          "Le nouveau solde dépasse de {{amount}} le total de vos transactions.",
+        balanceLess:
+          "Le nouveau solde est inférieur de {{amount}} au total de vos transactions.",
+        balanceUpdated: "Solde mis à jour",
+        balanceMatches: "Le solde correspond au registre.",
+        balanceError: "Impossible de mettre à jour le solde",
+        discrepancyMore:
+          "Le solde actuel dépasse de {{amount}} le solde d'ouverture plus les transactions ({{ledger}}). Une transaction manque peut-être ou a été saisie deux fois.",
+        discrepancyLess:
+          "Le solde actuel est inférieur de {{amount}} au solde d'ouverture plus les transactions ({{ledger}}). Une transaction manque peut-être ou a été saisie deux fois.",
+        useLedgerBalance: "Utiliser le solde du registre",
+        keepBalance: "Garder le solde, ajuster l'ouverture",
+        currentBalance: "Solde actuel",
+        accountType: "Type de compte",
+        lastUpdated: "Dernière mise à jour",
+        additionalDetails: "Informations complémentaires",
+        openingBalance: "Solde d'ouverture",
+        createdOn: "Créé le",
+        recentTransactions: "Transactions récentes",
+        noTransactions: "Aucune transaction liée à ce compte pour l'instant.",
+        items: {
+          tab: "Actifs et passifs",
+          title: "Autres actifs et passifs",
+          total: "Actifs moins passifs",
+          totalHelp:
+            "Pris en compte dans votre patrimoine net avec vos comptes bancaires",
+          empty:
+            "Suivez ici une maison, une voiture ou un prêt pour les inclure dans votre patrimoine net.",
+          add: "Ajouter un élément",
+          edit: "Modifier l'élément",
+          update: "Mettre à jour l'élément",
+          loadError: "Impossible de charger les actifs et passifs",
+          saveError: "Impossible d'enregistrer l'élément",
+          deleteError: "Impossible de supprimer l'élément",
+          deleteConfirm:
+            "Voulez-vous vraiment supprimer cet élément ? Ses valeurs passées restent dans l'historique de votre patrimoine net.",
+          form: {
+            name: "Nom",
+            namePlaceholder: "ex. Maison, Prêt auto",
+            type: "Type",
+            value: "Valeur",
+            assetValueHelp: "Ce qu'il vaut aujourd'hui",
+            liabilityValueHelp: "Ce qui reste dû",
+            nameRequired: "Le nom est obligatoire",
+            invalidValue: "Veuillez saisir une valeur positive ou nulle",
+          },
+        },
+        reconciliation: {
+          pageTitle: "Rapprocher le compte",
+          title: "Rapprochement bancaire",
+          description:
+            "Cochez les transactions de votre relevé. Lorsque le solde rapproché correspond au solde de clôture, terminer verrouille la période.",
+          history: "Historique des rapprochements",
+          intro:
+            "Saisissez la date de fin et le solde de clôture de votre relevé, puis cochez les transactions qui y figurent.",
+          statementDate: "Date de fin du relevé",
+          closingBalance: "Solde de clôture",
+          closingBalanceRequired:
+            "Veuillez saisir le solde de clôture de votre relevé.",
+          start: "Commencer le rapprochement",
+          starting: "Démarrage...",
+          statementBalance: "Solde du relevé ({{date}})",
+          clearedBalance: "Solde rapproché",
+          difference: "Écart",
+          noEntries:
+            "Aucune transaction non rapprochée jusqu'à la date du relevé.",
+          cancel: "Annuler le rapprochement",
+          balanced: "Équilibré",
+          tickUntilZero:
+            "Cochez des transactions jusqu'à ce que l'écart soit nul",
+          finish: "Terminer et verrouiller",
+          finishing: "Finalisation...",
+          loadError:
+            "Impossible de charger le rapprochement. Veuillez réessayer.",
+          startError:
+            "Impossible de commencer le rapprochement. Veuillez réessayer.",
+          clearError: "Impossible de mettre à jour la transaction",
+          reconciled: "Relevé rapproché",
+          locked:
+            "Les transactions jusqu'au {{date}} sont désormais verrouillées",
+          finishError: "Impossible de terminer le rapprochement",
+          cancelError: "Impossible d'annuler le rapprochement",
+          historyError:
+            "Impossible de charger l'historique des rapprochements.",
+          undoError: "Impossible d'annuler le rapprochement",
+          undone: "Rapprochement annulé",
+          undoneDescription:
+            "Ses transactions sont déverrouillées et marquées comme rapprochées",
+          never: "Ce compte n'a pas encore été rapproché.",
+          transactions: "Transactions",
+          completed: "Terminé",
+          inProgress: "En cours",
+          undo: "Annuler",
+          undoTitle: "Annuler le rapprochement ?",
+          undoDescription:
+            "Les transactions de ce relevé sont déverrouillées et repassent à l'état rapproché, pour pouvoir être modifiées.",
+        },
+      },
+      analytics: {
+        title: "Analyses financières",
+        dateRange: "Période",
+        ranges: {
+          thisMonth: "Ce mois-ci",
+          lastMonth: "Le mois dernier",
+          thisQuarter: "Ce trimestre",
+          thisYear: "Cette année",
+          lastYear: "L'année dernière",
+        },
+        apply: "Appliquer",
+        expenseCategories: "Catégories de dépenses",
+        incomeVsExpenses: "Revenus et dépenses",
+        spendingTrends: "Tendances des dépenses",
+        savingsRate: "Taux d'épargne",
+        cashFlowForecast: "Prévision de trésorerie",
+        netWorthOverTime: "Évolution du patrimoine net",
+        budgetComparison: "Comparaison des budgets",
+        expensesByCategory: "Dépenses par catégorie",
+        budgetVsActual: "Budget et dépenses réelles",
+        monthlyTrend: "Tendance des dépenses (mensuelle)",
+        dailyTrend: "Tendance des dépenses (quotidienne)",
+        savingsRateTrend: "Évolution du taux d'épargne",
+        budget: "Budget",
+        actual: "Réel",
+        amount: "Montant",
+        income: "Revenus",
+        expenses: "Dépenses",
+        savings: "Épargne",
+        valueLine: "{{label}} : {{value}}",
+        net: "Net",
+        overBudgetBy: "Budget dépassé de {{amount}}",
+        underBudgetBy: "{{amount}} sous le budget",
+        averageSavingsRate: "Taux d'épargne moyen : {{rate}} %",
+        good: "Bon",
+        minimum: "Minimum",
+        goodRange: "Bon : ≥20 %",
+        fairRange: "Moyen : 0-20 %",
+        poorRange: "Faible : <0 %",
+        uncategorized: "Sans catégorie",
+        noBudgetData:
+          "Aucune donnée de budget. Créez des budgets pour les comparer.",
+        noExpenseData: "Aucune dépense pour la période sélectionnée.",
+        noTransactionData: "Aucune transaction pour la période sélectionnée.",
+        forecast: {
+          days: "{{count}} jours",
+          payingAccount: "Factures payées depuis",
+          lowPoint: "Point bas : {{amount}} le {{date}}",
+          shortfall: "Sous zéro à partir du {{date}}",
+          noShortfall: "Aucun découvert",
+          discretionaryNote:
+            "Inclut environ {{amount}} par jour de dépenses courantes sur {{account}}, d'après les trois derniers mois.",
+          noAccounts:
+            "Ajoutez un compte bancaire pour voir une prévision de trésorerie.",
+        },
+        netWorth: {
+          netWorth: "Patrimoine net",
+          assets: "Actifs",
+          liabilities: "Passifs",
+          accountType: "Type de compte",
+          monthOverMonth: "Variation sur un mois",
+          sinceLastMonth: "{{amount}} depuis le mois dernier",
+          noData:
+            "Ajoutez des comptes bancaires, des actifs ou des passifs pour suivre votre patrimoine net.",
+        },
+        errors: {
+          budgetComparison: "Impossible de charger la comparaison des budgets",
+          forecast: "Impossible de charger la prévision de trésorerie",
+          netWorth: "Impossible de charger le patrimoine net",
+          expenseCategories: "Impossible de charger les dépenses par catégorie",
+          incomeVsExpenses: "Impossible de charger les revenus et dépenses",
+          savingsRate: "Impossible de charger le taux d'épargne",
+          spendingTrend: "Impossible de charger la tendance des dépenses",
+        },
+      },
+      groups: {
+        title: "Groupes",
+        create: "Créer un groupe",
+        edit: "Modifier le groupe",
+        name: "Nom du groupe",
+        namePlaceholder: "Saisissez le nom du groupe",
+        descriptionPlaceholder: "À quoi sert ce groupe ?",
+        creating: "Création...",
+        inactive: "Inactif",
+        noDescription: "Aucune description",
+        memberCount: "{{count}} membre",
+        memberCount_plural: "{{count}} membres",
+        view: "Voir le groupe",
+        deleteTitle: "Supprimer le groupe ?",
+        deleteConfirm:
+          "Voulez-vous vraiment supprimer ce groupe ? Cette action est irréversible.",
+        roles: {
+          owner: "Propriétaire",
+          admin: "Administrateur",
+          member: "Membre",
+          viewer: "Lecteur",
+        },
+        roleDescriptions: {
+          admin: "Peut gérer les paramètres et les membres du groupe",
+          member: "Peut ajouter des transactions et voir toutes les données",
+          viewer: "Peut uniquement consulter les données du groupe",
+        },
+        familyRoles: {
+          parent: "Parent",
+          child: "Enfant",
+          guardian: "Tuteur",
+          other: "Autre",
+        },
+        familyRoleDescriptions: {
+          parent:
+            "Accès complet aux finances familiales et aux comptes des enfants",
+          child: "Accès limité selon les réglages des parents",
+          guardian: "Comme un parent, avec quelques restrictions",
+          other: "Rôle personnalisé avec des droits spécifiques",
+        },
+        errors: {
+          loginToCreate: "Vous devez être connecté pour créer un groupe",
+          loginToEdit: "Vous devez être connecté pour modifier un groupe",
+          createFailed: "Impossible de créer le groupe : {{message}}",
+          tryAgain: "Veuillez réessayer.",
+          loadFailed: "Impossible de charger le groupe",
+          updateFailed: "Impossible de mettre à jour le groupe",
+          deleteFailed: "Impossible de supprimer le groupe",
+        },
+        invitations: {
+          invitedBy: "Invité par : {{name}}",
+          expiresOn: "Expire le : {{date}}",
+          accept: "Accepter",
+          decline: "Refuser",
+          acceptFailed:
+            "Impossible d'accepter l'invitation. Veuillez réessayer.",
+          rejectFailed:
+            "Impossible de refuser l'invitation. Veuillez réessayer.",
+        },
+        invite: {
+          title: "Inviter un membre",
+          description: "Invitez quelqu'un à rejoindre ce groupe de budget",
+          email: "E-mail",
+          emailPlaceholder: "Saisissez une adresse e-mail",
+          role: "Rôle",
+          selectRole: "Choisir un rôle",
+          isFamily: "C'est un membre de la famille",
+          familyRole: "Rôle familial",
+          selectFamilyRole: "Choisir un rôle familial",
+          success: "Invitation envoyée !",
+          sentTo: "Une invitation a été envoyée à :",
+          expiryNote:
+            "L'utilisateur verra aussi l'invitation à sa connexion. L'invitation expire dans 7 jours.",
+          failed: "Impossible d'envoyer l'invitation. Veuillez réessayer.",
+          sending: "Envoi...",
+          send: "Envoyer l'invitation",
+        },
+        activity: {
+          title: "Fil d'activité",
+          description: "Activité récente du groupe",
+          empty: "Aucune activité pour l'instant",
+          unknownUser: "Utilisateur inconnu",
+          types: {
+            income: "revenu",
+            expense: "dépense",
+            transaction: "transaction",
+          },
+          transactionCreated:
+            "{{user}} a ajouté une transaction ({{type}}) de {{amount}}",
+          transactionUpdated:
+            "{{user}} a modifié une transaction ({{type}}) de {{amount}}",
+          transactionDeleted:
+            "{{user}} a supprimé une transaction ({{type}}) de {{amount}}",
+          transactionApproved:
+            "{{user}} a approuvé une transaction ({{type}}) de {{amount}}",
+          transactionRejected:
+            "{{user}} a refusé une transaction ({{type}}) de {{amount}}",
+          withComment: "{{message}} : « {{comment}} »",
+          budgetCreated: "{{user}} a créé le budget « {{name}} » de {{amount}}",
+          budgetUpdated:
+            "{{user}} a modifié le budget « {{name}} » à {{amount}}",
+          budgetDeleted: "{{user}} a supprimé le budget « {{name}} »",
+          memberAdded: "{{user}} a ajouté un membre avec le rôle {{role}}",
+          memberUpdated: "{{user}} a changé le rôle d'un membre en {{role}}",
+          memberRemoved: "{{user}} a retiré un membre du groupe",
+          generic: "{{user}} a effectué l'action « {{action}} » sur {{entity}}",
+          item: "élément",
+          invitationCreated: "{{user}} a invité {{email}} en tant que {{role}}",
+          invitationUpdated: "{{user}} a modifié l'invitation de {{email}}",
+          invitationDeleted: "{{user}} a annulé l'invitation de {{email}}",
+          invitationAccepted: "{{user}} a accepté l'invitation",
+          invitationRejected: "{{user}} a refusé l'invitation",
+          invitationExpired: "L'invitation de {{email}} a expiré",
+          categoryShared: '{{user}} a partagé la catégorie "{{name}}"',
+          categoryUnshared: '{{user}} ne partage plus la catégorie "{{name}}"',
+          budgetShared: '{{user}} a partagé le budget "{{name}}"',
+          budgetUnshared: '{{user}} ne partage plus le budget "{{name}}"',
+          groupCreated: '{{user}} a créé le groupe "{{name}}"',
+          change: "{{field}} : {{before}} → {{after}}",
+          noValue: "aucun",
+          fields: {
+            description: "Description",
+            name: "Nom",
+            amount: "Montant",
+            type: "Type",
+            date: "Date",
+            period: "Période",
+            start_date: "Date de début",
+            end_date: "Date de fin",
+            status: "Statut",
+            payment_method: "Moyen de paiement",
+            split_method: "Partage",
+            role: "Rôle",
+            family_role: "Rôle familial",
+            notes: "Notes",
+          },
+          entityTypes: {
+            transaction: "Transactions",
+            budget: "Budgets",
+            member: "Membres",
+            invitation: "Invitations",
+            shared_category: "Catégories partagées",
+            shared_budget: "Budgets partagés",
+            group: "Groupe",
+          },
+          filterMember: "Filtrer par membre",
+          filterType: "Filtrer par type",
+          allMembers: "Tous les membres",
+          allTypes: "Toute l'activité",
+          from: "Du",
+          to: "Au",
+          clearFilters: "Effacer les filtres",
+          filteredEmpty: "Aucune activité ne correspond à ces filtres",
+          loadError: "Échec du chargement de l'activité",
+        },
+        budgets: {
+          title: "Budgets",
+          add: "Ajouter un budget",
+          edit: "Modifier le budget",
+          delete: "Supprimer le budget",
+          empty: "Aucun budget trouvé",
+          emptyHelp:
+            "Créez des budgets pour suivre et gérer les dépenses du groupe par catégorie.",
+          categoryLabel: "Catégorie : {{category}}",
+          createdBy: "Créé par : {{name}}",
+          created: "Budget créé !",
+          deleteConfirm:
+            "Voulez-vous vraiment supprimer le budget « {{name}} » ? Cette action est irréversible.",
+          deleteFailed:
+            "Impossible de supprimer le budget. Veuillez réessayer.",
+          namePlaceholder: "Saisissez le nom du budget",
+          categoryRequired: "Veuillez choisir une catégorie",
+          selectPeriod: "Choisir une période",
+          pickDate: "Choisir une date",
+          noEndDate: "Pas de date de fin",
+          creating: "Création",
+          saving: "Enregistrement",
+        },
+        page: {
+          title: "Groupes de budget",
+          subtitle:
+            "Gérez vos budgets et dépenses partagés avec votre famille et vos amis",
+          myGroups: "Mes groupes",
+          invitations: "Invitations",
+          noGroups: "Aucun groupe",
+          noGroupsDescription:
+            "Vous n'avez encore rejoint aucun groupe de budget",
+          noGroupsHelp:
+            "Créez un groupe pour commencer à gérer des finances partagées",
+          noInvitations: "Aucune invitation",
+          noInvitationsDescription: "Vous n'avez aucune invitation en attente",
+          noInvitationsHelp:
+            "Lorsque quelqu'un vous invite dans son groupe, l'invitation apparaîtra ici",
+          loadFailed: "Impossible de charger les groupes : {{message}}",
+          refreshFailed: "Impossible d'actualiser les groupes : {{message}}",
+          refreshDataFailed:
+            "Impossible d'actualiser les données. Veuillez réessayer.",
+        },
+        members: {
+          title: "Membres",
+          description: "Gérez les membres du groupe et leurs rôles",
+          you: "(Vous)",
+          joined: "Membre depuis le {{date}}",
+          changeRole: "Changer le rôle",
+          changeRoleFor: "Changer le rôle de {{name}}",
+          changeFamilyRole: "Changer le rôle familial",
+          assignFamilyRole: "Attribuer un rôle familial à {{name}}",
+          thisMember: "ce membre",
+          noFamilyRole: "Aucun rôle familial attribué",
+          remove: "Retirer le membre",
+          removing: "Retrait...",
+          removeConfirm: "Voulez-vous vraiment retirer {{name}} de ce groupe ?",
+          changeRoleFailed: "Impossible de changer le rôle : {{message}}",
+          changeFamilyRoleFailed:
+            "Impossible de changer le rôle familial : {{message}}",
+          removeFailed: "Impossible de retirer le membre. Veuillez réessayer.",
+        },
+        settings: {
+          general: "Paramètres généraux",
+          generalDescription:
+            "Gérez les informations et paramètres de base du groupe",
+          description: "Description du groupe",
+          activeStatus: "Statut actif",
+          activeHelp:
+            "Lorsque le groupe est inactif, les membres ne peuvent plus créer de transactions",
+          saved: "Paramètres enregistrés !",
+          updateFailed: "Impossible de mettre à jour le groupe : {{message}}",
+          deleteFailed: "Impossible de supprimer le groupe : {{message}}",
+          confirmNameMismatch:
+            "Saisissez le nom exact du groupe pour confirmer la suppression.",
+          dangerZone: "Zone de danger",
+          dangerDescription: "Actions irréversibles",
+          deleteWarning:
+            "La suppression de ce groupe effacera définitivement toutes ses données, y compris les transactions, budgets et membres.",
+          delete: "Supprimer le groupe",
+          deleteConfirm:
+            "Voulez-vous vraiment supprimer le groupe « {{name}} » ? Cette action est irréversible.",
+          deleteDetails:
+            "Toutes les données du groupe, y compris les transactions, budgets et membres, seront définitivement supprimées. Les membres perdront l'accès aux ressources partagées.",
+          typeToConfirm: "Saisissez le nom du groupe pour confirmer :",
+        },
+        summary: {
+          loadFailed: "Impossible de charger les groupes de budget",
+          recentActivity: "Activité récente",
+        },
+        transactions: {
+          empty: "Aucune transaction trouvée",
+          emptyHelp:
+            "Commencez à suivre les dépenses et revenus du groupe en ajoutant une première transaction.",
+          createdBy: "Créée par",
+          deleteFailed:
+            "Impossible de supprimer la transaction. Veuillez réessayer.",
+          type: "Type de transaction",
+        },
+        splits: {
+          paidBy: "Payé par",
+          paidByName: "Payé par {{name}}",
+          selectMember: "Sélectionnez un membre",
+          split: "Partager entre les membres",
+          splitHelp: "Partagez cette dépense et suivez qui doit quoi",
+          methods: {
+            equal: "Parts égales",
+            percentage: "Par pourcentage",
+            shares: "Par parts",
+            exact: "Montants exacts",
+          },
+          valueLabels: {
+            equal: "Part",
+            percentage: "Pourcentage",
+            shares: "Parts",
+            exact: "Montant",
+          },
+          invalid: {
+            equal: "Sélectionnez au moins un membre",
+            percentage: "Les pourcentages doivent totaliser 100",
+            shares: "Attribuez une part à au moins un membre",
+            exact: "Les montants doivent correspondre au total",
+          },
+        },
+        balances: {
+          title: "Soldes",
+          memberBalances: "Soldes des membres",
+          description: "Selon les dépenses partagées et les remboursements enregistrés",
+          paidAndOwed: "Payé {{paid}} · Part {{owed}}",
+          isOwed: "doit recevoir",
+          owes: "doit",
+          settled: "à jour",
+          suggested: "Paiements suggérés",
+          suggestedHelp: "Le moins de paiements possible pour que tout le monde soit quitte",
+          allSettled: "Tout le monde est quitte",
+          record: "Enregistrer le paiement",
+          history: "Historique des remboursements",
+          noSettlements: "Aucun remboursement enregistré",
+          settleUp: "Régler les comptes",
+          settleUpHelp: "Enregistrez le remboursement d'un membre à un autre",
+          from: "De",
+          to: "À",
+          sameMember: "Choisissez deux membres différents",
+          loadError: "Échec du chargement des soldes",
+          settleError: "Échec de l'enregistrement du paiement",
+          deleteError: "Échec de la suppression du paiement",
+          deleteTitle: "Supprimer le paiement",
+          deleteConfirm:
+            "Êtes-vous sûr de vouloir supprimer ce remboursement ? Les soldes sont recalculés sans lui.",
+        },
+        presence: {
+          viewingNow: "Consultent maintenant",
+          online: "Consulte ce groupe en ce moment",
+          more: "+{{count}}",
+        },
+        permissions: {
+          childLimits: "Limites pour les enfants",
+          childLimitsDescription:
+            "Définissez ce que les membres ayant le rôle familial Enfant peuvent faire dans ce groupe",
+          approvalLimit: "Approbation requise au-delà de",
+          approvalLimitHelp:
+            "Les dépenses des enfants au-delà de ce montant attendent l'approbation d'un parent",
+          noLimit: "Aucune limite",
+          canEditTransactions:
+            "Modifier et supprimer leurs propres transactions",
+          canManageBudgets: "Créer et gérer des budgets",
+          canRecordSettlements: "Enregistrer des règlements",
+        },
+        approvals: {
+          title: "En attente de votre approbation ({{count}})",
+          description:
+            "Ces dépenses comptent dans les totaux, budgets et soldes du groupe une fois approuvées",
+          statusPending: "En attente d'approbation",
+          statusRejected: "Refusée",
+          approve: "Approuver",
+          reject: "Refuser",
+          approveTitle: "Approuver la dépense",
+          rejectTitle: "Refuser la dépense",
+          reviewDescription:
+            "{{name}} a ajouté « {{description}} » de {{amount}}",
+          comment: "Commentaire (facultatif)",
+          commentPlaceholder: "Expliquez pourquoi",
+          submittedBy: "Ajoutée par {{name}}",
+          approved: "Dépense approuvée",
+          rejected: "Dépense refusée",
+          reviewFailed:
+            "Impossible d'enregistrer votre décision. Veuillez réessayer.",
+          willNeedApproval:
+            "Cette dépense attendra une approbation avant de compter dans les totaux et budgets du groupe.",
+          rules: "Approbation des dépenses",
+          rulesDescription:
+            "Choisissez quelles dépenses doivent être approuvées. Les propriétaires et administrateurs approuvent les dépenses des membres ayant un rôle inférieur, et les parents celles de leurs enfants.",
+          role: "Approbation requise pour les dépenses de",
+          roles: {
+            none: "Personne",
+            member: "Membres",
+            admin: "Membres et administrateurs",
+          },
+          amountLimit: "Seulement au-delà de",
+          everyExpense: "Toutes les dépenses",
+          amountLimitHelp:
+            "Laissez vide pour soumettre toutes les dépenses de ces membres à approbation",
+        },
+        detail: {
+          loadFailed:
+            "Impossible de charger les données du groupe. Veuillez réessayer.",
+          notFound: "Groupe introuvable",
+          refreshMembersFailed:
+            "Impossible d'actualiser les membres. Veuillez réessayer.",
+          refreshTransactionsFailed:
+            "Impossible d'actualiser les transactions. Veuillez réessayer.",
+          refreshBudgetsFailed:
+            "Impossible d'actualiser les budgets. Veuillez réessayer.",
+          created: "Créé le {{date}}",
+          balance: "Solde",
+          tabs: {
+            transactionsShort: "Trans",
+            budgetsShort: "Budg",
+            membersShort: "Memb",
+            activity: "Activité",
+            activityShort: "Act",
+            balancesShort: "Sold",
+            settingsShort: "Param",
+          },
+        },
+        dashboard: {
+          title: "Tableau de bord du foyer",
+          personal: "Tableau de bord personnel",
+          noGroups: "Aucun groupe de budget trouvé",
+          noGroupsHelp:
+            "Vous n'avez encore aucun groupe de budget. Créez un groupe pour gérer ensemble les finances du foyer.",
+          createGroup: "Créer un groupe de budget",
+          viewAllGroups: "Voir tous les groupes",
+          selectGroup: "Choisir un groupe",
+          groupSettings: "Paramètres du groupe",
+          overview: "Aperçu",
+          totalIncome: "Revenus totaux",
+          totalExpenses: "Dépenses totales",
+          currentMonth: "Mois en cours",
+          percentOfIncome: "{{percent}} % des revenus",
+          recentTransactions: "Transactions récentes",
+          budgetProgress: "Progression des budgets",
+          groupMembers: "Membres du groupe",
+          groupTransactions: "Transactions du groupe",
+          groupBudgets: "Budgets du groupe",
+          loadGroupsFailed: "Impossible de charger les groupes de budget",
+          loadFailed: "Impossible de charger les données du groupe",
+        },
+        invitation: {
+          title: "Vous êtes invité à rejoindre un groupe !",
+          notFoundOrExpired: "Invitation introuvable ou expirée.",
+          notFound: "Invitation introuvable.",
+          defaultGroupName: "Groupe de budget",
+          unknownError: "Erreur inconnue",
+          acceptFailed: "Impossible d'accepter l'invitation",
+          backHome: "Retour à l'accueil",
+          joinPrefix: "Acceptez cette invitation pour rejoindre",
+          joinSuffix: ".",
+          joinAs: "en tant que",
+          status: "Statut :",
+          statuses: {
+            pending: "En attente",
+            accepted: "Acceptée",
+            expired: "Expirée",
+          },
+          acceptedRedirecting:
+            "Invitation acceptée ! Redirection vers votre groupe…",
+          accept: "Accepter l'invitation",
+          redirecting: "Acceptée ! Redirection…",
+        },
+      },
+      notifications: {
+        billDue: {
+          title: "Facture bientôt due",
+          message: "{{name}} ({{amount}}) est à payer le {{date}}.",
+        },
+        budgetAlert: {
+          title: "{{name}} atteint {{percent}} %",
+          exceededTitle: "{{name}} dépasse le budget",
+          message:
+            "Vous avez dépensé {{spent}} sur {{available}} en {{category}} sur cette période.",
+        },
+        goalProgress: {
+          title: "Étape franchie",
+          message: "{{name}} est financé à {{percent}} %.",
+          achievedTitle: "Objectif atteint",
+          achievedMessage:
+            "Vous avez atteint votre objectif de {{amount}} pour {{name}}.",
+        },
+        groupInvitation: {
+          title: "Nouvelle invitation de groupe",
+          message:
+            "Vous êtes invité à rejoindre {{group}} en tant que {{role}}.",
+        },
+      },
+      toast: {
+        itemCreated: "{{item}} : création réussie",
+        itemUpdated: "{{item}} : modification enregistrée",
+        itemDeleted: "{{item}} : suppression effectuée",
+        somethingWentWrong: "Une erreur s'est produite",
+        items: {
+          transaction: "Transaction",
+          transfer: "Virement",
+          recurringTransaction: "Transaction récurrente",
+          budget: "Budget",
+          goal: "Objectif",
+          contribution: "Contribution",
+          bill: "Facture",
+          payment: "Paiement",
+          subscription: "Abonnement",
+          settlement: "Remboursement",
+          bankAccount: "Compte bancaire",
+          netWorthItem: "Élément",
+          debt: "Dette",
+          category: "Catégorie",
+          tag: "Étiquette",
+          rule: "Règle",
+        },
+      },
+      errors: {
+        notFound: {
+          title: "Page introuvable",
+          description:
+            "La page que vous cherchez n'existe pas ou a été déplacée.",
+          goHome: "Retour à l'accueil",
+        },
+        boundary: {
+          title: "Une erreur s'est produite",
+          description:
+            "Désolé, une erreur s'est produite lors de l'affichage de ce composant. Actualisez la page ou réessayez.",
+          stackTrace: "Trace de la pile",
+          tryAgain: "Réessayer",
+        },
+      },
+    },
+  },
+  de: {
+    translation: {
+      common: {
+        save: "Speichern",
+        saving: "Speichern...",
+        saveChanges: "Änderungen speichern",
+        cancel: "Abbrechen",
+        delete: "Löschen",
+        deleting: "Löschen...",
+        edit: "Bearbeiten",
+        add: "Hinzufügen",
+        create: "Erstellen",
+        update: "Aktualisieren",
+        close: "Schließen",
+        back: "Zurück",
+        goBack: "Zurück",
+        actions: "Aktionen",
+        loading: "Wird geladen...",
+        retry: "Erneut versuchen",
+        none: "Keine",
+        all: "Alle",
+        name: "Name",
+        description: "Beschreibung",
+        amount: "Betrag",
+        date: "Datum",
+        category: "Kategorie",
+        account: "Konto",
+        currency: "Währung",
+        notes: "Notizen",
+        status: "Status",
+        type: "Typ",
+        color: "Farbe",
+        icon: "Symbol",
+        startDate: "Startdatum",
+        endDate: "Enddatum",
+        optional: "Optional",
+        selectCategory: "Kategorie auswählen",
+        selectAccount: "Konto auswählen",
+        selectCurrency: "Währung auswählen",
+        noCategory: "Keine Kategorie",
+        noAccount: "Kein Konto",
+        expense: "Ausgabe",
+        income: "Einnahme",
+        transfer: "Umbuchung",
+        search: "Suchen...",
+        viewAll: "Alle anzeigen",
+        viewDetails: "Details anzeigen",
+        unexpectedError: "Ein unerwarteter Fehler ist aufgetreten",
+        error: "Fehler",
+        success: "Erfolg",
+        yes: "Ja",
+        no: "Nein",
+        of: "{{value}} von {{total}}",
+        daily: "Täglich",
+        weekly: "Wöchentlich",
+        biweekly: "Zweiwöchentlich",
+        monthly: "Monatlich",
+        quarterly: "Vierteljährlich",
+        yearly: "Jährlich",
+        transactionCount: "{{count}} Transaktion",
+        transactionCount_plural: "{{count}} Transaktionen",
+        dayCount: "{{count}} Tag",
+        dayCount_plural: "{{count}} Tage",
+        invalidAmount: "Bitte geben Sie einen gültigen Betrag ein",
+        loadCategoriesError: "Kategorien konnten nicht geladen werden",
+        loadAccountsError: "Bankkonten konnten nicht geladen werden",
+        confirmDeletion: "Löschen bestätigen",
+        custom: "Benutzerdefiniert",
+        ongoing: "Laufend",
+      },
+      nav: {
+        appName: "Budget Tracker",
+        version: "Version {{version}}",
+        dashboard: "Dashboard",
+        transactions: "Transaktionen",
+        expenses: "Ausgaben",
+        income: "Einnahmen",
+        categories: "Kategorien",
+        budgets: "Budgets",
+        accounts: "Konten",
+        groups: "Gruppen",
+        tags: "Tags",
+        goals: "Ziele",
+        analytics: "Analysen",
+        bills: "Rechnungen",
+        debts: "Schulden",
+        settings: "Einstellungen",
+        profile: "Profil",
+        search: "Suchen",
+        searchPlaceholder: "Transaktionen, Kategorien und Tags suchen...",
+        help: "Hilfe",
+        keyboardShortcuts: "Tastenkürzel",
+        lightMode: "Heller Modus",
+        darkMode: "Dunkler Modus",
+        logout: "Abmelden",
+        login: "Anmelden",
+        user: "Benutzer",
+        quickAdd: "Schnell hinzufügen",
+        newExpense: "Neue Ausgabe",
+        newIncome: "Neue Einnahme",
+        newBudget: "Neues Budget",
+        newGoal: "Neues Ziel",
+        newTag: "Neuer Tag",
+        copyright: "© {{year}} Budget Tracker. Alle Rechte vorbehalten.",
+        privacyPolicy: "Datenschutzerklärung",
+        termsOfService: "Nutzungsbedingungen",
+        contact: "Kontakt",
+        helpSupport: "Hilfe & Support",
+        theme: "Design",
+        systemMode: "Systemmodus",
+        helpModal: {
+          title: "Hilfe & Tastenkürzel",
+          shortcuts: "Tastenkürzel",
+          navigation: "Navigation",
+          actions: "Aktionen",
+          goTo: "Zu {{page}}",
+          newTransaction: "Neue Transaktion",
+          gettingStarted: "Erste Schritte",
+          step1Title: "1. Transaktionen erfassen",
+          step1Text:
+            "Erfassen Sie zuerst Einnahmen und Ausgaben im Bereich Transaktionen. Sie können sie kategorisieren und mit Tags versehen.",
+          step2Title: "2. Budgets erstellen",
+          step2Text:
+            "Legen Sie Monatsbudgets für Kategorien an, um Ausgaben zu steuern und Ihre Ziele zu erreichen.",
+          step3Title: "3. Finanzziele setzen",
+          step3Text:
+            "Definieren Sie Ziele wie Urlaub, Auto oder Notgroschen. Verfolgen Sie den Fortschritt und zahlen Sie regelmäßig ein.",
+          step4Title: "4. Rechnungen & Abos verwalten",
+          step4Text:
+            "Behalten Sie wiederkehrende Rechnungen und Abos im Blick, um verspätete Zahlungen zu vermeiden.",
+          tipsTitle: "Tipps & Tricks",
+          tip1: "Nutzen Sie Tags für detailliertere Auswertungen Ihrer Transaktionen.",
+          tip2: "Prüfen Sie Ihr Ausgabeverhalten im Dashboard, um Sparpotenzial zu finden.",
+          tip3: "Planen Sie realistische Budgets auf Basis Ihrer bisherigen Ausgaben.",
+          tip4: "Zahlen Sie regelmäßig auf Ihre Ziele ein, auch kleine Beträge.",
+          tip5: "Nutzen Sie die mobile Ansicht, um Ausgaben unterwegs zu erfassen.",
+          gotIt: "Verstanden",
+        },
+        welcome: {
+          title: "Willkommen bei Budget Tracker",
+          greeting:
+            "Willkommen, {{name}}! Wir helfen Ihnen gern bei Ihren Finanzen.",
+          greetingNoName:
+            "Willkommen! Wir helfen Ihnen gern bei Ihren Finanzen.",
+          tour: "Eine kurze Tour für den Einstieg.",
+          transactionsTitle: "Transaktionen erfassen",
+          transactionsText:
+            "Erfassen Sie Einnahmen und Ausgaben und behalten Sie Ihr Ausgabeverhalten im Blick.",
+          proTip: "Profi-Tipp",
+          shortcutPrefix: "Drücken Sie",
+          shortcutSuffix: ", um schnell eine Transaktion hinzuzufügen.",
+          budgetsTitle: "Budgets und Ziele festlegen",
+          budgetsText: "Planen Sie Ihre Finanzen mit Budgets und Zielen.",
+          budgets: "Budgets",
+          budgetsHelp:
+            "Erstellen Sie Monatsbudgets, um Ausgaben je Kategorie zu steuern.",
+          savingsGoals: "Sparziele",
+          savingsGoalsHelp:
+            "Setzen Sie Sparziele und verfolgen Sie Ihren Fortschritt.",
+          doneTitle: "Alles bereit!",
+          doneText:
+            "Sie sind bereit, Ihre Finanzen mit Budget Tracker in den Griff zu bekommen.",
+          reminder:
+            "Aktualisieren Sie Ihre Transaktionen regelmäßig für ein genaues Bild Ihrer Finanzen.",
+          begin: "Klicken Sie auf „Los geht's“, um zu beginnen!",
+          back: "Zurück",
+          skip: "Überspringen",
+          next: "Weiter",
+          getStarted: "Los geht's",
+        },
+        notifications: {
+          title: "Benachrichtigungen",
+          markAllRead: "Alle als gelesen markieren",
+          clear: "Leeren",
+          empty: "Keine Benachrichtigungen",
+          dismiss: "Schließen",
+        },
+      },
+      auth: {
+        email: "E-Mail-Adresse",
+        password: "Passwort",
+        fullName: "Vollständiger Name",
+        confirmPassword: "Passwort bestätigen",
+        signIn: "Anmelden",
+        unexpectedError:
+          "Ein unerwarteter Fehler ist aufgetreten. Bitte versuchen Sie es erneut.",
+        login: {
+          title: "Willkommen zurück",
+          description: "Melden Sie sich bei Ihrem Konto an",
+          forgotPassword: "Passwort vergessen?",
+          signingIn: "Anmeldung...",
+          noAccount: "Noch kein Konto?",
+          register: "Registrieren",
+        },
+        register: {
+          title: "Konto erstellen",
+          description: "Registrieren Sie sich, um Ihre Finanzen zu verfolgen",
+          passwordHint: "Das Passwort muss mindestens 8 Zeichen lang sein",
+          passwordsMismatch: "Die Passwörter stimmen nicht überein",
+          submit: "Konto erstellen",
+          submitting: "Konto wird erstellt...",
+          haveAccount: "Sie haben bereits ein Konto?",
+          success: "Registrierung erfolgreich!",
+          successDescription:
+            "Bitte prüfen Sie Ihre E-Mails, um Ihr Konto zu bestätigen. Sie werden gleich zur Anmeldeseite weitergeleitet.",
+          goToLogin: "Zur Anmeldeseite",
+        },
+        reset: {
+          title: "Passwort zurücksetzen",
+          description:
+            "Geben Sie Ihre E-Mail-Adresse ein, um einen Link zum Zurücksetzen zu erhalten",
+          submit: "Link senden",
+          submitting: "Wird gesendet...",
+          remember: "Passwort wieder eingefallen?",
+          checkEmail: "Prüfen Sie Ihre E-Mails",
+          sent: "Wir haben einen Link zum Zurücksetzen an {{email}} gesendet. Bitte prüfen Sie Ihren Posteingang und folgen Sie den Anweisungen.",
+          returnToLogin: "Zurück zur Anmeldung",
+        },
+        landing: {
+          tagline:
+            "Behalten Sie Ihre Finanzen im Griff – mit leistungsstarken Werkzeugen für Budgets und Ausgaben.",
+          trackTitle: "Ausgaben verfolgen",
+          trackText:
+            "Erfassen und kategorisieren Sie Ihre Ausgaben und sehen Sie, wohin Ihr Geld fließt.",
+          budgetsTitle: "Budgets festlegen",
+          budgetsText:
+            "Erstellen Sie Budgets für verschiedene Kategorien und verfolgen Sie Ihren Fortschritt.",
+          visualizeTitle: "Finanzen visualisieren",
+          visualizeText:
+            "Gewinnen Sie Einblicke mit Diagrammen und Berichten für bessere finanzielle Entscheidungen.",
+          goalsTitle: "Ziele erreichen",
+          goalsText:
+            "Setzen Sie sich finanzielle Ziele und verfolgen Sie Ihren Fortschritt.",
+        },
+      },
+      settings: {
+        title: "Einstellungen",
+        description: "Verwalte deine Kontoeinstellungen und Präferenzen",
+        new: "Neu",
+        helpSupport: "Hilfe & Support",
+        tabs: {
+          profile: "Profil",
+          password: "Passwort",
+          preferences: "Präferenzen",
+          notifications: "Benachrichtigungen",
+          currency: "Währung",
+          theme: "Design",
+          language: "Sprache",
+          data: "Daten",
+          account: "Konto",
+        },
+        tabDescriptions: {
+          profile: "Verwalte deine persönlichen Daten und Profileinstellungen",
+          password: "Ändere dein Passwort und deine Sicherheitseinstellungen",
+          preferences: "Passe die App und deine Standardeinstellungen an",
+          notifications:
+            "Lege fest, wie und wann du Benachrichtigungen erhältst",
+          currency: "Lege deine bevorzugte Währung und Formatoptionen fest",
+          theme: "Wähle dein Design und deine Darstellungseinstellungen",
+          language: "Wähle die Sprache der Anwendung",
+          data: "Exportiere deine Daten oder stelle eine Sicherung wieder her",
+          account: "Verwalte die Kontosicherheit und verbundene Dienste",
+          default: "Verwalte deine Einstellungen und Präferenzen",
+        },
+        connected: {
+          title: "Verbundene Dienste",
+          description: "Verwalte deine verbundenen Konten und Dienste",
+          banking: "Bankanbindung",
+          bankingDescription:
+            "Verbinde deine Bankkonten für den automatischen Import von Transaktionen",
+          connect: "Verbinden",
+          twoFactor: "Zwei-Faktor-Authentifizierung",
+          twoFactorDescription:
+            "Füge deinem Konto eine zusätzliche Sicherheitsebene hinzu",
+          setup: "Einrichten",
+          sync: "Datensynchronisierung",
+          lastSynced: "Vor 5 Minuten synchronisiert",
+          syncNow: "Jetzt synchronisieren",
+        },
+        profile: {
+          title: "Profilinformationen",
+          description: "Aktualisiere deine persönlichen Daten",
+          email: "E-Mail",
+          emailLocked: "Die E-Mail kann hier nicht geändert werden",
+          emailHelp: "Ändere deine E-Mail in den Kontoeinstellungen",
+          fullName: "Vollständiger Name",
+          avatarUrl: "Avatar-URL",
+          avatarHelp: "Gib die URL eines Bildes für dein Profilbild ein",
+          avatarPreview: "Avatar-Vorschau",
+          avatarError: "Bild konnte nicht geladen werden. Bitte prüfe die URL.",
+          updated: "Profil aktualisiert",
+          updatedMessage: "Deine Profilinformationen wurden aktualisiert.",
+          updateFailed: "Profilaktualisierung fehlgeschlagen",
+          unexpectedError:
+            "Beim Aktualisieren deines Profils ist ein unerwarteter Fehler aufgetreten.",
+        },
+        password: {
+          title: "Passwort ändern",
+          description: "Ändere das Passwort deines Kontos",
+          current: "Aktuelles Passwort",
+          new: "Neues Passwort",
+          confirm: "Neues Passwort bestätigen",
+          lengthHelp: "Das Passwort muss mindestens 8 Zeichen lang sein",
+          submit: "Passwort aktualisieren",
+          updating: "Wird aktualisiert...",
+          mismatch: "Passwörter stimmen nicht überein",
+          mismatchMessage:
+            "Die neuen Passwörter stimmen nicht überein. Bitte gib in beiden Feldern dasselbe Passwort ein.",
+          invalid: "Ungültiges Passwort",
+          invalidMessage: "Das Passwort muss mindestens 8 Zeichen lang sein.",
+          updated: "Passwort aktualisiert",
+          updatedMessage: "Dein Passwort wurde aktualisiert.",
+          updateFailed: "Passwortaktualisierung fehlgeschlagen",
+          unexpectedError:
+            "Beim Aktualisieren deines Passworts ist ein unerwarteter Fehler aufgetreten.",
+        },
+        preferences: {
+          title: "Benutzereinstellungen",
+          description: "Passe deine Anwendungseinstellungen an",
+          currencyHelp: "Sie wird für die Anzeige aller Geldbeträge verwendet",
+          selectTheme: "Design auswählen",
+          enableNotifications: "Benachrichtigungen aktivieren",
+          submit: "Einstellungen speichern",
+          updated: "Einstellungen aktualisiert",
+        },
+        notifications: {
+          title: "Benachrichtigungseinstellungen",
+          description: "Verwalte, wie du Benachrichtigungen erhältst",
+          enableAll: "Alle Benachrichtigungen aktivieren",
+          types: "Benachrichtigungsarten",
+          billDue: "Erinnerungen an fällige Rechnungen",
+          billDueDescription:
+            "Werde benachrichtigt, wenn Rechnungen fällig sind",
+          budgetAlert: "Budgetwarnungen",
+          budgetAlertDescription:
+            "Werde benachrichtigt, wenn du kurz davor bist, dein Budget zu überschreiten",
+          goalProgress: "Zielfortschritt",
+          goalProgressDescription:
+            "Werde über den Fortschritt deiner Sparziele informiert",
+          groupInvitation: "Gruppeneinladungen",
+          groupInvitationDescription:
+            "Werde benachrichtigt, wenn du in eine Budgetgruppe eingeladen wirst",
+          transactionAlert: "Transaktionswarnungen",
+          transactionAlertDescription:
+            "Werde über neue Transaktionen benachrichtigt",
+          weeklySummary: "Wöchentliche Zusammenfassung",
+          weeklySummaryDescription:
+            "Erhalte eine wöchentliche Zusammenfassung deiner Finanzen",
+          submit: "Benachrichtigungseinstellungen speichern",
+          updated: "Benachrichtigungseinstellungen aktualisiert",
+        },
+        currency: {
+          title: "Währungseinstellungen",
+          description: "Wähle deine bevorzugte Währung für die Anwendung",
+          select: "Währung auswählen",
+          help: "Deine Basiswährung: Summen, Berichte und Budgets werden mit deinen Wechselkursen darin umgerechnet",
+          preview: "Währungsvorschau",
+          symbol: "Symbol:",
+          code: "Code:",
+          format: "Format:",
+          example: "Beispiel",
+          formattedValue: "Formatierter Wert",
+          positive: "Positiver Betrag",
+          negative: "Negativer Betrag",
+          zero: "Nullbetrag",
+          submit: "Währungseinstellungen speichern",
+          updated: "Währungseinstellungen aktualisiert",
+        },
+        exchangeRates: {
+          title: "Wechselkurse",
+          description:
+            "Berichte und Budgets rechnen andere Währungen mit dem letzten Kurs am oder vor dem Transaktionsdatum in {{currency}} um",
+          rateLabel: "Kurs ({{currency}} pro Einheit)",
+          add: "Kurs hinzufügen",
+          import: "CSV importieren",
+          importHelp:
+            "CSV-Dateien brauchen die Spalten Datum, Währung und Kurs. Eine optionale Spalte base legt die Notierungswährung fest; Standard ist {{currency}}.",
+          empty:
+            "Noch keine Wechselkurse. Beträge in anderen Währungen werden bis zum Hinzufügen eines Kurses unumgerechnet gezählt.",
+          rate: "Kurs",
+          missingColumns: "Die CSV braucht die Spalten Datum, Währung und Kurs",
+          selectCurrencyError: "Bitte wähle eine Währung.",
+          rateError: "Bitte gib einen Kurs größer als null ein.",
+          loadError: "Wechselkurse konnten nicht geladen werden.",
+          saveError:
+            "Der Wechselkurs konnte nicht gespeichert werden. Bitte versuche es erneut.",
+          deleteError: "Wechselkurs konnte nicht gelöscht werden",
+          noRatesFound: "In der Datei wurden keine gültigen Kurse gefunden.",
+          importError:
+            "Wechselkurse konnten nicht importiert werden. Bitte versuche es erneut.",
+          imported: "Wechselkurse importiert",
+          importedCount: "{{count}} Kurs importiert",
+          importedCount_plural: "{{count}} Kurse importiert",
+          skippedCount: "{{count}} Zeile übersprungen",
+          skippedCount_plural: "{{count}} Zeilen übersprungen",
+        },
+        theme: {
+          title: "Designeinstellungen",
+          description: "Passe das Erscheinungsbild der Anwendung an",
+          select: "Design auswählen",
+          light: "Hell",
+          lightDescription:
+            "Heller Modus mit hellem Hintergrund und dunklem Text",
+          dark: "Dunkel",
+          darkDescription:
+            "Dunkler Modus mit dunklem Hintergrund und hellem Text",
+          system: "System",
+          systemDefault: "Systemstandard",
+          systemDescription: "Den Designeinstellungen deines Systems folgen",
+          submit: "Designeinstellungen speichern",
+          updated: "Designeinstellungen aktualisiert",
+        },
+        language: {
+          title: "Spracheinstellungen",
+          description: "Wähle deine bevorzugte Sprache für die Anwendung",
+          select: "Sprache auswählen",
+          help: "Damit änderst du die Sprache in der gesamten Anwendung",
+          preview: "Sprachvorschau",
+          flag: "Flagge:",
+          name: "Name:",
+          native: "Eigenname:",
+          submit: "Spracheinstellungen speichern",
+          updated: "Spracheinstellungen aktualisiert",
+        },
+        deletion: {
+          title: "Konto löschen",
+          description:
+            "Diese Aktion ist endgültig und kann nicht rückgängig gemacht werden. Alle deine Daten werden dauerhaft gelöscht.",
+          confirmLabel: 'Gib zur Bestätigung unten "{{phrase}}" ein',
+          confirmError: "Bitte gib {{phrase}} zur Bestätigung ein",
+          submit: "Mein Konto endgültig löschen",
+          error:
+            "Das Konto konnte nicht gelöscht werden. Bitte wende dich an den Support.",
+        },
+        data: {
+          exportTitle: "Daten exportieren",
+          exportDescription:
+            "Lade deine Daten als CSV oder OFX herunter oder alles als JSON-Archiv, das später wiederhergestellt werden kann",
+          filters: "Transaktionsfilter",
+          filtersHelp:
+            "CSV- und OFX-Exporte enthalten nur passende Transaktionen. Die Filter der Transaktionsseite werden standardmäßig übernommen.",
+          csvContents: "CSV-Inhalt",
+          downloadCsv: "CSV herunterladen",
+          downloadOfx: "OFX herunterladen",
+          downloadJson: "JSON-Archiv herunterladen",
+          exportError:
+            "Deine Daten konnten nicht exportiert werden. Bitte versuche es erneut.",
+          restoreTitle: "Sicherung wiederherstellen",
+          restoreDescription:
+            "Erstellt alles aus einem JSON-Archiv unter deinem Konto neu. Wiederhergestellte Daten kommen zu deinen vorhandenen hinzu; gleichnamige Kategorien und Tags werden wiederverwendet.",
+          restoreButton: "Aus Archiv wiederherstellen",
+          restoring: "Wird wiederhergestellt...",
+          restore: "Wiederherstellen",
+          invalidFile: "Diese Datei ist keine wiederherstellbare Sicherung.",
+          unreadableFile: "Die Sicherungsdatei konnte nicht gelesen werden.",
+          confirm:
+            "Diese Sicherung vom {{date}} enthält {{contents}}. Alles wird zu deinen aktuellen Daten hinzugefügt; wird dieselbe Sicherung zweimal wiederhergestellt, entstehen Duplikate.",
+          noRecords: "keine Einträge",
+          partial:
+            "Die Wiederherstellung wurde unterbrochen. Bisher wiederhergestellt: {{contents}}.",
+          restoreError:
+            "Die Sicherung konnte nicht wiederhergestellt werden. Bitte versuche es erneut.",
+          restoreFailed: "Wiederherstellung fehlgeschlagen",
+          restored: "Sicherung wiederhergestellt",
+          nothingNew: "Nichts Neues wiederherzustellen",
+          entities: {
+            transactions: "Transaktionen",
+            categories: "Kategorien",
+            tags: "Tags",
+            budgets: "Budgets",
+            bills: "Rechnungen & Abos",
+            goals: "Ziele",
+            bank_accounts: "Bankkonten",
+          },
+          counts: {
+            bank_accounts: "{{count}} Bankkonto",
+            bank_accounts_plural: "{{count}} Bankkonten",
+            categories: "{{count}} Kategorie",
+            categories_plural: "{{count}} Kategorien",
+            tags: "{{count}} Tag",
+            tags_plural: "{{count}} Tags",
+            transactions: "{{count}} Transaktion",
+            transactions_plural: "{{count}} Transaktionen",
+            transaction_splits: "{{count}} Aufteilung",
+            transaction_splits_plural: "{{count}} Aufteilungen",
+            transaction_tags: "{{count}} Transaktions-Tag",
+            transaction_tags_plural: "{{count}} Transaktions-Tags",
+            budgets: "{{count}} Budget",
+            budgets_plural: "{{count}} Budgets",
+            bills: "{{count}} Rechnung",
+            bills_plural: "{{count}} Rechnungen",
+            bill_payments: "{{count}} Rechnungszahlung",
+            bill_payments_plural: "{{count}} Rechnungszahlungen",
+            goals: "{{count}} Ziel",
+            goals_plural: "{{count}} Ziele",
+            goal_contributions: "{{count}} Zieleinzahlung",
+            goal_contributions_plural: "{{count}} Zieleinzahlungen",
+          },
+        },
+      },
+      dashboard: {
+        welcome: "Willkommen zurück, {{name}}",
+        householdDashboard: "Haushalts-Dashboard",
+        tabs: {
+          overview: "Übersicht",
+          finances: "Finanzen",
+          goals: "Ziele",
+        },
+        billReminders: "Rechnungserinnerungen",
+        budgetProgress: "Budgetfortschritt",
+        expenseCategories: "Ausgabenkategorien",
+        recentTransactions: "Letzte Transaktionen",
+        totalIncome: "Gesamteinnahmen",
+        totalExpenses: "Gesamtausgaben",
+        savings: "Ersparnisse",
+        deficit: "Defizit",
+        currentMonth: "Aktueller Monat",
+        ofIncome: "{{percent}} % der Einnahmen",
+        loadSummaryError: "Ausgabenübersicht konnte nicht geladen werden",
+      },
+      transactions: {
+        title: "Transaktionen",
+        add: "Transaktion hinzufügen",
+        edit: "Transaktion bearbeiten",
+        update: "Transaktion aktualisieren",
+        addExpense: "Ausgabe hinzufügen",
+        addIncome: "Einnahme hinzufügen",
+        saveAnyway: "Trotzdem speichern",
+        noDescription: "Keine Beschreibung",
+        deletedAccount: "Gelöschtes Konto",
+        loadMore: "Mehr laden",
+        empty:
+          "Keine Transaktionen gefunden. Fügen Sie Ihre erste Transaktion hinzu, um zu beginnen!",
+        deleteTitle: "Transaktion löschen",
+        deleteConfirm:
+          "Möchten Sie diese Transaktion wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        loadError: "Transaktionen konnten nicht geladen werden",
+        loadOneError: "Transaktion konnte nicht geladen werden",
+        deleteError: "Transaktion konnte nicht gelöscht werden",
+        saveError: "Transaktion konnte nicht gespeichert werden",
+        paymentMethods: {
+          cash: "Bargeld",
+          credit_card: "Kreditkarte",
+          debit_card: "Debitkarte",
+          bank_transfer: "Banküberweisung",
+          check: "Scheck",
+          mobile_payment: "Mobile Zahlung",
+          other: "Sonstiges",
+        },
+        statuses: {
+          pending: "Ausstehend",
+          completed: "Abgeschlossen",
+          cleared: "Verbucht",
+          reconciled: "Abgeglichen",
+          cancelled: "Storniert",
+        },
+        form: {
+          loadError:
+            "Daten konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+          dateRequired: "Bitte wählen Sie ein Datum.",
+          splitAmountRequired:
+            "Jede Aufteilungszeile benötigt einen Betrag größer als null.",
+          splitTotalMismatch:
+            "Die Aufteilungszeilen müssen den Transaktionsbetrag ergeben.",
+          loginRequired:
+            "Sie müssen angemeldet sein, um eine Transaktion hinzuzufügen",
+          saveError:
+            "Transaktion konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+          reconciledLocked:
+            "Diese Transaktion gehört zu einem abgeglichenen Kontoauszug. Betrag, Datum und Konto sind gesperrt.",
+          duplicateWarning:
+            "Diese Transaktion scheint bereits vorhanden zu sein:",
+          duplicateHint: "Erneut absenden, um sie trotzdem zu speichern.",
+          accountCurrency:
+            "Transaktionen auf {{account}} verwenden dessen Währung",
+          descriptionPlaceholder: "Beschreibung eingeben",
+          split: "Auf Kategorien aufteilen",
+          bankAccount: "Bankkonto",
+          selectBankAccount: "Bankkonto auswählen",
+          paymentMethod: "Zahlungsmethode",
+          selectPaymentMethod: "Zahlungsmethode auswählen",
+          selectStatus: "Status auswählen",
+          notesPlaceholder: "Zusätzliche Notizen hinzufügen",
+          tags: "Tags",
+        },
+        split: {
+          amount: "Aufteilungsbetrag",
+          category: "Aufteilungskategorie",
+          remove: "Aufteilungszeile entfernen",
+          notePlaceholder: "Notiz (optional)",
+          addLine: "Zeile hinzufügen",
+          allocated: "Vollständig aufgeteilt",
+          remaining: "Noch {{amount}} aufzuteilen",
+          over: "{{amount}} über dem Betrag",
+        },
+        transfer: {
+          edit: "Umbuchung bearbeiten",
+          title: "Umbuchung zwischen Konten",
+          from: "Von",
+          to: "Nach",
+          submit: "Umbuchen",
+          descriptionPlaceholder: "z. B. Monatliches Sparen",
+          help: "Beide Kontostände werden aktualisiert. Umbuchungen zählen weder als Einnahmen noch als Ausgaben.",
+          selectBoth: "Bitte wählen Sie beide Konten.",
+          selectDifferent: "Bitte wählen Sie zwei verschiedene Konten.",
+          sameCurrency: "Beide Konten müssen dieselbe Währung verwenden.",
+          saveError:
+            "Umbuchung konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+        },
+        filters: {
+          title: "Filter",
+          description: "Filter auf Ihre Transaktionen anwenden",
+          selectType: "Typ auswählen",
+          allTypes: "Alle Typen",
+          allCategories: "Alle Kategorien",
+          allAccounts: "Alle Konten",
+          minAmount: "Mindestbetrag",
+          maxAmount: "Höchstbetrag",
+          search: "Suche",
+          searchPlaceholder: "Transaktionen suchen...",
+          clear: "Filter zurücksetzen",
+        },
+        recurring: {
+          title: "Wiederkehrende Transaktionen",
+          add: "Wiederkehrende Transaktion hinzufügen",
+          edit: "Wiederkehrende Transaktion bearbeiten",
+          addShort: "Wiederkehrend hinzufügen",
+          descriptionPlaceholder: "z. B. Gehalt, Miete",
+          repeats: "Wiederholung",
+          starting: "Ab",
+          ends: "Endet",
+          next: "Nächste",
+          never: "Nie",
+          onDate: "An einem Datum",
+          afterOccurrences: "Nach einer Anzahl von Malen",
+          occurrencesPlaceholder: "z. B. 12",
+          until: "Bis {{date}}",
+          catchUpHint:
+            "Vorkommen seit dem Startdatum werden sofort hinzugefügt.",
+          descriptionRequired: "Bitte geben Sie eine Beschreibung ein.",
+          endBeforeStart:
+            "Das Enddatum muss am oder nach dem Startdatum liegen.",
+          occurrencesRequired:
+            "Bitte geben Sie an, wie oft sich die Transaktion wiederholt.",
+          saveError:
+            "Wiederkehrende Transaktion konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+          loadError:
+            "Wiederkehrende Transaktionen konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+          help: "Fällige Vorkommen werden beim Öffnen der App zu Ihren Transaktionen hinzugefügt, auch solche, die seit Ihrem letzten Besuch verpasst wurden.",
+          empty: "Noch keine wiederkehrenden Transaktionen.",
+          ended: "Beendet",
+          paused: "Pausiert",
+          skipNext: "Nächste überspringen",
+          pause: "Pausieren",
+          resume: "Fortsetzen",
+          skipped: "Übersprungen",
+          skippedDescription:
+            "Das Vorkommen am {{date}} wird nicht hinzugefügt",
+          pastAdded: "{{count}} vergangenes Vorkommen wurde hinzugefügt",
+          pastAdded_plural: "{{count}} vergangene Vorkommen wurden hinzugefügt",
+          syncAdded: "{{count}} wiederkehrende Transaktion wurde hinzugefügt",
+          syncAdded_plural:
+            "{{count}} wiederkehrende Transaktionen wurden hinzugefügt",
+          skipError: "Nächstes Vorkommen konnte nicht übersprungen werden",
+          updateError:
+            "Wiederkehrende Transaktion konnte nicht aktualisiert werden",
+          deleteError:
+            "Wiederkehrende Transaktion konnte nicht gelöscht werden",
+          deleteTitle: "Wiederkehrende Transaktion löschen?",
+          deleteConfirm:
+            "Es werden keine neuen Vorkommen hinzugefügt. Bereits hinzugefügte Transaktionen bleiben erhalten.",
+        },
+        import: {
+          title: "Transaktionen importieren",
+          uploadDescription:
+            "Laden Sie einen Kontoauszug im CSV-, OFX/QFX- oder QIF-Format hoch.",
+          mapDescription:
+            "Ordnen Sie die Spalten von {{file}} den Transaktionsfeldern zu.",
+          previewDescription:
+            "Prüfen Sie die eingelesenen Zeilen. Zeilen mit Fehlern werden nicht importiert.",
+          chooseFile: "Kontoauszugsdatei auswählen",
+          typeColumn: "Typ (Einnahme/Ausgabe)",
+          selectColumn: "Spalte auswählen",
+          notMapped: "Nicht zugeordnet",
+          example: "(z. B. {{value}})",
+          defaultAccount: "Standard-Bankkonto",
+          dateFormat: "Datumsformat",
+          detect: "Automatisch erkennen",
+          ymd: "Jahr-Monat-Tag",
+          dmy: "Tag/Monat/Jahr",
+          mdy: "Monat/Tag/Jahr",
+          decimalSeparator: "Dezimaltrennzeichen",
+          point: "Punkt (1,234.56)",
+          comma: "Komma (1.234,56)",
+          amountSign: "Vorzeichen des Betrags",
+          negativeIsExpense: "Negative Beträge sind Ausgaben",
+          positiveIsExpense: "Positive Beträge sind Ausgaben",
+          ready: "{{count}} bereit zum Import",
+          ready_plural: "{{count}} bereit zum Import",
+          withErrors: "{{count}} mit Fehlern",
+          possibleDuplicates: "{{count}} mögliches Duplikat",
+          possibleDuplicates_plural: "{{count}} mögliche Duplikate",
+          duplicateOf: "Mögliches Duplikat von {{description}} am {{date}}",
+          skipDuplicates:
+            "Zeilen überspringen, die bestehenden Transaktionen ähneln",
+          row: "Zeile",
+          preview: "Vorschau",
+          importing: "Importieren...",
+          submit: "{{count}} Transaktion importieren",
+          submit_plural: "{{count}} Transaktionen importieren",
+          noRows: "In dieser Datei wurden keine Transaktionen gefunden.",
+          readError:
+            "Die Datei konnte nicht gelesen werden. Bitte prüfen Sie das Format.",
+          complete: "Import abgeschlossen",
+          imported: "{{count}} Transaktion importiert",
+          imported_plural: "{{count}} Transaktionen importiert",
+          skipped: "{{count}} Zeile übersprungen",
+          skipped_plural: "{{count}} Zeilen übersprungen",
+          categorized: "{{count}} durch Regeln kategorisiert",
+          failed: "Transaktionen konnten nicht importiert werden",
+          failedWithReason:
+            "Transaktionen konnten nicht importiert werden: {{reason}}",
+          errors: {
+            noDateColumn: "Keine Datumsspalte zugeordnet",
+            invalidDate: "Ungültiges Datum „{{value}}“",
+            noAmountColumn: "Keine Betragsspalte zugeordnet",
+            invalidAmount: "Ungültiger Betrag „{{value}}“",
+            zeroAmount: "Betrag ist null",
+            unknownType: "Unbekannter Typ „{{value}}“",
+            unknownAccount: "Unbekanntes Bankkonto „{{value}}“",
+          },
+        },
+        duplicates: {
+          merged: "Transaktionen erfolgreich zusammengeführt",
+          mergeError: "Transaktionen konnten nicht zusammengeführt werden",
+          keep: "Diese behalten",
+          help: "Beim Behalten einer Transaktion wird die andere gelöscht und ihre Tags, Notizen und Kategorie werden übernommen.",
+          last30: "Letzte 30 Tage",
+          last90: "Letzte 90 Tage",
+          last180: "Letzte 6 Monate",
+          last365: "Letztes Jahr",
+          empty: "Keine wahrscheinlichen Duplikate gefunden.",
+          match: "{{percent}} % Übereinstimmung",
+          dismiss: "Kein Duplikat",
+        },
+        all: "Alle Transaktionen",
+        recurringShort: "Wiederkehrend",
+        reviewDuplicates: "Duplikate prüfen",
+        importShort: "Importieren",
+        expenses: "Ausgaben",
+        expenseTransactions: "Ausgabentransaktionen",
+        incomeTransactions: "Einnahmentransaktionen",
+        recurringTemplates: "Wiederkehrende Vorlagen",
+        recurringTemplatesDescription:
+          "Einnahmen und Ausgaben, die sich planmäßig wiederholen, etwa Gehalt, Miete oder Abonnements.",
+        possibleDuplicates: "Mögliche doppelte Transaktionen",
+        possibleDuplicatesDescription:
+          "Transaktionen mit gleichem Betrag und Typ, die innerhalb weniger Tage auf demselben Konto gebucht wurden.",
+      },
+      budgets: {
+        title: "Budgets",
+        management: "Budgetverwaltung",
+        add: "Budget hinzufügen",
+        edit: "Budget bearbeiten",
+        create: "Budget erstellen",
+        update: "Budget aktualisieren",
+        viewAll: "Alle Budgets anzeigen",
+        general: "Allgemein",
+        category: "Kategorie",
+        allCategories: "Alle Kategorien",
+        rollover: "Übertrag",
+        spentOf: "{{spent}} von {{available}}",
+        carriedOver: "{{amount}} übertragen",
+        history: "Verlauf",
+        showHistory: "Verlauf anzeigen",
+        hideHistory: "Verlauf ausblenden",
+        empty: "Keine Budgets gefunden.",
+        createFirst: "Erstellen Sie Ihr erstes Budget",
+        startTracking: "um Ihre Ausgaben zu verfolgen!",
+        summaryEmpty:
+          "Erstellen Sie Ihr erstes Budget, um Ihre Ausgaben zu verfolgen!",
+        deleteConfirm:
+          "Möchten Sie dieses Budget wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        loadError: "Budgets konnten nicht geladen werden",
+        loadOneError: "Budget konnte nicht geladen werden",
+        deleteError: "Budget konnte nicht gelöscht werden",
+        saveError: "Budget konnte nicht gespeichert werden",
+        form: {
+          name: "Budgetname",
+          namePlaceholder: "z. B. Monatliche Einkäufe",
+          amount: "Budgetbetrag",
+          allExpenses: "Alle Ausgaben",
+          period: "Budgetzeitraum",
+          selectPeriod: "Zeitraum auswählen",
+          rollover: "In den nächsten Zeitraum übertragen",
+          alertThresholds: "Warnschwellen (%)",
+          alertThresholdsHelp:
+            "Erhalte eine Benachrichtigung, wenn die Ausgaben jeden Prozentsatz des Budgets erreichen, einmal pro Zeitraum. Leer lassen für keine Warnungen.",
+          alertThresholdsInvalid:
+            "Gib ganze Prozentwerte von 1 bis 1000 ein, durch Kommas getrennt",
+          rolloverHelp:
+            "Rest oder Überschreitung in den nächsten Zeitraum übernehmen",
+          endDateOptional: "Enddatum (optional)",
+          descriptionOptional: "Beschreibung (optional)",
+          descriptionPlaceholder:
+            "Notizen oder Details zu diesem Budget hinzufügen...",
+          nameRequired: "Bitte geben Sie einen Budgetnamen ein",
+          startDateRequired: "Bitte wählen Sie ein Startdatum",
+          endDateRequired:
+            "Bitte wählen Sie ein Enddatum für den benutzerdefinierten Zeitraum",
+        },
+        periodHistory: {
+          empty: "Dieses Budget hat noch keine Zeiträume.",
+          period: "Zeitraum",
+          allocated: "Zugewiesen",
+          carriedIn: "Übernommen",
+          spent: "Ausgegeben",
+          carriedOver: "Übertragen",
+        },
+      },
+      goals: {
+        title: "Finanzziele",
+        add: "Ziel hinzufügen",
+        addNew: "Neues Ziel hinzufügen",
+        edit: "Ziel bearbeiten",
+        update: "Ziel aktualisieren",
+        backToList: "Zurück zur Zielliste",
+        empty:
+          "Keine Finanzziele gefunden. Fügen Sie Ihr erstes Ziel hinzu, um loszulegen!",
+        notFound: "Ziel nicht gefunden",
+        uncategorized: "Ohne Kategorie",
+        noTargetDate: "Kein Zieldatum",
+        targetOn: "Ziel: {{date}}",
+        overdue: "Überfällig",
+        percentComplete: "{{percent}} % erreicht",
+        remaining: "{{amount}} verbleibend",
+        saveDaily: "Sparen Sie täglich {{amount}}, um das Ziel zu erreichen",
+        deleteConfirm:
+          "Möchten Sie dieses Ziel wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        targetAmount: "Zielbetrag",
+        currentAmount: "Aktueller Betrag",
+        targetDate: "Zieldatum",
+        amountRemaining: "Verbleibender Betrag",
+        savingTargets: "Sparziele",
+        dailyTarget: "Tagesziel",
+        monthlyTarget: "Monatsziel",
+        daysRemaining: "Noch {{count}} Tag bis zum Erreichen Ihres Ziels",
+        daysRemaining_plural:
+          "Noch {{count}} Tage bis zum Erreichen Ihres Ziels",
+        statuses: {
+          in_progress: "In Bearbeitung",
+          achieved: "Erreicht",
+          cancelled: "Abgebrochen",
+        },
+        form: {
+          name: "Name des Ziels *",
+          targetAmount: "Zielbetrag *",
+          startDate: "Startdatum *",
+          selectStatus: "Status auswählen",
+          loginRequired: "Sie müssen angemeldet sein, um ein Ziel zu erstellen",
+          requiredFields: "Bitte füllen Sie alle Pflichtfelder aus",
+          openingAmount: "Anfangsbetrag",
+          openingAmountHelp:
+            "Bereits gespartes Geld, bevor Sie Beiträge hinzugefügt haben",
+        },
+        contributions: {
+          add: "Einzahlung hinzufügen",
+          history: "Einzahlungsverlauf",
+          empty: "Noch keine Einzahlungen",
+          amount: "Betrag *",
+          invalidAmount: "Bitte geben Sie einen gültigen Einzahlungsbetrag ein",
+          loadError: "Einzahlungsverlauf konnte nicht geladen werden",
+          addError: "Einzahlung konnte nicht hinzugefügt werden",
+          edit: "Beitrag bearbeiten",
+          delete: "Beitrag löschen",
+          deleteConfirm:
+            "Möchten Sie diesen Beitrag wirklich löschen? Sein Betrag wird wieder vom Ziel abgezogen.",
+          amountHelp: "Ein negativer Betrag ist eine Entnahme",
+          invalidEditAmount: "Bitte geben Sie einen Betrag ungleich null ein",
+          updateError: "Beitrag konnte nicht aktualisiert werden",
+          deleteError: "Beitrag konnte nicht gelöscht werden",
+          withdraw: "Entnehmen",
+          withdrawTitle: "Vom Ziel entnehmen",
+          withdrawal: "Entnahme",
+          withdrawTooMuch:
+            "Sie können nicht mehr als die gesparten {{amount}} entnehmen",
+          withdrawError: "Entnahme vom Ziel fehlgeschlagen",
+          changes: {
+            title: "Änderungsprotokoll",
+            show: "Änderungen anzeigen",
+            hide: "Änderungen ausblenden",
+            created: "{{amount}} am {{date}} hinzugefügt",
+            withdrawn: "{{amount}} am {{date}} entnommen",
+            updated: "{{before}} am {{date}} in {{after}} geändert",
+            deleted: "{{amount}} vom {{date}} gelöscht",
+          },
+        },
+        funding: {
+          title: "Automatisches Sparen",
+          add: "Regel hinzufügen",
+          empty:
+            "Noch keine Sparregeln. Legen Sie automatisch Geld nach Zeitplan oder aus Ihrem Einkommen zurück.",
+          syncAdded: "{{count}} automatischer Beitrag geleistet",
+          syncAdded_plural: "{{count}} automatische Beiträge geleistet",
+          autoContribution: "Auto",
+          fixedDescription: "{{amount}} {{frequency}}",
+          percentageDescription: "{{percent}} % jeder Einnahme",
+          fromAccount: "Von {{account}}",
+          nextContribution: "Nächster Beitrag: {{date}}",
+          unknownAccount: "Unbekanntes Konto",
+          active: "Aktiv",
+          loadError: "Sparregeln konnten nicht geladen werden",
+          saveError: "Sparregel konnte nicht gespeichert werden",
+          deleteError: "Sparregel konnte nicht gelöscht werden",
+          types: {
+            fixed: "Fester Betrag",
+            percentage: "Prozentsatz des Einkommens",
+          },
+          frequencies: {
+            weekly: "wöchentlich",
+            monthly: "monatlich",
+          },
+          form: {
+            type: "Regeltyp",
+            frequency: "Häufigkeit",
+            percentage: "Prozentsatz (%)",
+            percentageHelp:
+              "Wird auf jede Einnahme auf dem Konto angewendet",
+            account: "Bankkonto",
+            selectAccount: "Konto auswählen",
+            accountRequired: "Bitte wählen Sie ein Bankkonto aus",
+            invalidAmount: "Bitte geben Sie einen gültigen Betrag ein",
+            invalidPercentage: "Der Prozentsatz muss zwischen 0 und 100 liegen",
+          },
+          preview: {
+            title: "Anstehende Beiträge",
+            empty: "Keine geplanten Beiträge in den nächsten 3 Monaten",
+            scheduledMonthly: "{{amount}} pro Monat geplant",
+            fromIncome: "Etwa {{amount}} pro Monat aus Einnahmen",
+            coversTarget: "Deckt das Monatsziel",
+            shortOfTarget: "{{amount}} unter dem Monatsziel",
+            completesGoal: "Erreicht Ziel",
+          },
+          status: {
+            onTrack: "Im Plan",
+            behind: "Im Rückstand",
+            actualMonthly:
+              "Sie sparen {{actual}} pro Monat bei einem Ziel von {{target}}",
+          },
+        },
+        loadError: "Ziele konnten nicht geladen werden",
+        loadOneError: "Ziel konnte nicht geladen werden",
+        loadDetailsError: "Zieldetails konnten nicht geladen werden",
+        deleteError: "Ziel konnte nicht gelöscht werden",
+        saveError: "Ziel konnte nicht gespeichert werden",
+        saveRetryError:
+          "Ziel konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+      },
+      bills: {
+        title: "Rechnungen und Abonnements",
+        bills: "Rechnungen",
+        billsDescription:
+          "Verfolgen Sie einmalige oder unregelmäßige Ausgaben.",
+        subscriptions: "Abonnements",
+        subscriptionsDescription:
+          "Verwalten Sie Ihre wiederkehrenden Zahlungen und Dienste.",
+        bill: "Rechnung",
+        subscription: "Abonnement",
+        addBill: "Rechnung hinzufügen",
+        addNewBill: "Neue Rechnung hinzufügen",
+        addSubscription: "Abonnement hinzufügen",
+        addEither: "Rechnung/Abonnement hinzufügen",
+        addBillOrSubscription: "Rechnung oder Abonnement hinzufügen",
+        editBill: "Rechnung bearbeiten",
+        editSubscription: "Abonnement bearbeiten",
+        empty:
+          "Keine Rechnungen gefunden. Fügen Sie Ihre erste Rechnung hinzu, um loszulegen!",
+        notFound: "Rechnung nicht gefunden",
+        uncategorized: "Ohne Kategorie",
+        nextDue: "Nächste Fälligkeit: {{date}}",
+        nextDueDate: "Nächstes Fälligkeitsdatum",
+        due: "Fällig: {{date}}",
+        notSet: "Nicht festgelegt",
+        notAvailable: "k. A.",
+        overdue: "Überfällig",
+        dueSoon: "Bald fällig",
+        frequency: "Häufigkeit",
+        paymentMethod: "Zahlungsmethode",
+        paymentMethodValue: "Zahlungsmethode: {{method}}",
+        markAsPaid: "Als bezahlt markieren",
+        markPaid: "Bezahlt",
+        deleteConfirm:
+          "Möchten Sie diese Rechnung wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        frequencies: {
+          "one-time": "Einmalig",
+          daily: "Täglich",
+          weekly: "Wöchentlich",
+          monthly: "Monatlich",
+          yearly: "Jährlich",
+        },
+        statuses: {
+          active: "Aktiv",
+          paused: "Pausiert",
+          cancelled: "Gekündigt",
+        },
+        form: {
+          billName: "Name der Rechnung",
+          subscriptionName: "Name des Abonnements",
+          billPlaceholder: "z. B. Autoreparatur",
+          subscriptionPlaceholder: "z. B. Netflix-Abonnement",
+          billNameHelp:
+            "Geben Sie Ihrer Rechnung einen klaren, wiedererkennbaren Namen.",
+          subscriptionNameHelp:
+            "Geben Sie Ihrem Abonnement einen klaren, wiedererkennbaren Namen.",
+          nameRequired: "Name ist erforderlich",
+          amountRequired: "Betrag ist erforderlich",
+          amountPositive: "Muss größer als 0 sein",
+          dueDate: "Fälligkeitsdatum",
+          dueDateRequired: "Fälligkeitsdatum ist erforderlich",
+          frequencyRequired: "Häufigkeit ist erforderlich",
+          selectFrequency: "Häufigkeit auswählen",
+          paymentMethodPlaceholder: "z. B. Kreditkarte",
+          autoPay: "Automatische Zahlung",
+          reminderDays: "Erinnerungstage",
+          reminderDaysPlaceholder: "Tage vor Fälligkeit",
+          selectStatus: "Status auswählen",
+          notesPlaceholder:
+            "Optionale Notizen, z. B. Zugangsdaten oder Zahlungsdetails",
+          loginRequired:
+            "Sie müssen angemeldet sein, um eine Rechnung zu erstellen",
+        },
+        payments: {
+          add: "Zahlung hinzufügen",
+          history: "Zahlungsverlauf",
+          empty: "Kein Zahlungsverlauf verfügbar.",
+          via: "über {{method}}",
+          amount: "Betrag *",
+          methodPlaceholder: "z. B. Kreditkarte, Überweisung",
+          invalidAmount: "Bitte geben Sie einen gültigen Zahlungsbetrag ein",
+          loadError: "Zahlungsverlauf konnte nicht geladen werden",
+          addError: "Zahlung konnte nicht hinzugefügt werden",
+          recordAsExpense: "Als Ausgabe erfassen",
+          recordAsExpenseHelp:
+            "Fügt dem gewählten Konto eine Ausgabe in {{category}} hinzu, damit sie in Budgets und Analysen zählt",
+          recordAsExpenseUncategorized:
+            "Fügt dem gewählten Konto eine Ausgabe ohne Kategorie hinzu, damit sie in Budgets und Analysen zählt",
+          selectAccount: "Konto auswählen",
+          accountRequired:
+            "Bitte wählen Sie das Konto aus, von dem die Rechnung bezahlt wurde",
+          viewTransaction: "Transaktion anzeigen",
+          edit: "Zahlung bearbeiten",
+          editLinkedHelp: "Die zugehörige Ausgabe wird ebenfalls aktualisiert.",
+          delete: "Zahlung löschen",
+          deleteConfirm: "Möchten Sie diese Zahlung wirklich löschen?",
+          deleteLinkedConfirm:
+            "Möchten Sie diese Zahlung wirklich löschen? Die zugehörige Ausgabe wird ebenfalls gelöscht.",
+          updateError: "Zahlung konnte nicht aktualisiert werden",
+          deleteError: "Zahlung konnte nicht gelöscht werden",
+        },
+        reminders: {
+          title: "Rechnungserinnerungen",
+          empty: "Keine bald fälligen Rechnungen.",
+          loadError: "Anstehende Rechnungen konnten nicht geladen werden",
+          debtPayment: "Schuldenrate",
+        },
+        loadError: "Rechnungen konnten nicht geladen werden",
+        loadOneError: "Rechnung konnte nicht geladen werden",
+        loadDetailsError: "Rechnungsdetails konnten nicht geladen werden",
+        deleteError: "Rechnung konnte nicht gelöscht werden",
+        markPaidError: "Rechnung konnte nicht als bezahlt markiert werden",
+        saveError: "Rechnung konnte nicht gespeichert werden",
+        saveSubscriptionError: "Abonnement konnte nicht gespeichert werden",
+        saveRetryError:
+          "Rechnung konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+      },
+      debts: {
+        title: "Schulden",
+        listTitle: "Kreditkarten & Kredite",
+        totalOwed: "Gesamtschuld",
+        totalMinimum: "{{amount}} an Mindestzahlungen pro Monat",
+        add: "Schuld hinzufügen",
+        edit: "Schuld bearbeiten",
+        update: "Schuld aktualisieren",
+        empty:
+          "Noch keine Schulden. Füge eine Kreditkarte oder einen Kredit hinzu, um die Tilgung zu planen.",
+        terms: "{{apr}} % eff. Jahreszins · mindestens {{payment}}",
+        nextPayment: "Nächste Zahlung: {{date}}",
+        paidOff: "Abbezahlt",
+        loadError: "Schulden konnten nicht geladen werden",
+        saveError: "Schuld konnte nicht gespeichert werden",
+        deleteError: "Schuld konnte nicht gelöscht werden",
+        deleteConfirm:
+          "Möchtest du diese Schuld wirklich löschen? Die geplante Rechnung wird ebenfalls gelöscht.",
+        types: {
+          credit_card: "Kreditkarte",
+          loan: "Kredit",
+        },
+        form: {
+          name: "Name",
+          namePlaceholder: "z. B. Visa-Karte, Autokredit",
+          type: "Typ",
+          principal: "Offener Betrag",
+          principalHelp: "Was heute noch abzuzahlen ist",
+          apr: "Eff. Jahreszins (%)",
+          minimumPayment: "Monatliche Mindestzahlung",
+          dueDay: "Fälligkeitstag",
+          dueDayHelp:
+            "Tag im Monat, an dem die Zahlung fällig ist. Sie wird als monatliche Rechnung geplant.",
+          account: "Kreditkonto",
+          noAccount: "Nicht verknüpft",
+          nameRequired: "Name ist erforderlich",
+          invalidPrincipal: "Bitte gib einen gültigen offenen Betrag ein",
+          invalidApr: "Der Jahreszins muss zwischen 0 und 100 liegen",
+          invalidMinimumPayment: "Die Mindestzahlung muss größer als 0 sein",
+          invalidDueDay: "Der Fälligkeitstag muss zwischen 1 und 31 liegen",
+        },
+        schedule: {
+          title: "Tilgungsplan",
+          description: "Jeden Monat die Mindestzahlung auf {{name}}",
+          payoffDate: "Tilgungsdatum",
+          totalInterest: "Zinsen gesamt",
+          totalPaid: "Gesamt gezahlt",
+          neverPaidOff:
+            "Die Mindestzahlung deckt die monatlichen Zinsen nicht, daher wird diese Schuld nie abbezahlt.",
+          month: "Monat",
+          payment: "Zahlung",
+          interest: "Zinsen",
+          principal: "Tilgung",
+          balance: "Restschuld",
+        },
+        planner: {
+          title: "Tilgungsplaner",
+          description:
+            "Vergleiche die Tilgung deiner Schulden mit dem kleinsten Saldo zuerst oder dem höchsten Zins zuerst.",
+          noDebts:
+            "Füge eine Schuld mit offenem Betrag hinzu, um die Tilgung zu planen.",
+          extraPayment: "Zusätzliche Zahlung pro Monat",
+          extraPaymentHelp:
+            "Zusätzlich zu den Mindestzahlungen. Mindestzahlungen abbezahlter Schulden werden ebenfalls übertragen.",
+          debtFree: "Schuldenfrei",
+          never: "Nie",
+          months: "{{count}} Monat",
+          months_plural: "{{count}} Monate",
+          debt: "Schuld",
+          cheapest: "Wenigste Zinsen",
+          strategies: {
+            snowball: "Schneeball",
+            avalanche: "Lawine",
+          },
+          strategyDescriptions: {
+            snowball: "Kleinster Saldo zuerst, für schnelle Erfolge",
+            avalanche: "Höchster Jahreszins zuerst, für die wenigsten Zinsen",
+          },
+          savings: {
+            avalanche: "Die Lawine spart dir {{amount}} an Zinsen.",
+            snowball: "Der Schneeball spart dir {{amount}} an Zinsen.",
+          },
+        },
+      },
+      categories: {
+        title: "Kategorien",
+        management: "Kategorienverwaltung",
+        managementDescription:
+          "Verwalten Sie Ihre Ausgaben- und Einnahmenkategorien. Kategorien helfen Ihnen, Transaktionen zu ordnen und Ihr Ausgabeverhalten zu verfolgen.",
+        expenseCategories: "Ausgabenkategorien",
+        incomeCategories: "Einnahmenkategorien",
+        add: "Kategorie hinzufügen",
+        edit: "Kategorie bearbeiten",
+        update: "Kategorie aktualisieren",
+        createNew: "Neue Kategorie erstellen",
+        editDescription: "Aktualisieren Sie unten die Details Ihrer Kategorie",
+        createDescription:
+          "Kategorien helfen Ihnen, Transaktionen zu ordnen und Ihr Ausgabeverhalten zu verfolgen",
+        empty:
+          "Keine Kategorien gefunden. Klicken Sie auf „Kategorie hinzufügen“, um Ihre erste Kategorie zu erstellen.",
+        both: "Beide",
+        unknown: "Unbekannt",
+        defaultCannotDelete: "Standardkategorien können nicht gelöscht werden",
+        deleteCategory: "Kategorie löschen",
+        deleteConfirm:
+          "Möchten Sie diese Kategorie wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        loadError:
+          "Kategorien konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+        loadOneError: "Kategorie konnte nicht geladen werden",
+        deleteError:
+          "Kategorie konnte nicht gelöscht werden. Bitte versuchen Sie es erneut.",
+        saveError:
+          "Kategorie konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+        form: {
+          name: "Kategoriename",
+          namePlaceholder: "z. B. Lebensmittel, Miete, Gehalt",
+          nameRequired: "Kategoriename ist erforderlich",
+          type: "Kategorietyp",
+          selectType: "Typ auswählen",
+          color: "Kategoriefarbe",
+          iconPreview: "Symbolvorschau",
+          iconHelp: "Wählen Sie ein Symbol, das diese Kategorie darstellt.",
+        },
+        colorPicker: {
+          select: "Farbe auswählen",
+          selectTitle: "Wählen Sie eine Farbe",
+          selectValue: "Farbe {{color}} auswählen",
+          custom: "Eigene Farbe",
+          pickCustom: "Eigene Farbe wählen",
+        },
+        rules: {
+          title: "Kategorisierungsregeln",
+          description:
+            "Transaktionen automatisch anhand ihrer Beschreibung oder Notizen kategorisieren und taggen.",
+          help: "Regeln werden von oben nach unten ausgeführt; die erste passende Regel setzt die Kategorie und fügt ihre Tags hinzu. Sie laufen beim Hinzufügen oder Importieren von Transaktionen.",
+          runOnUncategorized: "Auf Unkategorisierte anwenden",
+          add: "Regel hinzufügen",
+          edit: "Regel bearbeiten",
+          update: "Regel aktualisieren",
+          empty:
+            "Noch keine Regeln. Fügen Sie eine hinzu, um Transaktionen automatisch zu kategorisieren.",
+          order: "Reihenfolge",
+          rule: "Regel",
+          applies: "Wendet an",
+          active: "Aktiv",
+          preview: "Vorschau",
+          summary: "{{field}} {{condition}} „{{pattern}}“",
+          matches: "entspricht",
+          deleteTitle: "Regel löschen?",
+          deleteDescription:
+            "Bereits kategorisierte Transaktionen behalten ihre Kategorie und Tags.",
+          loadError:
+            "Regeln konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+          reorderError: "Regeln konnten nicht neu sortiert werden",
+          updateError: "Regel konnte nicht aktualisiert werden",
+          deleteError: "Regel konnte nicht gelöscht werden",
+          saveError:
+            "Regel konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.",
+          fields: {
+            description: "Beschreibung",
+            notes: "Notizen",
+          },
+          conditions: {
+            contains: "enthält",
+            starts_with: "beginnt mit",
+            equals: "ist gleich",
+            regex: "entspricht Regex",
+          },
+          form: {
+            name: "Regelname",
+            namePlaceholder: "z. B. Supermarkt",
+            when: "Wenn",
+            condition: "Bedingung",
+            text: "Text",
+            patternPlaceholder: "z. B. REWE",
+            caseHelp: "Groß- und Kleinschreibung wird ignoriert.",
+            transactionType: "Transaktionstyp",
+            any: "Alle",
+            setCategory: "Kategorie festlegen",
+            dontChange: "Nicht ändern",
+            addTags: "Tags hinzufügen",
+            patternRequired: "Ein Suchmuster ist erforderlich",
+            invalidRegex: "Das Muster ist kein gültiger regulärer Ausdruck",
+            actionRequired:
+              "Wählen Sie eine Kategorie oder mindestens einen Tag",
+          },
+          previewDialog: {
+            title: "Regelvorschau",
+            description:
+              "Unkategorisierte Transaktionen, die die Regeln ändern würden. Erst beim Anwenden wird gespeichert.",
+            noMatchesRule:
+              "Keine unkategorisierten Transaktionen entsprechen dieser Regel.",
+            noMatchesRules:
+              "Keine unkategorisierten Transaktionen entsprechen Ihren Regeln.",
+            rows: "{{count}} Zeile",
+            rows_plural: "{{count}} Zeilen",
+            applying: "Wird angewendet...",
+            apply: "Auf {{count}} Transaktion anwenden",
+            apply_plural: "Auf {{count}} Transaktionen anwenden",
+            applied: "Regeln angewendet",
+            appliedDescription:
+              "{{categorized}} Transaktionen kategorisiert, {{tagged}} getaggt",
+            loadError:
+              "Unkategorisierte Transaktionen konnten nicht geladen werden",
+            applyError: "Kategorieregeln konnten nicht angewendet werden",
+          },
+        },
+      },
+      tags: {
+        title: "Tags",
+        management: "Tag-Verwaltung",
+        managementDescription:
+          "Verwalten Sie Ihre Transaktions-Tags. Mit Tags ordnen und filtern Sie Transaktionen kategorieübergreifend.",
+        add: "Tag hinzufügen",
+        edit: "Tag bearbeiten",
+        create: "Tag erstellen",
+        update: "Tag aktualisieren",
+        search: "Tags suchen...",
+        noMatches: "Keine Tags für „{{query}}“ gefunden",
+        empty: "Keine Tags gefunden.",
+        createFirst: "Erstellen Sie Ihren ersten Tag",
+        toOrganize: "um Ihre Transaktionen zu ordnen!",
+        deleteConfirm:
+          "Möchten Sie diesen Tag wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        none: "Keine Tags",
+        select: "Tags auswählen...",
+        loading: "Tags werden geladen...",
+        notFound: "Keine Tags gefunden",
+        createNew: "Neuen Tag erstellen",
+        form: {
+          name: "Tag-Name",
+          namePlaceholder: "z. B. Urlaub, Geschäftlich, Privat",
+          color: "Tag-Farbe",
+          selectColor: "Farbe {{color}} auswählen",
+          preview: "Vorschau",
+          nameRequired: "Bitte geben Sie einen Tag-Namen ein",
+          colorRequired: "Bitte wählen Sie eine Farbe",
+        },
+        loadError: "Tags konnten nicht geladen werden",
+        loadOneError: "Tag konnte nicht geladen werden",
+        loadTransactionError: "Transaktions-Tags konnten nicht geladen werden",
+        updateError: "Tags konnten nicht aktualisiert werden",
+        deleteError: "Tag konnte nicht gelöscht werden",
+        saveError: "Tag konnte nicht gespeichert werden",
+      },
+      accounts: {
+        title: "Bankkonten",
+        details: "Kontodetails",
+        add: "Konto hinzufügen",
+        edit: "Konto bearbeiten",
+        update: "Konto aktualisieren",
+        addBankAccount: "Bankkonto hinzufügen",
+        editBankAccount: "Bankkonto bearbeiten",
+        deleteAccount: "Konto löschen",
+        backToAccounts: "Zurück zu den Konten",
+        allAccounts: "Alle Konten",
+        types: {
+          checking: "Girokonto",
+          savings: "Sparkonto",
+          credit: "Kreditkarte",
+          investment: "Depot",
+          other: "Sonstiges",
+          asset: "Vermögenswert",
+          liability: "Verbindlichkeit",
+        },
+        totalBalance: "Gesamtsaldo",
+        totalTypeBalance: "Gesamtsaldo {{type}}",
+        acrossAccounts: "Über {{count}} Konto",
+        acrossAccounts_plural: "Über {{count}} Konten",
+        yourAccounts: "Ihre Konten",
+        yourTypeAccounts: "Ihre Konten: {{type}}",
+        empty: "Keine Bankkonten gefunden.",
+        emptyType: "Keine Konten vom Typ {{type}} gefunden.",
+        addFirst: "Fügen Sie Ihr erstes Konto hinzu",
+        toStartTracking: "um Ihre Finanzen zu verfolgen!",
+        default: "Standard",
+        setAsDefault: "Als Standard festlegen",
+        noInstitution: "Kein Institut",
+        noAccountNumber: "Keine Kontonummer",
+        deleteConfirm:
+          "Möchten Sie dieses Bankkonto wirklich löschen? Dies kann nicht rückgängig gemacht werden. Zugehörige Transaktionen bleiben erhalten, sind aber keinem Konto mehr zugeordnet.",
+        loadError:
+          "Bankkonten konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+        loadOneError:
+          "Kontodetails konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+        notFound: "Bankkonto nicht gefunden",
+        deleteError: "Bankkonto konnte nicht gelöscht werden",
+        setDefaultError: "Standardkonto konnte nicht festgelegt werden",
+        saveError: "Bankkonto konnte nicht gespeichert werden",
+        form: {
+          name: "Kontoname *",
+          namePlaceholder: "z. B. Girokonto, Sparkonto",
+          type: "Kontotyp *",
+          selectType: "Kontotyp auswählen",
+          institution: "Finanzinstitut",
+          institutionPlaceholder: "z. B. Sparkasse, Deutsche Bank",
+          number: "Kontonummer (letzte 4 Ziffern)",
+          numberPlaceholder: "z. B. 1234",
+          openingBalance: "Anfangssaldo *",
+          openingBalanceHelp:
+            "Der Saldo vor allen hier erfassten Transaktionen. Verknüpfte Transaktionen aktualisieren den Saldo von dort aus.",
+          setDefault: "Als Standardkonto festlegen",
+          notesPlaceholder: "Fügen Sie Notizen zu diesem Konto hinzu",
+          nameRequired: "Bitte geben Sie einen Kontonamen ein",
+          invalidBalance: "Bitte geben Sie einen gültigen Saldo ein",
+        },
+        reconcile: "Abgleichen",
+        setBalance: "Saldo festlegen",
+        setBalanceDescription:
+          "Geben Sie den Saldo Ihrer Bank ein. Weicht er von Ihren Transaktionen ab, wird die Differenz auf dieser Seite angezeigt.",
+        balance: "Saldo",
+        saveBalance: "Saldo speichern",
+        balanceMismatch: "Saldo weicht vom Kontobuch ab",
+        balanceMore:
+          "Der neue Saldo liegt {{amount}} über der Summe Ihrer Transaktionen.",
+        balanceLess:
+          "Der neue Saldo liegt {{amount}} unter der Summe Ihrer Transaktionen.",
+        balanceUpdated: "Saldo aktualisiert",
+        balanceMatches: "Der Saldo stimmt mit dem Kontobuch überein.",
+        balanceError: "Saldo konnte nicht aktualisiert werden",
+        discrepancyMore:
+          "Der aktuelle Saldo liegt {{amount}} über Anfangssaldo plus Transaktionen ({{ledger}}). Möglicherweise fehlt eine Transaktion oder wurde doppelt erfasst.",
+        discrepancyLess:
+          "Der aktuelle Saldo liegt {{amount}} unter Anfangssaldo plus Transaktionen ({{ledger}}). Möglicherweise fehlt eine Transaktion oder wurde doppelt erfasst.",
+        useLedgerBalance: "Kontobuchsaldo verwenden",
+        keepBalance: "Saldo behalten, Anfangssaldo anpassen",
+        currentBalance: "Aktueller Saldo",
+        accountType: "Kontotyp",
+        lastUpdated: "Zuletzt aktualisiert",
+        additionalDetails: "Weitere Details",
+        openingBalance: "Anfangssaldo",
+        createdOn: "Erstellt am",
+        recentTransactions: "Letzte Transaktionen",
+        noTransactions:
+          "Diesem Konto sind noch keine Transaktionen zugeordnet.",
+        items: {
+          tab: "Vermögen & Schulden",
+          title: "Sonstige Vermögenswerte & Schulden",
+          total: "Vermögen abzüglich Schulden",
+          totalHelp: "Zählt neben Ihren Bankkonten zu Ihrem Nettovermögen",
+          empty:
+            "Erfassen Sie hier etwa ein Haus, ein Auto oder einen Kredit, um sie in Ihr Nettovermögen einzubeziehen.",
+          add: "Eintrag hinzufügen",
+          edit: "Eintrag bearbeiten",
+          update: "Eintrag aktualisieren",
+          loadError: "Vermögenswerte und Schulden konnten nicht geladen werden",
+          saveError: "Eintrag konnte nicht gespeichert werden",
+          deleteError: "Eintrag konnte nicht gelöscht werden",
+          deleteConfirm:
+            "Möchten Sie diesen Eintrag wirklich löschen? Frühere Werte bleiben im Verlauf Ihres Nettovermögens erhalten.",
+          form: {
+            name: "Name",
+            namePlaceholder: "z. B. Haus, Autokredit",
+            type: "Typ",
+            value: "Wert",
+            assetValueHelp: "Was es heute wert ist",
+            liabilityValueHelp: "Was noch geschuldet wird",
+            nameRequired: "Name ist erforderlich",
+            invalidValue: "Bitte geben Sie einen Wert von null oder mehr ein",
+          },
+        },
+        reconciliation: {
+          pageTitle: "Konto abgleichen",
+          title: "Kontoauszugsabgleich",
+          description:
+            "Haken Sie die Transaktionen auf Ihrem Auszug ab. Stimmt der verbuchte Saldo mit dem Endsaldo überein, sperrt der Abschluss den Zeitraum.",
+          history: "Abgleichsverlauf",
+          intro:
+            "Geben Sie Enddatum und Endsaldo Ihres Auszugs ein und haken Sie dann die darauf aufgeführten Transaktionen ab.",
+          statementDate: "Enddatum des Auszugs",
+          closingBalance: "Endsaldo",
+          closingBalanceRequired:
+            "Bitte geben Sie den Endsaldo Ihres Auszugs ein.",
+          start: "Abgleich starten",
+          starting: "Wird gestartet...",
+          statementBalance: "Auszugssaldo ({{date}})",
+          clearedBalance: "Verbuchter Saldo",
+          difference: "Differenz",
+          noEntries: "Keine offenen Transaktionen bis zum Auszugsdatum.",
+          cancel: "Abgleich abbrechen",
+          balanced: "Ausgeglichen",
+          tickUntilZero:
+            "Haken Sie Transaktionen ab, bis die Differenz null ist",
+          finish: "Abschließen und sperren",
+          finishing: "Wird abgeschlossen...",
+          loadError:
+            "Der Abgleich konnte nicht geladen werden. Bitte versuchen Sie es erneut.",
+          startError:
+            "Der Abgleich konnte nicht gestartet werden. Bitte versuchen Sie es erneut.",
+          clearError: "Die Transaktion konnte nicht aktualisiert werden",
+          reconciled: "Auszug abgeglichen",
+          locked: "Transaktionen bis {{date}} sind jetzt gesperrt",
+          finishError: "Abgleich konnte nicht abgeschlossen werden",
+          cancelError: "Abgleich konnte nicht abgebrochen werden",
+          historyError: "Abgleichsverlauf konnte nicht geladen werden.",
+          undoError: "Abgleich konnte nicht rückgängig gemacht werden",
+          undone: "Abgleich rückgängig gemacht",
+          undoneDescription:
+            "Die Transaktionen sind entsperrt und als verbucht markiert",
+          never: "Dieses Konto wurde noch nicht abgeglichen.",
+          transactions: "Transaktionen",
+          completed: "Abgeschlossen",
+          inProgress: "In Bearbeitung",
+          undo: "Rückgängig",
+          undoTitle: "Abgleich rückgängig machen?",
+          undoDescription:
+            "Die Transaktionen dieses Auszugs werden entsperrt und wieder als verbucht markiert, sodass sie bearbeitet werden können.",
+        },
+      },
+      analytics: {
+        title: "Finanzanalyse",
+        dateRange: "Zeitraum",
+        ranges: {
+          thisMonth: "Dieser Monat",
+          lastMonth: "Letzter Monat",
+          thisQuarter: "Dieses Quartal",
+          thisYear: "Dieses Jahr",
+          lastYear: "Letztes Jahr",
+        },
+        apply: "Anwenden",
+        expenseCategories: "Ausgabenkategorien",
+        incomeVsExpenses: "Einnahmen vs. Ausgaben",
+        spendingTrends: "Ausgabentrends",
+        savingsRate: "Sparquote",
+        cashFlowForecast: "Liquiditätsprognose",
+        netWorthOverTime: "Nettovermögen im Zeitverlauf",
+        budgetComparison: "Budgetvergleich",
+        expensesByCategory: "Ausgaben nach Kategorie",
+        budgetVsActual: "Budget vs. tatsächliche Ausgaben",
+        monthlyTrend: "Ausgabentrend (monatlich)",
+        dailyTrend: "Ausgabentrend (täglich)",
+        savingsRateTrend: "Verlauf der Sparquote",
+        budget: "Budget",
+        actual: "Tatsächlich",
+        amount: "Betrag",
+        income: "Einnahmen",
+        expenses: "Ausgaben",
+        savings: "Ersparnisse",
+        valueLine: "{{label}}: {{value}}",
+        net: "Netto",
+        overBudgetBy: "{{amount}} über Budget",
+        underBudgetBy: "{{amount}} unter Budget",
+        averageSavingsRate: "Durchschnittliche Sparquote: {{rate}} %",
+        good: "Gut",
+        minimum: "Minimum",
+        goodRange: "Gut: ≥20 %",
+        fairRange: "Mittel: 0-20 %",
+        poorRange: "Schwach: <0 %",
+        uncategorized: "Ohne Kategorie",
+        noBudgetData:
+          "Keine Budgetdaten vorhanden. Legen Sie Budgets an, um sie zu vergleichen.",
+        noExpenseData: "Keine Ausgaben im gewählten Zeitraum.",
+        noTransactionData: "Keine Transaktionen im gewählten Zeitraum.",
+        forecast: {
+          days: "{{count}} Tage",
+          payingAccount: "Rechnungen bezahlt von",
+          lowPoint: "Tiefststand: {{amount}} am {{date}}",
+          shortfall: "Unter null ab {{date}}",
+          noShortfall: "Kein Fehlbetrag",
+          discretionaryNote:
+            "Enthält etwa {{amount}} pro Tag an laufenden Ausgaben von {{account}}, basierend auf den letzten drei Monaten.",
+          noAccounts:
+            "Fügen Sie ein Bankkonto hinzu, um eine Liquiditätsprognose zu sehen.",
+        },
+        netWorth: {
+          netWorth: "Nettovermögen",
+          assets: "Vermögenswerte",
+          liabilities: "Verbindlichkeiten",
+          accountType: "Kontotyp",
+          monthOverMonth: "Veränderung zum Vormonat",
+          sinceLastMonth: "{{amount}} seit letztem Monat",
+          noData:
+            "Fügen Sie Bankkonten, Vermögenswerte oder Verbindlichkeiten hinzu, um Ihr Nettovermögen zu verfolgen.",
+        },
+        errors: {
+          budgetComparison: "Budgetvergleich konnte nicht geladen werden",
+          forecast: "Liquiditätsprognose konnte nicht geladen werden",
+          netWorth: "Nettovermögen konnte nicht geladen werden",
+          expenseCategories:
+            "Ausgaben nach Kategorie konnten nicht geladen werden",
+          incomeVsExpenses:
+            "Einnahmen und Ausgaben konnten nicht geladen werden",
+          savingsRate: "Sparquote konnte nicht geladen werden",
+          spendingTrend: "Ausgabentrend konnte nicht geladen werden",
+        },
+      },
+      groups: {
+        title: "Gruppen",
+        create: "Gruppe erstellen",
+        edit: "Gruppe bearbeiten",
+        name: "Gruppenname",
+        namePlaceholder: "Gruppennamen eingeben",
+        descriptionPlaceholder: "Wofür ist diese Gruppe?",
+        creating: "Wird erstellt...",
+        inactive: "Inaktiv",
+        noDescription: "Keine Beschreibung vorhanden",
+        memberCount: "{{count}} Mitglied",
+        memberCount_plural: "{{count}} Mitglieder",
+        view: "Gruppe anzeigen",
+        deleteTitle: "Gruppe löschen?",
+        deleteConfirm:
+          "Möchten Sie diese Gruppe wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+        roles: {
+          owner: "Eigentümer",
+          admin: "Administrator",
+          member: "Mitglied",
+          viewer: "Betrachter",
+        },
+        roleDescriptions: {
+          admin: "Kann Gruppeneinstellungen und Mitglieder verwalten",
+          member: "Kann Transaktionen hinzufügen und alle Daten sehen",
+          viewer: "Kann Gruppendaten nur ansehen",
+        },
+        familyRoles: {
+          parent: "Elternteil",
+          child: "Kind",
+          guardian: "Vormund",
+          other: "Andere",
+        },
+        familyRoleDescriptions: {
+          parent:
+            "Voller Zugriff auf die Familienfinanzen und die Konten der Kinder",
+          child: "Eingeschränkter Zugriff gemäß den Einstellungen der Eltern",
+          guardian: "Wie ein Elternteil, aber mit einigen Einschränkungen",
+          other: "Benutzerdefinierte Rolle mit eigenen Berechtigungen",
+        },
+        errors: {
+          loginToCreate:
+            "Sie müssen angemeldet sein, um eine Gruppe zu erstellen",
+          loginToEdit:
+            "Sie müssen angemeldet sein, um eine Gruppe zu bearbeiten",
+          createFailed: "Gruppe konnte nicht erstellt werden: {{message}}",
+          tryAgain: "Bitte versuchen Sie es erneut.",
+          loadFailed: "Gruppe konnte nicht geladen werden",
+          updateFailed: "Gruppe konnte nicht aktualisiert werden",
+          deleteFailed: "Gruppe konnte nicht gelöscht werden",
+        },
+        invitations: {
+          invitedBy: "Eingeladen von: {{name}}",
+          expiresOn: "Läuft ab am: {{date}}",
+          accept: "Annehmen",
+          decline: "Ablehnen",
+          acceptFailed:
+            "Einladung konnte nicht angenommen werden. Bitte versuchen Sie es erneut.",
+          rejectFailed:
+            "Einladung konnte nicht abgelehnt werden. Bitte versuchen Sie es erneut.",
+        },
+        invite: {
+          title: "Mitglied einladen",
+          description: "Laden Sie jemanden in diese Budgetgruppe ein",
+          email: "E-Mail",
+          emailPlaceholder: "E-Mail-Adresse eingeben",
+          role: "Rolle",
+          selectRole: "Rolle auswählen",
+          isFamily: "Dies ist ein Familienmitglied",
+          familyRole: "Familienrolle",
+          selectFamilyRole: "Familienrolle auswählen",
+          success: "Einladung gesendet!",
+          sentTo: "Eine Einladung wurde gesendet an:",
+          expiryNote:
+            "Die Person sieht die Einladung auch nach der Anmeldung. Die Einladung läuft in 7 Tagen ab.",
+          failed:
+            "Einladung konnte nicht gesendet werden. Bitte versuchen Sie es erneut.",
+          sending: "Wird gesendet...",
+          send: "Einladung senden",
+        },
+        activity: {
+          title: "Aktivitäten",
+          description: "Letzte Aktivitäten in dieser Gruppe",
+          empty: "Noch keine Aktivitäten",
+          unknownUser: "Unbekannter Benutzer",
+          types: {
+            income: "Einnahme",
+            expense: "Ausgabe",
+            transaction: "Transaktion",
+          },
+          transactionCreated:
+            "{{user}} hat eine neue Transaktion ({{type}}) über {{amount}} erstellt",
+          transactionUpdated:
+            "{{user}} hat eine Transaktion ({{type}}) über {{amount}} bearbeitet",
+          transactionDeleted:
+            "{{user}} hat eine Transaktion ({{type}}) über {{amount}} gelöscht",
+          transactionApproved:
+            "{{user}} hat eine Transaktion ({{type}}) über {{amount}} genehmigt",
+          transactionRejected:
+            "{{user}} hat eine Transaktion ({{type}}) über {{amount}} abgelehnt",
+          withComment: "{{message}}: „{{comment}}“",
+          budgetCreated:
+            "{{user}} hat das Budget „{{name}}“ über {{amount}} erstellt",
+          budgetUpdated:
+            "{{user}} hat das Budget „{{name}}“ auf {{amount}} geändert",
+          budgetDeleted: "{{user}} hat das Budget „{{name}}“ gelöscht",
+          memberAdded:
+            "{{user}} hat ein neues Mitglied mit der Rolle {{role}} hinzugefügt",
+          memberUpdated:
+            "{{user}} hat die Rolle eines Mitglieds auf {{role}} geändert",
+          memberRemoved: "{{user}} hat ein Mitglied aus der Gruppe entfernt",
+          generic:
+            "{{user}} hat die Aktion „{{action}}“ für {{entity}} ausgeführt",
+          item: "Element",
+          invitationCreated: "{{user}} hat {{email}} als {{role}} eingeladen",
+          invitationUpdated: "{{user}} hat die Einladung für {{email}} aktualisiert",
+          invitationDeleted: "{{user}} hat die Einladung für {{email}} zurückgezogen",
+          invitationAccepted: "{{user}} hat die Einladung angenommen",
+          invitationRejected: "{{user}} hat die Einladung abgelehnt",
+          invitationExpired: "Die Einladung für {{email}} ist abgelaufen",
+          categoryShared: '{{user}} hat die Kategorie "{{name}}" geteilt',
+          categoryUnshared: '{{user}} teilt die Kategorie "{{name}}" nicht mehr',
+          budgetShared: '{{user}} hat das Budget "{{name}}" geteilt',
+          budgetUnshared: '{{user}} teilt das Budget "{{name}}" nicht mehr',
+          groupCreated: '{{user}} hat die Gruppe "{{name}}" erstellt',
+          change: "{{field}}: {{before}} → {{after}}",
+          noValue: "keine",
+          fields: {
+            description: "Beschreibung",
+            name: "Name",
+            amount: "Betrag",
+            type: "Typ",
+            date: "Datum",
+            period: "Zeitraum",
+            start_date: "Startdatum",
+            end_date: "Enddatum",
+            status: "Status",
+            payment_method: "Zahlungsmethode",
+            split_method: "Aufteilung",
+            role: "Rolle",
+            family_role: "Familienrolle",
+            notes: "Notizen",
+          },
+          entityTypes: {
+            transaction: "Transaktionen",
+            budget: "Budgets",
+            member: "Mitglieder",
+            invitation: "Einladungen",
+            shared_category: "Geteilte Kategorien",
+            shared_budget: "Geteilte Budgets",
+            group: "Gruppe",
+          },
+          filterMember: "Nach Mitglied filtern",
+          filterType: "Nach Typ filtern",
+          allMembers: "Alle Mitglieder",
+          allTypes: "Alle Aktivitäten",
+          from: "Von",
+          to: "Bis",
+          clearFilters: "Filter zurücksetzen",
+          filteredEmpty: "Keine Aktivität entspricht diesen Filtern",
+          loadError: "Aktivität konnte nicht geladen werden",
+        },
+        budgets: {
+          title: "Budgets",
+          add: "Budget hinzufügen",
+          edit: "Budget bearbeiten",
+          delete: "Budget löschen",
+          empty: "Keine Budgets gefunden",
+          emptyHelp:
+            "Erstellen Sie Budgets, um die Ausgaben Ihrer Gruppe nach Kategorien zu verfolgen und zu steuern.",
+          categoryLabel: "Kategorie: {{category}}",
+          createdBy: "Erstellt von: {{name}}",
+          created: "Budget erstellt!",
+          deleteConfirm:
+            "Möchten Sie das Budget „{{name}}“ wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+          deleteFailed:
+            "Budget konnte nicht gelöscht werden. Bitte versuchen Sie es erneut.",
+          namePlaceholder: "Budgetnamen eingeben",
+          categoryRequired: "Bitte wählen Sie eine Kategorie",
+          selectPeriod: "Zeitraum auswählen",
+          pickDate: "Datum wählen",
+          noEndDate: "Kein Enddatum",
+          creating: "Wird erstellt",
+          saving: "Wird gespeichert",
+        },
+        page: {
+          title: "Budgetgruppen",
+          subtitle:
+            "Verwalten Sie gemeinsame Budgets und Ausgaben mit Familie und Freunden",
+          myGroups: "Meine Gruppen",
+          invitations: "Einladungen",
+          noGroups: "Keine Gruppen",
+          noGroupsDescription: "Sie sind noch keiner Budgetgruppe beigetreten",
+          noGroupsHelp:
+            "Erstellen Sie eine Gruppe, um gemeinsame Finanzen zu verwalten",
+          noInvitations: "Keine Einladungen",
+          noInvitationsDescription:
+            "Sie haben keine offenen Gruppeneinladungen",
+          noInvitationsHelp:
+            "Wenn Sie jemand in eine Gruppe einlädt, erscheint die Einladung hier",
+          loadFailed: "Gruppen konnten nicht geladen werden: {{message}}",
+          refreshFailed:
+            "Gruppen konnten nicht aktualisiert werden: {{message}}",
+          refreshDataFailed:
+            "Daten konnten nicht aktualisiert werden. Bitte versuchen Sie es erneut.",
+        },
+        members: {
+          title: "Mitglieder",
+          description: "Gruppenmitglieder und ihre Rollen verwalten",
+          you: "(Sie)",
+          joined: "Beigetreten am {{date}}",
+          changeRole: "Rolle ändern",
+          changeRoleFor: "Rolle von {{name}} ändern",
+          changeFamilyRole: "Familienrolle ändern",
+          assignFamilyRole: "{{name}} eine Familienrolle zuweisen",
+          thisMember: "diesem Mitglied",
+          noFamilyRole: "Keine Familienrolle zugewiesen",
+          remove: "Mitglied entfernen",
+          removing: "Wird entfernt...",
+          removeConfirm:
+            "Möchten Sie {{name}} wirklich aus dieser Gruppe entfernen?",
+          changeRoleFailed: "Rolle konnte nicht geändert werden: {{message}}",
+          changeFamilyRoleFailed:
+            "Familienrolle konnte nicht geändert werden: {{message}}",
+          removeFailed:
+            "Mitglied konnte nicht entfernt werden. Bitte versuchen Sie es erneut.",
+        },
+        settings: {
+          general: "Allgemeine Einstellungen",
+          generalDescription:
+            "Grundlegende Informationen und Einstellungen der Gruppe verwalten",
+          description: "Gruppenbeschreibung",
+          activeStatus: "Aktivstatus",
+          activeHelp:
+            "Wenn die Gruppe inaktiv ist, können Mitglieder keine neuen Transaktionen erstellen",
+          saved: "Einstellungen gespeichert!",
+          updateFailed: "Gruppe konnte nicht aktualisiert werden: {{message}}",
+          deleteFailed: "Gruppe konnte nicht gelöscht werden: {{message}}",
+          confirmNameMismatch:
+            "Bitte geben Sie den genauen Gruppennamen ein, um das Löschen zu bestätigen.",
+          dangerZone: "Gefahrenbereich",
+          dangerDescription:
+            "Aktionen, die nicht rückgängig gemacht werden können",
+          deleteWarning:
+            "Beim Löschen dieser Gruppe werden alle zugehörigen Daten einschließlich Transaktionen, Budgets und Mitgliederinformationen dauerhaft entfernt.",
+          delete: "Gruppe löschen",
+          deleteConfirm:
+            "Möchten Sie die Gruppe „{{name}}“ wirklich löschen? Dies kann nicht rückgängig gemacht werden.",
+          deleteDetails:
+            "Alle Gruppendaten einschließlich Transaktionen, Budgets und Mitgliederinformationen werden dauerhaft gelöscht. Mitglieder verlieren den Zugriff auf alle gemeinsamen Inhalte.",
+          typeToConfirm: "Geben Sie zur Bestätigung den Gruppennamen ein:",
+        },
+        summary: {
+          loadFailed: "Budgetgruppen konnten nicht geladen werden",
+          recentActivity: "Letzte Aktivitäten",
+        },
+        transactions: {
+          empty: "Keine Transaktionen gefunden",
+          emptyHelp:
+            "Erfassen Sie die Ausgaben und Einnahmen Ihrer Gruppe, indem Sie die erste Transaktion hinzufügen.",
+          createdBy: "Erstellt von",
+          deleteFailed:
+            "Transaktion konnte nicht gelöscht werden. Bitte versuchen Sie es erneut.",
+          type: "Transaktionsart",
+        },
+        splits: {
+          paidBy: "Bezahlt von",
+          paidByName: "Bezahlt von {{name}}",
+          selectMember: "Mitglied auswählen",
+          split: "Unter Mitgliedern aufteilen",
+          splitHelp: "Teilen Sie diese Ausgabe und verfolgen Sie, wer wem was schuldet",
+          methods: {
+            equal: "Gleichmäßig",
+            percentage: "Nach Prozent",
+            shares: "Nach Anteilen",
+            exact: "Exakte Beträge",
+          },
+          valueLabels: {
+            equal: "Anteil",
+            percentage: "Prozent",
+            shares: "Anteile",
+            exact: "Betrag",
+          },
+          invalid: {
+            equal: "Wählen Sie mindestens ein Mitglied aus",
+            percentage: "Die Prozentsätze müssen zusammen 100 ergeben",
+            shares: "Geben Sie mindestens einem Mitglied einen Anteil",
+            exact: "Die Beträge müssen zusammen den Gesamtbetrag ergeben",
+          },
+        },
+        balances: {
+          title: "Salden",
+          memberBalances: "Salden der Mitglieder",
+          description: "Basierend auf geteilten Ausgaben und erfassten Rückzahlungen",
+          paidAndOwed: "Bezahlt {{paid}} · Anteil {{owed}}",
+          isOwed: "bekommt",
+          owes: "schuldet",
+          settled: "ausgeglichen",
+          suggested: "Vorgeschlagene Zahlungen",
+          suggestedHelp: "Die wenigsten Zahlungen, mit denen alle ausgeglichen sind",
+          allSettled: "Alle sind ausgeglichen",
+          record: "Zahlung erfassen",
+          history: "Ausgleichsverlauf",
+          noSettlements: "Noch keine Rückzahlungen erfasst",
+          settleUp: "Ausgleichen",
+          settleUpHelp: "Erfassen Sie, dass ein Mitglied einem anderen Geld zurückgezahlt hat",
+          from: "Von",
+          to: "An",
+          sameMember: "Wählen Sie zwei verschiedene Mitglieder",
+          loadError: "Salden konnten nicht geladen werden",
+          settleError: "Zahlung konnte nicht erfasst werden",
+          deleteError: "Zahlung konnte nicht gelöscht werden",
+          deleteTitle: "Zahlung löschen",
+          deleteConfirm:
+            "Möchten Sie diese Rückzahlung wirklich löschen? Die Salden werden ohne sie neu berechnet.",
+        },
+        presence: {
+          viewingNow: "Sehen gerade zu",
+          online: "Sieht sich diese Gruppe gerade an",
+          more: "+{{count}}",
+        },
+        permissions: {
+          childLimits: "Einschränkungen für Kinder",
+          childLimitsDescription:
+            "Lege fest, was Mitglieder mit der Familienrolle Kind in dieser Gruppe tun dürfen",
+          approvalLimit: "Genehmigung erforderlich ab",
+          approvalLimitHelp:
+            "Ausgaben von Kindern über diesem Betrag warten auf die Genehmigung eines Elternteils",
+          noLimit: "Keine Grenze",
+          canEditTransactions: "Eigene Transaktionen bearbeiten und löschen",
+          canManageBudgets: "Budgets erstellen und verwalten",
+          canRecordSettlements: "Ausgleichszahlungen erfassen",
+        },
+        approvals: {
+          title: "Wartet auf deine Genehmigung ({{count}})",
+          description:
+            "Diese Ausgaben zählen zu den Summen, Budgets und Salden der Gruppe, sobald sie genehmigt sind",
+          statusPending: "Wartet auf Genehmigung",
+          statusRejected: "Abgelehnt",
+          approve: "Genehmigen",
+          reject: "Ablehnen",
+          approveTitle: "Ausgabe genehmigen",
+          rejectTitle: "Ausgabe ablehnen",
+          reviewDescription:
+            "{{name}} hat „{{description}}“ über {{amount}} hinzugefügt",
+          comment: "Kommentar (optional)",
+          commentPlaceholder: "Erkläre kurz, warum",
+          submittedBy: "Hinzugefügt von {{name}}",
+          approved: "Ausgabe genehmigt",
+          rejected: "Ausgabe abgelehnt",
+          reviewFailed:
+            "Deine Entscheidung konnte nicht gespeichert werden. Bitte versuche es erneut.",
+          willNeedApproval:
+            "Diese Ausgabe wartet auf eine Genehmigung, bevor sie zu den Summen und Budgets der Gruppe zählt.",
+          rules: "Genehmigung von Ausgaben",
+          rulesDescription:
+            "Lege fest, wessen Ausgaben auf eine Genehmigung warten. Eigentümer und Admins genehmigen Ausgaben von Mitgliedern mit einer niedrigeren Rolle, Eltern die ihrer Kinder.",
+          role: "Genehmigung erforderlich für Ausgaben von",
+          roles: {
+            none: "Niemandem",
+            member: "Mitgliedern",
+            admin: "Mitgliedern und Admins",
+          },
+          amountLimit: "Nur über",
+          everyExpense: "Jede Ausgabe",
+          amountLimitHelp:
+            "Leer lassen, um jede Ausgabe dieser Mitglieder zur Genehmigung vorzulegen",
+        },
+        detail: {
+          loadFailed:
+            "Gruppendaten konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+          notFound: "Gruppe nicht gefunden",
+          refreshMembersFailed:
+            "Mitglieder konnten nicht aktualisiert werden. Bitte versuchen Sie es erneut.",
+          refreshTransactionsFailed:
+            "Transaktionen konnten nicht aktualisiert werden. Bitte versuchen Sie es erneut.",
+          refreshBudgetsFailed:
+            "Budgets konnten nicht aktualisiert werden. Bitte versuchen Sie es erneut.",
+          created: "Erstellt am {{date}}",
+          balance: "Saldo",
+          tabs: {
+            transactionsShort: "Trans",
+            budgetsShort: "Budg",
+            membersShort: "Mitgl",
+            activity: "Aktivität",
+            activityShort: "Akt",
+            balancesShort: "Sald",
+            settingsShort: "Einst",
+          },
+        },
+        dashboard: {
+          title: "Haushalts-Dashboard",
+          personal: "Persönliches Dashboard",
+          noGroups: "Keine Budgetgruppen gefunden",
+          noGroupsHelp:
+            "Sie haben noch keine Budgetgruppen. Erstellen Sie eine Gruppe, um die Haushaltsfinanzen gemeinsam zu verwalten.",
+          createGroup: "Budgetgruppe erstellen",
+          viewAllGroups: "Alle Gruppen anzeigen",
+          selectGroup: "Gruppe auswählen",
+          groupSettings: "Gruppeneinstellungen",
+          overview: "Übersicht",
+          totalIncome: "Gesamteinnahmen",
+          totalExpenses: "Gesamtausgaben",
+          currentMonth: "Aktueller Monat",
+          percentOfIncome: "{{percent}} % der Einnahmen",
+          recentTransactions: "Letzte Transaktionen",
+          budgetProgress: "Budgetfortschritt",
+          groupMembers: "Gruppenmitglieder",
+          groupTransactions: "Gruppentransaktionen",
+          groupBudgets: "Gruppenbudgets",
+          loadGroupsFailed: "Budgetgruppen konnten nicht geladen werden",
+          loadFailed: "Gruppendaten konnten nicht geladen werden",
+        },
+        invitation: {
+          title: "Sie wurden in eine Gruppe eingeladen!",
+          notFoundOrExpired: "Einladung nicht gefunden oder abgelaufen.",
+          notFound: "Einladung nicht gefunden.",
+          defaultGroupName: "Budgetgruppe",
+          unknownError: "Unbekannter Fehler",
+          acceptFailed: "Einladung konnte nicht angenommen werden",
+          backHome: "Zurück zur Startseite",
+          joinPrefix: "Nehmen Sie diese Einladung an, um",
+          joinSuffix: " beizutreten.",
+          joinAs: "als",
+          status: "Status:",
+          statuses: {
+            pending: "Ausstehend",
+            accepted: "Angenommen",
+            expired: "Abgelaufen",
+          },
+          acceptedRedirecting:
+            "Einladung angenommen! Sie werden zu Ihrer Gruppe weitergeleitet…",
+          accept: "Einladung annehmen",
+          redirecting: "Angenommen! Weiterleitung…",
+        },
+      },
+      notifications: {
+        billDue: {
+          title: "Rechnung bald fällig",
+          message: "{{name}} ({{amount}}) ist am {{date}} fällig.",
+        },
+        budgetAlert: {
+          title: "{{name}} liegt bei {{percent}} %",
+          exceededTitle: "{{name}} ist über dem Budget",
+          message:
+            "Sie haben in diesem Zeitraum {{spent}} von {{available}} für {{category}} ausgegeben.",
+        },
+        goalProgress: {
+          title: "Meilenstein erreicht",
+          message: "{{name}} ist zu {{percent}} % angespart.",
+          achievedTitle: "Ziel erreicht",
+          achievedMessage:
+            "Sie haben Ihr Ziel von {{amount}} für {{name}} erreicht.",
+        },
+        groupInvitation: {
+          title: "Neue Gruppeneinladung",
+          message: "Sie wurden eingeladen, {{group}} als {{role}} beizutreten.",
+        },
+      },
+      toast: {
+        itemCreated: "{{item}} erfolgreich erstellt",
+        itemUpdated: "{{item}} erfolgreich aktualisiert",
+        itemDeleted: "{{item}} erfolgreich gelöscht",
+        somethingWentWrong: "Etwas ist schiefgelaufen",
+        items: {
+          transaction: "Transaktion",
+          transfer: "Umbuchung",
+          recurringTransaction: "Wiederkehrende Transaktion",
+          budget: "Budget",
+          goal: "Ziel",
+          contribution: "Beitrag",
+          bill: "Rechnung",
+          payment: "Zahlung",
+          subscription: "Abonnement",
+          settlement: "Ausgleich",
+          bankAccount: "Bankkonto",
+          netWorthItem: "Eintrag",
+          debt: "Schuld",
+          category: "Kategorie",
+          tag: "Tag",
+          rule: "Regel",
+        },
+      },
+      errors: {
+        notFound: {
+          title: "Seite nicht gefunden",
+          description:
+            "Die gesuchte Seite existiert nicht oder wurde verschoben.",
+          goHome: "Zur Startseite",
+        },
+        boundary: {
+          title: "Etwas ist schiefgelaufen",
+          description:
+            "Entschuldigung, beim Anzeigen dieses Bereichs ist ein Fehler aufgetreten. Laden Sie die Seite neu oder versuchen Sie es erneut.",
+          stackTrace: "Stacktrace",
+          tryAgain: "Erneut versuchen",
+        },
+      },
+    },
+  },
+};
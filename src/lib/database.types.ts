@@ -16,6 +16,11 @@ export interface Database {
           amount: number;
           contribution_date: string;
           notes: string | null;
+          funding_rule_id: string | null;
+          bank_account_id: string | null;
+          source_transaction_id: string | null;
+          transaction_id: string | null;
+          scheduled_date: string | null;
           created_at: string;
         };
         Insert: {
@@ -24,6 +29,11 @@ export interface Database {
           amount: number;
           contribution_date: string;
           notes?: string | null;
+          funding_rule_id?: string | null;
+          bank_account_id?: string | null;
+          source_transaction_id?: string | null;
+          transaction_id?: string | null;
+          scheduled_date?: string | null;
           created_at?: string;
         };
         Update: {
@@ -32,6 +42,11 @@ export interface Database {
           amount?: number;
           contribution_date?: string;
           notes?: string | null;
+          funding_rule_id?: string | null;
+          bank_account_id?: string | null;
+          source_transaction_id?: string | null;
+          transaction_id?: string | null;
+          scheduled_date?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -41,6 +56,138 @@ export interface Database {
             isOneToOne: false;
             referencedRelation: "financial_goals";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_contributions_funding_rule_id_fkey";
+            columns: ["funding_rule_id"];
+            isOneToOne: false;
+            referencedRelation: "goal_funding_rules";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_contributions_bank_account_id_fkey";
+            columns: ["bank_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_contributions_source_transaction_id_fkey";
+            columns: ["source_transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      goal_contribution_history: {
+        Row: {
+          id: string;
+          goal_id: string;
+          contribution_id: string;
+          action: "created" | "updated" | "deleted";
+          changed_by: string | null;
+          before: Json | null;
+          after: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          goal_id: string;
+          contribution_id: string;
+          action: "created" | "updated" | "deleted";
+          changed_by?: string | null;
+          before?: Json | null;
+          after?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          goal_id?: string;
+          contribution_id?: string;
+          action?: "created" | "updated" | "deleted";
+          changed_by?: string | null;
+          before?: Json | null;
+          after?: Json | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "goal_contribution_history_goal_id_fkey";
+            columns: ["goal_id"];
+            isOneToOne: false;
+            referencedRelation: "financial_goals";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      goal_funding_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          goal_id: string;
+          bank_account_id: string;
+          rule_type: "fixed" | "percentage";
+          amount: number | null;
+          percentage: number | null;
+          frequency: "weekly" | "monthly" | null;
+          start_date: string;
+          next_date: string | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          goal_id: string;
+          bank_account_id: string;
+          rule_type: "fixed" | "percentage";
+          amount?: number | null;
+          percentage?: number | null;
+          frequency?: "weekly" | "monthly" | null;
+          start_date: string;
+          next_date?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          goal_id?: string;
+          bank_account_id?: string;
+          rule_type?: "fixed" | "percentage";
+          amount?: number | null;
+          percentage?: number | null;
+          frequency?: "weekly" | "monthly" | null;
+          start_date?: string;
+          next_date?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "goal_funding_rules_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_funding_rules_goal_id_fkey";
+            columns: ["goal_id"];
+            isOneToOne: false;
+            referencedRelation: "financial_goals";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_funding_rules_bank_account_id_fkey";
+            columns: ["bank_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -52,6 +199,7 @@ export interface Database {
           payment_date: string;
           payment_method: string | null;
           notes: string | null;
+          transaction_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -61,6 +209,7 @@ export interface Database {
           payment_date: string;
           payment_method?: string | null;
           notes?: string | null;
+          transaction_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -70,6 +219,7 @@ export interface Database {
           payment_date?: string;
           payment_method?: string | null;
           notes?: string | null;
+          transaction_id?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -79,6 +229,13 @@ export interface Database {
             isOneToOne: false;
             referencedRelation: "bills_subscriptions";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey";
+            columns: ["transaction_id"];
+            isOneToOne: true;
+            referencedRelation: "transactions";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -92,176 +249,720 @@ export interface Database {
           updated_at: string;
         };
         Insert: {
-          id: string;
-          email: string;
-          full_name?: string | null;
-          avatar_url?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          id: string;
+          email: string;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          full_name?: string | null;
+          avatar_url?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_id_fkey";
+            columns: ["id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      user_settings: {
+        Row: {
+          id: string;
+          currency: string;
+          theme: string;
+          language: string;
+          notification_enabled: boolean;
+          notification_preferences: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          currency?: string;
+          theme?: string;
+          language?: string;
+          notification_enabled?: boolean;
+          notification_preferences?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          currency?: string;
+          theme?: string;
+          language?: string;
+          notification_enabled?: boolean;
+          notification_preferences?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_settings_id_fkey";
+            columns: ["id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      categories: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          color: string;
+          icon: string | null;
+          type: "expense" | "income" | "both";
+          is_default: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          color: string;
+          icon?: string | null;
+          type: "expense" | "income" | "both";
+          is_default?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          color?: string;
+          icon?: string | null;
+          type?: "expense" | "income" | "both";
+          is_default?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      category_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          match_field: "description" | "notes";
+          match_type: "contains" | "starts_with" | "equals" | "regex";
+          pattern: string;
+          transaction_type: "expense" | "income" | null;
+          category_id: string | null;
+          tag_ids: string[];
+          priority: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          match_field?: "description" | "notes";
+          match_type?: "contains" | "starts_with" | "equals" | "regex";
+          pattern: string;
+          transaction_type?: "expense" | "income" | null;
+          category_id?: string | null;
+          tag_ids?: string[];
+          priority?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          match_field?: "description" | "notes";
+          match_type?: "contains" | "starts_with" | "equals" | "regex";
+          pattern?: string;
+          transaction_type?: "expense" | "income" | null;
+          category_id?: string | null;
+          tag_ids?: string[];
+          priority?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "category_rules_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "category_rules_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          category_id: string | null;
+          bank_account_id: string | null;
+          amount: number;
+          currency: string;
+          description: string | null;
+          date: string;
+          type: "expense" | "income" | "transfer";
+          payment_method: string | null;
+          status:
+            | "pending"
+            | "completed"
+            | "cleared"
+            | "reconciled"
+            | "cancelled";
+          notes: string | null;
+          recurring_transaction_id: string | null;
+          transfer_account_id: string | null;
+          reconciliation_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category_id?: string | null;
+          bank_account_id?: string | null;
+          amount: number;
+          currency?: string;
+          description?: string | null;
+          date: string;
+          type: "expense" | "income" | "transfer";
+          payment_method?: string | null;
+          status?:
+            | "pending"
+            | "completed"
+            | "cleared"
+            | "reconciled"
+            | "cancelled";
+          notes?: string | null;
+          recurring_transaction_id?: string | null;
+          transfer_account_id?: string | null;
+          reconciliation_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category_id?: string | null;
+          bank_account_id?: string | null;
+          amount?: number;
+          currency?: string;
+          description?: string | null;
+          date?: string;
+          type?: "expense" | "income" | "transfer";
+          payment_method?: string | null;
+          status?:
+            | "pending"
+            | "completed"
+            | "cleared"
+            | "reconciled"
+            | "cancelled";
+          notes?: string | null;
+          recurring_transaction_id?: string | null;
+          transfer_account_id?: string | null;
+          reconciliation_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transactions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_bank_account_id_fkey";
+            columns: ["bank_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_recurring_transaction_id_fkey";
+            columns: ["recurring_transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "recurring_transactions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_transfer_account_id_fkey";
+            columns: ["transfer_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_reconciliation_id_fkey";
+            columns: ["reconciliation_id"];
+            isOneToOne: false;
+            referencedRelation: "account_reconciliations";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      exchange_rates: {
+        Row: {
+          id: string;
+          user_id: string;
+          base_currency: string;
+          currency: string;
+          rate: number;
+          rate_date: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          base_currency: string;
+          currency: string;
+          rate: number;
+          rate_date: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          base_currency?: string;
+          currency?: string;
+          rate?: number;
+          rate_date?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type:
+            | "general"
+            | "bill_due"
+            | "budget_alert"
+            | "goal_progress"
+            | "group_invitation";
+          severity: "success" | "error" | "info" | "warning";
+          title: string;
+          message: string;
+          link: string | null;
+          dedupe_key: string | null;
+          read: boolean;
+          dismissed: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type?:
+            | "general"
+            | "bill_due"
+            | "budget_alert"
+            | "goal_progress"
+            | "group_invitation";
+          severity?: "success" | "error" | "info" | "warning";
+          title: string;
+          message: string;
+          link?: string | null;
+          dedupe_key?: string | null;
+          read?: boolean;
+          dismissed?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?:
+            | "general"
+            | "bill_due"
+            | "budget_alert"
+            | "goal_progress"
+            | "group_invitation";
+          severity?: "success" | "error" | "info" | "warning";
+          title?: string;
+          message?: string;
+          link?: string | null;
+          dedupe_key?: string | null;
+          read?: boolean;
+          dismissed?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      net_worth_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          item_type: "asset" | "liability";
+          value: number;
+          currency: string;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          item_type: "asset" | "liability";
+          value?: number;
+          currency?: string;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          item_type?: "asset" | "liability";
+          value?: number;
+          currency?: string;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "net_worth_items_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      net_worth_snapshots: {
+        Row: {
+          id: string;
+          user_id: string;
+          snapshot_month: string;
+          source_id: string;
+          name: string;
+          account_type:
+            | "checking"
+            | "savings"
+            | "credit"
+            | "investment"
+            | "other"
+            | "asset"
+            | "liability";
+          balance: number;
+          currency: string;
+          recorded_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          snapshot_month: string;
+          source_id: string;
+          name: string;
+          account_type:
+            | "checking"
+            | "savings"
+            | "credit"
+            | "investment"
+            | "other"
+            | "asset"
+            | "liability";
+          balance: number;
+          currency?: string;
+          recorded_at?: string;
         };
         Update: {
           id?: string;
-          email?: string;
-          full_name?: string | null;
-          avatar_url?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          user_id?: string;
+          snapshot_month?: string;
+          source_id?: string;
+          name?: string;
+          account_type?:
+            | "checking"
+            | "savings"
+            | "credit"
+            | "investment"
+            | "other"
+            | "asset"
+            | "liability";
+          balance?: number;
+          currency?: string;
+          recorded_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "user_profiles_id_fkey";
-            columns: ["id"];
-            isOneToOne: true;
+            foreignKeyName: "net_worth_snapshots_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
             referencedRelation: "users";
             referencedColumns: ["id"];
           }
         ];
       };
-      user_settings: {
+      debts: {
         Row: {
           id: string;
-          currency: string;
-          theme: string;
-          language: string;
-          notification_enabled: boolean;
+          user_id: string;
+          name: string;
+          debt_type: "credit_card" | "loan";
+          principal: number;
+          apr: number;
+          minimum_payment: number;
+          due_day: number;
+          bank_account_id: string | null;
+          bill_id: string | null;
+          notes: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
-          id: string;
-          currency?: string;
-          theme?: string;
-          language?: string;
-          notification_enabled?: boolean;
+          id?: string;
+          user_id: string;
+          name: string;
+          debt_type?: "credit_card" | "loan";
+          principal: number;
+          apr?: number;
+          minimum_payment: number;
+          due_day: number;
+          bank_account_id?: string | null;
+          bill_id?: string | null;
+          notes?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
-          currency?: string;
-          theme?: string;
-          language?: string;
-          notification_enabled?: boolean;
+          user_id?: string;
+          name?: string;
+          debt_type?: "credit_card" | "loan";
+          principal?: number;
+          apr?: number;
+          minimum_payment?: number;
+          due_day?: number;
+          bank_account_id?: string | null;
+          bill_id?: string | null;
+          notes?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "user_settings_id_fkey";
-            columns: ["id"];
-            isOneToOne: true;
+            foreignKeyName: "debts_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
             referencedRelation: "users";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "debts_bank_account_id_fkey";
+            columns: ["bank_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "debts_bill_id_fkey";
+            columns: ["bill_id"];
+            isOneToOne: false;
+            referencedRelation: "bills_subscriptions";
+            referencedColumns: ["id"];
           }
         ];
       };
-      categories: {
+      account_reconciliations: {
         Row: {
           id: string;
           user_id: string;
-          name: string;
-          color: string;
-          icon: string | null;
-          type: "expense" | "income" | "both";
-          is_default: boolean;
+          bank_account_id: string;
+          statement_date: string;
+          statement_balance: number;
+          status: "in_progress" | "completed";
+          cleared_count: number;
+          completed_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
-          name: string;
-          color: string;
-          icon?: string | null;
-          type: "expense" | "income" | "both";
-          is_default?: boolean;
+          bank_account_id: string;
+          statement_date: string;
+          statement_balance: number;
+          status?: "in_progress" | "completed";
+          cleared_count?: number;
+          completed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
-          name?: string;
-          color?: string;
-          icon?: string | null;
-          type?: "expense" | "income" | "both";
-          is_default?: boolean;
+          bank_account_id?: string;
+          statement_date?: string;
+          statement_balance?: number;
+          status?: "in_progress" | "completed";
+          cleared_count?: number;
+          completed_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "categories_user_id_fkey";
+            foreignKeyName: "account_reconciliations_user_id_fkey";
             columns: ["user_id"];
             isOneToOne: false;
             referencedRelation: "users";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "account_reconciliations_bank_account_id_fkey";
+            columns: ["bank_account_id"];
+            isOneToOne: false;
+            referencedRelation: "bank_accounts";
+            referencedColumns: ["id"];
           }
         ];
       };
-      transactions: {
+      recurring_transactions: {
         Row: {
           id: string;
           user_id: string;
+          description: string;
+          amount: number;
+          type: "expense" | "income" | "transfer";
           category_id: string | null;
           bank_account_id: string | null;
-          amount: number;
-          description: string | null;
-          date: string;
-          type: "expense" | "income";
+          transfer_account_id: string | null;
           payment_method: string | null;
-          status: "pending" | "completed" | "cancelled";
           notes: string | null;
+          frequency: "daily" | "weekly" | "monthly" | "yearly";
+          start_date: string;
+          next_date: string;
+          end_type: "never" | "on_date" | "after_occurrences";
+          end_date: string | null;
+          max_occurrences: number | null;
+          occurrences_count: number;
+          is_active: boolean;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
+          description: string;
+          amount: number;
+          type: "expense" | "income" | "transfer";
           category_id?: string | null;
           bank_account_id?: string | null;
-          amount: number;
-          description?: string | null;
-          date: string;
-          type: "expense" | "income";
+          transfer_account_id?: string | null;
           payment_method?: string | null;
-          status?: "pending" | "completed" | "cancelled";
           notes?: string | null;
+          frequency: "daily" | "weekly" | "monthly" | "yearly";
+          start_date: string;
+          next_date: string;
+          end_type?: "never" | "on_date" | "after_occurrences";
+          end_date?: string | null;
+          max_occurrences?: number | null;
+          occurrences_count?: number;
+          is_active?: boolean;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
+          description?: string;
+          amount?: number;
+          type?: "expense" | "income" | "transfer";
           category_id?: string | null;
           bank_account_id?: string | null;
-          amount?: number;
-          description?: string | null;
-          date?: string;
-          type?: "expense" | "income";
+          transfer_account_id?: string | null;
           payment_method?: string | null;
-          status?: "pending" | "completed" | "cancelled";
           notes?: string | null;
+          frequency?: "daily" | "weekly" | "monthly" | "yearly";
+          start_date?: string;
+          next_date?: string;
+          end_type?: "never" | "on_date" | "after_occurrences";
+          end_date?: string | null;
+          max_occurrences?: number | null;
+          occurrences_count?: number;
+          is_active?: boolean;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [
           {
-            foreignKeyName: "transactions_user_id_fkey";
+            foreignKeyName: "recurring_transactions_user_id_fkey";
             columns: ["user_id"];
             isOneToOne: false;
             referencedRelation: "users";
             referencedColumns: ["id"];
           },
           {
-            foreignKeyName: "transactions_category_id_fkey";
+            foreignKeyName: "recurring_transactions_category_id_fkey";
             columns: ["category_id"];
             isOneToOne: false;
             referencedRelation: "categories";
             referencedColumns: ["id"];
           },
           {
-            foreignKeyName: "transactions_bank_account_id_fkey";
+            foreignKeyName: "recurring_transactions_bank_account_id_fkey";
             columns: ["bank_account_id"];
             isOneToOne: false;
             referencedRelation: "bank_accounts";
@@ -279,6 +980,8 @@ export interface Database {
           period: "daily" | "weekly" | "monthly" | "yearly";
           start_date: string;
           end_date: string | null;
+          alert_thresholds: number[];
+          rollover: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -291,6 +994,8 @@ export interface Database {
           period: "daily" | "weekly" | "monthly" | "yearly";
           start_date: string;
           end_date?: string | null;
+          alert_thresholds?: number[];
+          rollover?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -303,6 +1008,8 @@ export interface Database {
           period?: "daily" | "weekly" | "monthly" | "yearly";
           start_date?: string;
           end_date?: string | null;
+          alert_thresholds?: number[];
+          rollover?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -358,6 +1065,51 @@ export interface Database {
           }
         ];
       };
+      transaction_splits: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          user_id: string;
+          category_id: string | null;
+          amount: number;
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          user_id: string;
+          category_id?: string | null;
+          amount: number;
+          note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          user_id?: string;
+          category_id?: string | null;
+          amount?: number;
+          note?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey";
+            columns: ["transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       transaction_tags: {
         Row: {
           transaction_id: string;
@@ -394,6 +1146,7 @@ export interface Database {
           user_id: string;
           name: string;
           amount: number;
+          currency: string;
           due_date: string | null;
           frequency: "one-time" | "daily" | "weekly" | "monthly" | "yearly";
           auto_pay: boolean;
@@ -413,6 +1166,7 @@ export interface Database {
           user_id: string;
           name: string;
           amount: number;
+          currency?: string;
           due_date?: string | null;
           frequency: "one-time" | "daily" | "weekly" | "monthly" | "yearly";
           auto_pay?: boolean;
@@ -432,6 +1186,7 @@ export interface Database {
           user_id?: string;
           name?: string;
           amount?: number;
+          currency?: string;
           due_date?: string | null;
           frequency?: "one-time" | "daily" | "weekly" | "monthly" | "yearly";
           auto_pay?: boolean;
@@ -477,6 +1232,7 @@ export interface Database {
           institution: string | null;
           account_number: string | null;
           current_balance: number;
+          opening_balance: number;
           currency: string;
           is_default: boolean;
           notes: string | null;
@@ -499,6 +1255,7 @@ export interface Database {
           institution?: string | null;
           account_number?: string | null;
           current_balance?: number;
+          opening_balance?: number;
           currency?: string;
           is_default?: boolean;
           notes?: string | null;
@@ -521,6 +1278,7 @@ export interface Database {
           institution?: string | null;
           account_number?: string | null;
           current_balance?: number;
+          opening_balance?: number;
           currency?: string;
           is_default?: boolean;
           notes?: string | null;
@@ -548,6 +1306,8 @@ export interface Database {
           created_by: string;
           is_active: boolean;
           avatar_url: string | null;
+          child_limits: Json;
+          approval_rules: Json;
           created_at: string;
           updated_at: string;
         };
@@ -558,6 +1318,8 @@ export interface Database {
           created_by: string;
           is_active?: boolean;
           avatar_url?: string | null;
+          child_limits?: Json;
+          approval_rules?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -568,6 +1330,8 @@ export interface Database {
           created_by?: string;
           is_active?: boolean;
           avatar_url?: string | null;
+          child_limits?: Json;
+          approval_rules?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -774,8 +1538,13 @@ export interface Database {
           date: string;
           type: "expense" | "income";
           payment_method: string | null;
-          status: "pending" | "completed" | "cancelled";
+          status: "pending" | "completed" | "cancelled" | "rejected";
           notes: string | null;
+          paid_by: string | null;
+          split_method: "equal" | "percentage" | "shares" | "exact" | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          review_comment: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -789,8 +1558,13 @@ export interface Database {
           date: string;
           type: "expense" | "income";
           payment_method?: string | null;
-          status?: "pending" | "completed" | "cancelled";
+          status?: "pending" | "completed" | "cancelled" | "rejected";
           notes?: string | null;
+          paid_by?: string | null;
+          split_method?: "equal" | "percentage" | "shares" | "exact" | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_comment?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -804,8 +1578,13 @@ export interface Database {
           date?: string;
           type?: "expense" | "income";
           payment_method?: string | null;
-          status?: "pending" | "completed" | "cancelled";
+          status?: "pending" | "completed" | "cancelled" | "rejected";
           notes?: string | null;
+          paid_by?: string | null;
+          split_method?: "equal" | "percentage" | "shares" | "exact" | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_comment?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -830,6 +1609,102 @@ export interface Database {
             isOneToOne: false;
             referencedRelation: "categories";
             referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "group_transactions_paid_by_fkey";
+            columns: ["paid_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      group_transaction_splits: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          group_id: string;
+          user_id: string;
+          value: number;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          group_id: string;
+          user_id: string;
+          value: number;
+          amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          group_id?: string;
+          user_id?: string;
+          value?: number;
+          amount?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "group_transaction_splits_transaction_id_fkey";
+            columns: ["transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "group_transactions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "group_transaction_splits_group_id_fkey";
+            columns: ["group_id"];
+            isOneToOne: false;
+            referencedRelation: "budget_groups";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      group_settlements: {
+        Row: {
+          id: string;
+          group_id: string;
+          from_user_id: string;
+          to_user_id: string;
+          amount: number;
+          date: string;
+          notes: string | null;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          from_user_id: string;
+          to_user_id: string;
+          amount: number;
+          date: string;
+          notes?: string | null;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          group_id?: string;
+          from_user_id?: string;
+          to_user_id?: string;
+          amount?: number;
+          date?: string;
+          notes?: string | null;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "group_settlements_group_id_fkey";
+            columns: ["group_id"];
+            isOneToOne: false;
+            referencedRelation: "budget_groups";
+            referencedColumns: ["id"];
           }
         ];
       };
@@ -844,6 +1719,7 @@ export interface Database {
           period: "daily" | "weekly" | "monthly" | "yearly";
           start_date: string;
           end_date: string | null;
+          alert_thresholds: number[];
           created_at: string;
           updated_at: string;
         };
@@ -857,6 +1733,7 @@ export interface Database {
           period: "daily" | "weekly" | "monthly" | "yearly";
           start_date: string;
           end_date?: string | null;
+          alert_thresholds?: number[];
           created_at?: string;
           updated_at?: string;
         };
@@ -870,6 +1747,7 @@ export interface Database {
           period?: "daily" | "weekly" | "monthly" | "yearly";
           start_date?: string;
           end_date?: string | null;
+          alert_thresholds?: number[];
           created_at?: string;
           updated_at?: string;
         };
@@ -952,6 +1830,7 @@ export interface Database {
           name: string;
           target_amount: number;
           current_amount: number;
+          opening_amount: number;
           start_date: string;
           target_date: string | null;
           category_id: string | null;
@@ -966,6 +1845,7 @@ export interface Database {
           name: string;
           target_amount: number;
           current_amount?: number;
+          opening_amount?: number;
           start_date: string;
           target_date?: string | null;
           category_id?: string | null;
@@ -980,6 +1860,7 @@ export interface Database {
           name?: string;
           target_amount?: number;
           current_amount?: number;
+          opening_amount?: number;
           start_date?: string;
           target_date?: string | null;
           category_id?: string | null;
@@ -1010,7 +1891,14 @@ export interface Database {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      set_group_transaction_splits: {
+        Args: {
+          p_transaction_id: string;
+          p_split_method: string | null;
+          p_splits: Json;
+        };
+        Returns: Database["public"]["Tables"]["group_transaction_splits"]["Row"][];
+      };
     };
     Enums: {
       [_ in never]: never;
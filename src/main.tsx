@@ -3,8 +3,6 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 
-// Translation system completely removed
-
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,65 @@
+import { useParams, useNavigate } from "react-router-dom";
+import { AppLayout } from "../shared/components/layout";
+import { AccountReconciliation } from "../features/bankAccounts/components/AccountReconciliation";
+import { formatDate } from "../utils/formatters";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CalendarIcon, ListChecks } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
+
+export function AccountReconciliationPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(`/accounts/${id}`)}
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <ListChecks className="h-6 w-6 text-primary" />
+            <h2 className="text-2xl font-bold">
+              {t("accounts.reconciliation.pageTitle")}
+            </h2>
+          </div>
+          <Badge
+            variant="outline"
+            className="flex items-center gap-2 px-3 py-1"
+          >
+            <CalendarIcon className="h-4 w-4" />
+            <span>{formatDate(new Date(), "long")}</span>
+          </Badge>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center">
+              <ListChecks className="mr-2 h-5 w-5 text-primary" />
+              {t("accounts.reconciliation.title")}
+            </CardTitle>
+            <CardDescription>
+              {t("accounts.reconciliation.description")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {id && <AccountReconciliation accountId={id} />}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
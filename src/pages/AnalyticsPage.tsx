@@ -3,7 +3,7 @@ import { AppLayout } from "../shared/components/layout";
 import { formatDate } from "../utils/formatters";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, CalendarIcon } from "lucide-react";
+import { BarChart3, CalendarIcon, Scale, TrendingUp } from "lucide-react";
 import {
   DateRangeSelector,
   ExpenseCategoryChart,
@@ -11,9 +11,13 @@ import {
   SpendingTrendChart,
   BudgetComparisonChart,
   SavingsRateChart,
+  CashFlowForecastChart,
+  NetWorthChart,
 } from "../features/analytics/components";
+import { useLanguage } from "../providers/languageUtils";
 
 export function AnalyticsPage() {
+  const { t } = useLanguage();
   // Default to current month
   const now = new Date();
   const [startDate, setStartDate] = useState(
@@ -37,7 +41,7 @@ export function AnalyticsPage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <BarChart3 className="h-6 w-6 text-teal-500" />
-            <h2 className="text-2xl font-bold">Financial Analytics</h2>
+            <h2 className="text-2xl font-bold">{t("analytics.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -53,7 +57,7 @@ export function AnalyticsPage() {
           <CardHeader className="pb-3">
             <CardTitle className="text-lg flex items-center">
               <CalendarIcon className="mr-2 h-5 w-5 text-teal-500" />
-              Date Range
+              {t("analytics.dateRange")}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -72,7 +76,7 @@ export function AnalyticsPage() {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center">
                 <BarChart3 className="mr-2 h-5 w-5 text-teal-500" />
-                Expense Categories
+                {t("analytics.expenseCategories")}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -85,7 +89,7 @@ export function AnalyticsPage() {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center">
                 <BarChart3 className="mr-2 h-5 w-5 text-teal-500" />
-                Income vs Expenses
+                {t("analytics.incomeVsExpenses")}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -98,7 +102,7 @@ export function AnalyticsPage() {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center">
                 <BarChart3 className="mr-2 h-5 w-5 text-teal-500" />
-                Spending Trends
+                {t("analytics.spendingTrends")}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -110,12 +114,38 @@ export function AnalyticsPage() {
             </CardContent>
           </Card>
 
+          {/* Cash Flow Forecast */}
+          <Card className="border-t-4 border-t-teal-500 lg:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center">
+                <TrendingUp className="mr-2 h-5 w-5 text-teal-500" />
+                {t("analytics.cashFlowForecast")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CashFlowForecastChart />
+            </CardContent>
+          </Card>
+
+          {/* Net Worth Chart */}
+          <Card className="border-t-4 border-t-teal-500 lg:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center">
+                <Scale className="mr-2 h-5 w-5 text-teal-500" />
+                {t("analytics.netWorthOverTime")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <NetWorthChart />
+            </CardContent>
+          </Card>
+
           {/* Savings Rate Chart */}
           <Card className="border-t-4 border-t-teal-500">
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center">
                 <BarChart3 className="mr-2 h-5 w-5 text-teal-500" />
-                Savings Rate
+                {t("analytics.savingsRate")}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -128,7 +158,7 @@ export function AnalyticsPage() {
             <CardHeader className="pb-3">
               <CardTitle className="text-lg flex items-center">
                 <BarChart3 className="mr-2 h-5 w-5 text-teal-500" />
-                Budget Comparison
+                {t("analytics.budgetComparison")}
               </CardTitle>
             </CardHeader>
             <CardContent>
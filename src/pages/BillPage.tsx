@@ -13,10 +13,12 @@ import {
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function BillPage() {
   const { billId } = useParams<{ billId: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [bill, setBill] = useState<BillWithCategory | null>(null);
   const [isLoading, setIsLoading] = useState(billId && billId !== "new");
   const [error, setError] = useState<string | null>(null);
@@ -39,14 +41,14 @@ export function BillPage() {
         setBill(data);
       } catch (err) {
         console.error("Error fetching bill:", err);
-        setError("Failed to load bill");
+        setError(t("bills.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBill();
-  }, [billId]);
+  }, [billId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -69,7 +71,7 @@ export function BillPage() {
       navigate("/bills");
     } catch (err) {
       console.error("Error saving bill:", err);
-      setError("Failed to save bill. Please try again.");
+      setError(t("bills.saveRetryError"));
     }
   };
 
@@ -103,9 +105,9 @@ export function BillPage() {
           <h2 className="text-2xl font-bold">
             {billId && billId !== "new"
               ? bill?.frequency === "one-time"
-                ? "Edit Bill"
-                : "Edit Subscription"
-              : "Add Bill or Subscription"}
+                ? t("bills.editBill")
+                : t("bills.editSubscription")
+              : t("bills.addBillOrSubscription")}
           </h2>
         </div>
 
@@ -3,15 +3,18 @@ import { AddBillsAndSubscriptions } from "../features/bills/components/AddBillsA
 import { formatDate } from "../utils/formatters";
 import { Badge } from "@/components/ui/badge";
 import { Receipt, CalendarIcon } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function BillsPage() {
+  const { t } = useLanguage();
+
   return (
     <AppLayout>
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Receipt className="h-6 w-6 text-cyan-500" />
-            <h2 className="text-2xl font-bold">Bills & Subscriptions</h2>
+            <h2 className="text-2xl font-bold">{t("bills.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -7,6 +7,7 @@ import { getBudgetById, Budget } from "../api/supabase/budgets";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 // Create extended budget interface with category info
 interface BudgetWithCategory extends Budget {
@@ -21,6 +22,7 @@ interface BudgetWithCategory extends Budget {
 export function BudgetPage() {
   const { budgetId } = useParams<{ budgetId: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [budget, setBudget] = useState<BudgetWithCategory | null>(null);
   const [isLoading, setIsLoading] = useState(budgetId && budgetId !== "new");
   const [error, setError] = useState<string | null>(null);
@@ -43,14 +45,14 @@ export function BudgetPage() {
         setBudget(data);
       } catch (err) {
         console.error("Error fetching budget:", err);
-        setError("Failed to load budget");
+        setError(t("budgets.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchBudget();
-  }, [budgetId]);
+  }, [budgetId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -84,7 +86,9 @@ export function BudgetPage() {
           </Button>
           <PiggyBank className="h-6 w-6 text-primary" />
           <h2 className="text-2xl font-bold">
-            {budgetId && budgetId !== "new" ? "Edit Budget" : "Add Budget"}
+            {budgetId && budgetId !== "new"
+              ? t("budgets.edit")
+              : t("budgets.add")}
           </h2>
         </div>
 
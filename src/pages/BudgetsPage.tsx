@@ -8,8 +8,10 @@ import { Button } from "@/components/ui/button";
 
 import { useState } from "react";
 import { BudgetModal } from "../features/budgets/components/BudgetModal";
+import { useLanguage } from "../providers/languageUtils";
 
 export function BudgetsPage() {
+  const { t } = useLanguage();
   const [isAddBudgetOpen, setIsAddBudgetOpen] = useState(false);
   return (
     <AppLayout>
@@ -17,7 +19,7 @@ export function BudgetsPage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <PiggyBank className="h-6 w-6 text-amber-500" />
-            <h2 className="text-2xl font-bold">Budgets</h2>
+            <h2 className="text-2xl font-bold">{t("budgets.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -32,14 +34,14 @@ export function BudgetsPage() {
           <CardHeader className="pb-3 flex flex-row items-center justify-between">
             <CardTitle className="text-lg flex items-center">
               <PiggyBank className="mr-2 h-5 w-5 text-amber-500" />
-              Budget Management
+              {t("budgets.management")}
             </CardTitle>
             <Button
               onClick={() => setIsAddBudgetOpen(true)}
               className="flex items-center gap-1 bg-amber-600 hover:bg-amber-700"
             >
               <Plus size={16} />
-              Add Budget
+              {t("budgets.add")}
             </Button>
             {/* Add Budget Sidebar Modal */}
             <BudgetModal
@@ -1,7 +1,7 @@
 // Categories page component
 import { useState } from "react";
 import { AppLayout } from "../shared/components/layout";
-import { CategoryList } from "../features/categories/components";
+import { CategoryList, CategoryRuleList } from "../features/categories/components";
 import { Category } from "../api/supabase";
 import {
   Card,
@@ -12,10 +12,12 @@ import {
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
-import { PieChartIcon, ArrowDownCircle, ArrowUpCircle } from "lucide-react";
+import { PieChartIcon, ArrowDownCircle, ArrowUpCircle, Wand2 } from "lucide-react";
 import { CategorySidebarModal } from "../features/categories/components/CategoryForm";
+import { useLanguage } from "../providers/languageUtils";
 
 export function CategoriesPage() {
+  const { t } = useLanguage();
   // --- Sidebar state for add/edit ---
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
@@ -40,7 +42,7 @@ export function CategoriesPage() {
         <div className="flex justify-between items-center">
           <div className="flex items-center gap-2">
             <PieChartIcon className="h-6 w-6 text-primary" />
-            <h1 className="text-2xl font-bold">Categories</h1>
+            <h1 className="text-2xl font-bold">{t("categories.title")}</h1>
           </div>
 
         </div>
@@ -49,11 +51,10 @@ export function CategoriesPage() {
           <CardHeader className="pb-3">
             <CardTitle className="text-xl flex items-center gap-2">
               <PieChartIcon className="h-5 w-5 text-primary" />
-              Category Management
+              {t("categories.management")}
             </CardTitle>
             <CardDescription>
-              Manage your expense and income categories. Categories help you
-              organize your transactions and track your spending patterns.
+              {t("categories.managementDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent className="pt-0">
@@ -65,14 +66,14 @@ export function CategoriesPage() {
                     className="flex items-center gap-1 px-4 py-2 data-[state=active]:bg-transparent data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none"
                   >
                     <ArrowDownCircle className="h-4 w-4 text-destructive" />
-                    <span>Expense Categories</span>
+                    <span>{t("categories.expenseCategories")}</span>
                   </TabsTrigger>
                   <TabsTrigger
                     value="income"
                     className="flex items-center gap-1 px-4 py-2 data-[state=active]:bg-transparent data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none rounded-none"
                   >
                     <ArrowUpCircle className="h-4 w-4 text-green-600" />
-                    <span>Income Categories</span>
+                    <span>{t("categories.incomeCategories")}</span>
                   </TabsTrigger>
                 </TabsList>
               </div>
@@ -94,6 +95,21 @@ export function CategoriesPage() {
           </CardContent>
         </Card>
 
+        <Card className="shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Wand2 className="h-5 w-5 text-primary" />
+              {t("categories.rules.title")}
+            </CardTitle>
+            <CardDescription>
+              {t("categories.rules.description")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <CategoryRuleList />
+          </CardContent>
+        </Card>
+
         {/* Sidebar for Add/Edit Category */}
         <CategorySidebarModal
           isOpen={isSidebarOpen}
@@ -15,11 +15,13 @@ import {
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useLanguage } from "../providers/languageUtils";
 
 export function CategoryPage() {
   const { categoryId } = useParams<{ categoryId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const { t } = useLanguage();
   const [category, setCategory] = useState<Category | null>(null);
   const [isLoading, setIsLoading] = useState(!!categoryId);
   const [error, setError] = useState<string | null>(null);
@@ -44,14 +46,14 @@ export function CategoryPage() {
         setCategory(data);
       } catch (err) {
         console.error("Error fetching category:", err);
-        setError("Failed to load category");
+        setError(t("categories.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchCategory();
-  }, [categoryId]);
+  }, [categoryId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -107,7 +109,7 @@ export function CategoryPage() {
           </Button>
           <PieChartIcon className="h-6 w-6 text-primary" />
           <h2 className="text-2xl font-bold">
-            {categoryId ? "Edit Category" : "Add Category"}
+            {categoryId ? t("categories.edit") : t("categories.add")}
           </h2>
         </div>
 
@@ -115,12 +117,12 @@ export function CategoryPage() {
           <Card>
             <CardHeader>
               <CardTitle>
-                {categoryId ? "Edit Category" : "Create New Category"}
+                {categoryId ? t("categories.edit") : t("categories.createNew")}
               </CardTitle>
               <CardDescription>
                 {categoryId
-                  ? "Update your category details below"
-                  : "Categories help you organize your transactions and track your spending patterns"}
+                  ? t("categories.editDescription")
+                  : t("categories.createDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../state/useAuth";
-// Translation imports removed
+import { useLanguage } from "../providers/languageUtils";
 import { AppLayout } from "../shared/components/layout";
 import { TransactionList } from "../features/transactions/components/TransactionList";
 import { BudgetSummary } from "../features/budgets/components/BudgetSummary";
@@ -32,7 +32,7 @@ import {
 export function DashboardPage() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  // Translation hooks removed
+  const { t } = useLanguage();
   const [activeTab, setActiveTab] = useState("overview");
 
   // Get the current date for the expense category chart
@@ -50,7 +50,9 @@ export function DashboardPage() {
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
           <div>
             <h1 className="text-3xl font-bold tracking-tight">
-              Welcome back, {user?.user_metadata?.full_name || "User"}
+              {t("dashboard.welcome", {
+                name: user?.user_metadata?.full_name || t("nav.user"),
+              })}
             </h1>
             <p className="text-muted-foreground">
               {formatDate(new Date(), "long")}
@@ -63,7 +65,7 @@ export function DashboardPage() {
             className="sm:ml-auto mb-4 sm:mb-0 gap-2"
           >
             <Users className="h-4 w-4" />
-            Household Dashboard
+            {t("dashboard.householdDashboard")}
           </Button>
 
           {/* Dashboard tabs */}
@@ -75,15 +77,15 @@ export function DashboardPage() {
             <TabsList className="grid grid-cols-3 w-full sm:w-auto">
               <TabsTrigger value="overview" className="flex items-center gap-2">
                 <LayoutDashboard className="h-4 w-4" />
-                <span className="hidden sm:inline">Overview</span>
+                <span className="hidden sm:inline">{t("dashboard.tabs.overview")}</span>
               </TabsTrigger>
               <TabsTrigger value="finances" className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4" />
-                <span className="hidden sm:inline">Finances</span>
+                <span className="hidden sm:inline">{t("dashboard.tabs.finances")}</span>
               </TabsTrigger>
               <TabsTrigger value="goals" className="flex items-center gap-2">
                 <Target className="h-4 w-4" />
-                <span className="hidden sm:inline">Goals</span>
+                <span className="hidden sm:inline">{t("dashboard.tabs.goals")}</span>
               </TabsTrigger>
             </TabsList>
           </Tabs>
@@ -103,7 +105,7 @@ export function DashboardPage() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <Bell className="mr-2 h-5 w-5 text-blue-500" />
-                      Bill Reminders
+                      {t("dashboard.billReminders")}
                     </CardTitle>
                     <Button
                       variant="outline"
@@ -111,7 +113,7 @@ export function DashboardPage() {
                       className="gap-1 border-blue-200 text-blue-700 hover:bg-blue-50"
                       onClick={() => (window.location.href = "/bills")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -125,7 +127,7 @@ export function DashboardPage() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <PiggyBank className="mr-2 h-5 w-5 text-amber-500" />
-                      Budget Progress
+                      {t("dashboard.budgetProgress")}
                     </CardTitle>
                     <Button
                       variant="outline"
@@ -133,7 +135,7 @@ export function DashboardPage() {
                       className="gap-1 border-amber-200 text-amber-700 hover:bg-amber-50"
                       onClick={() => (window.location.href = "/budgets")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -149,7 +151,7 @@ export function DashboardPage() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <PieChart className="mr-2 h-5 w-5 text-purple-500" />
-                      Expense Categories
+                      {t("dashboard.expenseCategories")}
                     </CardTitle>
                     <Button
                       variant="outline"
@@ -157,7 +159,7 @@ export function DashboardPage() {
                       className="gap-1 border-purple-200 text-purple-700 hover:bg-purple-50"
                       onClick={() => (window.location.href = "/analytics")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -175,7 +177,7 @@ export function DashboardPage() {
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-lg flex items-center">
                     <Receipt className="mr-2 h-5 w-5 text-green-500" />
-                    Recent Transactions
+                    {t("dashboard.recentTransactions")}
                   </CardTitle>
                   <Button
                     variant="outline"
@@ -183,7 +185,7 @@ export function DashboardPage() {
                     className="gap-1 border-green-200 text-green-700 hover:bg-green-50"
                     onClick={() => (window.location.href = "/transactions")}
                   >
-                    View All
+                    {t("common.viewAll")}
                     <ArrowRight className="h-4 w-4" />
                   </Button>
                 </CardHeader>
@@ -206,7 +208,7 @@ export function DashboardPage() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <PiggyBank className="mr-2 h-5 w-5 text-amber-500" />
-                      Budget Progress
+                      {t("dashboard.budgetProgress")}
                     </CardTitle>
                     <Button
                       variant="outline"
@@ -214,7 +216,7 @@ export function DashboardPage() {
                       className="gap-1 border-amber-200 text-amber-700 hover:bg-amber-50"
                       onClick={() => (window.location.href = "/budgets")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -228,7 +230,7 @@ export function DashboardPage() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <PieChart className="mr-2 h-5 w-5 text-purple-500" />
-                      Expense Categories
+                      {t("dashboard.expenseCategories")}
                     </CardTitle>
                     <Button
                       variant="outline"
@@ -236,7 +238,7 @@ export function DashboardPage() {
                       className="gap-1 border-purple-200 text-purple-700 hover:bg-purple-50"
                       onClick={() => (window.location.href = "/analytics")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -254,7 +256,7 @@ export function DashboardPage() {
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-lg flex items-center">
                     <Receipt className="mr-2 h-5 w-5 text-green-500" />
-                    Recent Transactions
+                    {t("dashboard.recentTransactions")}
                   </CardTitle>
                   <Button
                     variant="outline"
@@ -262,7 +264,7 @@ export function DashboardPage() {
                     className="gap-1 border-green-200 text-green-700 hover:bg-green-50"
                     onClick={() => (window.location.href = "/transactions")}
                   >
-                    View All
+                    {t("common.viewAll")}
                     <ArrowRight className="h-4 w-4" />
                   </Button>
                 </CardHeader>
@@ -276,7 +278,7 @@ export function DashboardPage() {
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-lg flex items-center">
                     <Bell className="mr-2 h-5 w-5 text-blue-500" />
-                    Bill Reminders
+                    {t("dashboard.billReminders")}
                   </CardTitle>
                   <Button
                     variant="outline"
@@ -284,7 +286,7 @@ export function DashboardPage() {
                     className="gap-1 border-blue-200 text-blue-700 hover:bg-blue-50"
                     onClick={() => (window.location.href = "/bills")}
                   >
-                    View All
+                    {t("common.viewAll")}
                     <ArrowRight className="h-4 w-4" />
                   </Button>
                 </CardHeader>
@@ -308,7 +310,7 @@ export function DashboardPage() {
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-lg flex items-center">
                     <Bell className="mr-2 h-5 w-5 text-blue-500" />
-                    Bill Reminders
+                    {t("dashboard.billReminders")}
                   </CardTitle>
                   <Button
                     variant="outline"
@@ -316,7 +318,7 @@ export function DashboardPage() {
                     className="gap-1 border-blue-200 text-blue-700 hover:bg-blue-50"
                     onClick={() => (window.location.href = "/bills")}
                   >
-                    View All
+                    {t("common.viewAll")}
                     <ArrowRight className="h-4 w-4" />
                   </Button>
                 </CardHeader>
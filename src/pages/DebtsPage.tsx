@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from "react";
+import { AppLayout } from "../shared/components/layout";
+import { DebtList } from "../features/debts/components/DebtList";
+import { DebtForm } from "../features/debts/components/DebtForm";
+import { DebtPayoffPlanner } from "../features/debts/components/DebtPayoffPlanner";
+import { getDebts, Debt } from "../api/supabase/debts";
+import { formatDate } from "../utils/formatters";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetClose,
+} from "@/components/ui/sheet";
+import {
+  AlertCircle,
+  CalendarIcon,
+  Landmark,
+  Loader2,
+  TrendingDown,
+} from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
+
+export function DebtsPage() {
+  const { t } = useLanguage();
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedDebt, setSelectedDebt] = useState<Debt | undefined>(
+    undefined
+  );
+
+  // Load debts
+  const loadDebts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await getDebts();
+      if (error) throw error;
+
+      setDebts(data || []);
+    } catch (err) {
+      console.error("Error loading debts:", err);
+      setError(t("debts.loadError"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadDebts();
+  }, [loadDebts]);
+
+  const handleAddDebt = () => {
+    setSelectedDebt(undefined);
+    setIsFormOpen(true);
+  };
+
+  const handleEditDebt = (debt: Debt) => {
+    setSelectedDebt(debt);
+    setIsFormOpen(true);
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setSelectedDebt(undefined);
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Landmark className="h-6 w-6 text-red-500" />
+            <h2 className="text-2xl font-bold">{t("debts.title")}</h2>
+          </div>
+          <Badge
+            variant="outline"
+            className="flex items-center gap-2 px-3 py-1"
+          >
+            <CalendarIcon className="h-4 w-4" />
+            <span>{formatDate(new Date(), "long")}</span>
+          </Badge>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <DebtList
+              debts={debts}
+              onEdit={handleEditDebt}
+              onAdd={handleAddDebt}
+              onDeleted={loadDebts}
+            />
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center">
+                  <TrendingDown className="mr-2 h-5 w-5 text-primary" />
+                  {t("debts.planner.title")}
+                </CardTitle>
+                <CardDescription>
+                  {t("debts.planner.description")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DebtPayoffPlanner debts={debts} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* Debt Form Sidebar */}
+      <Sheet open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <SheetContent side="right" className="p-0 sm:max-w-md overflow-y-auto">
+          <SheetHeader className="p-6 pb-2">
+            <SheetTitle>
+              {selectedDebt ? t("debts.edit") : t("debts.add")}
+            </SheetTitle>
+            <SheetClose className="absolute top-4 right-4" />
+          </SheetHeader>
+          <div className="px-6 pb-6">
+            <DebtForm
+              debt={selectedDebt}
+              onClose={handleFormClose}
+              onSuccess={loadDebts}
+            />
+          </div>
+        </SheetContent>
+      </Sheet>
+    </AppLayout>
+  );
+}
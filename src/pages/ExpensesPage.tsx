@@ -8,8 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ArrowDownCircle, CalendarIcon, Plus } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function ExpensesPage() {
+  const { t } = useLanguage();
   const [filters, setFilters] = useState<TransactionFilters>({
     type: "EXPENSE",
   });
@@ -21,7 +23,7 @@ export function ExpensesPage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <ArrowDownCircle className="h-6 w-6 text-destructive" />
-            <h2 className="text-2xl font-bold">Expenses</h2>
+            <h2 className="text-2xl font-bold">{t("transactions.expenses")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -36,14 +38,14 @@ export function ExpensesPage() {
           <CardHeader className="pb-3 flex flex-row items-center justify-between">
             <CardTitle className="text-lg flex items-center">
               <ArrowDownCircle className="mr-2 h-5 w-5 text-red-500" />
-              Expense Transactions
+              {t("transactions.expenseTransactions")}
             </CardTitle>
             <Button
               onClick={() => setIsDialogOpen(true)}
               className="flex items-center gap-1 bg-red-600 hover:bg-red-700"
             >
               <Plus size={16} />
-              Add Expense
+              {t("transactions.addExpense")}
             </Button>
           </CardHeader>
           <CardContent>
@@ -80,7 +82,7 @@ export function ExpensesPage() {
             setFilters(newFilters);
           }}
           defaultType="expense"
-          title="Add Expense"
+          title={t("transactions.addExpense")}
         />
       </div>
     </AppLayout>
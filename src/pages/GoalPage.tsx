@@ -13,10 +13,12 @@ import {
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function GoalPage() {
   const { goalId } = useParams<{ goalId: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [goal, setGoal] = useState<GoalWithCategory | null>(null);
   const [isLoading, setIsLoading] = useState(goalId && goalId !== "new");
   const [error, setError] = useState<string | null>(null);
@@ -39,14 +41,14 @@ export function GoalPage() {
         setGoal(data);
       } catch (err) {
         console.error("Error fetching goal:", err);
-        setError("Failed to load goal");
+        setError(t("goals.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGoal();
-  }, [goalId]);
+  }, [goalId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -69,7 +71,7 @@ export function GoalPage() {
       navigate("/goals");
     } catch (err) {
       console.error("Error saving goal:", err);
-      setError("Failed to save goal. Please try again.");
+      setError(t("goals.saveRetryError"));
     }
   };
 
@@ -97,7 +99,7 @@ export function GoalPage() {
           </Button>
           <Target className="h-6 w-6 text-primary" />
           <h2 className="text-2xl font-bold">
-            {goalId && goalId !== "new" ? "Edit Goal" : "Add Goal"}
+            {goalId && goalId !== "new" ? t("goals.edit") : t("goals.add")}
           </h2>
         </div>
 
@@ -8,11 +8,13 @@ import { Button } from "@/components/ui/button";
 
 import { useState } from "react";
 import { GoalModal } from "../features/goals/components/GoalModal";
+import { useLanguage } from "../providers/languageUtils";
 
 export function GoalsPage() {
   const { goalId } = useParams<{ goalId: string }>();
   const navigate = useNavigate();
-  const pageTitle = "Financial Goals";
+  const { t } = useLanguage();
+  const pageTitle = t("goals.title");
   const [isGoalModalOpen, setIsGoalModalOpen] = useState(false);
 
   const handleBackToList = () => {
@@ -30,7 +32,7 @@ export function GoalsPage() {
                 size="icon"
                 onClick={handleBackToList}
                 className="mr-2"
-                aria-label="Back to goals list"
+                aria-label={t("goals.backToList")}
               >
                 <ChevronLeft size={20} />
               </Button>
@@ -44,7 +46,7 @@ export function GoalsPage() {
           <CardHeader className="pb-3 flex flex-row items-center justify-between">
             <CardTitle className="text-lg flex items-center">
               <Target className="mr-2 h-5 w-5 text-purple-500" />
-              Financial Goals
+              {t("goals.title")}
             </CardTitle>
             {!goalId && (
               <Button
@@ -52,7 +54,7 @@ export function GoalsPage() {
                 className="flex items-center gap-1 bg-purple-600 hover:bg-purple-700"
               >
                 <Plus size={16} />
-                Add Goal
+                {t("goals.add")}
               </Button>
             )}
           </CardHeader>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "../state/useAuth";
 import { AppLayout } from "../shared/components/layout";
@@ -6,7 +6,16 @@ import { GroupTransactions } from "../features/groups/components/GroupTransactio
 import { GroupBudgets } from "../features/groups/components/GroupBudgets";
 import { GroupMembers } from "../features/groups/components/GroupMembers";
 import { GroupActivityFeed } from "../features/groups/components/GroupActivityFeed";
-import { formatDate } from "../utils/formatters";
+import { GroupPresence } from "../features/groups/components/GroupPresence";
+import {
+  useGroupRealtime,
+  patchRealtimeList,
+  getRealtimeChangeId,
+  type GroupTransactionChange,
+  type GroupBudgetChange,
+} from "../features/groups/hooks/useGroupRealtime";
+import { formatCurrency, formatDate } from "../utils/formatters";
+import { useLanguage } from "../providers/languageUtils";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -57,11 +66,20 @@ import {
 } from "../api/supabase/budgetGroups";
 import {
   getGroupTransactions,
-  getGroupTransactionsSummary,
+  getGroupTransaction,
+  summarizeGroupTransactions,
 } from "../api/supabase/groupTransactions";
 import {
   getGroupBudgets,
 } from "../api/supabase/groupBudgets";
+import {
+  getGroupApprovalRules,
+  getGroupChildLimits,
+  type GroupAccess,
+  type GroupFamilyRole,
+  type GroupRole,
+} from "../api/supabase/groupPermissions";
+import type { Json } from "../lib/database.types";
 
 // Define TypeScript interfaces for our data structures
 interface BudgetGroup {
@@ -71,6 +89,8 @@ interface BudgetGroup {
   created_by: string;
   is_active: boolean;
   avatar_url: string | null;
+  child_limits?: Json;
+  approval_rules?: Json;
   created_at: string;
   updated_at: string;
   role?: string;
@@ -119,16 +139,11 @@ interface GroupActivity {
   } | null;
 }
 
-interface TransactionSummary {
-  totalIncome: number;
-  totalExpenses: number;
-  balance: number;
-}
-
 function GroupDashboardPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [groups, setGroups] = useState<BudgetGroup[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
   const [group, setGroup] = useState<BudgetGroup | null>(null);
@@ -136,8 +151,9 @@ function GroupDashboardPage() {
   const [transactions, setTransactions] = useState<GroupTransaction[]>([]);
   const [budgets, setBudgets] = useState<GroupBudget[]>([]);
   const [activity, setActivity] = useState<GroupActivity[]>([]);
-  const [summary, setSummary] = useState<TransactionSummary | null>(null);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const [userRole, setUserRole] = useState<GroupRole | null>(null);
+  const [userFamilyRole, setUserFamilyRole] =
+    useState<GroupFamilyRole | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
@@ -177,14 +193,14 @@ function GroupDashboardPage() {
         }
       } catch (err) {
         console.error("Error fetching budget groups:", err);
-        setError("Failed to load budget groups");
+        setError(t("groups.dashboard.loadGroupsFailed"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGroups();
-  }, [user, id]);
+  }, [user, id, t]);
 
   // Fetch selected group data
   useEffect(() => {
@@ -207,7 +223,7 @@ function GroupDashboardPage() {
         }
         if (!groupData) {
           console.error("Group not found");
-          throw new Error("Group not found");
+          throw new Error(t("groups.detail.notFound"));
         }
 
         console.log("Group data received:", groupData);
@@ -241,6 +257,10 @@ function GroupDashboardPage() {
 
         console.log("User role received:", roleData);
         setUserRole(roleData?.role || null);
+        setUserFamilyRole(
+          membersData?.find((member) => member.user_id === user.id)
+            ?.family_role || null
+        );
 
         // Fetch group transactions
         console.log("Fetching group transactions");
@@ -307,29 +327,16 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
           // Don't throw, just log the error and continue
           console.warn("Continuing without activity data");
         }
-
-        // Fetch transactions summary
-        console.log("Fetching transactions summary");
-        const { data: summaryData, error: summaryError } =
-          await getGroupTransactionsSummary(selectedGroupId);
-
-        if (summaryError) {
-          console.error("Error fetching transactions summary:", summaryError);
-          throw summaryError;
-        }
-
-        console.log("Transactions summary received:", summaryData);
-        setSummary(summaryData);
       } catch (err) {
         console.error("Error fetching group data:", err);
-        setError("Failed to load group data. Please try again.");
+        setError(t("groups.detail.loadFailed"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchGroupData();
-  }, [user, selectedGroupId]);
+  }, [user, selectedGroupId, t]);
 
   const handleTransactionChange = async () => {
     if (!selectedGroupId) return;
@@ -346,14 +353,6 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
         (transactionsData || []) as unknown as GroupTransaction[]
       );
 
-      // Refresh summary
-      const { data: summaryData, error: summaryError } =
-        await getGroupTransactionsSummary(selectedGroupId);
-
-      if (summaryError) throw summaryError;
-
-      setSummary(summaryData);
-
       // Refresh activity
       try {
         const { data: activityData, error: activityError } =
@@ -372,7 +371,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
       }
     } catch (err) {
       console.error("Error refreshing data after transaction change:", err);
-      setError("Failed to refresh data. Please try again.");
+      setError(t("groups.page.refreshDataFailed"));
     }
   };
 
@@ -408,7 +407,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
       }
     } catch (err) {
       console.error("Error refreshing data after budget change:", err);
-      setError("Failed to refresh data. Please try again.");
+      setError(t("groups.page.refreshDataFailed"));
     }
   };
 
@@ -418,6 +417,94 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
     navigate(`/group-dashboard/${groupId}`, { replace: true });
   };
 
+  // Totals follow the transactions, so they stay current with realtime changes
+  const summary = useMemo(
+    () => summarizeGroupTransactions(transactions),
+    [transactions]
+  );
+
+  const access = useMemo<GroupAccess>(
+    () => ({
+      role: userRole,
+      familyRole: userFamilyRole,
+      childLimits: getGroupChildLimits(group?.child_limits),
+      approvalRules: getGroupApprovalRules(group?.approval_rules),
+    }),
+    [userRole, userFamilyRole, group?.child_limits, group?.approval_rules]
+  );
+
+  const refreshActivity = async () => {
+    if (!selectedGroupId) return;
+
+    const { data, error } = await getGroupActivity(selectedGroupId);
+    if (error) {
+      console.warn("Error refreshing activity data:", error);
+    } else {
+      setActivity((data || []) as unknown as GroupActivity[]);
+    }
+  };
+
+  const refreshMembers = async () => {
+    if (!selectedGroupId) return;
+
+    const { data, error } = await getGroupMembers(selectedGroupId);
+    if (error) {
+      console.warn("Error refreshing group members:", error);
+    } else {
+      setMembers((data || []) as unknown as GroupMember[]);
+    }
+  };
+
+  const handleRealtimeTransaction = async (change: GroupTransactionChange) => {
+    const transactionId = getRealtimeChangeId(change);
+    let transaction: GroupTransaction | undefined;
+    if (change.eventType !== "DELETE") {
+      // The change doesn't include the category and creator
+      const { data, error } = await getGroupTransaction(transactionId);
+      if (error) console.warn("Error loading changed transaction:", error);
+      transaction = data || undefined;
+    }
+    setTransactions((current) => {
+      // If the full row couldn't be loaded, keep the row with the columns the
+      // change does include instead of dropping it
+      const item =
+        transaction ??
+        (change.eventType === "DELETE"
+          ? undefined
+          : {
+              ...current.find((existing) => existing.id === transactionId),
+              ...change.new,
+            });
+      return patchRealtimeList(
+        current,
+        { eventType: change.eventType, id: transactionId },
+        item,
+        (a, b) => b.date.localeCompare(a.date)
+      );
+    });
+  };
+
+  const handleRealtimeBudget = (change: GroupBudgetChange) => {
+    setBudgets((current) =>
+      patchRealtimeList(
+        current,
+        { eventType: change.eventType, id: getRealtimeChangeId(change) },
+        change.eventType === "DELETE" ? undefined : change.new,
+        (a, b) => a.name.localeCompare(b.name)
+      )
+    );
+  };
+
+  // Real-time updates from other members, and who else is viewing the group
+  const { onlineUserIds } = useGroupRealtime({
+    groupId: selectedGroupId || "",
+    onMembers: refreshMembers,
+    onActivity: refreshActivity,
+    onTransactionChange: handleRealtimeTransaction,
+    onBudgetChange: handleRealtimeBudget,
+    presenceUserId: user?.id,
+  });
+
 
   if (isLoading) {
     return (
@@ -445,7 +532,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h1 className="text-3xl font-bold tracking-tight">
-              Household Dashboard
+              {t("groups.dashboard.title")}
             </h1>
             <Button
               onClick={() => navigate("/dashboard")}
@@ -453,20 +540,21 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               className="gap-2"
             >
               <Home className="h-4 w-4" />
-              Personal Dashboard
+              {t("groups.dashboard.personal")}
             </Button>
           </div>
 
           <Card className="p-6 text-center">
             <div className="flex flex-col items-center justify-center space-y-4 py-8">
               <Users className="h-12 w-12 text-muted-foreground" />
-              <h2 className="text-2xl font-semibold">No Budget Groups Found</h2>
+              <h2 className="text-2xl font-semibold">
+                {t("groups.dashboard.noGroups")}
+              </h2>
               <p className="text-muted-foreground max-w-md mx-auto">
-                You don't have unknown budget groups yet. Create a group to start
-                managing household finances together.
+                {t("groups.dashboard.noGroupsHelp")}
               </p>
               <Button onClick={() => navigate("/groups/new")} size="lg">
-                Create a Budget Group
+                {t("groups.dashboard.createGroup")}
               </Button>
             </div>
           </Card>
@@ -481,7 +569,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h1 className="text-3xl font-bold tracking-tight">
-              Household Dashboard
+              {t("groups.dashboard.title")}
             </h1>
             <Button
               onClick={() => navigate("/dashboard")}
@@ -489,19 +577,21 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               className="gap-2"
             >
               <Home className="h-4 w-4" />
-              Personal Dashboard
+              {t("groups.dashboard.personal")}
             </Button>
           </div>
 
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Error</AlertTitle>
+            <AlertTitle>{t("common.error")}</AlertTitle>
             <AlertDescription>
-              {error || "Failed to load group data"}
+              {error || t("groups.dashboard.loadFailed")}
             </AlertDescription>
           </Alert>
 
-          <Button onClick={() => navigate("/groups")}>View All Groups</Button>
+          <Button onClick={() => navigate("/groups")}>
+            {t("groups.dashboard.viewAllGroups")}
+          </Button>
         </div>
       </AppLayout>
     );
@@ -529,7 +619,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                     onValueChange={handleGroupChange}
                   >
                     <SelectTrigger className="w-[200px] border-none shadow-none p-0 h-auto text-xl font-bold focus:ring-0">
-                      <SelectValue placeholder="Select a group" />
+                      <SelectValue placeholder={t("groups.dashboard.selectGroup")} />
                     </SelectTrigger>
                     <SelectContent>
                       {groups.map((g) => (
@@ -555,7 +645,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   </Select>
                   {userRole && (
                     <Badge variant="secondary" className="ml-1">
-                      {userRole.charAt(0).toUpperCase() + userRole.slice(1)}
+                      {t(`groups.roles.${userRole as GroupMember["role"]}`)}
                     </Badge>
                   )}
                 </div>
@@ -566,14 +656,19 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
             </div>
           </div>
 
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            <GroupPresence
+              members={members}
+              onlineUserIds={onlineUserIds}
+              currentUserId={user?.id || ""}
+            />
             <Button
               onClick={() => navigate(`/groups/${selectedGroupId}`)}
               variant="outline"
               className="gap-2"
             >
               <Settings className="h-4 w-4" />
-              Group Settings
+              {t("groups.dashboard.groupSettings")}
             </Button>
             <Button
               onClick={() => navigate("/dashboard")}
@@ -581,7 +676,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               className="gap-2"
             >
               <Home className="h-4 w-4" />
-              Personal Dashboard
+              {t("groups.dashboard.personal")}
             </Button>
           </div>
         </div>
@@ -591,22 +686,28 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
           <TabsList className="grid grid-cols-4 w-full sm:w-auto">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <LayoutDashboard className="h-4 w-4" />
-              <span className="hidden sm:inline">Overview</span>
+              <span className="hidden sm:inline">{t("groups.dashboard.overview")}</span>
             </TabsTrigger>
             <TabsTrigger
               value="transactions"
               className="flex items-center gap-2"
             >
               <CreditCard className="h-4 w-4" />
-              <span className="hidden sm:inline">Transactions</span>
+              <span className="hidden sm:inline">
+                {t("transactions.title")}
+              </span>
             </TabsTrigger>
             <TabsTrigger value="budgets" className="flex items-center gap-2">
               <PiggyBank className="h-4 w-4" />
-              <span className="hidden sm:inline">Budgets</span>
+              <span className="hidden sm:inline">
+                {t("groups.budgets.title")}
+              </span>
             </TabsTrigger>
             <TabsTrigger value="members" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
-              <span className="hidden sm:inline">Members</span>
+              <span className="hidden sm:inline">
+                {t("groups.members.title")}
+              </span>
             </TabsTrigger>
           </TabsList>
         </Tabs>
@@ -618,12 +719,12 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium flex items-center gap-2">
                   <ArrowUpCircle className="h-4 w-4 text-green-500" />
-                  Total Income
+                  {t("groups.dashboard.totalIncome")}
                 </CardTitle>
               </CardHeader>
               <CardContent className="pb-2">
                 <div className="text-2xl font-bold text-green-500">
-                  ${summary.totalIncome.toFixed(2)}
+                  {formatCurrency(summary.totalIncome)}
                 </div>
                 <div className="mt-2">
                   <Progress
@@ -635,19 +736,19 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               </CardContent>
               <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
                 <Calendar className="h-3 w-3 mr-1" />
-                Current month
+                {t("groups.dashboard.currentMonth")}
               </CardFooter>
             </Card>
             <Card className="overflow-hidden">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium flex items-center gap-2">
                   <ArrowDownCircle className="h-4 w-4 text-red-500" />
-                  Total Expenses
+                  {t("groups.dashboard.totalExpenses")}
                 </CardTitle>
               </CardHeader>
               <CardContent className="pb-2">
                 <div className="text-2xl font-bold text-red-500">
-                  ${summary.totalExpenses.toFixed(2)}
+                  {formatCurrency(summary.totalExpenses)}
                 </div>
                 <div className="mt-2">
                   <Progress
@@ -659,7 +760,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               </CardContent>
               <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground">
                 <Calendar className="h-3 w-3 mr-1" />
-                Current month
+                {t("groups.dashboard.currentMonth")}
               </CardFooter>
             </Card>
             <Card className="overflow-hidden">
@@ -670,7 +771,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   ) : (
                     <ArrowDownCircle className="h-4 w-4 text-red-500" />
                   )}
-                  Balance
+                  {t("groups.detail.balance")}
                 </CardTitle>
               </CardHeader>
               <CardContent className="pb-2">
@@ -679,7 +780,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                     summary.balance >= 0 ? "text-green-500" : "text-red-500"
                   }`}
                 >
-                  ${summary.balance.toFixed(2)}
+                  {formatCurrency(summary.balance)}
                 </div>
                 <div className="mt-2">
                   {summary.totalIncome > 0 && (
@@ -696,15 +797,16 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               <CardFooter className="pt-0 pb-3 text-xs text-muted-foreground flex justify-between">
                 <div>
                   <Calendar className="h-3 w-3 mr-1 inline" />
-                  Current month
+                  {t("groups.dashboard.currentMonth")}
                 </div>
                 <div>
                   {summary.totalIncome > 0 && (
                     <span>
-                      {Math.round(
-                        (summary.balance / summary.totalIncome) * 100
-                      )}
-                      % of income
+                      {t("groups.dashboard.percentOfIncome", {
+                        percent: Math.round(
+                          (summary.balance / summary.totalIncome) * 100
+                        ),
+                      })}
                     </span>
                   )}
                 </div>
@@ -724,7 +826,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <Receipt className="mr-2 h-5 w-5" />
-                      Recent Transactions
+                      {t("groups.dashboard.recentTransactions")}
                     </CardTitle>
                     <Button
                       variant="ghost"
@@ -732,18 +834,19 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                       className="gap-1"
                       onClick={() => setActiveTab("transactions")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
                   <CardContent>
                     <GroupTransactions
                       groupId={selectedGroupId || ""}
-                      transactions={transactions.slice(0, 5).map(t => ({
-  ...t,
-  status: t.status === "pending" || t.status === "completed" || t.status === "cancelled" ? t.status : "pending"
+                      members={members}
+                      transactions={transactions.slice(0, 5).map(tx => ({
+  ...tx,
+  status: tx.status === "pending" || tx.status === "completed" || tx.status === "cancelled" || tx.status === "rejected" ? tx.status : "pending"
 })) as GroupTransaction[]}
-                      userRole={userRole || ""}
+                      access={access}
                       onChange={handleTransactionChange}
                       
                     />
@@ -755,7 +858,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <PiggyBank className="mr-2 h-5 w-5" />
-                      Budget Progress
+                      {t("groups.dashboard.budgetProgress")}
                     </CardTitle>
                     <Button
                       variant="ghost"
@@ -763,7 +866,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                       className="gap-1"
                       onClick={() => setActiveTab("budgets")}
                     >
-                      View All
+                      {t("common.viewAll")}
                       <ArrowRight className="h-4 w-4" />
                     </Button>
                   </CardHeader>
@@ -771,7 +874,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                     <GroupBudgets
                       groupId={selectedGroupId || ""}
                       budgets={budgets.slice(0, 3) as GroupBudget[]}
-                      userRole={userRole || ""}
+                      access={access}
                       onChange={handleBudgetChange}
                       
                     />
@@ -784,7 +887,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-lg flex items-center">
                     <Users className="mr-2 h-5 w-5" />
-                    Group Members
+                    {t("groups.dashboard.groupMembers")}
                   </CardTitle>
                   <Button
                     variant="ghost"
@@ -800,9 +903,9 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   <GroupMembers
                     groupId={selectedGroupId || ""}
                     members={members}
-                    userRole={userRole || ""}
+                    access={access}
                     currentUserId={user?.id || ""}
-                    
+                    onlineUserIds={onlineUserIds}
                   />
                 </CardContent>
               </Card>
@@ -813,7 +916,7 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-lg flex items-center">
                       <Activity className="mr-2 h-5 w-5" />
-                      Recent Activity
+                      {t("groups.summary.recentActivity")}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -834,17 +937,18 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               <CardHeader>
                 <CardTitle className="text-lg flex items-center">
                   <Receipt className="mr-2 h-5 w-5" />
-                  Group Transactions
+                  {t("groups.dashboard.groupTransactions")}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <GroupTransactions
                   groupId={selectedGroupId || ""}
-                  transactions={transactions.map(t => ({
-  ...t,
-  status: t.status === "pending" || t.status === "completed" || t.status === "cancelled" ? t.status : "pending"
+                  members={members}
+                  transactions={transactions.map(tx => ({
+  ...tx,
+  status: tx.status === "pending" || tx.status === "completed" || tx.status === "cancelled" || tx.status === "rejected" ? tx.status : "pending"
 })) as GroupTransaction[]}
-                  userRole={userRole || ""}
+                  access={access}
                   onChange={handleTransactionChange}
                 />
               </CardContent>
@@ -857,14 +961,14 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
               <CardHeader>
                 <CardTitle className="text-lg flex items-center">
                   <PiggyBank className="mr-2 h-5 w-5" />
-                  Group Budgets
+                  {t("groups.dashboard.groupBudgets")}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <GroupBudgets
                   groupId={selectedGroupId || ""}
                   budgets={budgets as GroupBudget[]}
-                  userRole={userRole || ""}
+                  access={access}
                   onChange={handleBudgetChange}
                 />
               </CardContent>
@@ -884,8 +988,9 @@ const convertedBudgets = (budgetsData || []).map((budget: GroupBudget) => ({
                 <GroupMembers
                   groupId={selectedGroupId || ""}
                   members={members}
-                  userRole={userRole || ""}
+                  access={access}
                   currentUserId={user?.id || ""}
+                  onlineUserIds={onlineUserIds}
                 />
               </CardContent>
             </Card>
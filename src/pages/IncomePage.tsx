@@ -8,8 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ArrowUpCircle, CalendarIcon, Plus } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function IncomePage() {
+  const { t } = useLanguage();
   const [filters, setFilters] = useState<TransactionFilters>({
     type: "INCOME",
   });
@@ -21,7 +23,7 @@ export function IncomePage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <ArrowUpCircle className="h-6 w-6 text-green-600" />
-            <h2 className="text-2xl font-bold">Income</h2>
+            <h2 className="text-2xl font-bold">{t("common.income")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -36,14 +38,14 @@ export function IncomePage() {
           <CardHeader className="pb-3 flex flex-row items-center justify-between">
             <CardTitle className="text-lg flex items-center">
               <ArrowUpCircle className="mr-2 h-5 w-5 text-green-500" />
-              Income Transactions
+              {t("transactions.incomeTransactions")}
             </CardTitle>
             <Button
               onClick={() => setIsDialogOpen(true)}
               className="flex items-center gap-1 bg-green-600 hover:bg-green-700"
             >
               <Plus size={16} />
-              Add Income
+              {t("transactions.addIncome")}
             </Button>
           </CardHeader>
           <CardContent>
@@ -80,7 +82,7 @@ export function IncomePage() {
             setFilters(newFilters);
           }}
           defaultType="income"
-          title="Add Income"
+          title={t("transactions.addIncome")}
         />
       </div>
     </AppLayout>
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/componen
 import { Button } from "@/components/ui/button";
 import { Loader2, AlertCircle } from "lucide-react";
 import { supabase } from "../api/supabase/client";
+import { useLanguage } from "../providers/languageUtils";
 
 interface Invitation {
   id: string;
@@ -16,6 +17,7 @@ interface Invitation {
 export function InvitationPage() {
   const { token } = useParams<{ token: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [invitation, setInvitation] = useState<Invitation | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -43,26 +45,26 @@ export function InvitationPage() {
           .eq("token", token)
           .single();
         
-        if (error) throw new Error("Invitation not found or expired.");
-        if (!data) throw new Error("Invitation not found.");
+        if (error) throw new Error(t("groups.invitation.notFoundOrExpired"));
+        if (!data) throw new Error(t("groups.invitation.notFound"));
         
         // Format the data to match our Invitation interface
         setInvitation({
           id: data.id,
           group_id: data.group_id,
-          group_name: data.budget_groups?.name || "Budget Group",
+          group_name: data.budget_groups?.name || t("groups.invitation.defaultGroupName"),
           email: data.email,
           status: (data.status === 'rejected' ? 'expired' : data.status) as 'pending' | 'accepted' | 'expired'
         });
       } catch (err) {
-        setError(err instanceof Error ? err.message : String(err) || "Unknown error");
+        setError(err instanceof Error ? err.message : String(err) || t("groups.invitation.unknownError"));
       } finally {
         setLoading(false);
       }
     }
     
     fetchInvitation();
-  }, [token]);
+  }, [token, t]);
 
   const handleAccept = async () => {
     if (!invitation) return;
@@ -84,7 +86,7 @@ export function InvitationPage() {
       
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to accept invitation");
+        throw new Error(errorData.error || t("groups.invitation.acceptFailed"));
       }
       
       setAccepted(true);
@@ -93,7 +95,7 @@ export function InvitationPage() {
         navigate(`/groups/${invitation.group_id}`);
       }, 1200);
     } catch (err) {
-      setError(err instanceof Error ? err.message : String(err) || "Unknown error");
+      setError(err instanceof Error ? err.message : String(err) || t("groups.invitation.unknownError"));
     } finally {
       setAccepting(false);
     }
@@ -112,7 +114,7 @@ export function InvitationPage() {
       <div className="flex flex-col items-center justify-center min-h-[60vh]">
         <AlertCircle className="text-destructive h-8 w-8 mb-2" />
         <div className="text-destructive font-medium">{error}</div>
-        <Button className="mt-6" onClick={() => window.location.href = '/'}>Back to Home</Button>
+        <Button className="mt-6" onClick={() => window.location.href = '/'}>{t("groups.invitation.backHome")}</Button>
       </div>
     );
   }
@@ -123,14 +125,14 @@ export function InvitationPage() {
     <div className="flex justify-center items-center min-h-[60vh] bg-gradient-to-br from-blue-50 to-purple-50">
       <Card className="max-w-lg w-full shadow-lg border-2 border-blue-100">
         <CardHeader>
-          <CardTitle>You're Invited to Join a Group!</CardTitle>
+          <CardTitle>{t("groups.invitation.title")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="mb-3 text-sm text-muted-foreground">
-            Accept this invitation to join <span className="font-semibold text-blue-700">{invitation.group_name}</span> as <span className="font-semibold text-blue-700">{invitation.email}</span>.
+            {t("groups.invitation.joinPrefix")} <span className="font-semibold text-blue-700">{invitation.group_name}</span> {t("groups.invitation.joinAs")} <span className="font-semibold text-blue-700">{invitation.email}</span>{t("groups.invitation.joinSuffix")}
           </div>
           <div className="mb-2 flex items-center gap-2">
-            <span className="font-semibold">Status:</span>
+            <span className="font-semibold">{t("groups.invitation.status")}</span>
             <span className={
               invitation.status === "pending"
                 ? "text-yellow-600"
@@ -138,12 +140,12 @@ export function InvitationPage() {
                 ? "text-green-600"
                 : "text-gray-400 line-through"
             }>
-              {invitation.status.charAt(0).toUpperCase() + invitation.status.slice(1)}
+              {t(`groups.invitation.statuses.${invitation.status}`)}
             </span>
           </div>
           {accepted && (
             <div className="mt-4 p-3 rounded bg-green-50 text-green-800 border border-green-200">
-              Invitation accepted! Redirecting to your group…
+              {t("groups.invitation.acceptedRedirecting")}
             </div>
           )}
         </CardContent>
@@ -152,15 +154,15 @@ export function InvitationPage() {
             <>
               <Button onClick={handleAccept} disabled={accepting}>
                 {accepting ? <Loader2 className="animate-spin h-4 w-4 mr-2" /> : null}
-                Accept Invitation
+                {t("groups.invitation.accept")}
               </Button>
               <Button variant="outline" onClick={() => window.location.href = '/'}>
-                Decline
+                {t("groups.invitations.decline")}
               </Button>
             </>
           )}
           {accepted && (
-            <span className="text-green-700 font-medium">Accepted! Redirecting…</span>
+            <span className="text-green-700 font-medium">{t("groups.invitation.redirecting")}</span>
           )}
         </CardFooter>
       </Card>
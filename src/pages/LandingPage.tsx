@@ -5,11 +5,13 @@ import {
   RegisterForm,
   PasswordResetForm,
 } from "../features/auth/components";
+import { useLanguage } from "../providers/languageUtils";
 
 type AuthView = "login" | "register" | "reset-password";
 
 export function LandingPage() {
   const location = useLocation();
+  const { t } = useLanguage();
   const pathname = location.pathname;
 
   // Determine which form to show based on the URL path
@@ -30,11 +32,8 @@ export function LandingPage() {
       {/* Left side - Feature highlights */}
       <div className="hidden lg:flex lg:flex-1 bg-primary text-primary-foreground p-12 flex-col justify-center">
         <div className="max-w-md mx-auto">
-          <h1 className="text-4xl font-bold mb-6">Budget Tracker</h1>
-          <p className="text-xl mb-12">
-            Take control of your finances with our powerful budgeting and
-            expense tracking tools.
-          </p>
+          <h1 className="text-4xl font-bold mb-6">{t("nav.appName")}</h1>
+          <p className="text-xl mb-12">{t("auth.landing.tagline")}</p>
 
           <div className="space-y-8">
             <div className="flex items-start">
@@ -56,11 +55,10 @@ export function LandingPage() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold mb-1">
-                  Track Your Expenses
+                  {t("auth.landing.trackTitle")}
                 </h3>
                 <p className="text-primary-foreground/80">
-                  Easily log and categorize your expenses to see where your
-                  money is going.
+                  {t("auth.landing.trackText")}
                 </p>
               </div>
             </div>
@@ -83,10 +81,11 @@ export function LandingPage() {
                 </svg>
               </div>
               <div>
-                <h3 className="text-lg font-semibold mb-1">Set Budgets</h3>
+                <h3 className="text-lg font-semibold mb-1">
+                  {t("auth.landing.budgetsTitle")}
+                </h3>
                 <p className="text-primary-foreground/80">
-                  Create custom budgets for different categories and track your
-                  progress.
+                  {t("auth.landing.budgetsText")}
                 </p>
               </div>
             </div>
@@ -110,11 +109,10 @@ export function LandingPage() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold mb-1">
-                  Visualize Your Finances
+                  {t("auth.landing.visualizeTitle")}
                 </h3>
                 <p className="text-primary-foreground/80">
-                  Get insights with beautiful charts and reports to help you
-                  make better financial decisions.
+                  {t("auth.landing.visualizeText")}
                 </p>
               </div>
             </div>
@@ -138,11 +136,10 @@ export function LandingPage() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold mb-1">
-                  Achieve Your Goals
+                  {t("auth.landing.goalsTitle")}
                 </h3>
                 <p className="text-primary-foreground/80">
-                  Set financial goals and track your progress towards achieving
-                  them.
+                  {t("auth.landing.goalsText")}
                 </p>
               </div>
             </div>
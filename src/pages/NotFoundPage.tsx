@@ -8,8 +8,11 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { AlertTriangle, Home } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function NotFoundPage() {
+  const { t } = useLanguage();
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background">
       <Card className="max-w-md w-full shadow-lg">
@@ -22,16 +25,18 @@ export function NotFoundPage() {
           <CardTitle className="text-4xl font-bold mb-2">404</CardTitle>
         </CardHeader>
         <CardContent className="text-center">
-          <h2 className="text-xl font-semibold mb-4">Page Not Found</h2>
+          <h2 className="text-xl font-semibold mb-4">
+            {t("errors.notFound.title")}
+          </h2>
           <p className="text-muted-foreground mb-6">
-            The page you are looking for doesn't exist or has been moved.
+            {t("errors.notFound.description")}
           </p>
         </CardContent>
         <CardFooter className="flex justify-center pb-6">
           <Button asChild>
             <Link to="/" className="flex items-center gap-2">
               <Home className="h-4 w-4" />
-              <span>Go back home</span>
+              <span>{t("errors.notFound.goHome")}</span>
             </Link>
           </Button>
         </CardFooter>
@@ -0,0 +1,64 @@
+import { useNavigate } from "react-router-dom";
+import { AppLayout } from "../shared/components/layout";
+import { RecurringTransactionList } from "../features/transactions/components/RecurringTransactionList";
+import { formatDate } from "../utils/formatters";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CalendarIcon, Repeat } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
+
+export function RecurringTransactionsPage() {
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/transactions")}
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <Repeat className="h-6 w-6 text-primary" />
+            <h2 className="text-2xl font-bold">
+              {t("transactions.recurring.title")}
+            </h2>
+          </div>
+          <Badge
+            variant="outline"
+            className="flex items-center gap-2 px-3 py-1"
+          >
+            <CalendarIcon className="h-4 w-4" />
+            <span>{formatDate(new Date(), "long")}</span>
+          </Badge>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center">
+              <Repeat className="mr-2 h-5 w-5 text-primary" />
+              {t("transactions.recurringTemplates")}
+            </CardTitle>
+            <CardDescription>
+              {t("transactions.recurringTemplatesDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RecurringTransactionList />
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
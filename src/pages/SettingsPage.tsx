@@ -9,8 +9,10 @@ import {
   UserSettingsForm,
   NotificationSettingsForm,
   CurrencySettingsForm,
+  ExchangeRateSettings,
   ThemeSettingsForm,
   LanguageSettingsForm,
+  DataSettings,
 } from "../features/auth/components";
 import { cn } from "@/lib/utils";
 import {
@@ -41,9 +43,10 @@ import {
   CheckCircle,
   CalendarIcon,
   Cog,
+  Database,
 } from "lucide-react";
 import { useMediaQuery } from "../hooks/useMediaQuery";
-// Translation imports removed
+import { useLanguage } from "../providers/languageUtils";
 
 import { useMemo } from "react";
 
@@ -51,6 +54,7 @@ export function SettingsPage() {
   const { tab } = useParams<{ tab?: string }>();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState(tab || "profile");
+  const { t } = useLanguage();
 
   // Settings tab items
   interface TabItem {
@@ -58,15 +62,16 @@ export function SettingsPage() {
     label: string;
   }
   const tabItems: TabItem[] = useMemo(() => [
-    { value: "profile", label: "Profile" },
-    { value: "password", label: "Password" },
-    { value: "preferences", label: "Preferences" },
-    { value: "notifications", label: "Notifications" },
-    { value: "currency", label: "Currency" },
-    { value: "theme", label: "Theme" },
-    { value: "language", label: "Language" },
-    { value: "account", label: "Account" },
-  ], []);
+    { value: "profile", label: t("settings.tabs.profile") },
+    { value: "password", label: t("settings.tabs.password") },
+    { value: "preferences", label: t("settings.tabs.preferences") },
+    { value: "notifications", label: t("settings.tabs.notifications") },
+    { value: "currency", label: t("settings.tabs.currency") },
+    { value: "theme", label: t("settings.tabs.theme") },
+    { value: "language", label: t("settings.tabs.language") },
+    { value: "data", label: t("settings.tabs.data") },
+    { value: "account", label: t("settings.tabs.account") },
+  ], [t]);
 
   // Update active tab when URL parameter changes
   useEffect(() => {
@@ -75,29 +80,30 @@ export function SettingsPage() {
     }
   }, [tab, tabItems]);
   const isMobile = useMediaQuery("(max-width: 768px)");
-  // Translation hooks removed
 
   // Helper function to get the appropriate description based on tab value
   const getSettingsDescription = (value: string) => {
     switch (value) {
       case "profile":
-        return "Manage your personal information and profile settings";
+        return t("settings.tabDescriptions.profile");
       case "password":
-        return "Update your password and security settings";
+        return t("settings.tabDescriptions.password");
       case "preferences":
-        return "Customize your app experience and default settings";
+        return t("settings.tabDescriptions.preferences");
       case "notifications":
-        return "Control how and when you receive notifications";
+        return t("settings.tabDescriptions.notifications");
       case "currency":
-        return "Set your preferred currency and format options";
+        return t("settings.tabDescriptions.currency");
       case "theme":
-        return "Choose your preferred theme and appearance settings";
+        return t("settings.tabDescriptions.theme");
       case "language":
-        return "Select your preferred language for the application";
+        return t("settings.tabDescriptions.language");
+      case "data":
+        return t("settings.tabDescriptions.data");
       case "account":
-        return "Manage your account security and connected services";
+        return t("settings.tabDescriptions.account");
       default:
-        return "Manage your settings and preferences";
+        return t("settings.tabDescriptions.default");
     }
   };
 
@@ -118,6 +124,8 @@ export function SettingsPage() {
         return <Palette className="w-4 h-4 mr-2" />;
       case "language":
         return <Languages className="w-4 h-4 mr-2" />;
+      case "data":
+        return <Database className="w-4 h-4 mr-2" />;
       case "account":
         return <Shield className="w-4 h-4 mr-2" />;
       default:
@@ -137,7 +145,7 @@ export function SettingsPage() {
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-2">
             <Cog className="h-6 w-6 text-violet-500" />
-            <h2 className="text-2xl font-bold">Settings</h2>
+            <h2 className="text-2xl font-bold">{t("settings.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -161,11 +169,9 @@ export function SettingsPage() {
               <CardHeader className="px-5 py-4">
                 <CardTitle className="text-xl font-semibold flex items-center">
                   <SettingsIcon className="mr-2 h-5 w-5 text-violet-500" />
-                  Settings
+                  {t("settings.title")}
                 </CardTitle>
-                <CardDescription>
-                  Manage your account settings and preferences
-                </CardDescription>
+                <CardDescription>{t("settings.description")}</CardDescription>
               </CardHeader>
               <Separator />
               <CardContent className="p-0">
@@ -194,7 +200,7 @@ export function SettingsPage() {
                                 variant="secondary"
                                 className="ml-auto text-xs font-normal"
                               >
-                                New
+                                {t("settings.new")}
                               </Badge>
                             )}
                             <ChevronRight
@@ -219,7 +225,7 @@ export function SettingsPage() {
                   size="sm"
                   className="w-full text-sm border-violet-200 text-violet-700 hover:bg-violet-50"
                 >
-                  Help & Support
+                  {t("settings.helpSupport")}
                 </Button>
               </CardFooter>
             </Card>
@@ -241,7 +247,7 @@ export function SettingsPage() {
                 onClick={() => navigate("/settings/profile")}
               >
                 <ArrowLeft className="mr-2 h-4 w-4" />
-                Go Back
+                {t("common.goBack")}
               </Button>
             )}
 
@@ -275,19 +281,25 @@ export function SettingsPage() {
                 {activeTab === "password" && <PasswordChangeForm />}
                 {activeTab === "preferences" && <UserSettingsForm />}
                 {activeTab === "notifications" && <NotificationSettingsForm />}
-                {activeTab === "currency" && <CurrencySettingsForm />}
+                {activeTab === "currency" && (
+                  <div className="space-y-6">
+                    <CurrencySettingsForm />
+                    <ExchangeRateSettings />
+                  </div>
+                )}
                 {activeTab === "theme" && <ThemeSettingsForm />}
                 {activeTab === "language" && <LanguageSettingsForm />}
+                {activeTab === "data" && <DataSettings />}
                 {activeTab === "account" && (
                   <div className="space-y-6">
                     <Card className="border-t-4 border-t-violet-500 shadow-sm">
                       <CardHeader>
                         <CardTitle className="flex items-center">
                           <Shield className="mr-2 h-5 w-5 text-violet-500" />
-                          Connected Services
+                          {t("settings.connected.title")}
                         </CardTitle>
                         <CardDescription>
-                          Manage your connected accounts and services
+                          {t("settings.connected.description")}
                         </CardDescription>
                       </CardHeader>
                       <CardContent>
@@ -299,11 +311,10 @@ export function SettingsPage() {
                               </div>
                               <div>
                                 <p className="font-medium">
-                                  Banking Integration
+                                  {t("settings.connected.banking")}
                                 </p>
                                 <p className="text-sm text-muted-foreground">
-                                  Connect your bank accounts for automatic
-                                  transaction import
+                                  {t("settings.connected.bankingDescription")}
                                 </p>
                               </div>
                             </div>
@@ -312,7 +323,7 @@ export function SettingsPage() {
                               size="sm"
                               className="border-violet-200 text-violet-700 hover:bg-violet-50"
                             >
-                              Connect
+                              {t("settings.connected.connect")}
                             </Button>
                           </div>
 
@@ -323,10 +334,10 @@ export function SettingsPage() {
                               </div>
                               <div>
                                 <p className="font-medium">
-                                  Two-Factor Authentication
+                                  {t("settings.connected.twoFactor")}
                                 </p>
                                 <p className="text-sm text-muted-foreground">
-                                  Add an extra layer of security to your account
+                                  {t("settings.connected.twoFactorDescription")}
                                 </p>
                               </div>
                             </div>
@@ -335,7 +346,7 @@ export function SettingsPage() {
                               size="sm"
                               className="border-violet-200 text-violet-700 hover:bg-violet-50"
                             >
-                              Setup
+                              {t("settings.connected.setup")}
                             </Button>
                           </div>
 
@@ -346,11 +357,11 @@ export function SettingsPage() {
                               </div>
                               <div>
                                 <p className="font-medium">
-                                  Data Synchronization
+                                  {t("settings.connected.sync")}
                                 </p>
                                 <div className="flex items-center text-sm text-muted-foreground">
                                   <CheckCircle className="w-3 h-3 mr-1 text-green-500" />{" "}
-                                  Last synced 5 minutes ago
+                                  {t("settings.connected.lastSynced")}
                                 </div>
                               </div>
                             </div>
@@ -359,7 +370,7 @@ export function SettingsPage() {
                               size="sm"
                               className="border-violet-200 text-violet-700 hover:bg-violet-50"
                             >
-                              Sync Now
+                              {t("settings.connected.syncNow")}
                             </Button>
                           </div>
                         </div>
@@ -7,10 +7,12 @@ import { getTagById, type Tag } from "../api/supabase/tags";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle } from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function TagPage() {
   const { tagId } = useParams<{ tagId: string }>();
   const navigate = useNavigate();
+  const { t } = useLanguage();
   const [tag, setTag] = useState<Tag | null>(null);
   const [isLoading, setIsLoading] = useState(tagId && tagId !== "new");
   const [error, setError] = useState<string | null>(null);
@@ -33,14 +35,14 @@ export function TagPage() {
         setTag(data);
       } catch (err) {
         console.error("Error fetching tag:", err);
-        setError("Failed to load tag");
+        setError(t("tags.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTag();
-  }, [tagId]);
+  }, [tagId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -74,7 +76,7 @@ export function TagPage() {
           </Button>
           <TagIcon className="h-6 w-6 text-primary" />
           <h2 className="text-2xl font-bold">
-            {tagId && tagId !== "new" ? "Edit Tag" : "Add Tag"}
+            {tagId && tagId !== "new" ? t("tags.edit") : t("tags.add")}
           </h2>
         </div>
 
@@ -13,8 +13,10 @@ import { Button } from "@/components/ui/button";
 import { CalendarIcon, TagIcon, Plus } from "lucide-react";
 import { useState } from "react";
 import { TagModal } from "../features/tags/components/TagModal";
+import { useLanguage } from "../providers/languageUtils";
 
 export function TagsPage() {
+  const { t } = useLanguage();
   const [isTagModalOpen, setIsTagModalOpen] = useState(false);
 
   return (
@@ -23,7 +25,7 @@ export function TagsPage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <TagIcon className="h-6 w-6 text-indigo-500" />
-            <h2 className="text-2xl font-bold">Tags</h2>
+            <h2 className="text-2xl font-bold">{t("tags.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -39,11 +41,10 @@ export function TagsPage() {
             <div>
               <CardTitle className="text-lg flex items-center">
                 <TagIcon className="mr-2 h-5 w-5 text-indigo-500" />
-                Tag Management
+                {t("tags.management")}
               </CardTitle>
               <CardDescription>
-                Manage your transaction tags. Tags help you organize and filter
-                your transactions across categories.
+                {t("tags.managementDescription")}
               </CardDescription>
             </div>
             <Button
@@ -51,7 +52,7 @@ export function TagsPage() {
               className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700"
             >
               <Plus size={16} />
-              Add Tag
+              {t("tags.add")}
             </Button>
           </CardHeader>
           <CardContent>
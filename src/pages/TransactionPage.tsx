@@ -5,11 +5,13 @@ import { AppLayout } from "../shared/components/layout";
 import { TransactionForm } from "../features/transactions/components/TransactionForm";
 import { getTransactionById, Transaction } from "../api/supabase/transactions";
 import { Button } from "@/components/ui/button";
+import { useLanguage } from "../providers/languageUtils";
 
 export function TransactionPage() {
   const { transactionId } = useParams<{ transactionId: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const { t } = useLanguage();
   const [transaction, setTransaction] = useState<Transaction | null>(null);
   const [isLoading, setIsLoading] = useState(!!transactionId);
   const [error, setError] = useState<string | null>(null);
@@ -32,14 +34,14 @@ export function TransactionPage() {
         setTransaction(data as Transaction);
       } catch (err) {
         console.error("Error fetching transaction:", err);
-        setError("Failed to load transaction");
+        setError(t("transactions.loadOneError"));
       } finally {
         setIsLoading(false);
       }
     }
 
     fetchTransaction();
-  }, [transactionId]);
+  }, [transactionId, t]);
 
   const handleClose = () => {
     navigate(-1);
@@ -82,7 +84,7 @@ export function TransactionPage() {
             <ChevronLeft size={20} />
           </Button>
           <h2 className="text-2xl font-bold">
-            {transactionId ? "Edit Transaction" : "Add Transaction"}
+            {transactionId ? t("transactions.edit") : t("transactions.add")}
           </h2>
         </div>
 
@@ -1,15 +1,33 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { AppLayout } from "../shared/components/layout";
 import { TransactionList } from "../features/transactions/components/TransactionList";
 import { TransactionDialog } from "../features/transactions/components/TransactionDialog";
+import { TransactionImportDialog } from "../features/transactions/components/TransactionImportDialog";
+import { TransferSidebarModal } from "../features/transactions/components/TransferForm";
 import { formatDate } from "../utils/formatters";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { CalendarIcon, ListIcon, Plus } from "lucide-react";
+import {
+  ArrowRightLeft,
+  CalendarIcon,
+  Copy,
+  ListIcon,
+  Plus,
+  Repeat,
+  Upload,
+} from "lucide-react";
+import { useLanguage } from "../providers/languageUtils";
 
 export function TransactionsPage() {
+  const navigate = useNavigate();
+  const { t } = useLanguage();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  // Bumped after an import or transfer to remount the list and refetch
+  const [listKey, setListKey] = useState(0);
 
   return (
     <AppLayout>
@@ -17,7 +35,7 @@ export function TransactionsPage() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <ListIcon className="h-6 w-6 text-primary" />
-            <h2 className="text-2xl font-bold">Transactions</h2>
+            <h2 className="text-2xl font-bold">{t("transactions.title")}</h2>
           </div>
           <Badge
             variant="outline"
@@ -32,18 +50,56 @@ export function TransactionsPage() {
           <CardHeader className="pb-3 flex flex-row items-center justify-between">
             <CardTitle className="text-lg flex items-center">
               <ListIcon className="mr-2 h-5 w-5 text-primary" />
-              All Transactions
+              {t("transactions.all")}
             </CardTitle>
-            <Button
-              onClick={() => setIsDialogOpen(true)}
-              className="flex items-center gap-1"
-            >
-              <Plus size={16} />
-              Add Transaction
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => navigate("/transactions/recurring")}
+                className="flex items-center gap-1"
+              >
+                <Repeat size={16} />
+                {t("transactions.recurringShort")}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate("/transactions/duplicates")}
+                className="flex items-center gap-1"
+              >
+                <Copy size={16} />
+                {t("transactions.reviewDuplicates")}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center gap-1"
+              >
+                <Upload size={16} />
+                {t("transactions.importShort")}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsTransferOpen(true)}
+                className="flex items-center gap-1"
+              >
+                <ArrowRightLeft size={16} />
+                {t("common.transfer")}
+              </Button>
+              <Button
+                onClick={() => setIsDialogOpen(true)}
+                className="flex items-center gap-1"
+              >
+                <Plus size={16} />
+                {t("transactions.add")}
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
-            <TransactionList showFilters={true} showAddButton={true} />
+            <TransactionList
+              key={listKey}
+              showFilters={true}
+              showAddButton={true}
+            />
           </CardContent>
         </Card>
 
@@ -54,7 +110,21 @@ export function TransactionsPage() {
           onSuccess={() => {
             setIsDialogOpen(false);
           }}
-          title="Add Transaction"
+          title={t("transactions.add")}
+        />
+
+        {/* Transfer Form */}
+        <TransferSidebarModal
+          isOpen={isTransferOpen}
+          onClose={() => setIsTransferOpen(false)}
+          onSuccess={() => setListKey((key) => key + 1)}
+        />
+
+        {/* Statement Import Dialog */}
+        <TransactionImportDialog
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onSuccess={() => setListKey((key) => key + 1)}
         />
       </div>
     </AppLayout>
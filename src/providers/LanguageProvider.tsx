@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "../state/useAuth";
+import {
+  DEFAULT_LANGUAGE,
+  isLanguage,
+  Language,
+  setLanguage as setCurrentLanguage,
+  translate,
+} from "../i18n";
+import {
+  LANGUAGE_STORAGE_KEY,
+  LanguageProviderContext,
+  LanguageProviderProps,
+  LanguageProviderState,
+} from "./languageUtils";
+
+export function LanguageProvider({ children }: LanguageProviderProps) {
+  const { userSettings } = useAuth();
+
+  const [language, setLanguageState] = useState<Language>(() => {
+    const storedLanguage = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    const initialLanguage = isLanguage(storedLanguage)
+      ? storedLanguage
+      : DEFAULT_LANGUAGE;
+
+    setCurrentLanguage(initialLanguage);
+    return initialLanguage;
+  });
+
+  const setLanguage = useCallback((next: Language) => {
+    // Switch the shared language first so formatters used while
+    // re-rendering already pick it up
+    setCurrentLanguage(next);
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+    setLanguageState(next);
+  }, []);
+
+  // Follow the Language setting whenever the user's settings load or change
+  const settingsLanguage = userSettings?.language;
+  useEffect(() => {
+    if (isLanguage(settingsLanguage)) {
+      setLanguage(settingsLanguage);
+    }
+  }, [settingsLanguage, setLanguage]);
+
+  const value: LanguageProviderState = useMemo(
+    () => ({
+      language,
+      setLanguage,
+      t: (key, values) => translate(key, values, language),
+    }),
+    [language, setLanguage]
+  );
+
+  return (
+    <LanguageProviderContext.Provider value={value}>
+      {children}
+    </LanguageProviderContext.Provider>
+  );
+}
@@ -0,0 +1,40 @@
+import { createContext, useContext } from "react";
+import { ReactNode } from "react";
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  translate,
+  TranslationKey,
+  TranslationValues,
+} from "../i18n";
+
+export type LanguageProviderProps = {
+  children: ReactNode;
+};
+
+export type LanguageProviderState = {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: TranslationKey, values?: TranslationValues) => string;
+};
+
+export const initialState: LanguageProviderState = {
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => null,
+  t: (key, values) => translate(key, values, DEFAULT_LANGUAGE),
+};
+
+export const LanguageProviderContext =
+  createContext<LanguageProviderState>(initialState);
+
+// Remembers the language for the sign-in screens, before settings load
+export const LANGUAGE_STORAGE_KEY = "budget-tracker-language";
+
+export const useLanguage = () => {
+  const context = useContext(LanguageProviderContext);
+
+  if (context === undefined)
+    throw new Error("useLanguage must be used within a LanguageProvider");
+
+  return context;
+};
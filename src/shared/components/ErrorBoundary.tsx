@@ -1,5 +1,6 @@
 import { Component, ErrorInfo, ReactNode } from "react";
 import { AlertTriangle, RefreshCw } from "lucide-react";
+import { translate } from "../../i18n";
 
 interface Props {
   children: ReactNode;
@@ -54,11 +55,10 @@ export class ErrorBoundary extends Component<Props, State> {
         <div className="flex flex-col items-center justify-center p-8 bg-white rounded-lg shadow-md">
           <AlertTriangle size={48} className="text-red-500 mb-4" />
           <h2 className="text-xl font-bold text-gray-800 mb-2">
-            Something went wrong
+            {translate("errors.boundary.title")}
           </h2>
           <p className="text-gray-600 mb-4 text-center max-w-md">
-            We're sorry, but an error occurred while rendering this component.
-            You can try refreshing the page or resetting the component.
+            {translate("errors.boundary.description")}
           </p>
           {process.env.NODE_ENV === "development" && this.state.error && (
             <div className="bg-gray-100 p-4 rounded-md mb-4 w-full max-w-md overflow-auto">
@@ -68,7 +68,7 @@ export class ErrorBoundary extends Component<Props, State> {
               {this.state.errorInfo && (
                 <details className="mt-2">
                   <summary className="text-sm text-gray-700 cursor-pointer">
-                    Stack trace
+                    {translate("errors.boundary.stackTrace")}
                   </summary>
                   <pre className="mt-2 text-xs text-gray-600 overflow-auto max-h-64">
                     {this.state.errorInfo.componentStack}
@@ -82,7 +82,7 @@ export class ErrorBoundary extends Component<Props, State> {
             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
           >
             <RefreshCw size={16} className="mr-2" />
-            Try Again
+            {translate("errors.boundary.tryAgain")}
           </button>
         </div>
       );
@@ -1,4 +1,5 @@
 import { X, HelpCircle, Keyboard } from "lucide-react";
+import { useLanguage } from "../../providers/languageUtils";
 
 interface HelpModalProps {
   isOpen: boolean;
@@ -6,6 +7,8 @@ interface HelpModalProps {
 }
 
 export function HelpModal({ isOpen, onClose }: HelpModalProps) {
+  const { t } = useLanguage();
+
   if (!isOpen) return null;
 
   return (
@@ -14,7 +17,7 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold text-gray-900 flex items-center">
             <HelpCircle size={24} className="mr-2 text-blue-600" />
-            Help & Keyboard Shortcuts
+            {t("nav.helpModal.title")}
           </h2>
           <button
             onClick={onClose}
@@ -29,39 +32,53 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
           <section>
             <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
               <Keyboard size={20} className="mr-2 text-blue-600" />
-              Keyboard Shortcuts
+              {t("nav.helpModal.shortcuts")}
             </h3>
             <div className="bg-gray-50 rounded-md p-4">
               <div className="grid grid-cols-2 gap-4">
                 <div className="col-span-2 md:col-span-1">
-                  <h4 className="font-medium text-gray-700 mb-2">Navigation</h4>
+                  <h4 className="font-medium text-gray-700 mb-2">
+                    {t("nav.helpModal.navigation")}
+                  </h4>
                   <ul className="space-y-2">
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Go to Dashboard</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.goTo", { page: t("nav.dashboard") })}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         G + D
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Go to Transactions</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.goTo", {
+                          page: t("nav.transactions"),
+                        })}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         G + T
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Go to Budgets</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.goTo", { page: t("nav.budgets") })}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         G + B
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Go to Goals</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.goTo", { page: t("nav.goals") })}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         G + G
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Go to Bills</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.goTo", { page: t("nav.bills") })}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         G + S
                       </kbd>
@@ -69,34 +86,40 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
                   </ul>
                 </div>
                 <div className="col-span-2 md:col-span-1">
-                  <h4 className="font-medium text-gray-700 mb-2">Actions</h4>
+                  <h4 className="font-medium text-gray-700 mb-2">
+                    {t("nav.helpModal.actions")}
+                  </h4>
                   <ul className="space-y-2">
                     <li className="flex justify-between">
-                      <span className="text-gray-600">New Transaction</span>
+                      <span className="text-gray-600">
+                        {t("nav.helpModal.newTransaction")}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         N + T
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">New Budget</span>
+                      <span className="text-gray-600">
+                        {t("nav.newBudget")}
+                      </span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         N + B
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">New Goal</span>
+                      <span className="text-gray-600">{t("nav.newGoal")}</span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         N + G
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Search</span>
+                      <span className="text-gray-600">{t("nav.search")}</span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         /
                       </kbd>
                     </li>
                     <li className="flex justify-between">
-                      <span className="text-gray-600">Help</span>
+                      <span className="text-gray-600">{t("nav.help")}</span>
                       <kbd className="px-2 py-1 bg-gray-200 rounded text-sm">
                         ?
                       </kbd>
@@ -110,46 +133,35 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
           {/* Getting Started Section */}
           <section>
             <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Getting Started
+              {t("nav.helpModal.gettingStarted")}
             </h3>
             <div className="space-y-4">
               <div className="bg-blue-50 p-4 rounded-md">
                 <h4 className="font-medium text-blue-800 mb-2">
-                  1. Track Your Transactions
+                  {t("nav.helpModal.step1Title")}
                 </h4>
-                <p className="text-blue-700">
-                  Start by adding your income and expenses in the Transactions
-                  section. You can categorize them and add tags for better
-                  organization.
-                </p>
+                <p className="text-blue-700">{t("nav.helpModal.step1Text")}</p>
               </div>
               <div className="bg-green-50 p-4 rounded-md">
                 <h4 className="font-medium text-green-800 mb-2">
-                  2. Create Budgets
+                  {t("nav.helpModal.step2Title")}
                 </h4>
-                <p className="text-green-700">
-                  Set up monthly budgets for different categories to help you
-                  manage your spending and stay on track with your financial
-                  goals.
-                </p>
+                <p className="text-green-700">{t("nav.helpModal.step2Text")}</p>
               </div>
               <div className="bg-purple-50 p-4 rounded-md">
                 <h4 className="font-medium text-purple-800 mb-2">
-                  3. Set Financial Goals
+                  {t("nav.helpModal.step3Title")}
                 </h4>
                 <p className="text-purple-700">
-                  Define your financial goals like saving for a vacation, buying
-                  a car, or building an emergency fund. Track your progress and
-                  make regular contributions.
+                  {t("nav.helpModal.step3Text")}
                 </p>
               </div>
               <div className="bg-yellow-50 p-4 rounded-md">
                 <h4 className="font-medium text-yellow-800 mb-2">
-                  4. Manage Bills & Subscriptions
+                  {t("nav.helpModal.step4Title")}
                 </h4>
                 <p className="text-yellow-700">
-                  Keep track of your recurring bills and subscriptions to avoid
-                  late payments and manage your cash flow better.
+                  {t("nav.helpModal.step4Text")}
                 </p>
               </div>
             </div>
@@ -158,43 +170,28 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
           {/* Tips & Tricks Section */}
           <section>
             <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Tips & Tricks
+              {t("nav.helpModal.tipsTitle")}
             </h3>
             <ul className="space-y-3 text-gray-700">
               <li className="flex items-start">
                 <span className="inline-block w-4 h-4 bg-blue-500 rounded-full mr-2 mt-1"></span>
-                <span>
-                  Use tags to further categorize your transactions for more
-                  detailed reporting.
-                </span>
+                <span>{t("nav.helpModal.tip1")}</span>
               </li>
               <li className="flex items-start">
                 <span className="inline-block w-4 h-4 bg-green-500 rounded-full mr-2 mt-1"></span>
-                <span>
-                  Review your spending patterns on the Dashboard to identify
-                  areas where you can save money.
-                </span>
+                <span>{t("nav.helpModal.tip2")}</span>
               </li>
               <li className="flex items-start">
                 <span className="inline-block w-4 h-4 bg-purple-500 rounded-full mr-2 mt-1"></span>
-                <span>
-                  Set up realistic budgets based on your historical spending to
-                  increase your chances of success.
-                </span>
+                <span>{t("nav.helpModal.tip3")}</span>
               </li>
               <li className="flex items-start">
                 <span className="inline-block w-4 h-4 bg-yellow-500 rounded-full mr-2 mt-1"></span>
-                <span>
-                  Make regular contributions to your financial goals, even if
-                  they're small amounts.
-                </span>
+                <span>{t("nav.helpModal.tip4")}</span>
               </li>
               <li className="flex items-start">
                 <span className="inline-block w-4 h-4 bg-red-500 rounded-full mr-2 mt-1"></span>
-                <span>
-                  Use the mobile view to track expenses on the go and stay on
-                  top of your finances.
-                </span>
+                <span>{t("nav.helpModal.tip5")}</span>
               </li>
             </ul>
           </section>
@@ -205,7 +202,7 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
             onClick={onClose}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
           >
-            Got it
+            {t("nav.helpModal.gotIt")}
           </button>
         </div>
       </div>
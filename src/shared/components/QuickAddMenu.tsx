@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Language provider import removed
 import {
   Plus,
   ArrowDownCircle,
@@ -24,11 +23,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useNavigate } from "react-router-dom";
+import { useLanguage } from "../../providers/languageUtils";
 
 export function QuickAddMenu() {
   const navigate = useNavigate();
   const [isOpen, setIsOpen] = useState(false);
-  // Language hooks removed
+  const { t } = useLanguage();
 
   const handleItemClick = (path: string) => {
     setIsOpen(false);
@@ -51,26 +51,26 @@ export function QuickAddMenu() {
             </DropdownMenuTrigger>
           </TooltipTrigger>
           <TooltipContent>
-            <p>Quick Add</p>
+            <p>{t("nav.quickAdd")}</p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
       <DropdownMenuContent align="end" className="w-56">
-        <DropdownMenuLabel>Quick Add</DropdownMenuLabel>
+        <DropdownMenuLabel>{t("nav.quickAdd")}</DropdownMenuLabel>
         <DropdownMenuSeparator />
         <DropdownMenuItem
           onClick={() => handleItemClick("/expenses?new=true")}
           className="cursor-pointer"
         >
           <ArrowDownCircle className="mr-2 h-4 w-4 text-red-500" />
-          <span>New Expense</span>
+          <span>{t("nav.newExpense")}</span>
         </DropdownMenuItem>
         <DropdownMenuItem
           onClick={() => handleItemClick("/income?new=true")}
           className="cursor-pointer"
         >
           <ArrowUpCircle className="mr-2 h-4 w-4 text-green-500" />
-          <span>New Income</span>
+          <span>{t("nav.newIncome")}</span>
         </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem
@@ -78,21 +78,21 @@ export function QuickAddMenu() {
           className="cursor-pointer"
         >
           <Calendar className="mr-2 h-4 w-4 text-blue-500" />
-          <span>New Budget</span>
+          <span>{t("nav.newBudget")}</span>
         </DropdownMenuItem>
         <DropdownMenuItem
           onClick={() => handleItemClick("/goals?new=true")}
           className="cursor-pointer"
         >
           <Target className="mr-2 h-4 w-4 text-purple-500" />
-          <span>New Goal</span>
+          <span>{t("nav.newGoal")}</span>
         </DropdownMenuItem>
         <DropdownMenuItem
           onClick={() => handleItemClick("/tags?new=true")}
           className="cursor-pointer"
         >
           <Tag className="mr-2 h-4 w-4 text-yellow-500" />
-          <span>New Tag</span>
+          <span>{t("nav.newTag")}</span>
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
@@ -1,5 +1,4 @@
 import { Moon, Sun, Laptop } from "lucide-react";
-// Language provider import removed
 import { Button } from "@/components/ui/button";
 import {
   Tooltip,
@@ -14,10 +13,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useTheme } from "../../providers/themeUtils";
+import { useLanguage } from "../../providers/languageUtils";
 
 export function ThemeToggle() {
   const { setTheme } = useTheme();
-  // Language hooks removed
+  const { t } = useLanguage();
 
   return (
     <DropdownMenu>
@@ -32,27 +32,27 @@ export function ThemeToggle() {
               >
                 <Sun className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
                 <Moon className="absolute h-[1.2rem] w-[1.2rem] rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-                <span className="sr-only">Theme</span>
+                <span className="sr-only">{t("nav.theme")}</span>
               </Button>
             </DropdownMenuTrigger>
           </TooltipTrigger>
           <TooltipContent>
-            <p>Theme</p>
+            <p>{t("nav.theme")}</p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
       <DropdownMenuContent align="end">
         <DropdownMenuItem onClick={() => setTheme("light")}>
           <Sun className="mr-2 h-4 w-4" />
-          <span>Light Mode</span>
+          <span>{t("nav.lightMode")}</span>
         </DropdownMenuItem>
         <DropdownMenuItem onClick={() => setTheme("dark")}>
           <Moon className="mr-2 h-4 w-4" />
-          <span>Dark Mode</span>
+          <span>{t("nav.darkMode")}</span>
         </DropdownMenuItem>
         <DropdownMenuItem onClick={() => setTheme("system")}>
           <Laptop className="mr-2 h-4 w-4" />
-          <span>System Mode</span>
+          <span>{t("nav.systemMode")}</span>
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
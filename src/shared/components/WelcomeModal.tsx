@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { X, ChevronRight, ChevronLeft, Check } from "lucide-react";
-// Translation imports removed
+import { useLanguage } from "../../providers/languageUtils";
 
 interface WelcomeModalProps {
   isOpen: boolean;
@@ -8,70 +8,65 @@ interface WelcomeModalProps {
   userName?: string;
 }
 
-export function WelcomeModal({
-  isOpen,
-  onClose,
-  userName = "there",
-}: WelcomeModalProps) {
+export function WelcomeModal({ isOpen, onClose, userName }: WelcomeModalProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const totalSteps = 4;
-  // Translation hooks removed
+  const { t } = useLanguage();
 
   if (!isOpen) return null;
 
   const steps = [
     {
-      title: "Welcome to Budget Tracker",
+      title: t("nav.welcome.title"),
       content: (
         <div className="space-y-4">
           <p className="text-gray-700">
-            Welcome, {userName}! We're excited to help you manage your finances.
-          </p>
-          <p className="text-gray-700">
-            Let's take a quick tour to get you started.
+            {userName
+              ? t("nav.welcome.greeting", { name: userName })
+              : t("nav.welcome.greetingNoName")}
           </p>
+          <p className="text-gray-700">{t("nav.welcome.tour")}</p>
         </div>
       ),
     },
     {
-      title: "Track Your Transactions",
+      title: t("nav.welcome.transactionsTitle"),
       content: (
         <div className="space-y-4">
-          <p className="text-gray-700">
-            Easily record your income and expenses to keep track of your
-            spending habits.
-          </p>
+          <p className="text-gray-700">{t("nav.welcome.transactionsText")}</p>
           <div className="bg-blue-50 p-4 rounded-md">
-            <p className="text-blue-700 font-medium">Pro Tip</p>
+            <p className="text-blue-700 font-medium">
+              {t("nav.welcome.proTip")}
+            </p>
             <p className="text-blue-700">
-              Press <kbd className="px-1 bg-blue-100">N + T</kbd> to quickly add
-              a new transaction.
+              {t("nav.welcome.shortcutPrefix")}{" "}
+              <kbd className="px-1 bg-blue-100">N + T</kbd>{" "}
+              {t("nav.welcome.shortcutSuffix")}
             </p>
           </div>
         </div>
       ),
     },
     {
-      title: "Set Budgets and Goals",
+      title: t("nav.welcome.budgetsTitle"),
       content: (
         <div className="space-y-4">
-          <p className="text-gray-700">
-            Plan your finances with our budgeting and goal-setting tools.
-          </p>
+          <p className="text-gray-700">{t("nav.welcome.budgetsText")}</p>
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-green-50 p-3 rounded-md">
-              <h4 className="font-medium text-green-800 mb-1">Budgets</h4>
+              <h4 className="font-medium text-green-800 mb-1">
+                {t("nav.welcome.budgets")}
+              </h4>
               <p className="text-green-700 text-sm">
-                Create monthly budgets to control your spending in different
-                categories.
+                {t("nav.welcome.budgetsHelp")}
               </p>
             </div>
             <div className="bg-purple-50 p-3 rounded-md">
               <h4 className="font-medium text-purple-800 mb-1">
-                Savings Goals
+                {t("nav.welcome.savingsGoals")}
               </h4>
               <p className="text-purple-700 text-sm">
-                Set savings goals and track your progress over time.
+                {t("nav.welcome.savingsGoalsHelp")}
               </p>
             </div>
           </div>
@@ -79,22 +74,14 @@ export function WelcomeModal({
       ),
     },
     {
-      title: "You're All Set!",
+      title: t("nav.welcome.doneTitle"),
       content: (
         <div className="space-y-4">
-          <p className="text-gray-700">
-            You're now ready to take control of your finances with Budget
-            Tracker.
-          </p>
+          <p className="text-gray-700">{t("nav.welcome.doneText")}</p>
           <div className="bg-yellow-50 p-4 rounded-md mb-4">
-            <p className="text-yellow-700">
-              Remember to regularly update your transactions for the most
-              accurate financial picture.
-            </p>
+            <p className="text-yellow-700">{t("nav.welcome.reminder")}</p>
           </div>
-          <p className="text-gray-700">
-            Click "Get Started" to begin your financial journey!
-          </p>
+          <p className="text-gray-700">{t("nav.welcome.begin")}</p>
         </div>
       ),
     },
@@ -159,14 +146,14 @@ export function WelcomeModal({
                 className="flex items-center px-4 py-2 text-gray-700 hover:text-gray-900"
               >
                 <ChevronLeft size={16} className="mr-1" />
-                Back
+                {t("nav.welcome.back")}
               </button>
             ) : (
               <button
                 onClick={handleSkip}
                 className="px-4 py-2 text-gray-500 hover:text-gray-700"
               >
-                Skip
+                {t("nav.welcome.skip")}
               </button>
             )}
           </div>
@@ -176,12 +163,12 @@ export function WelcomeModal({
           >
             {currentStep === totalSteps - 1 ? (
               <>
-                Get Started
+                {t("nav.welcome.getStarted")}
                 <Check size={16} className="ml-1" />
               </>
             ) : (
               <>
-                Next
+                {t("nav.welcome.next")}
                 <ChevronRight size={16} className="ml-1" />
               </>
             )}
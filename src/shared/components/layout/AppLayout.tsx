@@ -2,12 +2,22 @@ import { ReactNode } from "react";
 import { Sidebar } from "./Sidebar";
 import { Navbar } from "./Navbar";
 import { Footer } from "./Footer";
+import { useRecurringTransactionSync } from "../../../features/transactions/hooks/useRecurringTransactionSync";
+import { useGoalFundingSync } from "../../../features/goals/hooks/useGoalFundingSync";
+import { useNetWorthSnapshotSync } from "../../../features/bankAccounts/hooks/useNetWorthSnapshotSync";
 
 interface AppLayoutProps {
   children: ReactNode;
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
+  // Generate recurring transactions that came due since the last visit
+  useRecurringTransactionSync();
+  // Make automatic goal contributions that came due since the last visit
+  useGoalFundingSync();
+  // Record this month's net worth, even if the analytics page isn't opened
+  useNetWorthSnapshotSync();
+
   return (
     <div className="flex min-h-screen bg-background">
       {/* Sidebar */}
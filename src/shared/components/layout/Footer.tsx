@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Github, Twitter, Facebook, Instagram, HelpCircle } from "lucide-react";
-// Translation imports removed
+import { useLanguage } from "../../../providers/languageUtils";
 import {
   Tooltip,
   TooltipContent,
@@ -10,14 +10,14 @@ import {
 } from "@/components/ui/tooltip";
 
 export function Footer() {
-  // Translation hooks removed
+  const { t } = useLanguage();
   const currentYear = new Date().getFullYear();
 
   return (
     <footer className="bg-background border-t py-4 px-6 mt-auto">
       <div className="flex flex-col md:flex-row justify-between items-center">
         <div className="text-sm text-muted-foreground">
-          © {currentYear} Budget Tracker. All rights reserved.
+          {t("nav.copyright", { year: currentYear })}
         </div>
 
         {/* Links */}
@@ -27,7 +27,7 @@ export function Footer() {
             size="sm"
             className="text-muted-foreground p-0 h-auto"
           >
-            Privacy Policy
+            {t("nav.privacyPolicy")}
           </Button>
           <Separator orientation="vertical" className="h-4 hidden md:block" />
           <Button
@@ -35,7 +35,7 @@ export function Footer() {
             size="sm"
             className="text-muted-foreground p-0 h-auto"
           >
-            Terms of Service
+            {t("nav.termsOfService")}
           </Button>
           <Separator orientation="vertical" className="h-4 hidden md:block" />
           <Button
@@ -43,7 +43,7 @@ export function Footer() {
             size="sm"
             className="text-muted-foreground p-0 h-auto"
           >
-            Contact
+            {t("nav.contact")}
           </Button>
         </div>
       </div>
@@ -130,7 +130,7 @@ export function Footer() {
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Help & Support</p>
+              <p>{t("nav.helpSupport")}</p>
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
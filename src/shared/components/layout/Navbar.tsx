@@ -10,12 +10,11 @@ import {
   Menu,
 } from "lucide-react";
 import { useAuth } from "../../../state/useAuth";
-// Language provider import removed
+import { useLanguage } from "../../../providers/languageUtils";
 import { useTheme } from "../../../providers/themeUtils";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { QuickAddMenu } from "../QuickAddMenu";
 import { ThemeToggle } from "../ThemeToggle";
-// Language selector import removed
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -44,7 +43,7 @@ import { NotificationCenter } from "../notifications/NotificationCenter";
 
 export function Navbar() {
   const { user, logout } = useAuth();
-  // Language hooks removed
+  const { t } = useLanguage();
   const { theme, setTheme } = useTheme();
   const location = useLocation();
   const navigate = useNavigate();
@@ -56,31 +55,32 @@ export function Navbar() {
   const getPageTitle = () => {
     const path = location.pathname;
 
-    if (path === "/dashboard") return "Dashboard";
-    if (path === "/transactions") return "Transactions";
-    if (path === "/expenses") return "Expenses";
-    if (path === "/income") return "Income";
-    if (path === "/categories") return "Categories";
-    if (path === "/bills") return "Bills";
-    if (path === "/budgets") return "Budgets";
-    if (path === "/accounts") return "Accounts";
-    if (path === "/groups") return "Groups";
-    if (path === "/goals") return "Goals";
-    if (path === "/analytics") return "Analytics";
-    if (path === "/settings") return "Settings";
-    if (path === "/tags") return "Tags";
+    if (path === "/dashboard") return t("nav.dashboard");
+    if (path === "/transactions") return t("nav.transactions");
+    if (path === "/expenses") return t("nav.expenses");
+    if (path === "/income") return t("nav.income");
+    if (path === "/categories") return t("nav.categories");
+    if (path === "/bills") return t("nav.bills");
+    if (path === "/debts") return t("nav.debts");
+    if (path === "/budgets") return t("nav.budgets");
+    if (path === "/accounts") return t("nav.accounts");
+    if (path === "/groups") return t("nav.groups");
+    if (path === "/goals") return t("nav.goals");
+    if (path === "/analytics") return t("nav.analytics");
+    if (path === "/settings") return t("nav.settings");
+    if (path === "/tags") return t("nav.tags");
 
     // For detail pages
-    if (path.includes("/transactions/")) return "Transactions";
-    if (path.includes("/expenses/")) return "Expenses";
-    if (path.includes("/income/")) return "Income";
-    if (path.includes("/categories/")) return "Categories";
-    if (path.includes("/bills/")) return "Bills";
-    if (path.includes("/budgets/")) return "Budgets";
-    if (path.includes("/goals/")) return "Goals";
-    if (path.includes("/tags/")) return "Tags";
+    if (path.includes("/transactions/")) return t("nav.transactions");
+    if (path.includes("/expenses/")) return t("nav.expenses");
+    if (path.includes("/income/")) return t("nav.income");
+    if (path.includes("/categories/")) return t("nav.categories");
+    if (path.includes("/bills/")) return t("nav.bills");
+    if (path.includes("/budgets/")) return t("nav.budgets");
+    if (path.includes("/goals/")) return t("nav.goals");
+    if (path.includes("/tags/")) return t("nav.tags");
 
-    return "Name";
+    return t("nav.appName");
   };
 
   // Setup keyboard shortcuts
@@ -150,14 +150,14 @@ export function Navbar() {
                     onClick={() => setIsSearchOpen(true)}
                   >
                     <Search size={18} />
-                    <span className="sr-only">{"Search"}</span>
+                    <span className="sr-only">{t("nav.search")}</span>
                     <kbd className="ml-2 hidden md:inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium opacity-100">
                       <span className="text-xs">⌘</span>K
                     </kbd>
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{"Search"}</p>
+                  <p>{t("nav.search")}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -178,7 +178,7 @@ export function Navbar() {
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{"Help"}</p>
+                  <p>{t("nav.help")}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -186,8 +186,6 @@ export function Navbar() {
             {/* Theme Toggle */}
             <ThemeToggle />
 
-            {/* Language Selector removed */}
-
             {/* Notifications - Updated to use the new component */}
             <NotificationCenter />
 
@@ -215,7 +213,7 @@ export function Navbar() {
                 <DropdownMenuContent className="w-56" align="end" forceMount>
                   <div className="flex flex-col space-y-1 p-2">
                     <p className="text-sm font-medium leading-none">
-                      {user?.user_metadata?.full_name || "User"}
+                      {user?.user_metadata?.full_name || t("nav.user")}
                     </p>
                     <p className="text-xs leading-none text-muted-foreground">
                       {user?.email}
@@ -230,7 +228,7 @@ export function Navbar() {
                       className="flex w-full cursor-pointer items-center"
                     >
                       <User className="mr-2 h-4 w-4" />
-                      <span>{"Profile"}</span>
+                      <span>{t("nav.profile")}</span>
                     </Link>
                   </DropdownMenuItem>
 
@@ -241,7 +239,7 @@ export function Navbar() {
                       className="flex w-full cursor-pointer items-center"
                     >
                       <SettingsIcon className="mr-2 h-4 w-4" />
-                      <span>{"Settings"}</span>
+                      <span>{t("nav.settings")}</span>
                     </Link>
                   </DropdownMenuItem>
 
@@ -254,7 +252,7 @@ export function Navbar() {
                     }}
                   >
                     <Keyboard className="mr-2 h-4 w-4" />
-                    <span>{"KeyboardShortcuts"}</span>
+                    <span>{t("nav.keyboardShortcuts")}</span>
                   </DropdownMenuItem>
 
                   {/* Theme Toggle */}
@@ -269,7 +267,11 @@ export function Navbar() {
                     ) : (
                       <Moon className="mr-2 h-4 w-4" />
                     )}
-                    <span>{theme === "dark" ? "LightMode" : "DarkMode"}</span>
+                    <span>
+                      {theme === "dark"
+                        ? t("nav.lightMode")
+                        : t("nav.darkMode")}
+                    </span>
                   </DropdownMenuItem>
 
                   <DropdownMenuSeparator />
@@ -280,13 +282,13 @@ export function Navbar() {
                     className="cursor-pointer text-destructive focus:text-destructive"
                   >
                     <LogOut className="mr-2 h-4 w-4" />
-                    <span>{"Logout"}</span>
+                    <span>{t("nav.logout")}</span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             ) : (
               <Button asChild variant="outline" size="sm">
-                <Link to="/login">{"Login"}</Link>
+                <Link to="/login">{t("nav.login")}</Link>
               </Button>
             )}
           </div>
@@ -297,14 +299,14 @@ export function Navbar() {
       <Dialog open={isSearchOpen} onOpenChange={setIsSearchOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>{"Search"}</DialogTitle>
+            <DialogTitle>{t("nav.search")}</DialogTitle>
           </DialogHeader>
           <form onSubmit={handleSearch} className="space-y-4">
             <div className="flex items-center border rounded-md px-3 py-2">
               <Search className="h-4 w-4 text-muted-foreground mr-2" />
               <Input
                 type="text"
-                placeholder={"SearchPlaceholder"}
+                placeholder={t("nav.searchPlaceholder")}
                 className="border-0 p-0 shadow-none focus-visible:ring-0"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
@@ -313,12 +315,12 @@ export function Navbar() {
             </div>
             <div className="flex justify-between">
               <div className="flex gap-2">
-                <Badge variant="outline">{"Transactions"}</Badge>
-                <Badge variant="outline">{"Categories"}</Badge>
-                <Badge variant="outline">{"Tags"}</Badge>
+                <Badge variant="outline">{t("nav.transactions")}</Badge>
+                <Badge variant="outline">{t("nav.categories")}</Badge>
+                <Badge variant="outline">{t("nav.tags")}</Badge>
               </div>
               <Button type="submit" size="sm">
-                {"Search"}
+                {t("nav.search")}
               </Button>
             </div>
           </form>
@@ -1,5 +1,4 @@
 import { useState } from "react";
-// Translation imports removed
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -19,12 +18,14 @@ import {
   Tag,
   CreditCard,
   Users,
+  Landmark,
 } from "lucide-react";
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function Sidebar() {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
-  // Translation hooks removed
+  const { t } = useLanguage();
 
   // No longer needed with Sheet component
   // const toggleSidebar = () => {
@@ -33,50 +34,55 @@ export function Sidebar() {
 
   const navItems = [
     {
-      name: "Dashboard",
+      name: t("nav.dashboard"),
       path: "/dashboard",
       icon: <LayoutDashboard size={20} />,
     },
     {
-      name: "Expenses",
+      name: t("nav.expenses"),
       path: "/expenses",
       icon: <ArrowDownCircle size={20} />,
     },
     {
-      name: "Income",
+      name: t("nav.income"),
       path: "/income",
       icon: <ArrowUpCircle size={20} />,
     },
     {
-      name: "Categories",
+      name: t("nav.categories"),
       path: "/categories",
       icon: <PieChart size={20} />,
     },
-    { name: "Budgets", path: "/budgets", icon: <Calendar size={20} /> },
+    { name: t("nav.budgets"), path: "/budgets", icon: <Calendar size={20} /> },
     {
-      name: "Accounts",
+      name: t("nav.accounts"),
       path: "/accounts",
       icon: <CreditCard size={20} />,
     },
     {
-      name: "Groups",
+      name: t("nav.groups"),
       path: "/groups",
       icon: <Users size={20} />,
     },
-    { name: "Tags", path: "/tags", icon: <Tag size={20} /> },
-    { name: "Goals", path: "/goals", icon: <Target size={20} /> },
+    { name: t("nav.tags"), path: "/tags", icon: <Tag size={20} /> },
+    { name: t("nav.goals"), path: "/goals", icon: <Target size={20} /> },
     {
-      name: "Analytics",
+      name: t("nav.analytics"),
       path: "/analytics",
       icon: <BarChart3 size={20} />,
     },
     {
-      name: "Bills",
+      name: t("nav.bills"),
       path: "/bills",
       icon: <Clock size={20} />,
     },
     {
-      name: "Settings",
+      name: t("nav.debts"),
+      path: "/debts",
+      icon: <Landmark size={20} />,
+    },
+    {
+      name: t("nav.settings"),
       path: "/settings",
       icon: <Settings size={20} />,
     },
@@ -123,11 +129,13 @@ interface SidebarProps {
 }
 
 function MobileSidebar({ navItems, pathname, onClose }: SidebarProps) {
+  const { t } = useLanguage();
+
   return (
     <div className="flex flex-col h-full">
       {/* Logo */}
       <div className="flex items-center justify-center h-16 border-b">
-        <h1 className="text-xl font-bold">Budget Tracker</h1>
+        <h1 className="text-xl font-bold">{t("nav.appName")}</h1>
       </div>
 
       {/* Navigation */}
@@ -165,18 +173,20 @@ function MobileSidebar({ navItems, pathname, onClose }: SidebarProps) {
 
       {/* Version */}
       <div className="p-4 border-t text-xs text-muted-foreground">
-        <p>Version 1.0.0</p>
+        <p>{t("nav.version", { version: "1.0.0" })}</p>
       </div>
     </div>
   );
 }
 
 function DesktopSidebar({ navItems, pathname }: SidebarProps) {
+  const { t } = useLanguage();
+
   return (
     <div className="flex flex-col h-full w-full">
       {/* Logo */}
       <div className="flex items-center justify-center h-16 border-b">
-        <h1 className="text-xl font-bold">Budget Tracker</h1>
+        <h1 className="text-xl font-bold">{t("nav.appName")}</h1>
       </div>
 
       {/* Navigation */}
@@ -213,7 +223,7 @@ function DesktopSidebar({ navItems, pathname }: SidebarProps) {
 
       {/* Version */}
       <div className="p-4 border-t text-xs text-muted-foreground">
-        <p>Version 1.0.0</p>
+        <p>{t("nav.version", { version: "1.0.0" })}</p>
       </div>
     </div>
   );
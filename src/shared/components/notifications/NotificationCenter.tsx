@@ -16,12 +16,12 @@ import {
 } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
 import { NotificationItem } from "./NotificationItem";
-// Language provider import removed
+import { useLanguage } from "../../../providers/languageUtils";
 
 export function NotificationCenter() {
   const { notifications, hasUnreadNotifications, markAllAsRead, clearAll } =
     useNotifications();
-  // Language hooks removed
+  const { t } = useLanguage();
 
   return (
     <TooltipProvider>
@@ -33,7 +33,7 @@ export function NotificationCenter() {
                 variant="ghost"
                 size="icon"
                 className="text-muted-foreground relative"
-                aria-label="Notifications"
+                aria-label={t("nav.notifications.title")}
               >
                 <Bell size={18} />
                 {hasUnreadNotifications && (
@@ -43,7 +43,7 @@ export function NotificationCenter() {
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-80 max-h-[70vh]">
               <div className="flex items-center justify-between p-3">
-                <h3 className="font-medium">Notifications</h3>
+                <h3 className="font-medium">{t("nav.notifications.title")}</h3>
                 <div className="flex gap-1.5">
                   {hasUnreadNotifications && (
                     <Button
@@ -52,7 +52,7 @@ export function NotificationCenter() {
                       className="h-auto px-2 py-1 text-xs text-muted-foreground"
                       onClick={markAllAsRead}
                     >
-                      Mark All as Read
+                      {t("nav.notifications.markAllRead")}
                     </Button>
                   )}
                   {notifications.length > 0 && (
@@ -62,7 +62,7 @@ export function NotificationCenter() {
                       className="h-auto px-2 py-1 text-xs text-muted-foreground"
                       onClick={clearAll}
                     >
-                      Clear
+                      {t("nav.notifications.clear")}
                     </Button>
                   )}
                 </div>
@@ -83,7 +83,7 @@ export function NotificationCenter() {
                       className="text-center text-sm text-muted-foreground p-8 opacity-70"
                       disabled
                     >
-                      No Notifications
+                      {t("nav.notifications.empty")}
                     </DropdownMenuItem>
                   )}
                 </DropdownMenuGroup>
@@ -92,7 +92,7 @@ export function NotificationCenter() {
           </DropdownMenu>
         </TooltipTrigger>
         <TooltipContent>
-          <p>Notifications</p>
+          <p>{t("nav.notifications.title")}</p>
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
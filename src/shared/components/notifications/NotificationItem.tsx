@@ -12,8 +12,11 @@ import {
   useNotifications,
 } from "../../../contexts/NotificationContext";
 import { formatDistanceToNow } from "date-fns";
+import { useNavigate } from "react-router-dom";
 import { DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { getDateLocale } from "../../../i18n";
+import { useLanguage } from "../../../providers/languageUtils";
 
 interface NotificationItemProps {
   notification: Notification;
@@ -26,6 +29,8 @@ export function NotificationItem({
 }: NotificationItemProps) {
   const { markAsRead, removeNotification } = useNotifications();
   const [isHovered, setIsHovered] = useState(false);
+  const navigate = useNavigate();
+  const { t } = useLanguage();
 
   const getIconByType = (type: NotificationType) => {
     switch (type) {
@@ -59,6 +64,9 @@ export function NotificationItem({
     if (!notification.read) {
       markAsRead(notification.id);
     }
+    if (notification.link) {
+      navigate(notification.link);
+    }
     if (onSelect) {
       onSelect();
     }
@@ -87,13 +95,17 @@ export function NotificationItem({
         <p className="text-sm font-medium">{notification.title}</p>
         <p className="text-xs text-muted-foreground">{notification.message}</p>
         <p className="text-xs text-muted-foreground">
-          {formatDistanceToNow(notification.timestamp, { addSuffix: true })}
+          {formatDistanceToNow(notification.timestamp, {
+            addSuffix: true,
+            locale: getDateLocale(),
+          })}
         </p>
       </div>
       {isHovered && (
         <button
           className="absolute top-2 right-2 p-1 rounded-full hover:bg-muted/80"
           onClick={handleRemove}
+          aria-label={t("nav.notifications.dismiss")}
         >
           <X className="h-3.5 w-3.5 text-muted-foreground" />
         </button>
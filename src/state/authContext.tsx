@@ -1,5 +1,6 @@
 import { createContext } from "react";
 import { User, AuthError } from "@supabase/supabase-js";
+import type { Json } from "../lib/database.types";
 
 // Define proper interfaces for user profile and settings based on actual API
 export interface UserProfile {
@@ -17,6 +18,8 @@ export interface UserSettings {
   theme: string; // API returns string, we'll cast it to Theme when needed
   language: string;
   notification_enabled: boolean;
+  // Per-type switches; read through parseNotificationPreferences
+  notification_preferences: Json;
   created_at: string;
   updated_at: string;
 }
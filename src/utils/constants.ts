@@ -22,3 +22,14 @@ export const CURRENCIES = [
   { code: "PLN", name: "Polish Złoty", symbol: "zł" },
   { code: "ZAR", name: "South African Rand", symbol: "R" },
 ];
+
+// Payment method options, labelled through transactions.paymentMethods
+export const PAYMENT_METHODS = [
+  "cash",
+  "credit_card",
+  "debit_card",
+  "bank_transfer",
+  "check",
+  "mobile_payment",
+  "other",
+] as const;
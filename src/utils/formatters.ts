@@ -1,3 +1,5 @@
+import { getLocale } from "../i18n";
+
 /**
  * Get user settings from localStorage
  */
@@ -23,21 +25,10 @@ export function formatCurrency(
 
   // Use provided options, user settings, or defaults
   const currency = options?.currency || userSettings?.currency || "USD";
-  const locale = options?.locale || userSettings?.language || "en-US";
+  const locale = options?.locale || getLocale();
   const compact = options?.compact || false;
 
-  // Map language codes to locales
-  const localeMap: Record<string, string> = {
-    en: "en-US",
-    nl: "nl-NL",
-    fr: "fr-FR",
-    de: "de-DE",
-  };
-
-  // Get the appropriate locale
-  const formatterLocale = localeMap[locale] || locale;
-
-  return new Intl.NumberFormat(formatterLocale, {
+  return new Intl.NumberFormat(locale, {
     style: "currency",
     currency,
     minimumFractionDigits: compact ? 0 : 2,
@@ -52,26 +43,12 @@ export function formatCurrency(
  */
 export function formatDate(
   date: string | Date,
-  format: "short" | "medium" | "long" = "medium"
+  format: "short" | "medium" | "long" | "month" = "medium"
 ): string {
   const dateObj = typeof date === "string" ? new Date(date) : date;
 
-  // Try to get user settings
-  const userSettings = getUserSettings();
-
-  // Use user settings or default locale
-  const locale = userSettings?.language || undefined;
-
-  // Map language codes to locales
-  const localeMap: Record<string, string> = {
-    en: "en-US",
-    nl: "nl-NL",
-    fr: "fr-FR",
-    de: "de-DE",
-  };
-
-  // Get the appropriate locale
-  const formatterLocale = locale ? localeMap[locale] || locale : undefined;
+  // Follow the interface language
+  const formatterLocale = getLocale();
 
   if (format === "short") {
     return dateObj.toLocaleDateString(formatterLocale);
@@ -82,6 +59,11 @@ export function formatDate(
       month: "long",
       day: "numeric",
     });
+  } else if (format === "month") {
+    return dateObj.toLocaleDateString(formatterLocale, {
+      year: "numeric",
+      month: "long",
+    });
   } else {
     return dateObj.toLocaleDateString(formatterLocale, {
       year: "numeric",
@@ -1,5 +1,5 @@
 import { toast } from "@/hooks/use-toast";
-// Translations loader import removed
+import { translate } from "../i18n";
 import { ToastActionElement } from "@/components/ui/toast";
 
 type ToastType = "success" | "error" | "info" | "warning";
@@ -53,8 +53,8 @@ export function showToast(options: ToastOptions) {
 export function showItemCreatedToast(itemType: string) {
   return showToast({
     type: "success",
-    title: "Success",
-    description: `${itemType} created successfully`,
+    title: translate("common.success"),
+    description: translate("toast.itemCreated", { item: itemType }),
     duration: 3000,
   });
 }
@@ -65,8 +65,8 @@ export function showItemCreatedToast(itemType: string) {
 export function showItemUpdatedToast(itemType: string) {
   return showToast({
     type: "success",
-    title: "Success",
-    description: `${itemType} updated successfully`,
+    title: translate("common.success"),
+    description: translate("toast.itemUpdated", { item: itemType }),
     duration: 3000,
   });
 }
@@ -77,8 +77,8 @@ export function showItemUpdatedToast(itemType: string) {
 export function showItemDeletedToast(itemType: string) {
   return showToast({
     type: "success",
-    title: "Success",
-    description: `${itemType} deleted successfully`,
+    title: translate("common.success"),
+    description: translate("toast.itemDeleted", { item: itemType }),
     duration: 3000,
   });
 }
@@ -89,8 +89,8 @@ export function showItemDeletedToast(itemType: string) {
 export function showErrorToast(message?: string) {
   return showToast({
     type: "error",
-    title: "Error",
-    description: message || "Something went wrong",
+    title: translate("common.error"),
+    description: message || translate("toast.somethingWentWrong"),
     duration: 5000,
   });
 }
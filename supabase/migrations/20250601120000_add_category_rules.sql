@@ -0,0 +1,45 @@
+-- Category Rules table
+-- Rules are evaluated in ascending priority order; the first active rule whose
+-- pattern matches a transaction sets its category and adds its tags.
+CREATE TABLE IF NOT EXISTS category_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    match_field TEXT NOT NULL DEFAULT 'description' CHECK (match_field IN ('description', 'notes')),
+    match_type TEXT NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'starts_with', 'equals', 'regex')),
+    pattern TEXT NOT NULL,
+    transaction_type TEXT CHECK (transaction_type IN ('expense', 'income')),
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    tag_ids UUID[] NOT NULL DEFAULT '{}',
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS category_rules_user_priority_idx
+    ON category_rules (user_id, priority);
+
+-- Enable RLS on category_rules table
+ALTER TABLE category_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for category_rules
+DROP POLICY IF EXISTS "Users can view their own category rules" ON category_rules;
+CREATE POLICY "Users can view their own category rules"
+    ON category_rules FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own category rules" ON category_rules;
+CREATE POLICY "Users can create their own category rules"
+    ON category_rules FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own category rules" ON category_rules;
+CREATE POLICY "Users can update their own category rules"
+    ON category_rules FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own category rules" ON category_rules;
+CREATE POLICY "Users can delete their own category rules"
+    ON category_rules FOR DELETE
+    USING (auth.uid() = user_id);
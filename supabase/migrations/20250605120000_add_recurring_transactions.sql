@@ -0,0 +1,56 @@
+-- Recurring Transactions table
+-- Templates for transactions that repeat on a fixed cadence. Due instances are
+-- generated into transactions by the app, and next_date always points at the
+-- next instance that has not been generated or skipped yet.
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('expense', 'income')),
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+    payment_method TEXT,
+    notes TEXT,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+    start_date DATE NOT NULL,
+    next_date DATE NOT NULL,
+    end_type TEXT NOT NULL DEFAULT 'never' CHECK (end_type IN ('never', 'on_date', 'after_occurrences')),
+    end_date DATE,
+    max_occurrences INTEGER CHECK (max_occurrences > 0),
+    occurrences_count INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS on recurring_transactions table
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for recurring_transactions
+DROP POLICY IF EXISTS "Users can view their own recurring transactions" ON recurring_transactions;
+CREATE POLICY "Users can view their own recurring transactions"
+    ON recurring_transactions FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own recurring transactions" ON recurring_transactions;
+CREATE POLICY "Users can create their own recurring transactions"
+    ON recurring_transactions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own recurring transactions" ON recurring_transactions;
+CREATE POLICY "Users can update their own recurring transactions"
+    ON recurring_transactions FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own recurring transactions" ON recurring_transactions;
+CREATE POLICY "Users can delete their own recurring transactions"
+    ON recurring_transactions FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Link generated transactions to their template. The unique constraint keeps
+-- two open tabs from generating the same instance twice.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_recurring_instance_key;
+ALTER TABLE transactions ADD CONSTRAINT transactions_recurring_instance_key UNIQUE (recurring_transaction_id, date);
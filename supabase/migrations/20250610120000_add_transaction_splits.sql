@@ -0,0 +1,42 @@
+-- Transaction Splits table
+-- Split lines divide one transaction across several categories. When a
+-- transaction has split lines, spending is attributed per line instead of to
+-- the parent's category_id. The lines always sum to the parent amount.
+CREATE TABLE IF NOT EXISTS transaction_splits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transaction_splits_transaction_id_idx
+    ON transaction_splits (transaction_id);
+CREATE INDEX IF NOT EXISTS transaction_splits_category_id_idx
+    ON transaction_splits (category_id);
+
+-- Enable RLS on transaction_splits table
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for transaction_splits
+DROP POLICY IF EXISTS "Users can view their own transaction splits" ON transaction_splits;
+CREATE POLICY "Users can view their own transaction splits"
+    ON transaction_splits FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own transaction splits" ON transaction_splits;
+CREATE POLICY "Users can create their own transaction splits"
+    ON transaction_splits FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own transaction splits" ON transaction_splits;
+CREATE POLICY "Users can update their own transaction splits"
+    ON transaction_splits FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own transaction splits" ON transaction_splits;
+CREATE POLICY "Users can delete their own transaction splits"
+    ON transaction_splits FOR DELETE
+    USING (auth.uid() = user_id);
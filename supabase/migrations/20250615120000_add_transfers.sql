@@ -0,0 +1,70 @@
+-- Transfers between bank accounts
+-- A transfer is a transaction of type 'transfer' that moves money from
+-- bank_account_id to transfer_account_id. It is neither income nor expense, so
+-- analytics and budgets leave it out. Both account balances are adjusted by a
+-- trigger in the same database transaction as the insert, update or delete.
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+    CHECK (type IN ('expense', 'income', 'transfer'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_transfer_account_id_idx
+    ON transactions (transfer_account_id);
+
+-- Only transfers have a destination account, and it differs from the source.
+-- Either side becomes NULL when its account is deleted; the transfer is kept.
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_accounts_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transfer_accounts_check
+    CHECK (
+        (type = 'transfer' AND amount > 0 AND bank_account_id <> transfer_account_id)
+        OR (type <> 'transfer' AND transfer_account_id IS NULL)
+    );
+
+-- Move money into (positive) or out of (negative) an account. Credit account
+-- balances are what is owed, so money going in lowers them. Accounts that no
+-- longer exist are skipped, which lets ON DELETE SET NULL go through.
+CREATE OR REPLACE FUNCTION adjust_account_balance(p_account_id UUID, p_amount DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+    IF p_account_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE bank_accounts
+    SET current_balance = CASE
+            WHEN account_type = 'credit' THEN current_balance - p_amount
+            ELSE current_balance + p_amount
+        END,
+        last_updated = NOW()
+    WHERE id = p_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Keep both account balances in step with transfer rows
+CREATE OR REPLACE FUNCTION apply_transfer_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Undo the old transfer
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.type = 'transfer' THEN
+        PERFORM adjust_account_balance(OLD.bank_account_id, OLD.amount);
+        PERFORM adjust_account_balance(OLD.transfer_account_id, -OLD.amount);
+    END IF;
+
+    -- Apply the new one
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.type = 'transfer' THEN
+        PERFORM adjust_account_balance(NEW.bank_account_id, -NEW.amount);
+        PERFORM adjust_account_balance(NEW.transfer_account_id, NEW.amount);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_transfer_balances ON transactions;
+CREATE TRIGGER transactions_transfer_balances
+    AFTER INSERT OR UPDATE OR DELETE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION apply_transfer_balances();
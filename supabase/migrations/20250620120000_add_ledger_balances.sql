@@ -0,0 +1,84 @@
+-- Ledger-derived bank account balances
+-- An account's balance is its opening balance plus every linked transaction:
+-- income adds to it, expenses subtract from it and transfers move money from
+-- bank_account_id to transfer_account_id. Cancelled transactions don't count.
+-- current_balance is kept in step by triggers, in the same database
+-- transaction as the change that moved it.
+ALTER TABLE bank_accounts ADD COLUMN IF NOT EXISTS opening_balance DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Money that has gone into each account through the ledger so far
+CREATE OR REPLACE FUNCTION account_ledger_inflow(p_account_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN type = 'income' AND bank_account_id = p_account_id THEN amount
+            WHEN type = 'expense' AND bank_account_id = p_account_id THEN -amount
+            WHEN type = 'transfer' AND transfer_account_id = p_account_id THEN amount
+            WHEN type = 'transfer' AND bank_account_id = p_account_id THEN -amount
+            ELSE 0
+        END
+    ), 0)
+    FROM transactions
+    WHERE (bank_account_id = p_account_id OR transfer_account_id = p_account_id)
+        AND status IS DISTINCT FROM 'cancelled';
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Existing balances were entered by hand and already include the ledger, so
+-- the opening balance is whatever is left once the ledger is taken out.
+-- Credit balances are what is owed, so money going in lowers them.
+UPDATE bank_accounts
+SET opening_balance = CASE
+        WHEN account_type = 'credit'
+            THEN current_balance + account_ledger_inflow(id)
+        ELSE current_balance - account_ledger_inflow(id)
+    END;
+
+-- Apply one transaction to the balances it touches; p_sign is -1 to undo it
+CREATE OR REPLACE FUNCTION apply_ledger_entry(p_transaction transactions, p_sign INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    IF p_transaction.status = 'cancelled' THEN
+        RETURN;
+    END IF;
+
+    CASE p_transaction.type
+        WHEN 'income' THEN
+            PERFORM adjust_account_balance(p_transaction.bank_account_id, p_sign * p_transaction.amount);
+        WHEN 'expense' THEN
+            PERFORM adjust_account_balance(p_transaction.bank_account_id, -p_sign * p_transaction.amount);
+        WHEN 'transfer' THEN
+            PERFORM adjust_account_balance(p_transaction.bank_account_id, -p_sign * p_transaction.amount);
+            PERFORM adjust_account_balance(p_transaction.transfer_account_id, p_sign * p_transaction.amount);
+        ELSE
+            NULL;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Keep account balances in step with every transaction, replacing the
+-- transfer-only trigger
+CREATE OR REPLACE FUNCTION apply_ledger_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM apply_ledger_entry(OLD, -1);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM apply_ledger_entry(NEW, 1);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_transfer_balances ON transactions;
+DROP FUNCTION IF EXISTS apply_transfer_balances();
+
+DROP TRIGGER IF EXISTS transactions_ledger_balances ON transactions;
+CREATE TRIGGER transactions_ledger_balances
+    AFTER INSERT OR UPDATE OR DELETE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION apply_ledger_balances();
@@ -0,0 +1,97 @@
+-- Account Reconciliations table
+-- A reconciliation checks an account against a bank statement. Transactions
+-- are ticked off as 'cleared' until the cleared balance matches the
+-- statement's closing balance; completing it marks them 'reconciled' and
+-- locks them, so the reconciled period can't change afterwards.
+CREATE TABLE IF NOT EXISTS account_reconciliations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+    statement_date DATE NOT NULL,
+    statement_balance DECIMAL(12, 2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+    cleared_count INTEGER NOT NULL DEFAULT 0,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS account_reconciliations_bank_account_id_idx
+    ON account_reconciliations (bank_account_id, statement_date);
+
+-- Only one reconciliation per account can be open at a time
+CREATE UNIQUE INDEX IF NOT EXISTS account_reconciliations_open_key
+    ON account_reconciliations (bank_account_id)
+    WHERE status = 'in_progress';
+
+-- Enable RLS on account_reconciliations table
+ALTER TABLE account_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for account_reconciliations
+DROP POLICY IF EXISTS "Users can view their own account reconciliations" ON account_reconciliations;
+CREATE POLICY "Users can view their own account reconciliations"
+    ON account_reconciliations FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own account reconciliations" ON account_reconciliations;
+CREATE POLICY "Users can create their own account reconciliations"
+    ON account_reconciliations FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own account reconciliations" ON account_reconciliations;
+CREATE POLICY "Users can update their own account reconciliations"
+    ON account_reconciliations FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own account reconciliations" ON account_reconciliations;
+CREATE POLICY "Users can delete their own account reconciliations"
+    ON account_reconciliations FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Transactions can now be cleared against a statement and then reconciled
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+    CHECK (status IN ('pending', 'completed', 'cleared', 'reconciled', 'cancelled'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reconciliation_id UUID REFERENCES account_reconciliations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_reconciliation_id_idx
+    ON transactions (reconciliation_id);
+
+-- Reconciled transactions are locked: their amount, date, type, accounts and
+-- status can't change and they can't be deleted. Descriptions, categories and
+-- notes can still be edited. Undoing the reconciliation moves them back to
+-- 'cleared' and unlinks them. Changes cascading from a deleted account or user
+-- (nested trigger depth) are let through.
+CREATE OR REPLACE FUNCTION protect_reconciled_transactions()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IS DISTINCT FROM 'reconciled' OR pg_trigger_depth() > 1 THEN
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+        AND NEW.amount = OLD.amount
+        AND NEW.date = OLD.date
+        AND NEW.type = OLD.type
+        AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+        AND NEW.transfer_account_id IS NOT DISTINCT FROM OLD.transfer_account_id
+        AND (
+            NEW.status = 'reconciled'
+            OR (NEW.status = 'cleared' AND NEW.reconciliation_id IS NULL)
+        )
+    THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Transaction % belongs to a reconciled statement and cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_protect_reconciled ON transactions;
+CREATE TRIGGER transactions_protect_reconciled
+    BEFORE UPDATE OR DELETE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION protect_reconciled_transactions();
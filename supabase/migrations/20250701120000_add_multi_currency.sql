@@ -0,0 +1,77 @@
+-- Multi-currency transactions
+-- Every transaction records the currency it was made in. Transactions on a
+-- bank account are in that account's currency; transactions without an
+-- account default to the user's base currency (user_settings.currency).
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency TEXT;
+
+UPDATE transactions t
+SET currency = COALESCE(
+        (SELECT currency FROM bank_accounts WHERE id = t.bank_account_id),
+        (SELECT currency FROM user_settings WHERE id = t.user_id),
+        'USD'
+    )
+WHERE t.currency IS NULL;
+
+ALTER TABLE transactions ALTER COLUMN currency SET NOT NULL;
+
+-- Fill in the currency when it isn't given, so imports, transfers and
+-- recurring instances get the right one without every caller passing it
+CREATE OR REPLACE FUNCTION default_transaction_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.currency IS NULL THEN
+        NEW.currency := COALESCE(
+            (SELECT currency FROM bank_accounts WHERE id = NEW.bank_account_id),
+            (SELECT currency FROM user_settings WHERE id = NEW.user_id),
+            'USD'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_default_currency ON transactions;
+CREATE TRIGGER transactions_default_currency
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION default_transaction_currency();
+
+-- Exchange Rates table
+-- Rates entered by hand or imported from CSV. A row means that one unit of
+-- currency was worth rate units of base_currency on rate_date. Reports use
+-- the latest rate on or before each transaction's date.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    base_currency TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT exchange_rates_pair_check CHECK (base_currency <> currency),
+    CONSTRAINT exchange_rates_user_pair_date_key UNIQUE (user_id, base_currency, currency, rate_date)
+);
+
+-- Enable RLS on exchange_rates table
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for exchange_rates
+DROP POLICY IF EXISTS "Users can view their own exchange rates" ON exchange_rates;
+CREATE POLICY "Users can view their own exchange rates"
+    ON exchange_rates FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own exchange rates" ON exchange_rates;
+CREATE POLICY "Users can create their own exchange rates"
+    ON exchange_rates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own exchange rates" ON exchange_rates;
+CREATE POLICY "Users can update their own exchange rates"
+    ON exchange_rates FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own exchange rates" ON exchange_rates;
+CREATE POLICY "Users can delete their own exchange rates"
+    ON exchange_rates FOR DELETE
+    USING (auth.uid() = user_id);
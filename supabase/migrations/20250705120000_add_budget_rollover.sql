@@ -0,0 +1,5 @@
+-- Budget rollover
+-- A budget with rollover enabled carries whatever is left of each period,
+-- surplus or deficit, into the next one, envelope style. Period history is
+-- worked out from the transactions, so only the setting is stored.
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS rollover BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,57 @@
+-- Notification preferences
+-- Which kinds of generated notifications a user wants. The master switch
+-- stays in user_settings.notification_enabled.
+ALTER TABLE user_settings
+    ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{
+        "bill_due": true,
+        "budget_alert": true,
+        "goal_progress": true,
+        "group_invitation": true,
+        "transaction_alert": false,
+        "weekly_summary": true
+    }'::jsonb;
+
+-- Notifications table
+-- Everything shown in the notification center. Generated notifications carry
+-- a dedupe_key (for example the bill and due date they are about) so the same
+-- alert is only ever created once; one-off messages leave it empty.
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL DEFAULT 'general' CHECK (type IN ('general', 'bill_due', 'budget_alert', 'goal_progress', 'group_invitation')),
+    severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('success', 'error', 'info', 'warning')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    link TEXT,
+    dedupe_key TEXT,
+    read BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT notifications_user_dedupe_key UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx
+    ON notifications (user_id, created_at DESC);
+
+-- Enable RLS on notifications table
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for notifications
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+    ON notifications FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own notifications" ON notifications;
+CREATE POLICY "Users can create their own notifications"
+    ON notifications FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON notifications;
+CREATE POLICY "Users can update their own notifications"
+    ON notifications FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own notifications" ON notifications;
+CREATE POLICY "Users can delete their own notifications"
+    ON notifications FOR DELETE
+    USING (auth.uid() = user_id);
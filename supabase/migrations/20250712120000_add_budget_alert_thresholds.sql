@@ -0,0 +1,30 @@
+-- Budget alert thresholds
+-- Percentages of a budget's available amount (including anything carried
+-- over) that raise a notification when spending crosses them. Each threshold
+-- fires at most once per budget period.
+ALTER TABLE budgets
+    ADD COLUMN IF NOT EXISTS alert_thresholds INTEGER[] NOT NULL DEFAULT '{50,80,100}';
+
+ALTER TABLE group_budgets
+    ADD COLUMN IF NOT EXISTS alert_thresholds INTEGER[] NOT NULL DEFAULT '{50,80,100}';
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_alert_thresholds_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_alert_thresholds_check
+    CHECK (0 < ALL (alert_thresholds) AND 1000 >= ALL (alert_thresholds));
+
+ALTER TABLE group_budgets DROP CONSTRAINT IF EXISTS group_budgets_alert_thresholds_check;
+ALTER TABLE group_budgets ADD CONSTRAINT group_budgets_alert_thresholds_check
+    CHECK (0 < ALL (alert_thresholds) AND 1000 >= ALL (alert_thresholds));
+
+-- Alerts are raised as transactions change, so the notification center
+-- listens for new rows instead of polling
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+        AND NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+        ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END $$;
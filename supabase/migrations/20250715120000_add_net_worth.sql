@@ -0,0 +1,84 @@
+-- Net worth items table
+-- Assets and liabilities that aren't bank accounts, such as a house, a car or
+-- a loan. Their value is kept up to date by hand; liabilities count against
+-- net worth.
+CREATE TABLE IF NOT EXISTS net_worth_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    item_type TEXT NOT NULL CHECK (item_type IN ('asset', 'liability')),
+    value DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS on net_worth_items table
+ALTER TABLE net_worth_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for net_worth_items
+DROP POLICY IF EXISTS "Users can view their own net worth items" ON net_worth_items;
+CREATE POLICY "Users can view their own net worth items"
+    ON net_worth_items FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own net worth items" ON net_worth_items;
+CREATE POLICY "Users can create their own net worth items"
+    ON net_worth_items FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own net worth items" ON net_worth_items;
+CREATE POLICY "Users can update their own net worth items"
+    ON net_worth_items FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own net worth items" ON net_worth_items;
+CREATE POLICY "Users can delete their own net worth items"
+    ON net_worth_items FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Net worth snapshots table
+-- One row per bank account or net worth item per month, holding its balance
+-- in its own currency. The current month's rows are overwritten each time a
+-- snapshot is taken, so a month's figures are final once it has ended. The
+-- name and type are copied so history survives the source being deleted.
+CREATE TABLE IF NOT EXISTS net_worth_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    snapshot_month DATE NOT NULL,
+    source_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    account_type TEXT NOT NULL CHECK (account_type IN ('checking', 'savings', 'credit', 'investment', 'other', 'asset', 'liability')),
+    balance DECIMAL(12, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT net_worth_snapshots_month_source_key UNIQUE (user_id, snapshot_month, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS net_worth_snapshots_user_month_idx
+    ON net_worth_snapshots (user_id, snapshot_month);
+
+-- Enable RLS on net_worth_snapshots table
+ALTER TABLE net_worth_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for net_worth_snapshots
+DROP POLICY IF EXISTS "Users can view their own net worth snapshots" ON net_worth_snapshots;
+CREATE POLICY "Users can view their own net worth snapshots"
+    ON net_worth_snapshots FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own net worth snapshots" ON net_worth_snapshots;
+CREATE POLICY "Users can create their own net worth snapshots"
+    ON net_worth_snapshots FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own net worth snapshots" ON net_worth_snapshots;
+CREATE POLICY "Users can update their own net worth snapshots"
+    ON net_worth_snapshots FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own net worth snapshots" ON net_worth_snapshots;
+CREATE POLICY "Users can delete their own net worth snapshots"
+    ON net_worth_snapshots FOR DELETE
+    USING (auth.uid() = user_id);
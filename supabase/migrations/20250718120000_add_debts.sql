@@ -0,0 +1,46 @@
+-- Debts table
+-- Credit cards and loans being paid off. The principal is what is still
+-- owed; each debt's monthly minimum payment is scheduled as a bill so it
+-- shows up with the other bill reminders. A credit card can be linked to its
+-- bank account.
+CREATE TABLE IF NOT EXISTS debts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    debt_type TEXT NOT NULL DEFAULT 'loan' CHECK (debt_type IN ('credit_card', 'loan')),
+    principal DECIMAL(12, 2) NOT NULL CHECK (principal >= 0),
+    apr DECIMAL(6, 3) NOT NULL DEFAULT 0 CHECK (apr >= 0 AND apr <= 100),
+    minimum_payment DECIMAL(12, 2) NOT NULL CHECK (minimum_payment > 0),
+    due_day INTEGER NOT NULL CHECK (due_day BETWEEN 1 AND 31),
+    bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+    bill_id UUID REFERENCES bills_subscriptions(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS debts_bill_id_idx ON debts (bill_id);
+
+-- Enable RLS on debts table
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for debts
+DROP POLICY IF EXISTS "Users can view their own debts" ON debts;
+CREATE POLICY "Users can view their own debts"
+    ON debts FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own debts" ON debts;
+CREATE POLICY "Users can create their own debts"
+    ON debts FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own debts" ON debts;
+CREATE POLICY "Users can update their own debts"
+    ON debts FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own debts" ON debts;
+CREATE POLICY "Users can delete their own debts"
+    ON debts FOR DELETE
+    USING (auth.uid() = user_id);
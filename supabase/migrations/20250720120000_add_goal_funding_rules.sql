@@ -0,0 +1,65 @@
+-- Goal funding rules table
+-- Automatic contributions to a goal, set aside from a bank account. A fixed
+-- rule contributes an amount on a cadence, and next_date points at the next
+-- contribution that has not been made yet. A percentage rule contributes a
+-- share of every income transaction landing in its account from start_date on.
+CREATE TABLE IF NOT EXISTS goal_funding_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    goal_id UUID NOT NULL REFERENCES financial_goals(id) ON DELETE CASCADE,
+    bank_account_id UUID NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+    rule_type TEXT NOT NULL CHECK (rule_type IN ('fixed', 'percentage')),
+    amount DECIMAL(12, 2) CHECK (amount > 0),
+    percentage DECIMAL(5, 2) CHECK (percentage > 0 AND percentage <= 100),
+    frequency TEXT CHECK (frequency IN ('weekly', 'monthly')),
+    start_date DATE NOT NULL,
+    next_date DATE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT goal_funding_rules_terms_check CHECK (
+        (rule_type = 'fixed' AND amount IS NOT NULL AND frequency IS NOT NULL AND next_date IS NOT NULL AND percentage IS NULL)
+        OR (rule_type = 'percentage' AND percentage IS NOT NULL AND amount IS NULL AND frequency IS NULL AND next_date IS NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS goal_funding_rules_goal_id_idx ON goal_funding_rules (goal_id);
+
+-- Enable RLS on goal_funding_rules table
+ALTER TABLE goal_funding_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for goal_funding_rules
+DROP POLICY IF EXISTS "Users can view their own goal funding rules" ON goal_funding_rules;
+CREATE POLICY "Users can view their own goal funding rules"
+    ON goal_funding_rules FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own goal funding rules" ON goal_funding_rules;
+CREATE POLICY "Users can create their own goal funding rules"
+    ON goal_funding_rules FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own goal funding rules" ON goal_funding_rules;
+CREATE POLICY "Users can update their own goal funding rules"
+    ON goal_funding_rules FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own goal funding rules" ON goal_funding_rules;
+CREATE POLICY "Users can delete their own goal funding rules"
+    ON goal_funding_rules FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Link automatic contributions to the rule that made them, the account they
+-- were set aside from and, for percentage rules, the income they came out of.
+-- The unique constraints keep two open tabs from contributing the same
+-- scheduled date or income transaction twice.
+ALTER TABLE goal_contributions ADD COLUMN IF NOT EXISTS funding_rule_id UUID REFERENCES goal_funding_rules(id) ON DELETE SET NULL;
+ALTER TABLE goal_contributions ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
+ALTER TABLE goal_contributions ADD COLUMN IF NOT EXISTS source_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL;
+ALTER TABLE goal_contributions ADD COLUMN IF NOT EXISTS scheduled_date DATE;
+
+ALTER TABLE goal_contributions DROP CONSTRAINT IF EXISTS goal_contributions_scheduled_key;
+ALTER TABLE goal_contributions ADD CONSTRAINT goal_contributions_scheduled_key UNIQUE (funding_rule_id, scheduled_date);
+
+ALTER TABLE goal_contributions DROP CONSTRAINT IF EXISTS goal_contributions_source_transaction_key;
+ALTER TABLE goal_contributions ADD CONSTRAINT goal_contributions_source_transaction_key UNIQUE (funding_rule_id, source_transaction_id);
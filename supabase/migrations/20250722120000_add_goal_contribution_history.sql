@@ -0,0 +1,151 @@
+-- Contribution-derived goal amounts
+-- A goal's current amount is its opening amount plus every contribution made
+-- to it, and withdrawals are contributions with a negative amount. Its status
+-- follows the amount: achieved once the target is reached and back in
+-- progress when it drops below it again. Cancelled goals stay cancelled.
+-- current_amount and status are kept in step by triggers, in the same
+-- database transaction as the change that moved them.
+ALTER TABLE financial_goals ADD COLUMN IF NOT EXISTS opening_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE goal_contributions DROP CONSTRAINT IF EXISTS goal_contributions_amount_check;
+ALTER TABLE goal_contributions ADD CONSTRAINT goal_contributions_amount_check CHECK (amount <> 0);
+
+-- Money contributed to each goal so far
+CREATE OR REPLACE FUNCTION goal_contributed_amount(p_goal_id UUID)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(amount), 0)
+    FROM goal_contributions
+    WHERE goal_id = p_goal_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Existing amounts were kept by hand and already include the contributions,
+-- so the opening amount is whatever is left once they are taken out
+UPDATE financial_goals
+SET opening_amount = COALESCE(current_amount, 0) - goal_contributed_amount(id);
+
+-- Recompute a goal's amount and status whenever the goal is written, so a
+-- changed target or a hand-edited current_amount can't leave them stale
+CREATE OR REPLACE FUNCTION apply_goal_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.current_amount := NEW.opening_amount + goal_contributed_amount(NEW.id);
+
+    IF NEW.status IS DISTINCT FROM 'cancelled' THEN
+        NEW.status := CASE
+            WHEN NEW.current_amount >= NEW.target_amount THEN 'achieved'
+            ELSE 'in_progress'
+        END;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS financial_goals_amount ON financial_goals;
+CREATE TRIGGER financial_goals_amount
+    BEFORE INSERT OR UPDATE ON financial_goals
+    FOR EACH ROW EXECUTE FUNCTION apply_goal_amount();
+
+-- Touch the goals a contribution change affects so their amount is recomputed
+CREATE OR REPLACE FUNCTION apply_goal_contribution()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        UPDATE financial_goals SET updated_at = NOW() WHERE id = OLD.goal_id;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR (TG_OP = 'UPDATE' AND NEW.goal_id IS DISTINCT FROM OLD.goal_id) THEN
+        UPDATE financial_goals SET updated_at = NOW() WHERE id = NEW.goal_id;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS goal_contributions_amount ON goal_contributions;
+CREATE TRIGGER goal_contributions_amount
+    AFTER INSERT OR UPDATE OR DELETE ON goal_contributions
+    FOR EACH ROW EXECUTE FUNCTION apply_goal_contribution();
+
+-- Bring every goal in step once
+UPDATE financial_goals SET updated_at = updated_at;
+
+-- Allow contributions to be corrected and removed
+DROP POLICY IF EXISTS "Users can update contributions to their own goals" ON goal_contributions;
+CREATE POLICY "Users can update contributions to their own goals"
+    ON goal_contributions FOR UPDATE
+    USING (EXISTS (
+        SELECT 1 FROM financial_goals
+        WHERE financial_goals.id = goal_contributions.goal_id
+            AND financial_goals.user_id = auth.uid()
+    ));
+
+DROP POLICY IF EXISTS "Users can delete contributions to their own goals" ON goal_contributions;
+CREATE POLICY "Users can delete contributions to their own goals"
+    ON goal_contributions FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM financial_goals
+        WHERE financial_goals.id = goal_contributions.goal_id
+            AND financial_goals.user_id = auth.uid()
+    ));
+
+-- Goal contribution history table
+-- Every contribution that is made, edited or deleted, with the row before and
+-- after the change. Written by trigger only, so it also covers changes made
+-- directly in the database.
+CREATE TABLE IF NOT EXISTS goal_contribution_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    goal_id UUID NOT NULL REFERENCES financial_goals(id) ON DELETE CASCADE,
+    -- Not a foreign key: the history outlives deleted contributions
+    contribution_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    before JSONB,
+    after JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goal_contribution_history_goal_id_idx ON goal_contribution_history (goal_id, created_at);
+
+-- Enable RLS on goal_contribution_history table
+ALTER TABLE goal_contribution_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view the contribution history of their own goals" ON goal_contribution_history;
+CREATE POLICY "Users can view the contribution history of their own goals"
+    ON goal_contribution_history FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM financial_goals
+        WHERE financial_goals.id = goal_contribution_history.goal_id
+            AND financial_goals.user_id = auth.uid()
+    ));
+
+CREATE OR REPLACE FUNCTION log_goal_contribution_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO goal_contribution_history (goal_id, contribution_id, action, changed_by, after)
+        VALUES (NEW.goal_id, NEW.id, 'created', auth.uid(), to_jsonb(NEW));
+        RETURN NEW;
+    ELSIF TG_OP = 'UPDATE' THEN
+        INSERT INTO goal_contribution_history (goal_id, contribution_id, action, changed_by, before, after)
+        VALUES (NEW.goal_id, NEW.id, 'updated', auth.uid(), to_jsonb(OLD), to_jsonb(NEW));
+        RETURN NEW;
+    END IF;
+
+    -- Contributions are deleted along with their goal; its history goes too
+    IF EXISTS (SELECT 1 FROM financial_goals WHERE id = OLD.goal_id) THEN
+        INSERT INTO goal_contribution_history (goal_id, contribution_id, action, changed_by, before)
+        VALUES (OLD.goal_id, OLD.id, 'deleted', auth.uid(), to_jsonb(OLD));
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS goal_contributions_history ON goal_contributions;
+CREATE TRIGGER goal_contributions_history
+    AFTER INSERT OR UPDATE OR DELETE ON goal_contributions
+    FOR EACH ROW EXECUTE FUNCTION log_goal_contribution_change();
@@ -0,0 +1,83 @@
+-- Bill payment transactions
+-- A bill payment can be recorded as an expense transaction on a bank account,
+-- so the money it moved shows up in budgets, analytics and account balances.
+-- The payment and its transaction are kept in step by triggers: editing the
+-- amount or date of either one edits the other, and deleting either one
+-- deletes both.
+ALTER TABLE bill_payments ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bill_payments_transaction_id_key ON bill_payments (transaction_id);
+
+-- Carry payment edits over to the linked transaction, and delete it along
+-- with the payment. Only changed values are written, so the two triggers
+-- stop as soon as both records agree.
+CREATE OR REPLACE FUNCTION sync_bill_payment_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.transaction_id IS NOT NULL THEN
+            DELETE FROM transactions WHERE id = OLD.transaction_id;
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NEW.transaction_id IS NOT NULL THEN
+        UPDATE transactions
+        SET amount = NEW.amount,
+            date = NEW.payment_date,
+            payment_method = NEW.payment_method,
+            updated_at = NOW()
+        WHERE id = NEW.transaction_id
+            AND (amount IS DISTINCT FROM NEW.amount
+                OR date IS DISTINCT FROM NEW.payment_date
+                OR payment_method IS DISTINCT FROM NEW.payment_method);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS bill_payments_transaction ON bill_payments;
+CREATE TRIGGER bill_payments_transaction
+    AFTER UPDATE OR DELETE ON bill_payments
+    FOR EACH ROW EXECUTE FUNCTION sync_bill_payment_transaction();
+
+-- Carry transaction edits over to the bill payment it records. Deleting the
+-- transaction deletes the payment through the foreign key.
+CREATE OR REPLACE FUNCTION sync_transaction_bill_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE bill_payments
+    SET amount = NEW.amount,
+        payment_date = NEW.date,
+        payment_method = NEW.payment_method
+    WHERE transaction_id = NEW.id
+        AND (amount IS DISTINCT FROM NEW.amount
+            OR payment_date IS DISTINCT FROM NEW.date
+            OR payment_method IS DISTINCT FROM NEW.payment_method);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_bill_payment ON transactions;
+CREATE TRIGGER transactions_bill_payment
+    AFTER UPDATE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION sync_transaction_bill_payment();
+
+-- Allow payments to be corrected and removed
+DROP POLICY IF EXISTS "Users can update payments of their own bills" ON bill_payments;
+CREATE POLICY "Users can update payments of their own bills"
+    ON bill_payments FOR UPDATE
+    USING (EXISTS (
+        SELECT 1 FROM bills_subscriptions
+        WHERE bills_subscriptions.id = bill_payments.bill_id
+            AND bills_subscriptions.user_id = auth.uid()
+    ));
+
+DROP POLICY IF EXISTS "Users can delete payments of their own bills" ON bill_payments;
+CREATE POLICY "Users can delete payments of their own bills"
+    ON bill_payments FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM bills_subscriptions
+        WHERE bills_subscriptions.id = bill_payments.bill_id
+            AND bills_subscriptions.user_id = auth.uid()
+    ));
@@ -0,0 +1,116 @@
+-- Shared expense splitting
+-- A group expense is paid by one member and can be split across members:
+-- equally, by percentage, by shares or by exact amounts. Each split row is
+-- what one member owes for the expense. Settlements record one member paying
+-- another back. Together they give every member a running balance.
+ALTER TABLE group_transactions ADD COLUMN IF NOT EXISTS paid_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE group_transactions ADD COLUMN IF NOT EXISTS split_method TEXT CHECK (split_method IN ('equal', 'percentage', 'shares', 'exact'));
+
+-- Whoever entered an expense so far is taken to have paid it
+UPDATE group_transactions SET paid_by = created_by WHERE paid_by IS NULL;
+
+-- Group transaction splits table
+CREATE TABLE IF NOT EXISTS group_transaction_splits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES group_transactions(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES budget_groups(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- The percentage, number of shares or exact amount as entered
+    value DECIMAL(12, 4) NOT NULL CHECK (value >= 0),
+    -- What the member owes for the expense
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT group_transaction_splits_member_key UNIQUE (transaction_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS group_transaction_splits_group_id_idx ON group_transaction_splits (group_id);
+
+-- Group settlements table
+CREATE TABLE IF NOT EXISTS group_settlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    group_id UUID NOT NULL REFERENCES budget_groups(id) ON DELETE CASCADE,
+    from_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    to_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    date DATE NOT NULL,
+    notes TEXT,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT group_settlements_members_check CHECK (from_user_id <> to_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS group_settlements_group_id_idx ON group_settlements (group_id, date);
+
+-- Enable RLS on the new tables
+ALTER TABLE group_transaction_splits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_settlements ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for group_transaction_splits
+DROP POLICY IF EXISTS "Users can view splits in their groups" ON group_transaction_splits;
+CREATE POLICY "Users can view splits in their groups"
+    ON group_transaction_splits FOR SELECT
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members WHERE user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Transaction editors can create splits" ON group_transaction_splits;
+CREATE POLICY "Transaction editors can create splits"
+    ON group_transaction_splits FOR INSERT
+    WITH CHECK (
+        transaction_id IN (
+            SELECT id FROM group_transactions
+            WHERE created_by = auth.uid()
+                OR group_id IN (
+                    SELECT group_id FROM group_members
+                    WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+                )
+        )
+    );
+
+DROP POLICY IF EXISTS "Transaction editors can delete splits" ON group_transaction_splits;
+CREATE POLICY "Transaction editors can delete splits"
+    ON group_transaction_splits FOR DELETE
+    USING (
+        transaction_id IN (
+            SELECT id FROM group_transactions
+            WHERE created_by = auth.uid()
+                OR group_id IN (
+                    SELECT group_id FROM group_members
+                    WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+                )
+        )
+    );
+
+-- Create policies for group_settlements
+DROP POLICY IF EXISTS "Users can view settlements in their groups" ON group_settlements;
+CREATE POLICY "Users can view settlements in their groups"
+    ON group_settlements FOR SELECT
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members WHERE user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Group members can record settlements" ON group_settlements;
+CREATE POLICY "Group members can record settlements"
+    ON group_settlements FOR INSERT
+    WITH CHECK (
+        created_by = auth.uid() AND
+        group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND role IN ('owner', 'admin', 'member')
+        )
+    );
+
+DROP POLICY IF EXISTS "Settlement creators and group admins can delete settlements" ON group_settlements;
+CREATE POLICY "Settlement creators and group admins can delete settlements"
+    ON group_settlements FOR DELETE
+    USING (
+        (created_by = auth.uid()) OR
+        (group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+        ))
+    );
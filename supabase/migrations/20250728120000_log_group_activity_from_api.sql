@@ -0,0 +1,31 @@
+-- Group activity logging from the API
+-- Every change to a group's transactions, budgets, members, invitations and
+-- shared categories and budgets is now logged by the API, with the values
+-- before and after the change. The row triggers that logged a short summary
+-- of transaction, budget and member changes are dropped so nothing is logged
+-- twice.
+DROP TRIGGER IF EXISTS log_group_transaction_activity ON group_transactions;
+DROP TRIGGER IF EXISTS log_group_budget_activity ON group_budgets;
+DROP TRIGGER IF EXISTS log_group_member_activity ON group_members;
+DROP FUNCTION IF EXISTS log_group_activity();
+
+-- The feed filters by member, entity type and date
+CREATE INDEX IF NOT EXISTS group_activity_log_group_id_idx ON group_activity_log (group_id, created_at DESC);
+
+-- Users can only log their own activity, in groups they belong to or have
+-- been invited to
+DROP POLICY IF EXISTS "System can insert activity logs" ON group_activity_log;
+DROP POLICY IF EXISTS "Users can log their own activity in their groups" ON group_activity_log;
+CREATE POLICY "Users can log their own activity in their groups"
+    ON group_activity_log FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND (
+            group_id IN (
+                SELECT group_id FROM group_members WHERE user_id = auth.uid()
+            ) OR
+            group_id IN (
+                SELECT group_id FROM group_invitations
+                WHERE email = (SELECT email FROM auth.users WHERE id = auth.uid())
+            )
+        )
+    );
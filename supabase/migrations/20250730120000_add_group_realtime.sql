@@ -0,0 +1,29 @@
+-- Realtime updates for budget groups
+-- Group pages patch their transactions and budgets from realtime changes and
+-- refresh members, activity and group details when they change. Deleted rows
+-- keep all their columns in the change so the group filter and the budget
+-- category still apply to them.
+ALTER TABLE group_transactions REPLICA IDENTITY FULL;
+ALTER TABLE group_budgets REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+    realtime_table text;
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        FOREACH realtime_table IN ARRAY ARRAY[
+            'budget_groups',
+            'group_members',
+            'group_activity_log',
+            'group_transactions',
+            'group_budgets'
+        ] LOOP
+            IF NOT EXISTS (
+                SELECT 1 FROM pg_publication_tables
+                WHERE pubname = 'supabase_realtime' AND tablename = realtime_table
+            ) THEN
+                EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', realtime_table);
+            END IF;
+        END LOOP;
+    END IF;
+END $$;
@@ -0,0 +1,81 @@
+-- Group permissions
+-- What each role may do in a group is decided by the permission matrix in the
+-- API. The owner can also limit members with the family role "child"; those
+-- limits are kept on the group and applied by the API, while the policies
+-- below keep viewers from changing anything they once created.
+ALTER TABLE budget_groups ADD COLUMN IF NOT EXISTS child_limits JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Admins may edit the group, but only the owner sets the limits for children
+CREATE OR REPLACE FUNCTION protect_group_child_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.child_limits IS DISTINCT FROM OLD.child_limits
+        AND NOT EXISTS (
+            SELECT 1 FROM group_members
+            WHERE group_id = NEW.id AND user_id = auth.uid() AND role = 'owner'
+        ) THEN
+        RAISE EXCEPTION 'Only the group owner can change the limits for children';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS protect_group_child_limits ON budget_groups;
+CREATE TRIGGER protect_group_child_limits
+    BEFORE UPDATE ON budget_groups
+    FOR EACH ROW EXECUTE FUNCTION protect_group_child_limits();
+
+-- Creators may only change their own transactions and budgets while they can
+-- still add them
+DROP POLICY IF EXISTS "Transaction creators and group admins can update transactions" ON group_transactions;
+CREATE POLICY "Transaction creators and group admins can update transactions"
+    ON group_transactions FOR UPDATE
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND (
+                role IN ('owner', 'admin')
+                OR (role = 'member' AND group_transactions.created_by = auth.uid())
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Transaction creators and group admins can delete transactions" ON group_transactions;
+CREATE POLICY "Transaction creators and group admins can delete transactions"
+    ON group_transactions FOR DELETE
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND (
+                role IN ('owner', 'admin')
+                OR (role = 'member' AND group_transactions.created_by = auth.uid())
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Budget creators and group admins can update budgets" ON group_budgets;
+CREATE POLICY "Budget creators and group admins can update budgets"
+    ON group_budgets FOR UPDATE
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND (
+                role IN ('owner', 'admin')
+                OR (role = 'member' AND group_budgets.created_by = auth.uid())
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Budget creators and group admins can delete budgets" ON group_budgets;
+CREATE POLICY "Budget creators and group admins can delete budgets"
+    ON group_budgets FOR DELETE
+    USING (
+        group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid() AND (
+                role IN ('owner', 'admin')
+                OR (role = 'member' AND group_budgets.created_by = auth.uid())
+            )
+        )
+    );
@@ -0,0 +1,192 @@
+-- Approval of group expenses
+-- Expenses that need approval, under the owner's approval rules or the limits
+-- for children, are added as pending and don't count towards the group's
+-- totals, budgets and balances until they are approved. The rules are kept on
+-- the group, and new or edited expenses are held for approval here as well as
+-- in the API; reviews are recorded on the transaction.
+ALTER TABLE budget_groups ADD COLUMN IF NOT EXISTS approval_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE group_transactions DROP CONSTRAINT IF EXISTS group_transactions_status_check;
+ALTER TABLE group_transactions ADD CONSTRAINT group_transactions_status_check
+    CHECK (status IN ('pending', 'completed', 'cancelled', 'rejected'));
+
+ALTER TABLE group_transactions ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE group_transactions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE group_transactions ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_group_transactions_pending
+    ON group_transactions(group_id) WHERE status = 'pending';
+
+-- Admins may edit the group, but only the owner sets the limits for children
+-- and the approval rules
+CREATE OR REPLACE FUNCTION protect_group_child_limits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.child_limits IS DISTINCT FROM OLD.child_limits
+            OR NEW.approval_rules IS DISTINCT FROM OLD.approval_rules)
+        AND NOT EXISTS (
+            SELECT 1 FROM group_members
+            WHERE group_id = NEW.id AND user_id = auth.uid() AND role = 'owner'
+        ) THEN
+        RAISE EXCEPTION 'Only the group owner can change the limits for children and the approval rules';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Check whether an expense a member adds or edits has to wait for approval.
+-- This follows needsGroupApproval in the API: owners never need approval, the
+-- approval rules hold back expenses from members with the chosen role or a
+-- lower one, optionally only above an amount, and the limits for children
+-- hold back their expenses above the approval limit.
+CREATE OR REPLACE FUNCTION group_expense_needs_approval(
+    p_group_id UUID,
+    p_user_id UUID,
+    p_type TEXT,
+    p_amount NUMERIC
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    member_role TEXT;
+    member_family_role TEXT;
+    rules JSONB;
+    limits JSONB;
+    rule_limit NUMERIC;
+    child_limit NUMERIC;
+BEGIN
+    IF p_type IS DISTINCT FROM 'expense' THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT role, family_role INTO member_role, member_family_role
+    FROM group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id;
+
+    IF member_role IS NULL OR member_role = 'owner' THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT COALESCE(approval_rules, '{}'::jsonb), COALESCE(child_limits, '{}'::jsonb)
+    INTO rules, limits
+    FROM budget_groups
+    WHERE id = p_group_id;
+
+    IF jsonb_typeof(rules->'amountLimit') = 'number'
+        AND (rules->>'amountLimit')::numeric >= 0 THEN
+        rule_limit := (rules->>'amountLimit')::numeric;
+    END IF;
+    IF jsonb_typeof(limits->'expenseApprovalLimit') = 'number'
+        AND (limits->>'expenseApprovalLimit')::numeric >= 0 THEN
+        child_limit := (limits->>'expenseApprovalLimit')::numeric;
+    END IF;
+
+    RETURN (
+            rules->>'role' IN ('member', 'admin')
+            AND (member_role IN ('viewer', 'member') OR rules->>'role' = 'admin')
+            AND (rule_limit IS NULL OR p_amount > rule_limit)
+        )
+        OR (
+            member_family_role = 'child'
+            AND child_limit IS NOT NULL
+            AND p_amount > child_limit
+        );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- New expenses that need approval are added as pending, whatever status they
+-- were given
+CREATE OR REPLACE FUNCTION require_group_transaction_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Reviews only come from approving or rejecting an existing expense
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_comment := NULL;
+    IF NEW.status = 'rejected' THEN
+        NEW.status := 'pending';
+    END IF;
+
+    IF group_expense_needs_approval(NEW.group_id, auth.uid(), NEW.type, NEW.amount) THEN
+        NEW.status := 'pending';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS require_group_transaction_approval ON group_transactions;
+CREATE TRIGGER require_group_transaction_approval
+    BEFORE INSERT ON group_transactions
+    FOR EACH ROW EXECUTE FUNCTION require_group_transaction_approval();
+
+-- Only a review takes an expense out of pending or rejected, and nobody
+-- reviews their own. Changing the amount, type or submitter of an expense
+-- runs the approval rules again, so an approved expense raised past the limit
+-- goes back to pending. Members who may only review, like parents reviewing
+-- their children's expenses, can't change anything but the review.
+CREATE OR REPLACE FUNCTION protect_group_transaction_review()
+RETURNS TRIGGER AS $$
+DECLARE
+    review_columns TEXT[] := ARRAY['status', 'reviewed_by', 'reviewed_at', 'review_comment', 'updated_at'];
+BEGIN
+    IF (NEW.amount IS DISTINCT FROM OLD.amount
+            OR NEW.type IS DISTINCT FROM OLD.type
+            OR NEW.created_by IS DISTINCT FROM OLD.created_by)
+        AND group_expense_needs_approval(NEW.group_id, auth.uid(), NEW.type, NEW.amount) THEN
+        NEW.status := 'pending';
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        NEW.review_comment := NULL;
+    END IF;
+
+    IF OLD.status IN ('pending', 'rejected')
+        AND NEW.status IS DISTINCT FROM OLD.status
+        AND NEW.status IS DISTINCT FROM 'pending'
+        AND (NEW.reviewed_by IS DISTINCT FROM auth.uid() OR NEW.created_by = auth.uid()) THEN
+        RAISE EXCEPTION 'Only another member can approve or reject this transaction';
+    END IF;
+
+    IF NOT EXISTS (
+            SELECT 1 FROM group_members
+            WHERE group_id = OLD.group_id AND user_id = auth.uid() AND (
+                role IN ('owner', 'admin')
+                OR (role = 'member' AND OLD.created_by = auth.uid())
+            )
+        )
+        AND (to_jsonb(NEW) - review_columns) IS DISTINCT FROM (to_jsonb(OLD) - review_columns) THEN
+        RAISE EXCEPTION 'Only the review of this transaction can be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS protect_group_transaction_review ON group_transactions;
+CREATE TRIGGER protect_group_transaction_review
+    BEFORE UPDATE ON group_transactions
+    FOR EACH ROW EXECUTE FUNCTION protect_group_transaction_review();
+
+-- Parents review their children's expenses, even when they can't edit other
+-- members' transactions. protect_group_transaction_review keeps them to the
+-- review itself.
+DROP POLICY IF EXISTS "Parents can review their children's pending transactions" ON group_transactions;
+CREATE POLICY "Parents can review their children's pending transactions"
+    ON group_transactions FOR UPDATE
+    USING (
+        status = 'pending'
+        AND group_id IN (
+            SELECT group_id FROM group_members
+            WHERE user_id = auth.uid()
+                AND family_role = 'parent'
+                AND role IN ('owner', 'admin', 'member')
+        )
+        AND created_by IN (
+            SELECT user_id FROM group_members
+            WHERE group_id = group_transactions.group_id AND family_role = 'child'
+        )
+    )
+    WITH CHECK (
+        status IN ('completed', 'rejected')
+        AND reviewed_by = auth.uid()
+    );
@@ -0,0 +1,9 @@
+-- Dismissed notifications
+-- Dismissing a notification hides it instead of deleting it, so its dedupe_key
+-- stays taken and the rules don't raise the same alert again the next time
+-- they run.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dismissed BOOLEAN NOT NULL DEFAULT FALSE;
+
+DROP INDEX IF EXISTS notifications_user_created_idx;
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx
+    ON notifications (user_id, created_at DESC) WHERE NOT dismissed;
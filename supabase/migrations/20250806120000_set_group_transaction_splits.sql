@@ -0,0 +1,32 @@
+-- Replacing a group expense's split
+-- The split method is set, the old split removed and the new one added in a
+-- single transaction, so a save that fails part way keeps the previous split.
+-- The function runs as the caller, so the policies on both tables still apply.
+CREATE OR REPLACE FUNCTION set_group_transaction_splits(
+    p_transaction_id UUID,
+    p_split_method TEXT,
+    p_splits JSONB
+)
+RETURNS SETOF group_transaction_splits AS $$
+DECLARE
+    transaction_group_id UUID;
+BEGIN
+    UPDATE group_transactions
+    SET split_method = p_split_method
+    WHERE id = p_transaction_id
+    RETURNING group_id INTO transaction_group_id;
+
+    IF transaction_group_id IS NULL THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    DELETE FROM group_transaction_splits WHERE transaction_id = p_transaction_id;
+
+    RETURN QUERY
+    INSERT INTO group_transaction_splits (transaction_id, group_id, user_id, value, amount)
+    SELECT p_transaction_id, transaction_group_id, split.user_id, split.value, split.amount
+    FROM jsonb_to_recordset(COALESCE(p_splits, '[]'::jsonb))
+        AS split(user_id UUID, value DECIMAL, amount DECIMAL)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,32 @@
+-- Bill currency
+-- Every bill records the currency its amount is in, so forecasts can convert
+-- it into the account it is paid from. Existing bills, and bills added without
+-- one, are taken to be in the user's base currency.
+ALTER TABLE bills_subscriptions ADD COLUMN IF NOT EXISTS currency TEXT;
+
+UPDATE bills_subscriptions b
+SET currency = COALESCE(
+        (SELECT currency FROM user_settings WHERE id = b.user_id),
+        'USD'
+    )
+WHERE b.currency IS NULL;
+
+ALTER TABLE bills_subscriptions ALTER COLUMN currency SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION default_bill_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.currency IS NULL THEN
+        NEW.currency := COALESCE(
+            (SELECT currency FROM user_settings WHERE id = NEW.user_id),
+            'USD'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS bills_subscriptions_default_currency ON bills_subscriptions;
+CREATE TRIGGER bills_subscriptions_default_currency
+    BEFORE INSERT ON bills_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION default_bill_currency();
@@ -0,0 +1,19 @@
+-- Recurring transfers
+-- A recurring transaction can be a transfer that moves money from
+-- bank_account_id to transfer_account_id. Its instances are generated as
+-- transfer transactions, so both account balances follow them.
+ALTER TABLE recurring_transactions DROP CONSTRAINT IF EXISTS recurring_transactions_type_check;
+ALTER TABLE recurring_transactions ADD CONSTRAINT recurring_transactions_type_check
+    CHECK (type IN ('expense', 'income', 'transfer'));
+
+ALTER TABLE recurring_transactions ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL;
+
+-- Only transfers have a destination account, and it differs from the source.
+-- Either side becomes NULL when its account is deleted; the app then stops
+-- generating the transfer.
+ALTER TABLE recurring_transactions DROP CONSTRAINT IF EXISTS recurring_transactions_transfer_accounts_check;
+ALTER TABLE recurring_transactions ADD CONSTRAINT recurring_transactions_transfer_accounts_check
+    CHECK (
+        (type = 'transfer' AND amount > 0 AND bank_account_id <> transfer_account_id)
+        OR (type <> 'transfer' AND transfer_account_id IS NULL)
+    );
@@ -0,0 +1,39 @@
+-- Goal contribution transactions
+-- Automatic contributions are set aside from a bank account, so each one is
+-- also recorded as an expense on that account in the goal's category, which
+-- is what moves the account's balance. Deleting the contribution deletes the
+-- expense and deleting the expense deletes the contribution; correcting the
+-- contribution's amount or date carries over to the expense.
+ALTER TABLE goal_contributions ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS goal_contributions_transaction_id_key ON goal_contributions (transaction_id);
+
+-- The expense is in the account's currency, so a corrected amount is scaled
+-- at the rate the contribution was made at
+CREATE OR REPLACE FUNCTION sync_goal_contribution_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.transaction_id IS NOT NULL THEN
+            DELETE FROM transactions WHERE id = OLD.transaction_id;
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NEW.transaction_id IS NOT NULL
+        AND (NEW.amount IS DISTINCT FROM OLD.amount
+            OR NEW.contribution_date IS DISTINCT FROM OLD.contribution_date) THEN
+        UPDATE transactions
+        SET amount = ROUND(amount * NEW.amount / OLD.amount, 2),
+            date = NEW.contribution_date,
+            updated_at = NOW()
+        WHERE id = NEW.transaction_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS goal_contributions_transaction ON goal_contributions;
+CREATE TRIGGER goal_contributions_transaction
+    AFTER UPDATE OR DELETE ON goal_contributions
+    FOR EACH ROW EXECUTE FUNCTION sync_goal_contribution_transaction();
@@ -0,0 +1,52 @@
+-- Transfers between accounts in the same currency only
+-- A transfer stores one amount, which the ledger takes out of the source
+-- account and puts into the destination account as is. Between accounts in
+-- different currencies that would credit the wrong amount, so such transfers
+-- are rejected. Existing transfers are only checked when their accounts
+-- change.
+CREATE OR REPLACE FUNCTION check_transfer_currencies()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.type <> 'transfer'
+        OR NEW.bank_account_id IS NULL
+        OR NEW.transfer_account_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+        AND OLD.type = 'transfer'
+        AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id
+        AND NEW.transfer_account_id IS NOT DISTINCT FROM OLD.transfer_account_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF (SELECT currency FROM bank_accounts WHERE id = NEW.bank_account_id)
+        IS DISTINCT FROM
+        (SELECT currency FROM bank_accounts WHERE id = NEW.transfer_account_id) THEN
+        RAISE EXCEPTION 'Transfers are only possible between accounts in the same currency';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_transfer_currencies ON transactions;
+CREATE TRIGGER transactions_transfer_currencies
+    BEFORE INSERT OR UPDATE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION check_transfer_currencies();
+
+DROP TRIGGER IF EXISTS recurring_transactions_transfer_currencies ON recurring_transactions;
+CREATE TRIGGER recurring_transactions_transfer_currencies
+    BEFORE INSERT OR UPDATE ON recurring_transactions
+    FOR EACH ROW EXECUTE FUNCTION check_transfer_currencies();
+
+-- Recurring transfers that are already set up between currencies would fail
+-- on every run, so they are stopped
+UPDATE recurring_transactions AS recurring
+SET is_active = FALSE, updated_at = NOW()
+FROM bank_accounts AS source, bank_accounts AS destination
+WHERE recurring.type = 'transfer'
+    AND recurring.is_active
+    AND source.id = recurring.bank_account_id
+    AND destination.id = recurring.transfer_account_id
+    AND source.currency IS DISTINCT FROM destination.currency;
@@ -0,0 +1,63 @@
+-- Keep split lines summing to their transaction
+-- The split lines of a transaction must add up to its amount. Writers that
+-- change only the amount (bill payment sync, direct updates) make the lines
+-- wrong, so they are removed and the transaction counts as unsplit again.
+-- Changes to the lines themselves are checked when the database transaction
+-- commits, so lines can be replaced by a delete followed by an insert.
+CREATE OR REPLACE FUNCTION clear_mismatched_transaction_splits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+        DELETE FROM transaction_splits
+        WHERE transaction_id = NEW.id
+            AND (
+                SELECT SUM(amount) FROM transaction_splits
+                WHERE transaction_id = NEW.id
+            ) IS DISTINCT FROM NEW.amount;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transactions_clear_mismatched_splits ON transactions;
+CREATE TRIGGER transactions_clear_mismatched_splits
+    AFTER UPDATE ON transactions
+    FOR EACH ROW EXECUTE FUNCTION clear_mismatched_transaction_splits();
+
+CREATE OR REPLACE FUNCTION check_transaction_split_total()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_transaction_id UUID;
+    v_total DECIMAL;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_transaction_id := OLD.transaction_id;
+    ELSE
+        v_transaction_id := NEW.transaction_id;
+    END IF;
+
+    SELECT SUM(amount) INTO v_total
+    FROM transaction_splits
+    WHERE transaction_id = v_transaction_id;
+
+    -- No lines left, or the transaction itself was deleted
+    IF v_total IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_total IS DISTINCT FROM (
+        SELECT amount FROM transactions WHERE id = v_transaction_id
+    ) THEN
+        RAISE EXCEPTION 'Split lines must add up to the transaction amount';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS transaction_splits_check_total ON transaction_splits;
+CREATE CONSTRAINT TRIGGER transaction_splits_check_total
+    AFTER INSERT OR UPDATE OR DELETE ON transaction_splits
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_transaction_split_total();
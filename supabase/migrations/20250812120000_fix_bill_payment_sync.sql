@@ -0,0 +1,125 @@
+-- Bill payments in other currencies, and deleted payments
+-- A payment is in its bill's currency, while the expense it records is in the
+-- currency of the account it was paid from. Amount edits are therefore
+-- carried over to the other record in proportion rather than copied; when both
+-- are in the same currency that comes down to the same amount. Only the
+-- change a user made is carried over, not the echo of it, so rounding can't
+-- make the two triggers call each other back and forth.
+CREATE OR REPLACE FUNCTION sync_bill_payment_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.transaction_id IS NOT NULL THEN
+            DELETE FROM transactions WHERE id = OLD.transaction_id;
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NEW.transaction_id IS NOT NULL AND pg_trigger_depth() = 1 THEN
+        UPDATE transactions
+        SET amount = CASE
+                WHEN NEW.amount IS DISTINCT FROM OLD.amount AND OLD.amount > 0
+                    THEN ROUND(amount * NEW.amount / OLD.amount, 2)
+                ELSE amount
+            END,
+            date = NEW.payment_date,
+            payment_method = NEW.payment_method,
+            updated_at = NOW()
+        WHERE id = NEW.transaction_id
+            AND (NEW.amount IS DISTINCT FROM OLD.amount
+                OR date IS DISTINCT FROM NEW.payment_date
+                OR payment_method IS DISTINCT FROM NEW.payment_method);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION sync_transaction_bill_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE bill_payments
+    SET amount = CASE
+            WHEN NEW.amount IS DISTINCT FROM OLD.amount AND OLD.amount > 0
+                THEN ROUND(amount * NEW.amount / OLD.amount, 2)
+            ELSE amount
+        END,
+        payment_date = NEW.date,
+        payment_method = NEW.payment_method
+    WHERE transaction_id = NEW.id
+        AND (NEW.amount IS DISTINCT FROM OLD.amount
+            OR payment_date IS DISTINCT FROM NEW.date
+            OR payment_method IS DISTINCT FROM NEW.payment_method);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- The first occurrence of a bill's cadence after a date, anchored at its due
+-- date the way the app's calculateNextDueDate is. Adding months to the anchor
+-- keeps its day of month, clamped to shorter months.
+CREATE OR REPLACE FUNCTION bill_next_due_date(p_due_date DATE, p_frequency TEXT, p_after DATE)
+RETURNS DATE AS $$
+DECLARE
+    v_n INTEGER := 0;
+    v_date DATE := p_due_date;
+BEGIN
+    IF p_frequency = 'one-time' THEN
+        RETURN p_due_date;
+    END IF;
+
+    WHILE v_date <= p_after LOOP
+        v_n := v_n + 1;
+        v_date := CASE p_frequency
+            WHEN 'daily' THEN p_due_date + v_n
+            WHEN 'weekly' THEN p_due_date + v_n * 7
+            WHEN 'monthly' THEN (p_due_date + make_interval(months => v_n))::DATE
+            ELSE (p_due_date + make_interval(years => v_n))::DATE
+        END;
+    END LOOP;
+
+    RETURN v_date;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- A deleted payment no longer counts as paying its bill. If it was the one
+-- the bill's last paid date came from, the last paid and next due dates are
+-- worked out again from the payments that are left; without any, the bill is
+-- due from today.
+CREATE OR REPLACE FUNCTION reset_bill_paid_dates()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_last_paid DATE;
+BEGIN
+    SELECT MAX(payment_date) INTO v_last_paid
+    FROM bill_payments
+    WHERE bill_id = OLD.bill_id;
+
+    UPDATE bills_subscriptions
+    SET last_paid_date = v_last_paid,
+        next_due_date = CASE
+                WHEN due_date IS NULL THEN next_due_date
+                ELSE bill_next_due_date(
+                    due_date,
+                    frequency,
+                    COALESCE(v_last_paid, CURRENT_DATE - 1)
+                )
+            END,
+        payment_status = CASE
+                WHEN v_last_paid IS NULL THEN NULL
+                ELSE payment_status
+            END,
+        updated_at = NOW()
+    WHERE id = OLD.bill_id
+        AND last_paid_date = OLD.payment_date;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+DROP TRIGGER IF EXISTS bill_payments_reset_paid_dates ON bill_payments;
+CREATE TRIGGER bill_payments_reset_paid_dates
+    AFTER DELETE ON bill_payments
+    FOR EACH ROW EXECUTE FUNCTION reset_bill_paid_dates();